@@ -24,6 +24,7 @@ import BrainInspector from "./pages/BrainInspector";
 import Agents from "./pages/Agents";
 import CronJobs from "./pages/CronJobs";
 import Reports from "./pages/Reports";
+import Deploy from "./pages/Deploy";
 import Landing from "./pages/Landing";
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
@@ -64,6 +65,7 @@ const TrackedRoutes = () => {
       <Route path="/brain" element={<AuthLayout><BrainInspector /></AuthLayout>} />
       <Route path="/crons" element={<AuthLayout><CronJobs /></AuthLayout>} />
       <Route path="/reports" element={<AuthLayout><Reports /></AuthLayout>} />
+      <Route path="/deploy" element={<AuthLayout><Deploy /></AuthLayout>} />
 
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
-import { format, isSameDay, startOfDay, addDays } from "date-fns";
+import { format, startOfDay, addDays, startOfMonth, endOfMonth, startOfWeek, endOfWeek } from "date-fns";
 import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, CalendarPlus } from "lucide-react";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Calendar } from "@/components/ui/calendar";
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { QuickAddEvent, UpcomingPreview } from "@/components/calendar";
+import { entryOccurrences } from "@/lib/rrule";
 import type { Entry } from "@/components/EntryCard";
 
 interface CalendarViewProps {
@@ -85,20 +86,38 @@ export function CalendarView({ userId, open, onOpenChange, onViewEntry }: Calend
     }
   }, [open, fetchEntries]);
 
+  // Entries on each date between two dates, recurring entries once per occurrence
+  const occurrencesBetween = useCallback((from: string, to: string) => {
+    return entries.flatMap(e => entryOccurrences(e, from, to).map(date => ({ ...e, event_date: date })));
+  }, [entries]);
+
+  // Open the series rather than the occurrence that was clicked
+  const viewEntry = useCallback((entry: Entry) => {
+    onViewEntry(entries.find(e => e.id === entry.id) ?? entry);
+  }, [entries, onViewEntry]);
+
+  // Occurrences in the visible month, by date
+  const entriesByDate = useMemo(() => {
+    const from = format(startOfWeek(startOfMonth(currentMonth)), "yyyy-MM-dd");
+    const to = format(endOfWeek(endOfMonth(currentMonth)), "yyyy-MM-dd");
+    const map: Record<string, Entry[]> = {};
+    for (const entry of occurrencesBetween(from, to)) {
+      (map[entry.event_date!] ??= []).push(entry);
+    }
+    return map;
+  }, [occurrencesBetween, currentMonth]);
+
   // Get dates that have entries
   const datesWithEntries = useMemo(() => {
-    return entries
-      .filter(e => e.event_date)
-      .map(e => new Date(e.event_date!));
-  }, [entries]);
+    return Object.keys(entriesByDate).map(d => new Date(`${d}T00:00:00`));
+  }, [entriesByDate]);
 
   // Get entries for selected date
   const entriesForSelectedDate = useMemo(() => {
     if (!selectedDate) return [];
-    return entries.filter(e => 
-      e.event_date && isSameDay(new Date(e.event_date), selectedDate)
-    );
-  }, [entries, selectedDate]);
+    const dateStr = format(selectedDate, "yyyy-MM-dd");
+    return occurrencesBetween(dateStr, dateStr);
+  }, [occurrencesBetween, selectedDate]);
 
   // Upcoming entries (next 7 days)
   const upcomingEntries = useMemo(() => {
@@ -107,8 +126,7 @@ export function CalendarView({ userId, open, onOpenChange, onViewEntry }: Calend
     const todayStr = format(today, "yyyy-MM-dd");
     const nextWeekStr = format(nextWeek, "yyyy-MM-dd");
     
-    return entries
-      .filter(e => e.event_date && e.event_date >= todayStr && e.event_date <= nextWeekStr)
+    return occurrencesBetween(todayStr, nextWeekStr)
       .sort((a, b) => {
         const dateA = a.event_date || "";
         const dateB = b.event_date || "";
@@ -117,7 +135,7 @@ export function CalendarView({ userId, open, onOpenChange, onViewEntry }: Calend
         const timeB = b.event_time || "99:99";
         return timeA.localeCompare(timeB);
       });
-  }, [entries]);
+  }, [occurrencesBetween]);
 
   // Custom day render to show dots for dates with entries
   const modifiers = useMemo(() => ({
@@ -165,7 +183,7 @@ export function CalendarView({ userId, open, onOpenChange, onViewEntry }: Calend
               </h3>
               <UpcomingPreview 
                 entries={upcomingEntries} 
-                onViewEntry={onViewEntry}
+                onViewEntry={viewEntry}
                 maxItems={4}
               />
             </div>
@@ -184,9 +202,7 @@ export function CalendarView({ userId, open, onOpenChange, onViewEntry }: Calend
               className="mx-auto pointer-events-auto"
               components={{
                 DayContent: ({ date }) => {
-                  const dateEntries = entries.filter(e => 
-                    e.event_date && isSameDay(new Date(e.event_date), date)
-                  );
+                  const dateEntries = entriesByDate[format(date, "yyyy-MM-dd")] ?? [];
                   const dotColors = getEntryDotColors(dateEntries);
                   
                   return (
@@ -264,8 +280,8 @@ export function CalendarView({ userId, open, onOpenChange, onViewEntry }: Calend
                 ) : (
                   entriesForSelectedDate.map((entry) => (
                     <button
-                      key={entry.id}
-                      onClick={() => onViewEntry(entry)}
+                      key={`${entry.id}-${entry.event_date}`}
+                      onClick={() => viewEntry(entry)}
                       className="w-full text-left p-3 rounded-lg border border-border bg-card hover:bg-accent/50 transition-colors"
                     >
                       <div className="flex items-start gap-2">
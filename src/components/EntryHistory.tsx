@@ -0,0 +1,182 @@
+/**
+ * EntryHistory — Version history panel in EntryView
+ *
+ * Lists the entry's revisions newest first. Selecting one shows a
+ * side-by-side diff of the change it records (the text before, and what
+ * replaced it) with a one-click restore of the "before" side.
+ */
+
+import { useMemo, useState } from "react";
+import { formatDistanceToNow, format } from "date-fns";
+import { Loader2, History, RotateCcw, User, Sparkles, GitMerge, RefreshCw, Cpu } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { diffLines, hasChanges } from "@/lib/textDiff";
+import {
+  useEntryRevisions,
+  type EntryRevision,
+  type RevisionSnapshot,
+} from "@/hooks/useEntryRevisions";
+import type { Entry } from "./EntryCard";
+
+interface EntryHistoryProps {
+  entry: Entry;
+  onRestored?: (data: Record<string, unknown>) => void;
+}
+
+const sourceLabels: Record<string, { label: string; icon: typeof User }> = {
+  user: { label: "You edited", icon: User },
+  append: { label: "Appended by Jac", icon: GitMerge },
+  enrichment: { label: "Enrichment", icon: Sparkles },
+  api: { label: "Synced from API", icon: RefreshCw },
+  restore: { label: "Restored", icon: RotateCcw },
+  system: { label: "System update", icon: Cpu },
+};
+
+/** Flatten an entry's tracked fields into text for diffing */
+function snapshotText(snapshot: RevisionSnapshot): string {
+  const parts: string[] = [];
+  if (snapshot.title) parts.push(`# ${snapshot.title}`, "");
+  parts.push(snapshot.content);
+  if (snapshot.list_items.length > 0) {
+    parts.push("", ...snapshot.list_items.map((item) => `- [${item.checked ? "x" : " "}] ${item.text}`));
+  }
+  if (snapshot.tags.length > 0) {
+    parts.push("", `Tags: ${snapshot.tags.join(", ")}`);
+  }
+  return parts.join("\n");
+}
+
+const EntryHistory = ({ entry, onRestored }: EntryHistoryProps) => {
+  const { revisions, loading, error, restoring, restoreRevision } = useEntryRevisions(entry.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selectedIndex = Math.max(0, revisions.findIndex((r) => r.id === selectedId));
+  const selected: EntryRevision | undefined = revisions[selectedIndex];
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    // What replaced this revision: the next newer one, or the entry as it is now
+    const after: RevisionSnapshot = selectedIndex === 0 ? entry : revisions[selectedIndex - 1];
+    return diffLines(snapshotText(selected), snapshotText(after));
+  }, [selected, selectedIndex, revisions, entry]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      const data = await restoreRevision(selected);
+      toast.success("Version restored");
+      setSelectedId(null);
+      if (data) onRestored?.(data);
+    } catch (err) {
+      console.error("Failed to restore revision:", err);
+      toast.error("Failed to restore version");
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground py-6">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span className="text-sm">Loading history...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive py-6">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 text-muted-foreground py-8">
+        <History className="w-6 h-6" />
+        <p className="text-sm">No earlier versions yet</p>
+        <p className="text-xs">Edits, appends and restores will show up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {revisions.map((revision, index) => {
+          const meta = sourceLabels[revision.source] || { label: revision.source, icon: Cpu };
+          const Icon = meta.icon;
+          return (
+            <button
+              key={revision.id}
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={cn(
+                "shrink-0 rounded-md border px-2.5 py-1.5 text-left text-xs transition-colors",
+                index === selectedIndex
+                  ? "border-sky-500/40 bg-sky-500/10"
+                  : "border-white/10 bg-white/[0.03] hover:bg-white/[0.06]"
+              )}
+            >
+              <span className="flex items-center gap-1.5 font-medium">
+                <Icon className="w-3 h-3" />
+                {meta.label}
+              </span>
+              <span className="text-muted-foreground" title={format(new Date(revision.created_at), "PPpp")}>
+                {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <>
+          <div className="grid grid-cols-2 gap-px rounded-md border border-white/10 overflow-hidden text-xs font-mono">
+            <div className="bg-white/[0.03] px-2 py-1 text-muted-foreground font-sans">Before</div>
+            <div className="bg-white/[0.03] px-2 py-1 text-muted-foreground font-sans">
+              After{selectedIndex === 0 && " (current)"}
+            </div>
+            {rows.map((row, i) => (
+              <div key={i} className="contents">
+                <div
+                  className={cn(
+                    "px-2 py-0.5 whitespace-pre-wrap break-words min-h-[1.25rem]",
+                    row.left?.changed && "bg-red-500/10 text-red-300"
+                  )}
+                >
+                  {row.left?.text}
+                </div>
+                <div
+                  className={cn(
+                    "px-2 py-0.5 whitespace-pre-wrap break-words min-h-[1.25rem]",
+                    row.right?.changed && "bg-green-500/10 text-green-300"
+                  )}
+                >
+                  {row.right?.text}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            {!hasChanges(rows) ? (
+              <Badge variant="secondary" className="text-xs">No text changes</Badge>
+            ) : (
+              <span />
+            )}
+            <Button size="sm" variant="outline" onClick={handleRestore} disabled={restoring !== null}>
+              {restoring === selected.id ? (
+                <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+              ) : (
+                <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+              )}
+              Restore this version
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EntryHistory;
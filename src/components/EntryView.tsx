@@ -41,12 +41,15 @@ import {
   Clock,
   Image as ImageIcon,
   Repeat,
+  History,
 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { parseListItems } from "@/lib/parseListItems";
+import { describeEntryRecurrence, entryRRule, patternFromRRule } from "@/lib/rrule";
 import { useSignedUrl } from "@/hooks/use-signed-url";
 import RelatedEntries from "@/components/RelatedEntries";
+import EntryHistory from "@/components/EntryHistory";
 import type { Entry } from "./EntryCard";
 
 interface EntryViewProps {
@@ -104,6 +107,7 @@ const EntryView = ({ entry, open, onClose, onUpdate, onDelete, isAssistantOpen }
   const [editContent, setEditContent] = useState("");
   const [listItems, setListItems] = useState<Array<{ text: string; checked: boolean }>>([]);
   const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
   // Schedule editing state
   const [editEventDate, setEditEventDate] = useState<Date | undefined>(undefined);
@@ -151,6 +155,14 @@ const EntryView = ({ entry, open, onClose, onUpdate, onDelete, isAssistantOpen }
       return;
     }
 
+    // Keep a detailed rule while its frequency is unchanged; otherwise the pattern is the rule
+    const currentRule = entryRRule(entry);
+    const rrule = !editIsRecurring || !editRecurrencePattern
+      ? null
+      : currentRule && patternFromRRule(currentRule) === editRecurrencePattern
+        ? entry.rrule ?? `FREQ=${editRecurrencePattern.toUpperCase()}`
+        : `FREQ=${editRecurrencePattern.toUpperCase()}`;
+
     setSaving(true);
     try {
       const { data, error } = await supabase
@@ -164,6 +176,8 @@ const EntryView = ({ entry, open, onClose, onUpdate, onDelete, isAssistantOpen }
           reminder_minutes: editReminderMinutes ? parseInt(editReminderMinutes) : null,
           is_recurring: editIsRecurring,
           recurrence_pattern: editIsRecurring ? editRecurrencePattern : null,
+          rrule,
+          ...(rrule ? {} : { exdates: [] }),
           updated_at: new Date().toISOString(),
         })
         .eq("id", entry.id)
@@ -355,6 +369,15 @@ const EntryView = ({ entry, open, onClose, onUpdate, onDelete, isAssistantOpen }
                   <Button variant="ghost" size="icon" onClick={startEditing}>
                     <Pencil className="w-4 h-4" />
                   </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setShowHistory((v) => !v)}
+                    className={cn(showHistory && "text-sky-400")}
+                    title="Version history"
+                  >
+                    <History className="w-4 h-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -641,7 +664,7 @@ const EntryView = ({ entry, open, onClose, onUpdate, onDelete, isAssistantOpen }
                 {entry.is_recurring && entry.recurrence_pattern && (
                   <Badge variant="outline" className="gap-1">
                     <Repeat className="h-3 w-3" />
-                    {entry.recurrence_pattern}
+                    {describeEntryRecurrence(entry)}
                   </Badge>
                 )}
               </div>
@@ -662,6 +685,17 @@ const EntryView = ({ entry, open, onClose, onUpdate, onDelete, isAssistantOpen }
             </div>
           )}
 
+          {/* Version history */}
+          {showHistory && !isEditing && (
+            <div className="mt-6 pt-4 border-t">
+              <p className="text-sm text-muted-foreground mb-2">Version history</p>
+              <EntryHistory
+                entry={entry}
+                onRestored={(data) => onUpdate?.(toEntry(data))}
+              />
+            </div>
+          )}
+
           {/* Related Entries — Connect Layer */}
           {!isEditing && (
             <RelatedEntries
@@ -6,7 +6,6 @@
 
 import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
@@ -21,6 +20,9 @@ import {
 import { Search, Loader2, FileText, Sparkles } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useSearch, type SearchResult } from "@/hooks/useSearch";
+import { MatchReasons } from "@/components/search/MatchReasons";
+import { SearchQueryInput } from "@/components/search/SearchQueryInput";
+import { useUserTags } from "@/hooks/useUserTags";
 
 interface GlobalSearchProps {
   userId: string;
@@ -51,6 +53,7 @@ const GlobalSearch = ({ userId, onSelectEntry, open, onOpenChange }: GlobalSearc
     debounceMs: 300,
     autoSearch: false, // Manual search on Enter/button click
   });
+  const knownTags = useUserTags(userId);
 
   // Clear results when dialog closes
   useEffect(() => {
@@ -65,12 +68,6 @@ const GlobalSearch = ({ userId, onSelectEntry, open, onOpenChange }: GlobalSearc
     clearResults();
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter") {
-      search();
-    }
-  };
-
   // Search content component (shared between controlled and uncontrolled modes)
   const SearchContent = ({ autoFocus = false }: { autoFocus?: boolean }) => (
     <>
@@ -95,21 +92,22 @@ const GlobalSearch = ({ userId, onSelectEntry, open, onOpenChange }: GlobalSearc
         </div>
         <span className="text-xs text-muted-foreground">
           {useSemanticSearch 
-            ? "Searches content, titles, and tags" 
+            ? "Keyword, meaning and tag matches, ranked together" 
             : "Exact phrase matching"}
         </span>
       </div>
 
       <div className="space-y-3">
-        <div className="flex gap-2">
-          <Input
+        <div className="flex gap-2 items-start">
+          <SearchQueryInput
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            onKeyDown={handleKeyDown}
+            onChange={setQuery}
+            onSubmit={search}
+            tags={knownTags}
             placeholder={useSemanticSearch 
-              ? "e.g., 'groceries' or 'project ideas'" 
+              ? "e.g., 'project ideas tag:work' or 'type:reminder starred'" 
               : "e.g., 'buy milk' or 'meeting notes'"}
-            className="bg-input border-border flex-1"
+            className="bg-input border-border"
             autoFocus={autoFocus}
           />
           <Button
@@ -147,6 +145,7 @@ const GlobalSearch = ({ userId, onSelectEntry, open, onOpenChange }: GlobalSearc
                 )}
               </div>
               <p className="text-sm text-foreground line-clamp-2 mb-2">{result.content}</p>
+              <MatchReasons reasons={result.reasons} className="mb-2" />
               <div className="flex items-center gap-2 flex-wrap">
                 <p className="text-xs text-muted-foreground">
                   {new Date(result.created_at).toLocaleDateString()}
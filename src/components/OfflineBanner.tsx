@@ -1,10 +1,95 @@
-import { WifiOff } from "lucide-react";
+import { useState } from "react";
+import { WifiOff, CloudUpload, AlertTriangle, RotateCcw, X, ChevronDown, ChevronUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { useOfflineQueue } from "@/hooks/useOfflineQueue";
+import { describeOp } from "@/lib/outbox";
 
+/**
+ * Offline status strip: connection state, changes waiting to sync, and the
+ * dead-letter list of changes that couldn't be synced.
+ */
 const OfflineBanner = () => {
+  const isOnline = useOnlineStatus();
+  const { queueLength, deadLetters, flushQueue, retryDeadLetter, discardDeadLetter } = useOfflineQueue();
+  const [expanded, setExpanded] = useState(false);
+
+  if (isOnline && queueLength === 0 && deadLetters.length === 0) return null;
+
   return (
-    <div className="fixed top-0 left-0 right-0 z-50 bg-destructive text-destructive-foreground py-2 px-4 text-center text-sm font-medium flex items-center justify-center gap-2">
-      <WifiOff className="w-4 h-4" />
-      You're offline. Some features may be unavailable.
+    <div className="border-b border-white/10 bg-white/[0.03] text-sm">
+      <div className="flex items-center gap-3 px-4 py-2">
+        {!isOnline ? (
+          <span className="flex items-center gap-2 text-destructive font-medium">
+            <WifiOff className="w-4 h-4" />
+            You're offline. Changes are saved on this device.
+          </span>
+        ) : queueLength > 0 ? (
+          <span className="flex items-center gap-2 text-white/70">
+            <CloudUpload className="w-4 h-4" />
+            Syncing offline changes…
+          </span>
+        ) : null}
+
+        {queueLength > 0 && (
+          <span className="text-white/50">
+            {queueLength} pending
+          </span>
+        )}
+
+        {deadLetters.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setExpanded((v) => !v)}
+            className="flex items-center gap-1.5 text-amber-400 hover:text-amber-300"
+          >
+            <AlertTriangle className="w-4 h-4" />
+            {deadLetters.length} couldn't sync
+            {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+          </button>
+        )}
+
+        {isOnline && queueLength > 0 && (
+          <Button variant="ghost" size="sm" className="ml-auto h-7 text-xs" onClick={flushQueue}>
+            Sync now
+          </Button>
+        )}
+      </div>
+
+      {expanded && deadLetters.length > 0 && (
+        <ul className="px-4 pb-2 space-y-1">
+          {deadLetters.map((op) => (
+            <li
+              key={op.id}
+              className="flex items-center gap-3 rounded-md border border-white/10 bg-white/[0.02] px-3 py-1.5"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-white/80">{describeOp(op)}</p>
+                {op.lastError && <p className="truncate text-xs text-white/40">{op.lastError}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={!isOnline}
+                onClick={() => retryDeadLetter(op.id)}
+              >
+                <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                Retry
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs text-white/50"
+                onClick={() => discardDeadLetter(op.id)}
+              >
+                <X className="w-3.5 h-3.5 mr-1" />
+                Discard
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
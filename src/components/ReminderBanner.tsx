@@ -1,24 +1,103 @@
 import { useState } from "react";
 import { format } from "date-fns";
-import { Bell, ChevronDown, ChevronUp, Clock, AlertTriangle, X } from "lucide-react";
+import { Bell, Check, ChevronDown, ChevronUp, Clock, AlertTriangle, AlarmClock, CalendarClock, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 import { useUpcomingReminders } from "@/hooks/useUpcomingReminders";
+import { useReminderActions, SNOOZE_LABELS, type SnoozeOption } from "@/hooks/useReminderActions";
 
 interface ReminderBannerProps {
   userId: string;
   onViewEntry?: (entry: { id: string }) => void;
 }
 
+type ReminderEntry = ReturnType<typeof useUpcomingReminders>["todayReminders"][number];
+
+interface ReminderActionsProps {
+  entry: ReminderEntry;
+  busy: boolean;
+  actions: ReturnType<typeof useReminderActions>;
+}
+
+/** Done / snooze / reschedule for one reminder occurrence */
+function ReminderActions({ entry, busy, actions }: ReminderActionsProps) {
+  const [rescheduleDate, setRescheduleDate] = useState(entry.event_date);
+  const target = { entryId: entry.id, occurrenceDate: entry.event_date };
+
+  return (
+    <div className="flex items-center gap-0.5 shrink-0">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        title="Done"
+        disabled={busy}
+        onClick={() => actions.markDone(target)}
+      >
+        <Check className="h-3.5 w-3.5" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Snooze" disabled={busy}>
+            <AlarmClock className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {(Object.keys(SNOOZE_LABELS) as SnoozeOption[]).map((option) => (
+            <DropdownMenuItem key={option} onClick={() => actions.snooze(target, option)}>
+              {SNOOZE_LABELS[option]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {/* Recurring reminders skip a date in the calendar instead */}
+      {!entry.rrule && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Reschedule" disabled={busy}>
+              <CalendarClock className="h-3.5 w-3.5" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-auto p-3 space-y-2">
+            <Input
+              type="date"
+              value={rescheduleDate}
+              onChange={(e) => setRescheduleDate(e.target.value)}
+              className="h-8 text-sm"
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={busy || !rescheduleDate || rescheduleDate === entry.event_date}
+              onClick={() => actions.reschedule(target, rescheduleDate)}
+            >
+              Move reminder
+            </Button>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
+
 export function ReminderBanner({ userId, onViewEntry }: ReminderBannerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isDismissed, setIsDismissed] = useState(false);
-  const { todayReminders, overdueReminders, upcomingCount, loading } = useUpcomingReminders(userId);
+  const { todayReminders, overdueReminders, missedReminders, upcomingCount, loading, refresh } = useUpcomingReminders(userId);
+  const actions = useReminderActions(refresh);
 
   if (loading || isDismissed) return null;
 
-  const totalAlerts = todayReminders.length + overdueReminders.length;
+  const totalAlerts = todayReminders.length + overdueReminders.length + missedReminders.length;
   if (totalAlerts === 0) return null;
 
   return (
@@ -36,7 +115,7 @@ export function ReminderBanner({ userId, onViewEntry }: ReminderBannerProps) {
             "p-1.5 rounded-full",
             overdueReminders.length > 0 ? "bg-destructive/20" : "bg-primary/20"
           )}>
-            {overdueReminders.length > 0 ? (
+            {overdueReminders.length > 0 || missedReminders.length > 0 ? (
               <AlertTriangle className="h-4 w-4 text-destructive" />
             ) : (
               <Bell className="h-4 w-4 text-primary" />
@@ -44,6 +123,9 @@ export function ReminderBanner({ userId, onViewEntry }: ReminderBannerProps) {
           </div>
           <div className="text-left">
             <div className="font-medium text-sm">
+              {missedReminders.length > 0 && (
+                <span className="text-destructive">{missedReminders.length} missed · </span>
+              )}
               {overdueReminders.length > 0 && (
                 <span className="text-destructive">{overdueReminders.length} overdue · </span>
               )}
@@ -53,8 +135,8 @@ export function ReminderBanner({ userId, onViewEntry }: ReminderBannerProps) {
             </div>
             {!isExpanded && (
               <p className="text-xs text-muted-foreground">
-                {(todayReminders[0] || overdueReminders[0])?.title || 
-                 (todayReminders[0] || overdueReminders[0])?.content.slice(0, 40)}...
+                {(todayReminders[0] || overdueReminders[0] || missedReminders[0])?.title || 
+                 (todayReminders[0] || overdueReminders[0] || missedReminders[0])?.content.slice(0, 40)}...
               </p>
             )}
           </div>
@@ -74,6 +156,40 @@ export function ReminderBanner({ userId, onViewEntry }: ReminderBannerProps) {
       {/* Expanded Content */}
       {isExpanded && (
         <div className="border-t border-border divide-y divide-border">
+          {/* Missed — the event passed with no answer to the reminder */}
+          {missedReminders.length > 0 && (
+            <div className="p-3 bg-destructive/5">
+              <div className="text-xs font-medium text-destructive mb-2 uppercase tracking-wide">
+                Missed
+              </div>
+              <div className="space-y-1">
+                {missedReminders.map((entry) => (
+                  <div
+                    key={`${entry.id}-${entry.event_date}`}
+                    className="p-2 rounded-md hover:bg-destructive/10 transition-colors flex items-center gap-2"
+                  >
+                    <button
+                      onClick={() => onViewEntry?.({ id: entry.id })}
+                      className="flex-1 min-w-0 text-left flex items-center gap-2"
+                    >
+                      <span className="text-sm">🔕</span>
+                      <div className="flex-1 min-w-0">
+                        <span className="text-sm truncate block">
+                          {entry.title || entry.content.slice(0, 40)}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          Missed {format(new Date(entry.event_date), "MMM d")}
+                          {entry.event_time && ` at ${entry.event_time.slice(0, 5)}`}
+                        </span>
+                      </div>
+                    </button>
+                    <ReminderActions entry={entry} busy={actions.busyId === entry.id} actions={actions} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Overdue */}
           {overdueReminders.length > 0 && (
             <div className="p-3 bg-destructive/5">
@@ -82,21 +198,26 @@ export function ReminderBanner({ userId, onViewEntry }: ReminderBannerProps) {
               </div>
               <div className="space-y-1">
                 {overdueReminders.map((entry) => (
-                  <button
-                    key={entry.id}
-                    onClick={() => onViewEntry?.({ id: entry.id })}
-                    className="w-full text-left p-2 rounded-md hover:bg-destructive/10 transition-colors flex items-center gap-2"
+                  <div
+                    key={`${entry.id}-${entry.event_date}`}
+                    className="p-2 rounded-md hover:bg-destructive/10 transition-colors flex items-center gap-2"
                   >
-                    <span className="text-sm">⏰</span>
-                    <div className="flex-1 min-w-0">
-                      <span className="text-sm truncate block">
-                        {entry.title || entry.content.slice(0, 40)}
-                      </span>
-                      <span className="text-xs text-muted-foreground">
-                        Was due {format(new Date(entry.event_date), "MMM d")}
-                      </span>
-                    </div>
-                  </button>
+                    <button
+                      onClick={() => onViewEntry?.({ id: entry.id })}
+                      className="flex-1 min-w-0 text-left flex items-center gap-2"
+                    >
+                      <span className="text-sm">⏰</span>
+                      <div className="flex-1 min-w-0">
+                        <span className="text-sm truncate block">
+                          {entry.title || entry.content.slice(0, 40)}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          Was due {format(new Date(entry.event_date), "MMM d")}
+                        </span>
+                      </div>
+                    </button>
+                    <ReminderActions entry={entry} busy={actions.busyId === entry.id} actions={actions} />
+                  </div>
                 ))}
               </div>
             </div>
@@ -110,29 +231,39 @@ export function ReminderBanner({ userId, onViewEntry }: ReminderBannerProps) {
               </div>
               <div className="space-y-1">
                 {todayReminders.map((entry) => (
-                  <button
-                    key={entry.id}
-                    onClick={() => onViewEntry?.({ id: entry.id })}
-                    className="w-full text-left p-2 rounded-md hover:bg-accent/50 transition-colors flex items-center gap-2"
+                  <div
+                    key={`${entry.id}-${entry.event_date}`}
+                    className="p-2 rounded-md hover:bg-accent/50 transition-colors flex items-center gap-2"
                   >
-                    <span className="text-sm">
-                      {entry.content_type === "reminder" ? "⏰" : "📅"}
-                    </span>
-                    <div className="flex-1 min-w-0">
-                      <span className="text-sm truncate block">
-                        {entry.title || entry.content.slice(0, 40)}
+                    <button
+                      onClick={() => onViewEntry?.({ id: entry.id })}
+                      className="flex-1 min-w-0 text-left flex items-center gap-2"
+                    >
+                      <span className="text-sm">
+                        {entry.content_type === "reminder" ? "⏰" : "📅"}
                       </span>
-                      {entry.event_time && (
-                        <span className="text-xs text-muted-foreground flex items-center gap-1">
-                          <Clock className="h-3 w-3" />
-                          {entry.event_time.slice(0, 5)}
+                      <div className="flex-1 min-w-0">
+                        <span className="text-sm truncate block">
+                          {entry.title || entry.content.slice(0, 40)}
                         </span>
+                        {entry.event_time && (
+                          <span className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {entry.event_time.slice(0, 5)}
+                          </span>
+                        )}
+                      </div>
+                      {entry.snoozed_until && entry.delivery_status === "snoozed" && (
+                        <Badge variant="outline" className="text-[10px] shrink-0">
+                          Snoozed until {format(new Date(entry.snoozed_until), "h:mm a")}
+                        </Badge>
+                      )}
+                      {entry.importance_score && entry.importance_score >= 7 && (
+                        <span className="text-xs">🔥</span>
                       )}
-                    </div>
-                    {entry.importance_score && entry.importance_score >= 7 && (
-                      <span className="text-xs">🔥</span>
-                    )}
-                  </button>
+                    </button>
+                    <ReminderActions entry={entry} busy={actions.busyId === entry.id} actions={actions} />
+                  </div>
                 ))}
               </div>
             </div>
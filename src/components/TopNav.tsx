@@ -11,7 +11,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import {
   LayoutDashboard, Code2, CalendarDays, Search, Activity, Users, Brain, Timer,
   Clock, Zap, DollarSign, OctagonX, Settings, Heart, FileBarChart, MessageSquare,
-  AlertTriangle, X,
+  AlertTriangle, X, Rocket,
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
@@ -45,8 +45,16 @@ const NAV_ITEMS: NavItem[] = [
   { path: '/brain', label: 'Brain', icon: <Brain className="w-4 h-4" /> },
   { path: '/crons', label: 'Crons', icon: <Timer className="w-4 h-4" /> },
   { path: '/reports', label: 'Reports', icon: <FileBarChart className="w-4 h-4" /> },
+  { path: '/deploy', label: 'Deploy', icon: <Rocket className="w-4 h-4" /> },
 ];
 
+// brain_insights isn't in the generated types — rows are typed by hand
+interface HealthAlert {
+  id: string;
+  title: string;
+  body: string;
+}
+
 interface TopNavProps {
   userId: string;
 }
@@ -72,21 +80,21 @@ export function TopNav({ userId }: TopNavProps) {
   const { runningTasks, reminders } = useTickerData(userId);
 
   const [lastHeartbeat, setLastHeartbeat] = useState<string | null>(null);
-  const [healthAlerts, setHealthAlerts] = useState<{ id: string; title: string; body: string }[]>([]);
+  const [healthAlerts, setHealthAlerts] = useState<HealthAlert[]>([]);
 
   // Check for last heartbeat insight
   useEffect(() => {
     if (!userId) return;
     supabase
-      .from('brain_insights')
-      .select('created_at')
+      .from('brain_insights' as never)
+      .select<'created_at', { created_at: string }>('created_at')
       .eq('user_id', userId)
       .eq('type', 'heartbeat')
       .order('created_at', { ascending: false })
       .limit(1)
       .then(({ data }) => {
         if (data && data.length > 0) {
-          setLastHeartbeat((data[0] as { created_at: string }).created_at);
+          setLastHeartbeat(data[0].created_at);
         }
       });
   }, [userId]);
@@ -96,8 +104,8 @@ export function TopNav({ userId }: TopNavProps) {
     if (!userId) return;
     const fetchAlerts = () => {
       supabase
-        .from('brain_insights')
-        .select('id, title, body')
+        .from('brain_insights' as never)
+        .select<'id, title, body', HealthAlert>('id, title, body')
         .eq('user_id', userId)
         .eq('type', 'system_health')
         .eq('dismissed', false)
@@ -105,7 +113,7 @@ export function TopNav({ userId }: TopNavProps) {
         .order('created_at', { ascending: false })
         .limit(5)
         .then(({ data }) => {
-          setHealthAlerts((data as { id: string; title: string; body: string }[]) || []);
+          setHealthAlerts(data || []);
         });
     };
     fetchAlerts();
@@ -116,8 +124,8 @@ export function TopNav({ userId }: TopNavProps) {
   const dismissHealthAlert = async (id: string) => {
     setHealthAlerts(prev => prev.filter(a => a.id !== id));
     await supabase
-      .from('brain_insights')
-      .update({ dismissed: true })
+      .from('brain_insights' as never)
+      .update({ dismissed: true } as never)
       .eq('id', id)
       .eq('user_id', userId);
   };
@@ -0,0 +1,98 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Gauge, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useUsageLimits } from "@/hooks/useUsageLimits";
+import { QUOTA_LABELS, formatQuotaValue, formatWindow, usageLevel, type UsageLevel } from "@/lib/usageLimits";
+
+const LEVEL_INDICATOR: Record<UsageLevel, string> = {
+  ok: "",
+  warning: "[&>div]:bg-amber-500",
+  exceeded: "[&>div]:bg-destructive",
+};
+
+const UsageLimits = () => {
+  const { usage, loading, error, refresh } = useUsageLimits();
+  const resetsAt = usage?.quotas.find((q) => q.resetsAt)?.resetsAt;
+  const activeRateLimits = (usage?.rateLimits ?? [])
+    .filter((r) => r.used > 0)
+    .sort((a, b) => b.used / b.max - a.used / a.max);
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
+          <Gauge className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold">Usage & Limits</h2>
+          <p className="text-xs text-muted-foreground">Daily budgets and request limits</p>
+        </div>
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={refresh} disabled={loading}>
+          <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
+        </Button>
+      </div>
+
+      <Card className="p-4 bg-muted/30 border-border space-y-4">
+        {error && !usage ? (
+          <p className="text-xs text-destructive">{error}</p>
+        ) : !usage ? (
+          <p className="text-xs text-muted-foreground">Loading usage...</p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {usage.quotas.map((q) => {
+                const level = usageLevel(q.used, q.max);
+                return (
+                  <div key={q.name} className="space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span>{QUOTA_LABELS[q.name] ?? q.name}</span>
+                      <span className={cn("text-muted-foreground", level === "exceeded" && "text-destructive")}>
+                        {formatQuotaValue(q.name, q.used)} / {formatQuotaValue(q.name, q.max)}
+                      </span>
+                    </div>
+                    <Progress value={Math.min(100, (q.used / q.max) * 100)} className={cn("h-1.5", LEVEL_INDICATOR[level])} />
+                  </div>
+                );
+              })}
+              {resetsAt && (
+                <p className="text-[10px] text-muted-foreground">
+                  Daily budgets reset {new Date(resetsAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium">Request limits</p>
+              {activeRateLimits.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No recent requests against per-function limits.</p>
+              ) : (
+                activeRateLimits.map((r) => {
+                  const level = usageLevel(r.used, r.max);
+                  return (
+                    <div key={r.functionName} className="flex justify-between gap-2 text-xs">
+                      <span className="font-mono truncate">{r.functionName}</span>
+                      <span
+                        className={cn(
+                          "shrink-0 text-muted-foreground",
+                          level === "warning" && "text-amber-500",
+                          level === "exceeded" && "text-destructive",
+                        )}
+                      >
+                        {r.used} / {r.max} per {formatWindow(r.windowSeconds)}
+                        {level === "exceeded" && r.resetIn > 0 && ` · ${r.resetIn}s`}
+                      </span>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default UsageLimits;
@@ -0,0 +1,217 @@
+/**
+ * CalendarSyncDialog — ICS feed URL, .ics import and calendar subscriptions.
+ * Opened from the Calendar page header.
+ */
+
+import { useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, ExternalLink, Loader2, RefreshCw, Trash2, Upload, Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useCalendarSync } from '@/hooks/useCalendarSync';
+
+interface CalendarSyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CalendarSyncDialog({ open, onOpenChange }: CalendarSyncDialogProps) {
+  const {
+    feed, urls, subscriptions, loading, busy,
+    enableFeed, disableFeed, importFile, subscribe, syncNow, unsubscribe,
+  } = useCalendarSync();
+  const [subscribeUrl, setSubscribeUrl] = useState('');
+  const [subscribeName, setSubscribeName] = useState('');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCopy = async () => {
+    if (!urls) return;
+    await navigator.clipboard.writeText(urls.https);
+    toast.success('Feed URL copied');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) await importFile(file);
+  };
+
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subscribeUrl.trim()) return;
+    if (await subscribe(subscribeUrl.trim(), subscribeName.trim() || undefined)) {
+      setSubscribeUrl('');
+      setSubscribeName('');
+    }
+  };
+
+  const handleRemove = async (id: string, keepEvents: boolean) => {
+    setRemovingId(null);
+    await unsubscribe(id, keepEvents);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-zinc-900 border-white/10 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white">Calendar sync</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Feed */}
+            <section className="space-y-2">
+              <div>
+                <h3 className="text-sm font-medium text-white/80">Subscribe in another calendar</h3>
+                <p className="text-xs text-white/40">
+                  A private URL with all your events and reminders, for Google Calendar or Apple Calendar.
+                  Anyone with the URL can read it.
+                </p>
+              </div>
+              {feed && urls ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input
+                      readOnly
+                      value={urls.https}
+                      onFocus={e => e.target.select()}
+                      className="bg-white/5 border-white/10 text-white/70 text-xs font-mono"
+                    />
+                    <Button size="icon" variant="outline" onClick={handleCopy} title="Copy URL" className="shrink-0 border-white/10 bg-white/5">
+                      <Copy className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs">
+                    <a href={urls.webcal} className="text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                      <ExternalLink className="w-3 h-3" />
+                      Open in calendar app
+                    </a>
+                    <button onClick={() => enableFeed(true)} disabled={busy} className="text-white/40 hover:text-white/70">
+                      Regenerate URL
+                    </button>
+                    <button onClick={disableFeed} disabled={busy} className="text-red-400/70 hover:text-red-400">
+                      Turn off
+                    </button>
+                    <span className="ml-auto text-white/30">
+                      {feed.last_accessed_at
+                        ? `Last fetched ${formatDistanceToNow(new Date(feed.last_accessed_at), { addSuffix: true })}`
+                        : 'Not fetched yet'}
+                    </span>
+                  </div>
+                </>
+              ) : (
+                <Button size="sm" onClick={() => enableFeed()} disabled={busy}>
+                  <Link2 className="w-3.5 h-3.5 mr-1.5" />
+                  Create feed URL
+                </Button>
+              )}
+            </section>
+
+            {/* Import */}
+            <section className="space-y-2">
+              <div>
+                <h3 className="text-sm font-medium text-white/80">Import an .ics file</h3>
+                <p className="text-xs text-white/40">
+                  Events become calendar entries. Importing the same file again updates them instead of duplicating.
+                </p>
+              </div>
+              <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFile} />
+              <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={busy} className="border-white/10 bg-white/5">
+                <Upload className="w-3.5 h-3.5 mr-1.5" />
+                Choose file
+              </Button>
+            </section>
+
+            {/* Subscriptions */}
+            <section className="space-y-2">
+              <div>
+                <h3 className="text-sm font-medium text-white/80">Subscribed calendars</h3>
+                <p className="text-xs text-white/40">Re-synced every hour. Events removed from the feed are removed here too.</p>
+              </div>
+
+              {subscriptions.length > 0 && (
+                <div className="divide-y divide-white/5 rounded-md border border-white/10">
+                  {subscriptions.map(sub => (
+                    <div key={sub.id} className="px-3 py-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm text-white/80 truncate">{sub.name}</div>
+                          <div className="text-[10px] text-white/30 truncate">{sub.url}</div>
+                        </div>
+                        <span className="text-[10px] text-white/40 shrink-0">{sub.event_count} events</span>
+                        <button
+                          onClick={() => syncNow(sub.id)}
+                          disabled={busy}
+                          title="Sync now"
+                          className="p-1 text-white/30 hover:text-white/70"
+                        >
+                          <RefreshCw className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => setRemovingId(sub.id)}
+                          disabled={busy}
+                          title="Unsubscribe"
+                          className="p-1 text-white/30 hover:text-red-400"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      <div className="text-[10px]">
+                        {sub.last_error ? (
+                          <span className="text-red-400">{sub.last_error}</span>
+                        ) : sub.last_synced_at ? (
+                          <span className="text-white/30">
+                            Synced {formatDistanceToNow(new Date(sub.last_synced_at), { addSuffix: true })}
+                          </span>
+                        ) : null}
+                      </div>
+                      {removingId === sub.id && (
+                        <div className="flex items-center gap-2 text-xs pt-1">
+                          <span className="text-white/50">Remove its {sub.event_count} events too?</span>
+                          <button onClick={() => handleRemove(sub.id, false)} className="text-red-400 hover:text-red-300">
+                            Remove events
+                          </button>
+                          <button onClick={() => handleRemove(sub.id, true)} className="text-white/60 hover:text-white/80">
+                            Keep events
+                          </button>
+                          <button onClick={() => setRemovingId(null)} className="text-white/30 hover:text-white/60">
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <form onSubmit={handleSubscribe} className="flex gap-2">
+                <Input
+                  value={subscribeUrl}
+                  onChange={e => setSubscribeUrl(e.target.value)}
+                  placeholder="https:// or webcal:// ICS URL"
+                  className="bg-white/5 border-white/10 text-white placeholder:text-white/30 text-xs"
+                />
+                <Input
+                  value={subscribeName}
+                  onChange={e => setSubscribeName(e.target.value)}
+                  placeholder="Name"
+                  className="bg-white/5 border-white/10 text-white placeholder:text-white/30 text-xs w-28"
+                />
+                <Button type="submit" size="sm" disabled={busy || !subscribeUrl.trim()} className="shrink-0">
+                  {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Subscribe'}
+                </Button>
+              </form>
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
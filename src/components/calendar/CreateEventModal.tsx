@@ -12,6 +12,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import type { CreateEventData } from '@/hooks/useCalendarEntries';
+import { describeRRule, serializeRRule, WEEKDAYS, type Frequency, type RRule, type Weekday } from '@/lib/rrule';
 
 interface CreateEventModalProps {
   open: boolean;
@@ -20,6 +21,22 @@ interface CreateEventModalProps {
   onSubmit: (data: CreateEventData) => Promise<void>;
 }
 
+const FREQ_OPTIONS: { pattern: string; freq: Frequency; unit: string }[] = [
+  { pattern: 'daily', freq: 'DAILY', unit: 'day' },
+  { pattern: 'weekly', freq: 'WEEKLY', unit: 'week' },
+  { pattern: 'monthly', freq: 'MONTHLY', unit: 'month' },
+  { pattern: 'yearly', freq: 'YEARLY', unit: 'year' },
+];
+
+type RecurrenceEnd = 'never' | 'until' | 'count';
+
+/** Weekday of a YYYY-MM-DD date and which one of the month it is (5th counts as last) */
+function weekdayOf(date: string): { weekday: Weekday; n: number } {
+  const d = new Date(`${date}T00:00:00`);
+  const n = Math.ceil(d.getDate() / 7);
+  return { weekday: WEEKDAYS[(d.getDay() + 6) % 7], n: n === 5 ? -1 : n };
+}
+
 export function CreateEventModal({
   open,
   onOpenChange,
@@ -34,6 +51,12 @@ export function CreateEventModal({
   const [reminderMinutes, setReminderMinutes] = useState(30);
   const [isRecurring, setIsRecurring] = useState(false);
   const [recurrencePattern, setRecurrencePattern] = useState('weekly');
+  const [recurrenceInterval, setRecurrenceInterval] = useState(1);
+  const [byWeekday, setByWeekday] = useState<Weekday[]>([]);
+  const [monthlyByWeekday, setMonthlyByWeekday] = useState(false);
+  const [endType, setEndType] = useState<RecurrenceEnd>('never');
+  const [until, setUntil] = useState('');
+  const [count, setCount] = useState(10);
   const [submitting, setSubmitting] = useState(false);
 
   // Reset form when modal opens with a new date
@@ -48,9 +71,33 @@ export function CreateEventModal({
       setReminderMinutes(30);
       setIsRecurring(false);
       setRecurrencePattern('weekly');
+      setRecurrenceInterval(1);
+      setByWeekday([]);
+      setMonthlyByWeekday(false);
+      setEndType('never');
+      setUntil('');
+      setCount(10);
     }
   }, [open, dateStr]);
 
+  const freqOption = FREQ_OPTIONS.find(o => o.pattern === recurrencePattern) ?? FREQ_OPTIONS[1];
+
+  const rule = useMemo<RRule | null>(() => {
+    if (!isRecurring || !date) return null;
+    const r: RRule = { freq: freqOption.freq, interval: Math.max(1, recurrenceInterval) };
+    if (r.freq === 'WEEKLY' && byWeekday.length) {
+      r.byDay = WEEKDAYS.filter(d => byWeekday.includes(d)).map(weekday => ({ weekday }));
+    }
+    if (r.freq === 'MONTHLY' && monthlyByWeekday) r.byDay = [weekdayOf(date)];
+    if (endType === 'until' && until) r.until = until;
+    if (endType === 'count') r.count = Math.max(1, count);
+    return r;
+  }, [isRecurring, date, freqOption, recurrenceInterval, byWeekday, monthlyByWeekday, endType, until, count]);
+
+  const toggleWeekday = (day: Weekday) => {
+    setByWeekday(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim() || !date) return;
@@ -65,6 +112,7 @@ export function CreateEventModal({
         reminderMinutes: type === 'reminder' ? reminderMinutes : undefined,
         isRecurring,
         recurrencePattern: isRecurring ? recurrencePattern : undefined,
+        rrule: rule ? serializeRRule(rule) : undefined,
       });
       onOpenChange(false);
     } finally {
@@ -186,22 +234,112 @@ export function CreateEventModal({
               </label>
             </div>
             {isRecurring && (
-              <div className="flex gap-2 pl-6">
-                {['daily', 'weekly', 'monthly', 'yearly'].map(p => (
-                  <button
-                    key={p}
-                    type="button"
-                    onClick={() => setRecurrencePattern(p)}
-                    className={cn(
-                      'text-[10px] px-2 py-1 rounded border transition-colors capitalize',
-                      recurrencePattern === p
-                        ? 'bg-violet-500/20 border-violet-500/40 text-violet-400'
-                        : 'bg-white/5 border-white/10 text-white/40 hover:text-white/60',
-                    )}
+              <div className="space-y-2 pl-6">
+                <div className="flex gap-2">
+                  {FREQ_OPTIONS.map(({ pattern }) => (
+                    <button
+                      key={pattern}
+                      type="button"
+                      onClick={() => setRecurrencePattern(pattern)}
+                      className={cn(
+                        'text-[10px] px-2 py-1 rounded border transition-colors capitalize',
+                        recurrencePattern === pattern
+                          ? 'bg-violet-500/20 border-violet-500/40 text-violet-400'
+                          : 'bg-white/5 border-white/10 text-white/40 hover:text-white/60',
+                      )}
+                    >
+                      {pattern}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Interval */}
+                <div className="flex items-center gap-2 text-xs text-white/50">
+                  Every
+                  <Input
+                    type="number"
+                    value={recurrenceInterval}
+                    onChange={e => setRecurrenceInterval(parseInt(e.target.value, 10) || 1)}
+                    min={1}
+                    max={99}
+                    className="bg-white/5 border-white/10 text-white w-16 h-7 text-xs"
+                  />
+                  {freqOption.unit}{recurrenceInterval > 1 ? 's' : ''}
+                </div>
+
+                {/* Weekdays (weekly) */}
+                {freqOption.freq === 'WEEKLY' && (
+                  <div className="flex gap-1">
+                    {WEEKDAYS.map(day => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={cn(
+                          'text-[10px] w-7 py-1 rounded border transition-colors',
+                          byWeekday.includes(day)
+                            ? 'bg-violet-500/20 border-violet-500/40 text-violet-400'
+                            : 'bg-white/5 border-white/10 text-white/40 hover:text-white/60',
+                        )}
+                      >
+                        {day}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Day of month vs nth weekday (monthly) */}
+                {freqOption.freq === 'MONTHLY' && date && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="monthly-weekday"
+                      checked={monthlyByWeekday}
+                      onCheckedChange={(checked) => setMonthlyByWeekday(checked === true)}
+                      className="border-white/20 data-[state=checked]:bg-blue-500 data-[state=checked]:border-blue-500"
+                    />
+                    <label htmlFor="monthly-weekday" className="text-xs text-white/60 cursor-pointer">
+                      Same weekday of the month instead of the same date
+                    </label>
+                  </div>
+                )}
+
+                {/* End */}
+                <div className="flex items-center gap-2 text-xs text-white/50">
+                  Ends
+                  <select
+                    value={endType}
+                    onChange={e => setEndType(e.target.value as RecurrenceEnd)}
+                    className="rounded-md bg-white/5 border border-white/10 text-white text-xs h-7 px-2"
                   >
-                    {p}
-                  </button>
-                ))}
+                    <option value="never">never</option>
+                    <option value="until">on date</option>
+                    <option value="count">after</option>
+                  </select>
+                  {endType === 'until' && (
+                    <Input
+                      type="date"
+                      value={until}
+                      min={date}
+                      onChange={e => setUntil(e.target.value)}
+                      className="bg-white/5 border-white/10 text-white h-7 text-xs w-36"
+                    />
+                  )}
+                  {endType === 'count' && (
+                    <>
+                      <Input
+                        type="number"
+                        value={count}
+                        onChange={e => setCount(parseInt(e.target.value, 10) || 1)}
+                        min={1}
+                        max={999}
+                        className="bg-white/5 border-white/10 text-white w-16 h-7 text-xs"
+                      />
+                      times
+                    </>
+                  )}
+                </div>
+
+                {rule && <div className="text-[10px] text-violet-400/80">{describeRRule(rule)}</div>}
               </div>
             )}
           </div>
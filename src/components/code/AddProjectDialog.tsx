@@ -1,7 +1,9 @@
 /**
- * AddProjectDialog — Modal for registering a new GitHub project
+ * AddProjectDialog — Modal for registering a new code project
  *
  * Takes a repo URL or owner/repo, display name, and tech stack tags.
+ * GitHub by default; GitLab and Gitea/Forgejo projects also take the
+ * instance URL and the edge function secret holding the API token.
  * Validates repo format before submitting.
  */
 
@@ -9,6 +11,13 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -16,54 +25,121 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog';
+import type { GitProviderKind } from '@/types/agent';
+import type { GitHostOptions } from '@/hooks/useCodeWorkspace';
 
 interface AddProjectDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onAdd: (repoFullName: string, name: string, techStack: string[], defaultBranch: string) => void;
+  onAdd: (repoFullName: string, name: string, techStack: string[], defaultBranch: string, gitHost: GitHostOptions) => void;
 }
 
-function parseRepoFullName(input: string): string | null {
-  const trimmed = input.trim();
+const PROVIDER_OPTIONS: { value: GitProviderKind; label: string; tokenPlaceholder: string }[] = [
+  { value: 'github', label: 'GitHub', tokenPlaceholder: 'GITHUB_PAT' },
+  { value: 'gitlab', label: 'GitLab', tokenPlaceholder: 'GITLAB_TOKEN' },
+  { value: 'gitea', label: 'Gitea / Forgejo', tokenPlaceholder: 'GITEA_TOKEN' },
+];
+
+const TOKEN_SECRET_PREFIXES: Record<GitProviderKind, string[]> = {
+  github: ['GITHUB_'],
+  gitlab: ['GITLAB_'],
+  gitea: ['GITEA_', 'FORGEJO_'],
+};
+
+// GitLab namespaces can nest (group/subgroup/repo)
+function parseRepoFullName(input: string, provider: GitProviderKind): string | null {
+  const trimmed = input.trim().replace(/\/+$/, '');
+  const segment = '[a-zA-Z0-9_.-]+';
+  const pathRe = provider === 'gitlab'
+    ? new RegExp(`^(${segment}(?:/${segment})+)$`)
+    : new RegExp(`^(${segment}/${segment})$`);
 
   // owner/repo format
-  const slashMatch = trimmed.match(/^([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+)$/);
-  if (slashMatch) return `${slashMatch[1]}/${slashMatch[2]}`;
+  const slashMatch = trimmed.match(pathRe);
+  if (slashMatch) return slashMatch[1].replace(/\.git$/, '');
 
-  // GitHub URL format
-  const urlMatch = trimmed.match(/github\.com\/([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+)/);
-  if (urlMatch) return `${urlMatch[1]}/${urlMatch[2].replace(/\.git$/, '')}`;
+  // Repo URL format (any host)
+  try {
+    const url = new URL(trimmed);
+    const path = url.pathname.replace(/^\/+/, '').split('/-/')[0].replace(/\.git$/, '');
+    const parts = path.split('/').filter(Boolean);
+    const repoPath = provider === 'gitlab' ? parts.join('/') : parts.slice(0, 2).join('/');
+    if (pathRe.test(repoPath)) return repoPath;
+  } catch {
+    // not a URL
+  }
 
   return null;
 }
 
+function instanceUrl(input: string): string | null {
+  try {
+    const url = new URL(input.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
 export function AddProjectDialog({ open, onOpenChange, onAdd }: AddProjectDialogProps) {
   const [repoInput, setRepoInput] = useState('');
   const [name, setName] = useState('');
   const [techStackInput, setTechStackInput] = useState('');
   const [defaultBranch, setDefaultBranch] = useState('main');
+  const [provider, setProvider] = useState<GitProviderKind>('github');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [tokenSecret, setTokenSecret] = useState('');
   const [error, setError] = useState<string | null>(null);
 
+  const providerOption = PROVIDER_OPTIONS.find((p) => p.value === provider) ?? PROVIDER_OPTIONS[0];
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    const repoFullName = parseRepoFullName(repoInput);
+    const repoFullName = parseRepoFullName(repoInput, provider);
     if (!repoFullName) {
-      setError('Enter a valid GitHub repo: owner/repo or full URL');
+      setError(`Enter a valid ${providerOption.label} repo: owner/repo or full URL`);
       return;
     }
 
-    const displayName = name.trim() || repoFullName.split('/')[1];
+    // Self-hosted instance: explicit URL, else the host of a pasted repo URL
+    let gitBaseUrl: string | undefined;
+    if (provider !== 'github') {
+      gitBaseUrl = (baseUrl.trim() ? instanceUrl(baseUrl) : instanceUrl(repoInput)) ?? undefined;
+      if (baseUrl.trim() && !gitBaseUrl) {
+        setError('Instance URL must start with http:// or https://');
+        return;
+      }
+      if (provider === 'gitea' && !gitBaseUrl) {
+        setError('Gitea projects need the instance URL');
+        return;
+      }
+    }
+
+    const secret = tokenSecret.trim().toUpperCase();
+    if (secret && !TOKEN_SECRET_PREFIXES[provider].some((prefix) => secret.startsWith(prefix))) {
+      setError(`Token secret must start with ${TOKEN_SECRET_PREFIXES[provider].join(' or ')}`);
+      return;
+    }
+
+    const displayName = name.trim() || repoFullName.split('/').pop() || repoFullName;
     const techStack = techStackInput
       .split(',')
       .map((t) => t.trim())
       .filter(Boolean);
 
-    onAdd(repoFullName, displayName, techStack, defaultBranch.trim() || 'main');
+    onAdd(repoFullName, displayName, techStack, defaultBranch.trim() || 'main', {
+      provider,
+      baseUrl: gitBaseUrl,
+      tokenSecret: secret || undefined,
+    });
     setRepoInput('');
     setName('');
     setTechStackInput('');
     setDefaultBranch('main');
+    setProvider('github');
+    setBaseUrl('');
+    setTokenSecret('');
     setError(null);
   };
 
@@ -76,10 +152,30 @@ export function AddProjectDialog({ open, onOpenChange, onAdd }: AddProjectDialog
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="repo" className="text-xs">GitHub Repository</Label>
+            <Label className="text-xs">Host</Label>
+            <Select
+              value={provider}
+              onValueChange={(v) => {
+                setProvider(v as GitProviderKind);
+                setError(null);
+              }}
+            >
+              <SelectTrigger className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDER_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="repo" className="text-xs">Repository</Label>
             <Input
               id="repo"
-              placeholder="owner/repo or https://github.com/owner/repo"
+              placeholder={provider === 'github' ? 'owner/repo or https://github.com/owner/repo' : 'owner/repo or full repo URL'}
               value={repoInput}
               onChange={(e) => {
                 setRepoInput(e.target.value);
@@ -90,6 +186,42 @@ export function AddProjectDialog({ open, onOpenChange, onAdd }: AddProjectDialog
             {error && <p className="text-[11px] text-red-400">{error}</p>}
           </div>
 
+          {provider !== 'github' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="base-url" className="text-xs">
+                  Instance URL{provider === 'gitlab' ? ' (optional)' : ''}
+                </Label>
+                <Input
+                  id="base-url"
+                  placeholder={provider === 'gitlab' ? 'https://gitlab.com' : 'https://gitea.example.com'}
+                  value={baseUrl}
+                  onChange={(e) => {
+                    setBaseUrl(e.target.value);
+                    setError(null);
+                  }}
+                  className="text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="token-secret" className="text-xs">Token Secret (optional)</Label>
+                <Input
+                  id="token-secret"
+                  placeholder={providerOption.tokenPlaceholder}
+                  value={tokenSecret}
+                  onChange={(e) => {
+                    setTokenSecret(e.target.value);
+                    setError(null);
+                  }}
+                  className="text-sm font-mono"
+                />
+              </div>
+              <p className="col-span-2 text-[10px] text-muted-foreground">
+                The token is read from this edge function secret, never stored here.
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="name" className="text-xs">Display Name (optional)</Label>
             <Input
@@ -59,6 +59,10 @@ function statusColor(status: string): string {
 }
 
 function getDetailSummary(detail: Record<string, unknown>): string {
+  // sandbox_validate: per-check result plus the first error
+  if (Array.isArray(detail.firstErrors) && detail.firstErrors.length > 0 && typeof detail.message === 'string') {
+    return `${detail.message} — ${detail.errors} error(s): ${detail.firstErrors[0]}`;
+  }
   if (detail.message && typeof detail.message === 'string') return detail.message;
   if (detail.error && typeof detail.error === 'string') return detail.error;
   if (detail.file && typeof detail.file === 'string') return detail.file;
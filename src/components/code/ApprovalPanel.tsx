@@ -0,0 +1,150 @@
+/**
+ * ApprovalPanel — Review a PR held by the project's merge policy
+ *
+ * Shows why the PR was held and its unified diff, with approve (merge),
+ * reject (close), and request changes (comment on the PR) actions.
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, ShieldCheck, Check, X, MessageSquare, ExternalLink } from 'lucide-react';
+import type { CodeSession } from '@/types/agent';
+import type { ReviewAction, SessionDiff } from '@/hooks/useCodeWorkspace';
+
+interface ApprovalPanelProps {
+  session: CodeSession;
+  loadDiff: (sessionId: string) => Promise<SessionDiff | null>;
+  onReview: (sessionId: string, action: ReviewAction, feedback?: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('diff --git')) return 'text-blue-400 font-semibold mt-3';
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground';
+  if (line.startsWith('@@')) return 'text-purple-400';
+  if (line.startsWith('+')) return 'text-green-400 bg-green-500/10';
+  if (line.startsWith('-')) return 'text-red-400 bg-red-500/10';
+  return 'text-foreground/70';
+}
+
+export function ApprovalPanel({ session, loadDiff, onReview, onClose }: ApprovalPanelProps) {
+  const [diff, setDiff] = useState<SessionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [feedback, setFeedback] = useState('');
+  const [busy, setBusy] = useState<ReviewAction | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadDiff(session.id).then((result) => {
+      if (cancelled) return;
+      setDiff(result);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [session.id, loadDiff]);
+
+  const handleReview = async (action: ReviewAction) => {
+    setBusy(action);
+    const ok = await onReview(session.id, action, feedback.trim() || undefined);
+    setBusy(null);
+    if (ok) onClose();
+  };
+
+  const pending = session.status === 'awaiting_approval';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border bg-muted/20">
+        <div className="flex items-center gap-1.5 min-w-0">
+          <ShieldCheck className="w-3.5 h-3.5 text-purple-400 shrink-0" />
+          <span className="text-xs font-medium truncate">Review: {session.intent}</span>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {session.pr_url && (
+            <a
+              href={session.pr_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              <ExternalLink className="w-3 h-3" />
+              PR #{session.pr_number}
+            </a>
+          )}
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {(diff?.approvalReason || session.approval_reason) && (
+        <div className="px-3 py-1.5 border-b border-border text-[10px] text-purple-400/80 bg-purple-500/5">
+          {diff?.approvalReason || session.approval_reason}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {loading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : diff?.diff ? (
+          <pre className="text-[11px] font-mono leading-relaxed p-3">
+            {diff.diff.split('\n').map((line, i) => (
+              <div key={i} className={`px-1 whitespace-pre ${diffLineClass(line)}`}>{line || ' '}</div>
+            ))}
+          </pre>
+        ) : (
+          <div className="flex items-center justify-center h-full text-xs text-muted-foreground">
+            No diff available
+          </div>
+        )}
+      </div>
+
+      {pending && (
+        <div className="p-3 border-t border-border space-y-2">
+          <Textarea
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            placeholder="Feedback (required to request changes)"
+            rows={2}
+            className="text-xs"
+          />
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-xs gap-1.5 text-red-400 hover:text-red-300"
+              disabled={!!busy}
+              onClick={() => handleReview('reject')}
+            >
+              {busy === 'reject' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <X className="w-3.5 h-3.5" />}
+              Reject
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-xs gap-1.5"
+              disabled={!!busy || !feedback.trim()}
+              onClick={() => handleReview('request_changes')}
+            >
+              {busy === 'request_changes' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <MessageSquare className="w-3.5 h-3.5" />}
+              Request changes
+            </Button>
+            <Button
+              size="sm"
+              className="text-xs gap-1.5 bg-green-600 hover:bg-green-500"
+              disabled={!!busy}
+              onClick={() => handleReview('approve')}
+            >
+              {busy === 'approve' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+              Approve & merge
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,15 @@
  *
  * Shows user messages, agent responses, and system status.
  * Textarea with Enter to send, Shift+Enter for newline.
+ * While continuing a session, a banner names the PR that messages go to.
  */
 
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, Loader2, Code2, ExternalLink } from 'lucide-react';
-import type { ChatMessage } from '@/types/agent';
+import { Send, Loader2, Code2, ExternalLink, GitPullRequest, X } from 'lucide-react';
+import type { ChatMessage, CodeSession } from '@/types/agent';
 import { cn } from '@/lib/utils';
 
 interface CodeChatProps {
@@ -18,6 +19,10 @@ interface CodeChatProps {
   sending: boolean;
   projectName: string | null;
   messages: ChatMessage[];
+  /** Session whose open PR receives follow-ups */
+  continuing?: CodeSession | null;
+  onStopContinuing?: () => void;
+  onShowDiff?: () => void;
 }
 
 const EXAMPLE_COMMANDS = [
@@ -70,11 +75,13 @@ function MessageBubble({ msg }: { msg: ChatMessage }) {
   );
 }
 
-export function CodeChat({ onSend, sending, projectName, messages }: CodeChatProps) {
+export function CodeChat({ onSend, sending, projectName, messages, continuing, onStopContinuing, onShowDiff }: CodeChatProps) {
   const [input, setInput] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
-  const disabled = !projectName || sending;
+  // One follow-up at a time per PR
+  const followUpRunning = continuing?.status === 'active';
+  const disabled = !projectName || sending || followUpRunning;
 
   // Auto-scroll on new messages
   useEffect(() => {
@@ -128,7 +135,32 @@ export function CodeChat({ onSend, sending, projectName, messages }: CodeChatPro
 
       {/* Input area */}
       <div className="border-t border-border bg-card/30">
-        {projectName && !input && !hasMessages && (
+        {continuing && (
+          <div className="px-3 py-1.5 border-b border-border bg-blue-500/5 flex items-center gap-1.5 text-[10px]">
+            <GitPullRequest className="w-3 h-3 text-blue-400 shrink-0" />
+            <span className="text-blue-400 shrink-0">
+              {followUpRunning ? 'Pushing follow-up to' : 'Follow-ups go to'} PR #{continuing.pr_number}
+            </span>
+            <span className="font-mono text-muted-foreground truncate">{continuing.branch_name}</span>
+            <div className="ml-auto flex items-center gap-1 shrink-0">
+              {onShowDiff && (
+                <button onClick={onShowDiff} className="text-muted-foreground hover:text-foreground transition-colors">
+                  Diff
+                </button>
+              )}
+              {onStopContinuing && (
+                <button
+                  onClick={onStopContinuing}
+                  className="text-muted-foreground hover:text-foreground transition-colors"
+                  title="Start new tasks on a fresh branch instead"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        {projectName && !input && !hasMessages && !continuing && (
           <div className="px-3 pt-2 flex flex-wrap gap-1.5">
             {EXAMPLE_COMMANDS.map((cmd) => (
               <button
@@ -150,7 +182,11 @@ export function CodeChat({ onSend, sending, projectName, messages }: CodeChatPro
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={projectName ? 'Tell JAC what to code...' : 'Select a project first'}
+                placeholder={
+                  !projectName ? 'Select a project first'
+                    : continuing ? `Follow-up for PR #${continuing.pr_number}, e.g. "also add tests"...`
+                    : 'Tell JAC what to code...'
+                }
                 disabled={disabled}
                 className="min-h-[40px] max-h-[120px] resize-none text-sm pr-8"
                 rows={1}
@@ -3,14 +3,125 @@
  *
  * Shows file content in a monospace pre block with a header bar
  * displaying the file path. Basic language detection from extension.
+ * Given a PR diff instead, renders it with inline comments per line —
+ * each comment is sent as a follow-up on that PR.
  */
 
-import { Loader2, FileCode2 } from 'lucide-react';
+import { useState, useMemo } from 'react';
+import { Loader2, FileCode2, GitPullRequest, MessageSquarePlus, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { isCommentableLine, parseUnifiedDiff } from '@/lib/unifiedDiff';
+import type { DiffLine } from '@/lib/unifiedDiff';
 
 interface CodeViewerProps {
   content: string | null;
   filePath: string | null;
   loading: boolean;
+  /** PR diff shown instead of the file */
+  diff?: { title: string; text: string } | null;
+  /** Inline comment on a diff line; omit to make the diff read-only */
+  onComment?: (line: DiffLine, comment: string) => void;
+}
+
+function diffLineClass(line: DiffLine): string {
+  switch (line.kind) {
+    case 'file': return 'text-blue-400 font-semibold mt-3';
+    case 'meta': return 'text-muted-foreground';
+    case 'hunk': return 'text-purple-400';
+    case 'add': return 'text-green-400 bg-green-500/10';
+    case 'del': return 'text-red-400 bg-red-500/10';
+    default: return 'text-foreground/70';
+  }
+}
+
+function DiffView({ title, text, onComment }: { title: string; text: string; onComment?: CodeViewerProps['onComment'] }) {
+  const lines = useMemo(() => parseUnifiedDiff(text), [text]);
+  const [commentAt, setCommentAt] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+
+  const closeComment = () => {
+    setCommentAt(null);
+    setComment('');
+  };
+
+  const submitComment = (line: DiffLine) => {
+    if (!comment.trim() || !onComment) return;
+    onComment(line, comment.trim());
+    closeComment();
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-3 py-2 border-b border-border bg-muted/20 flex items-center gap-2">
+        <GitPullRequest className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+        <span className="text-xs text-foreground/80 font-mono truncate">{title}</span>
+        {onComment && (
+          <span className="text-[10px] text-muted-foreground/60 ml-auto hidden sm:block">Click a line number to comment</span>
+        )}
+      </div>
+      <div className="flex-1 overflow-auto">
+        {lines.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-xs text-muted-foreground">No changes</div>
+        ) : (
+          <pre className="text-[11px] font-mono leading-relaxed py-2">
+            {lines.map((line, i) => {
+              const commentable = !!onComment && isCommentableLine(line);
+              return (
+                <div key={i}>
+                  <div className={`group flex ${diffLineClass(line)}`}>
+                    <button
+                      type="button"
+                      disabled={!commentable}
+                      onClick={() => { setCommentAt(i); setComment(''); }}
+                      className="relative select-none text-muted-foreground/40 text-right pr-3 pl-2 shrink-0 w-[7ch] enabled:hover:text-primary"
+                      title={commentable ? 'Comment on this line' : undefined}
+                    >
+                      {commentable && (
+                        <MessageSquarePlus className="absolute left-1 top-0.5 w-3 h-3 hidden group-hover:block" />
+                      )}
+                      {line.newLine ?? line.oldLine ?? ''}
+                    </button>
+                    <span className="flex-1 pr-4 whitespace-pre">{line.text || ' '}</span>
+                  </div>
+                  {commentAt === i && (
+                    <div className="mx-2 my-1 p-2 rounded-md border border-border bg-card font-sans space-y-1.5">
+                      <Textarea
+                        autoFocus
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            submitComment(line);
+                          } else if (e.key === 'Escape') {
+                            closeComment();
+                          }
+                        }}
+                        placeholder="What should change here?"
+                        rows={2}
+                        className="text-xs"
+                      />
+                      <div className="flex justify-end gap-1.5">
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px] gap-1" onClick={closeComment}>
+                          <X className="w-3 h-3" />
+                          Cancel
+                        </Button>
+                        <Button size="sm" className="h-6 px-2 text-[10px] gap-1" disabled={!comment.trim()} onClick={() => submitComment(line)}>
+                          <Send className="w-3 h-3" />
+                          Send follow-up
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
 }
 
 function getLanguageClass(filePath: string | null): string {
@@ -38,7 +149,11 @@ function getLanguageClass(filePath: string | null): string {
   return ext ? (map[ext] || '') : '';
 }
 
-export function CodeViewer({ content, filePath, loading }: CodeViewerProps) {
+export function CodeViewer({ content, filePath, loading, diff, onComment }: CodeViewerProps) {
+  if (diff) {
+    return <DiffView title={diff.title} text={diff.text} onComment={onComment} />;
+  }
+
   if (loading) {
     return (
       <div className="flex flex-col h-full">
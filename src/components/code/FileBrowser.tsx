@@ -3,18 +3,39 @@
  *
  * Groups flat file paths into a nested tree structure.
  * Folders are collapsible, first level expanded by default.
+ *
+ * With a symbol index (code_symbols, built by sync-codebase) the search box
+ * also finds functions, hooks, components and types, and the footer lists
+ * the files that import the selected file.
  */
 
 import { useState, useMemo } from 'react';
-import { FileText, Folder, FolderOpen, Loader2 } from 'lucide-react';
+import { FileText, Folder, FolderOpen, Loader2, Search, X } from 'lucide-react';
+import { buildImporterMap, searchSymbols } from '@/lib/symbolSearch';
+import type { CodeFileSymbols } from '@/types/agent';
 
 interface FileBrowserProps {
   files: string[] | null;
   selectedFile: string | null;
   onSelectFile: (path: string) => void;
   loading: boolean;
+  symbolIndex?: CodeFileSymbols[];
 }
 
+const KIND_LABELS: Record<string, string> = {
+  component: 'cmp',
+  hook: 'hook',
+  function: 'fn',
+  class: 'class',
+  interface: 'iface',
+  type: 'type',
+  enum: 'enum',
+  variable: 'var',
+};
+
+const MAX_PATH_MATCHES = 20;
+const NO_SYMBOLS: CodeFileSymbols[] = [];
+
 interface TreeNode {
   name: string;
   path: string;
@@ -121,8 +142,67 @@ function TreeItem({
   );
 }
 
-export function FileBrowser({ files, selectedFile, onSelectFile, loading }: FileBrowserProps) {
+function SearchResults({
+  query,
+  files,
+  symbolIndex,
+  importerMap,
+  onSelectFile,
+}: {
+  query: string;
+  files: string[];
+  symbolIndex: CodeFileSymbols[];
+  importerMap: Map<string, string[]>;
+  onSelectFile: (path: string) => void;
+}) {
+  const symbolMatches = useMemo(() => searchSymbols(symbolIndex, query), [symbolIndex, query]);
+  const pathMatches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return files.filter(f => f.toLowerCase().includes(q)).slice(0, MAX_PATH_MATCHES);
+  }, [files, query]);
+
+  if (symbolMatches.length === 0 && pathMatches.length === 0) {
+    return <p className="px-3 py-2 text-xs text-muted-foreground">No matches</p>;
+  }
+
+  return (
+    <div>
+      {symbolMatches.map((m) => (
+        <button
+          key={`${m.path}:${m.name}:${m.line}`}
+          onClick={() => onSelectFile(m.path)}
+          className="w-full flex items-center gap-1.5 px-2 py-1 text-left text-xs rounded text-foreground/80 hover:bg-muted/40 transition-colors"
+          title={m.importers.length > 0 ? `Imported by:\n${m.importers.join('\n')}` : undefined}
+        >
+          <span className="shrink-0 w-9 text-[10px] font-mono text-blue-400/80">{KIND_LABELS[m.kind] ?? m.kind}</span>
+          <span className={`truncate font-mono ${m.exported ? '' : 'text-muted-foreground'}`}>{m.name}</span>
+          <span className="truncate text-[10px] text-muted-foreground">{m.path}:{m.line}</span>
+          {m.importers.length > 0 && (
+            <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">{m.importers.length} ←</span>
+          )}
+        </button>
+      ))}
+      {pathMatches.map((path) => (
+        <button
+          key={path}
+          onClick={() => onSelectFile(path)}
+          className="w-full flex items-center gap-1.5 px-2 py-1 text-left text-xs rounded text-foreground/70 hover:bg-muted/40 transition-colors"
+        >
+          <FileText className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+          <span className="truncate">{path}</span>
+          {importerMap.has(path) && (
+            <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">{importerMap.get(path)?.length} ←</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function FileBrowser({ files, selectedFile, onSelectFile, loading, symbolIndex = NO_SYMBOLS }: FileBrowserProps) {
   const tree = useMemo(() => (files ? buildTree(files) : null), [files]);
+  const importerMap = useMemo(() => buildImporterMap(symbolIndex), [symbolIndex]);
+  const [query, setQuery] = useState('');
 
   if (loading) {
     return (
@@ -151,25 +231,72 @@ export function FileBrowser({ files, selectedFile, onSelectFile, loading }: File
   }
 
   const entries = sortedEntries(tree);
+  const importers = selectedFile ? importerMap.get(selectedFile) ?? [] : [];
+  const selectedIndexed = selectedFile ? symbolIndex.some(f => f.path === selectedFile) : false;
 
   return (
     <div className="flex flex-col h-full">
-      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border">
         <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Files</span>
+        <div className="flex-1 flex items-center gap-1 min-w-0 rounded bg-muted/30 px-1.5">
+          <Search className="w-3 h-3 shrink-0 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={symbolIndex.length > 0 ? 'Files or symbols' : 'Filter files'}
+            className="flex-1 min-w-0 bg-transparent py-0.5 text-[11px] outline-none placeholder:text-muted-foreground/60"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="text-muted-foreground hover:text-foreground" title="Clear search">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
         <span className="text-[10px] text-muted-foreground">{files.length}</span>
       </div>
       <div className="flex-1 overflow-y-auto py-1">
-        {entries.map((node) => (
-          <TreeItem
-            key={node.path}
-            node={node}
-            depth={0}
-            selectedFile={selectedFile}
+        {query.trim() ? (
+          <SearchResults
+            query={query}
+            files={files}
+            symbolIndex={symbolIndex}
+            importerMap={importerMap}
             onSelectFile={onSelectFile}
-            defaultOpen={true}
           />
-        ))}
+        ) : (
+          entries.map((node) => (
+            <TreeItem
+              key={node.path}
+              node={node}
+              depth={0}
+              selectedFile={selectedFile}
+              onSelectFile={onSelectFile}
+              defaultOpen={true}
+            />
+          ))
+        )}
       </div>
+      {selectedIndexed && (
+        <div className="flex items-center gap-1.5 px-3 py-1 border-t border-border text-[10px] text-muted-foreground overflow-x-auto whitespace-nowrap">
+          {importers.length === 0 ? (
+            <span>Not imported by any indexed file</span>
+          ) : (
+            <>
+              <span className="shrink-0">Used by {importers.length}:</span>
+              {importers.map((path) => (
+                <button
+                  key={path}
+                  onClick={() => onSelectFile(path)}
+                  className="shrink-0 text-blue-400/80 hover:text-blue-400 hover:underline"
+                  title={path}
+                >
+                  {path.split('/').pop()}
+                </button>
+              ))}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
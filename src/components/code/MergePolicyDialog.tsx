@@ -0,0 +1,108 @@
+/**
+ * MergePolicyDialog — Choose when JAC may merge its own PRs
+ *
+ * auto merges as soon as the PR is open; require_approval holds every PR;
+ * require_approval_for_paths holds only PRs touching the listed globs.
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import type { CodeProject, MergePolicy } from '@/types/agent';
+
+interface MergePolicyDialogProps {
+  project: CodeProject | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (projectId: string, policy: MergePolicy, approvalPaths: string[]) => Promise<boolean>;
+}
+
+const DEFAULT_APPROVAL_PATHS = ['supabase/migrations/**', '**/_shared/**'];
+
+const POLICY_OPTIONS: { value: MergePolicy; label: string; hint: string }[] = [
+  { value: 'auto', label: 'Auto-merge', hint: 'Merge as soon as the PR is open' },
+  { value: 'require_approval', label: 'Always require approval', hint: 'Every PR waits for you' },
+  { value: 'require_approval_for_paths', label: 'Require approval for paths', hint: 'Only PRs touching these paths wait' },
+];
+
+export function MergePolicyDialog({ project, onOpenChange, onSave }: MergePolicyDialogProps) {
+  const [policy, setPolicy] = useState<MergePolicy>('auto');
+  const [pathsInput, setPathsInput] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setPolicy(project.merge_policy || 'auto');
+    setPathsInput((project.approval_paths?.length ? project.approval_paths : DEFAULT_APPROVAL_PATHS).join('\n'));
+  }, [project]);
+
+  const handleSave = async () => {
+    if (!project) return;
+    const paths = pathsInput
+      .split('\n')
+      .map((p) => p.trim())
+      .filter(Boolean);
+
+    setSaving(true);
+    const ok = await onSave(project.id, policy, paths.length ? paths : DEFAULT_APPROVAL_PATHS);
+    setSaving(false);
+    if (ok) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-sm">Merge Policy — {project?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={policy} onValueChange={(v) => setPolicy(v as MergePolicy)} className="space-y-2">
+            {POLICY_OPTIONS.map((opt) => (
+              <div key={opt.value} className="flex items-start gap-2">
+                <RadioGroupItem value={opt.value} id={`policy-${opt.value}`} className="mt-0.5" />
+                <Label htmlFor={`policy-${opt.value}`} className="cursor-pointer">
+                  <span className="text-xs">{opt.label}</span>
+                  <span className="block text-[10px] text-muted-foreground font-normal mt-0.5">{opt.hint}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {policy === 'require_approval_for_paths' && (
+            <div className="space-y-2">
+              <Label htmlFor="approval-paths" className="text-xs">Paths (one glob per line)</Label>
+              <Textarea
+                id="approval-paths"
+                value={pathsInput}
+                onChange={(e) => setPathsInput(e.target.value)}
+                rows={4}
+                className="text-xs font-mono"
+              />
+              <p className="text-[10px] text-muted-foreground">
+                <code>*</code> matches within a folder, <code>**</code> across folders
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
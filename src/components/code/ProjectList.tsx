@@ -2,12 +2,13 @@
  * ProjectList — Sidebar showing registered code projects
  *
  * Lists project cards with name, repo, and tech stack badges.
- * Active project gets a blue border highlight.
+ * Active project gets a blue border highlight. The shield button opens
+ * the project's merge policy.
  */
 
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Trash2, GitBranch } from 'lucide-react';
+import { Plus, Trash2, GitBranch, ShieldCheck } from 'lucide-react';
 import type { CodeProject } from '@/types/agent';
 
 interface ProjectListProps {
@@ -16,9 +17,20 @@ interface ProjectListProps {
   onSelect: (id: string) => void;
   onAdd: () => void;
   onRemove: (id: string) => void;
+  onEditPolicy?: (project: CodeProject) => void;
 }
 
-export function ProjectList({ projects, activeProjectId, onSelect, onAdd, onRemove }: ProjectListProps) {
+const PROVIDER_LABELS: Record<string, string> = {
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+};
+
+const POLICY_LABELS: Record<string, string> = {
+  require_approval: 'Approval required',
+  require_approval_for_paths: 'Approval for paths',
+};
+
+export function ProjectList({ projects, activeProjectId, onSelect, onAdd, onRemove, onEditPolicy }: ProjectListProps) {
   return (
     <div className="flex flex-col h-full">
       <div className="flex items-center justify-between px-3 py-2 border-b border-border">
@@ -31,7 +43,7 @@ export function ProjectList({ projects, activeProjectId, onSelect, onAdd, onRemo
           <div className="flex flex-col items-center justify-center py-8 text-center">
             <GitBranch className="w-8 h-8 text-muted-foreground/30 mb-2" />
             <p className="text-xs text-muted-foreground">No projects yet</p>
-            <p className="text-[10px] text-muted-foreground/60 mt-0.5">Add a GitHub repo to get started</p>
+            <p className="text-[10px] text-muted-foreground/60 mt-0.5">Add a repo to get started</p>
           </div>
         )}
 
@@ -48,8 +60,27 @@ export function ProjectList({ projects, activeProjectId, onSelect, onAdd, onRemo
             <div className="flex items-start justify-between gap-2">
               <div className="min-w-0 flex-1">
                 <p className="text-sm font-medium truncate">{project.name}</p>
-                <p className="text-[10px] text-muted-foreground truncate mt-0.5">{project.repo_full_name}</p>
+                <p className="text-[10px] text-muted-foreground truncate mt-0.5">
+                  {PROVIDER_LABELS[project.git_provider] && (
+                    <span className="text-orange-400/80">{PROVIDER_LABELS[project.git_provider]} · </span>
+                  )}
+                  {project.repo_full_name}
+                </p>
               </div>
+              {onEditPolicy && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0 h-6 w-6 text-muted-foreground/40 hover:text-purple-400"
+                  title="Merge policy"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEditPolicy(project);
+                  }}
+                >
+                  <ShieldCheck className="w-3 h-3" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="icon"
@@ -63,6 +94,12 @@ export function ProjectList({ projects, activeProjectId, onSelect, onAdd, onRemo
               </Button>
             </div>
 
+            {POLICY_LABELS[project.merge_policy] && (
+              <Badge variant="outline" className="mt-2 text-[9px] px-1.5 py-0 border-purple-500/30 text-purple-400 bg-purple-500/10">
+                {POLICY_LABELS[project.merge_policy]}
+              </Badge>
+            )}
+
             {project.tech_stack && project.tech_stack.length > 0 && (
               <div className="flex flex-wrap gap-1 mt-2">
                 {project.tech_stack.slice(0, 4).map((tech) => (
@@ -2,16 +2,23 @@
  * SessionHistory — List of past coding sessions
  *
  * Card per session with branch name, PR link, status badge,
- * files changed count, and timestamp.
+ * files changed count, and timestamp. Sessions held by the project's
+ * merge policy get a Review button; sessions whose PR is still open can be
+ * continued with follow-up commits.
  */
 
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { GitBranch, ExternalLink, FileText, Clock, Code2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { GitBranch, ExternalLink, FileText, Clock, Code2, ShieldCheck, RefreshCw, MessageSquarePlus } from 'lucide-react';
 import type { CodeSession } from '@/types/agent';
+import { isContinuableSession } from '@/hooks/useCodeWorkspace';
 
 interface SessionHistoryProps {
   sessions: CodeSession[];
+  onReview?: (session: CodeSession) => void;
+  onContinue?: (session: CodeSession) => void;
+  continuingId?: string | null;
 }
 
 const STATUS_STYLES: Record<string, { label: string; classes: string }> = {
@@ -19,6 +26,9 @@ const STATUS_STYLES: Record<string, { label: string; classes: string }> = {
   completed: { label: 'Completed', classes: 'border-green-500/30 text-green-500 bg-green-500/10' },
   failed: { label: 'Failed', classes: 'border-red-500/30 text-red-400 bg-red-500/10' },
   awaiting_ci: { label: 'Awaiting CI', classes: 'border-amber-500/30 text-amber-400 bg-amber-500/10' },
+  awaiting_approval: { label: 'Needs Approval', classes: 'border-purple-500/30 text-purple-400 bg-purple-500/10' },
+  changes_requested: { label: 'Changes Requested', classes: 'border-orange-500/30 text-orange-400 bg-orange-500/10' },
+  rejected: { label: 'Rejected', classes: 'border-muted-foreground/30 text-muted-foreground bg-muted/20' },
 };
 
 function formatRelativeTime(iso: string): string {
@@ -32,7 +42,7 @@ function formatRelativeTime(iso: string): string {
   return `${days}d ago`;
 }
 
-export function SessionHistory({ sessions }: SessionHistoryProps) {
+export function SessionHistory({ sessions, onReview, onContinue, continuingId }: SessionHistoryProps) {
   if (sessions.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -50,7 +60,10 @@ export function SessionHistory({ sessions }: SessionHistoryProps) {
         const filesChanged = (session.files_written?.length || 0);
 
         return (
-          <Card key={session.id} className="p-3 bg-card/50 border-border hover:bg-muted/20 transition-colors">
+          <Card
+            key={session.id}
+            className={`p-3 bg-card/50 hover:bg-muted/20 transition-colors ${session.id === continuingId ? 'border-blue-500/40' : 'border-border'}`}
+          >
             <div className="flex items-start justify-between gap-2">
               <div className="min-w-0 flex-1">
                 {/* Branch name */}
@@ -70,6 +83,20 @@ export function SessionHistory({ sessions }: SessionHistoryProps) {
                       {filesChanged} file{filesChanged !== 1 ? 's' : ''}
                     </span>
                   )}
+                  {session.ci_status === 'reverted' && (
+                    <span className="text-[10px] text-red-400" title="CI failed after merge and the change was reverted">
+                      CI reverted{session.ci_retry_count > 0 ? ` · ${session.ci_retry_count} retr${session.ci_retry_count === 1 ? 'y' : 'ies'}` : ''}
+                    </span>
+                  )}
+                  {session.retry_of && (
+                    <span className="text-[10px] text-amber-400">CI retry</span>
+                  )}
+                  {session.iteration_count > 0 && (
+                    <span className="flex items-center gap-1 text-[10px] text-muted-foreground" title="Iterations on this PR">
+                      <RefreshCw className="w-3 h-3" />
+                      {session.iteration_count}
+                    </span>
+                  )}
                   <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
                     <Clock className="w-3 h-3" />
                     {formatRelativeTime(session.updated_at)}
@@ -86,11 +113,42 @@ export function SessionHistory({ sessions }: SessionHistoryProps) {
                     </a>
                   )}
                 </div>
+
+                {session.status === 'awaiting_approval' && session.approval_reason && (
+                  <p className="text-[10px] text-purple-400/80 mt-1.5 truncate">{session.approval_reason}</p>
+                )}
+                {session.status === 'changes_requested' && session.review_feedback && (
+                  <p className="text-[10px] text-orange-400/80 mt-1.5 line-clamp-2">{session.review_feedback}</p>
+                )}
               </div>
 
-              <Badge variant="outline" className={`shrink-0 text-[9px] px-1.5 py-0 ${style.classes}`}>
-                {style.label}
-              </Badge>
+              <div className="flex flex-col items-end gap-1.5 shrink-0">
+                <Badge variant="outline" className={`text-[9px] px-1.5 py-0 ${style.classes}`}>
+                  {style.label}
+                </Badge>
+                {session.status === 'awaiting_approval' && onReview && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-[10px] gap-1 border-purple-500/30 text-purple-400 hover:bg-purple-500/10"
+                    onClick={() => onReview(session)}
+                  >
+                    <ShieldCheck className="w-3 h-3" />
+                    Review
+                  </Button>
+                )}
+                {onContinue && isContinuableSession(session) && session.id !== continuingId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-[10px] gap-1"
+                    onClick={() => onContinue(session)}
+                  >
+                    <MessageSquarePlus className="w-3 h-3" />
+                    Continue
+                  </Button>
+                )}
+              </div>
             </div>
           </Card>
         );
@@ -8,7 +8,7 @@
 import { useState, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { addToQueue } from "@/hooks/useOfflineQueue";
+import { enqueueCreate } from "@/hooks/useOfflineQueue";
 import { retryWithBackoff } from "@/lib/retryWithBackoff";
 import type { PreviewFile } from "../types";
 
@@ -242,15 +242,31 @@ export function useDumpSave({
       
       console.error("Failed to save:", error);
       toast.dismiss("retry-toast");
+
+      // The dump, plus its attachment if the upload never happened, goes to the offline outbox
+      let queued = false;
+      const queueForLater = async () => {
+        try {
+          await enqueueCreate({
+            content: contentToSave,
+            userId,
+            source: "manual",
+            imageUrl: fileUrl,
+            file: fileUrl ? null : fileToUpload?.file,
+          });
+          return true;
+        } catch (queueError) {
+          console.error("Failed to queue offline save:", queueError);
+          return false;
+        }
+      };
       
-      if (isNetworkError) {
-        // Queue for later sync instead of losing the data
-        addToQueue({
-          content: contentToSave,
-          userId,
-          source: "manual",
-          imageUrl: fileUrl,
-        });
+      // Queue for later sync instead of losing the data (timeouts too — the server might be busy)
+      if (isNetworkError || isTimeoutError) {
+        queued = await queueForLater();
+      }
+
+      if (isNetworkError && queued) {
         toast.info("Saved offline", {
           description: "Will sync when connection is restored",
         });
@@ -262,14 +278,7 @@ export function useDumpSave({
         toast.error("Entry too long", {
           description: "Try breaking it into smaller pieces",
         });
-      } else if (isTimeoutError) {
-        // Queue for later since server might be busy
-        addToQueue({
-          content: contentToSave,
-          userId,
-          source: "manual",
-          imageUrl: fileUrl,
-        });
+      } else if (isTimeoutError && queued) {
         toast.info("Server busy - queued for later", {
           description: "Will sync automatically",
         });
@@ -285,10 +294,12 @@ export function useDumpSave({
       if (tempId && onOptimisticFail) {
         onOptimisticFail(tempId);
       }
-      // Restore content on failure
-      setContent(contentToSave);
-      if (fileToUpload) {
-        setPreviewFile(fileToUpload);
+      // Restore content on failure — unless it's queued, or it would be saved twice
+      if (!queued) {
+        setContent(contentToSave);
+        if (fileToUpload) {
+          setPreviewFile(fileToUpload);
+        }
       }
     } finally {
       setIsSaving(false);
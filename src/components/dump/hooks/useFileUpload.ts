@@ -29,6 +29,31 @@ interface UseFileUploadReturn {
   handlePaste: (e: React.ClipboardEvent) => void;
 }
 
+/**
+ * Upload a dump attachment to storage. Also used by the offline outbox to
+ * upload files that were queued while offline.
+ *
+ * @returns Relative storage path for signed URL generation
+ */
+export async function uploadDumpFile(userId: string, file: Blob, name: string): Promise<string> {
+  const fileExt = name.split('.').pop() || 'png';
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+  const filePath = `${userId}/${fileName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('dumps')
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false,
+    });
+
+  if (uploadError) {
+    throw new Error(`Upload failed: ${uploadError.message}`);
+  }
+
+  return `dumps/${filePath}`;
+}
+
 export function useFileUpload({ userId }: UseFileUploadOptions): UseFileUploadReturn {
   const [previewFile, setPreviewFile] = useState<PreviewFile | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -81,26 +106,8 @@ export function useFileUpload({ userId }: UseFileUploadOptions): UseFileUploadRe
   }, [previewFile]);
 
   const uploadFile = useCallback(async (file: File): Promise<string> => {
-    const fileExt = file.name.split('.').pop() || 'png';
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-    const filePath = `${userId}/${fileName}`;
-
     setUploadProgress("Uploading...");
-
-    const { error: uploadError } = await supabase.storage
-      .from('dumps')
-      .upload(filePath, file, {
-        cacheControl: '3600',
-        upsert: false,
-      });
-
-    if (uploadError) {
-      throw new Error(`Upload failed: ${uploadError.message}`);
-    }
-
-    // Return relative path for signed URL generation
-    const storagePath = `dumps/${filePath}`;
-    return storagePath;
+    return uploadDumpFile(userId, file, file.name);
   }, [userId]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -2,7 +2,8 @@
  * AgentDeskDrawer — Click an agent to see their full work history
  *
  * Like opening an agent's desk drawer: all tasks, logs, results.
- * Slides in from the right via Sheet.
+ * Tasks that were part of a multi-step request show the dependency graph
+ * of their siblings. Slides in from the right via Sheet.
  */
 
 import { useMemo } from 'react';
@@ -11,9 +12,11 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   CheckCircle2, XCircle, Loader2, Clock, Brain,
-  Globe, ExternalLink,
+  Globe, ExternalLink, GitBranch,
 } from 'lucide-react';
 import type { AgentTask, ActivityLogEntry } from '@/types/agent';
+import { AGENT_DEFS } from '@/lib/agents';
+import { buildTaskGraph, type TaskGraph } from '@/lib/taskGraph';
 
 interface AgentDeskDrawerProps {
   open: boolean;
@@ -43,7 +46,53 @@ function timeAgo(dateStr: string): string {
   return `${Math.floor(diff / 86_400_000)}d ago`;
 }
 
-function TaskEntry({ task, logs }: { task: AgentTask; logs?: ActivityLogEntry[] }) {
+function TaskStatusIcon({ status }: { status: AgentTask['status'] }) {
+  if (status === 'completed') return <CheckCircle2 className="w-2.5 h-2.5 text-green-500 shrink-0" />;
+  if (status === 'failed' || status === 'cancelled') return <XCircle className="w-2.5 h-2.5 text-red-500 shrink-0" />;
+  if (status === 'running') return <Loader2 className="w-2.5 h-2.5 animate-spin text-blue-400 shrink-0" />;
+  return <Clock className="w-2.5 h-2.5 text-muted-foreground shrink-0" />;
+}
+
+function TaskGraphView({ graph, currentTaskId }: { graph: TaskGraph; currentTaskId: string }) {
+  const nodes = new Map(graph.layers.flat().map(n => [n.task.id, n.task]));
+  const label = (task: AgentTask) => task.intent || task.type;
+
+  return (
+    <div className="mt-2 rounded-md border border-border/60 bg-background/40 p-2">
+      <div className="flex items-center gap-1 text-[10px] text-muted-foreground mb-1.5">
+        <GitBranch className="w-2.5 h-2.5" />
+        Pipeline · {graph.edgeCount} {graph.edgeCount === 1 ? 'dependency' : 'dependencies'}
+      </div>
+      <div className="space-y-1">
+        {graph.layers.map((layer, depth) => (
+          <div key={depth} className="flex items-start gap-1.5">
+            <span className="w-3 text-[10px] text-muted-foreground/60 font-mono shrink-0 pt-0.5">{depth + 1}</span>
+            <div className="flex flex-wrap gap-1 min-w-0">
+              {layer.map(({ task, upstream }) => {
+                const agentName = AGENT_DEFS.find(a => a.id === task.agent)?.name ?? task.agent ?? task.type;
+                return (
+                  <div
+                    key={task.id}
+                    title={upstream.length > 0 ? `Waited on: ${upstream.map(id => label(nodes.get(id)!)).join(', ')}` : 'No upstream tasks'}
+                    className={`flex items-center gap-1 max-w-[220px] px-1.5 py-0.5 rounded border text-[10px] ${
+                      task.id === currentTaskId ? 'border-primary/60 bg-primary/10' : 'border-border'
+                    }`}
+                  >
+                    <TaskStatusIcon status={task.status} />
+                    <span className="font-medium shrink-0">{agentName}</span>
+                    <span className="text-muted-foreground truncate">{label(task)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TaskEntry({ task, logs, graph }: { task: AgentTask; logs?: ActivityLogEntry[]; graph?: TaskGraph | null }) {
   const output = task.output as Record<string, unknown> | null;
   const brief = output?.brief ? String(output.brief) : null;
   const sources = output?.sources as Array<{ title: string; url: string }> | undefined;
@@ -84,6 +133,9 @@ function TaskEntry({ task, logs }: { task: AgentTask; logs?: ActivityLogEntry[]
         <p className="mt-2 text-xs text-red-400">{task.error}</p>
       )}
 
+      {/* Dependency graph of the request this task belongs to */}
+      {graph && <TaskGraphView graph={graph} currentTaskId={task.id} />}
+
       {/* Brief */}
       {brief && (
         <p className="mt-2 text-xs text-foreground/80 whitespace-pre-wrap leading-relaxed line-clamp-4">
@@ -159,6 +211,16 @@ export function AgentDeskDrawer({
     [tasks, agentId]
   );
 
+  const graphs = useMemo(() => {
+    const byParent = new Map<string, TaskGraph | null>();
+    for (const task of agentTasks) {
+      if (task.parent_task_id && !byParent.has(task.parent_task_id)) {
+        byParent.set(task.parent_task_id, buildTaskGraph(tasks, task.parent_task_id));
+      }
+    }
+    return byParent;
+  }, [agentTasks, tasks]);
+
   const stats = useMemo(() => ({
     total: agentTasks.length,
     completed: agentTasks.filter(t => t.status === 'completed').length,
@@ -220,6 +282,7 @@ export function AgentDeskDrawer({
                   key={task.id}
                   task={task}
                   logs={activityLogs.get(task.id)}
+                  graph={task.parent_task_id ? graphs.get(task.parent_task_id) : null}
                 />
               ))
             )}
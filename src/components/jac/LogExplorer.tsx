@@ -0,0 +1,265 @@
+/**
+ * LogExplorer — BrainInspector's Logs tab.
+ *
+ * Filters (environment, function, task, text, time range) over edge function
+ * console output, shown on one timeline with the task's activity log steps.
+ * Errors are highlighted; a task deep link (/brain?tab=logs&taskId=…) scrolls
+ * to the first one. LogItemDetail renders the selected item in the inspector
+ * column.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Loader2, AlertCircle, ScrollText, X, RefreshCw, ListChecks } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useFunctionLogs, type FunctionLogFilters } from '@/hooks/useFunctionLogs';
+import { buildLogTimeline, firstErrorIndex, type LogTimelineItem } from '@/lib/functionLogs';
+
+const RANGE_OPTIONS = [
+  { minutes: 15, label: '15m' },
+  { minutes: 60, label: '1h' },
+  { minutes: 360, label: '6h' },
+  { minutes: 1440, label: '24h' },
+];
+
+function formatTime(ms: number): string {
+  const d = new Date(ms);
+  return `${d.toLocaleTimeString([], { hour12: false })}.${String(d.getMilliseconds()).padStart(3, '0')}`;
+}
+
+function formatStepName(step: string): string {
+  return step.replace(/_/g, ' ');
+}
+
+interface LogExplorerProps {
+  taskId: string | null;
+  onTaskIdChange: (taskId: string | null) => void;
+  selectedId: string | null;
+  onSelect: (item: LogTimelineItem | null) => void;
+}
+
+export function LogExplorer({ taskId, onTaskIdChange, selectedId, onSelect }: LogExplorerProps) {
+  const { result, loading, error, fetchLogs } = useFunctionLogs();
+  // Text fields edit the draft; the query runs on Enter, refresh or a button filter
+  const [filters, setFilters] = useState<FunctionLogFilters>({
+    environment: 'production',
+    slug: '',
+    taskId: taskId ?? '',
+    search: '',
+    rangeMinutes: 60,
+  });
+  const [query, setQuery] = useState<FunctionLogFilters>(filters);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+  const scrollToErrorRef = useRef(!!taskId);
+
+  // Follow deep links to another task
+  useEffect(() => {
+    const patch = taskId ? { taskId, slug: '' } : { taskId: '' };
+    const apply = (prev: FunctionLogFilters) => (prev.taskId === patch.taskId ? prev : { ...prev, ...patch });
+    setFilters(apply);
+    setQuery(apply);
+    scrollToErrorRef.current = !!taskId;
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchLogs(query);
+  }, [query, fetchLogs]);
+
+  const timeline = useMemo(
+    () => buildLogTimeline(result?.lines ?? [], result?.steps ?? [], result?.task?.id ?? null),
+    [result]
+  );
+  const visible = useMemo(() => (errorsOnly ? timeline.filter((item) => item.error) : timeline), [timeline, errorsOnly]);
+
+  // Land on the first error of a deep-linked task
+  useEffect(() => {
+    if (!scrollToErrorRef.current || visible.length === 0) return;
+    scrollToErrorRef.current = false;
+    const target = visible[firstErrorIndex(visible)];
+    onSelect(target);
+    itemRefs.current.get(target.id)?.scrollIntoView({ block: 'center' });
+  }, [visible, onSelect]);
+
+  const update = (patch: Partial<FunctionLogFilters>) => setFilters((prev) => ({ ...prev, ...patch }));
+  const run = (patch: Partial<FunctionLogFilters> = {}) => {
+    update(patch);
+    setQuery({ ...filters, ...patch });
+  };
+  const errorCount = timeline.filter((item) => item.error).length;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Filters */}
+      <div className="shrink-0 border-b border-white/10 px-3 py-2 space-y-2">
+        <div className="flex items-center gap-2">
+          {(['production', 'staging'] as const).map((env) => (
+            <button
+              key={env}
+              onClick={() => run({ environment: env })}
+              className={cn(
+                'px-2 py-0.5 rounded text-[10px] font-medium transition-colors',
+                query.environment === env ? 'bg-white/10 text-white/80' : 'text-white/40 hover:text-white/60',
+              )}
+            >
+              {env}
+            </button>
+          ))}
+          <div className="w-px h-4 bg-white/10" />
+          {RANGE_OPTIONS.map((r) => (
+            <button
+              key={r.minutes}
+              onClick={() => run({ rangeMinutes: r.minutes })}
+              disabled={!!query.taskId}
+              className={cn(
+                'px-1.5 py-0.5 rounded text-[10px] font-mono transition-colors disabled:opacity-30',
+                query.rangeMinutes === r.minutes && !query.taskId ? 'bg-white/10 text-white/80' : 'text-white/40 hover:text-white/60',
+              )}
+            >
+              {r.label}
+            </button>
+          ))}
+          <button
+            onClick={() => setErrorsOnly(!errorsOnly)}
+            className={cn(
+              'ml-auto px-2 py-0.5 rounded text-[10px] font-medium transition-colors',
+              errorsOnly ? 'bg-red-500/20 text-red-400' : 'text-white/40 hover:text-white/60',
+            )}
+          >
+            {errorCount} error{errorCount === 1 ? '' : 's'}
+          </button>
+          <button onClick={() => run()} className="p-1 rounded hover:bg-white/10" title="Refresh">
+            <RefreshCw className={cn('w-3 h-3 text-white/30', loading && 'animate-spin')} />
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={filters.slug}
+            onChange={(e) => update({ slug: e.target.value })}
+            onKeyDown={(e) => { if (e.key === 'Enter') run(); }}
+            placeholder={result?.task?.agent ?? 'function slug'}
+            className="h-7 text-xs font-mono"
+          />
+          <Input
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
+            onKeyDown={(e) => { if (e.key === 'Enter') run(); }}
+            placeholder="search messages"
+            className="h-7 text-xs"
+          />
+        </div>
+        {query.taskId && (
+          <div className="flex items-center gap-2 text-[10px]">
+            <ListChecks className="w-3 h-3 text-white/30" />
+            <span className="text-white/50 truncate">
+              Task <span className="font-mono">{query.taskId.slice(0, 8)}</span>
+              {result?.task && <> · {result.task.intent || result.task.type} · <span className={result.task.status === 'failed' ? 'text-red-400' : ''}>{result.task.status}</span></>}
+            </span>
+            <button
+              onClick={() => onTaskIdChange(null)}
+              className="ml-auto p-0.5 rounded hover:bg-white/10"
+              title="Clear task filter"
+            >
+              <X className="w-3 h-3 text-white/30" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div className="flex-1 overflow-y-auto font-mono">
+        {loading && !result ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center h-32 gap-2 px-6">
+            <AlertCircle className="w-6 h-6 text-red-400/50" />
+            <span className="text-xs text-red-400/70 text-center font-sans">{error}</span>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-32 gap-2">
+            <ScrollText className="w-6 h-6 text-white/20" />
+            <span className="text-sm text-white/30 font-sans">{errorsOnly ? 'No errors' : 'No log lines in range'}</span>
+          </div>
+        ) : (
+          visible.map((item) => (
+            <div
+              key={item.id}
+              ref={(el) => { if (el) itemRefs.current.set(item.id, el); else itemRefs.current.delete(item.id); }}
+              onClick={() => onSelect(item)}
+              className={cn(
+                'px-3 py-1 border-b border-white/5 flex items-start gap-2 text-[11px] cursor-pointer hover:bg-white/[0.03]',
+                item.kind === 'step' && 'bg-blue-500/[0.04]',
+                item.error && 'bg-red-500/[0.08]',
+                selectedId === item.id && 'border-l-2 border-l-blue-500 bg-white/[0.05]',
+              )}
+            >
+              <span className="text-white/25 shrink-0">{formatTime(item.at)}</span>
+              {item.kind === 'step' ? (
+                <span className={cn('flex-1 min-w-0 truncate font-sans', item.error ? 'text-red-400' : 'text-blue-300/80')}>
+                  ▸ {formatStepName(item.step.step)} <span className="text-white/30">{item.step.status}</span>
+                  {item.step.detail?.error && <span className="text-red-400/80"> — {String(item.step.detail.error)}</span>}
+                </span>
+              ) : (
+                <span
+                  className={cn(
+                    'flex-1 min-w-0 break-all line-clamp-2',
+                    item.error ? 'text-red-300' : 'text-white/60',
+                    item.mentionsTask && 'underline decoration-blue-400/50',
+                  )}
+                >
+                  {item.line.event_message}
+                </span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+      {result && (
+        <div className="shrink-0 border-t border-white/10 px-3 py-1 text-[10px] text-white/25 font-mono truncate">
+          {result.projectRef} · {result.slug ?? 'all functions'} · {result.lines.length} lines · {new Date(result.range.since).toLocaleString()} → {new Date(result.range.until).toLocaleTimeString()}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function LogItemDetail({ item }: { item: LogTimelineItem }) {
+  const fields = item.kind === 'step'
+    ? { agent: item.step.agent, step: item.step.step, status: item.step.status, duration_ms: item.step.duration_ms }
+    : { level: item.line.level, function_id: item.line.function_id, execution_id: item.line.execution_id };
+  const body = item.kind === 'step' ? JSON.stringify(item.step.detail, null, 2) : item.line.event_message;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <ScrollText className={cn('w-4 h-4', item.error ? 'text-red-400' : 'text-white/40')} />
+          <span className="text-sm font-medium text-white/70">
+            {item.kind === 'step' ? formatStepName(item.step.step) : 'Log line'}
+          </span>
+        </div>
+        <span className="text-[10px] text-white/30 mt-1 block font-mono">{new Date(item.at).toISOString()}</span>
+      </div>
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        <div className="space-y-1">
+          {Object.entries(fields).map(([key, value]) => value != null && (
+            <div key={key} className="flex items-center gap-2 text-[11px]">
+              <span className="text-white/30 w-24 shrink-0">{key}</span>
+              <span className="text-white/60 font-mono truncate">{String(value)}</span>
+            </div>
+          ))}
+        </div>
+        <pre
+          className={cn(
+            'text-[11px] font-mono whitespace-pre-wrap break-all rounded p-2 bg-black/30',
+            item.error ? 'text-red-300' : 'text-white/60',
+          )}
+        >
+          {body}
+        </pre>
+      </div>
+    </div>
+  );
+}
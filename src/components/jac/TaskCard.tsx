@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   Search, FileText, Brain, BarChart3, MessageSquare, Eye, Code2,
-  CheckCircle2, XCircle, Loader2, Clock, ChevronDown, ChevronUp, StopCircle,
+  CheckCircle2, XCircle, Loader2, Clock, ChevronDown, ChevronUp, StopCircle, ScrollText,
 } from 'lucide-react';
 import type { AgentTask, ActivityLogEntry } from '@/types/agent';
 
@@ -201,6 +202,17 @@ export function TaskCard({ task, logs, onExpand, onStop }: TaskCardProps) {
             </div>
           )}
 
+          {task.status === 'failed' && task.agent && (
+            <Link
+              to={`/brain?tab=logs&taskId=${task.id}`}
+              className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <ScrollText className="w-3 h-3" />
+              View function logs
+            </Link>
+          )}
+
           {output?.brief && (
             <div className="text-sm text-foreground whitespace-pre-wrap max-h-60 overflow-y-auto">
               {String(output.brief).slice(0, 1000)}
@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { retryWithBackoff } from '@/lib/retryWithBackoff';
+import { enqueueCreate, isNetworkError } from '@/hooks/useOfflineQueue';
 
 const SMART_SAVE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/smart-save`;
 const COLD_START_TIMEOUT = 45000;
@@ -83,6 +84,16 @@ export default function CompactDumpInput({ userId }: CompactDumpInputProps) {
       textareaRef.current?.blur();
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : 'Unknown error';
+      if (isNetworkError(err)) {
+        try {
+          await enqueueCreate({ content: text, userId, source: 'manual' });
+          toast.info('Saved offline', { description: 'Will sync when connection is restored' });
+          setFocused(false);
+          return;
+        } catch (queueErr) {
+          console.error('[CompactDumpInput] Failed to queue offline save:', queueErr);
+        }
+      }
       toast.error('Failed to save', { description: msg.slice(0, 100) });
       setContent(text); // Restore on failure
     } finally {
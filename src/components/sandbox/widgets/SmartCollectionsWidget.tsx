@@ -0,0 +1,151 @@
+/**
+ * SmartCollectionsWidget — One saved search, kept live on the dashboard.
+ *
+ * Pick a collection from the header chips; its matches refresh as entries
+ * change and newly matching entries get a "new" dot. The chosen collection
+ * is remembered per widget instance.
+ */
+
+import { useState, useEffect } from 'react';
+import { Layers, Bell } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSmartCollections, useSmartCollectionResults } from '@/hooks/useSmartCollections';
+import type { WidgetProps } from '@/types/widget';
+
+const STORAGE_PREFIX = 'smart-collection-widget:';
+
+const TYPE_BADGES: Record<string, string> = {
+  note: 'bg-blue-500/20 text-blue-400',
+  idea: 'bg-violet-500/20 text-violet-400',
+  link: 'bg-cyan-500/20 text-cyan-400',
+  code: 'bg-indigo-500/20 text-indigo-400',
+  contact: 'bg-emerald-500/20 text-emerald-400',
+  event: 'bg-amber-500/20 text-amber-400',
+  reminder: 'bg-red-500/20 text-red-400',
+  list: 'bg-orange-500/20 text-orange-400',
+};
+
+function loadSelection(instanceId: string): string | null {
+  try {
+    return localStorage.getItem(STORAGE_PREFIX + instanceId);
+  } catch {
+    return null;
+  }
+}
+
+function saveSelection(instanceId: string, collectionId: string): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + instanceId, collectionId);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export default function SmartCollectionsWidget({ instanceId, compact, onNavigate }: WidgetProps) {
+  const { collections, loading: loadingCollections } = useSmartCollections();
+  const [selectedId, setSelectedId] = useState<string | null>(() => loadSelection(instanceId));
+
+  // Fall back to the first collection if the remembered one was deleted
+  const selected = collections.find(c => c.id === selectedId) ?? collections[0] ?? null;
+
+  useEffect(() => {
+    if (selected && selected.id !== selectedId) setSelectedId(selected.id);
+  }, [selected, selectedId]);
+
+  const { results, loading, error, newIds } = useSmartCollectionResults(selected?.query, {
+    limit: compact ? 10 : 30,
+  });
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    saveSelection(instanceId, id);
+  };
+
+  const visible = results.slice(0, compact ? 4 : 12);
+
+  return (
+    <div className="flex flex-col h-full bg-white/[0.03] backdrop-blur-sm border border-white/10 rounded-lg overflow-hidden">
+      <div className="px-3 py-2 border-b border-white/10 flex items-center justify-between gap-2 shrink-0">
+        <div className="flex items-center gap-1 min-w-0 overflow-x-auto">
+          {collections.length === 0 ? (
+            <span className="text-xs font-medium text-white/70">Smart Collections</span>
+          ) : (
+            collections.map(c => (
+              <button
+                key={c.id}
+                onClick={() => handleSelect(c.id)}
+                className={cn(
+                  'text-[10px] px-2 py-0.5 rounded whitespace-nowrap transition-colors flex items-center gap-1',
+                  selected?.id === c.id ? 'bg-white/10 text-white/80' : 'text-white/30 hover:text-white/50'
+                )}
+              >
+                {c.name}
+                {c.notify_slack && <Bell className="w-2.5 h-2.5 text-white/30" />}
+              </button>
+            ))
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {newIds.size > 0 && (
+            <span className="text-[10px] text-emerald-400">{newIds.size} new</span>
+          )}
+          {onNavigate && (
+            <button
+              onClick={() => onNavigate(selected ? `/search?collection=${selected.id}` : '/search')}
+              className="text-[10px] text-blue-400/70 hover:text-blue-400 transition-colors"
+            >
+              Open
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {loadingCollections || (loading && results.length === 0) ? (
+          <div className="flex items-center justify-center h-16">
+            <span className="text-[10px] text-white/30">Loading...</span>
+          </div>
+        ) : !selected ? (
+          <div className="flex flex-col items-center justify-center h-16 gap-1">
+            <Layers className="w-4 h-4 text-white/20" />
+            <span className="text-[10px] text-white/30">Save a search to create a collection</span>
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-16">
+            <span className="text-[10px] text-red-400/70">{error}</span>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex items-center justify-center h-16">
+            <span className="text-[10px] text-white/30">Nothing matches yet</span>
+          </div>
+        ) : (
+          visible.map(entry => (
+            <button
+              key={entry.id}
+              onClick={() => onNavigate?.(`/search?collection=${selected.id}`)}
+              className="w-full text-left flex items-center gap-2 px-2 py-1.5 rounded bg-white/[0.02] border border-white/5 hover:bg-white/[0.05] transition-colors"
+            >
+              <div
+                className={cn(
+                  'w-1.5 h-1.5 rounded-full shrink-0',
+                  newIds.has(entry.id) ? 'bg-emerald-400' : 'bg-transparent'
+                )}
+              />
+              <span className="flex-1 min-w-0 text-[11px] text-white/70 truncate">
+                {entry.title || entry.content.slice(0, 60) || 'Untitled'}
+              </span>
+              <span
+                className={cn(
+                  'text-[9px] px-1 py-0.5 rounded shrink-0',
+                  TYPE_BADGES[entry.content_type] ?? 'bg-white/5 text-white/30'
+                )}
+              >
+                {entry.content_type}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,15 +3,18 @@
  *
  * Queries agent_tasks where cron_expression IS NOT NULL.
  * Follows the AgentOutputsWidget pattern exactly.
+ * Expanding a watch shows its change history — one watch_snapshots row per
+ * run, with what changed and whether it met the alert condition.
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Eye } from 'lucide-react';
+import { Eye, ChevronDown, ChevronRight } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
 import type { WidgetProps } from '@/types/widget';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import { describeCondition, describeDiff, type WatchAlertCondition, type WatchSnapshot } from '@/lib/watchConditions';
 
 interface WatchSummary {
   id: string;
@@ -23,6 +26,7 @@ interface WatchSummary {
   totalRuns: number;
   lastRunAt: string | null;
   modelTier: string;
+  alertCondition?: WatchAlertCondition;
 }
 
 function timeAgo(dateStr: string): string {
@@ -70,10 +74,64 @@ function prettyCron(schedule: string): string {
   return schedule;
 }
 
+function WatchHistory({ watchId, alertCondition, totalRuns }: {
+  watchId: string;
+  alertCondition?: WatchAlertCondition;
+  totalRuns: number;
+}) {
+  const [snapshots, setSnapshots] = useState<WatchSnapshot[] | null>(null);
+
+  // Refetch when a run is added
+  useEffect(() => {
+    supabase
+      .from('watch_snapshots')
+      .select('id, watch_id, task_id, run_number, findings, diff, summary, condition_met, created_at')
+      .eq('watch_id', watchId)
+      .order('created_at', { ascending: false })
+      .limit(10)
+      .then(({ data }) => setSnapshots((data as unknown as WatchSnapshot[]) || []));
+  }, [watchId, totalRuns]);
+
+  return (
+    <div className="ml-3.5 pl-3 border-l border-white/10 py-1 space-y-1.5">
+      <p className="text-[9px] text-white/30">{describeCondition(alertCondition)}</p>
+      {snapshots === null ? (
+        <p className="text-[9px] text-white/20">Loading...</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-[9px] text-white/20">No snapshots yet — history starts with the next run</p>
+      ) : (
+        snapshots.map(snap => {
+          const lines = describeDiff(snap.diff);
+          return (
+            <div key={snap.id} className="relative">
+              <div className={cn(
+                'absolute -left-[15px] top-1 w-1.5 h-1.5 rounded-full',
+                snap.condition_met ? 'bg-amber-400' : 'bg-white/20',
+              )} />
+              <div className="flex items-center gap-2 text-[9px]">
+                <span className={snap.condition_met ? 'text-white/60' : 'text-white/35'}>
+                  {snap.summary || `${snap.findings.length} items`}
+                </span>
+                {snap.run_number !== null && <span className="text-white/20">#{snap.run_number}</span>}
+                <span className="text-white/20 ml-auto shrink-0">{timeAgo(snap.created_at)}</span>
+              </div>
+              {lines.slice(0, 3).map((line, i) => (
+                <p key={i} className="text-[9px] text-white/30 truncate font-mono">{line}</p>
+              ))}
+              {lines.length > 3 && <p className="text-[9px] text-white/20">+{lines.length - 3} more</p>}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
 export default function WatchesWidget({ compact, onNavigate }: WidgetProps) {
   const [userId, setUserId] = useState('');
   const [watches, setWatches] = useState<WatchSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -123,6 +181,7 @@ export default function WatchesWidget({ compact, onNavigate }: WidgetProps) {
           totalRuns: count ?? 0,
           lastRunAt: lastRun?.[0]?.completed_at || null,
           modelTier: (input.modelTier as string) || 'haiku',
+          alertCondition: input.alertCondition as WatchAlertCondition | undefined,
         };
       })
     );
@@ -202,41 +261,54 @@ export default function WatchesWidget({ compact, onNavigate }: WidgetProps) {
           </div>
         ) : (
           visible.map(watch => (
-            <div key={watch.id} className="flex items-center gap-2 px-2 py-1.5 rounded bg-white/[0.02] border border-white/5">
-              {/* Status dot */}
-              <div className={cn('w-1.5 h-1.5 rounded-full shrink-0', watch.cron_active ? 'bg-emerald-400' : 'bg-white/20')} />
-
-              {/* Name + schedule */}
-              <div className="flex-1 min-w-0">
-                <p className="text-[11px] text-white/70 font-medium truncate">{watch.name}</p>
-                <div className="flex items-center gap-2 text-[9px] text-white/30">
-                  <span>{prettyCron(watch.cron_expression)}</span>
-                  <span>{watch.totalRuns} runs</span>
-                  {watch.lastRunAt && <span>{timeAgo(watch.lastRunAt)}</span>}
-                </div>
+            <div key={watch.id}>
+              <div className="flex items-center gap-2 px-2 py-1.5 rounded bg-white/[0.02] border border-white/5">
+                {/* Status dot */}
+                <div className={cn('w-1.5 h-1.5 rounded-full shrink-0', watch.cron_active ? 'bg-emerald-400' : 'bg-white/20')} />
+
+                {/* Name + schedule — click for change history */}
+                <button
+                  onClick={() => setExpandedId(expandedId === watch.id ? null : watch.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="text-[11px] text-white/70 font-medium truncate flex items-center gap-1">
+                    {expandedId === watch.id
+                      ? <ChevronDown className="w-2.5 h-2.5 text-white/30 shrink-0" />
+                      : <ChevronRight className="w-2.5 h-2.5 text-white/30 shrink-0" />}
+                    <span className="truncate">{watch.name}</span>
+                  </p>
+                  <div className="flex items-center gap-2 text-[9px] text-white/30">
+                    <span>{prettyCron(watch.cron_expression)}</span>
+                    <span>{watch.totalRuns} runs</span>
+                    {watch.lastRunAt && <span>{timeAgo(watch.lastRunAt)}</span>}
+                  </div>
+                </button>
+
+                {/* Next run */}
+                {watch.next_run_at && watch.cron_active && (
+                  <span className="text-[9px] text-white/25 shrink-0">{timeUntil(watch.next_run_at)}</span>
+                )}
+
+                {/* Model tier */}
+                <span className={cn(
+                  'text-[9px] px-1 py-0.5 rounded shrink-0',
+                  watch.modelTier === 'opus' ? 'bg-purple-500/20 text-purple-400' :
+                  watch.modelTier === 'sonnet' ? 'bg-blue-500/20 text-blue-400' :
+                  'bg-white/5 text-white/30'
+                )}>
+                  {watch.modelTier}
+                </span>
+
+                {/* Toggle */}
+                <Switch
+                  checked={watch.cron_active}
+                  onCheckedChange={(checked) => handleToggle(watch.id, checked)}
+                  className="scale-[0.6] shrink-0"
+                />
               </div>
-
-              {/* Next run */}
-              {watch.next_run_at && watch.cron_active && (
-                <span className="text-[9px] text-white/25 shrink-0">{timeUntil(watch.next_run_at)}</span>
+              {expandedId === watch.id && (
+                <WatchHistory watchId={watch.id} alertCondition={watch.alertCondition} totalRuns={watch.totalRuns} />
               )}
-
-              {/* Model tier */}
-              <span className={cn(
-                'text-[9px] px-1 py-0.5 rounded shrink-0',
-                watch.modelTier === 'opus' ? 'bg-purple-500/20 text-purple-400' :
-                watch.modelTier === 'sonnet' ? 'bg-blue-500/20 text-blue-400' :
-                'bg-white/5 text-white/30'
-              )}>
-                {watch.modelTier}
-              </span>
-
-              {/* Toggle */}
-              <Switch
-                checked={watch.cron_active}
-                onCheckedChange={(checked) => handleToggle(watch.id, checked)}
-                className="scale-[0.6] shrink-0"
-              />
             </div>
           ))
         )}
@@ -0,0 +1,42 @@
+/**
+ * MatchReasons — compact "why this matched" chips for a fused search result.
+ * Shared by GlobalSearch and the Search page.
+ */
+
+import { Sparkles, Type, Tag, Clock } from 'lucide-react';
+import type { MatchReason } from '@/hooks/useSearch';
+import { cn } from '@/lib/utils';
+
+const REASON_STYLES: Record<MatchReason['kind'], { icon: React.ReactNode; className: string }> = {
+  semantic: { icon: <Sparkles className="w-2.5 h-2.5" />, className: 'bg-emerald-500/15 text-emerald-400' },
+  keyword: { icon: <Type className="w-2.5 h-2.5" />, className: 'bg-blue-500/15 text-blue-400' },
+  tag: { icon: <Tag className="w-2.5 h-2.5" />, className: 'bg-purple-500/15 text-purple-400' },
+  recency: { icon: <Clock className="w-2.5 h-2.5" />, className: 'bg-amber-500/15 text-amber-400' },
+};
+
+interface MatchReasonsProps {
+  reasons?: MatchReason[];
+  className?: string;
+}
+
+export function MatchReasons({ reasons, className }: MatchReasonsProps) {
+  if (!reasons || reasons.length === 0) return null;
+
+  return (
+    <div className={cn('flex gap-1 flex-wrap', className)}>
+      {reasons.map((reason) => {
+        const style = REASON_STYLES[reason.kind] ?? REASON_STYLES.keyword;
+        return (
+          <span
+            key={reason.kind}
+            title={`#${reason.rank} in ${reason.kind} results`}
+            className={cn('text-[9px] px-1.5 py-0.5 rounded flex items-center gap-0.5 max-w-[220px] truncate', style.className)}
+          >
+            {style.icon}
+            {reason.detail}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * SaveCollectionDialog — Name the current search and save it as a smart collection.
+ */
+
+import { useState, useEffect } from 'react';
+import { Layers, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+
+interface SaveCollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The query being saved — shown read-only */
+  query: string;
+  onSave: (params: { name: string; query: string; notifySlack: boolean }) => Promise<unknown>;
+}
+
+const MAX_NAME_LENGTH = 100;
+
+export function SaveCollectionDialog({ open, onOpenChange, query, onSave }: SaveCollectionDialogProps) {
+  const [name, setName] = useState('');
+  const [notifySlack, setNotifySlack] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Reset when dialog opens
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setNotifySlack(false);
+    }
+  }, [open]);
+
+  const isValid = name.trim().length > 0 && name.trim().length <= MAX_NAME_LENGTH;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setSubmitting(true);
+    try {
+      await onSave({ name: name.trim(), query, notifySlack });
+      onOpenChange(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-zinc-900 border-white/10 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Layers className="w-4 h-4" />
+            Save as Collection
+          </DialogTitle>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div>
+            <label className="text-xs text-white/50 mb-1 block">Name *</label>
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Work reminders"
+              maxLength={MAX_NAME_LENGTH}
+              className="bg-white/5 border-white/10 text-white placeholder:text-white/30"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="text-xs text-white/50 mb-1 block">Query</label>
+            <p className="rounded-md bg-white/5 border border-white/10 px-3 py-2 text-xs font-mono text-white/60 break-words">
+              {query}
+            </p>
+            <p className="text-[10px] text-white/30 mt-1">
+              The collection re-runs this search live — new entries show up as they match.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between rounded-md bg-white/[0.03] border border-white/10 px-3 py-2">
+            <div>
+              <p className="text-xs text-white/70">Notify on Slack</p>
+              <p className="text-[10px] text-white/30">Message me when a new entry starts matching</p>
+            </div>
+            <Switch checked={notifySlack} onCheckedChange={setNotifySlack} />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-white/50 hover:text-white/80"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid || submitting}>
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * SearchQueryInput — text input that understands the structured search syntax.
+ *
+ * Shows operator / type / tag completions for the token under the cursor
+ * (↑↓ to move, Tab or Enter to accept, Esc to dismiss) and the first parse
+ * error beneath the field. Used by GlobalSearch and the Search page.
+ */
+
+import { useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { getQuerySuggestions, parseSearchQuery } from '@/lib/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called on Enter when no suggestion is open. Omit inside a <form> to let it submit. */
+  onSubmit?: () => void;
+  /** Known tags for tag: completion */
+  tags?: string[];
+  placeholder?: string;
+  className?: string;
+  autoFocus?: boolean;
+  /** Visual theme of the dropdown — the Search page is always dark */
+  variant?: 'default' | 'dark';
+}
+
+export function SearchQueryInput({
+  value,
+  onChange,
+  onSubmit,
+  tags,
+  placeholder,
+  className,
+  autoFocus,
+  variant = 'default',
+}: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const parsed = useMemo(() => parseSearchQuery(value), [value]);
+  const completion = useMemo(
+    () => getQuerySuggestions(value, cursor, { tags }),
+    [value, cursor, tags]
+  );
+  const open = !dismissed && completion.suggestions.length > 0;
+  const firstError = parsed.errors[0];
+
+  const syncCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const accept = (index: number) => {
+    const suggestion = completion.suggestions[index];
+    if (!suggestion) return;
+    // Leave the cursor right after "type:" so the value can be completed next
+    const continues = /[:<>=]$/.test(suggestion.insert);
+    const before = value.slice(0, completion.start) + suggestion.insert;
+    const after = value.slice(completion.end);
+    const next = continues ? before + after : `${before}${after.startsWith(' ') ? '' : ' '}${after}`;
+    const nextCursor = continues ? before.length : before.length + 1;
+
+    onChange(next);
+    setActiveIndex(0);
+    setCursor(nextCursor);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (open) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const delta = e.key === 'ArrowDown' ? 1 : -1;
+        const count = completion.suggestions.length;
+        setActiveIndex((i) => (i + delta + count) % count);
+        return;
+      }
+      if (e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        accept(Math.min(activeIndex, completion.suggestions.length - 1));
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissed(true);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  const dark = variant === 'dark';
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setDismissed(false);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCursor}
+        onClick={syncCursor}
+        onBlur={() => setDismissed(true)}
+        onFocus={() => setDismissed(false)}
+        placeholder={placeholder}
+        className={cn(firstError && 'border-red-500/60', className)}
+        autoFocus={autoFocus}
+        aria-invalid={!!firstError}
+        spellCheck={false}
+      />
+
+      {open && (
+        <ul
+          className={cn(
+            'absolute left-0 right-0 top-full mt-1 z-50 rounded-md border py-1 shadow-lg max-h-64 overflow-y-auto',
+            dark ? 'bg-neutral-900 border-white/10' : 'bg-popover border-border'
+          )}
+        >
+          {completion.suggestions.map((s, i) => (
+            <li
+              key={s.insert}
+              // onMouseDown so the input doesn't blur (and close the list) first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(i);
+              }}
+              className={cn(
+                'px-3 py-1.5 text-xs cursor-pointer flex items-center justify-between gap-3',
+                i === activeIndex && (dark ? 'bg-white/10' : 'bg-accent'),
+                dark ? 'text-white/80' : 'text-foreground'
+              )}
+            >
+              <span className="font-mono">{s.label}</span>
+              {s.description && (
+                <span className={cn('truncate', dark ? 'text-white/30' : 'text-muted-foreground')}>
+                  {s.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {firstError && (
+        <p className="mt-1 text-[11px] text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3 shrink-0" />
+          <span className="font-mono">{value.slice(firstError.start, firstError.end)}</span>
+          <span>— {firstError.message}</span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * SmartCollectionsRail — Saved collections down the side of the Search page.
+ *
+ * Selecting one opens it live; the bell toggles Slack notifications.
+ */
+
+import { Layers, Bell, BellOff, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SmartCollection } from '@/hooks/useSmartCollections';
+
+interface SmartCollectionsRailProps {
+  collections: SmartCollection[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onToggleNotify: (collection: SmartCollection) => void;
+  onDelete: (collection: SmartCollection) => void;
+  className?: string;
+}
+
+export function SmartCollectionsRail({
+  collections,
+  activeId,
+  onSelect,
+  onToggleNotify,
+  onDelete,
+  className,
+}: SmartCollectionsRailProps) {
+  return (
+    <aside className={cn('w-56 shrink-0 border-r border-white/10 py-4', className)}>
+      <div className="px-4 mb-2 flex items-center gap-1.5">
+        <Layers className="w-3.5 h-3.5 text-white/30" />
+        <span className="text-[10px] text-white/40 uppercase tracking-wider">Collections</span>
+      </div>
+
+      {collections.length === 0 ? (
+        <p className="px-4 text-[11px] text-white/20 leading-relaxed">
+          Run a search, then save it as a collection to keep it live here.
+        </p>
+      ) : (
+        <ul className="space-y-0.5 px-2">
+          {collections.map((c) => (
+            <li key={c.id} className="group relative">
+              <button
+                onClick={() => onSelect(c.id)}
+                title={c.query}
+                className={cn(
+                  'w-full text-left pl-2 pr-14 py-1.5 rounded text-xs truncate transition-colors',
+                  activeId === c.id
+                    ? 'bg-white/10 text-white/90'
+                    : 'text-white/50 hover:text-white/80 hover:bg-white/[0.04]'
+                )}
+              >
+                {c.name}
+              </button>
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+                <button
+                  onClick={() => onToggleNotify(c)}
+                  title={c.notify_slack ? 'Slack notifications on' : 'Slack notifications off'}
+                  className={cn(
+                    'p-1 rounded transition-colors',
+                    c.notify_slack
+                      ? 'text-amber-400/80 hover:text-amber-400'
+                      : 'text-white/20 opacity-0 group-hover:opacity-100 hover:text-white/50'
+                  )}
+                >
+                  {c.notify_slack ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+                </button>
+                <button
+                  onClick={() => onDelete(c)}
+                  title="Delete collection"
+                  className="p-1 rounded text-white/20 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -1,7 +1,10 @@
 /**
  * CreateWatchDialog — Create new watch or edit existing.
  *
- * Form: name, query, schedule (SchedulePicker), model tier, agent type.
+ * Form: name, query, schedule (SchedulePicker), model tier, agent type,
+ * and the alert condition (when a run's changes are worth a notification).
+ * New watches can start from a template: its typed parameters fill in the
+ * form, which stays editable.
  * Dual-purpose: create or edit mode based on editWatch prop.
  */
 
@@ -13,6 +16,8 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { SchedulePicker } from './SchedulePicker';
 import type { Watch } from '@/hooks/useWatches';
+import { CONDITION_TYPE_LABELS, type WatchAlertCondition, type WatchConditionType } from '@/lib/watchConditions';
+import { instantiateTemplate, templateErrors, type WatchTemplate } from '@/lib/watchTemplates';
 
 interface CreateWatchDialogProps {
   open: boolean;
@@ -24,8 +29,13 @@ interface CreateWatchDialogProps {
     cronExpression: string;
     modelTier: string;
     agentType: string;
+    alertCondition: WatchAlertCondition;
+    templateId?: string;
+    templateParams?: Record<string, string>;
   }) => Promise<string | null>;
   onTriggerRun?: (watchId: string) => Promise<void>;
+  templates?: WatchTemplate[];
+  onDeleteTemplate?: (id: string) => void;
 }
 
 const MODEL_TIERS = [
@@ -40,6 +50,8 @@ export function CreateWatchDialog({
   editWatch,
   onSave,
   onTriggerRun,
+  templates = [],
+  onDeleteTemplate,
 }: CreateWatchDialogProps) {
   const isEditing = !!editWatch;
 
@@ -48,6 +60,13 @@ export function CreateWatchDialog({
   const [cronExpression, setCronExpression] = useState('0 9 * * *');
   const [modelTier, setModelTier] = useState('haiku');
   const [agentType, setAgentType] = useState('jac-research-agent');
+  const [conditionType, setConditionType] = useState<WatchConditionType>('any_change');
+  const [threshold, setThreshold] = useState('');
+  const [conditionMatch, setConditionMatch] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  /** Remounts SchedulePicker, which only reads its value on mount */
+  const [scheduleKey, setScheduleKey] = useState(0);
   const [submitting, setSubmitting] = useState(false);
   const [testRunning, setTestRunning] = useState(false);
 
@@ -60,17 +79,75 @@ export function CreateWatchDialog({
         setCronExpression(editWatch.cron_expression || '0 9 * * *');
         setModelTier(editWatch.input.modelTier || 'haiku');
         setAgentType(editWatch.type === 'research' ? 'jac-research-agent' : 'jac-research-agent');
+        const condition = editWatch.input.alertCondition;
+        setConditionType(condition?.type || 'any_change');
+        setThreshold(condition && 'value' in condition ? String(condition.value) : '');
+        setConditionMatch(condition && 'match' in condition ? condition.match || '' : '');
       } else {
         setWatchName('');
         setQuery('');
         setCronExpression('0 9 * * *');
         setModelTier('haiku');
         setAgentType('jac-research-agent');
+        setConditionType('any_change');
+        setThreshold('');
+        setConditionMatch('');
       }
+      setTemplateId('');
+      setTemplateValues({});
     }
   }, [open, editWatch]);
 
-  const isValid = watchName.trim().length >= 3 && query.trim().length >= 5;
+  const template = templates.find(t => t.id === templateId);
+  const paramErrors = template ? templateErrors(template, templateValues) : {};
+
+  const applyCondition = (condition: WatchAlertCondition) => {
+    setConditionType(condition.type);
+    setThreshold('value' in condition ? String(condition.value) : '');
+    setConditionMatch('match' in condition ? condition.match || '' : '');
+  };
+
+  /** Fill name, query and alert condition once every parameter is valid */
+  const applyTemplate = (t: WatchTemplate, values: Record<string, string>) => {
+    if (Object.keys(templateErrors(t, values)).length > 0) return;
+    const draft = instantiateTemplate(t, values);
+    setWatchName(draft.watchName);
+    setQuery(draft.query);
+    applyCondition(draft.alertCondition);
+  };
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    const t = templates.find(x => x.id === id);
+    if (!t) {
+      setTemplateValues({});
+      return;
+    }
+    const defaults = Object.fromEntries(t.params.map(p => [p.key, p.default ?? '']));
+    setTemplateValues(defaults);
+    setCronExpression(t.cronExpression);
+    setScheduleKey(k => k + 1);
+    setModelTier(t.modelTier);
+    setAgentType(t.agentType);
+    applyTemplate(t, defaults);
+  };
+
+  const setTemplateValue = (key: string, value: string) => {
+    const next = { ...templateValues, [key]: value };
+    setTemplateValues(next);
+    if (template) applyTemplate(template, next);
+  };
+
+  const isThreshold = conditionType === 'below' || conditionType === 'above';
+  const thresholdValue = parseFloat(threshold.replace(/[$,\s]/g, ''));
+  const thresholdValid = !isThreshold || Number.isFinite(thresholdValue);
+  const isValid = watchName.trim().length >= 3 && query.trim().length >= 5 && thresholdValid
+    && Object.keys(paramErrors).length === 0;
+
+  const alertCondition = (): WatchAlertCondition =>
+    conditionType === 'below' || conditionType === 'above'
+      ? { type: conditionType, value: thresholdValue, ...(conditionMatch.trim() ? { match: conditionMatch.trim() } : {}) }
+      : { type: conditionType };
 
   const handleSave = async () => {
     if (!isValid) return;
@@ -82,6 +159,8 @@ export function CreateWatchDialog({
         cronExpression,
         modelTier,
         agentType,
+        alertCondition: alertCondition(),
+        ...(template ? { templateId: template.id, templateParams: templateValues } : {}),
       });
       onOpenChange(false);
     } finally {
@@ -99,6 +178,8 @@ export function CreateWatchDialog({
         cronExpression,
         modelTier,
         agentType,
+        alertCondition: alertCondition(),
+        ...(template ? { templateId: template.id, templateParams: templateValues } : {}),
       });
       if (watchId && onTriggerRun) {
         await onTriggerRun(watchId);
@@ -120,6 +201,53 @@ export function CreateWatchDialog({
         </DialogHeader>
 
         <div className="space-y-4">
+          {/* Template */}
+          {!isEditing && templates.length > 0 && (
+            <div className="rounded-md border border-white/10 bg-white/[0.02] p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-white/50 shrink-0">Start from</label>
+                <select
+                  value={templateId}
+                  onChange={e => selectTemplate(e.target.value)}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-xs text-white outline-none"
+                >
+                  <option value="">Blank watch</option>
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}{t.builtIn ? '' : ' (custom)'}</option>
+                  ))}
+                </select>
+                {template && !template.builtIn && onDeleteTemplate && (
+                  <button
+                    type="button"
+                    onClick={() => { onDeleteTemplate(template.id); selectTemplate(''); }}
+                    className="text-[10px] text-red-400/60 hover:text-red-400 shrink-0"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              {template?.description && <p className="text-[10px] text-white/30">{template.description}</p>}
+              {template?.params.map(param => (
+                <div key={param.key}>
+                  <label className="text-[10px] text-white/40 mb-0.5 block">
+                    {param.label}{param.required !== false ? ' *' : ''}
+                  </label>
+                  <Input
+                    value={templateValues[param.key] ?? ''}
+                    onChange={e => setTemplateValue(param.key, e.target.value)}
+                    placeholder={param.placeholder}
+                    type={param.type === 'url' ? 'url' : 'text'}
+                    inputMode={param.type === 'number' ? 'decimal' : undefined}
+                    className="h-8 bg-white/5 border-white/10 text-white placeholder:text-white/30 text-xs"
+                  />
+                  {templateValues[param.key] && paramErrors[param.key] && (
+                    <p className="text-[10px] text-red-400/70 mt-0.5">{paramErrors[param.key]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Watch Name */}
           <div>
             <label className="text-xs text-white/50 mb-1 block">Watch Name *</label>
@@ -151,7 +279,7 @@ export function CreateWatchDialog({
           </div>
 
           {/* Schedule */}
-          <SchedulePicker value={cronExpression} onChange={setCronExpression} />
+          <SchedulePicker key={scheduleKey} value={cronExpression} onChange={setCronExpression} />
 
           {/* Model Tier + Agent Type row */}
           <div className="flex gap-3">
@@ -194,6 +322,45 @@ export function CreateWatchDialog({
             </div>
           </div>
 
+          {/* Alert condition */}
+          <div>
+            <label className="text-xs text-white/50 mb-1.5 block">Notify when</label>
+            <div className="flex gap-2">
+              <select
+                value={conditionType}
+                onChange={e => setConditionType(e.target.value as WatchConditionType)}
+                className="flex-1 bg-white/5 border border-white/10 rounded-md px-2 py-2 text-xs text-white outline-none"
+              >
+                {(Object.keys(CONDITION_TYPE_LABELS) as WatchConditionType[]).map(type => (
+                  <option key={type} value={type}>{CONDITION_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              {isThreshold && (
+                <Input
+                  value={threshold}
+                  onChange={e => setThreshold(e.target.value)}
+                  placeholder="400000"
+                  inputMode="decimal"
+                  className="w-28 bg-white/5 border-white/10 text-white placeholder:text-white/30 text-xs"
+                />
+              )}
+            </div>
+            {isThreshold && (
+              <Input
+                value={conditionMatch}
+                onChange={e => setConditionMatch(e.target.value)}
+                placeholder="Only items matching (optional), e.g. Austin"
+                className="mt-2 bg-white/5 border-white/10 text-white placeholder:text-white/30 text-xs"
+              />
+            )}
+            <p className="text-[10px] text-white/30 mt-1">
+              Every run is compared with the last one; runs that don't meet this complete quietly.
+            </p>
+            {threshold.length > 0 && !thresholdValid && (
+              <p className="text-[10px] text-red-400/70 mt-1">Enter a number</p>
+            )}
+          </div>
+
           {/* Actions */}
           <div className="flex items-center gap-2 pt-2">
             <Button
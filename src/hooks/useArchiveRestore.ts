@@ -0,0 +1,104 @@
+/**
+ * useArchiveRestore — Restore a brain archive exported from Settings.
+ *
+ * Two steps: selecting a file runs restore-archive as a dry run so the user
+ * sees what would be added (and what's already there), then confirm() runs
+ * the real restore with the same archive.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export type ArchiveRestorePhase = 'idle' | 'checking' | 'ready' | 'restoring' | 'done' | 'error';
+
+export interface ArchiveSectionResult {
+  total: number;
+  inserted: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface ArchiveRestoreSummary {
+  dryRun: boolean;
+  schemaVersion: number;
+  exportedAt: string;
+  sections: Record<string, ArchiveSectionResult>;
+  profile: 'updated' | 'unchanged';
+  userSettings: 'created' | 'merged' | 'unchanged';
+  warnings: string[];
+  failures: string[];
+}
+
+export interface ArchiveRestoreState {
+  phase: ArchiveRestorePhase;
+  fileName: string | null;
+  summary: ArchiveRestoreSummary | null;
+  error: string | null;
+}
+
+const INITIAL_STATE: ArchiveRestoreState = { phase: 'idle', fileName: null, summary: null, error: null };
+
+async function invokeRestore(archive: unknown, dryRun: boolean): Promise<ArchiveRestoreSummary> {
+  const { data, error } = await supabase.functions.invoke('restore-archive', {
+    body: { archive, dryRun },
+  });
+  if (error) {
+    // Validation errors come back as 400 with details.errors
+    const context = (error as { context?: Response }).context;
+    const body = context ? await context.json().catch(() => null) : null;
+    const details: string[] = body?.details?.errors ?? [];
+    throw new Error([body?.error || error.message || 'Restore failed', ...details.slice(0, 3)].join(' — '));
+  }
+  return data as ArchiveRestoreSummary;
+}
+
+export function useArchiveRestore() {
+  const [state, setState] = useState<ArchiveRestoreState>(INITIAL_STATE);
+  const archiveRef = useRef<unknown>(null);
+
+  const selectFile = useCallback(async (file: File) => {
+    archiveRef.current = null;
+    setState({ ...INITIAL_STATE, phase: 'checking', fileName: file.name });
+
+    try {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Not a JSON file');
+      }
+      const summary = await invokeRestore(archive, true);
+      archiveRef.current = archive;
+      setState({ phase: 'ready', fileName: file.name, summary, error: null });
+    } catch (err) {
+      console.error('[useArchiveRestore] check failed:', err);
+      setState({ phase: 'error', fileName: file.name, summary: null, error: err instanceof Error ? err.message : 'Invalid archive' });
+    }
+  }, []);
+
+  const confirm = useCallback(async () => {
+    if (!archiveRef.current) return;
+    setState((s) => ({ ...s, phase: 'restoring' }));
+
+    try {
+      const summary = await invokeRestore(archiveRef.current, false);
+      archiveRef.current = null;
+      setState((s) => ({ ...s, phase: 'done', summary, error: null }));
+      const restored = Object.values(summary.sections).reduce((sum, s) => sum + s.inserted, 0);
+      toast.success(`Restored ${restored} item${restored !== 1 ? 's' : ''} from archive`);
+    } catch (err) {
+      console.error('[useArchiveRestore] restore failed:', err);
+      const message = err instanceof Error ? err.message : 'Restore failed';
+      setState((s) => ({ ...s, phase: 'error', error: message }));
+      toast.error(`Restore failed: ${message}`);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    archiveRef.current = null;
+    setState(INITIAL_STATE);
+  }, []);
+
+  return { state, selectFile, confirm, reset };
+}
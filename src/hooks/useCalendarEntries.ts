@@ -1,6 +1,8 @@
 /**
  * useCalendarEntries — Fetches entries with event_date and groups them
  * into overdue, today, this week, and upcoming buckets.
+ * Recurring entries are bucketed at their next occurrence; occurrencesBetween
+ * expands them for a date range (month grid, selected day).
  * Realtime subscription for live updates.
  */
 
@@ -10,9 +12,12 @@ import { startOfDay, addDays, format } from 'date-fns';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 import type { Entry } from '@/types';
 import { parseListItems } from '@/lib/parseListItems';
+import { entryOccurrences, entryRRule, nextOccurrence } from '@/lib/rrule';
 
 export interface CalendarEntry extends Entry {
   event_date: string; // override optional to required — calendar entries always have event_date
+  /** Set on an occurrence of a recurring entry: the series' own event_date (event_date is the occurrence) */
+  series_date?: string;
 }
 
 export interface CreateEventData {
@@ -24,6 +29,8 @@ export interface CreateEventData {
   reminderMinutes?: number;
   isRecurring?: boolean;
   recurrencePattern?: string;
+  /** RRULE value; when set, isRecurring/recurrencePattern should match its FREQ */
+  rrule?: string;
 }
 
 export interface UseCalendarEntriesResult {
@@ -35,9 +42,19 @@ export interface UseCalendarEntriesResult {
   error: string | null;
   refresh: () => Promise<void>;
   createEvent: (data: CreateEventData) => Promise<void>;
+  /** Every occurrence between two dates (inclusive), each with event_date set to its occurrence */
+  occurrencesBetween: (from: string, to: string) => CalendarEntry[];
+  /** Drop one occurrence of a recurring entry */
+  skipOccurrence: (entry: CalendarEntry, date: string) => Promise<void>;
   userId: string;
 }
 
+function byDateTime(a: CalendarEntry, b: CalendarEntry): number {
+  if (a.event_date !== b.event_date) return a.event_date < b.event_date ? -1 : 1;
+  // Untimed entries sort last within a day, as in the fetch order
+  return (a.event_time ?? '99').localeCompare(b.event_time ?? '99');
+}
+
 export function useCalendarEntries(): UseCalendarEntriesResult {
   const [userId, setUserId] = useState<string>('');
   const [entries, setEntries] = useState<CalendarEntry[]>([]);
@@ -125,7 +142,10 @@ export function useCalendarEntries(): UseCalendarEntriesResult {
     const thisWeekArr: CalendarEntry[] = [];
     const upcomingArr: CalendarEntry[] = [];
 
-    for (const entry of entries) {
+    for (const series of entries) {
+      // A recurring entry is never overdue while it still has occurrences ahead
+      const next = entryRRule(series) ? nextOccurrence(series, todayStr) : null;
+      const entry = next ? { ...series, event_date: next, series_date: series.event_date } : series;
       const d = entry.event_date;
       if (d < todayStr) {
         overdueArr.push(entry);
@@ -140,12 +160,20 @@ export function useCalendarEntries(): UseCalendarEntriesResult {
 
     return {
       overdue: overdueArr,
-      today: todayArr,
-      thisWeek: thisWeekArr,
-      upcoming: upcomingArr,
+      today: todayArr.sort(byDateTime),
+      thisWeek: thisWeekArr.sort(byDateTime),
+      upcoming: upcomingArr.sort(byDateTime),
     };
   }, [entries]);
 
+  const occurrencesBetween = useCallback((from: string, to: string) => {
+    return entries
+      .flatMap(entry => entryOccurrences(entry, from, to).map(date =>
+        entryRRule(entry) ? { ...entry, event_date: date, series_date: entry.event_date } : entry
+      ))
+      .sort(byDateTime);
+  }, [entries]);
+
   const createEvent = useCallback(async (data: CreateEventData) => {
     if (!userId) throw new Error('Not authenticated');
     const { error } = await supabase.from('entries').insert({
@@ -158,10 +186,20 @@ export function useCalendarEntries(): UseCalendarEntriesResult {
       reminder_minutes: data.reminderMinutes || null,
       is_recurring: data.isRecurring || false,
       recurrence_pattern: data.recurrencePattern || null,
+      rrule: data.rrule || (data.isRecurring && data.recurrencePattern ? `FREQ=${data.recurrencePattern.toUpperCase()}` : null),
     });
     if (error) throw error;
     // Realtime subscription handles refresh automatically
   }, [userId]);
 
-  return { overdue, today, thisWeek, upcoming, isLoading, error, refresh: fetchEntries, createEvent, userId };
+  const skipOccurrence = useCallback(async (entry: CalendarEntry, date: string) => {
+    const exdates = [...new Set([...(entry.exdates ?? []), date])].sort();
+    const { error } = await supabase.from('entries').update({ exdates }).eq('id', entry.id);
+    if (error) throw error;
+  }, []);
+
+  return {
+    overdue, today, thisWeek, upcoming, isLoading, error,
+    refresh: fetchEntries, createEvent, occurrencesBetween, skipOccurrence, userId,
+  };
 }
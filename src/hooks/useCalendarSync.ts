@@ -0,0 +1,151 @@
+/**
+ * useCalendarSync — ICS feed token and calendar subscriptions.
+ *
+ * Reads calendar_feeds / calendar_subscriptions directly; every change goes
+ * through the calendar-sync edge function, which owns the token and does the
+ * fetching and UID matching.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  describeSyncCounts,
+  feedUrls,
+  type CalendarFeed,
+  type CalendarSubscription,
+  type CalendarSyncCounts,
+} from '@/lib/calendarFeed';
+
+const CALENDAR_SYNC_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-sync`;
+
+async function callCalendarSync<T = Record<string, unknown>>(body: Record<string, unknown>): Promise<T> {
+  const { data: session } = await supabase.auth.getSession();
+  if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+  const res = await fetch(CALENDAR_SYNC_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.session.access_token}`,
+      'Content-Type': 'application/json',
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data as T;
+}
+
+export function useCalendarSync() {
+  const [userId, setUserId] = useState('');
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [subscriptions, setSubscriptions] = useState<CalendarSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) setUserId(session.user.id);
+    });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    const [feedResult, subsResult] = await Promise.all([
+      supabase
+        .from('calendar_feeds')
+        .select('token, created_at, last_accessed_at')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase
+        .from('calendar_subscriptions')
+        .select('id, url, name, last_synced_at, last_error, event_count, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true }),
+    ]);
+    setFeed((feedResult.data as unknown as CalendarFeed | null) ?? null);
+    setSubscriptions((subsResult.data as unknown as CalendarSubscription[] | null) ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /** Run a calendar-sync action with a busy flag and an error toast; null on failure */
+  const run = useCallback(async <T,>(body: Record<string, unknown>, failure: string): Promise<T | null> => {
+    setBusy(true);
+    try {
+      return await callCalendarSync<T>(body);
+    } catch (err) {
+      toast.error(`${failure}: ${err instanceof Error ? err.message : 'unknown error'}`);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const enableFeed = useCallback(async (rotate = false) => {
+    const result = await run<{ feed: CalendarFeed }>({ action: rotate ? 'rotate_feed' : 'feed' }, 'Failed to create feed');
+    if (!result) return;
+    setFeed(result.feed);
+    if (rotate) toast.success('Feed URL regenerated — the old URL no longer works');
+  }, [run]);
+
+  const disableFeed = useCallback(async () => {
+    if (await run({ action: 'disable_feed' }, 'Failed to turn off feed')) {
+      setFeed(null);
+      toast.success('Calendar feed turned off');
+    }
+  }, [run]);
+
+  const importFile = useCallback(async (file: File) => {
+    const ics = await file.text();
+    const result = await run<CalendarSyncCounts & { events: number }>(
+      { action: 'import', ics, name: file.name.replace(/\.ics$/i, '') },
+      'Import failed'
+    );
+    if (result) toast.success(`Imported ${file.name}: ${describeSyncCounts(result)}`);
+  }, [run]);
+
+  const subscribe = useCallback(async (url: string, name?: string): Promise<boolean> => {
+    const result = await run<CalendarSyncCounts>({ action: 'subscribe', url, name }, 'Subscribe failed');
+    if (!result) return false;
+    toast.success(`Subscribed: ${describeSyncCounts(result)}`);
+    refresh();
+    return true;
+  }, [run, refresh]);
+
+  const syncNow = useCallback(async (subscriptionId?: string) => {
+    const result = await run<CalendarSyncCounts & { errors: Array<{ error: string }> }>(
+      { action: 'sync', subscriptionId },
+      'Sync failed'
+    );
+    if (!result) return;
+    if (result.errors?.length) {
+      toast.error(`Sync failed: ${result.errors[0].error}`);
+    } else {
+      toast.success(describeSyncCounts(result));
+    }
+    refresh();
+  }, [run, refresh]);
+
+  const unsubscribe = useCallback(async (subscriptionId: string, keepEvents: boolean) => {
+    const result = await run<{ removed: number }>({ action: 'unsubscribe', subscriptionId, keepEvents }, 'Failed to unsubscribe');
+    if (!result) return;
+    toast.success(keepEvents ? 'Unsubscribed — events kept' : `Unsubscribed — ${result.removed} events removed`);
+    refresh();
+  }, [run, refresh]);
+
+  const urls = useMemo(
+    () => (feed ? feedUrls(import.meta.env.VITE_SUPABASE_URL, feed.token) : null),
+    [feed]
+  );
+
+  return {
+    feed, urls, subscriptions, loading, busy,
+    enableFeed, disableFeed, importFile, subscribe, syncNow, unsubscribe, refresh,
+  };
+}
@@ -3,15 +3,59 @@
  *
  * Manages code projects, sessions, file browsing, and agent commands.
  * Follows useJacAgent patterns for supabase client, realtime, and auth.
+ * While a session is being continued, commands go to its open PR as
+ * follow-up commits instead of starting a new branch.
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import type { CodeProject, CodeSession, AgentTask, ActivityLogEntry, ChatMessage } from '@/types/agent';
+import type { CodeProject, CodeSession, AgentTask, ActivityLogEntry, ChatMessage, MergePolicy, GitProviderKind, CodeFileSymbols } from '@/types/agent';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
 const JAC_DISPATCHER_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/jac-dispatcher`;
+const CODE_APPROVAL_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/code-approval`;
+
+/** Where a project's repo is hosted; omitted means GitHub */
+export interface GitHostOptions {
+  provider: GitProviderKind;
+  baseUrl?: string;
+  tokenSecret?: string;
+}
+
+export type ReviewAction = 'approve' | 'reject' | 'request_changes';
+
+export interface SessionDiff {
+  prNumber: number;
+  prUrl: string | null;
+  approvalReason: string | null;
+  diff: string;
+}
+
+const REVIEW_STEP_LABELS: Record<string, (detail: Record<string, unknown>) => string> = {
+  awaiting_approval: (d) => `⏸ Awaiting your approval${d?.reason ? ` — ${d.reason}` : ''}`,
+  merge_approved: (d) => d?.merged === false ? `❌ Approved, but merge failed: ${d?.error || 'unknown error'}` : '✅ Merge approved',
+  merge_rejected: () => '🚫 PR rejected and closed',
+  changes_requested: (d) => `✏️ Changes requested: ${(d?.feedback as string) || ''}`,
+};
+
+/** Session with a PR that's still open — follow-ups can push to it */
+export function isContinuableSession(session: CodeSession): boolean {
+  return !!session.pr_number && !session.merge_sha &&
+    ['completed', 'awaiting_approval', 'changes_requested'].includes(session.status);
+}
+
+function sandboxLabel(d: Record<string, unknown>): string {
+  if (d?.skipped) return `⚠️ Sandbox validation skipped — ${(d?.message as string) || 'unavailable'}`;
+  if (d?.passed) return `✅ Sandbox checks passed (${(d?.message as string) || 'syntax, typecheck, lint'})`;
+  return `⚠️ Sandbox checks failed: ${d?.errors || 0} error(s) (${(d?.message as string) || ''})`;
+}
+
+function correctionLabel(d: Record<string, unknown>): string {
+  return d?.source === 'sandbox'
+    ? `fixing sandbox errors (round ${d?.iteration || '?'})`
+    : `writing correction (iteration ${d?.iteration || '?'})`;
+}
 
 export function useCodeWorkspace(userId: string) {
   const [projects, setProjects] = useState<CodeProject[]>([]);
@@ -19,6 +63,7 @@ export function useCodeWorkspace(userId: string) {
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [activeSession, setActiveSession] = useState<CodeSession | null>(null);
   const [fileTree, setFileTree] = useState<string[]>([]);
+  const [symbolIndex, setSymbolIndex] = useState<CodeFileSymbols[]>([]);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [selectedFileContent, setSelectedFileContent] = useState<string | null>(null);
   const [fileLoading, setFileLoading] = useState(false);
@@ -26,11 +71,14 @@ export function useCodeWorkspace(userId: string) {
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [continuingSessionId, setContinuingSessionId] = useState<string | null>(null);
+  const [continuingDiff, setContinuingDiff] = useState<string | null>(null);
   const sendingRef = useRef(false);
   const channelsRef = useRef<RealtimeChannel[]>([]);
 
   // Derived active project
   const activeProject = projects.find(p => p.id === activeProjectId) ?? null;
+  const continuingSession = sessions.find(s => s.id === continuingSessionId) ?? null;
 
   // Load projects + sessions on mount
   useEffect(() => {
@@ -136,11 +184,25 @@ export function useCodeWorkspace(userId: string) {
                     content: `❌ Failed: ${(detail?.error as string) || log.step}`,
                     timestamp: log.created_at,
                   });
+                } else if (REVIEW_STEP_LABELS[log.step]) {
+                  msgs.push({
+                    id: `review-${log.id}`,
+                    role: 'system',
+                    content: REVIEW_STEP_LABELS[log.step](log.detail as Record<string, unknown>),
+                    timestamp: log.created_at,
+                  });
+                } else if (log.step === 'sandbox_validate' && log.status === 'completed') {
+                  msgs.push({
+                    id: `sandbox-${log.id}`,
+                    role: 'system',
+                    content: sandboxLabel(log.detail as Record<string, unknown>),
+                    timestamp: log.created_at,
+                  });
                 } else if (log.step === 'self_review' || log.step === 'write_correction') {
                   const detail = log.detail as Record<string, unknown>;
                   const label = log.step === 'self_review'
                     ? `self review (iteration ${detail?.iteration || '?'})${detail?.approved ? ' — approved' : ` — ${detail?.issues || 0} issues`}`
-                    : `writing correction (iteration ${detail?.iteration || '?'})`;
+                    : correctionLabel(detail);
                   msgs.push({
                     id: `step-${log.id}`,
                     role: 'system',
@@ -165,6 +227,35 @@ export function useCodeWorkspace(userId: string) {
     loadInitial();
   }, [userId]);
 
+  // Symbol index for the active project — reloads when sync-codebase re-indexes
+  const symbolsIndexedAt = activeProject?.symbols_indexed_at ?? null;
+  useEffect(() => {
+    if (!activeProjectId) {
+      setSymbolIndex([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSymbols = async () => {
+      const { data, error } = await supabase
+        .from('code_symbols')
+        .select('path, symbols, exports, imports, imported_paths')
+        .eq('project_id', activeProjectId);
+      if (cancelled) return;
+      if (error) {
+        console.warn('[useCodeWorkspace] Symbol index load error:', error);
+        setSymbolIndex([]);
+        return;
+      }
+      setSymbolIndex((data ?? []) as unknown as CodeFileSymbols[]);
+    };
+
+    loadSymbols();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId, symbolsIndexedAt]);
+
   // Realtime subscriptions
   useEffect(() => {
     if (!userId) return;
@@ -225,6 +316,8 @@ export function useCodeWorkspace(userId: string) {
             setSessions(prev => [newSess, ...prev]);
             if (newSess.status === 'active') {
               setActiveSession(newSess);
+            } else if (newSess.status === 'awaiting_approval') {
+              toast.info(`PR waiting for your approval: ${newSess.intent.slice(0, 60)}`);
             }
           } else if (payload.eventType === 'UPDATE') {
             const updated = payload.new as CodeSession;
@@ -235,6 +328,8 @@ export function useCodeWorkspace(userId: string) {
               setActiveSession(null);
               if (updated.status === 'completed') {
                 toast.success(`Session completed: ${updated.intent.slice(0, 60)}`);
+              } else if (updated.status === 'awaiting_approval') {
+                toast.info(`PR waiting for your approval: ${updated.intent.slice(0, 60)}`);
               } else if (updated.status === 'failed') {
                 toast.error(`Session failed: ${updated.intent.slice(0, 60)}`);
               }
@@ -316,11 +411,27 @@ export function useCodeWorkspace(userId: string) {
                 content: `❌ Failed: ${(detail?.error as string) || newLog.step}`,
                 timestamp: newLog.created_at,
               }]);
-            } else if (['plan', 'write_code', 'read_file', 'open_pr', 'create_branch', 'self_review', 'write_correction', 'auto_merge'].includes(newLog.step)) {
+            } else if (REVIEW_STEP_LABELS[newLog.step]) {
+              setChatMessages(prev => [...prev, {
+                id: `review-${newLog.id}`,
+                role: 'system',
+                content: REVIEW_STEP_LABELS[newLog.step](newLog.detail as Record<string, unknown>),
+                timestamp: newLog.created_at,
+              }]);
+            } else if (newLog.step === 'sandbox_validate' && newLog.status === 'completed') {
+              setChatMessages(prev => [...prev, {
+                id: `sandbox-${newLog.id}`,
+                role: 'system',
+                content: sandboxLabel(newLog.detail as Record<string, unknown>),
+                timestamp: newLog.created_at,
+              }]);
+            } else if (['resume_session', 'plan', 'write_code', 'sandbox_validate', 'read_file', 'open_pr', 'comment_pr', 'create_branch', 'self_review', 'write_correction', 'auto_merge'].includes(newLog.step)) {
               const stepLabel = newLog.step === 'self_review'
                 ? `self review (iteration ${(newLog.detail as Record<string, unknown>)?.iteration || '?'})...`
                 : newLog.step === 'write_correction'
-                ? `writing correction (iteration ${(newLog.detail as Record<string, unknown>)?.iteration || '?'})...`
+                ? `${correctionLabel(newLog.detail as Record<string, unknown>)}...`
+                : newLog.step === 'sandbox_validate'
+                ? 'validating in sandbox...'
                 : `${newLog.step.replace(/_/g, ' ')}...`;
               setChatMessages(prev => [...prev, {
                 id: `step-${newLog.id}`,
@@ -344,18 +455,21 @@ export function useCodeWorkspace(userId: string) {
   }, [userId, activeProjectId, activeSession?.id]);
 
   // Add a project
-  const addProject = useCallback(async (repoFullName: string, name: string, techStack: string[], defaultBranch = 'main') => {
+  const addProject = useCallback(async (repoFullName: string, name: string, techStack: string[], defaultBranch = 'main', gitHost?: GitHostOptions) => {
     try {
       const { data, error } = await supabase
-        .from('code_projects' as any)
+        .from('code_projects')
         .insert({
           user_id: userId,
           repo_full_name: repoFullName,
           name,
           tech_stack: techStack,
           default_branch: defaultBranch,
+          git_provider: gitHost?.provider ?? 'github',
+          git_base_url: gitHost?.baseUrl || null,
+          git_token_secret: gitHost?.tokenSecret || null,
           active: true,
-        } as any)
+        })
         .select()
         .single();
 
@@ -388,6 +502,7 @@ export function useCodeWorkspace(userId: string) {
   // Select a project and load its file tree
   const selectProject = useCallback((id: string) => {
     setActiveProjectId(id);
+    setContinuingSessionId(null);
     setSelectedFile(null);
     setSelectedFileContent(null);
 
@@ -473,8 +588,9 @@ export function useCodeWorkspace(userId: string) {
         body.context = {
           projectId: activeProject.id,
           repoFullName: activeProject.repo_full_name,
-          branch: activeProject.default_branch,
+          branch: continuingSession?.branch_name ?? activeProject.default_branch,
           techStack: activeProject.tech_stack,
+          ...(continuingSession ? { sessionId: continuingSession.id } : {}),
         };
       }
 
@@ -502,7 +618,7 @@ export function useCodeWorkspace(userId: string) {
       sendingRef.current = false;
       setSending(false);
     }
-  }, [activeProject]);
+  }, [activeProject, continuingSession]);
 
   // Cancel a running code task (kill switch)
   const cancelTask = useCallback(async (taskId: string) => {
@@ -525,12 +641,133 @@ export function useCodeWorkspace(userId: string) {
     }
   }, []);
 
+  // Call code-approval for a session parked behind the merge policy
+  const callCodeApproval = useCallback(async (payload: Record<string, unknown>) => {
+    await supabase.auth.getUser();
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+    const res = await fetch(CODE_APPROVAL_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.session.access_token}`,
+        'Content-Type': 'application/json',
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+    return data;
+  }, []);
+
+  // Load the PR diff for review
+  const loadSessionDiff = useCallback(async (sessionId: string): Promise<SessionDiff | null> => {
+    try {
+      const data = await callCodeApproval({ sessionId, action: 'diff' });
+      return {
+        prNumber: data.prNumber,
+        prUrl: data.prUrl ?? null,
+        approvalReason: data.approvalReason ?? null,
+        diff: data.diff ?? '',
+      };
+    } catch (err) {
+      toast.error(`Failed to load diff: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('[useCodeWorkspace] loadSessionDiff error:', err);
+      return null;
+    }
+  }, [callCodeApproval]);
+
+  // Continue a session: later commands push follow-up commits to its PR
+  const continueSession = useCallback((sessionId: string | null) => {
+    const target = sessions.find(s => s.id === sessionId);
+    if (sessionId && target && !isContinuableSession(target)) {
+      toast.error('That session has no open PR to continue');
+      return;
+    }
+    if (target && target.project_id !== activeProjectId) {
+      selectProject(target.project_id);
+    }
+    setContinuingSessionId(sessionId);
+  }, [sessions, activeProjectId, selectProject]);
+
+  // Stop continuing once the PR is merged, closed or the session is gone
+  const continuingStatus = continuingSession?.status ?? null;
+  useEffect(() => {
+    if (!continuingSessionId) return;
+    if (!continuingSession) {
+      setContinuingSessionId(null);
+    } else if (continuingStatus !== 'active' && !isContinuableSession(continuingSession)) {
+      toast.info(`PR #${continuingSession.pr_number} is no longer open — follow-ups stopped`);
+      setContinuingSessionId(null);
+    }
+  }, [continuingSessionId, continuingSession, continuingStatus]);
+
+  // PR diff of the continued session, refreshed after each follow-up lands
+  const continuingUpdatedAt = continuingSession?.updated_at ?? null;
+  useEffect(() => {
+    if (!continuingSessionId) {
+      setContinuingDiff(null);
+      return;
+    }
+    if (continuingStatus === 'active') return;
+
+    let cancelled = false;
+    loadSessionDiff(continuingSessionId).then((result) => {
+      if (!cancelled) setContinuingDiff(result?.diff ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [continuingSessionId, continuingStatus, continuingUpdatedAt, loadSessionDiff]);
+
+  // Approve, reject, or request changes on a held PR
+  const reviewSession = useCallback(async (sessionId: string, action: ReviewAction, feedback?: string) => {
+    try {
+      await callCodeApproval({ sessionId, action, feedback });
+      if (action === 'approve') toast.success('Approved — PR merged');
+      else if (action === 'reject') toast.info('PR rejected and closed');
+      else toast.info('Changes requested on the PR');
+      return true;
+    } catch (err) {
+      toast.error(`Review failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('[useCodeWorkspace] reviewSession error:', err);
+      return false;
+    }
+  }, [callCodeApproval]);
+
+  // Update a project's merge policy
+  const updateMergePolicy = useCallback(async (projectId: string, mergePolicy: MergePolicy, approvalPaths: string[]) => {
+    try {
+      const { error } = await supabase
+        .from('code_projects')
+        .update({
+          merge_policy: mergePolicy,
+          approval_paths: approvalPaths,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', projectId);
+
+      if (error) throw error;
+      toast.success('Merge policy updated');
+      return true;
+    } catch (err) {
+      toast.error('Failed to update merge policy');
+      console.error('[useCodeWorkspace] updateMergePolicy error:', err);
+      return false;
+    }
+  }, []);
+
   return {
     projects,
     sessions,
     activeProject,
     activeSession,
+    continuingSession,
+    continuingDiff,
     fileTree,
+    symbolIndex,
     selectedFile,
     selectedFileContent,
     fileLoading,
@@ -543,7 +780,11 @@ export function useCodeWorkspace(userId: string) {
     selectProject,
     setSelectedFile,
     sendCodeCommand,
+    continueSession,
     loadFileContent,
     cancelTask,
+    loadSessionDiff,
+    reviewSession,
+    updateMergePolicy,
   };
 }
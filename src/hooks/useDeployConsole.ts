@@ -0,0 +1,213 @@
+/**
+ * useDeployConsole — Staging vs production state for the Deploy page.
+ *
+ * Reads everything through the deploy-console edge function (the
+ * Management API token never leaves the server). Environments are plain
+ * deploy_environments rows, saved directly. Refreshes when an operation
+ * row changes.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { DeployedFunction } from '@/lib/deployDrift';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+const DEPLOY_CONSOLE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/deploy-console`;
+
+export type DeployEnvironmentName = 'staging' | 'production';
+
+export interface DeployEnvironment {
+  id: string;
+  name: DeployEnvironmentName;
+  project_ref: string;
+  is_production: boolean;
+}
+
+export interface PendingMigration {
+  version: string;
+  name: string;
+  sql: string;
+  validation: { allowed: boolean; blockedReason?: string; warnings: string[] };
+}
+
+export interface EnvironmentState {
+  projectRef: string;
+  functions: DeployedFunction[];
+  error: string | null;
+}
+
+export interface FunctionDeployResult {
+  slug: string;
+  gitSha: string;
+  version?: number;
+  error?: string;
+  previous: { version: number | null; updatedAt: string | null; gitSha: string | null };
+}
+
+export interface DeployOperation {
+  id: string;
+  project_ref: string;
+  environment: DeployEnvironmentName;
+  operation_type: 'deploy_function' | 'bulk_deploy' | 'migration' | 'type_gen';
+  target_slug: string | null;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'awaiting_approval';
+  input: Record<string, unknown>;
+  output: { functions?: FunctionDeployResult[]; rolledBackBy?: string; warnings?: string[] } & Record<string, unknown>;
+  error: string | null;
+  duration_ms: number | null;
+  git_sha: string | null;
+  git_branch: string | null;
+  created_at: string;
+}
+
+export interface DeployStatus {
+  configured: boolean;
+  environments: DeployEnvironment[];
+  staging?: EnvironmentState;
+  production?: EnvironmentState;
+  /** Commit CI last deployed each function to staging from — what promote deploys */
+  stagingCommits?: Record<string, string>;
+  pendingMigrations?: PendingMigration[];
+  operations: DeployOperation[];
+}
+
+/** Production deploys that still have a commit to go back to */
+export function canRollBack(op: DeployOperation): boolean {
+  if (op.environment !== 'production' || op.status !== 'completed') return false;
+  if (op.operation_type !== 'deploy_function' && op.operation_type !== 'bulk_deploy') return false;
+  if (op.output?.rolledBackBy) return false;
+  return (op.output?.functions ?? []).some((f) => !f.error && !!f.previous?.gitSha);
+}
+
+export function useDeployConsole() {
+  const [status, setStatus] = useState<DeployStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [userId, setUserId] = useState('');
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) setUserId(session.user.id);
+    });
+  }, []);
+
+  const callDeployConsole = useCallback(async (payload: Record<string, unknown>) => {
+    await supabase.auth.getUser();
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+    const res = await fetch(DEPLOY_CONSOLE_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.session.access_token}`,
+        'Content-Type': 'application/json',
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+    return data;
+  }, []);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const data = await callDeployConsole({ action: 'status' });
+      setStatus(data as DeployStatus);
+      setError(null);
+    } catch (err) {
+      console.warn('[useDeployConsole] Fetch failed (non-blocking):', err);
+      setError(err instanceof Error ? err.message : 'Failed to load deploy status');
+    } finally {
+      setLoading(false);
+    }
+  }, [callDeployConsole]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Realtime subscription — operations started elsewhere (another tab, an agent)
+  useEffect(() => {
+    if (!userId) return;
+    const channel: RealtimeChannel = supabase
+      .channel(`deploy-operations-${userId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'deploy_operations',
+        filter: `user_id=eq.${userId}`,
+      }, () => { fetchStatus(); })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [userId, fetchStatus]);
+
+  const saveEnvironment = useCallback(async (name: DeployEnvironmentName, projectRef: string) => {
+    const ref = projectRef.trim();
+    if (!/^[a-z0-9]{20}$/.test(ref)) {
+      toast.error('Project refs are 20 lowercase letters and digits');
+      return false;
+    }
+    if (!userId) return false;
+
+    const { error: upsertError } = await supabase
+      .from('deploy_environments')
+      .upsert({
+        user_id: userId,
+        name,
+        project_ref: ref,
+        is_production: name === 'production',
+        active: true,
+      }, { onConflict: 'user_id,name' });
+    if (upsertError) {
+      toast.error(`Failed to save ${name}: ${upsertError.message}`);
+      return false;
+    }
+    toast.success(`${name === 'production' ? 'Production' : 'Staging'} set to ${ref}`);
+    await fetchStatus();
+    return true;
+  }, [userId, fetchStatus]);
+
+  const promote = useCallback(async (params: { slugs: string[]; migrations: string[]; confirm: string }) => {
+    setBusy(true);
+    try {
+      const data = await callDeployConsole({ action: 'promote', ...params });
+      const failed = (data.functions as FunctionDeployResult[] ?? []).filter((f) => f.error);
+      if (data.error) toast.error(data.error);
+      else if (failed.length > 0) toast.error(`Failed to deploy ${failed.map((f) => f.slug).join(', ')}`);
+      else toast.success('Promoted to production');
+      return !data.error && failed.length === 0;
+    } catch (err) {
+      toast.error(`Promotion failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return false;
+    } finally {
+      setBusy(false);
+      fetchStatus();
+    }
+  }, [callDeployConsole, fetchStatus]);
+
+  const rollback = useCallback(async (operationId: string, confirm: string) => {
+    setBusy(true);
+    try {
+      const data = await callDeployConsole({ action: 'rollback', operationId, confirm });
+      const skipped = (data.skipped as string[]) ?? [];
+      if (data.rolledBack) {
+        toast.success(`Rolled back${skipped.length > 0 ? ` (no earlier deploy of ${skipped.join(', ')})` : ''}`);
+      } else {
+        toast.error('Rollback finished with failures — see the operation log');
+      }
+      return !!data.rolledBack;
+    } catch (err) {
+      toast.error(`Rollback failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return false;
+    } finally {
+      setBusy(false);
+      fetchStatus();
+    }
+  }, [callDeployConsole, fetchStatus]);
+
+  return { status, loading, error, busy, refetch: fetchStatus, saveEnvironment, promote, rollback };
+}
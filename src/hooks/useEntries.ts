@@ -23,12 +23,14 @@
  * - Automatic stats calculation (total, today, important, by type)
  * - Optimistic update helpers (updateEntry, removeEntry, addEntry)
  * - Proper list_items parsing via parseListItems utility
+ * - Offline edits still waiting in the outbox are overlaid on fetched entries
  */
 
 import { useState, useCallback, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { parseListItems } from "@/lib/parseListItems";
+import { listOps, overlayPendingOps, subscribeOutboxSynced } from "@/lib/outbox";
 import type { Entry } from "@/components/EntryCard";
 
 /**
@@ -119,14 +121,15 @@ export function useEntries({ userId, pageSize = 50, showArchived = false }: UseE
       if (error) throw error;
 
       // Transform Supabase data to Entry type with proper list_items parsing
-      const entriesData: DashboardEntry[] = (data || []).map((item) => ({
+      const fetched: DashboardEntry[] = (data || []).map((item) => ({
         ...item,
         tags: item.tags || [],
         extracted_data: (item.extracted_data as Record<string, unknown>) || {},
         list_items: parseListItems(item.list_items),
       }));
+      const entriesData = overlayPendingOps(fetched, await listOps(userId), { keepArchived: showArchived });
 
-      setHasMore(entriesData.length === pageSize);
+      setHasMore(fetched.length === pageSize);
 
       if (cursor) {
         // Appending more entries
@@ -187,6 +190,11 @@ export function useEntries({ userId, pageSize = 50, showArchived = false }: UseE
     fetchEntries();
   }, [fetchEntries]);
 
+  // Refetch once offline changes have synced, picking up server-side changes too
+  useEffect(() => {
+    return subscribeOutboxSynced(() => fetchEntries());
+  }, [fetchEntries]);
+
   return {
     entries,
     setEntries,
@@ -24,6 +24,7 @@
  * - Consistent toast notifications for user feedback
  * - Error handling with console logging
  * - Callback-based local state updates for flexibility
+ * - Network failures are queued in the offline outbox and applied locally
  */
 
 import { useCallback } from "react";
@@ -31,6 +32,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type { Entry } from "@/components/EntryCard";
 import type { ListItem } from "@/types";
+import { isNetworkError, enqueueEntryUpdate, enqueueEntryDelete } from "@/hooks/useOfflineQueue";
+
+/** Queue the write if it failed for network reasons. Returns true when queued. */
+async function queueIfOffline(error: unknown, enqueue: () => Promise<void>): Promise<boolean> {
+  if (!isNetworkError(error)) return false;
+  try {
+    await enqueue();
+    return true;
+  } catch (queueError) {
+    console.error("Failed to queue offline change:", queueError);
+    return false;
+  }
+}
 
 /**
  * Configuration callbacks for entry actions
@@ -69,6 +83,11 @@ export function useEntryActions({
       onEntryUpdate?.(entryId, { starred });
       toast.success(starred ? "Starred" : "Unstarred");
     } catch (error) {
+      if (await queueIfOffline(error, () => enqueueEntryUpdate(entryId, { starred }))) {
+        onEntryUpdate?.(entryId, { starred });
+        toast.info(starred ? "Starred offline" : "Unstarred offline", { description: "Will sync when connection is restored" });
+        return;
+      }
       console.error("Failed to toggle star:", error);
       toast.error("Failed to update");
     }
@@ -86,6 +105,11 @@ export function useEntryActions({
       onEntryRemove?.(entryId);
       toast.success("Archived");
     } catch (error) {
+      if (await queueIfOffline(error, () => enqueueEntryUpdate(entryId, { archived: true }))) {
+        onEntryRemove?.(entryId);
+        toast.info("Archived offline", { description: "Will sync when connection is restored" });
+        return;
+      }
       console.error("Failed to archive:", error);
       toast.error("Failed to archive");
     }
@@ -104,6 +128,12 @@ export function useEntryActions({
       onStatsUpdate?.(entryId, 'delete');
       toast.success("Deleted");
     } catch (error) {
+      if (await queueIfOffline(error, () => enqueueEntryDelete(entryId))) {
+        onEntryRemove?.(entryId);
+        onStatsUpdate?.(entryId, 'delete');
+        toast.info("Deleted offline", { description: "Will sync when connection is restored" });
+        return;
+      }
       console.error("Failed to delete:", error);
       toast.error("Failed to delete");
     }
@@ -115,10 +145,10 @@ export function useEntryActions({
     itemIndex: number, 
     checked: boolean
   ) => {
-    try {
-      const updatedItems = [...listItems];
-      updatedItems[itemIndex] = { ...updatedItems[itemIndex], checked };
+    const updatedItems = [...listItems];
+    updatedItems[itemIndex] = { ...updatedItems[itemIndex], checked };
 
+    try {
       const { error } = await supabase
         .from("entries")
         .update({ list_items: JSON.parse(JSON.stringify(updatedItems)) })
@@ -128,6 +158,11 @@ export function useEntryActions({
 
       onEntryUpdate?.(entryId, { list_items: updatedItems });
     } catch (error) {
+      const toggle = { index: itemIndex, text: listItems[itemIndex]?.text ?? "", checked };
+      if (await queueIfOffline(error, () => enqueueEntryUpdate(entryId, {}, toggle))) {
+        onEntryUpdate?.(entryId, { list_items: updatedItems });
+        return;
+      }
       console.error("Failed to update list item:", error);
       toast.error("Failed to update item");
     }
@@ -0,0 +1,112 @@
+/**
+ * useEntryRevisions — Version history for a single entry
+ *
+ * Revisions are written by a DB trigger whenever an entry's title, content,
+ * tags or list item text change. Each one is the entry as it was *before*
+ * that change, labelled with who made it (user, smart-save append,
+ * enrichment, sync API, restore).
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { parseListItems } from "@/lib/parseListItems";
+import type { ListItem } from "@/types";
+
+export type RevisionSource = "user" | "append" | "enrichment" | "api" | "restore" | "system";
+
+export interface EntryRevision {
+  id: string;
+  entry_id: string;
+  title: string | null;
+  content: string;
+  tags: string[];
+  list_items: ListItem[];
+  source: RevisionSource | string;
+  created_at: string;
+}
+
+/** The fields a revision captures — also what a restore writes back */
+export type RevisionSnapshot = Pick<EntryRevision, "title" | "content" | "tags" | "list_items">;
+
+interface UseEntryRevisionsReturn {
+  revisions: EntryRevision[];
+  loading: boolean;
+  error: string | null;
+  restoring: string | null;
+  refetch: () => Promise<void>;
+  /** Write a revision back to the entry. Returns the updated entry row. */
+  restoreRevision: (revision: EntryRevision) => Promise<Record<string, unknown> | null>;
+}
+
+export function useEntryRevisions(entryId: string | null, enabled = true): UseEntryRevisionsReturn {
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!entryId || !enabled) {
+      setRevisions([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("entry_revisions")
+        .select("id, entry_id, title, content, tags, list_items, source, created_at")
+        .eq("entry_id", entryId)
+        .order("created_at", { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      setRevisions(
+        (data || []).map((row) => ({
+          ...row,
+          tags: row.tags || [],
+          list_items: parseListItems(row.list_items),
+        }))
+      );
+    } catch (err) {
+      console.error("Failed to fetch entry revisions:", err);
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [entryId, enabled]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const restoreRevision = useCallback(async (revision: EntryRevision) => {
+    setRestoring(revision.id);
+    try {
+      // The trigger snapshots the current text first, so a restore can itself be undone
+      const { data, error: updateError } = await supabase
+        .from("entries")
+        .update({
+          title: revision.title,
+          content: revision.content,
+          tags: revision.tags,
+          list_items: JSON.parse(JSON.stringify(revision.list_items)),
+          updated_at: new Date().toISOString(),
+          revision_source: "restore",
+        })
+        .eq("id", revision.entry_id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      await fetchRevisions();
+      return data as Record<string, unknown> | null;
+    } finally {
+      setRestoring(null);
+    }
+  }, [fetchRevisions]);
+
+  return { revisions, loading, error, restoring, refetch: fetchRevisions, restoreRevision };
+}
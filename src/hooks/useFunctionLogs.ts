@@ -0,0 +1,85 @@
+/**
+ * useFunctionLogs — Edge function logs for BrainInspector's Logs tab.
+ *
+ * Queries the function-logs edge function on demand (logs come from the
+ * Management API, so there's no realtime feed). With a taskId the function
+ * fills in the agent and the task's run time itself.
+ */
+
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { AgentTask, ActivityLogEntry } from '@/types/agent';
+import type { FunctionLogLine } from '@/lib/functionLogs';
+
+const FUNCTION_LOGS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/function-logs`;
+
+export interface FunctionLogFilters {
+  environment: 'staging' | 'production';
+  slug: string;
+  taskId: string;
+  search: string;
+  /** Look-back window in minutes; ignored for task queries */
+  rangeMinutes: number;
+}
+
+export interface FunctionLogResult {
+  projectRef: string;
+  slug: string | null;
+  range: { since: string; until: string };
+  lines: FunctionLogLine[];
+  task: Pick<AgentTask, 'id' | 'type' | 'status' | 'intent' | 'agent' | 'error' | 'created_at' | 'updated_at' | 'completed_at'> | null;
+  steps: ActivityLogEntry[];
+}
+
+export function useFunctionLogs() {
+  const [result, setResult] = useState<FunctionLogResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLogs = useCallback(async (filters: FunctionLogFilters) => {
+    setLoading(true);
+    try {
+      await supabase.auth.getUser();
+      const { data: session } = await supabase.auth.getSession();
+      if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+      const taskId = filters.taskId.trim();
+      const res = await fetch(FUNCTION_LOGS_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.session.access_token}`,
+          'Content-Type': 'application/json',
+          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        },
+        body: JSON.stringify({
+          environment: filters.environment,
+          slug: filters.slug.trim() || undefined,
+          taskId: taskId || undefined,
+          search: filters.search.trim() || undefined,
+          since: taskId ? undefined : new Date(Date.now() - filters.rangeMinutes * 60_000).toISOString(),
+        }),
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+
+      setResult({
+        projectRef: data.projectRef,
+        slug: data.slug ?? null,
+        range: data.range,
+        lines: data.lines ?? [],
+        task: data.task ?? null,
+        steps: data.steps ?? [],
+      });
+      setError(null);
+    } catch (err) {
+      console.warn('[useFunctionLogs] Fetch failed (non-blocking):', err);
+      setError(err instanceof Error ? err.message : 'Failed to load logs');
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { result, loading, error, fetchLogs };
+}
@@ -1,180 +1,367 @@
 /**
- * useOfflineQueue - Persist failed saves and retry when online
+ * useOfflineQueue - Durable offline outbox for saves, edits and deletes
+ *
+ * Writes that fail for network reasons are queued in IndexedDB (see
+ * lib/outbox) and replayed in order when the connection returns:
+ * - creates go through smart-save, uploading any queued attachment first
+ * - star/archive/list-item updates and deletes are reconciled against the
+ *   server's current copy of the entry
+ * Each replay uses retryWithBackoff; between flushes an op backs off
+ * exponentially. Ops that can't succeed land in the dead-letter list.
  */
 
-import { useEffect, useCallback, useRef, useState } from "react";
+import { useEffect, useCallback, useState, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { retryWithBackoff, isClientError } from "@/lib/retryWithBackoff";
+import { parseListItems } from "@/lib/parseListItems";
+import { uploadDumpFile } from "@/components/dump/hooks/useFileUpload";
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  enqueueOp,
+  listOps,
+  putOp,
+  removeOp,
+  readyOps,
+  nextRetryDelay,
+  reconcileListToggle,
+  subscribeOutbox,
+  notifyOutboxSynced,
+  type OutboxOp,
+  type OutboxCreateOp,
+  type OutboxUpdateOp,
+  type OutboxDeleteOp,
+} from "@/lib/outbox";
 
-interface QueuedEntry {
-  id: string;
+const LEGACY_QUEUE_KEYS = ["linkjac-offline-queue", "brain-dump-offline-queue"];
+/** How often to check for ops whose backoff has elapsed */
+const FLUSH_INTERVAL_MS = 15000;
+
+interface LegacyQueuedEntry {
   content: string;
   userId: string;
   source: string;
   imageUrl: string | null;
-  timestamp: number;
-  retryCount: number;
 }
 
-const QUEUE_KEY = "linkjac-offline-queue";
-const OLD_QUEUE_KEY = "brain-dump-offline-queue"; // Legacy key to migrate/clear
-const MAX_RETRIES = 5;
+type ReplayOutcome = { status: "done"; entry?: unknown } | { status: "conflict"; reason: string };
 
-// One-time migration: clear old localStorage key
-function migrateOldQueue(): void {
-  try {
-    if (localStorage.getItem(OLD_QUEUE_KEY)) {
-      localStorage.removeItem(OLD_QUEUE_KEY);
-      console.log("[OfflineQueue] Cleared legacy queue key");
+let flushing = false;
+
+/** Network failures and timeouts — worth queueing rather than reporting */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+  return /Failed to fetch|Failed to send a request|NetworkError|network|Load failed|timed out|timeout/i.test(message);
+}
+
+/** Dead-letter rather than retry: bad input or forbidden. Auth and rate limits are retried later. */
+function isPermanentFailure(message: string): boolean {
+  if (/401|Unauthorized|Not authenticated|expired token|Rate limit|429/i.test(message)) return false;
+  return isClientError(message);
+}
+
+async function currentUserId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user?.id ?? null;
+}
+
+export async function enqueueCreate(params: {
+  userId: string;
+  content: string;
+  source: string;
+  imageUrl?: string | null;
+  file?: File | null;
+}): Promise<void> {
+  await enqueueOp<OutboxCreateOp>({
+    kind: "create",
+    entryId: null,
+    userId: params.userId,
+    content: params.content,
+    source: params.source,
+    imageUrl: params.imageUrl ?? null,
+    // Only keep the file if it never made it to storage
+    file: params.imageUrl ? null : params.file ?? null,
+    fileName: params.file?.name ?? null,
+  });
+}
+
+export async function enqueueEntryUpdate(
+  entryId: string,
+  patch: OutboxUpdateOp["patch"],
+  listToggle?: OutboxUpdateOp["listToggle"]
+): Promise<void> {
+  const userId = await currentUserId();
+  if (!userId) throw new Error("Not authenticated");
+  await enqueueOp<OutboxUpdateOp>({ kind: "update", entryId, userId, patch, listToggle });
+}
+
+export async function enqueueEntryDelete(entryId: string): Promise<void> {
+  const userId = await currentUserId();
+  if (!userId) throw new Error("Not authenticated");
+  await enqueueOp<OutboxDeleteOp>({ kind: "delete", entryId, userId });
+}
+
+/** invoke() hides the status code — surface it so isClientError can classify the failure */
+async function invokeSmartSave(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke("smart-save", { body });
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const res = error.context as Response;
+      const payload = await res.json().catch(() => ({}));
+      throw new Error(`${res.status}: ${payload.error || error.message}`);
     }
-  } catch {
-    // Ignore
+    throw error;
   }
+  if (data?.error) throw new Error(data.error);
+  return data;
 }
 
-function getQueue(): QueuedEntry[] {
-  try {
-    migrateOldQueue();
-    const stored = localStorage.getItem(QUEUE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
+async function fetchEntry(entryId: string): Promise<Record<string, unknown> | null> {
+  const { data, error } = await supabase.from("entries").select("*").eq("id", entryId).maybeSingle();
+  if (error) throw error;
+  return data as Record<string, unknown> | null;
+}
+
+async function replayCreate(op: OutboxCreateOp, mayHaveSucceeded: boolean): Promise<ReplayOutcome> {
+  if (op.file && !op.imageUrl) {
+    op.imageUrl = await uploadDumpFile(op.userId, op.file, op.fileName ?? "upload");
+    op.file = null;
+    // Persist so a later retry doesn't upload twice
+    await putOp(op);
+  }
+
+  // An earlier attempt may have saved before the response was lost
+  if (mayHaveSucceeded && op.content) {
+    const { data: existing } = await supabase
+      .from("entries")
+      .select("*")
+      .eq("user_id", op.userId)
+      .eq("content", op.content)
+      .gte("created_at", new Date(op.createdAt).toISOString())
+      .limit(1);
+    if (existing && existing.length > 0) return { status: "done", entry: existing[0] };
   }
+
+  const data = await invokeSmartSave({
+    content: op.content,
+    userId: op.userId,
+    source: op.source,
+    imageUrl: op.imageUrl,
+  });
+  return { status: "done", entry: data?.entry };
 }
 
-function clearQueue(): void {
-  try {
-    localStorage.removeItem(QUEUE_KEY);
-    console.log("[OfflineQueue] Queue cleared");
-  } catch {
-    // Ignore
+async function replayUpdate(op: OutboxUpdateOp): Promise<ReplayOutcome> {
+  const current = await fetchEntry(op.entryId);
+  // Deleted elsewhere — nothing left to update
+  if (!current) return { status: "done" };
+
+  const updates: Record<string, unknown> = { ...op.patch };
+  if (op.listToggle) {
+    const merged = reconcileListToggle(parseListItems(current.list_items), op.listToggle);
+    if (merged.status === "conflict") {
+      return { status: "conflict", reason: "Checklist changed on another device" };
+    }
+    if (merged.status === "apply") updates.list_items = JSON.parse(JSON.stringify(merged.items));
+  }
+  if (Object.keys(updates).length === 0) return { status: "done" };
+
+  // Compare-and-set so a list merged from a stale copy can't overwrite a newer one
+  const { data, error } = await supabase
+    .from("entries")
+    .update(updates)
+    .eq("id", op.entryId)
+    .filter("sync_updated_at", "eq", current.sync_updated_at)
+    .select("id");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Entry changed during sync");
+  return { status: "done" };
+}
+
+async function replayDelete(op: OutboxDeleteOp): Promise<ReplayOutcome> {
+  const current = await fetchEntry(op.entryId);
+  if (!current) return { status: "done" };
+
+  const changedAt = Date.parse(String(current.sync_updated_at ?? ""));
+  if (!op.force && changedAt > op.createdAt) {
+    return { status: "conflict", reason: "Edited on another device after you deleted it" };
   }
+
+  const { error } = await supabase.from("entries").delete().eq("id", op.entryId);
+  if (error) throw error;
+  return { status: "done" };
 }
 
-function saveQueue(queue: QueuedEntry[]): void {
+/**
+ * Replay every op that's due. Safe to call often — concurrent calls are
+ * ignored while a flush is running.
+ */
+export async function flushOutbox(
+  userId: string,
+  { onCreated }: { onCreated?: (entry: unknown) => void } = {}
+): Promise<{ synced: number; deadLettered: number }> {
+  if (flushing || !userId || (typeof navigator !== "undefined" && !navigator.onLine)) {
+    return { synced: 0, deadLettered: 0 };
+  }
+  flushing = true;
+
+  let synced = 0;
+  let deadLettered = 0;
+  const failedEntries = new Set<string>();
+
   try {
-    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
-  } catch (e) {
-    console.error("Failed to save offline queue:", e);
+    for (const op of readyOps(await listOps(userId), Date.now())) {
+      // Keep per-entry order: don't run past an op that just failed
+      if (op.entryId && failedEntries.has(op.entryId)) continue;
+
+      let tries = 0;
+      try {
+        const outcome = await retryWithBackoff(() => {
+          const retrying = tries++ > 0 || op.attempts > 0;
+          if (op.kind === "create") return replayCreate(op, retrying);
+          if (op.kind === "update") return replayUpdate(op);
+          return replayDelete(op);
+        }, { maxRetries: 3, baseDelayMs: 1000 });
+
+        if (outcome.status === "conflict") {
+          await putOp({ ...op, status: "dead", lastError: outcome.reason });
+          deadLettered++;
+          if (op.entryId) failedEntries.add(op.entryId);
+          continue;
+        }
+
+        await removeOp(op.id);
+        synced++;
+        if (op.kind === "create" && outcome.entry) onCreated?.(outcome.entry);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        const attempts = op.attempts + 1;
+        const dead = isPermanentFailure(message) || attempts >= OUTBOX_MAX_ATTEMPTS;
+        console.warn(`[OfflineQueue] ${op.kind} ${op.id} failed (attempt ${attempts}):`, message);
+        await putOp({
+          ...op,
+          attempts,
+          status: dead ? "dead" : "pending",
+          nextAttemptAt: Date.now() + nextRetryDelay(attempts),
+          lastError: message,
+        });
+        if (dead) deadLettered++;
+        if (op.entryId) failedEntries.add(op.entryId);
+      }
+    }
+  } finally {
+    flushing = false;
   }
+
+  if (synced > 0) notifyOutboxSynced();
+  return { synced, deadLettered };
 }
 
-export function addToQueue(entry: Omit<QueuedEntry, "id" | "timestamp" | "retryCount">): void {
-  const queue = getQueue();
-  queue.push({
-    ...entry,
-    id: `queue-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-    timestamp: Date.now(),
-    retryCount: 0,
-  });
-  saveQueue(queue);
-  console.log(`[OfflineQueue] Added entry, queue size: ${queue.length}`);
+/** Move anything left in the old localStorage queue into the outbox */
+async function migrateLegacyQueue(): Promise<void> {
+  for (const key of LEGACY_QUEUE_KEYS) {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) continue;
+      const items = JSON.parse(stored) as LegacyQueuedEntry[];
+      for (const item of Array.isArray(items) ? items : []) {
+        if (!item?.userId || (!item.content && !item.imageUrl)) continue;
+        await enqueueCreate({ userId: item.userId, content: item.content ?? "", source: item.source || "manual", imageUrl: item.imageUrl });
+      }
+      localStorage.removeItem(key);
+      console.log(`[OfflineQueue] Migrated ${items.length} legacy queued entries`);
+    } catch (e) {
+      console.warn("[OfflineQueue] Legacy queue migration failed:", e);
+    }
+  }
 }
 
 export function useOfflineQueue(
   onSyncSuccess?: (entry: unknown) => void
 ): {
   queueLength: number;
+  deadLetters: OutboxOp[];
   flushQueue: () => Promise<void>;
-  clearStuckEntries: () => void;
+  retryDeadLetter: (id: string) => Promise<void>;
+  discardDeadLetter: (id: string) => Promise<void>;
+  clearStuckEntries: () => Promise<void>;
 } {
-  const isFlushing = useRef(false);
-  const [queueLength, setQueueLength] = useState(getQueue().length);
+  const [userId, setUserId] = useState("");
+  const [ops, setOps] = useState<OutboxOp[]>([]);
 
-  const clearStuckEntries = useCallback(() => {
-    clearQueue();
-    setQueueLength(0);
-    toast.info("Cleared stuck entries from queue");
-  }, []);
-  
-  // Keep queue length in sync
   useEffect(() => {
-    const checkQueue = () => setQueueLength(getQueue().length);
-    checkQueue();
-    // Check periodically in case of external changes
-    const interval = setInterval(checkQueue, 5000);
-    return () => clearInterval(interval);
+    currentUserId().then((id) => setUserId(id ?? ""));
   }, []);
 
-  const flushQueue = useCallback(async () => {
-    if (isFlushing.current) return;
-    
-    const queue = getQueue();
-    if (queue.length === 0) return;
-
-    isFlushing.current = true;
-    console.log(`[OfflineQueue] Flushing ${queue.length} entries...`);
-
-    const remainingQueue: QueuedEntry[] = [];
-    let successCount = 0;
-
-    for (const entry of queue) {
-      try {
-        const { data, error } = await supabase.functions.invoke("smart-save", {
-          body: {
-            content: entry.content,
-            userId: entry.userId,
-            source: entry.source,
-            imageUrl: entry.imageUrl,
-          },
-        });
-
-        if (error) throw error;
-        if (data.error) throw new Error(data.error);
-
-        successCount++;
-        console.log(`[OfflineQueue] Successfully synced entry ${entry.id}`);
-        
-        if (onSyncSuccess && data.entry) {
-          onSyncSuccess(data.entry);
-        }
-      } catch (e) {
-        console.error(`[OfflineQueue] Failed to sync entry ${entry.id}:`, e);
-        
-        entry.retryCount++;
-        if (entry.retryCount < MAX_RETRIES) {
-          remainingQueue.push(entry);
-        } else {
-          console.warn(`[OfflineQueue] Dropping entry ${entry.id} after ${MAX_RETRIES} retries`);
-        }
-      }
-    }
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    setOps(await listOps(userId));
+  }, [userId]);
 
-    saveQueue(remainingQueue);
-    setQueueLength(remainingQueue.length);
-    isFlushing.current = false;
+  useEffect(() => {
+    if (!userId) return;
+    migrateLegacyQueue().finally(refresh);
+    return subscribeOutbox(refresh);
+  }, [userId, refresh]);
 
-    if (successCount > 0) {
-      toast.success(`Synced ${successCount} pending ${successCount === 1 ? "entry" : "entries"}`);
+  const flushQueue = useCallback(async () => {
+    const { synced, deadLettered } = await flushOutbox(userId, { onCreated: onSyncSuccess });
+    if (synced > 0) {
+      toast.success(`Synced ${synced} offline ${synced === 1 ? "change" : "changes"}`);
     }
-
-    if (remainingQueue.length > 0) {
-      console.log(`[OfflineQueue] ${remainingQueue.length} entries still pending`);
+    if (deadLettered > 0) {
+      toast.error(`${deadLettered} offline ${deadLettered === 1 ? "change" : "changes"} couldn't be synced`);
     }
-  }, [onSyncSuccess]);
+  }, [userId, onSyncSuccess]);
 
-  // Flush queue when coming online
+  // Flush when coming online, on mount, and whenever a backoff elapses
   useEffect(() => {
+    if (!userId) return;
     const handleOnline = () => {
-      console.log("[OfflineQueue] Connection restored, flushing queue...");
+      console.log("[OfflineQueue] Connection restored, flushing outbox...");
       flushQueue();
     };
-
     window.addEventListener("online", handleOnline);
-    
-    // Also try to flush on mount if online
-    if (navigator.onLine) {
-      flushQueue();
-    }
-
+    if (navigator.onLine) flushQueue();
+    const interval = setInterval(() => {
+      if (navigator.onLine) flushQueue();
+    }, FLUSH_INTERVAL_MS);
     return () => {
       window.removeEventListener("online", handleOnline);
+      clearInterval(interval);
     };
-  }, [flushQueue]);
+  }, [userId, flushQueue]);
+
+  const retryDeadLetter = useCallback(async (id: string) => {
+    const op = ops.find((o) => o.id === id);
+    if (!op) return;
+    // An explicit retry overrides the "changed elsewhere" check on deletes
+    await putOp({ ...op, status: "pending", attempts: 0, nextAttemptAt: Date.now(), lastError: null, force: true });
+    const { synced } = await flushOutbox(userId, { onCreated: onSyncSuccess });
+    if (synced > 0) toast.success("Synced");
+  }, [ops, userId, onSyncSuccess]);
+
+  const discardDeadLetter = useCallback(async (id: string) => {
+    await removeOp(id);
+  }, []);
+
+  const clearStuckEntries = useCallback(async () => {
+    for (const op of ops.filter((o) => o.status === "dead")) {
+      await removeOp(op.id);
+    }
+    toast.info("Cleared stuck changes from queue");
+  }, [ops]);
+
+  const deadLetters = useMemo(() => ops.filter((o) => o.status === "dead"), [ops]);
 
   return {
-    queueLength,
+    queueLength: ops.length - deadLetters.length,
+    deadLetters,
     flushQueue,
+    retryDeadLetter,
+    discardDeadLetter,
     clearStuckEntries,
   };
 }
@@ -20,6 +20,16 @@ export interface BrainInsight {
   entryIds: string[];
 }
 
+// brain_insights isn't in the generated types — rows are typed by hand
+interface BrainInsightRow {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  priority: number;
+  entry_ids: string[] | null;
+}
+
 export function useProactiveInsights(userId: string | undefined) {
   const [insights, setInsights] = useState<BrainInsight[]>([]);
   const [loading, setLoading] = useState(true);
@@ -34,8 +44,8 @@ export function useProactiveInsights(userId: string | undefined) {
     try {
       // Fetch all active AI-generated insights
       const { data: aiInsights, error: aiError } = await supabase
-        .from('brain_insights')
-        .select('id, type, title, body, priority, entry_ids')
+        .from('brain_insights' as never)
+        .select<'id, type, title, body, priority, entry_ids', BrainInsightRow>('id, type, title, body, priority, entry_ids')
         .eq('user_id', userId)
         .eq('dismissed', false)
         .gt('expires_at', new Date().toISOString())
@@ -51,7 +61,7 @@ export function useProactiveInsights(userId: string | undefined) {
             title: ai.title,
             body: ai.body,
             priority: ai.priority,
-            entryIds: (ai.entry_ids as string[]) || [],
+            entryIds: ai.entry_ids || [],
           });
         }
       }
@@ -125,8 +135,8 @@ export function useProactiveInsights(userId: string | undefined) {
     // If it's a real DB insight, persist the dismissal
     if (!insightId.startsWith('fallback-')) {
       const { error } = await supabase
-        .from('brain_insights')
-        .update({ dismissed: true })
+        .from('brain_insights' as never)
+        .update({ dismissed: true } as never)
         .eq('id', insightId)
         .eq('user_id', userId);
 
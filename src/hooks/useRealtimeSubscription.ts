@@ -45,6 +45,8 @@ interface UseRealtimeSubscriptionOptions {
   onDelete?: (entry: Entry) => void;
   /** Enable/disable the subscription (default: true) */
   enabled?: boolean;
+  /** Channel name override — needed when several components watch the same table */
+  channelName?: string;
 }
 
 export function useRealtimeSubscription({
@@ -54,6 +56,7 @@ export function useRealtimeSubscription({
   onUpdate,
   onDelete,
   enabled = true,
+  channelName,
 }: UseRealtimeSubscriptionOptions): void {
   const channelRef = useRef<RealtimeChannel | null>(null);
 
@@ -61,7 +64,7 @@ export function useRealtimeSubscription({
     if (!enabled || !userId) return;
 
     const channel = supabase
-      .channel(`${table}-realtime-${userId}`)
+      .channel(channelName ?? `${table}-realtime-${userId}`)
       .on(
         'postgres_changes',
         {
@@ -90,5 +93,5 @@ export function useRealtimeSubscription({
         channelRef.current = null;
       }
     };
-  }, [userId, table, onInsert, onUpdate, onDelete, enabled]);
+  }, [userId, table, onInsert, onUpdate, onDelete, enabled, channelName]);
 }
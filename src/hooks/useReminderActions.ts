@@ -0,0 +1,83 @@
+/**
+ * useReminderActions — Done / snooze / reschedule on a reminder from the web.
+ *
+ * Goes through the reminder-action edge function, the same one the Slack
+ * reminder buttons use, so the delivery is tracked (and its Slack message
+ * updated) whichever side the user answers from.
+ */
+
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+const REMINDER_ACTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/reminder-action`;
+
+export type SnoozeOption = '15m' | '1h' | 'tomorrow';
+
+export const SNOOZE_LABELS: Record<SnoozeOption, string> = {
+  '15m': '15 minutes',
+  '1h': '1 hour',
+  tomorrow: 'Tomorrow morning',
+};
+
+/** One occurrence of an entry's reminder */
+export interface ReminderTarget {
+  entryId: string;
+  occurrenceDate: string;
+}
+
+async function callReminderAction(body: Record<string, unknown>): Promise<void> {
+  const { data: session } = await supabase.auth.getSession();
+  if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+  const res = await fetch(REMINDER_ACTION_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.session.access_token}`,
+      'Content-Type': 'application/json',
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+}
+
+export function useReminderActions(onChange?: () => void) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = useCallback(async (target: ReminderTarget, body: Record<string, unknown>, success: string) => {
+    setBusyId(target.entryId);
+    try {
+      await callReminderAction({ entryId: target.entryId, occurrenceDate: target.occurrenceDate, ...body });
+      toast.success(success);
+      onChange?.();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Reminder update failed');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  }, [onChange]);
+
+  const markDone = useCallback(
+    (target: ReminderTarget) => run(target, { action: 'done' }, 'Marked done'),
+    [run],
+  );
+
+  const snooze = useCallback(
+    (target: ReminderTarget, option: SnoozeOption) =>
+      run(target, { action: 'snooze', snooze: option }, `Snoozed — ${SNOOZE_LABELS[option].toLowerCase()}`),
+    [run],
+  );
+
+  const reschedule = useCallback(
+    (target: ReminderTarget, date: string, time?: string) =>
+      run(target, { action: 'reschedule', date, ...(time ? { time } : {}) }, 'Rescheduled'),
+    [run],
+  );
+
+  return { busyId, markDone, snooze, reschedule };
+}
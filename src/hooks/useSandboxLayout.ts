@@ -43,7 +43,7 @@ const BUILT_IN_PRESETS: LayoutPreset[] = [
     id: 'brain',
     name: 'Brain Focus',
     description: 'Memory and entries',
-    typeIds: ['brain-entries', 'reminders', 'calendar', 'triage-queue', 'reflections'],
+    typeIds: ['brain-entries', 'smart-collections', 'reminders', 'calendar', 'triage-queue', 'reflections'],
     builtIn: true,
   },
 ];
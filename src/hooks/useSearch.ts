@@ -2,7 +2,12 @@
  * useSearch - Centralized search hook with debouncing
  * 
  * Provides consistent search behavior across GlobalSearch and JacChat.
- * Supports both semantic (vector) and keyword search modes.
+ * Smart mode returns search-memory's hybrid ranking: keyword, semantic,
+ * tag and recency retrievals fused into one list, each result carrying
+ * the reasons it matched. Keyword mode is exact phrase matching.
+ * Queries may use the structured syntax from lib/searchQuery (type:, tag:,
+ * importance>=7, before:, starred, "phrase"); syntax errors are caught
+ * client-side before anything is sent.
  * 
  * @module hooks/useSearch
  * 
@@ -37,6 +42,18 @@ import { useState, useCallback, useEffect } from "react";
 import { useDebouncedCallback } from "use-debounce";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { parseSearchQuery } from "@/lib/searchQuery";
+
+/**
+ * Why a result matched — one entry per retrieval list it appeared in
+ */
+export interface MatchReason {
+  kind: "keyword" | "semantic" | "tag" | "recency";
+  /** 1-based rank within that retrieval list */
+  rank: number;
+  /** Human-readable explanation, e.g. "tag: work" */
+  detail: string;
+}
 
 /**
  * Search result item returned from the search-memory edge function
@@ -50,8 +67,11 @@ export interface SearchResult {
   tags: string[];
   importance_score: number | null;
   created_at: string;
-  /** Similarity score (0-1) when using semantic search */
+  /** Similarity score (0-1) when the entry matched semantically */
   similarity?: number;
+  /** Fused rank score — only meaningful for ordering within one response */
+  score?: number;
+  reasons?: MatchReason[];
   starred?: boolean;
   list_items?: unknown[];
   extracted_data?: Record<string, unknown>;
@@ -104,6 +124,13 @@ export function useSearch({
       return;
     }
 
+    const parsed = parseSearchQuery(searchQuery);
+    if (parsed.errors.length > 0) {
+      setError(parsed.errors[0].message);
+      toast.error(parsed.errors[0].message);
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -124,7 +151,7 @@ export function useSearch({
       if (data.total === 0) {
         toast.info("No results found");
       } else {
-        const searchType = useSemanticSearch ? "semantic" : "keyword";
+        const searchType = useSemanticSearch ? "smart" : "keyword";
         toast.success(`Found ${data.total} entries using ${searchType} search`);
       }
     } catch (err) {
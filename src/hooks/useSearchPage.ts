@@ -1,11 +1,13 @@
 /**
  * useSearchPage — Dedicated hook for the Search page.
  * Calls search-memory edge function + queries jac_reflections.
- * Merges and ranks results by relevance.
+ * Entries keep search-memory's fused ranking; reflections follow by date.
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { MatchReason } from '@/hooks/useSearch';
+import { parseSearchQuery, hasStructuredSyntax } from '@/lib/searchQuery';
 
 export interface SearchPageResult {
   id: string;
@@ -17,6 +19,9 @@ export interface SearchPageResult {
   importance_score: number | null;
   created_at: string;
   similarity?: number;
+  /** Fused rank score from search-memory (entries only) */
+  score?: number;
+  reasons?: MatchReason[];
   /** 'entry' or 'reflection' */
   source: 'entry' | 'reflection';
 }
@@ -53,6 +58,12 @@ export function useSearchPage(): UseSearchPageResult {
     async (query: string, filters?: SearchPageFilters) => {
       if (!query.trim() || !userId) return;
 
+      const parsed = parseSearchQuery(query);
+      if (parsed.errors.length > 0) {
+        setError(parsed.errors[0].message);
+        return;
+      }
+
       setIsSearching(true);
       setError(null);
       setHasSearched(true);
@@ -62,8 +73,11 @@ export function useSearchPage(): UseSearchPageResult {
 
         const shouldSearchEntries =
           !filters?.sourceType || filters.sourceType === 'all' || filters.sourceType === 'entries';
+        // Reflections have no type/tag/importance — structured filters only apply to entries
         const shouldSearchReflections =
-          !filters?.sourceType || filters.sourceType === 'all' || filters.sourceType === 'reflections';
+          (!filters?.sourceType || filters.sourceType === 'all' || filters.sourceType === 'reflections') &&
+          !!parsed.text &&
+          (!hasStructuredSyntax(parsed) || filters?.sourceType === 'reflections');
 
         // 1. Search entries via search-memory edge function
         if (shouldSearchEntries) {
@@ -92,6 +106,8 @@ export function useSearchPage(): UseSearchPageResult {
                 importance_score: r.importance_score,
                 created_at: r.created_at,
                 similarity: r.similarity,
+                score: r.score,
+                reasons: r.reasons,
                 source: 'entry',
               });
             }
@@ -101,7 +117,7 @@ export function useSearchPage(): UseSearchPageResult {
         // 2. Search jac_reflections
         if (shouldSearchReflections) {
           try {
-            const escapedQuery = query.trim().replace(/%/g, '\\%').replace(/_/g, '\\_');
+            const escapedQuery = parsed.text.replace(/%/g, '\\%').replace(/_/g, '\\_');
             const { data: reflections, error: refError } = await (supabase
               .from('jac_reflections' as any)
               .select('id, task_type, summary, intent, connections, created_at')
@@ -130,13 +146,13 @@ export function useSearchPage(): UseSearchPageResult {
           }
         }
 
-        // Sort: similarity scores first (desc), then by date
+        // Sort: fused-ranked entries first (desc), then everything else by date
         merged.sort((a, b) => {
-          if (a.similarity != null && b.similarity != null) {
-            return b.similarity - a.similarity;
+          if (a.score != null && b.score != null) {
+            return b.score - a.score;
           }
-          if (a.similarity != null) return -1;
-          if (b.similarity != null) return 1;
+          if (a.score != null) return -1;
+          if (b.score != null) return 1;
           return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         });
 
@@ -0,0 +1,254 @@
+/**
+ * useSmartCollections — Saved searches that stay live.
+ *
+ * A smart collection is a named search-memory query. useSmartCollections
+ * manages the saved list; useSmartCollectionResults runs one collection's
+ * query and re-runs it whenever the user's entries change, flagging entries
+ * that newly started matching.
+ */
+
+import { useState, useEffect, useCallback, useId, useRef } from 'react';
+import { useDebouncedCallback } from 'use-debounce';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import type { MatchReason } from '@/hooks/useSearch';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+export interface SmartCollection {
+  id: string;
+  name: string;
+  query: string;
+  notify_slack: boolean;
+  last_matched_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SmartCollectionEntry {
+  id: string;
+  title: string | null;
+  content: string;
+  content_type: string;
+  content_subtype?: string | null;
+  tags: string[];
+  importance_score: number | null;
+  created_at: string;
+  similarity?: number;
+  score?: number;
+  reasons?: MatchReason[];
+}
+
+/** Max entries a collection shows — smart-collections-check uses the same window */
+export const SMART_COLLECTION_LIMIT = 100;
+/** Entry writes arrive in bursts (insert, then embedding/enrichment updates) */
+const REFRESH_DEBOUNCE_MS = 1500;
+
+export function useSmartCollections() {
+  const [collections, setCollections] = useState<SmartCollection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState('');
+  // Unique per hook instance so the Search page and widgets don't share a channel
+  const instanceId = useId();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) setUserId(session.user.id);
+    });
+  }, []);
+
+  const fetchCollections = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase
+      .from('smart_collections')
+      .select('id, name, query, notify_slack, last_matched_at, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.warn('[useSmartCollections] fetch failed:', error);
+      return;
+    }
+    setCollections((data as unknown as SmartCollection[]) || []);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    fetchCollections().finally(() => setLoading(false));
+  }, [userId, fetchCollections]);
+
+  // Realtime: keep every open view of the list in sync
+  useEffect(() => {
+    if (!userId) return;
+    const channel: RealtimeChannel = supabase
+      .channel(`smart-collections-${userId}-${instanceId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'smart_collections',
+        filter: `user_id=eq.${userId}`,
+      }, () => { fetchCollections(); })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [userId, instanceId, fetchCollections]);
+
+  const createCollection = useCallback(async (params: {
+    name: string;
+    query: string;
+    notifySlack: boolean;
+  }): Promise<SmartCollection | null> => {
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from('smart_collections')
+      .insert({
+        user_id: userId,
+        name: params.name,
+        query: params.query,
+        notify_slack: params.notifySlack,
+      })
+      .select('id, name, query, notify_slack, last_matched_at, created_at, updated_at')
+      .single();
+
+    if (error || !data) {
+      toast.error('Failed to save collection');
+      return null;
+    }
+
+    const created = data as unknown as SmartCollection;
+    setCollections(prev => [...prev.filter(c => c.id !== created.id), created]);
+    toast.success(`Collection saved: "${params.name}"`);
+    return created;
+  }, [userId]);
+
+  const updateCollection = useCallback(async (
+    id: string,
+    updates: Partial<Pick<SmartCollection, 'name' | 'query' | 'notify_slack'>>
+  ) => {
+    const { error } = await supabase
+      .from('smart_collections')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update collection');
+      return;
+    }
+    setCollections(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+  }, []);
+
+  const deleteCollection = useCallback(async (id: string) => {
+    const { error } = await supabase
+      .from('smart_collections')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to delete collection');
+      return;
+    }
+    setCollections(prev => prev.filter(c => c.id !== id));
+  }, []);
+
+  return {
+    collections, loading, userId, fetchCollections,
+    createCollection, updateCollection, deleteCollection,
+  };
+}
+
+export interface UseSmartCollectionResultsOptions {
+  limit?: number;
+  /** Turn off live refresh (e.g. collapsed widget) */
+  live?: boolean;
+}
+
+/**
+ * Run a collection query and keep it current. `newIds` holds entries that
+ * started matching since the first load; cleared when the query changes.
+ */
+export function useSmartCollectionResults(
+  query: string | null | undefined,
+  { limit = SMART_COLLECTION_LIMIT, live = true }: UseSmartCollectionResultsOptions = {}
+) {
+  const [userId, setUserId] = useState('');
+  const [results, setResults] = useState<SmartCollectionEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newIds, setNewIds] = useState<Set<string>>(new Set());
+  const knownIdsRef = useRef<Set<string> | null>(null);
+  const instanceId = useId();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) setUserId(session.user.id);
+    });
+  }, []);
+
+  const fetchResults = useCallback(async () => {
+    if (!userId || !query?.trim()) return;
+
+    const { data, error: fnError } = await supabase.functions.invoke('search-memory', {
+      body: { query: query.trim(), useSemanticSearch: true, limit },
+    });
+
+    if (fnError) {
+      setError(fnError.message || 'Search failed');
+      return;
+    }
+
+    const next: SmartCollectionEntry[] = ((data?.results || []) as SmartCollectionEntry[]).map((r) => ({
+      id: r.id,
+      title: r.title,
+      content: r.content,
+      content_type: r.content_type,
+      content_subtype: r.content_subtype ?? null,
+      tags: r.tags || [],
+      importance_score: r.importance_score,
+      created_at: r.created_at,
+      similarity: r.similarity,
+      score: r.score,
+      reasons: r.reasons,
+    }));
+
+    const known = knownIdsRef.current;
+    if (known) {
+      const added = next.filter(r => !known.has(r.id)).map(r => r.id);
+      if (added.length > 0) {
+        setNewIds(prev => new Set([...prev, ...added]));
+      }
+    }
+    knownIdsRef.current = new Set([...(known ?? []), ...next.map(r => r.id)]);
+
+    setError(null);
+    setResults(next);
+  }, [userId, query, limit]);
+
+  // Fresh query → fresh baseline
+  useEffect(() => {
+    knownIdsRef.current = null;
+    setNewIds(new Set());
+    setResults([]);
+    if (!userId || !query?.trim()) return;
+    setLoading(true);
+    fetchResults().finally(() => setLoading(false));
+  }, [userId, query, fetchResults]);
+
+  const scheduleRefresh = useDebouncedCallback(() => { fetchResults(); }, REFRESH_DEBOUNCE_MS);
+
+  useRealtimeSubscription({
+    userId,
+    table: 'entries',
+    channelName: `smart-collection-entries-${userId}-${instanceId}`,
+    onInsert: scheduleRefresh,
+    onUpdate: scheduleRefresh,
+    onDelete: scheduleRefresh,
+    enabled: live && !!query?.trim(),
+  });
+
+  useEffect(() => () => scheduleRefresh.cancel(), [scheduleRefresh]);
+
+  const dismissNew = useCallback(() => setNewIds(new Set()), []);
+
+  return { results, loading, error, newIds, dismissNew, refresh: fetchResults };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo } from "react";
 import { startOfDay, addDays, isToday, isPast, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
+import { entryRRule, nextOccurrence } from "@/lib/rrule";
 
 interface ReminderEntry {
   id: string;
@@ -12,11 +13,27 @@ interface ReminderEntry {
   reminder_minutes: number | null;
   importance_score: number | null;
   starred: boolean;
+  rrule: string | null;
+  exdates: string[] | null;
+  is_recurring: boolean | null;
+  recurrence_pattern: string | null;
+  /** Latest reminder delivery for this occurrence (event_date), if any */
+  delivery_status?: string;
+  snoozed_until?: string | null;
+}
+
+interface ReminderDelivery {
+  entry_id: string;
+  occurrence_date: string;
+  status: string;
+  snoozed_until: string | null;
 }
 
 interface UseUpcomingRemindersResult {
   todayReminders: ReminderEntry[];
   overdueReminders: ReminderEntry[];
+  /** Reminders nobody responded to before their event passed */
+  missedReminders: ReminderEntry[];
   upcomingCount: number;
   loading: boolean;
   refresh: () => Promise<void>;
@@ -24,6 +41,7 @@ interface UseUpcomingRemindersResult {
 
 export function useUpcomingReminders(userId: string | undefined): UseUpcomingRemindersResult {
   const [entries, setEntries] = useState<ReminderEntry[]>([]);
+  const [deliveries, setDeliveries] = useState<ReminderDelivery[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchReminders = async () => {
@@ -36,19 +54,27 @@ export function useUpcomingReminders(userId: string | undefined): UseUpcomingRem
       const today = startOfDay(new Date());
       const nextWeek = addDays(today, 7);
 
-      const { data, error } = await supabase
-        .from("entries")
-        .select("id, title, content, content_type, event_date, event_time, reminder_minutes, importance_score, starred")
-        .eq("user_id", userId)
-        .eq("archived", false)
-        .not("event_date", "is", null)
-        .lte("event_date", nextWeek.toISOString().split("T")[0])
-        .order("event_date", { ascending: true })
-        .order("event_time", { ascending: true, nullsFirst: false });
+      const [{ data, error }, { data: deliveryData }] = await Promise.all([
+        supabase
+          .from("entries")
+          .select("id, title, content, content_type, event_date, event_time, reminder_minutes, importance_score, starred, rrule, exdates, is_recurring, recurrence_pattern")
+          .eq("user_id", userId)
+          .eq("archived", false)
+          .not("event_date", "is", null)
+          .lte("event_date", nextWeek.toISOString().split("T")[0])
+          .order("event_date", { ascending: true })
+          .order("event_time", { ascending: true, nullsFirst: false }),
+        supabase
+          .from("reminder_deliveries")
+          .select("entry_id, occurrence_date, status, snoozed_until")
+          .eq("user_id", userId)
+          .gte("occurrence_date", addDays(today, -7).toISOString().split("T")[0]),
+      ]);
 
       if (error) throw error;
 
       setEntries(data || []);
+      setDeliveries(deliveryData ?? []);
     } catch (error) {
       console.error("Failed to fetch reminders:", error);
     } finally {
@@ -61,17 +87,33 @@ export function useUpcomingReminders(userId: string | undefined): UseUpcomingRem
   }, [userId]);
 
   // Memoized computed values
-  const { todayReminders, overdueReminders, upcomingCount } = useMemo(() => {
+  const { todayReminders, overdueReminders, missedReminders, upcomingCount } = useMemo(() => {
     const today: ReminderEntry[] = [];
     const overdue: ReminderEntry[] = [];
+    const missed: ReminderEntry[] = [];
     let upcoming = 0;
 
     const todayStr = new Date().toISOString().split("T")[0];
+    const deliveryFor = new Map(deliveries.map((d) => [`${d.entry_id}:${d.occurrence_date}`, d]));
 
-    entries.forEach((entry) => {
+    entries.forEach((series) => {
+      // A recurring entry shows at its next occurrence; a finished series not at all
+      const occurrence = entryRRule(series) ? nextOccurrence(series, todayStr) : series.event_date;
+      if (!occurrence) return;
+      const delivery = deliveryFor.get(`${series.id}:${occurrence}`);
+      // Answered already — done, or moved to another date
+      if (delivery?.status === "acknowledged" || delivery?.status === "rescheduled") return;
+      const entry: ReminderEntry = {
+        ...series,
+        event_date: occurrence,
+        delivery_status: delivery?.status,
+        snoozed_until: delivery?.snoozed_until ?? null,
+      };
       const eventDate = entry.event_date;
-      
-      if (eventDate === todayStr) {
+
+      if (delivery?.status === "missed") {
+        missed.push(entry);
+      } else if (eventDate === todayStr) {
         today.push(entry);
         upcoming++;
       } else if (eventDate < todayStr) {
@@ -84,13 +126,15 @@ export function useUpcomingReminders(userId: string | undefined): UseUpcomingRem
     return {
       todayReminders: today,
       overdueReminders: overdue,
+      missedReminders: missed,
       upcomingCount: upcoming,
     };
-  }, [entries]);
+  }, [entries, deliveries]);
 
   return {
     todayReminders,
     overdueReminders,
+    missedReminders,
     upcomingCount,
     loading,
     refresh: fetchReminders,
@@ -0,0 +1,58 @@
+/**
+ * useUsageLimits — Usage against rate limits and daily quotas for Settings.
+ *
+ * Reads the usage-limits edge function; limits themselves live server-side
+ * (_shared/rateLimit.ts), so the panel always shows what functions enforce.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { QuotaUsage, FunctionRateUsage } from '@/lib/usageLimits';
+
+const USAGE_LIMITS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/usage-limits`;
+
+export interface UsageLimits {
+  quotas: QuotaUsage[];
+  rateLimits: FunctionRateUsage[];
+}
+
+export function useUsageLimits() {
+  const [usage, setUsage] = useState<UsageLimits | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: session } = await supabase.auth.getSession();
+      if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+      const res = await fetch(USAGE_LIMITS_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.session.access_token}`,
+          'Content-Type': 'application/json',
+          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        },
+        body: '{}',
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+
+      setUsage({ quotas: data.quotas ?? [], rateLimits: data.rateLimits ?? [] });
+      setError(null);
+    } catch (err) {
+      console.warn('[useUsageLimits] Fetch failed (non-blocking):', err);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { usage, loading, error, refresh };
+}
@@ -0,0 +1,48 @@
+/**
+ * useUserTags — Distinct tags across the user's recent entries, most used first.
+ * Feeds tag: autocomplete in the search query input.
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const SAMPLE_SIZE = 500;
+
+export function useUserTags(userId: string | undefined) {
+  const [tags, setTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { data } = await supabase
+          .from('entries')
+          .select('tags')
+          .eq('user_id', userId)
+          .eq('archived', false)
+          .order('updated_at', { ascending: false })
+          .limit(SAMPLE_SIZE);
+
+        const counts = new Map<string, number>();
+        for (const row of data ?? []) {
+          for (const tag of (row.tags as string[] | null) ?? []) {
+            counts.set(tag, (counts.get(tag) ?? 0) + 1);
+          }
+        }
+        if (!cancelled) {
+          setTags([...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag));
+        }
+      } catch (err) {
+        console.warn('[useUserTags] fetch failed:', err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return tags;
+}
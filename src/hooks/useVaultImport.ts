@@ -0,0 +1,153 @@
+/**
+ * useVaultImport — Import a zipped Markdown vault into the brain.
+ *
+ * Reads the zip in the browser, sends notes to import-notes in small batches
+ * (each note runs the full classify → embed → extract-entities pipeline), then
+ * sends resolved [[wikilinks]] once every note has an entry id.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { readVaultZip, resolveWikilinks, type SkippedFile } from '@/lib/vaultImport';
+
+const NOTE_BATCH_SIZE = 5;
+const LINK_BATCH_SIZE = 500;
+
+export type VaultImportPhase = 'idle' | 'reading' | 'importing' | 'linking' | 'done' | 'cancelled' | 'error';
+
+export interface VaultImportProgress {
+  phase: VaultImportPhase;
+  total: number;
+  processed: number;
+  created: number;
+  duplicates: number;
+  failed: number;
+  linked: number;
+  skipped: SkippedFile[];
+  failures: Array<{ path: string; error: string }>;
+  error: string | null;
+}
+
+interface NoteResult {
+  path: string;
+  status: 'created' | 'duplicate' | 'failed';
+  entryId?: string;
+  error?: string;
+}
+
+const INITIAL_PROGRESS: VaultImportProgress = {
+  phase: 'idle',
+  total: 0,
+  processed: 0,
+  created: 0,
+  duplicates: 0,
+  failed: 0,
+  linked: 0,
+  skipped: [],
+  failures: [],
+  error: null,
+};
+
+export function useVaultImport() {
+  const [progress, setProgress] = useState<VaultImportProgress>(INITIAL_PROGRESS);
+  const cancelledRef = useRef(false);
+
+  const importZip = useCallback(async (file: File) => {
+    cancelledRef.current = false;
+    setProgress({ ...INITIAL_PROGRESS, phase: 'reading' });
+
+    try {
+      const { notes, skipped } = readVaultZip(new Uint8Array(await file.arrayBuffer()));
+      if (notes.length === 0) {
+        setProgress({ ...INITIAL_PROGRESS, phase: 'error', skipped, error: 'No Markdown notes found in this zip' });
+        return;
+      }
+
+      setProgress((p) => ({ ...p, phase: 'importing', total: notes.length, skipped }));
+
+      const entryIdByPath = new Map<string, string>();
+      let created = 0;
+      let duplicates = 0;
+
+      for (let i = 0; i < notes.length; i += NOTE_BATCH_SIZE) {
+        if (cancelledRef.current) {
+          setProgress((p) => ({ ...p, phase: 'cancelled' }));
+          return;
+        }
+
+        const batch = notes.slice(i, i + NOTE_BATCH_SIZE);
+        const { data, error } = await supabase.functions.invoke('import-notes', {
+          body: {
+            action: 'import',
+            notes: batch.map(({ path, title, content, tags, createdAt, updatedAt, frontMatter }) => ({
+              path, title, content, tags, createdAt, updatedAt, frontMatter,
+            })),
+          },
+        });
+
+        // A failed batch marks its notes failed and the import keeps going
+        const results: NoteResult[] = error || !data?.results
+          ? batch.map((n) => ({ path: n.path, status: 'failed', error: error?.message || 'Import request failed' }))
+          : data.results;
+
+        for (const r of results) {
+          if (r.entryId) entryIdByPath.set(r.path, r.entryId);
+        }
+        const batchCreated = results.filter((r) => r.status === 'created').length;
+        const batchDuplicates = results.filter((r) => r.status === 'duplicate').length;
+        created += batchCreated;
+        duplicates += batchDuplicates;
+
+        setProgress((p) => ({
+          ...p,
+          processed: p.processed + batch.length,
+          created: p.created + batchCreated,
+          duplicates: p.duplicates + batchDuplicates,
+          failed: p.failed + results.filter((r) => r.status === 'failed').length,
+          failures: [
+            ...p.failures,
+            ...results.filter((r) => r.status === 'failed').map((r) => ({ path: r.path, error: r.error || 'Failed' })),
+          ],
+        }));
+      }
+
+      // Wikilinks → entry_relationships
+      const links = resolveWikilinks(notes)
+        .map(({ from, to }) => ({ entryId: entryIdByPath.get(from), relatedEntryId: entryIdByPath.get(to) }))
+        .filter((l): l is { entryId: string; relatedEntryId: string } => !!l.entryId && !!l.relatedEntryId);
+
+      if (links.length > 0) {
+        setProgress((p) => ({ ...p, phase: 'linking' }));
+        for (let i = 0; i < links.length; i += LINK_BATCH_SIZE) {
+          const { data, error } = await supabase.functions.invoke('import-notes', {
+            body: { action: 'link', links: links.slice(i, i + LINK_BATCH_SIZE) },
+          });
+          if (error) {
+            console.warn('[useVaultImport] link batch failed:', error);
+            continue;
+          }
+          setProgress((p) => ({ ...p, linked: p.linked + (data?.linked ?? 0) }));
+        }
+      }
+
+      setProgress((p) => ({ ...p, phase: 'done' }));
+      toast.success(`Imported ${created} note${created !== 1 ? 's' : ''}${duplicates ? ` · ${duplicates} already in your brain` : ''}`);
+    } catch (err) {
+      console.error('[useVaultImport] import failed:', err);
+      const message = err instanceof Error ? err.message : 'Import failed';
+      setProgress((p) => ({ ...p, phase: 'error', error: message }));
+      toast.error(`Import failed: ${message}`);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const reset = useCallback(() => {
+    setProgress(INITIAL_PROGRESS);
+  }, []);
+
+  return { progress, importZip, cancel, reset };
+}
@@ -0,0 +1,112 @@
+/**
+ * useWatchTemplates — Built-in and custom watch templates.
+ *
+ * Custom templates (imported or saved from a watch) are stored in
+ * user_settings.settings.watch_templates; built-ins come from
+ * lib/watchTemplates and can't be edited or removed.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  BUILT_IN_TEMPLATES,
+  mergeTemplates,
+  parseTemplates,
+  serializeTemplates,
+  type WatchTemplate,
+} from '@/lib/watchTemplates';
+
+export function useWatchTemplates() {
+  const [customTemplates, setCustomTemplates] = useState<WatchTemplate[]>([]);
+  const [userId, setUserId] = useState('');
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) setUserId(session.user.id);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .from('user_settings')
+      .select('settings')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        const stored = (data?.settings as Record<string, unknown> | null)?.watch_templates;
+        if (!Array.isArray(stored) || stored.length === 0) return;
+        try {
+          setCustomTemplates(parseTemplates(JSON.stringify(stored)));
+        } catch (err) {
+          console.warn('[useWatchTemplates] Ignoring invalid stored templates:', err);
+        }
+      });
+  }, [userId]);
+
+  const persist = useCallback(async (next: WatchTemplate[]): Promise<boolean> => {
+    if (!userId) return false;
+    const { data: existing } = await supabase
+      .from('user_settings')
+      .select('settings')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const currentSettings = (existing?.settings as Record<string, unknown>) || {};
+    // Stored in export form, so what's saved is exactly what would be shared
+    const updatedSettings = { ...currentSettings, watch_templates: JSON.parse(serializeTemplates(next)).templates };
+
+    const { error } = existing
+      ? await supabase.from('user_settings').update({ settings: updatedSettings }).eq('user_id', userId)
+      : await supabase.from('user_settings').insert({ user_id: userId, settings: updatedSettings });
+
+    if (error) {
+      toast.error('Failed to save templates');
+      return false;
+    }
+    setCustomTemplates(next);
+    return true;
+  }, [userId]);
+
+  const importTemplates = useCallback(async (json: string) => {
+    let incoming: WatchTemplate[];
+    try {
+      incoming = parseTemplates(json);
+    } catch (err) {
+      toast.error(`Import failed: ${err instanceof Error ? err.message : 'invalid file'}`);
+      return;
+    }
+    if (await persist(mergeTemplates(customTemplates, incoming))) {
+      toast.success(`Imported ${incoming.length} template${incoming.length === 1 ? '' : 's'}`);
+    }
+  }, [customTemplates, persist]);
+
+  const saveTemplate = useCallback(async (template: WatchTemplate) => {
+    if (await persist(mergeTemplates(customTemplates, [template]))) {
+      toast.success(`Template saved: "${template.name}"`);
+    }
+  }, [customTemplates, persist]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    await persist(customTemplates.filter(t => t.id !== id));
+  }, [customTemplates, persist]);
+
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...customTemplates], [customTemplates]);
+
+  /** Download templates as JSON — the custom ones if there are any, else all */
+  const exportTemplates = useCallback(() => {
+    const toExport = customTemplates.length > 0 ? customTemplates : BUILT_IN_TEMPLATES;
+    const blob = new Blob([serializeTemplates(toExport)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `watch-templates-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  }, [customTemplates]);
+
+  return { templates, customTemplates, importTemplates, exportTemplates, saveTemplate, deleteTemplate };
+}
@@ -9,6 +9,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { WatchAlertCondition } from '@/lib/watchConditions';
 
 export interface Watch {
   id: string;
@@ -23,7 +24,13 @@ export interface Watch {
     watchName?: string;
     frequency?: string;
     modelTier?: string;
+    agentType?: string;
     timezone?: string;
+    /** When a run notifies; runs whose diff doesn't meet it complete quietly */
+    alertCondition?: WatchAlertCondition;
+    /** Set when the watch was made from a template (lib/watchTemplates) */
+    templateId?: string;
+    templateParams?: Record<string, string>;
   };
   totalRuns: number;
   lastRunAt: string | null;
@@ -148,6 +155,9 @@ export function useWatches() {
     cronExpression: string;
     modelTier: string;
     agentType: string;
+    alertCondition?: WatchAlertCondition;
+    templateId?: string;
+    templateParams?: Record<string, string>;
   }): Promise<string | null> => {
     if (!userId) return null;
 
@@ -179,6 +189,8 @@ export function useWatches() {
           modelTier: params.modelTier,
           timezone: 'America/Chicago',
           slack_channel: slackChannel || null,
+          alertCondition: params.alertCondition ?? { type: 'any_change' },
+          ...(params.templateId ? { templateId: params.templateId, templateParams: params.templateParams ?? {} } : {}),
           createdAt: new Date().toISOString(),
         },
       })
@@ -201,6 +213,7 @@ export function useWatches() {
     cronExpression?: string;
     modelTier?: string;
     agentType?: string;
+    alertCondition?: WatchAlertCondition;
   }) => {
     const watch = watches.find(w => w.id === id);
     if (!watch) return;
@@ -221,6 +234,9 @@ export function useWatches() {
     if (params.agentType !== undefined) {
       newInput.agentType = params.agentType;
     }
+    if (params.alertCondition !== undefined) {
+      newInput.alertCondition = params.alertCondition;
+    }
     if (params.cronExpression !== undefined) {
       updates.cron_expression = params.cronExpression;
       updates.next_run_at = new Date(Date.now() + 5 * 60 * 1000).toISOString();
@@ -86,6 +86,7 @@ export type Database = {
           created_at: string
           cron_active: boolean | null
           cron_expression: string | null
+          depends_on: string[]
           error: string | null
           id: string
           input: Json
@@ -109,6 +110,7 @@ export type Database = {
           created_at?: string
           cron_active?: boolean | null
           cron_expression?: string | null
+          depends_on?: string[]
           error?: string | null
           id?: string
           input?: Json
@@ -132,6 +134,7 @@ export type Database = {
           created_at?: string
           cron_active?: boolean | null
           cron_expression?: string | null
+          depends_on?: string[]
           error?: string | null
           id?: string
           input?: Json
@@ -199,45 +202,117 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          last_accessed_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      calendar_subscriptions: {
+        Row: {
+          created_at: string
+          event_count: number
+          id: string
+          last_error: string | null
+          last_synced_at: string | null
+          name: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_count?: number
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          name: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_count?: number
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          name?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       code_projects: {
         Row: {
           active: boolean
+          approval_paths: string[]
           created_at: string
           default_branch: string
           description: string | null
           file_tree_cache: string[] | null
+          git_base_url: string | null
+          git_provider: string
+          git_token_secret: string | null
           id: string
           last_synced_at: string | null
+          merge_policy: string
           name: string
           repo_full_name: string
+          symbols_indexed_at: string | null
           tech_stack: string[] | null
           updated_at: string
           user_id: string
         }
         Insert: {
           active?: boolean
+          approval_paths?: string[]
           created_at?: string
           default_branch?: string
           description?: string | null
           file_tree_cache?: string[] | null
+          git_base_url?: string | null
+          git_provider?: string
+          git_token_secret?: string | null
           id?: string
           last_synced_at?: string | null
+          merge_policy?: string
           name: string
           repo_full_name: string
+          symbols_indexed_at?: string | null
           tech_stack?: string[] | null
           updated_at?: string
           user_id: string
         }
         Update: {
           active?: boolean
+          approval_paths?: string[]
           created_at?: string
           default_branch?: string
           description?: string | null
           file_tree_cache?: string[] | null
+          git_base_url?: string | null
+          git_provider?: string
+          git_token_secret?: string | null
           id?: string
           last_synced_at?: string | null
+          merge_policy?: string
           name?: string
           repo_full_name?: string
+          symbols_indexed_at?: string | null
           tech_stack?: string[] | null
           updated_at?: string
           user_id?: string
@@ -246,6 +321,7 @@ export type Database = {
       }
       code_sessions: {
         Row: {
+          approval_reason: string | null
           branch_name: string
           ci_status: string | null
           commit_sha: string | null
@@ -265,6 +341,9 @@ export type Database = {
           pr_url: string | null
           project_id: string
           query: string | null
+          review_feedback: string | null
+          reviewed_at: string | null
+          reviewed_via: string | null
           status: string
           task_id: string | null
           total_cost_usd: number | null
@@ -272,6 +351,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          approval_reason?: string | null
           branch_name: string
           ci_status?: string | null
           commit_sha?: string | null
@@ -291,6 +371,9 @@ export type Database = {
           pr_url?: string | null
           project_id: string
           query?: string | null
+          review_feedback?: string | null
+          reviewed_at?: string | null
+          reviewed_via?: string | null
           status?: string
           task_id?: string | null
           total_cost_usd?: number | null
@@ -298,6 +381,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          approval_reason?: string | null
           branch_name?: string
           ci_status?: string | null
           commit_sha?: string | null
@@ -317,6 +401,9 @@ export type Database = {
           pr_url?: string | null
           project_id?: string
           query?: string | null
+          review_feedback?: string | null
+          reviewed_at?: string | null
+          reviewed_via?: string | null
           status?: string
           task_id?: string | null
           total_cost_usd?: number | null
@@ -333,17 +420,104 @@ export type Database = {
           },
         ]
       }
+      code_symbols: {
+        Row: {
+          exports: string[]
+          id: string
+          imported_paths: string[]
+          imports: Json
+          indexed_at: string
+          path: string
+          project_id: string
+          sha: string | null
+          symbols: Json
+          user_id: string
+        }
+        Insert: {
+          exports?: string[]
+          id?: string
+          imported_paths?: string[]
+          imports?: Json
+          indexed_at?: string
+          path: string
+          project_id: string
+          sha?: string | null
+          symbols?: Json
+          user_id: string
+        }
+        Update: {
+          exports?: string[]
+          id?: string
+          imported_paths?: string[]
+          imports?: Json
+          indexed_at?: string
+          path?: string
+          project_id?: string
+          sha?: string | null
+          symbols?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "code_symbols_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "code_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deploy_environments: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          is_production: boolean
+          name: string
+          project_ref: string
+          supabase_url: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          is_production?: boolean
+          name: string
+          project_ref: string
+          supabase_url?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          is_production?: boolean
+          name?: string
+          project_ref?: string
+          supabase_url?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       entries: {
         Row: {
           archived: boolean
+          calendar_subscription_id: string | null
           content: string
           content_subtype: string | null
           content_type: string
           created_at: string
           embedding: string | null
+          embedding_model: string | null
           event_date: string | null
           event_time: string | null
+          exdates: string[]
           extracted_data: Json | null
+          ics_uid: string | null
           id: string
           image_url: string | null
           importance_score: number | null
@@ -352,8 +526,12 @@ export type Database = {
           recurrence_pattern: string | null
           reminder_minutes: number | null
           reminder_sent: boolean | null
+          reminder_sent_for: string | null
+          revision_source: string | null
+          rrule: string | null
           source: string
           starred: boolean
+          sync_updated_at: string
           tags: string[] | null
           title: string | null
           updated_at: string
@@ -361,14 +539,18 @@ export type Database = {
         }
         Insert: {
           archived?: boolean
+          calendar_subscription_id?: string | null
           content: string
           content_subtype?: string | null
           content_type?: string
           created_at?: string
           embedding?: string | null
+          embedding_model?: string | null
           event_date?: string | null
           event_time?: string | null
+          exdates?: string[]
           extracted_data?: Json | null
+          ics_uid?: string | null
           id?: string
           image_url?: string | null
           importance_score?: number | null
@@ -377,8 +559,12 @@ export type Database = {
           recurrence_pattern?: string | null
           reminder_minutes?: number | null
           reminder_sent?: boolean | null
+          reminder_sent_for?: string | null
+          revision_source?: string | null
+          rrule?: string | null
           source?: string
           starred?: boolean
+          sync_updated_at?: string
           tags?: string[] | null
           title?: string | null
           updated_at?: string
@@ -386,14 +572,18 @@ export type Database = {
         }
         Update: {
           archived?: boolean
+          calendar_subscription_id?: string | null
           content?: string
           content_subtype?: string | null
           content_type?: string
           created_at?: string
           embedding?: string | null
+          embedding_model?: string | null
           event_date?: string | null
           event_time?: string | null
+          exdates?: string[]
           extracted_data?: Json | null
+          ics_uid?: string | null
           id?: string
           image_url?: string | null
           importance_score?: number | null
@@ -402,14 +592,70 @@ export type Database = {
           recurrence_pattern?: string | null
           reminder_minutes?: number | null
           reminder_sent?: boolean | null
+          reminder_sent_for?: string | null
+          revision_source?: string | null
+          rrule?: string | null
           source?: string
           starred?: boolean
+          sync_updated_at?: string
           tags?: string[] | null
           title?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "entries_calendar_subscription_id_fkey"
+            columns: ["calendar_subscription_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      entry_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          entry_id: string
+          id: string
+          list_items: Json | null
+          source: string
+          tags: string[] | null
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          entry_id: string
+          id?: string
+          list_items?: Json | null
+          source: string
+          tags?: string[] | null
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          entry_id?: string
+          id?: string
+          list_items?: Json | null
+          source?: string
+          tags?: string[] | null
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "entry_revisions_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "entries"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -435,6 +681,107 @@ export type Database = {
         }
         Relationships: []
       }
+      reminder_deliveries: {
+        Row: {
+          ack_via: string | null
+          acknowledged_at: string | null
+          created_at: string
+          delivery_count: number
+          entry_id: string
+          escalated_at: string | null
+          event_at: string
+          id: string
+          importance: number | null
+          occurrence_date: string
+          sent_at: string | null
+          slack_channel: string | null
+          slack_ts: string | null
+          snoozed_until: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ack_via?: string | null
+          acknowledged_at?: string | null
+          created_at?: string
+          delivery_count?: number
+          entry_id: string
+          escalated_at?: string | null
+          event_at: string
+          id?: string
+          importance?: number | null
+          occurrence_date: string
+          sent_at?: string | null
+          slack_channel?: string | null
+          slack_ts?: string | null
+          snoozed_until?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ack_via?: string | null
+          acknowledged_at?: string | null
+          created_at?: string
+          delivery_count?: number
+          entry_id?: string
+          escalated_at?: string | null
+          event_at?: string
+          id?: string
+          importance?: number | null
+          occurrence_date?: string
+          sent_at?: string | null
+          slack_channel?: string | null
+          slack_ts?: string | null
+          snoozed_until?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_deliveries_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      smart_collections: {
+        Row: {
+          created_at: string | null
+          id: string
+          last_matched_at: string | null
+          name: string
+          notify_slack: boolean
+          query: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          last_matched_at?: string | null
+          name: string
+          notify_slack?: boolean
+          query: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          last_matched_at?: string | null
+          name?: string
+          notify_slack?: boolean
+          query?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
           billing_cycle_start: string
@@ -548,6 +895,60 @@ export type Database = {
         }
         Relationships: []
       }
+      watch_snapshots: {
+        Row: {
+          condition_met: boolean
+          created_at: string
+          diff: Json | null
+          findings: Json
+          id: string
+          run_number: number | null
+          summary: string | null
+          task_id: string | null
+          user_id: string
+          watch_id: string
+        }
+        Insert: {
+          condition_met?: boolean
+          created_at?: string
+          diff?: Json | null
+          findings?: Json
+          id?: string
+          run_number?: number | null
+          summary?: string | null
+          task_id?: string | null
+          user_id: string
+          watch_id: string
+        }
+        Update: {
+          condition_met?: boolean
+          created_at?: string
+          diff?: Json | null
+          findings?: Json
+          id?: string
+          run_number?: number | null
+          summary?: string | null
+          task_id?: string | null
+          user_id?: string
+          watch_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watch_snapshots_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "agent_tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "watch_snapshots_watch_id_fkey"
+            columns: ["watch_id"]
+            isOneToOne: false
+            referencedRelation: "agent_tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -1,7 +1,7 @@
 /**
  * AuthLayout — Layout wrapper for all authenticated routes.
  *
- * Structure: TopNav (top) + JacSidebar (left) + Page Content (center) + Ticker (bottom).
+ * Structure: TopNav (top) + OfflineBanner + JacSidebar (left) + Page Content (center) + Ticker (bottom).
  * Provides single useJacAgent instance shared across all pages via JacContext.
  */
 
@@ -13,6 +13,7 @@ import { JacContext } from '@/contexts/JacContext';
 import { TopNav } from '@/components/TopNav';
 import { JacSidebar } from '@/components/JacSidebar';
 import { useSidebarState } from '@/hooks/useSidebarState';
+import OfflineBanner from '@/components/OfflineBanner';
 
 function useMediaQuery(query: string): boolean {
   const [matches, setMatches] = useState(() =>
@@ -80,6 +81,9 @@ export function AuthLayout({ children }: AuthLayoutProps) {
         {/* TopNav */}
         <TopNav userId={userId} />
 
+        {/* Offline status + changes waiting to sync */}
+        <OfflineBanner />
+
         {/* Main area: sidebar + page content */}
         <div className="flex-1 flex overflow-hidden">
           {/* JacSidebar — desktop: inline panel, mobile: FAB + Sheet */}
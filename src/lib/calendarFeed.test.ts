@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { describeSyncCounts, feedUrls } from './calendarFeed';
+
+describe('feedUrls', () => {
+  it('builds the https and webcal forms of the feed URL', () => {
+    expect(feedUrls('https://abc.supabase.co/', 'tok-_1')).toEqual({
+      https: 'https://abc.supabase.co/functions/v1/calendar-feed?token=tok-_1',
+      webcal: 'webcal://abc.supabase.co/functions/v1/calendar-feed?token=tok-_1',
+    });
+  });
+});
+
+describe('describeSyncCounts', () => {
+  it('lists only non-zero counts', () => {
+    expect(describeSyncCounts({ created: 3, updated: 0, unchanged: 5, removed: 1, skipped: 1 }))
+      .toBe('3 added, 1 removed, 1 past event skipped');
+    expect(describeSyncCounts({ unchanged: 4 })).toBe('Already up to date');
+  });
+});
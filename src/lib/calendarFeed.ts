@@ -0,0 +1,49 @@
+/**
+ * ICS feed URLs and sync results, for the calendar sync dialog.
+ *
+ * The feed itself is built by supabase/functions/calendar-feed and imports
+ * run through calendar-sync (both use _shared/ics.ts).
+ */
+
+export interface CalendarFeed {
+  token: string;
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+/** One calendar_subscriptions row */
+export interface CalendarSubscription {
+  id: string;
+  url: string;
+  name: string;
+  last_synced_at: string | null;
+  /** null once a sync succeeds */
+  last_error: string | null;
+  event_count: number;
+  created_at: string;
+}
+
+export interface CalendarSyncCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  skipped: number;
+}
+
+/** https:// URL to paste into a calendar app, and the webcal:// form that opens one directly */
+export function feedUrls(supabaseUrl: string, token: string): { https: string; webcal: string } {
+  const https = `${supabaseUrl.replace(/\/$/, '')}/functions/v1/calendar-feed?token=${encodeURIComponent(token)}`;
+  return { https, webcal: https.replace(/^https?:\/\//, 'webcal://') };
+}
+
+/** "3 added, 1 updated, 2 removed" — or "Already up to date" */
+export function describeSyncCounts(counts: Partial<CalendarSyncCounts>): string {
+  const parts = [
+    counts.created ? `${counts.created} added` : null,
+    counts.updated ? `${counts.updated} updated` : null,
+    counts.removed ? `${counts.removed} removed` : null,
+    counts.skipped ? `${counts.skipped} past event${counts.skipped === 1 ? '' : 's'} skipped` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'Already up to date';
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { computeFunctionDrift, isPromotable, type DeployedFunction } from './deployDrift';
+
+function fn(slug: string, updatedAt: string | number, verifyJwt = false): DeployedFunction {
+  return { slug, status: 'ACTIVE', version: 1, updated_at: updatedAt, verify_jwt: verifyJwt };
+}
+
+describe('computeFunctionDrift', () => {
+  const staging = [
+    fn('smart-save', '2026-03-10T12:00:00Z'),
+    fn('ping', '2026-03-10T12:00:30Z'),
+    fn('poll-ci', '2026-03-01T00:00:00Z'),
+    fn('deploy-console', '2026-03-10T12:00:00Z'),
+  ];
+  const production = [
+    fn('smart-save', '2026-03-09T08:00:00Z'),
+    fn('ping', Date.parse('2026-03-10T12:00:00Z'), true),
+    fn('poll-ci', '2026-03-02T00:00:00Z'),
+    fn('legacy-hook', '2026-01-01T00:00:00Z'),
+  ];
+  const drift = computeFunctionDrift(staging, production);
+
+  it('compares deploy times per slug, sorted by slug', () => {
+    expect(drift.map((d) => [d.slug, d.state])).toEqual([
+      ['deploy-console', 'staging_only'],
+      ['legacy-hook', 'production_only'],
+      ['ping', 'in_sync'],
+      ['poll-ci', 'production_ahead'],
+      ['smart-save', 'staging_ahead'],
+    ]);
+  });
+
+  it('flags verify_jwt differences and marks what can be promoted', () => {
+    const ping = drift.find((d) => d.slug === 'ping')!;
+    expect(ping.jwtMismatch).toBe(true);
+    expect(drift.filter(isPromotable).map((d) => d.slug)).toEqual(['deploy-console', 'ping', 'smart-save']);
+  });
+});
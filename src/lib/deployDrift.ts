@@ -0,0 +1,64 @@
+/**
+ * Staging vs production drift for the Deploy page.
+ *
+ * Version numbers count deploys per project, so they can't be compared
+ * across environments; a function drifts when one side was deployed more
+ * recently than the other, or their verify_jwt settings differ.
+ */
+
+export interface DeployedFunction {
+  slug: string;
+  status: string;
+  version: number;
+  /** ISO string or epoch milliseconds, depending on the Management API version */
+  updated_at: string | number;
+  verify_jwt: boolean;
+}
+
+export type DriftState = 'in_sync' | 'staging_ahead' | 'production_ahead' | 'staging_only' | 'production_only';
+
+export interface FunctionDrift {
+  slug: string;
+  state: DriftState;
+  staging: DeployedFunction | null;
+  production: DeployedFunction | null;
+  jwtMismatch: boolean;
+}
+
+/** Deploys this close together count as the same release */
+const SAME_RELEASE_MS = 60_000;
+
+function deployedAt(fn: DeployedFunction): number {
+  const ms = new Date(fn.updated_at).getTime();
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+export function computeFunctionDrift(staging: DeployedFunction[], production: DeployedFunction[]): FunctionDrift[] {
+  const slugs = new Set([...staging.map((f) => f.slug), ...production.map((f) => f.slug)]);
+
+  return [...slugs].sort().map((slug) => {
+    const stg = staging.find((f) => f.slug === slug) ?? null;
+    const prod = production.find((f) => f.slug === slug) ?? null;
+
+    let state: DriftState;
+    if (!prod) state = 'staging_only';
+    else if (!stg) state = 'production_only';
+    else {
+      const delta = deployedAt(stg) - deployedAt(prod);
+      state = delta > SAME_RELEASE_MS ? 'staging_ahead' : delta < -SAME_RELEASE_MS ? 'production_ahead' : 'in_sync';
+    }
+
+    return {
+      slug,
+      state,
+      staging: stg,
+      production: prod,
+      jwtMismatch: !!stg && !!prod && stg.verify_jwt !== prod.verify_jwt,
+    };
+  });
+}
+
+/** Functions worth promoting: newer or missing on production, or configured differently */
+export function isPromotable(drift: FunctionDrift): boolean {
+  return drift.state === 'staging_ahead' || drift.state === 'staging_only' || (drift.state === 'in_sync' && drift.jwtMismatch);
+}
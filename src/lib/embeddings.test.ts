@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { localEmbedding } from '../../supabase/functions/_shared/localEmbedding';
+
+// The local provider stands in for Voyage/OpenAI in tests and local dev
+// (supabase/functions/_shared/localEmbedding.ts); it needs no key or network.
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe('localEmbedding', () => {
+  it('is deterministic, sized and unit length', () => {
+    const vector = localEmbedding('Pick up milk on the way home', 64);
+    expect(vector).toHaveLength(64);
+    expect(localEmbedding('Pick up milk on the way home', 64)).toEqual(vector);
+    expect(cosine(vector, vector)).toBeCloseTo(1, 10);
+  });
+
+  it('scores similar text above unrelated text', () => {
+    const query = localEmbedding('quarterly budget plan', 256);
+    const related = localEmbedding('draft the quarterly budget plan for Q3', 256);
+    const unrelated = localEmbedding('grandma lasagna recipe with ricotta', 256);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(localEmbedding('Hello, World!', 32)).toEqual(localEmbedding('hello world', 32));
+  });
+
+  it('still returns a unit vector for text with no words', () => {
+    const vector = localEmbedding('...', 16);
+    expect(vector[0]).toBe(1);
+    expect(vector.slice(1).every((v) => v === 0)).toBe(true);
+  });
+});
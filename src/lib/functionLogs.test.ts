@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildLogTimeline, firstErrorIndex, isErrorLine, type FunctionLogLine } from './functionLogs';
+import type { ActivityLogEntry } from '@/types/agent';
+
+const TASK_ID = '6f1c2b7e-3d5a-4c1e-9b8a-0e2d4f6a8c10';
+
+function line(id: string, iso: string, message: string, level = 'log'): FunctionLogLine {
+  return {
+    id,
+    timestamp: Date.parse(iso) * 1000,
+    event_message: message,
+    level,
+    function_id: 'fn-1',
+    execution_id: 'exec-1',
+  };
+}
+
+function step(id: string, iso: string, name: string, status: ActivityLogEntry['status']): ActivityLogEntry {
+  return {
+    id,
+    task_id: TASK_ID,
+    user_id: 'user-1',
+    agent: 'jac-code-agent',
+    step: name,
+    status,
+    detail: {},
+    duration_ms: null,
+    created_at: iso,
+  };
+}
+
+describe('isErrorLine', () => {
+  it('uses the level or error wording in the message', () => {
+    expect(isErrorLine(line('a', '2026-03-10T12:00:00Z', 'boot', 'error'))).toBe(true);
+    expect(isErrorLine(line('b', '2026-03-10T12:00:00Z', '[code-agent] Error: GitHub 502'))).toBe(true);
+    expect(isErrorLine(line('c', '2026-03-10T12:00:00Z', 'errors: 0 of 3 checks'))).toBe(false);
+  });
+});
+
+describe('buildLogTimeline', () => {
+  // function-logs returns newest first
+  const lines = [
+    line('3', '2026-03-10T12:00:05Z', `[code-agent] Task ${TASK_ID} failed: GitHub 502`, 'error'),
+    line('2', '2026-03-10T12:00:02Z', '[code-agent] Fetching tree'),
+    line('1', '2026-03-10T12:00:00Z', '[code-agent] Starting'),
+  ];
+  const steps = [
+    step('s2', '2026-03-10T12:00:05Z', 'create_branch', 'failed'),
+    step('s1', '2026-03-10T12:00:01Z', 'task_started', 'completed'),
+  ];
+  const timeline = buildLogTimeline(lines, steps, TASK_ID);
+
+  it('interleaves steps and lines oldest first', () => {
+    expect(timeline.map((item) => item.id)).toEqual(['log-1', 'step-s1', 'log-2', 'step-s2', 'log-3']);
+  });
+
+  it('flags errors and lines that name the task', () => {
+    expect(timeline.filter((item) => item.error).map((item) => item.id)).toEqual(['step-s2', 'log-3']);
+    expect(timeline.filter((item) => item.kind === 'log' && item.mentionsTask).map((item) => item.id)).toEqual(['log-3']);
+    expect(firstErrorIndex(timeline)).toBe(3);
+    expect(firstErrorIndex([])).toBe(-1);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Edge function log timeline for BrainInspector's Logs tab.
+ *
+ * function-logs returns console lines (newest first, microsecond
+ * timestamps) and, for a task, its agent_activity_log steps. The explorer
+ * shows both on one clock so a failed step sits next to the lines the
+ * worker printed around it.
+ */
+
+import type { ActivityLogEntry } from '@/types/agent';
+
+export interface FunctionLogLine {
+  id: string;
+  /** Microseconds since the epoch */
+  timestamp: number;
+  event_message: string;
+  level: string | null;
+  function_id: string | null;
+  execution_id: string | null;
+}
+
+export type LogTimelineItem =
+  | { kind: 'log'; id: string; at: number; line: FunctionLogLine; error: boolean; mentionsTask: boolean }
+  | { kind: 'step'; id: string; at: number; step: ActivityLogEntry; error: boolean };
+
+const ERROR_LEVELS = new Set(['error', 'fatal']);
+const ERROR_TEXT_RE = /\b(error|exception|uncaught|unhandled|failed|panic)\b/i;
+
+/** Line time in epoch milliseconds */
+export function logLineTime(line: FunctionLogLine): number {
+  return Math.floor(line.timestamp / 1000);
+}
+
+export function isErrorLine(line: FunctionLogLine): boolean {
+  return ERROR_LEVELS.has((line.level || '').toLowerCase()) || ERROR_TEXT_RE.test(line.event_message);
+}
+
+/** Lines and steps in time order; a step sorts before lines of the same millisecond */
+export function buildLogTimeline(
+  lines: FunctionLogLine[],
+  steps: ActivityLogEntry[] = [],
+  taskId?: string | null
+): LogTimelineItem[] {
+  const items: LogTimelineItem[] = [
+    ...steps.map((step): LogTimelineItem => ({
+      kind: 'step',
+      id: `step-${step.id}`,
+      at: new Date(step.created_at).getTime(),
+      step,
+      error: step.status === 'failed',
+    })),
+    ...lines.map((line): LogTimelineItem => ({
+      kind: 'log',
+      id: `log-${line.id}`,
+      at: logLineTime(line),
+      line,
+      error: isErrorLine(line),
+      mentionsTask: !!taskId && line.event_message.includes(taskId),
+    })),
+  ];
+
+  return items.sort((a, b) => a.at - b.at || (a.kind === b.kind ? 0 : a.kind === 'step' ? -1 : 1));
+}
+
+/** Where a deep link should land: the first error, else the first line */
+export function firstErrorIndex(items: LogTimelineItem[]): number {
+  const index = items.findIndex((item) => item.error);
+  return index === -1 ? (items.length > 0 ? 0 : -1) : index;
+}
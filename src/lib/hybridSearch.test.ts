@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  keywordFilter,
+  matchesTextConstraints,
+  reciprocalRankFusion,
+  scoreKeywordMatch,
+  RECENCY_LIST_WEIGHT,
+  RRF_K,
+  type RankedList,
+} from '../../supabase/functions/_shared/hybridSearch';
+
+// search-memory's ranking core (supabase/functions/_shared/hybridSearch.ts).
+// It has no app-side copy; useSearch, GlobalSearch and jac-search-agent all
+// consume its fused output through search-memory.
+
+/** The filter with every quoted value blanked — what PostgREST parses as syntax */
+const skeleton = (filter: string) => filter.replace(/"(?:[^"\\]|\\.)*"/g, 'V');
+
+interface Doc {
+  id: string;
+  title?: string;
+}
+
+const list = (kind: RankedList<Doc>['kind'], ids: string[], weight?: number): RankedList<Doc> => ({
+  kind,
+  weight,
+  items: ids.map((id) => ({ id })),
+  explain: (_doc, rank) => `${kind} #${rank}`,
+});
+
+describe('reciprocalRankFusion', () => {
+  it('ranks documents found by several retrievers above single hits', () => {
+    const fused = reciprocalRankFusion([
+      list('semantic', ['a', 'b', 'c']),
+      list('keyword', ['b', 'c', 'a']),
+      list('tag', ['c']),
+    ]);
+    expect(fused.map((d) => d.id)).toEqual(['c', 'b', 'a']);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 3) + 1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+  });
+
+  it('keeps a document found by only one retriever, with that one reason', () => {
+    const fused = reciprocalRankFusion([list('semantic', ['a']), list('keyword', ['b'])]);
+    const b = fused.find((d) => d.id === 'b')!;
+    expect(b.score).toBeCloseTo(1 / (RRF_K + 1));
+    expect(b.reasons).toEqual([{ kind: 'keyword', rank: 1, detail: 'keyword #1' }]);
+  });
+
+  it('scores mirrored ranks in two lists as a tie', () => {
+    const fused = reciprocalRankFusion([list('semantic', ['a', 'b']), list('keyword', ['b', 'a'])]);
+    expect(fused[0].score).toBe(fused[1].score);
+    expect(fused.map((d) => d.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('counts the recency list at half weight', () => {
+    const fused = reciprocalRankFusion([
+      list('keyword', ['a', 'b']),
+      list('recency', ['b'], RECENCY_LIST_WEIGHT),
+    ]);
+    const b = fused.find((d) => d.id === 'b')!;
+    expect(RECENCY_LIST_WEIGHT).toBe(0.5);
+    expect(b.score).toBeCloseTo(1 / (RRF_K + 2) + 0.5 / (RRF_K + 1));
+    // Half a first place is still enough to lift b past a
+    expect(fused.map((d) => d.id)).toEqual(['b', 'a']);
+  });
+
+  it('takes row data from the first list and fills missing fields from later ones', () => {
+    const fused = reciprocalRankFusion<Doc>([
+      { kind: 'semantic', items: [{ id: 'a' }], explain: () => 'semantic' },
+      { kind: 'keyword', items: [{ id: 'a', title: 'Tacos' }], explain: () => 'keyword' },
+    ]);
+    expect(fused[0].title).toBe('Tacos');
+    expect(fused[0].reasons.map((r) => r.kind)).toEqual(['semantic', 'keyword']);
+  });
+});
+
+describe('scoreKeywordMatch', () => {
+  it('ranks a title phrase hit above a content phrase hit', () => {
+    const title = scoreKeywordMatch({ title: 'Taco night', content: '' }, 'taco night', ['taco', 'night']);
+    const content = scoreKeywordMatch({ title: null, content: 'We had taco night' }, 'taco night', ['taco', 'night']);
+    expect(title.score).toBe(6 + 4 + 1);
+    expect(title.detail).toBe('title contains "taco night"');
+    expect(content.score).toBe(4 + 2 + 1);
+    expect(content.detail).toBe('exact phrase "taco night"');
+  });
+
+  it('rewards covering more of the query words', () => {
+    const both = scoreKeywordMatch({ title: null, content: 'night of tacos' }, 'taco night', ['taco', 'night']);
+    const one = scoreKeywordMatch({ title: null, content: 'late night' }, 'taco night', ['taco', 'night']);
+    expect(both.score).toBe(3);
+    expect(both.detail).toBe('keywords: taco, night');
+    expect(one.score).toBe(1.5);
+    expect(one.detail).toBe('keyword: night');
+  });
+
+  it('falls back to a generic detail with no local hit', () => {
+    expect(scoreKeywordMatch({ title: null, content: 'unrelated' }, 'tacos', ['tacos'])).toEqual({
+      score: 0,
+      detail: 'keyword match',
+    });
+  });
+});
+
+describe('matchesTextConstraints', () => {
+  const entry = { title: 'Q3 plan', content: 'Budget review, draft (v2)' };
+
+  it('requires every phrase in the title or content, case-insensitively', () => {
+    expect(matchesTextConstraints(entry, ['q3 PLAN', 'draft (v2)'], [])).toBe(true);
+    expect(matchesTextConstraints(entry, ['q3 plan', 'final'], [])).toBe(false);
+  });
+
+  it('drops entries containing an excluded term', () => {
+    expect(matchesTextConstraints(entry, [], ['BUDGET'])).toBe(false);
+    expect(matchesTextConstraints(entry, [], ['invoice'])).toBe(true);
+  });
+
+  it('does not match a phrase across the title/content boundary', () => {
+    expect(matchesTextConstraints(entry, ['plan budget'], [])).toBe(false);
+  });
+});
+
+describe('keywordFilter', () => {
+  it('matches free text in content or title', () => {
+    expect(keywordFilter('tacos', [], [])).toBe('content.ilike."%tacos%",title.ilike."%tacos%"');
+  });
+
+  it('requires the free text and each phrase separately', () => {
+    expect(skeleton(keywordFilter('budget', ['q3 plan'], [])!)).toBe(
+      'and(or(content.ilike.V,title.ilike.V),or(content.ilike.V,title.ilike.V))'
+    );
+  });
+
+  it('adds smart-mode words to the free-text group', () => {
+    expect(skeleton(keywordFilter('weekly budget', [], ['weekly', 'budget'])!)).toBe(
+      'content.ilike.V,title.ilike.V,content.ilike.V,title.ilike.V,content.ilike.V,title.ilike.V'
+    );
+  });
+
+  it('keeps commas and parentheses in a phrase inside the quoted value', () => {
+    const filter = keywordFilter('', ['q3, plan', 'fix (urgent)'], [])!;
+    expect(skeleton(filter)).toBe('and(or(content.ilike.V,title.ilike.V),or(content.ilike.V,title.ilike.V))');
+    expect(filter).toContain('content.ilike."%q3, plan%"');
+    expect(filter).toContain('title.ilike."%fix (urgent)%"');
+  });
+
+  it('escapes quotes, backslashes and LIKE wildcards', () => {
+    expect(keywordFilter('', ['say "hi"'], [])).toBe('content.ilike."%say \\"hi\\"%",title.ilike."%say \\"hi\\"%"');
+    expect(keywordFilter('50%_off', [], [])).toBe('content.ilike."%50\\\\%\\\\_off%",title.ilike."%50\\\\%\\\\_off%"');
+    expect(keywordFilter('a\\b', [], [])).toBe('content.ilike."%a\\\\\\\\b%",title.ilike."%a\\\\\\\\b%"');
+  });
+
+  it('returns null with nothing to match', () => {
+    expect(keywordFilter('', [], [])).toBeNull();
+  });
+});
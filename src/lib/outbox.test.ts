@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  nextRetryDelay,
+  readyOps,
+  mergeIntoQueue,
+  reconcileListToggle,
+  overlayPendingOps,
+  describeOp,
+  type OutboxOp,
+  type OutboxUpdateOp,
+  type OutboxDeleteOp,
+  type OutboxCreateOp,
+} from './outbox';
+
+const base = {
+  userId: 'user-1',
+  attempts: 0,
+  nextAttemptAt: 0,
+  status: 'pending' as const,
+  lastError: null,
+};
+
+function update(id: string, entryId: string, patch: OutboxUpdateOp['patch'], extra: Partial<OutboxUpdateOp> = {}): OutboxUpdateOp {
+  return { ...base, id, createdAt: 1, kind: 'update', entryId, patch, ...extra };
+}
+
+function del(id: string, entryId: string, extra: Partial<OutboxDeleteOp> = {}): OutboxDeleteOp {
+  return { ...base, id, createdAt: 1, kind: 'delete', entryId, ...extra };
+}
+
+function create(id: string, content: string, extra: Partial<OutboxCreateOp> = {}): OutboxCreateOp {
+  return {
+    ...base, id, createdAt: 1, kind: 'create', entryId: null,
+    content, source: 'manual', imageUrl: null, file: null, fileName: null, ...extra,
+  };
+}
+
+describe('nextRetryDelay', () => {
+  it('doubles from 5 seconds', () => {
+    expect(nextRetryDelay(1)).toBe(5000);
+    expect(nextRetryDelay(2)).toBe(10000);
+    expect(nextRetryDelay(4)).toBe(40000);
+  });
+
+  it('caps at 30 minutes', () => {
+    expect(nextRetryDelay(20)).toBe(30 * 60 * 1000);
+  });
+});
+
+describe('readyOps', () => {
+  it('returns pending ops whose backoff has elapsed', () => {
+    const ops: OutboxOp[] = [
+      create('a', 'one'),
+      create('b', 'two', { nextAttemptAt: 500 }),
+      create('c', 'three', { status: 'dead' }),
+    ];
+    expect(readyOps(ops, 100).map((o) => o.id)).toEqual(['a']);
+  });
+
+  it('holds later ops for an entry behind one that is backing off or dead', () => {
+    const ops: OutboxOp[] = [
+      update('a', 'e1', { starred: true }, { nextAttemptAt: 500 }),
+      del('b', 'e1'),
+      update('c', 'e2', { starred: true }, { status: 'dead' }),
+      update('d', 'e2', { archived: true }),
+      update('e', 'e3', { starred: false }),
+    ];
+    expect(readyOps(ops, 100).map((o) => o.id)).toEqual(['e']);
+  });
+});
+
+describe('mergeIntoQueue', () => {
+  it('folds a flag update into the pending one for the same entry', () => {
+    const existing = [update('a', 'e1', { starred: true })];
+    const { put, remove } = mergeIntoQueue(existing, update('b', 'e1', { archived: true }));
+    expect(remove).toEqual([]);
+    expect(put).toHaveLength(1);
+    expect(put[0].id).toBe('a');
+    expect((put[0] as OutboxUpdateOp).patch).toEqual({ starred: true, archived: true });
+  });
+
+  it('does not fold into an op that has already been attempted', () => {
+    const existing = [update('a', 'e1', { starred: true }, { attempts: 1 })];
+    const { put } = mergeIntoQueue(existing, update('b', 'e1', { starred: false }));
+    expect(put.map((o) => o.id)).toEqual(['b']);
+  });
+
+  it('keeps list toggles as separate ops', () => {
+    const existing = [update('a', 'e1', {}, { listToggle: { index: 0, text: 'Milk', checked: true } })];
+    const op = update('b', 'e1', {}, { listToggle: { index: 1, text: 'Eggs', checked: true } });
+    expect(mergeIntoQueue(existing, op)).toEqual({ put: [op], remove: [] });
+  });
+
+  it('drops pending updates when the entry is deleted', () => {
+    const existing = [update('a', 'e1', { starred: true }), update('b', 'e2', { starred: true })];
+    const op = del('c', 'e1');
+    expect(mergeIntoQueue(existing, op)).toEqual({ put: [op], remove: ['a'] });
+  });
+});
+
+describe('reconcileListToggle', () => {
+  const items = [
+    { text: 'Milk', checked: false },
+    { text: 'Eggs', checked: false },
+  ];
+
+  it('applies the toggle at the original position', () => {
+    const result = reconcileListToggle(items, { index: 1, text: 'Eggs', checked: true });
+    expect(result.status).toBe('apply');
+    if (result.status === 'apply') expect(result.items[1].checked).toBe(true);
+  });
+
+  it('finds the item by text when it moved', () => {
+    const moved = [{ text: 'Bread', checked: false }, ...items];
+    const result = reconcileListToggle(moved, { index: 1, text: 'Eggs', checked: true });
+    expect(result.status).toBe('apply');
+    if (result.status === 'apply') {
+      expect(result.items[2].checked).toBe(true);
+      expect(result.items[1].checked).toBe(false);
+    }
+  });
+
+  it('is a no-op when the server already has that state', () => {
+    const checked = [{ ...items[0], checked: true }];
+    expect(reconcileListToggle(checked, { index: 0, text: 'Milk', checked: true })).toEqual({ status: 'noop' });
+  });
+
+  it('reports a conflict when the item was removed or reworded', () => {
+    expect(reconcileListToggle(items, { index: 0, text: 'Oat milk', checked: true })).toEqual({ status: 'conflict' });
+  });
+});
+
+describe('overlayPendingOps', () => {
+  const entries = [
+    { id: 'e1', starred: false, archived: false, list_items: [{ text: 'Milk', checked: false }] },
+    { id: 'e2', starred: false, archived: false, list_items: [] },
+    { id: 'e3', starred: false, archived: false, list_items: [] },
+  ];
+
+  it('returns entries unchanged with nothing pending', () => {
+    expect(overlayPendingOps(entries, [])).toBe(entries);
+  });
+
+  it('applies pending flags and list toggles, and hides deleted entries', () => {
+    const ops: OutboxOp[] = [
+      update('a', 'e1', { starred: true }),
+      update('b', 'e1', {}, { listToggle: { index: 0, text: 'Milk', checked: true } }),
+      del('c', 'e2'),
+    ];
+    const result = overlayPendingOps(entries, ops);
+    expect(result.map((e) => e.id)).toEqual(['e1', 'e3']);
+    expect(result[0].starred).toBe(true);
+    expect(result[0].list_items[0].checked).toBe(true);
+  });
+
+  it('hides entries archived offline unless archived entries are shown', () => {
+    const ops = [update('a', 'e3', { archived: true })];
+    expect(overlayPendingOps(entries, ops).map((e) => e.id)).toEqual(['e1', 'e2']);
+    const kept = overlayPendingOps(entries, ops, { keepArchived: true });
+    expect(kept.find((e) => e.id === 'e3')?.archived).toBe(true);
+  });
+
+  it('ignores dead-lettered ops', () => {
+    const ops = [del('a', 'e1', { status: 'dead' })];
+    expect(overlayPendingOps(entries, ops).map((e) => e.id)).toEqual(['e1', 'e2', 'e3']);
+  });
+});
+
+describe('describeOp', () => {
+  it('labels each kind of op', () => {
+    expect(describeOp(create('a', 'Buy milk'))).toBe('Save "Buy milk"');
+    expect(describeOp(create('a', '', { fileName: 'scan.pdf' }))).toBe('Upload scan.pdf');
+    expect(describeOp(del('a', 'e1'))).toBe('Delete entry');
+    expect(describeOp(update('a', 'e1', { archived: true }))).toBe('Archive entry');
+    expect(describeOp(update('a', 'e1', { starred: false }))).toBe('Unstar entry');
+    expect(describeOp(update('a', 'e1', {}, { listToggle: { index: 0, text: 'Milk', checked: true } }))).toBe('Check "Milk"');
+  });
+
+  it('truncates long content', () => {
+    expect(describeOp(create('a', 'x'.repeat(60)))).toBe(`Save "${'x'.repeat(40)}…"`);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Offline outbox — durable queue of writes made while the network is down.
+ *
+ * Ops live in IndexedDB (so they survive reloads and can carry file blobs)
+ * and are replayed in order by useOfflineQueue. Each op is retried with
+ * exponential backoff; ops that fail permanently or run out of attempts
+ * move to a dead-letter state the user can retry or discard from the
+ * OfflineBanner.
+ *
+ * The pure helpers at the bottom (backoff schedule, op merging, list toggle
+ * reconciliation, optimistic overlay) carry the queue's rules and are tested
+ * without IndexedDB.
+ */
+
+import type { ListItem } from "@/types";
+
+const DB_NAME = "linkjac-outbox";
+const DB_VERSION = 1;
+const STORE = "ops";
+const CHANGE_EVENT = "linkjac-outbox-change";
+const SYNCED_EVENT = "linkjac-outbox-synced";
+
+/** Attempts before an op is moved to the dead-letter list */
+export const OUTBOX_MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export type OutboxStatus = "pending" | "dead";
+
+interface OutboxOpBase {
+  id: string;
+  userId: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+  lastError: string | null;
+  /** Set when the user retries a dead-lettered op: skip the "changed elsewhere" check */
+  force?: boolean;
+}
+
+/** A brain dump saved offline — runs through smart-save when replayed */
+export interface OutboxCreateOp extends OutboxOpBase {
+  kind: "create";
+  entryId: null;
+  content: string;
+  source: string;
+  /** Storage path once the attachment is uploaded */
+  imageUrl: string | null;
+  /** Attachment still waiting to be uploaded */
+  file: Blob | null;
+  fileName: string | null;
+}
+
+export interface OutboxUpdateOp extends OutboxOpBase {
+  kind: "update";
+  entryId: string;
+  patch: { starred?: boolean; archived?: boolean };
+  /** A single checklist toggle — replayed against the server's current list */
+  listToggle?: { index: number; text: string; checked: boolean };
+}
+
+export interface OutboxDeleteOp extends OutboxOpBase {
+  kind: "delete";
+  entryId: string;
+}
+
+export type OutboxOp = OutboxCreateOp | OutboxUpdateOp | OutboxDeleteOp;
+
+type NewOp<T extends OutboxOp> = Omit<T, keyof OutboxOpBase> & { userId: string };
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB unavailable"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("userId", "userId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function notifyChange(): void {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** Subscribe to outbox writes (any hook instance in this tab) */
+export function subscribeOutbox(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+/** Fired after a flush wrote something — views refetch to pick up server-side changes too */
+export function notifyOutboxSynced(): void {
+  window.dispatchEvent(new Event(SYNCED_EVENT));
+}
+
+export function subscribeOutboxSynced(listener: () => void): () => void {
+  window.addEventListener(SYNCED_EVENT, listener);
+  return () => window.removeEventListener(SYNCED_EVENT, listener);
+}
+
+/** All ops for a user, oldest first. Resolves [] when IndexedDB is unavailable. */
+export async function listOps(userId: string): Promise<OutboxOp[]> {
+  try {
+    const ops = await withStore<OutboxOp[]>("readonly", (store) => store.index("userId").getAll(userId));
+    return (ops ?? []).sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) {
+    console.warn("[Outbox] Failed to read ops:", e);
+    return [];
+  }
+}
+
+export async function putOp(op: OutboxOp): Promise<void> {
+  await withStore("readwrite", (store) => store.put(op));
+  notifyChange();
+}
+
+export async function removeOp(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
+
+/** Queue a write. Folds into an already-queued op where that's equivalent. */
+export async function enqueueOp<T extends OutboxOp>(input: NewOp<T>): Promise<void> {
+  const now = Date.now();
+  const op = {
+    ...input,
+    id: `op-${now}-${Math.random().toString(36).slice(2)}`,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    status: "pending",
+    lastError: null,
+  } as OutboxOp;
+
+  const existing = await listOps(op.userId);
+  const { put, remove } = mergeIntoQueue(existing, op);
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const id of remove) store.delete(id);
+    for (const p of put) store.put(p);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  notifyChange();
+}
+
+// --- Queue rules ---
+
+/** Delay before the next attempt after `attempts` failures: 5s, 10s, 20s ... capped at 30 min */
+export function nextRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_MS);
+}
+
+/**
+ * Ops that may run now. Ops for the same entry run strictly in order, so a
+ * later op waits behind an earlier one that is backing off or dead.
+ */
+export function readyOps(ops: OutboxOp[], now: number): OutboxOp[] {
+  const blocked = new Set<string>();
+  const ready: OutboxOp[] = [];
+  for (const op of ops) {
+    const key = op.entryId;
+    if (key && blocked.has(key)) continue;
+    if (op.status === "pending" && op.nextAttemptAt <= now) {
+      ready.push(op);
+    } else if (key) {
+      blocked.add(key);
+    }
+  }
+  return ready;
+}
+
+/**
+ * Fold a new op into the queue:
+ * - a star/archive update merges into the latest pending flag update for that entry
+ * - a delete drops pending updates for that entry (they'd be overwritten anyway)
+ */
+export function mergeIntoQueue(existing: OutboxOp[], op: OutboxOp): { put: OutboxOp[]; remove: string[] } {
+  const pendingForEntry = existing.filter(
+    (o): o is OutboxUpdateOp => o.status === "pending" && o.kind === "update" && o.entryId === op.entryId
+  );
+
+  if (op.kind === "delete") {
+    return { put: [op], remove: pendingForEntry.map((o) => o.id) };
+  }
+
+  if (op.kind === "update" && !op.listToggle) {
+    const target = [...pendingForEntry].reverse().find((o) => !o.listToggle && o.attempts === 0);
+    if (target) {
+      return { put: [{ ...target, patch: { ...target.patch, ...op.patch } }], remove: [] };
+    }
+  }
+
+  return { put: [op], remove: [] };
+}
+
+export type ListToggleResult =
+  | { status: "apply"; items: ListItem[] }
+  | { status: "noop" }
+  | { status: "conflict" };
+
+/**
+ * Replay a checklist toggle against the server's current list. The item is
+ * matched by position and text, then by text alone (items may have moved);
+ * if it's gone or was reworded elsewhere, that's a conflict.
+ */
+export function reconcileListToggle(
+  serverItems: ListItem[],
+  toggle: { index: number; text: string; checked: boolean }
+): ListToggleResult {
+  let index = serverItems[toggle.index]?.text === toggle.text ? toggle.index : -1;
+  if (index === -1) index = serverItems.findIndex((item) => item.text === toggle.text);
+  if (index === -1) return { status: "conflict" };
+  if (serverItems[index].checked === toggle.checked) return { status: "noop" };
+
+  const items = [...serverItems];
+  items[index] = { ...items[index], checked: toggle.checked };
+  return { status: "apply", items };
+}
+
+interface OverlayEntry {
+  id: string;
+  starred: boolean;
+  archived: boolean;
+  list_items: ListItem[];
+}
+
+/**
+ * Re-apply pending ops on top of freshly fetched entries so offline edits
+ * don't flicker back while they wait to sync. Deleted/archived entries drop out
+ * unless `keepArchived` is set.
+ */
+export function overlayPendingOps<T extends OverlayEntry>(
+  entries: T[],
+  ops: OutboxOp[],
+  { keepArchived = false }: { keepArchived?: boolean } = {}
+): T[] {
+  const pending = ops.filter((op) => op.status === "pending");
+  if (pending.length === 0) return entries;
+
+  const deleted = new Set(pending.filter((op) => op.kind === "delete").map((op) => op.entryId));
+  const result: T[] = [];
+
+  for (const entry of entries) {
+    if (deleted.has(entry.id)) continue;
+    let next = entry;
+    for (const op of pending) {
+      if (op.kind !== "update" || op.entryId !== entry.id) continue;
+      next = { ...next, ...op.patch };
+      if (op.listToggle) {
+        const merged = reconcileListToggle(next.list_items, op.listToggle);
+        if (merged.status === "apply") next = { ...next, list_items: merged.items };
+      }
+    }
+    if (next.archived && !entry.archived && !keepArchived) continue;
+    result.push(next);
+  }
+  return result;
+}
+
+/** Short label for the dead-letter list */
+export function describeOp(op: OutboxOp): string {
+  switch (op.kind) {
+    case "create": {
+      const text = op.content.trim();
+      if (text) return `Save "${text.length > 40 ? `${text.slice(0, 40)}…` : text}"`;
+      return op.fileName ? `Upload ${op.fileName}` : "Save entry";
+    }
+    case "delete":
+      return "Delete entry";
+    case "update":
+      if (op.listToggle) return `${op.listToggle.checked ? "Check" : "Uncheck"} "${op.listToggle.text}"`;
+      if (op.patch.archived !== undefined) return op.patch.archived ? "Archive entry" : "Unarchive entry";
+      return op.patch.starred ? "Star entry" : "Unstar entry";
+  }
+}
@@ -8,6 +8,15 @@ export interface RetryOptions {
   showToast?: boolean;
 }
 
+/** Auth/validation/rate-limit failures — retrying the same request won't help */
+export function isClientError(msg: string): boolean {
+  return msg.includes('401') || msg.includes('403') ||
+    msg.includes('Unauthorized') || msg.includes('Invalid or expired token') ||
+    msg.includes('Not authenticated') || msg.includes('400') ||
+    msg.includes('Rate limit') || msg.includes('429') ||
+    msg.includes('Content too long') || msg.includes('too large');
+}
+
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
@@ -34,13 +43,7 @@ export async function retryWithBackoff<T>(
       lastError = error instanceof Error ? error : new Error(String(error));
 
       // Don't retry on auth or client errors — only retry on network/server issues
-      const msg = lastError.message;
-      const isClientError = msg.includes('401') || msg.includes('403') ||
-        msg.includes('Unauthorized') || msg.includes('Invalid or expired token') ||
-        msg.includes('Not authenticated') || msg.includes('400') ||
-        msg.includes('Rate limit') || msg.includes('429') ||
-        msg.includes('Content too long') || msg.includes('too large');
-      if (isClientError) {
+      if (isClientError(lastError.message)) {
         if (toastId) toast.dismiss(toastId);
         throw lastError;
       }
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeEntryRecurrence,
+  describeRRule,
+  entryOccurrences,
+  entryRRule,
+  expandRRule,
+  nextOccurrence,
+  parseRRule,
+  patternFromRRule,
+  serializeRRule,
+} from './rrule';
+import * as edge from '../../supabase/functions/_shared/rrule';
+
+describe('parseRRule', () => {
+  it('round-trips supported rules and rejects the rest', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20260630T235959Z');
+    expect(rule).toEqual({ freq: 'MONTHLY', interval: 1, byDay: [{ weekday: 'FR', n: -1 }], until: '2026-06-30' });
+    expect(serializeRRule(rule!)).toBe('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20260630');
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20260101')).toBeNull();
+  });
+});
+
+describe('expandRRule', () => {
+  it('expands every other Thursday until a date, starting from the first match', () => {
+    // 2026-03-15 is a Sunday
+    const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH;UNTIL=20260430')!;
+    expect(expandRRule(rule, '2026-03-15', { from: '2026-01-01', to: '2026-12-31' }))
+      .toEqual(['2026-03-19', '2026-04-02', '2026-04-16', '2026-04-30']);
+  });
+
+  it('handles last weekday of the month, weekdays only and COUNT with exdates', () => {
+    const lastFriday = parseRRule('FREQ=MONTHLY;BYDAY=-1FR')!;
+    expect(expandRRule(lastFriday, '2026-01-01', { from: '2026-01-01', to: '2026-03-31' }))
+      .toEqual(['2026-01-30', '2026-02-27', '2026-03-27']);
+
+    const lastWorkday = parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')!;
+    expect(expandRRule(lastWorkday, '2026-05-01', { from: '2026-05-01', to: '2026-05-31' })).toEqual(['2026-05-29']);
+
+    const weekdays = parseRRule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;COUNT=4')!;
+    expect(expandRRule(weekdays, '2026-03-19', { from: '2026-03-01', to: '2026-12-31', exdates: ['2026-03-20'] }))
+      .toEqual(['2026-03-19', '2026-03-23', '2026-03-24']);
+  });
+
+  it('skips months without the start day', () => {
+    const rule = parseRRule('FREQ=MONTHLY')!;
+    expect(expandRRule(rule, '2026-01-31', { from: '2026-01-01', to: '2026-05-31' }))
+      .toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+  });
+});
+
+describe('entry recurrence', () => {
+  it('falls back to recurrence_pattern and finds the next occurrence', () => {
+    const legacy = { event_date: '2026-01-10', is_recurring: true, recurrence_pattern: 'yearly' };
+    expect(nextOccurrence(legacy, '2026-03-18')).toBe('2027-01-10');
+    expect(entryOccurrences({ event_date: '2026-03-20' }, '2026-03-01', '2026-03-31')).toEqual(['2026-03-20']);
+  });
+
+  it('describes rules in plain words', () => {
+    expect(describeRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH;UNTIL=20260630')!))
+      .toBe('Every 2 weeks on Thu until Jun 30, 2026');
+    expect(describeRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')!)).toBe('Weekdays');
+    expect(describeRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=6')!)).toBe('Monthly on the last Fri, 6 times');
+  });
+});
+
+// Reminders, the ICS feed and classify-content expand with the edge copy;
+// every occurrence they see must match the calendar's
+describe('edge function rrule parity', () => {
+  const rules = [
+    'FREQ=DAILY',
+    'FREQ=DAILY;INTERVAL=3;COUNT=10',
+    'FREQ=WEEKLY;INTERVAL=2;BYDAY=TH;UNTIL=20260430',
+    'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;COUNT=4',
+    'FREQ=WEEKLY;BYDAY=SA,SU',
+    'FREQ=MONTHLY',
+    'FREQ=MONTHLY;BYMONTHDAY=31',
+    'FREQ=MONTHLY;BYMONTHDAY=-1',
+    'FREQ=MONTHLY;BYDAY=-1FR',
+    'FREQ=MONTHLY;BYDAY=2TH;INTERVAL=3',
+    'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+    'FREQ=YEARLY',
+    'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH',
+    'RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20260630T235959Z',
+    'FREQ=HOURLY',
+    'FREQ=DAILY;COUNT=3;UNTIL=20260101',
+    'not a rule',
+  ];
+  const starts = ['2026-01-31', '2026-02-29', '2026-03-15', '2028-02-29'];
+
+  it.each(rules)('parses, describes and expands %j identically', (value) => {
+    const rule = parseRRule(value);
+    expect(edge.parseRRule(value)).toEqual(rule);
+    if (!rule) return;
+    expect(edge.serializeRRule(rule)).toBe(serializeRRule(rule));
+    expect(edge.describeRRule(rule)).toBe(describeRRule(rule));
+    expect(edge.patternFromRRule(rule)).toBe(patternFromRRule(rule));
+    for (const start of starts) {
+      const range = { from: '2026-01-01', to: '2028-12-31', exdates: ['2026-04-02', '2026-05-29'], limit: 200 };
+      expect(edge.expandRRule(rule, start, range)).toEqual(expandRRule(rule, start, range));
+    }
+  });
+
+  it('agrees on entries, legacy patterns and exdates', () => {
+    const entries = [
+      { event_date: '2026-03-15', rrule: 'FREQ=WEEKLY;BYDAY=TH', exdates: ['2026-03-26'] },
+      { event_date: '2026-01-31', is_recurring: true, recurrence_pattern: 'monthly' },
+      { event_date: '2026-03-01', is_recurring: true, recurrence_pattern: 'weekly', rrule: null },
+      { event_date: '2026-03-01', rrule: 'FREQ=DAILY;COUNT=5', exdates: ['2026-03-03'] },
+      { event_date: '2026-03-01' },
+      { event_date: null, rrule: 'FREQ=DAILY' },
+    ];
+    for (const entry of entries) {
+      expect(edge.entryRRule(entry)).toEqual(entryRRule(entry));
+      expect(edge.describeEntryRecurrence(entry)).toBe(describeEntryRecurrence(entry));
+      expect(edge.entryOccurrences(entry, '2026-03-01', '2026-06-30', 50))
+        .toEqual(entryOccurrences(entry, '2026-03-01', '2026-06-30', 50));
+      for (const date of ['2026-02-01', '2026-03-04', '2026-12-31']) {
+        expect(edge.nextOccurrence(entry, date)).toBe(nextOccurrence(entry, date));
+      }
+    }
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * RFC 5545 recurrence rules for events and reminders.
+ *
+ * entries.rrule holds an RRULE value ("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU")
+ * anchored at the entry's event_date; entries.exdates lists occurrence dates
+ * to skip. Rules are date-level: every occurrence keeps the entry's
+ * event_time.
+ *
+ * Supported: FREQ DAILY/WEEKLY/MONTHLY/YEARLY, INTERVAL, COUNT, UNTIL,
+ * BYDAY (with ordinals like 2TH or -1FR), BYMONTHDAY (negative counts from
+ * the month's end), BYMONTH and BYSETPOS. Unlike RFC 5545, event_date only
+ * counts as an occurrence when it matches the rule — "every other Thursday"
+ * saved on a Sunday starts on the next Thursday.
+ *
+ * The same rules are implemented in supabase/functions/_shared/rrule.ts for
+ * reminder delivery, the ICS feed and classify-content — change both together
+ * (rrule.test.ts runs the same rules through both).
+ */
+
+import type { RecurrencePattern } from '@/types';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface ByDay {
+  weekday: Weekday;
+  /** 2 = second, -1 = last; only meaningful for MONTHLY and YEARLY */
+  n?: number;
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  /** Last possible occurrence date, YYYY-MM-DD (inclusive) */
+  until?: string;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+}
+
+/** The recurrence fields of an entry */
+export interface RecurringFields {
+  event_date?: string | null;
+  is_recurring?: boolean | null;
+  recurrence_pattern?: string | null;
+  rrule?: string | null;
+  exdates?: string[] | null;
+}
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const FREQ_UNITS: Record<Frequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+const FREQ_ADVERBS: Record<Frequency, string> = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' };
+
+/** Stop expanding after this many periods, whatever the rule says */
+const MAX_PERIODS = 50000;
+
+// --- Day numbers (days since 1970-01-01, UTC) ---
+
+function toDay(date: string): number {
+  const [y, m, d] = date.split('-').map(Number);
+  return Math.floor(Date.UTC(y, m - 1, d) / 86400000);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * 86400000).toISOString().slice(0, 10);
+}
+
+function ymd(day: number): { y: number; m: number; d: number } {
+  const dt = new Date(day * 86400000);
+  return { y: dt.getUTCFullYear(), m: dt.getUTCMonth() + 1, d: dt.getUTCDate() };
+}
+
+function dayOf(y: number, m: number, d: number): number {
+  return Math.floor(Date.UTC(y, m - 1, d) / 86400000);
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+/** 0 = Monday … 6 = Sunday */
+function weekdayIndex(day: number): number {
+  return (day + 3) % 7;
+}
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n === -2) return 'second-to-last';
+  const words = ['', 'first', 'second', 'third', 'fourth', 'fifth'];
+  return words[n] ?? `${n}th`;
+}
+
+// --- Parse / serialize ---
+
+function parseIntList(value: string, min: number, max: number, allowNegative: boolean): number[] | null {
+  const nums = value.split(',').map((v) => parseInt(v, 10));
+  const valid = nums.every((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max && (allowNegative || n > 0));
+  return valid ? nums : null;
+}
+
+function parseUntil(value: string): string | null {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * RRULE value (optionally prefixed "RRULE:") → rule. Null when the rule is
+ * malformed or uses something unsupported (HOURLY, BYWEEKNO, …).
+ */
+export function parseRRule(value: string | null | undefined): RRule | null {
+  if (!value) return null;
+  const text = value.trim().replace(/^RRULE:/i, '');
+  const rule: Partial<RRule> = { interval: 1 };
+
+  for (const part of text.split(';')) {
+    if (!part) continue;
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const val = rawValue?.trim().toUpperCase();
+    if (!key || !val) return null;
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(val)) return null;
+        rule.freq = val as Frequency;
+        break;
+      case 'INTERVAL': {
+        const n = parseInt(val, 10);
+        if (!Number.isInteger(n) || n < 1 || n > 1000) return null;
+        rule.interval = n;
+        break;
+      }
+      case 'COUNT': {
+        const n = parseInt(val, 10);
+        if (!Number.isInteger(n) || n < 1) return null;
+        rule.count = n;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(val);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const days: ByDay[] = [];
+        for (const item of val.split(',')) {
+          const match = item.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+          if (!match) return null;
+          const n = match[1] ? parseInt(match[1], 10) : undefined;
+          if (n !== undefined && (n === 0 || Math.abs(n) > 53)) return null;
+          days.push(n === undefined ? { weekday: match[2] as Weekday } : { weekday: match[2] as Weekday, n });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseIntList(val, 1, 31, true);
+        if (!days) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntList(val, 1, 12, false);
+        if (!months) return null;
+        rule.byMonth = months;
+        break;
+      }
+      case 'BYSETPOS': {
+        const positions = parseIntList(val, 1, 366, true);
+        if (!positions) return null;
+        rule.bySetPos = positions;
+        break;
+      }
+      case 'WKST':
+        // Weeks always start on Monday here
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!rule.freq || (rule.count !== undefined && rule.until !== undefined)) return null;
+  return rule as RRule;
+}
+
+export function serializeRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((d) => `${d.n ?? ''}${d.weekday}`).join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/** The simple pattern stored in recurrence_pattern for a rule */
+export function patternFromRRule(rule: RRule): RecurrencePattern {
+  return rule.freq.toLowerCase() as RecurrencePattern;
+}
+
+/**
+ * The rule of an entry: its rrule, else one built from recurrence_pattern
+ * (entries saved before rrule existed). Null for one-off entries.
+ */
+export function entryRRule(entry: RecurringFields): RRule | null {
+  if (entry.rrule) return parseRRule(entry.rrule);
+  if (!entry.is_recurring || !entry.recurrence_pattern) return null;
+  return parseRRule(`FREQ=${entry.recurrence_pattern}`);
+}
+
+// --- Expansion ---
+
+function applySetPos(days: number[], positions?: number[]): number[] {
+  if (!positions?.length) return days;
+  const picked = positions
+    .map((p) => (p > 0 ? days[p - 1] : days[days.length + p]))
+    .filter((d): d is number => d !== undefined);
+  return [...new Set(picked)].sort((a, b) => a - b);
+}
+
+/** Days of one month matching BYMONTHDAY/BYDAY, or `fallbackDay` when there's neither */
+function monthDays(y: number, m: number, rule: RRule, fallbackDay: number): number[] {
+  const dim = daysInMonth(y, m);
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay
+      .map((md) => (md > 0 ? md : dim + md + 1))
+      .filter((md) => md >= 1 && md <= dim)
+      .map((md) => dayOf(y, m, md));
+  }
+
+  if (rule.byDay?.length) {
+    const first = dayOf(y, m, 1);
+    const matching = new Set<number>();
+    for (const { weekday, n } of rule.byDay) {
+      const target = WEEKDAYS.indexOf(weekday);
+      const all: number[] = [];
+      for (let d = first; d < first + dim; d++) {
+        if (weekdayIndex(d) === target) all.push(d);
+      }
+      if (n === undefined) all.forEach((d) => matching.add(d));
+      else {
+        const pick = n > 0 ? all[n - 1] : all[all.length + n];
+        if (pick !== undefined) matching.add(pick);
+      }
+    }
+    days = days ? days.filter((d) => matching.has(d)) : [...matching];
+  }
+
+  if (!days) {
+    // A month without the start's day (the 31st, Feb 29) is skipped
+    days = fallbackDay <= dim ? [dayOf(y, m, fallbackDay)] : [];
+  }
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/** Candidate days of period `k` (the k-th interval after the start's period) */
+function periodDays(rule: RRule, start: number, k: number): number[] {
+  const s = ymd(start);
+  const step = k * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = start + step;
+      const { y, m, d } = ymd(day);
+      if (rule.byMonth && !rule.byMonth.includes(m)) return [];
+      if (rule.byMonthDay && !rule.byMonthDay.some((md) => (md > 0 ? md : daysInMonth(y, m) + md + 1) === d)) return [];
+      if (rule.byDay && !rule.byDay.some((b) => WEEKDAYS.indexOf(b.weekday) === weekdayIndex(day))) return [];
+      return [day];
+    }
+    case 'WEEKLY': {
+      const weekStart = start - weekdayIndex(start) + step * 7;
+      const targets = rule.byDay?.length ? rule.byDay.map((b) => WEEKDAYS.indexOf(b.weekday)) : [weekdayIndex(start)];
+      const days = [...new Set(targets)].sort((a, b) => a - b).map((t) => weekStart + t)
+        .filter((d) => !rule.byMonth || rule.byMonth.includes(ymd(d).m));
+      return applySetPos(days, rule.bySetPos);
+    }
+    case 'MONTHLY': {
+      const total = s.m - 1 + step;
+      const y = s.y + Math.floor(total / 12);
+      const m = (total % 12) + 1;
+      if (rule.byMonth && !rule.byMonth.includes(m)) return [];
+      return applySetPos(monthDays(y, m, rule, s.d), rule.bySetPos);
+    }
+    case 'YEARLY': {
+      const y = s.y + step;
+      let days: number[];
+      if (rule.byMonth?.length || rule.byMonthDay?.length) {
+        const months = rule.byMonth?.length ? [...rule.byMonth].sort((a, b) => a - b) : [s.m];
+        days = months.flatMap((m) => monthDays(y, m, rule, s.d));
+      } else if (rule.byDay?.length) {
+        // BYDAY alone counts weekdays across the whole year ("20th Monday")
+        const first = dayOf(y, 1, 1);
+        const last = dayOf(y, 12, 31);
+        const matching = new Set<number>();
+        for (const { weekday, n } of rule.byDay) {
+          const target = WEEKDAYS.indexOf(weekday);
+          const all: number[] = [];
+          for (let d = first; d <= last; d++) if (weekdayIndex(d) === target) all.push(d);
+          if (n === undefined) all.forEach((d) => matching.add(d));
+          else {
+            const pick = n > 0 ? all[n - 1] : all[all.length + n];
+            if (pick !== undefined) matching.add(pick);
+          }
+        }
+        days = [...matching].sort((a, b) => a - b);
+      } else {
+        days = s.d <= daysInMonth(y, s.m) ? [dayOf(y, s.m, s.d)] : [];
+      }
+      return applySetPos(days, rule.bySetPos);
+    }
+  }
+}
+
+/** First day of period `k`, for stopping on periods with no matching days */
+function periodStart(rule: RRule, start: number, k: number): number {
+  const s = ymd(start);
+  const step = k * rule.interval;
+  if (rule.freq === 'WEEKLY') return start - weekdayIndex(start) + step * 7;
+  if (rule.freq === 'MONTHLY') {
+    const total = s.m - 1 + step;
+    return dayOf(s.y + Math.floor(total / 12), (total % 12) + 1, 1);
+  }
+  if (rule.freq === 'YEARLY') return dayOf(s.y + step, 1, 1);
+  return start + step;
+}
+
+/**
+ * Occurrence dates (YYYY-MM-DD) of a rule starting at `start`, between
+ * `from` and `to` inclusive. COUNT counts from the start, and exdates are
+ * removed after counting (RFC 5545).
+ */
+export function expandRRule(
+  rule: RRule,
+  start: string,
+  range: { from: string; to: string; exdates?: string[] | null; limit?: number }
+): string[] {
+  const startDay = toDay(start);
+  // A weekly rule whose days all fall before the start in its first week
+  // counts its weeks from the next one — "every other Thursday" saved on a
+  // Sunday starts four days later, not eleven
+  const anchor = rule.freq === 'WEEKLY' && periodDays(rule, startDay, 0).every((d) => d < startDay)
+    ? startDay - weekdayIndex(startDay) + 7
+    : startDay;
+  const firstDay = toDay(range.from);
+  const lastDay = Math.min(toDay(range.to), rule.until ? toDay(rule.until) : Infinity);
+  const excluded = new Set(range.exdates ?? []);
+  const limit = range.limit ?? Infinity;
+  const result: string[] = [];
+  let counted = 0;
+
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    // Periods only move forward, so one that starts past the end stops the loop
+    if (periodStart(rule, anchor, k) > lastDay) break;
+    const days = periodDays(rule, anchor, k);
+
+    for (const day of days) {
+      if (day < startDay) continue;
+      if (day > lastDay) break;
+      counted++;
+      if (rule.count !== undefined && counted > rule.count) return result;
+      const date = fromDay(day);
+      if (day >= firstDay && !excluded.has(date)) {
+        result.push(date);
+        if (result.length >= limit) return result;
+      }
+    }
+    if (rule.count !== undefined && counted >= rule.count) break;
+  }
+  return result;
+}
+
+/** Dates an entry occurs on between `from` and `to` — its event_date for a one-off entry */
+export function entryOccurrences(entry: RecurringFields, from: string, to: string, limit?: number): string[] {
+  if (!entry.event_date) return [];
+  const rule = entryRRule(entry);
+  if (!rule) return entry.event_date >= from && entry.event_date <= to ? [entry.event_date] : [];
+  return expandRRule(rule, entry.event_date, { from, to, exdates: entry.exdates, limit });
+}
+
+/** Next occurrence on or after `date`, or null once the series is over */
+export function nextOccurrence(entry: RecurringFields, date: string): string | null {
+  const horizon = fromDay(toDay(date) + 366 * 5);
+  return entryOccurrences(entry, date, horizon, 1)[0] ?? null;
+}
+
+// --- Description ---
+
+function describeByDay(days: ByDay[]): string {
+  const plain = days.filter((d) => d.n === undefined).map((d) => d.weekday);
+  if (plain.length === 5 && ['MO', 'TU', 'WE', 'TH', 'FR'].every((d) => plain.includes(d as Weekday))) return 'weekdays';
+  if (plain.length === 2 && plain.includes('SA') && plain.includes('SU')) return 'weekends';
+  return days.map((d) => (d.n === undefined ? WEEKDAY_NAMES[d.weekday] : `the ${ordinal(d.n)} ${WEEKDAY_NAMES[d.weekday]}`)).join(', ');
+}
+
+function formatUntil(date: string): string {
+  const { y, m, d } = ymd(toDay(date));
+  return `${MONTH_NAMES[m - 1]} ${d}, ${y}`;
+}
+
+/** "Every 2 weeks on Tue", "Monthly on the last Fri until Jun 30, 2026", "Daily, 10 times" */
+export function describeRRule(rule: RRule): string {
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${FREQ_UNITS[rule.freq]}s` : FREQ_ADVERBS[rule.freq];
+
+  if (rule.freq === 'WEEKLY' && rule.interval === 1 && rule.byDay && describeByDay(rule.byDay) === 'weekdays') {
+    text = 'Weekdays';
+  } else {
+    const on: string[] = [];
+    if (rule.byDay?.length) {
+      const days = describeByDay(rule.byDay);
+      if (rule.bySetPos?.length === 1) {
+        on.push(`the ${ordinal(rule.bySetPos[0])} of ${days}`);
+      } else {
+        on.push(days);
+      }
+    }
+    if (rule.byMonthDay?.length) {
+      on.push(`day ${rule.byMonthDay.map((d) => (d === -1 ? 'last' : String(d))).join(', ')}`);
+    }
+    if (on.length) text += ` on ${on.join(' and ')}`;
+    if (rule.byMonth?.length) text += ` in ${rule.byMonth.map((m) => MONTH_NAMES[m - 1]).join(', ')}`;
+  }
+
+  if (rule.until) text += ` until ${formatUntil(rule.until)}`;
+  if (rule.count !== undefined) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  return text;
+}
+
+/** Description of an entry's recurrence, or null for a one-off entry */
+export function describeEntryRecurrence(entry: RecurringFields): string | null {
+  const rule = entryRRule(entry);
+  return rule ? describeRRule(rule) : entry.is_recurring ? 'Recurring' : null;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSearchQuery,
+  getQuerySuggestions,
+  hasStructuredSyntax,
+  retrievalText,
+  SEARCH_OPERATORS,
+  SEARCH_CONTENT_TYPES,
+} from './searchQuery';
+import * as edge from '../../supabase/functions/_shared/searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('returns plain text untouched', () => {
+    const parsed = parseSearchQuery('tacos recipe');
+    expect(parsed.text).toBe('tacos recipe');
+    expect(parsed.filters).toEqual({});
+    expect(parsed.errors).toEqual([]);
+    expect(hasStructuredSyntax(parsed)).toBe(false);
+  });
+
+  it('parses the full example query', () => {
+    const parsed = parseSearchQuery(
+      'type:reminder tag:work importance>=7 before:2026-03-01 starred -archived "exact phrase"'
+    );
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.text).toBe('');
+    expect(parsed.phrases).toEqual(['exact phrase']);
+    expect(parsed.filters).toEqual({
+      contentType: 'reminder',
+      tags: ['work'],
+      minImportance: 7,
+      endDate: '2026-03-01',
+      starred: true,
+      archived: false,
+    });
+  });
+
+  it('mixes free text with operators', () => {
+    const parsed = parseSearchQuery('dentist after:2026-01-01 appointment');
+    expect(parsed.text).toBe('dentist appointment');
+    expect(parsed.filters.startDate).toBe('2026-01-01');
+  });
+
+  it('handles importance comparisons', () => {
+    expect(parseSearchQuery('importance>7').filters.minImportance).toBe(8);
+    expect(parseSearchQuery('importance<3').filters.maxImportance).toBe(2);
+    expect(parseSearchQuery('importance:5').filters).toEqual({ minImportance: 5, maxImportance: 5 });
+  });
+
+  it('supports quoted tag values and tag exclusion', () => {
+    const parsed = parseSearchQuery('tag:"side project" -tag:done');
+    expect(parsed.filters.tags).toEqual(['side project']);
+    expect(parsed.filters.excludeTags).toEqual(['done']);
+  });
+
+  it('collects exclusions', () => {
+    const parsed = parseSearchQuery('pasta -spicy -"tomato sauce"');
+    expect(parsed.text).toBe('pasta');
+    expect(parsed.excludeTerms).toEqual(['spicy', 'tomato sauce']);
+  });
+
+  it('treats unknown key:value pairs and URLs as text', () => {
+    const parsed = parseSearchQuery('https://example.com note:thing');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.text).toBe('https://example.com note:thing');
+  });
+
+  it('accepts is:starred', () => {
+    expect(parseSearchQuery('is:starred').filters.starred).toBe(true);
+  });
+
+  it('reports errors with token positions', () => {
+    const parsed = parseSearchQuery('milk type:recipe');
+    expect(parsed.errors).toHaveLength(1);
+    expect(parsed.errors[0].message).toMatch(/Unknown type "recipe"/);
+    expect(parsed.errors[0]).toMatchObject({ start: 5, end: 16 });
+  });
+
+  it('rejects bad syntax clearly', () => {
+    expect(parseSearchQuery('"unclosed').errors[0].message).toBe('Missing closing quote');
+    expect(parseSearchQuery('importance>=11').errors[0].message).toMatch(/1 to 10/);
+    expect(parseSearchQuery('before:March').errors[0].message).toMatch(/needs a date/);
+    expect(parseSearchQuery('before:2026-02-30').errors).toHaveLength(1);
+    expect(parseSearchQuery('tag:').errors[0].message).toMatch(/Missing value/);
+    expect(parseSearchQuery('tag>=3').errors[0].message).toMatch(/only supports ":"/);
+    expect(parseSearchQuery('-type:note').errors[0].message).toMatch(/not supported/);
+    expect(parseSearchQuery('after:2026-03-01 before:2026-02-01').errors[0].message).toMatch(/Date range is empty/);
+  });
+
+  it('builds retrieval text from words and phrases', () => {
+    expect(retrievalText(parseSearchQuery('tag:x beach "sunset photo"'))).toBe('beach sunset photo');
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  it('suggests operators by prefix', () => {
+    const { suggestions } = getQuerySuggestions('ty', 2);
+    expect(suggestions.map((s) => s.insert)).toEqual(['type:']);
+  });
+
+  it('suggests content types after type:', () => {
+    const { suggestions, start, end } = getQuerySuggestions('milk type:re', 12);
+    expect(suggestions.map((s) => s.insert)).toEqual(['type:reminder']);
+    expect([start, end]).toEqual([5, 12]);
+  });
+
+  it('suggests known tags and quotes multi-word tags', () => {
+    const { suggestions } = getQuerySuggestions('tag:w', 5, { tags: ['work', 'side project', 'wishlist'] });
+    expect(suggestions.map((s) => s.insert)).toEqual(['tag:work', 'tag:wishlist']);
+
+    const quoted = getQuerySuggestions('-tag:s', 6, { tags: ['side project'] });
+    expect(quoted.suggestions[0].insert).toBe('-tag:"side project"');
+  });
+
+  it('returns nothing for plain words', () => {
+    expect(getQuerySuggestions('groceries', 9).suggestions).toEqual([]);
+    expect(getQuerySuggestions('', 0).suggestions).toEqual([]);
+  });
+});
+
+// search-memory parses with its own copy; a query must mean the same in the app and from Slack
+describe('edge function parser parity', () => {
+  const queries = [
+    'tacos recipe',
+    'type:reminder tag:work importance>=7 before:2026-03-01 starred -archived "exact phrase"',
+    'dentist after:2026-01-01 appointment',
+    'importance>7',
+    'importance<3',
+    'importance:5',
+    'tag:"side project" -tag:done',
+    'pasta -spicy -"tomato sauce"',
+    'https://example.com note:thing',
+    'is:starred -starred archived',
+    'milk type:recipe',
+    'budget "q3 plan" type:note',
+    '"unclosed',
+    'importance>=11',
+    'before:March',
+    'before:2026-02-30',
+    'tag:',
+    'tag>=3',
+    '-type:note',
+    'after:2026-03-01 before:2026-02-01',
+    '',
+  ];
+
+  it('exports the same operators and content types', () => {
+    expect(edge.SEARCH_OPERATORS).toEqual(SEARCH_OPERATORS);
+    expect(edge.SEARCH_CONTENT_TYPES).toEqual(SEARCH_CONTENT_TYPES);
+  });
+
+  it.each(queries)('parses %j identically', (query) => {
+    const parsed = parseSearchQuery(query);
+    expect(edge.parseSearchQuery(query)).toEqual(parsed);
+    expect(edge.retrievalText(parsed)).toBe(retrievalText(parsed));
+    expect(edge.hasStructuredSyntax(parsed)).toBe(hasStructuredSyntax(parsed));
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * Structured search query language.
+ *
+ * Parses queries like:
+ *   type:reminder tag:work importance>=7 before:2026-03-01 starred -archived "exact phrase"
+ *
+ * into free text plus the filters search-memory already understands.
+ * The same grammar is implemented in supabase/functions/_shared/searchQuery.ts
+ * so Slack queries routed through jac-search-agent behave identically —
+ * change both together (searchQuery.test.ts runs the same queries through both).
+ *
+ * Operators:
+ *   type:<content type>          one content type
+ *   tag:<tag>  -tag:<tag>        require / exclude a tag (repeatable, quotes allowed)
+ *   importance:N, >N, >=N, <N, <=N   importance score 1-10
+ *   after:YYYY-MM-DD             created on or after the date
+ *   before:YYYY-MM-DD            created before the date
+ *   starred / -starred           also is:starred
+ *   archived / -archived         archived entries are excluded unless asked for
+ *   "phrase"  -"phrase"  -word   require / exclude exact text
+ */
+
+export const SEARCH_CONTENT_TYPES = [
+  'note', 'idea', 'link', 'code', 'contact', 'event', 'reminder', 'list', 'document', 'image',
+] as const;
+
+export interface SearchQueryFilters {
+  contentType?: string;
+  tags?: string[];
+  excludeTags?: string[];
+  minImportance?: number;
+  maxImportance?: number;
+  /** Inclusive lower bound (YYYY-MM-DD) */
+  startDate?: string;
+  /** Exclusive upper bound (YYYY-MM-DD) */
+  endDate?: string;
+  starred?: boolean;
+  archived?: boolean;
+}
+
+export interface SearchQueryError {
+  message: string;
+  /** Character offsets of the offending token in the raw query */
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  /** Free text with every operator removed — what retrieval should match */
+  text: string;
+  /** Quoted phrases that must appear verbatim */
+  phrases: string[];
+  /** Words or phrases that must not appear */
+  excludeTerms: string[];
+  filters: SearchQueryFilters;
+  errors: SearchQueryError[];
+}
+
+export interface SearchOperatorDef {
+  name: string;
+  /** Text inserted when the operator is picked from autocomplete */
+  insert: string;
+  description: string;
+}
+
+export const SEARCH_OPERATORS: SearchOperatorDef[] = [
+  { name: 'type', insert: 'type:', description: 'Content type, e.g. type:reminder' },
+  { name: 'tag', insert: 'tag:', description: 'Has tag, e.g. tag:work (-tag: to exclude)' },
+  { name: 'importance', insert: 'importance>=', description: 'Importance 1-10, e.g. importance>=7' },
+  { name: 'after', insert: 'after:', description: 'Created on or after YYYY-MM-DD' },
+  { name: 'before', insert: 'before:', description: 'Created before YYYY-MM-DD' },
+  { name: 'starred', insert: 'starred', description: 'Only starred entries' },
+  { name: 'archived', insert: 'archived', description: 'Only archived entries (-archived to exclude)' },
+];
+
+const FLAG_NAMES = new Set(['starred', 'archived']);
+const OPERATOR_RE = /^([a-z]+)(>=|<=|:|>|<|=)([\s\S]*)$/i;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface RawToken {
+  value: string;
+  start: number;
+  end: number;
+  negated: boolean;
+  /** Whole token was a quoted phrase */
+  quoted: boolean;
+  unterminated: boolean;
+}
+
+/** Split on whitespace, keeping "quoted phrases" (also after key:) together */
+function tokenize(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let value = '';
+    let quoted = false;
+    let unterminated = false;
+
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (value === '') quoted = true;
+        if (close === -1) {
+          unterminated = true;
+          value += input.slice(i + 1);
+          i = input.length;
+        } else {
+          value += input.slice(i + 1, close);
+          i = close + 1;
+        }
+        continue;
+      }
+      quoted = false;
+      value += input[i];
+      i++;
+    }
+
+    tokens.push({ value, start, end: i, negated, quoted, unterminated });
+  }
+
+  return tokens;
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_RE.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Parse a raw query string. Never throws — problems are reported in
+ * `errors` with the offending token's position so the UI can point at it.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const result: ParsedSearchQuery = { text: '', phrases: [], excludeTerms: [], filters: {}, errors: [] };
+  const words: string[] = [];
+  const { filters } = result;
+
+  const fail = (token: RawToken, message: string) => {
+    result.errors.push({ message, start: token.start, end: token.end });
+  };
+
+  for (const token of tokenize(input ?? '')) {
+    if (token.unterminated) {
+      fail(token, 'Missing closing quote');
+      continue;
+    }
+
+    if (token.quoted) {
+      if (!token.value.trim()) continue;
+      if (token.negated) result.excludeTerms.push(token.value);
+      else result.phrases.push(token.value);
+      continue;
+    }
+
+    const lower = token.value.toLowerCase();
+
+    // Bare flags: starred, -archived
+    if (FLAG_NAMES.has(lower)) {
+      filters[lower as 'starred' | 'archived'] = !token.negated;
+      continue;
+    }
+
+    const match = token.value.match(OPERATOR_RE);
+    const key = match?.[1].toLowerCase();
+    if (!match || !key || !SEARCH_OPERATORS.some((op) => op.name === key || key === 'is')) {
+      // Not an operator — plain text (URLs and "note:" style words land here)
+      if (token.negated) result.excludeTerms.push(token.value);
+      else words.push(token.value);
+      continue;
+    }
+
+    const op = match[2];
+    const value = match[3].trim();
+
+    if (!value) {
+      fail(token, `Missing value after "${key}${op}"`);
+      continue;
+    }
+
+    if (op !== ':' && key !== 'importance') {
+      fail(token, `"${key}" only supports ":" — e.g. ${key}:${value}`);
+      continue;
+    }
+
+    if (token.negated && key !== 'tag' && key !== 'is') {
+      fail(token, `"-${key}:" is not supported — only tags and flags can be negated`);
+      continue;
+    }
+
+    switch (key) {
+      case 'type': {
+        const type = value.toLowerCase();
+        if (!(SEARCH_CONTENT_TYPES as readonly string[]).includes(type)) {
+          fail(token, `Unknown type "${value}". Use one of: ${SEARCH_CONTENT_TYPES.join(', ')}`);
+        } else if (filters.contentType && filters.contentType !== type) {
+          fail(token, 'Only one type: filter is allowed');
+        } else {
+          filters.contentType = type;
+        }
+        break;
+      }
+
+      case 'tag': {
+        const list = token.negated ? (filters.excludeTags ??= []) : (filters.tags ??= []);
+        if (!list.includes(value)) list.push(value);
+        break;
+      }
+
+      case 'importance': {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1 || n > 10) {
+          fail(token, `Importance must be a whole number from 1 to 10, got "${value}"`);
+          break;
+        }
+        if (op === ':' || op === '=') {
+          filters.minImportance = n;
+          filters.maxImportance = n;
+        } else if (op === '>=') filters.minImportance = n;
+        else if (op === '>') filters.minImportance = n + 1;
+        else if (op === '<=') filters.maxImportance = n;
+        else if (op === '<') filters.maxImportance = n - 1;
+        if (
+          filters.minImportance !== undefined &&
+          filters.maxImportance !== undefined &&
+          filters.minImportance > filters.maxImportance
+        ) {
+          fail(token, 'Importance range is empty');
+        }
+        break;
+      }
+
+      case 'after':
+      case 'before': {
+        if (!isValidDate(value)) {
+          fail(token, `"${key}:" needs a date like 2026-03-01, got "${value}"`);
+          break;
+        }
+        if (key === 'after') filters.startDate = value;
+        else filters.endDate = value;
+        if (filters.startDate && filters.endDate && filters.startDate >= filters.endDate) {
+          fail(token, 'Date range is empty — after: must be earlier than before:');
+        }
+        break;
+      }
+
+      case 'is': {
+        const flag = value.toLowerCase();
+        if (!FLAG_NAMES.has(flag)) {
+          fail(token, `Unknown flag "is:${value}". Use is:starred or is:archived`);
+        } else {
+          filters[flag as 'starred' | 'archived'] = !token.negated;
+        }
+        break;
+      }
+
+      default:
+        // starred/archived written as starred:… — treat as a flag misuse
+        fail(token, `"${key}" is a flag — write it on its own, e.g. ${key} or -${key}`);
+    }
+  }
+
+  result.text = words.join(' ');
+  return result;
+}
+
+/** True if the query uses any operator (filters, phrases or exclusions) */
+export function hasStructuredSyntax(parsed: ParsedSearchQuery): boolean {
+  return (
+    Object.keys(parsed.filters).length > 0 ||
+    parsed.phrases.length > 0 ||
+    parsed.excludeTerms.length > 0
+  );
+}
+
+/** Text retrieval should match: free words plus quoted phrases */
+export function retrievalText(parsed: ParsedSearchQuery): string {
+  return [parsed.text, ...parsed.phrases].filter(Boolean).join(' ').trim();
+}
+
+// =============================================================================
+// AUTOCOMPLETE
+// =============================================================================
+
+export interface QuerySuggestion {
+  label: string;
+  /** Replaces the token under the cursor */
+  insert: string;
+  description?: string;
+}
+
+export interface QuerySuggestionResult {
+  /** Range of the token being completed */
+  start: number;
+  end: number;
+  suggestions: QuerySuggestion[];
+}
+
+export interface SuggestionContext {
+  tags?: string[];
+  contentTypes?: readonly string[];
+  /** Max suggestions returned (default 8) */
+  limit?: number;
+}
+
+/**
+ * Suggest completions for the token ending at `cursor`: operator names,
+ * content types after type:, known tags after tag:, flags after is:.
+ */
+export function getQuerySuggestions(
+  input: string,
+  cursor: number,
+  context: SuggestionContext = {}
+): QuerySuggestionResult {
+  const limit = context.limit ?? 8;
+  const contentTypes = context.contentTypes ?? SEARCH_CONTENT_TYPES;
+
+  let start = cursor;
+  while (start > 0 && !/\s/.test(input[start - 1])) start--;
+  let end = cursor;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+
+  const token = input.slice(start, cursor);
+  const empty: QuerySuggestionResult = { start, end, suggestions: [] };
+  if (!token || token.startsWith('"')) return empty;
+
+  const negated = token.startsWith('-');
+  const body = negated ? token.slice(1) : token;
+  const prefix = negated ? '-' : '';
+
+  const match = body.match(/^([a-z]+)(>=|<=|:|>|<|=)(.*)$/i);
+  if (match) {
+    const key = match[1].toLowerCase();
+    const op = match[2];
+    const partial = match[3].replace(/^"/, '').toLowerCase();
+    const quoteIfNeeded = (v: string) => (/\s/.test(v) ? `"${v}"` : v);
+
+    let values: QuerySuggestion[] = [];
+    if (key === 'type' && !negated) {
+      values = contentTypes
+        .filter((t) => t.startsWith(partial))
+        .map((t) => ({ label: t, insert: `type:${t}` }));
+    } else if (key === 'tag') {
+      values = (context.tags ?? [])
+        .filter((t) => t.toLowerCase().startsWith(partial) && t.toLowerCase() !== partial)
+        .map((t) => ({ label: t, insert: `${prefix}tag:${quoteIfNeeded(t)}` }));
+    } else if (key === 'is') {
+      values = [...FLAG_NAMES]
+        .filter((f) => f.startsWith(partial))
+        .map((f) => ({ label: f, insert: `${prefix}is:${f}` }));
+    } else if (key === 'importance' && partial === '') {
+      values = [5, 7, 9].map((n) => ({ label: `${op}${n}`, insert: `importance${op}${n}` }));
+    } else if ((key === 'after' || key === 'before') && partial === '') {
+      const today = new Date().toISOString().slice(0, 10);
+      values = [{ label: today, insert: `${key}:${today}`, description: 'YYYY-MM-DD' }];
+    }
+    return { start, end, suggestions: values.slice(0, limit) };
+  }
+
+  const lower = body.toLowerCase();
+  const suggestions = SEARCH_OPERATORS
+    .filter((op) => op.name.startsWith(lower) && op.name !== lower)
+    .filter((op) => !negated || op.name === 'tag' || FLAG_NAMES.has(op.name))
+    .map((op) => ({
+      label: `${prefix}${op.insert}`,
+      insert: `${prefix}${op.name === 'tag' ? 'tag:' : op.insert}`,
+      description: op.description,
+    }));
+
+  return { start, end, suggestions: suggestions.slice(0, limit) };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { buildImporterMap, searchSymbols, symbolImporters } from './symbolSearch';
+import type { CodeFileSymbols } from '@/types/agent';
+
+const index: CodeFileSymbols[] = [
+  {
+    path: 'src/hooks/useWatches.ts',
+    symbols: [
+      { name: 'useWatches', kind: 'hook', line: 10, exported: true },
+      { name: 'WATCH_LIMIT', kind: 'variable', line: 3, exported: false },
+    ],
+    exports: ['useWatches'],
+    imports: [],
+    imported_paths: [],
+  },
+  {
+    path: 'src/components/watches/WatchList.tsx',
+    symbols: [{ name: 'WatchList', kind: 'component', line: 5, exported: true, default: true }],
+    exports: ['default'],
+    imports: [{ from: '@/hooks/useWatches', path: 'src/hooks/useWatches.ts', names: ['useWatches'] }],
+    imported_paths: ['src/hooks/useWatches.ts'],
+  },
+  {
+    path: 'src/pages/CronJobs.tsx',
+    symbols: [{ name: 'CronJobs', kind: 'component', line: 8, exported: true }],
+    exports: ['CronJobs'],
+    imports: [
+      { from: 'react', path: null, names: ['useState'] },
+      { from: '@/hooks/useWatches', path: 'src/hooks/useWatches.ts', names: ['*'] },
+      { from: '@/components/watches/WatchList', path: 'src/components/watches/WatchList.tsx', names: ['default'] },
+    ],
+    imported_paths: ['src/hooks/useWatches.ts', 'src/components/watches/WatchList.tsx'],
+  },
+  {
+    path: 'src/lib/other.ts',
+    symbols: [{ name: 'watchesEnabled', kind: 'function', line: 1, exported: true }],
+    exports: ['watchesEnabled'],
+    imports: [{ from: '@/hooks/useWatches', path: 'src/hooks/useWatches.ts', names: ['WATCH_TYPES'] }],
+    imported_paths: ['src/hooks/useWatches.ts'],
+  },
+];
+
+describe('symbolImporters', () => {
+  it('finds named and namespace importers', () => {
+    expect(symbolImporters(index, 'src/hooks/useWatches.ts', 'useWatches')).toEqual([
+      'src/components/watches/WatchList.tsx',
+      'src/pages/CronJobs.tsx',
+    ]);
+  });
+
+  it('matches default imports of a default-exported symbol', () => {
+    expect(symbolImporters(index, 'src/components/watches/WatchList.tsx', 'WatchList')).toEqual(['src/pages/CronJobs.tsx']);
+  });
+});
+
+describe('searchSymbols', () => {
+  it('ranks exact matches first, then prefix, then substring', () => {
+    expect(searchSymbols(index, 'usewatches').map((m) => m.name)).toEqual(['useWatches']);
+    expect(searchSymbols(index, 'watch').map((m) => m.name)).toEqual(['watchesEnabled', 'WatchList', 'WATCH_LIMIT', 'useWatches']);
+  });
+
+  it('attaches importers for exported symbols only', () => {
+    const [hook] = searchSymbols(index, 'useWatches');
+    expect(hook).toMatchObject({ path: 'src/hooks/useWatches.ts', line: 10, kind: 'hook' });
+    expect(hook.importers).toHaveLength(2);
+    expect(searchSymbols(index, 'WATCH_LIMIT')[0].importers).toEqual([]);
+  });
+
+  it('returns nothing for a blank query', () => {
+    expect(searchSymbols(index, '  ')).toEqual([]);
+  });
+});
+
+describe('buildImporterMap', () => {
+  it('maps each file to the files importing it', () => {
+    const map = buildImporterMap(index);
+    expect(map.get('src/hooks/useWatches.ts')).toEqual([
+      'src/components/watches/WatchList.tsx',
+      'src/lib/other.ts',
+      'src/pages/CronJobs.tsx',
+    ]);
+    expect(map.has('src/lib/other.ts')).toBe(false);
+  });
+});
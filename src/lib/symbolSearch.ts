@@ -0,0 +1,77 @@
+/**
+ * Symbol index queries for the Code Workspace FileBrowser.
+ *
+ * Works on code_symbols rows (built by sync-codebase). "Who imports this"
+ * follows the same rules as the code agent's planner
+ * (supabase/functions/_shared/symbolLookup.ts): a file references a symbol
+ * if it imports it by name, as the default export, or via `import *`.
+ */
+
+import type { CodeFileSymbols, CodeSymbolKind } from '@/types/agent';
+
+export interface SymbolMatch {
+  name: string;
+  kind: CodeSymbolKind;
+  path: string;
+  line: number;
+  exported: boolean;
+  /** Files importing it */
+  importers: string[];
+}
+
+/** path → files that import it */
+export function buildImporterMap(index: CodeFileSymbols[]): Map<string, string[]> {
+  const importers = new Map<string, string[]>();
+  for (const file of index) {
+    for (const path of file.imported_paths) {
+      const list = importers.get(path);
+      if (list) list.push(file.path);
+      else importers.set(path, [file.path]);
+    }
+  }
+  for (const list of importers.values()) list.sort();
+  return importers;
+}
+
+/** Files that import `name` from `path` */
+export function symbolImporters(index: CodeFileSymbols[], path: string, name: string): string[] {
+  const definition = index.find((f) => f.path === path)?.symbols.find((s) => s.name === name);
+  const result: string[] = [];
+  for (const file of index) {
+    const imp = file.imports.find((i) => i.path === path);
+    if (!imp) continue;
+    if (imp.names.includes(name) || imp.names.includes('*') || (definition?.default && imp.names.includes('default'))) {
+      result.push(file.path);
+    }
+  }
+  return result.sort();
+}
+
+/**
+ * Declared symbols matching a query, best first: exact name, then prefix,
+ * then substring (case-insensitive); exported before module-private.
+ */
+export function searchSymbols(index: CodeFileSymbols[], query: string, limit = 30): SymbolMatch[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const scored: Array<{ score: number; file: CodeFileSymbols; symbol: CodeFileSymbols['symbols'][number] }> = [];
+  for (const file of index) {
+    for (const symbol of file.symbols) {
+      const name = symbol.name.toLowerCase();
+      const rank = name === q ? 0 : name.startsWith(q) ? 1 : name.includes(q) ? 2 : -1;
+      if (rank < 0) continue;
+      scored.push({ score: rank * 2 + (symbol.exported ? 0 : 1), file, symbol });
+    }
+  }
+
+  scored.sort((a, b) => a.score - b.score || a.symbol.name.localeCompare(b.symbol.name) || a.file.path.localeCompare(b.file.path));
+  return scored.slice(0, limit).map(({ file, symbol }) => ({
+    name: symbol.name,
+    kind: symbol.kind,
+    path: file.path,
+    line: symbol.line,
+    exported: symbol.exported,
+    importers: symbol.exported ? symbolImporters(index, file.path, symbol.name) : [],
+  }));
+}
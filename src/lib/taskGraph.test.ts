@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaskGraph } from './taskGraph';
+import type { AgentTask } from '@/types/agent';
+
+const PARENT = 'parent-1';
+
+function task(id: string, minute: number, dependsOn: string[] = [], parent: string | null = PARENT): AgentTask {
+  const at = `2026-03-15T12:${String(minute).padStart(2, '0')}:00Z`;
+  return {
+    id,
+    user_id: 'user-1',
+    parent_task_id: parent,
+    depends_on: dependsOn,
+    type: 'research',
+    status: 'completed',
+    intent: id,
+    agent: 'jac-research-agent',
+    input: null,
+    output: null,
+    error: null,
+    slack_notified: false,
+    created_at: at,
+    updated_at: at,
+    completed_at: null,
+    cancelled_at: null,
+    cost_usd: null,
+    tokens_in: null,
+    tokens_out: null,
+  };
+}
+
+describe('buildTaskGraph', () => {
+  it('lays children out by their deepest upstream', () => {
+    // research + search in parallel, code needs both, save needs code
+    const tasks = [
+      task('save', 3, ['code']),
+      task('code', 2, ['research', 'search']),
+      task('search', 1),
+      task('research', 0),
+      task('other', 0, [], 'parent-2'),
+    ];
+    const graph = buildTaskGraph(tasks, PARENT)!;
+
+    expect(graph.layers.map((layer) => layer.map((n) => n.task.id))).toEqual([
+      ['research', 'search'],
+      ['code'],
+      ['save'],
+    ]);
+    expect(graph.edgeCount).toBe(3);
+    expect(graph.layers[0][0].downstream).toEqual(['code']);
+  });
+
+  it('returns null for independent children and ignores unknown upstreams', () => {
+    expect(buildTaskGraph([task('a', 0), task('b', 1)], PARENT)).toBeNull();
+    expect(buildTaskGraph([task('a', 0), task('b', 1, ['missing'])], PARENT)).toBeNull();
+  });
+});
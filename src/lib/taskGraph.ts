@@ -0,0 +1,68 @@
+/**
+ * Dependency graph of a dispatcher task's children, for AgentDeskDrawer.
+ *
+ * A child's depends_on lists sibling tasks it waited on (see the dispatcher's
+ * route_intent dependsOn). Children are laid out in layers: a task sits one
+ * layer below its deepest upstream, so each layer only needs earlier ones.
+ */
+
+import type { AgentTask } from '@/types/agent';
+
+export interface TaskGraphNode {
+  task: AgentTask;
+  depth: number;
+  /** Sibling ids this task waited on (only those in the task list) */
+  upstream: string[];
+  /** Sibling ids that waited on this task */
+  downstream: string[];
+}
+
+export interface TaskGraph {
+  parentTaskId: string;
+  layers: TaskGraphNode[][];
+  edgeCount: number;
+}
+
+/** Graph of parentTaskId's children, or null when none of them has a dependency */
+export function buildTaskGraph(tasks: AgentTask[], parentTaskId: string): TaskGraph | null {
+  const children = tasks
+    .filter((t) => t.parent_task_id === parentTaskId)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  const ids = new Set(children.map((t) => t.id));
+
+  const nodes = new Map<string, TaskGraphNode>(
+    children.map((task) => [
+      task.id,
+      { task, depth: 0, upstream: (task.depends_on ?? []).filter((id) => ids.has(id) && id !== task.id), downstream: [] },
+    ])
+  );
+  let edgeCount = 0;
+  for (const node of nodes.values()) {
+    for (const id of node.upstream) {
+      nodes.get(id)!.downstream.push(node.task.id);
+      edgeCount++;
+    }
+  }
+  if (edgeCount === 0) return null;
+
+  // Depth by longest upstream path; `visiting` guards against bad data cycles
+  const visiting = new Set<string>();
+  const resolved = new Set<string>();
+  const depthOf = (node: TaskGraphNode): number => {
+    if (resolved.has(node.task.id)) return node.depth;
+    if (visiting.has(node.task.id)) return 0;
+    visiting.add(node.task.id);
+    node.depth = node.upstream.reduce((max, id) => Math.max(max, depthOf(nodes.get(id)!) + 1), 0);
+    visiting.delete(node.task.id);
+    resolved.add(node.task.id);
+    return node.depth;
+  };
+
+  const layers: TaskGraphNode[][] = [];
+  for (const node of nodes.values()) {
+    const depth = depthOf(node);
+    (layers[depth] ??= []).push(node);
+  }
+
+  return { parentTaskId, layers: layers.filter(Boolean), edgeCount };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, hasChanges } from './textDiff';
+
+const show = (rows: ReturnType<typeof diffLines>) =>
+  rows.map((r) => [
+    r.left ? `${r.left.changed ? '-' : ' '}${r.left.text}` : null,
+    r.right ? `${r.right.changed ? '+' : ' '}${r.right.text}` : null,
+  ]);
+
+describe('diffLines', () => {
+  it('returns unchanged rows for identical text', () => {
+    const rows = diffLines('a\nb', 'a\nb');
+    expect(show(rows)).toEqual([[' a', ' a'], [' b', ' b']]);
+    expect(hasChanges(rows)).toBe(false);
+  });
+
+  it('shows appended lines on the right only', () => {
+    expect(show(diffLines('eggs', 'eggs\nmilk'))).toEqual([[' eggs', ' eggs'], [null, '+milk']]);
+  });
+
+  it('shows removed lines on the left only', () => {
+    expect(show(diffLines('a\nb\nc', 'a\nc'))).toEqual([[' a', ' a'], ['-b', null], [' c', ' c']]);
+  });
+
+  it('pairs an edited line with its replacement', () => {
+    expect(show(diffLines('a\nold\nc', 'a\nnew\nc'))).toEqual([[' a', ' a'], ['-old', '+new'], [' c', ' c']]);
+  });
+
+  it('handles empty sides', () => {
+    expect(show(diffLines('', 'x'))).toEqual([[null, '+x']]);
+    expect(show(diffLines('x', ''))).toEqual([['-x', null]]);
+    expect(diffLines('', '')).toEqual([]);
+  });
+
+  it('reports changes', () => {
+    expect(hasChanges(diffLines('a', 'b'))).toBe(true);
+  });
+});
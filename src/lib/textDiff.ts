@@ -0,0 +1,83 @@
+/**
+ * Line diff for side-by-side views (entry history).
+ *
+ * Standard LCS over lines. Runs of removed and added lines are paired into
+ * the same rows so an edited line sits next to its replacement.
+ */
+
+export interface DiffCell {
+  text: string;
+  /** Removed (left) or added (right) */
+  changed: boolean;
+}
+
+export interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+/** Above this many lines per side, fall back to a whole-block replace */
+const MAX_DIFF_LINES = 2000;
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return pairRuns(a, b);
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    rows.push(...pairRuns(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ left: { text: a[i], changed: false }, right: { text: b[j], changed: false } });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
+
+function pairRuns(removed: string[], added: string[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+    rows.push({
+      left: k < removed.length ? { text: removed[k], changed: true } : null,
+      right: k < added.length ? { text: added[k], changed: true } : null,
+    });
+  }
+  return rows;
+}
+
+/** True when the diff has at least one changed line */
+export function hasChanges(rows: DiffRow[]): boolean {
+  return rows.some((row) => row.left?.changed || row.right?.changed);
+}
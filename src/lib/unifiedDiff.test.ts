@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { isCommentableLine, lineCommentMessage, parseUnifiedDiff } from './unifiedDiff';
+
+const diff = [
+  'diff --git a/src/lib/auth.ts b/src/lib/auth.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/lib/auth.ts',
+  '+++ b/src/lib/auth.ts',
+  '@@ -10,3 +10,4 @@ export function login() {',
+  '   const user = getUser();',
+  '-  if (!user) return;',
+  '+  if (!user) throw new Error(\'No user\');',
+  '+  audit(user);',
+  '   return user;',
+  'diff --git a/src/old.ts b/src/old.ts',
+  'deleted file mode 100644',
+  '--- a/src/old.ts',
+  '+++ /dev/null',
+  '@@ -1,1 +0,0 @@',
+  '-export const old = 1;',
+  '\\ No newline at end of file',
+  '',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  const lines = parseUnifiedDiff(diff);
+
+  it('numbers lines against the base and PR versions', () => {
+    const body = lines.filter(isCommentableLine).filter((l) => l.path === 'src/lib/auth.ts');
+    expect(body.map((l) => [l.kind, l.oldLine, l.newLine])).toEqual([
+      ['context', 10, 10],
+      ['del', 11, null],
+      ['add', null, 11],
+      ['add', null, 12],
+      ['context', 12, 13],
+    ]);
+  });
+
+  it('keeps the old path for deleted files and ignores the trailing newline', () => {
+    const deleted = lines.filter((l) => l.kind === 'del' && l.path === 'src/old.ts');
+    expect(deleted).toHaveLength(1);
+    expect(lines[lines.length - 1]).toMatchObject({ kind: 'meta', text: '\\ No newline at end of file' });
+  });
+
+  it('treats headers as non-commentable', () => {
+    expect(lines.filter((l) => l.kind === 'file' || l.kind === 'hunk' || l.kind === 'meta').some(isCommentableLine)).toBe(false);
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
+
+describe('lineCommentMessage', () => {
+  const lines = parseUnifiedDiff(diff);
+
+  it('anchors added and unchanged lines to the PR version', () => {
+    const added = lines.find((l) => l.kind === 'add')!;
+    expect(lineCommentMessage(added, ' use a typed error ')).toBe(
+      "On src/lib/auth.ts:11 (added) `if (!user) throw new Error('No user');`: use a typed error"
+    );
+  });
+
+  it('anchors removed lines to the base version', () => {
+    const removed = lines.find((l) => l.kind === 'del')!;
+    expect(lineCommentMessage(removed, 'keep this early return')).toBe(
+      'On src/lib/auth.ts, removed line 11 of the base version `if (!user) return;`: keep this early return'
+    );
+  });
+});
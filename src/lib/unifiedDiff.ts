@@ -0,0 +1,94 @@
+/**
+ * Unified diff parsing for the Code Workspace.
+ *
+ * CodeViewer renders a session's PR diff line by line; inline comments on a
+ * line become follow-up messages for the code agent (lineCommentMessage),
+ * which pushes the fix to the same PR.
+ */
+
+export type DiffLineKind = 'file' | 'meta' | 'hunk' | 'add' | 'del' | 'context';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  /** File the line belongs to — the new path, or the old one for a deleted file */
+  path: string | null;
+  /** Line number in the base version (del, context) */
+  oldLine: number | null;
+  /** Line number in the PR version (add, context) */
+  newLine: number | null;
+}
+
+const HUNK_RE = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+function stripPrefix(path: string): string | null {
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+}
+
+export function parseUnifiedDiff(diff: string): DiffLine[] {
+  const raw = diff.endsWith('\n') ? diff.slice(0, -1) : diff;
+  if (!raw) return [];
+
+  const lines: DiffLine[] = [];
+  let path: string | null = null;
+  let oldPath: string | null = null;
+  let inHunk = false;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const text of raw.split('\n')) {
+    if (text.startsWith('diff --git ')) {
+      const match = text.match(/ b\/(.+)$/);
+      path = match ? match[1] : null;
+      oldPath = null;
+      inHunk = false;
+      lines.push({ kind: 'file', text, path, oldLine: null, newLine: null });
+      continue;
+    }
+
+    const hunk = text.match(HUNK_RE);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+      inHunk = true;
+      lines.push({ kind: 'hunk', text, path, oldLine: null, newLine: null });
+      continue;
+    }
+
+    if (!inHunk) {
+      // Headers between "diff --git" and the first hunk
+      if (text.startsWith('--- ')) oldPath = stripPrefix(text.slice(4));
+      else if (text.startsWith('+++ ')) path = stripPrefix(text.slice(4)) ?? oldPath;
+      lines.push({ kind: 'meta', text, path, oldLine: null, newLine: null });
+      continue;
+    }
+
+    if (text.startsWith('+')) {
+      lines.push({ kind: 'add', text, path, oldLine: null, newLine: newLine++ });
+    } else if (text.startsWith('-')) {
+      lines.push({ kind: 'del', text, path, oldLine: oldLine++, newLine: null });
+    } else if (text.startsWith('\\')) {
+      lines.push({ kind: 'meta', text, path, oldLine: null, newLine: null });
+    } else {
+      lines.push({ kind: 'context', text, path, oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return lines;
+}
+
+/** Lines a reviewer can leave an inline comment on */
+export function isCommentableLine(line: DiffLine): boolean {
+  return line.path !== null && (line.kind === 'add' || line.kind === 'del' || line.kind === 'context');
+}
+
+/** Follow-up message for an inline comment, anchored to the file, line and code */
+export function lineCommentMessage(line: DiffLine, comment: string): string {
+  const code = line.text.slice(1).trim();
+  const quoted = code ? ` \`${code.length > 120 ? `${code.slice(0, 120)}…` : code}\`` : '';
+  const where = line.kind === 'del'
+    ? `${line.path}, removed line ${line.oldLine} of the base version${quoted}`
+    : `${line.path}:${line.newLine}${line.kind === 'add' ? ' (added)' : ''}${quoted}`;
+  return `On ${where}: ${comment.trim()}`;
+}
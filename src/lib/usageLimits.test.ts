@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { formatQuotaValue, formatWindow, usageLevel } from './usageLimits';
+
+describe('usageLevel', () => {
+  it('warns from 80% and flags the limit itself', () => {
+    expect(usageLevel(10, 200)).toBe('ok');
+    expect(usageLevel(160, 200)).toBe('warning');
+    expect(usageLevel(200, 200)).toBe('exceeded');
+    expect(usageLevel(0, 0)).toBe('exceeded');
+  });
+});
+
+describe('formatting', () => {
+  it('formats quota values and windows', () => {
+    expect(formatQuotaValue('daily_cost_usd', 1.234)).toBe('$1.23');
+    expect(formatQuotaValue('daily_tokens', 2_000_000)).toBe('2M');
+    expect(formatQuotaValue('daily_tokens', 1_500_000)).toBe('1.5M');
+    expect(formatQuotaValue('daily_tokens', 12_400)).toBe('12k');
+    expect(formatQuotaValue('daily_tasks', 42)).toBe('42');
+    expect(formatWindow(60)).toBe('minute');
+    expect(formatWindow(3600)).toBe('hour');
+    expect(formatWindow(90)).toBe('90s');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Usage against rate limits and quotas, for the Settings page.
+ *
+ * usage-limits returns the daily quotas (summed from agent_tasks) and each
+ * rate-limited edge function's current sliding window.
+ */
+
+export type QuotaName = 'concurrent_tasks' | 'daily_tasks' | 'daily_tokens' | 'daily_cost_usd';
+
+export interface QuotaUsage {
+  name: QuotaName;
+  used: number;
+  max: number;
+  /** null for concurrent_tasks, which isn't a daily count */
+  resetsAt: string | null;
+}
+
+export interface FunctionRateUsage {
+  functionName: string;
+  max: number;
+  windowSeconds: number;
+  used: number;
+  /** Seconds until a slot frees up; 0 when the window is empty */
+  resetIn: number;
+}
+
+export type UsageLevel = 'ok' | 'warning' | 'exceeded';
+
+export const QUOTA_LABELS: Record<QuotaName, string> = {
+  concurrent_tasks: 'Tasks running now',
+  daily_tasks: 'Tasks today',
+  daily_tokens: 'Tokens today',
+  daily_cost_usd: 'Spend today',
+};
+
+const WARNING_RATIO = 0.8;
+
+export function usageLevel(used: number, max: number): UsageLevel {
+  if (max <= 0 || used >= max) return 'exceeded';
+  return used / max >= WARNING_RATIO ? 'warning' : 'ok';
+}
+
+export function formatQuotaValue(name: QuotaName, value: number): string {
+  if (name === 'daily_cost_usd') return `$${value.toFixed(2)}`;
+  if (name === 'daily_tokens') {
+    if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(value % 1_000_000 === 0 ? 0 : 1)}M`;
+    if (value >= 1_000) return `${Math.round(value / 1_000)}k`;
+  }
+  return String(Math.round(value));
+}
+
+export function formatWindow(seconds: number): string {
+  if (seconds >= 3600 && seconds % 3600 === 0) return seconds === 3600 ? 'hour' : `${seconds / 3600} hours`;
+  if (seconds >= 60 && seconds % 60 === 0) return seconds === 60 ? 'minute' : `${seconds / 60} minutes`;
+  return `${seconds}s`;
+}
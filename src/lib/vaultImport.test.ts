@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import {
+  parseFrontMatter,
+  parseVaultNote,
+  extractInlineTags,
+  extractWikilinks,
+  readVaultZip,
+  resolveWikilinks,
+} from './vaultImport';
+
+describe('parseFrontMatter', () => {
+  it('reads scalars, inline lists and block lists', () => {
+    const { data, body } = parseFrontMatter(
+      '---\ntitle: "Garden plan"\ntags: [garden, spring]\naliases:\n  - Veg beds\n  - Beds\npriority: 3\ndraft: false\n---\nBody text'
+    );
+    expect(data).toEqual({
+      title: 'Garden plan',
+      tags: ['garden', 'spring'],
+      aliases: ['Veg beds', 'Beds'],
+      priority: 3,
+      draft: false,
+    });
+    expect(body).toBe('Body text');
+  });
+
+  it('leaves notes without front matter alone', () => {
+    expect(parseFrontMatter('# Heading\ntext')).toEqual({ data: {}, body: '# Heading\ntext' });
+  });
+});
+
+describe('parseVaultNote', () => {
+  it('merges front-matter and inline tags and keeps dates', () => {
+    const note = parseVaultNote(
+      'Projects/Garden.md',
+      '---\ntags: garden\ncreated: 2023-04-02\nupdated: 2023-05-01T10:00:00Z\n---\nPlant #tomatoes and #Garden near [[Shed]].'
+    );
+    expect(note.title).toBe('Garden');
+    expect(note.content).toBe('Plant #tomatoes and #Garden near [[Shed]].');
+    expect(note.tags).toEqual(['garden', 'tomatoes']);
+    expect(note.createdAt).toBe('2023-04-02T00:00:00.000Z');
+    expect(note.updatedAt).toBe('2023-05-01T10:00:00.000Z');
+    expect(note.links).toEqual(['Shed']);
+  });
+
+  it('reads Logseq page properties and journal file names', () => {
+    const note = parseVaultNote('journals/2024_01_15.md', 'title:: Monday\ntags:: work, [[planning]]\n- standup notes');
+    expect(note.title).toBe('Monday');
+    expect(note.tags).toEqual(['work', 'planning']);
+    expect(note.createdAt).toBe('2024-01-15T00:00:00.000Z');
+    expect(note.content).toBe('- standup notes');
+  });
+});
+
+describe('extractInlineTags / extractWikilinks', () => {
+  it('ignores headings, numbers and code', () => {
+    expect(extractInlineTags('# Title\nIssue #42 #ideas/app `#notatag`\n```\n#include\n```')).toEqual(['ideas/app']);
+  });
+
+  it('strips aliases, headings and attachment embeds', () => {
+    expect(extractWikilinks('[[Shed|the shed]] [[Shed#Roof]] ![[photo.png]] [[#Local]] [[Plans/Q1.md]]')).toEqual([
+      'Shed',
+      'Plans/Q1.md',
+    ]);
+  });
+});
+
+describe('readVaultZip', () => {
+  it('reads Markdown notes and skips app folders and empty notes', () => {
+    const zip = zipSync({
+      'vault/Shed.md': strToU8('Roof needs fixing'),
+      'vault/Empty.md': strToU8('---\ntitle: x\n---\n'),
+      'vault/.obsidian/workspace.md': strToU8('config'),
+      '__MACOSX/vault/._Shed.md': strToU8('junk'),
+      'vault/photo.png': new Uint8Array([1, 2, 3]),
+    });
+    const { notes, skipped } = readVaultZip(zip);
+    expect(notes.map((n) => n.path)).toEqual(['vault/Shed.md']);
+    expect(skipped).toEqual([{ path: 'vault/Empty.md', reason: 'empty' }]);
+  });
+});
+
+describe('resolveWikilinks', () => {
+  it('resolves by path, file name and alias', () => {
+    const notes = [
+      parseVaultNote('Home.md', '[[projects/garden]] [[Shed]] [[Veg beds]] [[Missing]] [[Home]]'),
+      parseVaultNote('projects/Garden.md', '---\naliases: [Veg beds]\n---\nsee [[Home]]'),
+      parseVaultNote('archive/Shed.md', 'old shed'),
+    ];
+    expect(resolveWikilinks(notes)).toEqual([
+      { from: 'Home.md', to: 'projects/Garden.md' },
+      { from: 'Home.md', to: 'archive/Shed.md' },
+      { from: 'projects/Garden.md', to: 'Home.md' },
+    ]);
+  });
+});
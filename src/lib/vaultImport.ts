@@ -0,0 +1,303 @@
+/**
+ * Markdown vault import — reads a zip of Markdown notes (Obsidian, Logseq,
+ * Apple Notes via an exporter) into notes ready for the import-notes
+ * edge function.
+ *
+ * Per note we keep: YAML front matter, Logseq `key:: value` page properties,
+ * front-matter + inline #tags, creation/modification dates, and [[wikilinks]]
+ * (resolved to other notes in the same vault so they can become
+ * entry_relationships once every note has an entry id).
+ */
+
+import { unzipSync } from 'fflate';
+
+/** Matches smart-save's content limit */
+export const MAX_NOTE_LENGTH = 100000;
+
+export type FrontMatterValue = string | number | boolean | string[];
+
+export interface VaultNote {
+  /** Path inside the zip, e.g. "Projects/Garden.md" */
+  path: string;
+  title: string;
+  /** Note body with front matter / page properties removed */
+  content: string;
+  tags: string[];
+  createdAt?: string;
+  updatedAt?: string;
+  frontMatter: Record<string, FrontMatterValue>;
+  /** Raw wikilink targets, e.g. "Garden" for [[Garden#Beds|beds]] */
+  links: string[];
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface VaultReadResult {
+  notes: VaultNote[];
+  skipped: SkippedFile[];
+}
+
+export interface WikilinkPair {
+  from: string;
+  to: string;
+}
+
+const MARKDOWN_EXT = /\.(md|markdown)$/i;
+
+const CREATED_KEYS = ['created', 'created_at', 'createdat', 'creation date', 'date created', 'date'];
+const UPDATED_KEYS = ['updated', 'updated_at', 'updatedat', 'modified', 'last modified', 'date modified'];
+
+// --- Front matter ---
+
+function unquote(value: string): string {
+  const v = value.trim();
+  if ((v.startsWith('"') && v.endsWith('"')) || (v.startsWith("'") && v.endsWith("'"))) {
+    return v.slice(1, -1);
+  }
+  return v;
+}
+
+function parseScalar(raw: string): FrontMatterValue {
+  const v = raw.trim();
+  if (v.startsWith('[') && v.endsWith(']')) {
+    return v
+      .slice(1, -1)
+      .split(',')
+      .map(unquote)
+      .filter(Boolean);
+  }
+  if (v === 'true' || v === 'false') return v === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(v)) return Number(v);
+  return unquote(v);
+}
+
+/**
+ * Split YAML front matter off a note. Handles the flat subset vaults use:
+ * `key: value`, inline `[a, b]` lists and indented `- item` lists.
+ * Nested maps are ignored.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, FrontMatterValue>; body: string } {
+  const match = text.match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n|$)/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const list = data[listKey];
+      data[listKey] = [...(Array.isArray(list) ? list : []), unquote(item[1])];
+      continue;
+    }
+    if (/^\s/.test(line)) continue; // nested map — unsupported
+
+    const pair = line.match(/^([^:]+):\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].trim().toLowerCase();
+    if (pair[2].trim() === '') {
+      listKey = key;
+      data[key] = [];
+    } else {
+      listKey = null;
+      data[key] = parseScalar(pair[2]);
+    }
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+/** Logseq page properties: leading `key:: value` lines */
+function parsePageProperties(text: string): { data: Record<string, FrontMatterValue>; body: string } {
+  const lines = text.split(/\r?\n/);
+  const data: Record<string, FrontMatterValue> = {};
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const prop = lines[i].match(/^([\w-]+)::\s*(.*)$/);
+    if (!prop) break;
+    const key = prop[1].toLowerCase();
+    const value = prop[2].trim();
+    data[key] = key === 'tags' || key === 'alias'
+      ? value.split(',').map((v) => v.trim().replace(/^\[\[|\]\]$/g, '')).filter(Boolean)
+      : value;
+  }
+  return { data, body: lines.slice(i).join('\n') };
+}
+
+// --- Tags / links / dates ---
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '');
+}
+
+function toStringList(value: FrontMatterValue | undefined, separator: RegExp): string[] {
+  if (value == null || typeof value === 'boolean') return [];
+  if (Array.isArray(value)) return value;
+  return String(value).split(separator).map((v) => v.trim());
+}
+
+/** Text with fenced and inline code removed, so `#include` in code isn't a tag */
+function stripCode(body: string): string {
+  return body.replace(/```[\s\S]*?(```|$)/g, ' ').replace(/`[^`\n]*`/g, ' ');
+}
+
+/** Inline #tags — needs at least one non-digit, like Obsidian (so "#1" isn't a tag) */
+export function extractInlineTags(body: string): string[] {
+  const tags: string[] = [];
+  const re = /(?:^|[\s(])#([\p{L}\p{N}_/-]+)/gu;
+  for (const m of stripCode(body).matchAll(re)) {
+    if (/^[\d/_-]+$/.test(m[1])) continue;
+    tags.push(m[1]);
+  }
+  return tags;
+}
+
+/**
+ * [[wikilink]] targets, without alias (|) or heading/block (# ^) parts.
+ * Embeds of attachments (![[photo.png]]) are not note links.
+ */
+export function extractWikilinks(body: string): string[] {
+  const targets: string[] = [];
+  for (const m of stripCode(body).matchAll(/\[\[([^\]\n]+?)\]\]/g)) {
+    const target = m[1].split('|')[0].split(/[#^]/)[0].trim();
+    if (!target) continue;
+    if (/\.[a-z0-9]{1,5}$/i.test(target) && !MARKDOWN_EXT.test(target)) continue;
+    targets.push(target);
+  }
+  return [...new Set(targets)];
+}
+
+function toIsoDate(value: FrontMatterValue | undefined): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const str = String(value).trim();
+  // Date-only values are calendar dates — pin to midnight UTC so they don't shift a day
+  const dateOnly = str.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const ms = dateOnly ? Date.UTC(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3]) : Date.parse(str);
+  if (Number.isNaN(ms)) return undefined;
+  return new Date(ms).toISOString();
+}
+
+function firstDate(data: Record<string, FrontMatterValue>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const iso = toIsoDate(data[key]);
+    if (iso) return iso;
+  }
+  return undefined;
+}
+
+function baseName(path: string): string {
+  return (path.split('/').pop() ?? path).replace(MARKDOWN_EXT, '');
+}
+
+/** Daily/journal note file names: 2024-01-15, 2024_01_15 (Logseq) */
+function dateFromFileName(name: string): string | undefined {
+  const m = name.match(/^(\d{4})[-_](\d{2})[-_](\d{2})$/);
+  return m ? toIsoDate(`${m[1]}-${m[2]}-${m[3]}`) : undefined;
+}
+
+// --- Notes ---
+
+export function parseVaultNote(path: string, raw: string): VaultNote {
+  const text = raw.replace(/^\uFEFF/, '');
+  const fm = parseFrontMatter(text);
+  const props = parsePageProperties(fm.body);
+  const data = { ...props.data, ...fm.data };
+  const body = props.body.trim();
+  const name = baseName(path);
+
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  for (const tag of [...toStringList(data.tags ?? data.tag, /[,\s]+/), ...extractInlineTags(body)]) {
+    const clean = normalizeTag(tag);
+    if (clean && !seen.has(clean.toLowerCase())) {
+      seen.add(clean.toLowerCase());
+      tags.push(clean);
+    }
+  }
+
+  const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : name;
+
+  return {
+    path,
+    title,
+    content: body,
+    tags,
+    createdAt: firstDate(data, CREATED_KEYS) ?? dateFromFileName(name),
+    updatedAt: firstDate(data, UPDATED_KEYS),
+    frontMatter: data,
+    links: extractWikilinks(body),
+  };
+}
+
+/** App config (.obsidian, .trash), macOS zip metadata and Logseq backups */
+function isIgnoredPath(path: string): boolean {
+  if (/(^|\/)logseq\/(bak|version-files)\//.test(path)) return true;
+  return path.split('/').some((segment) => segment.startsWith('.') || segment === '__MACOSX');
+}
+
+/** Unzip a vault and parse every Markdown note in it */
+export function readVaultZip(data: Uint8Array): VaultReadResult {
+  const files = unzipSync(data, {
+    filter: (file) => MARKDOWN_EXT.test(file.name) && !isIgnoredPath(file.name),
+  });
+
+  const decoder = new TextDecoder('utf-8');
+  const notes: VaultNote[] = [];
+  const skipped: SkippedFile[] = [];
+
+  for (const [path, bytes] of Object.entries(files)) {
+    if (path.endsWith('/')) continue;
+    const note = parseVaultNote(path, decoder.decode(bytes));
+    if (!note.content) {
+      skipped.push({ path, reason: 'empty' });
+    } else if (note.content.length > MAX_NOTE_LENGTH) {
+      skipped.push({ path, reason: 'too large' });
+    } else {
+      notes.push(note);
+    }
+  }
+
+  notes.sort((a, b) => a.path.localeCompare(b.path));
+  return { notes, skipped };
+}
+
+/**
+ * Resolve wikilinks to note paths the way Obsidian does: a full path from
+ * the vault root first, then file name, then front-matter alias (all
+ * case-insensitive). Unresolved links and self-links are dropped.
+ */
+export function resolveWikilinks(notes: VaultNote[]): WikilinkPair[] {
+  const byPath = new Map<string, string>();
+  const byName = new Map<string, string>();
+  const byAlias = new Map<string, string>();
+
+  for (const note of notes) {
+    const key = note.path.replace(MARKDOWN_EXT, '').toLowerCase();
+    byPath.set(key, note.path);
+    const name = baseName(note.path).toLowerCase();
+    if (!byName.has(name)) byName.set(name, note.path);
+    for (const alias of toStringList(note.frontMatter.aliases ?? note.frontMatter.alias, /,/)) {
+      if (alias && !byAlias.has(alias.toLowerCase())) byAlias.set(alias.toLowerCase(), note.path);
+    }
+  }
+
+  const pairs: WikilinkPair[] = [];
+  const seen = new Set<string>();
+  for (const note of notes) {
+    for (const link of note.links) {
+      const target = link.replace(MARKDOWN_EXT, '').toLowerCase();
+      const to = byPath.get(target) ?? byName.get(target.split('/').pop() ?? target) ?? byAlias.get(target);
+      if (!to || to === note.path) continue;
+      const key = `${note.path}\n${to}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      pairs.push({ from: note.path, to });
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { describeCondition, describeDiff } from './watchConditions';
+
+describe('describeCondition', () => {
+  it('defaults to any change and describes thresholds', () => {
+    expect(describeCondition(undefined)).toBe('Alerts on any change');
+    expect(describeCondition({ type: 'new_item' })).toBe('Alerts on new items');
+    expect(describeCondition({ type: 'below', value: 400000, match: 'Austin' }))
+      .toBe(`Alerts when below ${(400000).toLocaleString()} for "Austin"`);
+  });
+});
+
+describe('describeDiff', () => {
+  it('lists added, changed and removed items in that order', () => {
+    expect(describeDiff(null)).toEqual([]);
+    expect(describeDiff({
+      added: [{ key: 'a', label: '12 Oak St', value: '$389,000' }],
+      changed: [{ key: 'b', label: '4 Elm Ave', before: '$420,000', after: '$405,000' }],
+      removed: [{ key: 'c', label: '9 Pine Rd', number: 399000 }],
+    })).toEqual([
+      '+ 12 Oak St ($389,000)',
+      '~ 4 Elm Ave: $420,000 → $405,000',
+      '- 9 Pine Rd',
+    ]);
+  });
+});
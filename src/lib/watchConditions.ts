@@ -0,0 +1,66 @@
+/**
+ * Watch alert conditions and change history, for the watch UI.
+ *
+ * Conditions are evaluated server-side (supabase/functions/_shared/
+ * watchSnapshots.ts) against each run's snapshot; these helpers only
+ * describe them and the stored diffs.
+ */
+
+export type WatchAlertCondition =
+  | { type: 'any_change' }
+  | { type: 'new_item' }
+  | { type: 'below' | 'above'; value: number; match?: string };
+
+export type WatchConditionType = WatchAlertCondition['type'];
+
+export interface WatchFinding {
+  key: string;
+  label: string;
+  value?: string;
+  number?: number;
+}
+
+export interface WatchDiff {
+  added: WatchFinding[];
+  removed: WatchFinding[];
+  changed: Array<{ key: string; label: string; before: string | null; after: string | null }>;
+}
+
+/** One watch_snapshots row */
+export interface WatchSnapshot {
+  id: string;
+  watch_id: string;
+  task_id: string | null;
+  run_number: number | null;
+  findings: WatchFinding[];
+  /** null on the watch's first run */
+  diff: WatchDiff | null;
+  summary: string | null;
+  condition_met: boolean;
+  created_at: string;
+}
+
+export const CONDITION_TYPE_LABELS: Record<WatchConditionType, string> = {
+  any_change: 'Any change',
+  new_item: 'New item appears',
+  below: 'Value drops below',
+  above: 'Value rises above',
+};
+
+export function describeCondition(condition?: WatchAlertCondition | null): string {
+  if (!condition || condition.type === 'any_change') return 'Alerts on any change';
+  if (condition.type === 'new_item') return 'Alerts on new items';
+  const scope = condition.match ? ` for "${condition.match}"` : '';
+  return `Alerts when ${condition.type} ${condition.value.toLocaleString()}${scope}`;
+}
+
+/** Line per difference: "+ added (value)", "~ label: before → after", "- removed" */
+export function describeDiff(diff: WatchDiff | null): string[] {
+  if (!diff) return [];
+  const value = (f: WatchFinding) => f.value ?? (f.number !== undefined ? String(f.number) : null);
+  return [
+    ...diff.added.map(f => `+ ${f.label}${value(f) ? ` (${value(f)})` : ''}`),
+    ...diff.changed.map(c => `~ ${c.label}: ${c.before ?? '—'} → ${c.after ?? '—'}`),
+    ...diff.removed.map(f => `- ${f.label}`),
+  ];
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_TEMPLATES,
+  instantiateTemplate,
+  mergeTemplates,
+  parseTemplates,
+  serializeTemplates,
+  templateErrors,
+} from './watchTemplates';
+
+const stock = BUILT_IN_TEMPLATES.find(t => t.id === 'stock-threshold')!;
+
+describe('instantiateTemplate', () => {
+  it('fills placeholders and resolves a parameterized alert rule', () => {
+    const draft = instantiateTemplate(stock, { ticker: ' nvda ', price: '$1,050' });
+    expect(draft.watchName).toBe('NVDA below $1050');
+    expect(draft.query).toContain('share price of NVDA');
+    expect(draft.alertCondition).toEqual({ type: 'below', value: 1050, match: 'NVDA' });
+    expect(draft.templateParams).toEqual({ ticker: 'NVDA', price: '1050' });
+  });
+
+  it('reports invalid parameter values per field', () => {
+    expect(templateErrors(stock, { ticker: '', price: 'cheap' })).toEqual({
+      ticker: 'Required',
+      price: 'Must be a number',
+    });
+    expect(() => instantiateTemplate(stock, { ticker: 'AAPL' })).toThrow('price: Required');
+  });
+});
+
+describe('parseTemplates', () => {
+  it('round-trips exported templates and keeps built-ins unshadowed', () => {
+    const parsed = parseTemplates(serializeTemplates(BUILT_IN_TEMPLATES));
+    expect(parsed).toHaveLength(BUILT_IN_TEMPLATES.length);
+    expect(parsed[0].builtIn).toBeUndefined();
+    expect(mergeTemplates([], parsed.slice(0, 1)).map(t => t.id)).toEqual([`${parsed[0].id}-custom`]);
+  });
+
+  it('rejects undeclared placeholders and malformed files', () => {
+    expect(() => parseTemplates('nope')).toThrow('Not valid JSON');
+    expect(() => parseTemplates(JSON.stringify({
+      id: 'x', name: 'X', nameTemplate: '{{a}}', queryTemplate: 'q', cronExpression: '0 9 * * *', params: [],
+    }))).toThrow("{{a}} isn't a declared parameter");
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Watch templates — reusable watches with typed parameters.
+ *
+ * A template holds everything a watch needs (prompt, model tier, default
+ * schedule, alert rule) with {{param}} placeholders; instantiateTemplate
+ * fills them from the user's values. Built-in templates ship here; custom
+ * ones live in user_settings.settings.watch_templates and move between
+ * people as JSON (serializeTemplates / parseTemplates).
+ */
+
+import type { WatchAlertCondition, WatchConditionType } from '@/lib/watchConditions';
+
+export type TemplateParamType = 'text' | 'url' | 'number' | 'ticker';
+
+export interface WatchTemplateParam {
+  /** Placeholder name: {{key}} */
+  key: string;
+  label: string;
+  type: TemplateParamType;
+  placeholder?: string;
+  /** Defaults to true */
+  required?: boolean;
+  default?: string;
+}
+
+export interface WatchTemplateAlertRule {
+  type: WatchConditionType;
+  /** Threshold for below/above — a number or a "{{param}}" placeholder */
+  value?: number | string;
+  match?: string;
+}
+
+export type ModelTier = 'haiku' | 'sonnet' | 'opus';
+
+export interface WatchTemplate {
+  id: string;
+  name: string;
+  description: string;
+  params: WatchTemplateParam[];
+  nameTemplate: string;
+  queryTemplate: string;
+  modelTier: ModelTier;
+  cronExpression: string;
+  agentType: string;
+  alertRule: WatchTemplateAlertRule;
+  builtIn?: boolean;
+}
+
+/** What CreateWatchDialog saves for a watch made from a template */
+export interface WatchDraft {
+  watchName: string;
+  query: string;
+  cronExpression: string;
+  modelTier: ModelTier;
+  agentType: string;
+  alertCondition: WatchAlertCondition;
+  templateId: string;
+  templateParams: Record<string, string>;
+}
+
+const EXPORT_FORMAT = 'jac-watch-templates';
+const EXPORT_VERSION = 1;
+const PARAM_TYPES: TemplateParamType[] = ['text', 'url', 'number', 'ticker'];
+const MODEL_TIERS: ModelTier[] = ['haiku', 'sonnet', 'opus'];
+const AGENT_TYPES = ['jac-research-agent', 'jac-search-agent'];
+const CONDITION_TYPES: WatchConditionType[] = ['any_change', 'new_item', 'below', 'above'];
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const BUILT_IN_TEMPLATES: WatchTemplate[] = [
+  {
+    id: 'competitor-site',
+    name: 'Competitor site',
+    description: "Track a competitor's pricing, product and announcement pages",
+    params: [
+      { key: 'competitor', label: 'Competitor', type: 'text', placeholder: 'Acme Corp' },
+      { key: 'url', label: 'Website', type: 'url', placeholder: 'https://acme.com' },
+    ],
+    nameTemplate: '{{competitor}} watch',
+    queryTemplate: 'Check {{url}} and recent news for {{competitor}}: pricing changes, new products or features, and announcements. Track each product/plan with its current price.',
+    modelTier: 'haiku',
+    cronExpression: '0 9 * * 1-5',
+    agentType: 'jac-research-agent',
+    alertRule: { type: 'any_change' },
+    builtIn: true,
+  },
+  {
+    id: 'github-releases',
+    name: 'GitHub releases',
+    description: "New releases of a GitHub repository",
+    params: [
+      { key: 'repo', label: 'Repository', type: 'text', placeholder: 'owner/name' },
+    ],
+    nameTemplate: '{{repo}} releases',
+    queryTemplate: 'List the latest releases of the GitHub repository {{repo}} (https://github.com/{{repo}}/releases). Track each release by its tag, with the date and headline changes.',
+    modelTier: 'haiku',
+    cronExpression: '0 9 * * *',
+    agentType: 'jac-research-agent',
+    alertRule: { type: 'new_item' },
+    builtIn: true,
+  },
+  {
+    id: 'stock-threshold',
+    name: 'Stock price threshold',
+    description: 'Alert when a ticker drops below a price',
+    params: [
+      { key: 'ticker', label: 'Ticker', type: 'ticker', placeholder: 'AAPL' },
+      { key: 'price', label: 'Alert below ($)', type: 'number', placeholder: '180' },
+    ],
+    nameTemplate: '{{ticker}} below ${{price}}',
+    queryTemplate: 'Find the latest share price of {{ticker}}. Track it as one finding keyed "{{ticker}}" with the price as its number, plus any major news moving the stock.',
+    modelTier: 'haiku',
+    cronExpression: '0 */6 * * *',
+    agentType: 'jac-research-agent',
+    alertRule: { type: 'below', value: '{{price}}', match: '{{ticker}}' },
+    builtIn: true,
+  },
+  {
+    id: 'web-search-term',
+    name: 'Web search term',
+    description: 'New web results for a search term',
+    params: [
+      { key: 'term', label: 'Search term', type: 'text', placeholder: 'vector database benchmarks' },
+    ],
+    nameTemplate: 'Web: {{term}}',
+    queryTemplate: 'Search the web for "{{term}}". Track each notable article or page by its URL, with its title and publish date.',
+    modelTier: 'haiku',
+    cronExpression: '0 9 * * *',
+    agentType: 'jac-research-agent',
+    alertRule: { type: 'new_item' },
+    builtIn: true,
+  },
+];
+
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (_match, key: string) => values[key] ?? '');
+}
+
+function normalizeParamValue(param: WatchTemplateParam, raw: string | undefined): string {
+  const value = (raw ?? param.default ?? '').trim();
+  if (param.type === 'ticker') return value.toUpperCase();
+  // "$1,050" → "1050", so prompts and thresholds see a plain number
+  if (param.type === 'number') return value.replace(/[$,\s]/g, '');
+  return value;
+}
+
+/** Validation message per parameter key; empty when the values are usable */
+export function templateErrors(template: WatchTemplate, values: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const param of template.params) {
+    const value = normalizeParamValue(param, values[param.key]);
+    if (!value) {
+      if (param.required !== false) errors[param.key] = 'Required';
+      continue;
+    }
+    if (param.type === 'url') {
+      try {
+        const url = new URL(value);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') errors[param.key] = 'Must be an http(s) URL';
+      } catch {
+        errors[param.key] = 'Must be a URL';
+      }
+    } else if (param.type === 'number' && !Number.isFinite(Number(value))) {
+      errors[param.key] = 'Must be a number';
+    } else if (param.type === 'ticker' && !/^[A-Z][A-Z0-9.-]{0,9}$/.test(value)) {
+      errors[param.key] = 'Must be a ticker like AAPL';
+    }
+  }
+  return errors;
+}
+
+/**
+ * Fill a template with parameter values. Throws on the first invalid value —
+ * check templateErrors first to show them per field.
+ */
+export function instantiateTemplate(template: WatchTemplate, values: Record<string, string>): WatchDraft {
+  const errors = templateErrors(template, values);
+  const firstError = Object.entries(errors)[0];
+  if (firstError) throw new Error(`${firstError[0]}: ${firstError[1]}`);
+
+  const params: Record<string, string> = {};
+  for (const param of template.params) {
+    params[param.key] = normalizeParamValue(param, values[param.key]);
+  }
+
+  const rule = template.alertRule;
+  let alertCondition: WatchAlertCondition;
+  if (rule.type === 'below' || rule.type === 'above') {
+    const value = typeof rule.value === 'number'
+      ? rule.value
+      : parseFloat(fillPlaceholders(String(rule.value ?? ''), params));
+    if (!Number.isFinite(value)) throw new Error(`Template "${template.name}" has no threshold value`);
+    const match = rule.match ? fillPlaceholders(rule.match, params).trim() : '';
+    alertCondition = { type: rule.type, value, ...(match ? { match } : {}) };
+  } else {
+    alertCondition = { type: rule.type };
+  }
+
+  return {
+    watchName: fillPlaceholders(template.nameTemplate, params).trim().slice(0, 100),
+    query: fillPlaceholders(template.queryTemplate, params).trim(),
+    cronExpression: template.cronExpression,
+    modelTier: template.modelTier,
+    agentType: template.agentType,
+    alertCondition,
+    templateId: template.id,
+    templateParams: params,
+  };
+}
+
+/** A parameterless template from an existing watch, for sharing it */
+export function templateFromWatch(watch: {
+  name: string;
+  query: string;
+  cronExpression: string;
+  modelTier?: string;
+  agentType?: string;
+  alertCondition?: WatchAlertCondition;
+}): WatchTemplate {
+  const condition = watch.alertCondition ?? { type: 'any_change' as const };
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name: watch.name,
+    description: watch.query.slice(0, 120),
+    params: [],
+    nameTemplate: watch.name,
+    queryTemplate: watch.query,
+    modelTier: MODEL_TIERS.includes(watch.modelTier as ModelTier) ? watch.modelTier as ModelTier : 'haiku',
+    cronExpression: watch.cronExpression,
+    agentType: AGENT_TYPES.includes(watch.agentType || '') ? watch.agentType! : 'jac-research-agent',
+    alertRule: condition,
+  };
+}
+
+export function serializeTemplates(templates: WatchTemplate[]): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    templates: templates.map(({ builtIn: _builtIn, ...template }) => template),
+  }, null, 2);
+}
+
+function parseTemplate(raw: unknown, index: number): WatchTemplate {
+  const where = `Template ${index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${where} is not an object`);
+  const t = raw as Record<string, unknown>;
+
+  for (const field of ['id', 'name', 'nameTemplate', 'queryTemplate', 'cronExpression'] as const) {
+    if (typeof t[field] !== 'string' || !(t[field] as string).trim()) throw new Error(`${where}: missing ${field}`);
+  }
+  if ((t.cronExpression as string).trim().split(/\s+/).length !== 5) {
+    throw new Error(`${where}: cronExpression must have 5 fields`);
+  }
+
+  const params = Array.isArray(t.params) ? t.params : [];
+  const parsedParams: WatchTemplateParam[] = params.map((p, i) => {
+    const param = (p || {}) as Record<string, unknown>;
+    if (typeof param.key !== 'string' || !/^\w+$/.test(param.key)) throw new Error(`${where}: parameter ${i + 1} needs a key of letters, digits or _`);
+    if (!PARAM_TYPES.includes(param.type as TemplateParamType)) throw new Error(`${where}: parameter "${param.key}" has unknown type "${param.type}"`);
+    return {
+      key: param.key,
+      label: typeof param.label === 'string' && param.label.trim() ? param.label : param.key,
+      type: param.type as TemplateParamType,
+      ...(typeof param.placeholder === 'string' ? { placeholder: param.placeholder } : {}),
+      ...(param.required === false ? { required: false } : {}),
+      ...(typeof param.default === 'string' ? { default: param.default } : {}),
+    };
+  });
+
+  const rule = (t.alertRule || { type: 'any_change' }) as Record<string, unknown>;
+  if (!CONDITION_TYPES.includes(rule.type as WatchConditionType)) throw new Error(`${where}: unknown alert rule "${rule.type}"`);
+  if ((rule.type === 'below' || rule.type === 'above') && typeof rule.value !== 'number' && typeof rule.value !== 'string') {
+    throw new Error(`${where}: a ${rule.type} alert rule needs a value`);
+  }
+
+  // Every placeholder must name a declared parameter
+  const declared = new Set(parsedParams.map(p => p.key));
+  const texts = [t.nameTemplate, t.queryTemplate, rule.value, rule.match].filter((v): v is string => typeof v === 'string');
+  for (const text of texts) {
+    for (const [, key] of text.matchAll(PLACEHOLDER)) {
+      if (!declared.has(key)) throw new Error(`${where}: {{${key}}} isn't a declared parameter`);
+    }
+  }
+
+  return {
+    id: (t.id as string).trim(),
+    name: (t.name as string).trim(),
+    description: typeof t.description === 'string' ? t.description : '',
+    params: parsedParams,
+    nameTemplate: t.nameTemplate as string,
+    queryTemplate: t.queryTemplate as string,
+    modelTier: MODEL_TIERS.includes(t.modelTier as ModelTier) ? t.modelTier as ModelTier : 'haiku',
+    cronExpression: (t.cronExpression as string).trim(),
+    agentType: AGENT_TYPES.includes(t.agentType as string) ? t.agentType as string : 'jac-research-agent',
+    alertRule: {
+      type: rule.type as WatchConditionType,
+      ...(rule.value !== undefined ? { value: rule.value as number | string } : {}),
+      ...(typeof rule.match === 'string' ? { match: rule.match } : {}),
+    },
+  };
+}
+
+/**
+ * Templates from exported JSON — the export wrapper, a bare array, or a
+ * single template. Throws with a readable message on anything invalid.
+ */
+export function parseTemplates(json: string): WatchTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (data && typeof data === 'object' && !Array.isArray(data) && 'templates' in data) {
+    const wrapper = data as { format?: unknown; version?: unknown; templates: unknown };
+    if (wrapper.format !== undefined && wrapper.format !== EXPORT_FORMAT) throw new Error(`Unknown format "${wrapper.format}"`);
+    if (typeof wrapper.version === 'number' && wrapper.version > EXPORT_VERSION) {
+      throw new Error(`Exported by a newer version (v${wrapper.version})`);
+    }
+    data = wrapper.templates;
+  }
+  const list = Array.isArray(data) ? data : [data];
+  if (list.length === 0) throw new Error('No templates in file');
+  return list.map(parseTemplate);
+}
+
+/**
+ * Add imported templates to the custom ones: same id replaces, and an id
+ * taken by a built-in gets a suffix so built-ins can't be shadowed
+ */
+export function mergeTemplates(custom: WatchTemplate[], incoming: WatchTemplate[]): WatchTemplate[] {
+  const builtInIds = new Set(BUILT_IN_TEMPLATES.map(t => t.id));
+  const merged = new Map(custom.map(t => [t.id, t]));
+  for (const { builtIn: _builtIn, ...template } of incoming) {
+    const id = builtInIds.has(template.id) ? `${template.id}-custom` : template.id;
+    merged.set(id, { ...template, id });
+  }
+  return [...merged.values()];
+}
@@ -9,7 +9,7 @@ import {
   Activity, Users, Brain, Bell, GitBranch,
   Lightbulb, Gauge, AlertTriangle, MessageSquare, CalendarDays,
   Sparkles, Radio, Globe, Compass, ShieldAlert, Flame, Link2, Eye,
-  TrendingUp, FileBarChart,
+  TrendingUp, FileBarChart, Layers,
 } from 'lucide-react';
 import type { WidgetDefinition, SandboxLayout } from '@/types/widget';
 import type { Layout } from 'react-grid-layout';
@@ -34,6 +34,7 @@ import TheWireWidget from '@/components/sandbox/widgets/TheWireWidget';
 import WatchesWidget from '@/components/sandbox/widgets/WatchesWidget';
 import MarketOverviewWidget from '@/components/sandbox/widgets/MarketOverviewWidget';
 import ReportsWidget from '@/components/sandbox/widgets/ReportsWidget';
+import SmartCollectionsWidget from '@/components/sandbox/widgets/SmartCollectionsWidget';
 
 export const WIDGET_DEFS: WidgetDefinition[] = [
   {
@@ -96,6 +97,16 @@ export const WIDGET_DEFS: WidgetDefinition[] = [
     component: BrainEntriesWidget,
     category: 'brain',
   },
+  {
+    typeId: 'smart-collections',
+    name: 'Smart Collections',
+    description: 'Saved searches that update as new entries match',
+    icon: Layers,
+    defaultSize: { w: 6, h: 4 },
+    minSize: { w: 3, h: 2 },
+    component: SmartCollectionsWidget,
+    category: 'brain',
+  },
   {
     typeId: 'code-sessions',
     name: 'Code Sessions',
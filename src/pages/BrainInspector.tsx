@@ -3,6 +3,8 @@
  *
  * Two-column layout: item list (left 60%) + inspector panel (right 40%).
  * Shows entries, reflections, embedding status, and semantic relationships.
+ * The Logs tab (?tab=logs&taskId=…) explores edge function logs alongside a
+ * task's activity log steps.
  */
 
 import { useEffect, useState } from 'react';
@@ -22,6 +24,7 @@ import {
   Users,
   BookOpen,
   Eye,
+  ScrollText,
 } from 'lucide-react';
 import {
   useBrainGraph,
@@ -30,6 +33,8 @@ import {
 } from '@/hooks/useBrainGraph';
 import { useBrainEntities, type BrainEntity } from '@/hooks/useBrainEntities';
 import { usePrinciples, type JacPrinciple } from '@/hooks/usePrinciples';
+import { LogExplorer, LogItemDetail } from '@/components/jac/LogExplorer';
+import type { LogTimelineItem } from '@/lib/functionLogs';
 
 // --------------- Constants ---------------
 
@@ -446,8 +451,20 @@ const BrainInspector = () => {
   const { principles, isLoading: principlesLoading } = usePrinciples(userId);
 
   // Extended tab state (includes entities + principles beyond what the hook supports)
-  type ExtendedTab = 'all' | 'entries' | 'reflections' | 'entities' | 'principles';
-  const [activeTab, setActiveTab] = useState<ExtendedTab>('all');
+  type ExtendedTab = 'all' | 'entries' | 'reflections' | 'entities' | 'principles' | 'logs';
+  const [activeTab, setActiveTab] = useState<ExtendedTab>(searchParams.get('tab') === 'logs' ? 'logs' : 'all');
+  const [selectedLogItem, setSelectedLogItem] = useState<LogTimelineItem | null>(null);
+  const logTaskId = searchParams.get('taskId');
+
+  // Deep links (TaskCard "View logs") land on the Logs tab
+  useEffect(() => {
+    if (searchParams.get('tab') === 'logs') setActiveTab('logs');
+  }, [searchParams]);
+
+  const handleLogTaskChange = (taskId: string | null) => {
+    setSelectedLogItem(null);
+    setSearchParams(taskId ? { tab: 'logs', taskId } : { tab: 'logs' }, { replace: true });
+  };
 
   // Auto-select entry from URL param (?entryId=xxx)
   useEffect(() => {
@@ -467,6 +484,11 @@ const BrainInspector = () => {
 
   const handleTabChange = (t: ExtendedTab) => {
     setActiveTab(t);
+    if (t === 'logs') {
+      if (searchParams.get('tab') !== 'logs') setSearchParams({ tab: 'logs' }, { replace: true });
+    } else if (searchParams.get('tab')) {
+      setSearchParams({}, { replace: true });
+    }
     if (t === 'all' || t === 'entries' || t === 'reflections') {
       setTab(t);
     }
@@ -507,6 +529,7 @@ const BrainInspector = () => {
               { key: 'reflections', label: 'Reflections' },
               { key: 'entities', label: 'Entities' },
               { key: 'principles', label: 'Principles' },
+              { key: 'logs', label: 'Logs' },
             ] as const).map((t) => (
               <button
                 key={t.key}
@@ -524,144 +547,166 @@ const BrainInspector = () => {
           </div>
 
           {/* Item list */}
-          <div className="flex-1 overflow-y-auto">
-            {activeTab === 'entities' ? (
-              entitiesLoading ? (
-                <div className="flex items-center justify-center h-32">
-                  <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
-                </div>
-              ) : brainEntities.length === 0 ? (
-                <div className="flex flex-col items-center justify-center h-32 gap-2">
-                  <Users className="w-6 h-6 text-white/20" />
-                  <span className="text-sm text-white/30">No entities yet</span>
-                </div>
-              ) : (
-                (() => {
-                  const grouped: Record<string, BrainEntity[]> = {};
-                  for (const e of brainEntities) {
-                    const key = e.entity_type || 'unknown';
-                    if (!grouped[key]) grouped[key] = [];
-                    grouped[key].push(e);
-                  }
-                  return Object.entries(grouped).map(([type, entities]) => (
-                    <div key={type}>
-                      <div className="px-3 py-1.5 bg-white/[0.02] border-b border-white/5">
-                        <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">
-                          {type}
-                        </span>
-                        <span className="text-[10px] text-white/20 ml-2">{entities.length}</span>
+          {activeTab === 'logs' ? (
+            <div className="flex-1 overflow-hidden">
+              <LogExplorer
+                taskId={logTaskId}
+                onTaskIdChange={handleLogTaskChange}
+                selectedId={selectedLogItem?.id ?? null}
+                onSelect={setSelectedLogItem}
+              />
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto">
+              {activeTab === 'entities' ? (
+                entitiesLoading ? (
+                  <div className="flex items-center justify-center h-32">
+                    <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
+                  </div>
+                ) : brainEntities.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center h-32 gap-2">
+                    <Users className="w-6 h-6 text-white/20" />
+                    <span className="text-sm text-white/30">No entities yet</span>
+                  </div>
+                ) : (
+                  (() => {
+                    const grouped: Record<string, BrainEntity[]> = {};
+                    for (const e of brainEntities) {
+                      const key = e.entity_type || 'unknown';
+                      if (!grouped[key]) grouped[key] = [];
+                      grouped[key].push(e);
+                    }
+                    return Object.entries(grouped).map(([type, entities]) => (
+                      <div key={type}>
+                        <div className="px-3 py-1.5 bg-white/[0.02] border-b border-white/5">
+                          <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">
+                            {type}
+                          </span>
+                          <span className="text-[10px] text-white/20 ml-2">{entities.length}</span>
+                        </div>
+                        {entities.map((entity) => (
+                          <button
+                            key={entity.id}
+                            onClick={() => fetchMentions(entity.id)}
+                            className={cn(
+                              'w-full text-left px-3 py-2.5 border-b border-white/5 hover:bg-white/[0.03] transition-colors flex items-start gap-2',
+                              selectedEntityId === entity.id && 'bg-white/[0.05] border-l-2 border-l-blue-500',
+                            )}
+                          >
+                            <Users className="w-3.5 h-3.5 text-white/30 shrink-0 mt-0.5" />
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs text-white/70 font-medium">{entity.name}</span>
+                                <span className="text-[10px] text-white/30 font-mono">{entity.mention_count}x</span>
+                              </div>
+                              <span className="text-[10px] text-white/30">
+                                first: {timeAgo(entity.first_seen)} / last: {timeAgo(entity.last_seen)}
+                              </span>
+                            </div>
+                          </button>
+                        ))}
                       </div>
-                      {entities.map((entity) => (
-                        <button
-                          key={entity.id}
-                          onClick={() => fetchMentions(entity.id)}
-                          className={cn(
-                            'w-full text-left px-3 py-2.5 border-b border-white/5 hover:bg-white/[0.03] transition-colors flex items-start gap-2',
-                            selectedEntityId === entity.id && 'bg-white/[0.05] border-l-2 border-l-blue-500',
-                          )}
-                        >
-                          <Users className="w-3.5 h-3.5 text-white/30 shrink-0 mt-0.5" />
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs text-white/70 font-medium">{entity.name}</span>
-                              <span className="text-[10px] text-white/30 font-mono">{entity.mention_count}x</span>
+                    ));
+                  })()
+                )
+              ) : activeTab === 'principles' ? (
+                principlesLoading ? (
+                  <div className="flex items-center justify-center h-32">
+                    <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
+                  </div>
+                ) : principles.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center h-32 gap-2">
+                    <BookOpen className="w-6 h-6 text-white/20" />
+                    <span className="text-sm text-white/30">No principles yet</span>
+                    <span className="text-[10px] text-white/15 max-w-[240px] text-center">
+                      Principles are distilled weekly from reflections (Sunday 3 AM UTC)
+                    </span>
+                  </div>
+                ) : (
+                  principles.map((p) => (
+                    <div
+                      key={p.id}
+                      className="w-full text-left px-3 py-2.5 border-b border-white/5 hover:bg-white/[0.03] transition-colors"
+                    >
+                      <div className="flex items-start gap-2">
+                        <BookOpen className="w-3.5 h-3.5 text-white/30 shrink-0 mt-0.5" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs text-white/70 line-clamp-2">{p.principle}</p>
+                          <div className="flex items-center gap-3 mt-1.5">
+                            {/* Confidence bar */}
+                            <div className="flex items-center gap-1.5">
+                              <span className="text-[10px] text-white/30">confidence:</span>
+                              <div className="w-16 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-emerald-400 rounded-full"
+                                  style={{ width: `${Math.round(p.confidence * 100)}%` }}
+                                />
+                              </div>
+                              <span className="text-[10px] text-white/40 font-mono">
+                                {Math.round(p.confidence * 100)}%
+                              </span>
                             </div>
-                            <span className="text-[10px] text-white/30">
-                              first: {timeAgo(entity.first_seen)} / last: {timeAgo(entity.last_seen)}
+                            <span className="text-[10px] text-white/30 font-mono">
+                              applied: {p.times_applied}x
+                            </span>
+                            <span className="text-[10px] text-white/20">
+                              validated: {timeAgo(p.last_validated)}
                             </span>
                           </div>
-                        </button>
-                      ))}
+                        </div>
+                      </div>
                     </div>
-                  ));
-                })()
-              )
-            ) : activeTab === 'principles' ? (
-              principlesLoading ? (
+                  ))
+                )
+              ) : isLoading ? (
                 <div className="flex items-center justify-center h-32">
                   <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
                 </div>
-              ) : principles.length === 0 ? (
+              ) : allItems.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-32 gap-2">
-                  <BookOpen className="w-6 h-6 text-white/20" />
-                  <span className="text-sm text-white/30">No principles yet</span>
-                  <span className="text-[10px] text-white/15 max-w-[240px] text-center">
-                    Principles are distilled weekly from reflections (Sunday 3 AM UTC)
+                  <Search className="w-6 h-6 text-white/20" />
+                  <span className="text-sm text-white/30">
+                    {tab === 'reflections'
+                      ? 'No reflections yet'
+                      : 'No entries yet'}
                   </span>
+                  {tab === 'reflections' && (
+                    <span className="text-[10px] text-white/15 max-w-[240px] text-center">
+                      Reflections are generated when JAC completes agent tasks
+                    </span>
+                  )}
                 </div>
               ) : (
-                principles.map((p) => (
-                  <div
-                    key={p.id}
-                    className="w-full text-left px-3 py-2.5 border-b border-white/5 hover:bg-white/[0.03] transition-colors"
-                  >
-                    <div className="flex items-start gap-2">
-                      <BookOpen className="w-3.5 h-3.5 text-white/30 shrink-0 mt-0.5" />
-                      <div className="flex-1 min-w-0">
-                        <p className="text-xs text-white/70 line-clamp-2">{p.principle}</p>
-                        <div className="flex items-center gap-3 mt-1.5">
-                          {/* Confidence bar */}
-                          <div className="flex items-center gap-1.5">
-                            <span className="text-[10px] text-white/30">confidence:</span>
-                            <div className="w-16 h-1.5 bg-white/10 rounded-full overflow-hidden">
-                              <div
-                                className="h-full bg-emerald-400 rounded-full"
-                                style={{ width: `${Math.round(p.confidence * 100)}%` }}
-                              />
-                            </div>
-                            <span className="text-[10px] text-white/40 font-mono">
-                              {Math.round(p.confidence * 100)}%
-                            </span>
-                          </div>
-                          <span className="text-[10px] text-white/30 font-mono">
-                            applied: {p.times_applied}x
-                          </span>
-                          <span className="text-[10px] text-white/20">
-                            validated: {timeAgo(p.last_validated)}
-                          </span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
+                allItems.map((item) => (
+                  <ItemListEntry
+                    key={`${item.kind}-${item.id}`}
+                    item={item}
+                    isSelected={
+                      selectedItem?.id === item.id &&
+                      selectedItem?.kind === item.kind
+                    }
+                    onSelect={() => selectItem(item)}
+                  />
                 ))
-              )
-            ) : isLoading ? (
-              <div className="flex items-center justify-center h-32">
-                <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
-              </div>
-            ) : allItems.length === 0 ? (
-              <div className="flex flex-col items-center justify-center h-32 gap-2">
-                <Search className="w-6 h-6 text-white/20" />
-                <span className="text-sm text-white/30">
-                  {tab === 'reflections'
-                    ? 'No reflections yet'
-                    : 'No entries yet'}
-                </span>
-                {tab === 'reflections' && (
-                  <span className="text-[10px] text-white/15 max-w-[240px] text-center">
-                    Reflections are generated when JAC completes agent tasks
-                  </span>
-                )}
-              </div>
-            ) : (
-              allItems.map((item) => (
-                <ItemListEntry
-                  key={`${item.kind}-${item.id}`}
-                  item={item}
-                  isSelected={
-                    selectedItem?.id === item.id &&
-                    selectedItem?.kind === item.kind
-                  }
-                  onSelect={() => selectItem(item)}
-                />
-              ))
-            )}
-          </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Right column: Inspector (40%) */}
         <div className="w-[40%] flex flex-col overflow-hidden bg-white/[0.01]">
-          {activeTab === 'entities' && selectedEntityId ? (
+          {activeTab === 'logs' ? (
+            selectedLogItem ? (
+              <LogItemDetail key={selectedLogItem.id} item={selectedLogItem} />
+            ) : (
+              <div className="flex flex-col items-center justify-center h-full gap-2">
+                <ScrollText className="w-8 h-8 text-white/10" />
+                <span className="text-xs text-white/20">
+                  Select a log line or step to inspect
+                </span>
+              </div>
+            )
+          ) : activeTab === 'entities' && selectedEntityId ? (
             <div className="flex flex-col h-full">
               <div className="px-4 py-3 border-b border-white/10">
                 <div className="flex items-center gap-2">
@@ -1,7 +1,8 @@
 /**
  * Calendar page — Month grid + timeline view of reminders and events.
- * Top: navigable month grid with event dots.
- * Bottom: Overdue, Today, This Week, Upcoming sections with action menus.
+ * Top: navigable month grid with event dots (every occurrence of recurring entries).
+ * Bottom: Overdue, Today, This Week, Upcoming sections with action menus;
+ * recurring entries appear once, at their next occurrence.
  */
 
 import { useState, useMemo, useRef, useCallback } from 'react';
@@ -23,11 +24,15 @@ import {
   Eye,
   Check,
   Trash2,
+  Rss,
+  CalendarX,
 } from 'lucide-react';
 import { useCalendarEntries, type CalendarEntry, type CreateEventData } from '@/hooks/useCalendarEntries';
 import { useEntryActions } from '@/hooks/useEntryActions';
 import { cn } from '@/lib/utils';
+import { describeEntryRecurrence, entryRRule } from '@/lib/rrule';
 import { CreateEventModal } from '@/components/calendar/CreateEventModal';
+import { CalendarSyncDialog } from '@/components/calendar/CalendarSyncDialog';
 import EntryView from '@/components/EntryView';
 import {
   DropdownMenu,
@@ -92,21 +97,29 @@ function formatEventTime(timeStr: string | null): string | null {
 
 // --- Month Grid ---
 function MonthGrid({
-  allEntries,
+  occurrencesBetween,
   selectedDate,
   onSelectDate,
   onCreateEvent,
 }: {
-  allEntries: CalendarEntry[];
+  occurrencesBetween: (from: string, to: string) => CalendarEntry[];
   selectedDate: Date | null;
   onSelectDate: (date: Date) => void;
   onCreateEvent: (date: Date) => void;
 }) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
+  const monthStart = startOfMonth(currentMonth);
+  const monthEnd = endOfMonth(currentMonth);
+  const calStart = startOfWeek(monthStart, { weekStartsOn: 0 });
+  const calEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
+  const days = eachDayOfInterval({ start: calStart, end: calEnd });
+  const rangeStart = format(calStart, 'yyyy-MM-dd');
+  const rangeEnd = format(calEnd, 'yyyy-MM-dd');
+
   const dateMap = useMemo(() => {
     const map: Record<string, { count: number; types: Set<string> }> = {};
-    for (const entry of allEntries) {
+    for (const entry of occurrencesBetween(rangeStart, rangeEnd)) {
       if (!map[entry.event_date]) {
         map[entry.event_date] = { count: 0, types: new Set() };
       }
@@ -114,13 +127,7 @@ function MonthGrid({
       map[entry.event_date].types.add(entry.content_type);
     }
     return map;
-  }, [allEntries]);
-
-  const monthStart = startOfMonth(currentMonth);
-  const monthEnd = endOfMonth(currentMonth);
-  const calStart = startOfWeek(monthStart, { weekStartsOn: 0 });
-  const calEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
-  const days = eachDayOfInterval({ start: calStart, end: calEnd });
+  }, [occurrencesBetween, rangeStart, rangeEnd]);
 
   return (
     <div className="border-b border-white/10 pb-4">
@@ -222,15 +229,18 @@ function CalendarItem({
   onView,
   onArchive,
   onDelete,
+  onSkip,
 }: {
   entry: CalendarEntry;
   isOverdue?: boolean;
   onView: (entry: CalendarEntry) => void;
   onArchive: (id: string) => void;
   onDelete: (id: string) => void;
+  onSkip: (entry: CalendarEntry) => void;
 }) {
   const categoryStyle = CATEGORY_COLORS[entry.content_type] ?? 'bg-white/10 text-white/50';
   const formattedTime = formatEventTime(entry.event_time);
+  const recurrence = describeEntryRecurrence(entry);
 
   return (
     <div
@@ -269,10 +279,13 @@ function CalendarItem({
 
       {/* Badges */}
       <div className="flex items-center gap-1.5 shrink-0">
-        {entry.is_recurring && (
-          <span className="text-[9px] px-1.5 py-0.5 rounded bg-violet-500/20 text-violet-400 font-medium flex items-center gap-0.5">
-            <Repeat className="w-2.5 h-2.5" />
-            {entry.recurrence_pattern || 'recurring'}
+        {recurrence && (
+          <span
+            title={recurrence}
+            className="text-[9px] px-1.5 py-0.5 rounded bg-violet-500/20 text-violet-400 font-medium flex items-center gap-0.5 max-w-[140px]"
+          >
+            <Repeat className="w-2.5 h-2.5 shrink-0" />
+            <span className="truncate">{recurrence}</span>
           </span>
         )}
         <span
@@ -303,6 +316,12 @@ function CalendarItem({
               <Check className="w-3.5 h-3.5 mr-2" />
               Mark Done
             </DropdownMenuItem>
+            {entryRRule(entry) && (
+              <DropdownMenuItem onClick={() => onSkip(entry)}>
+                <CalendarX className="w-3.5 h-3.5 mr-2" />
+                Skip this date
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem
               className="text-red-400 focus:text-red-400"
               onClick={() => onDelete(entry.id)}
@@ -330,6 +349,7 @@ function Section({
   onView,
   onArchive,
   onDelete,
+  onSkip,
 }: {
   title: string;
   icon: React.ComponentType<{ className?: string }>;
@@ -342,6 +362,7 @@ function Section({
   onView: (entry: CalendarEntry) => void;
   onArchive: (id: string) => void;
   onDelete: (id: string) => void;
+  onSkip: (entry: CalendarEntry) => void;
 }) {
   if (entries.length === 0 && !emptyText) return null;
 
@@ -372,12 +393,13 @@ function Section({
         <div className="divide-y divide-white/5">
           {entries.map((entry) => (
             <CalendarItem
-              key={entry.id}
+              key={`${entry.id}-${entry.event_date}`}
               entry={entry}
               isOverdue={isOverdue}
               onView={onView}
               onArchive={onArchive}
               onDelete={onDelete}
+              onSkip={onSkip}
             />
           ))}
         </div>
@@ -395,6 +417,7 @@ function DayDetail({
   onView,
   onArchive,
   onDelete,
+  onSkip,
 }: {
   date: Date;
   entries: CalendarEntry[];
@@ -403,6 +426,7 @@ function DayDetail({
   onView: (entry: CalendarEntry) => void;
   onArchive: (id: string) => void;
   onDelete: (id: string) => void;
+  onSkip: (entry: CalendarEntry) => void;
 }) {
   const isPast = date < new Date() && !isToday(date);
 
@@ -437,12 +461,13 @@ function DayDetail({
       <div className="divide-y divide-white/5">
         {entries.map((entry) => (
           <CalendarItem
-            key={entry.id}
+            key={`${entry.id}-${entry.event_date}`}
             entry={entry}
             isOverdue={isPast && !isToday(date)}
             onView={onView}
             onArchive={onArchive}
             onDelete={onDelete}
+            onSkip={onSkip}
           />
         ))}
       </div>
@@ -452,11 +477,14 @@ function DayDetail({
 
 // --- Main page ---
 const Calendar = () => {
-  const { overdue, today, thisWeek, upcoming, isLoading, error, createEvent } = useCalendarEntries();
+  const {
+    overdue, today, thisWeek, upcoming, isLoading, error, createEvent, occurrencesBetween, skipOccurrence,
+  } = useCalendarEntries();
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [createModalDate, setCreateModalDate] = useState<Date | null>(null);
   const [viewEntry, setViewEntry] = useState<Entry | null>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [syncOpen, setSyncOpen] = useState(false);
   const timelineRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -472,8 +500,8 @@ const Calendar = () => {
   const selectedDateEntries = useMemo(() => {
     if (!selectedDate) return [];
     const dateStr = format(selectedDate, 'yyyy-MM-dd');
-    return allEntries.filter(e => e.event_date === dateStr);
-  }, [selectedDate, allEntries]);
+    return occurrencesBetween(dateStr, dateStr);
+  }, [selectedDate, occurrencesBetween]);
 
   const handleSelectDate = (date: Date) => {
     setSelectedDate(prev => prev && isSameDay(prev, date) ? null : date);
@@ -485,7 +513,9 @@ const Calendar = () => {
   };
 
   const handleView = useCallback((entry: CalendarEntry) => {
-    setViewEntry(entry as Entry);
+    // Edit the series, not the occurrence that was clicked
+    const { series_date, ...rest } = entry;
+    setViewEntry({ ...rest, event_date: series_date ?? entry.event_date } as Entry);
   }, []);
 
   const handleArchive = useCallback((id: string) => {
@@ -496,6 +526,16 @@ const Calendar = () => {
     setDeleteId(id);
   }, []);
 
+  const handleSkip = useCallback(async (entry: CalendarEntry) => {
+    try {
+      await skipOccurrence(entry, entry.event_date);
+      toast({ title: 'Occurrence skipped', description: formatEventDate(entry.event_date) });
+    } catch (err) {
+      console.error('[Calendar] Skip failed:', err);
+      toast({ title: 'Could not skip that date', variant: 'destructive' });
+    }
+  }, [skipOccurrence, toast]);
+
   return (
     <div className="h-[calc(100vh-3.5rem)] bg-black flex flex-col overflow-hidden">
       {/* Page header */}
@@ -504,11 +544,20 @@ const Calendar = () => {
           <CalendarDays className="w-5 h-5 text-white/70" />
           <h1 className="text-lg font-semibold text-white">Calendar</h1>
         </div>
-        {!isLoading && (
-          <span className="text-xs text-white/40">
-            {totalCount} event{totalCount !== 1 ? 's' : ''}
-          </span>
-        )}
+        <div className="flex items-center gap-3">
+          {!isLoading && (
+            <span className="text-xs text-white/40">
+              {totalCount} event{totalCount !== 1 ? 's' : ''}
+            </span>
+          )}
+          <button
+            onClick={() => setSyncOpen(true)}
+            className="text-xs text-white/50 hover:text-white/80 px-2 py-1 rounded hover:bg-white/10 transition-colors flex items-center gap-1"
+          >
+            <Rss className="w-3.5 h-3.5" />
+            Sync
+          </button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -525,7 +574,7 @@ const Calendar = () => {
           <div className="max-w-3xl mx-auto">
             {/* Month grid */}
             <MonthGrid
-              allEntries={allEntries}
+              occurrencesBetween={occurrencesBetween}
               selectedDate={selectedDate}
               onSelectDate={handleSelectDate}
               onCreateEvent={(date) => setCreateModalDate(date)}
@@ -541,6 +590,7 @@ const Calendar = () => {
                 onView={handleView}
                 onArchive={handleArchive}
                 onDelete={handleDelete}
+                onSkip={handleSkip}
               />
             )}
 
@@ -562,6 +612,7 @@ const Calendar = () => {
                   onView={handleView}
                   onArchive={handleArchive}
                   onDelete={handleDelete}
+                  onSkip={handleSkip}
                 />
                 <Section
                   title="Today"
@@ -573,6 +624,7 @@ const Calendar = () => {
                   onView={handleView}
                   onArchive={handleArchive}
                   onDelete={handleDelete}
+                  onSkip={handleSkip}
                 />
                 <Section
                   title="This Week"
@@ -583,6 +635,7 @@ const Calendar = () => {
                   onView={handleView}
                   onArchive={handleArchive}
                   onDelete={handleDelete}
+                  onSkip={handleSkip}
                 />
                 <Section
                   title="Upcoming"
@@ -593,6 +646,7 @@ const Calendar = () => {
                   onView={handleView}
                   onArchive={handleArchive}
                   onDelete={handleDelete}
+                  onSkip={handleSkip}
                 />
               </>
             )}
@@ -608,6 +662,9 @@ const Calendar = () => {
         onSubmit={handleCreateEvent}
       />
 
+      {/* ICS feed, import and subscriptions */}
+      {syncOpen && <CalendarSyncDialog open={syncOpen} onOpenChange={setSyncOpen} />}
+
       {/* EntryView modal */}
       <EntryView
         entry={viewEntry}
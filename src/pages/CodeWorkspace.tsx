@@ -3,7 +3,8 @@
  *
  * Three-column desktop layout:
  * - ProjectList sidebar (w-56)
- * - FileBrowser + CodeViewer (flex-1)
+ * - FileBrowser + CodeViewer (flex-1) — ApprovalPanel while reviewing a held PR,
+ *   the PR diff (with inline comments) while continuing a session
  * - AgentTerminal + CodeChat + SessionHistory (bottom/right)
  *
  * Mobile: Tabs for Projects / Files / Terminal / Chat
@@ -14,7 +15,7 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
-  Code2, FolderTree, Terminal, MessageSquare, History,
+  Code2, FolderTree, Terminal, MessageSquare, History, ShieldCheck,
 } from 'lucide-react';
 import { useCodeWorkspace } from '@/hooks/useCodeWorkspace';
 import { ProjectList } from '@/components/code/ProjectList';
@@ -24,11 +25,20 @@ import { CodeViewer } from '@/components/code/CodeViewer';
 import { AgentTerminal } from '@/components/code/AgentTerminal';
 import { CodeChat } from '@/components/code/CodeChat';
 import { SessionHistory } from '@/components/code/SessionHistory';
+import { ApprovalPanel } from '@/components/code/ApprovalPanel';
+import { MergePolicyDialog } from '@/components/code/MergePolicyDialog';
+import { lineCommentMessage } from '@/lib/unifiedDiff';
+import type { DiffLine } from '@/lib/unifiedDiff';
+import type { CodeProject, CodeSession } from '@/types/agent';
 
 const CodeWorkspace = () => {
   const navigate = useNavigate();
   const [userId, setUserId] = useState<string>('');
   const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [policyProject, setPolicyProject] = useState<CodeProject | null>(null);
+  const [reviewSessionId, setReviewSessionId] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [panelTab, setPanelTab] = useState('terminal');
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -41,17 +51,41 @@ const CodeWorkspace = () => {
   }, [navigate]);
 
   const {
-    projects, sessions, activeProject, activeSession,
-    fileTree, selectedFile, selectedFileContent, fileLoading,
+    projects, sessions, activeProject, activeSession, continuingSession, continuingDiff,
+    fileTree, symbolIndex, selectedFile, selectedFileContent, fileLoading,
     terminalLogs, chatMessages, loading, sending,
     addProject, removeProject, selectProject, setSelectedFile,
-    sendCodeCommand, loadFileContent, cancelTask,
+    sendCodeCommand, continueSession, loadFileContent, cancelTask,
+    loadSessionDiff, reviewSession, updateMergePolicy,
   } = useCodeWorkspace(userId);
 
+  const reviewing = sessions.find(s => s.id === reviewSessionId) ?? null;
+  const pendingApprovals = sessions.filter(s => s.status === 'awaiting_approval');
+
   // Find the running code task (child task from the active session)
   const runningTaskId = activeSession?.task_id ?? null;
   const isRunning = activeSession?.status === 'active';
 
+  // Continuing a session: chat and inline diff comments become follow-ups on its PR
+  const handleContinue = (session: CodeSession) => {
+    continueSession(session.id);
+    setReviewSessionId(null);
+    setShowDiff(true);
+    setPanelTab('chat');
+  };
+
+  const handleSelectFile = (path: string) => {
+    setShowDiff(false);
+    loadFileContent(path);
+  };
+
+  const prDiff = showDiff && continuingSession && continuingDiff !== null
+    ? { title: `PR #${continuingSession.pr_number} · ${continuingSession.branch_name}`, text: continuingDiff }
+    : null;
+  const handleLineComment = continuingSession && continuingSession.status !== 'active' && !sending
+    ? (line: DiffLine, comment: string) => sendCodeCommand(lineCommentMessage(line, comment))
+    : undefined;
+
   if (!userId) return null;
 
   return (
@@ -74,6 +108,15 @@ const CodeWorkspace = () => {
             {activeProject.repo_full_name}
           </div>
         )}
+        {pendingApprovals.length > 0 && (
+          <button
+            className={`flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300 transition-colors ${activeSession || activeProject ? 'ml-3' : 'ml-auto'}`}
+            onClick={() => setReviewSessionId(pendingApprovals[0].id)}
+          >
+            <ShieldCheck className="w-3.5 h-3.5" />
+            {pendingApprovals.length} awaiting approval
+          </button>
+        )}
       </div>
 
       {/* Main content */}
@@ -88,6 +131,7 @@ const CodeWorkspace = () => {
               onSelect={selectProject}
               onAdd={() => setAddDialogOpen(true)}
               onRemove={removeProject}
+              onEditPolicy={setPolicyProject}
             />
           </div>
 
@@ -97,22 +141,34 @@ const CodeWorkspace = () => {
               <FileBrowser
                 files={fileTree}
                 selectedFile={selectedFile}
-                onSelectFile={loadFileContent}
+                onSelectFile={handleSelectFile}
                 loading={fileLoading}
+                symbolIndex={symbolIndex}
               />
             </div>
             <div className="flex-1 overflow-hidden">
-              <CodeViewer
-                content={selectedFileContent}
-                filePath={selectedFile}
-                loading={fileLoading}
-              />
+              {reviewing ? (
+                <ApprovalPanel
+                  session={reviewing}
+                  loadDiff={loadSessionDiff}
+                  onReview={reviewSession}
+                  onClose={() => setReviewSessionId(null)}
+                />
+              ) : (
+                <CodeViewer
+                  content={selectedFileContent}
+                  filePath={selectedFile}
+                  loading={fileLoading}
+                  diff={prDiff}
+                  onComment={handleLineComment}
+                />
+              )}
             </div>
           </div>
 
           {/* Terminal + Chat + Sessions panel */}
           <div className="w-[380px] flex flex-col bg-card/20">
-            <Tabs defaultValue="terminal" className="flex-1 flex flex-col">
+            <Tabs value={panelTab} onValueChange={setPanelTab} className="flex-1 flex flex-col">
               <TabsList className="mx-3 mt-2 grid grid-cols-3 h-8">
                 <TabsTrigger value="terminal" className="text-xs gap-1.5 h-7">
                   <Terminal className="w-3.5 h-3.5" />
@@ -144,11 +200,19 @@ const CodeWorkspace = () => {
                   sending={sending}
                   projectName={activeProject?.name ?? null}
                   messages={chatMessages}
+                  continuing={continuingSession}
+                  onStopContinuing={() => continueSession(null)}
+                  onShowDiff={() => setShowDiff(true)}
                 />
               </TabsContent>
 
               <TabsContent value="sessions" className="flex-1 m-0 overflow-auto">
-                <SessionHistory sessions={sessions} />
+                <SessionHistory
+                  sessions={sessions}
+                  onReview={(session) => setReviewSessionId(session.id)}
+                  onContinue={handleContinue}
+                  continuingId={continuingSession?.id ?? null}
+                />
               </TabsContent>
             </Tabs>
           </div>
@@ -184,6 +248,7 @@ const CodeWorkspace = () => {
                 onSelect={selectProject}
                 onAdd={() => setAddDialogOpen(true)}
                 onRemove={removeProject}
+                onEditPolicy={setPolicyProject}
               />
             </TabsContent>
 
@@ -192,16 +257,28 @@ const CodeWorkspace = () => {
                 <FileBrowser
                   files={fileTree}
                   selectedFile={selectedFile}
-                  onSelectFile={loadFileContent}
+                  onSelectFile={handleSelectFile}
                   loading={fileLoading}
+                  symbolIndex={symbolIndex}
                 />
               </div>
               <div className="flex-1 overflow-hidden">
-                <CodeViewer
-                  content={selectedFileContent}
-                  filePath={selectedFile}
-                  loading={fileLoading}
-                />
+                {reviewing ? (
+                  <ApprovalPanel
+                    session={reviewing}
+                    loadDiff={loadSessionDiff}
+                    onReview={reviewSession}
+                    onClose={() => setReviewSessionId(null)}
+                  />
+                ) : (
+                  <CodeViewer
+                    content={selectedFileContent}
+                    filePath={selectedFile}
+                    loading={fileLoading}
+                    diff={prDiff}
+                    onComment={handleLineComment}
+                  />
+                )}
               </div>
             </TabsContent>
 
@@ -220,6 +297,9 @@ const CodeWorkspace = () => {
                 sending={sending}
                 projectName={activeProject?.name ?? null}
                 messages={chatMessages}
+                continuing={continuingSession}
+                onStopContinuing={() => continueSession(null)}
+                onShowDiff={() => setShowDiff(true)}
               />
             </TabsContent>
           </Tabs>
@@ -229,11 +309,17 @@ const CodeWorkspace = () => {
       <AddProjectDialog
         open={addDialogOpen}
         onOpenChange={setAddDialogOpen}
-        onAdd={(repo, name, stack, branch) => {
-          addProject(repo, name, stack, branch);
+        onAdd={(repo, name, stack, branch, gitHost) => {
+          addProject(repo, name, stack, branch, gitHost);
           setAddDialogOpen(false);
         }}
       />
+
+      <MergePolicyDialog
+        project={policyProject}
+        onOpenChange={(open) => { if (!open) setPolicyProject(null); }}
+        onSave={updateMergePolicy}
+      />
     </div>
   );
 };
@@ -3,15 +3,20 @@
  *
  * System Jobs tab: pg_cron infrastructure (toggle only).
  * Watches tab: full CRUD — create, edit, run now, skip next, delete.
+ * Watch templates: create from a template, save a watch as one, and
+ * import/export them as JSON.
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
 import { useCronJobs, type CronJob } from '@/hooks/useCronJobs';
 import { useWatches, type Watch } from '@/hooks/useWatches';
 import { CreateWatchDialog } from '@/components/watches/CreateWatchDialog';
+import { describeCondition, type WatchAlertCondition } from '@/lib/watchConditions';
+import { useWatchTemplates } from '@/hooks/useWatchTemplates';
+import { templateFromWatch } from '@/lib/watchTemplates';
 import {
   Timer,
   Loader2,
@@ -29,6 +34,9 @@ import {
   Trash2,
   ChevronDown,
   ChevronUp,
+  LayoutTemplate,
+  Upload,
+  Download,
 } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import {
@@ -113,13 +121,14 @@ const MODEL_BADGE: Record<string, string> = {
   haiku: 'bg-white/5 text-white/40',
 };
 
-function WatchCard({ watch, onToggle, onEdit, onRunNow, onSkipNext, onDelete }: {
+function WatchCard({ watch, onToggle, onEdit, onRunNow, onSkipNext, onDelete, onSaveTemplate }: {
   watch: Watch;
   onToggle: (id: string, active: boolean) => void;
   onEdit: (watch: Watch) => void;
   onRunNow: (id: string) => void;
   onSkipNext: (id: string) => void;
   onDelete: (id: string) => void;
+  onSaveTemplate: (watch: Watch) => void;
 }) {
   const [expanded, setExpanded] = useState(false);
   const [runs, setRuns] = useState<Array<{ id: string; status: string; completed_at: string | null; output: Record<string, unknown> | null; cost_usd: number | null }>>([]);
@@ -148,6 +157,7 @@ function WatchCard({ watch, onToggle, onEdit, onRunNow, onSkipNext, onDelete }:
         <div className="flex-1 min-w-0">
           <p className="text-xs text-white/80 font-medium truncate">{watch.input.watchName || watch.intent}</p>
           <p className="text-[10px] text-white/30 truncate">{watch.input.query}</p>
+          <p className="text-[9px] text-white/25 truncate">{describeCondition(watch.input.alertCondition)}</p>
         </div>
 
         {/* Schedule */}
@@ -201,6 +211,10 @@ function WatchCard({ watch, onToggle, onEdit, onRunNow, onSkipNext, onDelete }:
                 Skip Next
               </DropdownMenuItem>
             )}
+            <DropdownMenuItem onClick={() => onSaveTemplate(watch)} className="text-xs text-white/70 focus:text-white focus:bg-white/10">
+              <LayoutTemplate className="w-3 h-3 mr-2" />
+              Save as Template
+            </DropdownMenuItem>
             <DropdownMenuSeparator className="bg-white/10" />
             <DropdownMenuItem
               onClick={() => { if (confirm('Delete this watch?')) onDelete(watch.id); }}
@@ -276,6 +290,19 @@ const CronJobs = () => {
     watches, loading: watchesLoading, fetchWatches,
     toggleWatch, deleteWatch, createWatch, updateWatch, triggerRun, skipNextRun,
   } = useWatches();
+  const { templates, importTemplates, exportTemplates, saveTemplate, deleteTemplate } = useWatchTemplates();
+  const templateInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSaveTemplate = (watch: Watch) => {
+    saveTemplate(templateFromWatch({
+      name: watch.input.watchName || watch.intent,
+      query: watch.input.query,
+      cronExpression: watch.cron_expression,
+      modelTier: watch.input.modelTier,
+      agentType: watch.input.agentType,
+      alertCondition: watch.input.alertCondition,
+    }));
+  };
 
   const handleToggle = async (job: CronJob) => {
     await toggleJob(job.jobname, !job.active);
@@ -287,6 +314,9 @@ const CronJobs = () => {
     cronExpression: string;
     modelTier: string;
     agentType: string;
+    alertCondition: WatchAlertCondition;
+    templateId?: string;
+    templateParams?: Record<string, string>;
   }): Promise<string | null> => {
     if (editingWatch) {
       await updateWatch(editingWatch.id, {
@@ -295,6 +325,7 @@ const CronJobs = () => {
         cronExpression: params.cronExpression,
         modelTier: params.modelTier,
         agentType: params.agentType,
+        alertCondition: params.alertCondition,
       });
       return editingWatch.id;
     }
@@ -347,7 +378,38 @@ const CronJobs = () => {
           {activeTab === 'system' ? `${jobs.length} jobs` : `${watches.length} watches`}
         </span>
 
-        {/* Add Watch button (watches tab only) */}
+        {/* Templates menu + Add Watch button (watches tab only) */}
+        {activeTab === 'watches' && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="flex items-center gap-1 px-2.5 py-1 rounded text-xs font-medium text-white/50 hover:text-white/80 hover:bg-white/10 transition-colors">
+                <LayoutTemplate className="w-3 h-3" />
+                Templates
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="bg-zinc-900 border-white/10 min-w-[160px]">
+              <DropdownMenuItem onClick={() => templateInputRef.current?.click()} className="text-xs text-white/70 focus:text-white focus:bg-white/10">
+                <Upload className="w-3 h-3 mr-2" />
+                Import JSON
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={exportTemplates} className="text-xs text-white/70 focus:text-white focus:bg-white/10">
+                <Download className="w-3 h-3 mr-2" />
+                Export JSON
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <input
+          ref={templateInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) file.text().then(importTemplates);
+            e.target.value = '';
+          }}
+        />
         {activeTab === 'watches' && (
           <button
             onClick={openCreate}
@@ -489,6 +551,7 @@ const CronJobs = () => {
                   onRunNow={triggerRun}
                   onSkipNext={skipNextRun}
                   onDelete={deleteWatch}
+                  onSaveTemplate={handleSaveTemplate}
                 />
               ))}
             </div>
@@ -503,6 +566,8 @@ const CronJobs = () => {
         editWatch={editingWatch}
         onSave={handleSave}
         onTriggerRun={triggerRun}
+        templates={templates}
+        onDeleteTemplate={deleteTemplate}
       />
     </div>
   );
@@ -0,0 +1,508 @@
+/**
+ * Deploy — Staging → production console.
+ *
+ * Functions: staging vs production deploy times and drift; select what to promote.
+ * Promotion deploys the commit CI recorded for each function's staging deploy.
+ * Migrations: staging migrations missing from production, with safety findings.
+ * Operations: every promotion and rollback, with rollback for function deploys.
+ *
+ * Writes to production ask for the production project ref to be typed in.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import { computeFunctionDrift, isPromotable, type DriftState, type FunctionDrift } from '@/lib/deployDrift';
+import {
+  useDeployConsole,
+  canRollBack,
+  type DeployEnvironmentName,
+  type DeployOperation,
+  type PendingMigration,
+} from '@/hooks/useDeployConsole';
+import {
+  Rocket,
+  Loader2,
+  RefreshCw,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Undo2,
+  ChevronDown,
+  ChevronUp,
+  ShieldAlert,
+} from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const DRIFT_CONFIG: Record<DriftState, { color: string; label: string }> = {
+  in_sync: { color: 'text-emerald-400', label: 'In sync' },
+  staging_ahead: { color: 'text-amber-400', label: 'Staging ahead' },
+  production_ahead: { color: 'text-blue-400', label: 'Production ahead' },
+  staging_only: { color: 'text-amber-400', label: 'Not in production' },
+  production_only: { color: 'text-white/40', label: 'Production only' },
+};
+
+const OP_STATUS_CONFIG: Record<string, { icon: typeof CheckCircle2; color: string }> = {
+  completed: { icon: CheckCircle2, color: 'text-emerald-400' },
+  failed: { icon: XCircle, color: 'text-red-400' },
+  running: { icon: Loader2, color: 'text-blue-400' },
+};
+
+const OP_LABELS: Record<DeployOperation['operation_type'], string> = {
+  deploy_function: 'Function deploy',
+  bulk_deploy: 'Bulk deploy',
+  migration: 'Migration',
+  type_gen: 'Type generation',
+};
+
+function timeAgo(dateStr: string | number): string {
+  const diff = Date.now() - new Date(dateStr).getTime();
+  if (diff < 60_000) return 'just now';
+  if (diff < 3_600_000) return `${Math.floor(diff / 60_000)}m ago`;
+  if (diff < 86_400_000) return `${Math.floor(diff / 3_600_000)}h ago`;
+  return `${Math.floor(diff / 86_400_000)}d ago`;
+}
+
+function operationTarget(op: DeployOperation): string {
+  if (op.target_slug) return op.target_slug;
+  const slugs = (op.input?.slugs as string[] | undefined) ?? [];
+  return slugs.join(', ') || '—';
+}
+
+/** Confirmation for production writes: the production ref has to be typed in */
+function ConfirmProductionDialog({ open, onOpenChange, title, description, projectRef, actionLabel, busy, onConfirm }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: React.ReactNode;
+  projectRef: string;
+  actionLabel: string;
+  busy: boolean;
+  onConfirm: (confirm: string) => void;
+}) {
+  const [typed, setTyped] = useState('');
+
+  useEffect(() => {
+    if (!open) setTyped('');
+  }, [open]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2 text-sm">
+              {description}
+              <p>
+                Type <span className="font-mono text-white/80">{projectRef}</span> to confirm.
+              </p>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Input
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          placeholder={projectRef}
+          className="font-mono text-xs"
+          autoFocus
+        />
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={busy}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onConfirm(typed.trim())}
+            disabled={busy || typed.trim() !== projectRef}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {busy ? 'Working...' : actionLabel}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function EnvironmentForm({ name, currentRef, onSave }: {
+  name: DeployEnvironmentName;
+  currentRef: string | undefined;
+  onSave: (name: DeployEnvironmentName, ref: string) => Promise<boolean>;
+}) {
+  const [value, setValue] = useState(currentRef ?? '');
+
+  useEffect(() => {
+    setValue(currentRef ?? '');
+  }, [currentRef]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className={cn('text-[10px] uppercase tracking-wide w-20 shrink-0', name === 'production' ? 'text-red-400/70' : 'text-white/40')}>
+        {name}
+      </span>
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="project ref"
+        className="h-7 font-mono text-xs"
+      />
+      <button
+        onClick={() => onSave(name, value)}
+        disabled={!value.trim() || value.trim() === currentRef}
+        className="px-2.5 py-1 rounded text-xs font-medium bg-white/10 hover:bg-white/15 text-white/70 disabled:opacity-40 transition-colors"
+      >
+        Save
+      </button>
+    </div>
+  );
+}
+
+function MigrationRow({ migration, selected, onToggle }: {
+  migration: PendingMigration;
+  selected: boolean;
+  onToggle: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { allowed, blockedReason, warnings } = migration.validation;
+
+  return (
+    <div className="border-b border-white/5">
+      <div className="px-4 py-2.5 flex items-center gap-3">
+        <Checkbox checked={selected} onCheckedChange={onToggle} disabled={!allowed} />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-white/70 font-medium truncate">{migration.name}</p>
+          <p className="text-[10px] text-white/30 font-mono">{migration.version}</p>
+        </div>
+        {!allowed ? (
+          <span className="flex items-center gap-1 text-[10px] text-red-400">
+            <ShieldAlert className="w-3 h-3" />
+            Blocked
+          </span>
+        ) : warnings.length > 0 ? (
+          <span className="flex items-center gap-1 text-[10px] text-amber-400">
+            <AlertTriangle className="w-3 h-3" />
+            {warnings.length} warning{warnings.length === 1 ? '' : 's'}
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-[10px] text-emerald-400">
+            <CheckCircle2 className="w-3 h-3" />
+            Clean
+          </span>
+        )}
+        <button onClick={() => setExpanded(!expanded)} className="p-1 rounded hover:bg-white/10">
+          {expanded ? <ChevronUp className="w-3.5 h-3.5 text-white/30" /> : <ChevronDown className="w-3.5 h-3.5 text-white/30" />}
+        </button>
+      </div>
+      {expanded && (
+        <div className="px-4 pb-3 space-y-2">
+          {blockedReason && <p className="text-[11px] text-red-400/80">{blockedReason}</p>}
+          {warnings.map((w) => (
+            <p key={w} className="text-[11px] text-amber-400/80">{w}</p>
+          ))}
+          <pre className="text-[10px] text-white/50 font-mono bg-black/30 rounded p-2 max-h-64 overflow-auto whitespace-pre-wrap">
+            {migration.sql || '-- empty'}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const Deploy = () => {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState('');
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session?.user) {
+        navigate('/auth');
+        return;
+      }
+      setUserId(session.user.id);
+    });
+  }, [navigate]);
+
+  const { status, loading, error, busy, refetch, saveEnvironment, promote, rollback } = useDeployConsole();
+  const [selectedSlugs, setSelectedSlugs] = useState<Set<string>>(new Set());
+  const [selectedMigrations, setSelectedMigrations] = useState<Set<string>>(new Set());
+  const [promoteOpen, setPromoteOpen] = useState(false);
+  const [rollbackOp, setRollbackOp] = useState<DeployOperation | null>(null);
+
+  const drift = useMemo<FunctionDrift[]>(
+    () => computeFunctionDrift(status?.staging?.functions ?? [], status?.production?.functions ?? []),
+    [status]
+  );
+  const pendingMigrations = useMemo(() => status?.pendingMigrations ?? [], [status]);
+  const productionRef = status?.production?.projectRef ?? '';
+  const envRef = (name: DeployEnvironmentName) => status?.environments.find((e) => e.name === name)?.project_ref;
+
+  // Drop selections that no longer apply after a refresh
+  useEffect(() => {
+    setSelectedSlugs((prev) => new Set([...prev].filter((slug) => drift.some((d) => d.slug === slug && isPromotable(d)))));
+    setSelectedMigrations((prev) => new Set([...prev].filter((v) => pendingMigrations.some((m) => m.version === v && m.validation.allowed))));
+  }, [drift, pendingMigrations]);
+
+  const toggle = (setter: typeof setSelectedSlugs, key: string) => {
+    setter((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handlePromote = async (confirm: string) => {
+    const ok = await promote({ slugs: [...selectedSlugs], migrations: [...selectedMigrations], confirm });
+    if (ok) {
+      setSelectedSlugs(new Set());
+      setSelectedMigrations(new Set());
+    }
+    setPromoteOpen(false);
+  };
+
+  const handleRollback = async (confirm: string) => {
+    if (!rollbackOp) return;
+    await rollback(rollbackOp.id, confirm);
+    setRollbackOp(null);
+  };
+
+  if (!userId) return null;
+
+  const selectionCount = selectedSlugs.size + selectedMigrations.size;
+  const driftCount = drift.filter(isPromotable).length;
+
+  return (
+    <div className="h-[calc(100vh-3.5rem)] bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="shrink-0 border-b border-white/10 px-4 py-3 flex items-center gap-3">
+        <Rocket className="w-4 h-4 text-white/40" />
+        <span className="text-xs font-medium text-white/80">Deploy</span>
+        {status?.configured && (
+          <span className="text-[10px] text-white/30 font-mono">
+            {status.staging?.projectRef} → {productionRef}
+          </span>
+        )}
+        <span className="text-[10px] text-white/30 font-mono ml-auto">
+          {status?.configured ? `${driftCount} drifted · ${pendingMigrations.length} pending migrations` : ''}
+        </span>
+        {status?.configured && (
+          <button
+            onClick={() => setPromoteOpen(true)}
+            disabled={selectionCount === 0 || busy}
+            className="flex items-center gap-1 px-2.5 py-1 rounded text-xs font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-40 transition-colors"
+          >
+            {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Rocket className="w-3 h-3" />}
+            Promote{selectionCount > 0 ? ` ${selectionCount}` : ''}
+          </button>
+        )}
+        <button onClick={refetch} className="p-1 rounded hover:bg-white/10 transition-colors" title="Refresh">
+          <RefreshCw className="w-3.5 h-3.5 text-white/30" />
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center h-32 gap-2">
+            <AlertCircle className="w-6 h-6 text-red-400/50" />
+            <span className="text-sm text-red-400/70">{error}</span>
+          </div>
+        ) : (
+          <div className="max-w-4xl mx-auto p-4 space-y-6">
+            {/* Environments */}
+            <section className="rounded-lg border border-white/10 p-4 space-y-2">
+              <p className="text-[10px] text-white/40 uppercase tracking-wide font-medium">Environments</p>
+              <EnvironmentForm name="staging" currentRef={envRef('staging')} onSave={saveEnvironment} />
+              <EnvironmentForm name="production" currentRef={envRef('production')} onSave={saveEnvironment} />
+              {!status?.configured && (
+                <p className="text-[10px] text-white/30">Set both project refs to compare and promote.</p>
+              )}
+            </section>
+
+            {status?.configured && (
+              <>
+                {/* Functions */}
+                <section className="rounded-lg border border-white/10 overflow-hidden">
+                  <div className="grid grid-cols-[24px_1fr_120px_120px_130px] gap-2 px-4 py-2 border-b border-white/10 bg-white/[0.02]">
+                    <span />
+                    <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">Function</span>
+                    <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">Staging</span>
+                    <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">Production</span>
+                    <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">Drift</span>
+                  </div>
+                  {(status.staging?.error || status.production?.error) && (
+                    <p className="px-4 py-2 text-[11px] text-red-400/80 border-b border-white/5">
+                      {status.staging?.error && `Staging: ${status.staging.error}`}
+                      {status.staging?.error && status.production?.error && ' · '}
+                      {status.production?.error && `Production: ${status.production.error}`}
+                    </p>
+                  )}
+                  {drift.length === 0 ? (
+                    <p className="px-4 py-4 text-[11px] text-white/30">No edge functions found</p>
+                  ) : drift.map((d) => {
+                    const cfg = DRIFT_CONFIG[d.state];
+                    const promotable = isPromotable(d);
+                    return (
+                      <div
+                        key={d.slug}
+                        className={cn(
+                          'grid grid-cols-[24px_1fr_120px_120px_130px] gap-2 px-4 py-2 border-b border-white/5 items-center',
+                          d.state === 'in_sync' && !d.jwtMismatch && 'opacity-60',
+                        )}
+                      >
+                        <Checkbox
+                          checked={selectedSlugs.has(d.slug)}
+                          onCheckedChange={() => toggle(setSelectedSlugs, d.slug)}
+                          disabled={!promotable}
+                        />
+                        <p className="text-xs text-white/70 font-medium truncate">{d.slug}</p>
+                        <div>
+                          {d.staging ? (
+                            <>
+                              <p className="text-[11px] text-white/50">
+                                v{d.staging.version}
+                                {status.stagingCommits?.[d.slug] && (
+                                  <span className="font-mono text-white/30"> · {status.stagingCommits[d.slug].slice(0, 7)}</span>
+                                )}
+                              </p>
+                              <p className="text-[9px] text-white/25">{timeAgo(d.staging.updated_at)}</p>
+                            </>
+                          ) : <span className="text-[11px] text-white/20">{'—'}</span>}
+                        </div>
+                        <div>
+                          {d.production ? (
+                            <>
+                              <p className="text-[11px] text-white/50">v{d.production.version}</p>
+                              <p className="text-[9px] text-white/25">{timeAgo(d.production.updated_at)}</p>
+                            </>
+                          ) : <span className="text-[11px] text-white/20">{'—'}</span>}
+                        </div>
+                        <div>
+                          <p className={cn('text-[11px]', cfg.color)}>{cfg.label}</p>
+                          {d.jwtMismatch && <p className="text-[9px] text-amber-400/70">verify_jwt differs</p>}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </section>
+
+                {/* Migrations */}
+                <section className="rounded-lg border border-white/10 overflow-hidden">
+                  <div className="px-4 py-2 border-b border-white/10 bg-white/[0.02]">
+                    <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">Pending migrations</span>
+                  </div>
+                  {pendingMigrations.length === 0 ? (
+                    <p className="px-4 py-4 text-[11px] text-white/30">Production has every staging migration</p>
+                  ) : pendingMigrations.map((m) => (
+                    <MigrationRow
+                      key={m.version}
+                      migration={m}
+                      selected={selectedMigrations.has(m.version)}
+                      onToggle={() => toggle(setSelectedMigrations, m.version)}
+                    />
+                  ))}
+                </section>
+              </>
+            )}
+
+            {/* Operations */}
+            <section className="rounded-lg border border-white/10 overflow-hidden">
+              <div className="px-4 py-2 border-b border-white/10 bg-white/[0.02]">
+                <span className="text-[10px] text-white/40 uppercase tracking-wide font-medium">Operations</span>
+              </div>
+              {(status?.operations ?? []).length === 0 ? (
+                <p className="px-4 py-4 text-[11px] text-white/30">Nothing deployed from here yet</p>
+              ) : status!.operations.map((op) => {
+                const statusCfg = OP_STATUS_CONFIG[op.status] ?? { icon: Clock, color: 'text-white/30' };
+                const StatusIcon = statusCfg.icon;
+                const rollbackOf = op.input?.rollbackOf as string | undefined;
+                return (
+                  <div key={op.id} className="px-4 py-2.5 border-b border-white/5 flex items-center gap-3">
+                    <StatusIcon className={cn('w-3.5 h-3.5 shrink-0', statusCfg.color, op.status === 'running' && 'animate-spin')} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-white/70 truncate">
+                        {rollbackOf ? 'Rollback' : OP_LABELS[op.operation_type]}
+                        <span className="text-white/40"> · {operationTarget(op)}</span>
+                      </p>
+                      <p className="text-[10px] text-white/30 truncate">
+                        {op.environment} · {timeAgo(op.created_at)}
+                        {op.git_sha && <span className="font-mono"> · {op.git_sha.slice(0, 7)}</span>}
+                        {op.duration_ms != null && ` · ${(op.duration_ms / 1000).toFixed(1)}s`}
+                        {op.output?.rolledBackBy && ' · rolled back'}
+                      </p>
+                      {op.error && <p className="text-[10px] text-red-400/70 truncate" title={op.error}>{op.error}</p>}
+                    </div>
+                    {canRollBack(op) && (
+                      <button
+                        onClick={() => setRollbackOp(op)}
+                        disabled={busy}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-[11px] text-white/50 hover:text-white/80 hover:bg-white/10 disabled:opacity-40 transition-colors"
+                      >
+                        <Undo2 className="w-3 h-3" />
+                        Rollback
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </section>
+          </div>
+        )}
+      </div>
+
+      <ConfirmProductionDialog
+        open={promoteOpen}
+        onOpenChange={setPromoteOpen}
+        title="Promote to production?"
+        description={
+          <>
+            {selectedMigrations.size > 0 && (
+              <p>Apply {selectedMigrations.size} migration{selectedMigrations.size === 1 ? '' : 's'} first, then deploy functions only if they all succeed.</p>
+            )}
+            {selectedSlugs.size > 0 && (
+              <p>Deploy {[...selectedSlugs].join(', ')} from the default branch.</p>
+            )}
+          </>
+        }
+        projectRef={productionRef}
+        actionLabel="Promote"
+        busy={busy}
+        onConfirm={handlePromote}
+      />
+
+      <ConfirmProductionDialog
+        open={!!rollbackOp}
+        onOpenChange={(open) => { if (!open) setRollbackOp(null); }}
+        title="Roll back this deploy?"
+        description={
+          <p>
+            Redeploy {rollbackOp ? operationTarget(rollbackOp) : ''} from the commit production ran before.
+            Functions first deployed by this operation are left as they are.
+          </p>
+        }
+        projectRef={productionRef}
+        actionLabel="Roll back"
+        busy={busy}
+        onConfirm={handleRollback}
+      />
+    </div>
+  );
+};
+
+export default Deploy;
@@ -1,8 +1,10 @@
 /**
- * Search page — Global semantic + keyword search across entries and reflections.
+ * Search page — Global hybrid (keyword + semantic) search across entries and reflections.
+ * Searches can be saved as smart collections; /search?collection=<id> opens one live.
  */
 
-import { useState, useCallback, type FormEvent } from 'react';
+import { useState, useCallback, useEffect, useMemo, type FormEvent } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { format, parseISO } from 'date-fns';
 import {
   Search as SearchIcon,
@@ -12,10 +14,33 @@ import {
   X,
   SlidersHorizontal,
   Sparkles,
+  Layers,
+  Radio,
 } from 'lucide-react';
-import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useSearchPage, type SearchPageFilters, type SearchPageResult } from '@/hooks/useSearchPage';
+import {
+  useSmartCollections,
+  useSmartCollectionResults,
+  type SmartCollection,
+} from '@/hooks/useSmartCollections';
+import { MatchReasons } from '@/components/search/MatchReasons';
+import { SearchQueryInput } from '@/components/search/SearchQueryInput';
+import { SaveCollectionDialog } from '@/components/search/SaveCollectionDialog';
+import { SmartCollectionsRail } from '@/components/search/SmartCollectionsRail';
+import { useUserTags } from '@/hooks/useUserTags';
+import { parseSearchQuery } from '@/lib/searchQuery';
+import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
 
 // --- Category badge colors ---
@@ -58,7 +83,7 @@ function similarityPercent(sim: number | undefined): string | null {
 }
 
 // --- Single result row ---
-function ResultItem({ result }: { result: SearchPageResult }) {
+function ResultItem({ result, isNew }: { result: SearchPageResult; isNew?: boolean }) {
   const typeStyle = TYPE_COLORS[result.content_type] ?? 'bg-white/10 text-white/50';
   const simPct = similarityPercent(result.similarity);
   const snippet = result.content.slice(0, 200);
@@ -88,8 +113,14 @@ function ResultItem({ result }: { result: SearchPageResult }) {
           <span className="text-sm font-medium text-white/90 truncate">
             {result.title || snippet.slice(0, 60) || 'Untitled'}
           </span>
+          {isNew && (
+            <span className="text-[9px] px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-400 font-medium shrink-0">
+              new
+            </span>
+          )}
         </div>
         <p className="text-xs text-white/40 line-clamp-2">{snippet}</p>
+        <MatchReasons reasons={result.reasons} className="mt-1" />
         {result.tags.length > 0 && (
           <div className="flex gap-1 mt-1 flex-wrap">
             {result.tags.slice(0, 4).map((tag) => (
@@ -131,15 +162,69 @@ const Search = () => {
   const [query, setQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<SearchPageFilters>({});
+  const [userId, setUserId] = useState<string>();
+  const knownTags = useUserTags(userId);
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeCollectionId = searchParams.get('collection');
+  const { collections, createCollection, updateCollection, deleteCollection } = useSmartCollections();
+  const activeCollection = collections.find((c) => c.id === activeCollectionId) ?? null;
+  const live = useSmartCollectionResults(activeCollection?.query);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<SmartCollection | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) setUserId(session.user.id);
+    });
+  }, []);
+
+  // Opening a collection puts its query in the box
+  const activeQuery = activeCollection?.query;
+  useEffect(() => {
+    if (activeQuery) setQuery(activeQuery);
+  }, [activeQuery]);
 
   const handleSubmit = useCallback(
     (e: FormEvent) => {
       e.preventDefault();
       if (query.trim()) {
+        // A new search leaves the collection view
+        if (activeCollectionId) setSearchParams({});
         search(query, filters);
       }
     },
-    [query, filters, search]
+    [query, filters, search, activeCollectionId, setSearchParams]
+  );
+
+  // The type picker isn't part of the query text — fold it in so the collection matches what's on screen
+  const collectionQuery = useMemo(() => {
+    const trimmed = query.trim();
+    if (!filters.contentType || parseSearchQuery(trimmed).filters.contentType) return trimmed;
+    return `${trimmed} type:${filters.contentType}`;
+  }, [query, filters.contentType]);
+
+  const canSaveCollection =
+    hasSearched && !activeCollection && !!collectionQuery && parseSearchQuery(collectionQuery).errors.length === 0;
+
+  const handleSaveCollection = useCallback(
+    async (params: { name: string; query: string; notifySlack: boolean }) => {
+      const created = await createCollection(params);
+      if (created) setSearchParams({ collection: created.id });
+    },
+    [createCollection, setSearchParams]
+  );
+
+  const handleConfirmDelete = useCallback(async () => {
+    if (!pendingDelete) return;
+    await deleteCollection(pendingDelete.id);
+    if (pendingDelete.id === activeCollectionId) setSearchParams({});
+    setPendingDelete(null);
+  }, [pendingDelete, deleteCollection, activeCollectionId, setSearchParams]);
+
+  const liveResults: SearchPageResult[] = useMemo(
+    () => live.results.map((r) => ({ ...r, source: 'entry' as const })),
+    [live.results]
   );
 
   const clearQuery = useCallback(() => {
@@ -147,152 +232,245 @@ const Search = () => {
   }, []);
 
   return (
-    <div className="min-h-[calc(100vh-4rem)] bg-black">
-      {/* Search header */}
-      <div className="px-6 py-6 border-b border-white/10">
-        <div className="max-w-3xl mx-auto">
-          <form onSubmit={handleSubmit} className="flex gap-2">
-            <div className="relative flex-1">
-              <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/30" />
-              <Input
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                placeholder="Search your brain..."
-                className="pl-10 pr-8 h-12 bg-white/5 border-white/10 text-white placeholder:text-white/30 text-base"
-                autoFocus
-              />
-              {query && (
-                <button
-                  type="button"
-                  onClick={clearQuery}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-white/30 hover:text-white/60"
-                >
-                  <X className="w-4 h-4" />
-                </button>
-              )}
-            </div>
-            <Button
-              type="submit"
-              disabled={isSearching || !query.trim()}
-              className="h-12 px-6"
-            >
-              {isSearching ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
-                <span className="flex items-center gap-1.5">
-                  <Sparkles className="w-3.5 h-3.5" />
-                  Search
-                </span>
-              )}
-            </Button>
-            <Button
-              type="button"
-              variant="outline"
-              className="h-12 border-white/10 text-white/50 hover:text-white/80"
-              onClick={() => setShowFilters(!showFilters)}
-            >
-              <SlidersHorizontal className="w-4 h-4" />
-            </Button>
-          </form>
+    <div className="min-h-[calc(100vh-4rem)] bg-black flex">
+      <SmartCollectionsRail
+        collections={collections}
+        activeId={activeCollection?.id ?? null}
+        onSelect={(id) => setSearchParams({ collection: id })}
+        onToggleNotify={(c) => updateCollection(c.id, { notify_slack: !c.notify_slack })}
+        onDelete={setPendingDelete}
+        className="hidden md:block"
+      />
 
-          {/* Filters panel */}
-          {showFilters && (
-            <div className="mt-3 p-3 rounded-lg border border-white/10 bg-white/[0.03] flex flex-wrap gap-3 items-center">
-              {/* Source filter */}
-              <div className="flex items-center gap-1">
-                <span className="text-[10px] text-white/40 uppercase tracking-wider mr-1">Source</span>
-                {SOURCE_OPTIONS.map((opt) => (
+      <div className="flex-1 min-w-0">
+        {/* Search header */}
+        <div className="px-6 py-6 border-b border-white/10">
+          <div className="max-w-3xl mx-auto">
+            <form onSubmit={handleSubmit} className="flex gap-2 items-start">
+              <div className="relative flex-1">
+                <SearchIcon className="absolute left-3 top-6 -translate-y-1/2 w-4 h-4 text-white/30 z-10" />
+                <SearchQueryInput
+                  value={query}
+                  onChange={setQuery}
+                  tags={knownTags}
+                  variant="dark"
+                  placeholder='Search your brain... try type:reminder tag:work "exact phrase"'
+                  className="pl-10 pr-8 h-12 bg-white/5 border-white/10 text-white placeholder:text-white/30 text-base"
+                  autoFocus
+                />
+                {query && (
                   <button
-                    key={opt.value}
-                    onClick={() =>
-                      setFilters((f) => ({
-                        ...f,
-                        sourceType: opt.value === 'all' ? undefined : opt.value,
-                      }))
-                    }
-                    className={cn(
-                      'text-[10px] px-2 py-1 rounded transition-colors',
-                      (!filters.sourceType && opt.value === 'all') || filters.sourceType === opt.value
-                        ? 'bg-white/10 text-white/80'
-                        : 'text-white/30 hover:text-white/50'
-                    )}
+                    type="button"
+                    onClick={clearQuery}
+                    className="absolute right-3 top-6 -translate-y-1/2 text-white/30 hover:text-white/60"
                   >
-                    {opt.label}
+                    <X className="w-4 h-4" />
                   </button>
-                ))}
+                )}
               </div>
+              <Button
+                type="submit"
+                disabled={isSearching || !query.trim()}
+                className="h-12 px-6"
+              >
+                {isSearching ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <span className="flex items-center gap-1.5">
+                    <Sparkles className="w-3.5 h-3.5" />
+                    Search
+                  </span>
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="h-12 border-white/10 text-white/50 hover:text-white/80"
+                onClick={() => setShowFilters(!showFilters)}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </Button>
+            </form>
 
-              {/* Type filter */}
-              <div className="flex items-center gap-1 flex-wrap">
-                <span className="text-[10px] text-white/40 uppercase tracking-wider mr-1">Type</span>
-                <button
-                  onClick={() => setFilters((f) => ({ ...f, contentType: undefined }))}
-                  className={cn(
-                    'text-[10px] px-2 py-1 rounded transition-colors',
-                    !filters.contentType ? 'bg-white/10 text-white/80' : 'text-white/30 hover:text-white/50'
-                  )}
-                >
-                  All
-                </button>
-                {CONTENT_TYPES.map((t) => (
+            {/* Filters panel */}
+            {showFilters && (
+              <div className="mt-3 p-3 rounded-lg border border-white/10 bg-white/[0.03] flex flex-wrap gap-3 items-center">
+                {/* Source filter */}
+                <div className="flex items-center gap-1">
+                  <span className="text-[10px] text-white/40 uppercase tracking-wider mr-1">Source</span>
+                  {SOURCE_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      onClick={() =>
+                        setFilters((f) => ({
+                          ...f,
+                          sourceType: opt.value === 'all' ? undefined : opt.value,
+                        }))
+                      }
+                      className={cn(
+                        'text-[10px] px-2 py-1 rounded transition-colors',
+                        (!filters.sourceType && opt.value === 'all') || filters.sourceType === opt.value
+                          ? 'bg-white/10 text-white/80'
+                          : 'text-white/30 hover:text-white/50'
+                      )}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Type filter */}
+                <div className="flex items-center gap-1 flex-wrap">
+                  <span className="text-[10px] text-white/40 uppercase tracking-wider mr-1">Type</span>
                   <button
-                    key={t}
-                    onClick={() => setFilters((f) => ({ ...f, contentType: t }))}
+                    onClick={() => setFilters((f) => ({ ...f, contentType: undefined }))}
                     className={cn(
                       'text-[10px] px-2 py-1 rounded transition-colors',
-                      filters.contentType === t ? 'bg-white/10 text-white/80' : 'text-white/30 hover:text-white/50'
+                      !filters.contentType ? 'bg-white/10 text-white/80' : 'text-white/30 hover:text-white/50'
                     )}
                   >
-                    {t}
+                    All
                   </button>
+                  {CONTENT_TYPES.map((t) => (
+                    <button
+                      key={t}
+                      onClick={() => setFilters((f) => ({ ...f, contentType: t }))}
+                      className={cn(
+                        'text-[10px] px-2 py-1 rounded transition-colors',
+                        filters.contentType === t ? 'bg-white/10 text-white/80' : 'text-white/30 hover:text-white/50'
+                      )}
+                    >
+                      {t}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Results area */}
+        <div className="max-w-3xl mx-auto">
+          {activeCollection ? (
+            <>
+              {/* Collection header */}
+              <div className="px-4 py-2 border-b border-white/5 flex items-center justify-between gap-3">
+                <span className="text-xs text-white/60 flex items-center gap-1.5 min-w-0">
+                  <Layers className="w-3.5 h-3.5 text-white/30 shrink-0" />
+                  <span className="truncate">{activeCollection.name}</span>
+                  <span className="text-white/30">
+                    · {live.results.length} match{live.results.length !== 1 ? 'es' : ''}
+                  </span>
+                </span>
+                <span className="text-[10px] text-emerald-400/70 flex items-center gap-1 shrink-0">
+                  <Radio className="w-3 h-3" />
+                  Live
+                  {live.newIds.size > 0 && (
+                    <button onClick={live.dismissNew} className="ml-2 text-white/30 hover:text-white/60">
+                      clear {live.newIds.size} new
+                    </button>
+                  )}
+                </span>
+              </div>
+
+              {live.loading && live.results.length === 0 ? (
+                <div className="flex items-center justify-center py-20">
+                  <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
+                </div>
+              ) : live.error ? (
+                <div className="flex flex-col items-center justify-center py-20 gap-2">
+                  <span className="text-sm text-red-400">{live.error}</span>
+                </div>
+              ) : liveResults.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-20 gap-2 text-white/30">
+                  <Layers className="w-8 h-8" />
+                  <span className="text-sm">Nothing matches yet — new entries will appear here</span>
+                </div>
+              ) : (
+                <div>
+                  {liveResults.map((result) => (
+                    <ResultItem key={result.id} result={result} isNew={live.newIds.has(result.id)} />
+                  ))}
+                </div>
+              )}
+            </>
+          ) : isSearching ? (
+            <div className="flex items-center justify-center py-20">
+              <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-20 gap-2">
+              <span className="text-sm text-red-400">{error}</span>
+            </div>
+          ) : hasSearched && results.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-20 gap-2 text-white/30">
+              <FileText className="w-8 h-8" />
+              <span className="text-sm">No results found</span>
+            </div>
+          ) : hasSearched ? (
+            <>
+              {/* Results header */}
+              <div className="px-4 py-2 border-b border-white/5 flex items-center justify-between">
+                <span className="text-xs text-white/40">
+                  {results.length} result{results.length !== 1 ? 's' : ''}
+                </span>
+                <span className="text-[10px] text-white/20 flex items-center gap-3">
+                  <span>
+                    {results.filter((r) => r.similarity != null).length} semantic ·{' '}
+                    {results.filter((r) => r.reasons?.some((m) => m.kind === 'keyword')).length} keyword matches
+                  </span>
+                  {canSaveCollection && (
+                    <button
+                      onClick={() => setSaveOpen(true)}
+                      className="flex items-center gap-1 text-blue-400/70 hover:text-blue-400 transition-colors"
+                    >
+                      <Layers className="w-3 h-3" />
+                      Save as collection
+                    </button>
+                  )}
+                </span>
+              </div>
+
+              {/* Results list */}
+              <div>
+                {results.map((result) => (
+                  <ResultItem key={`${result.source}-${result.id}`} result={result} />
                 ))}
               </div>
+            </>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-20 gap-2 text-white/20">
+              <SearchIcon className="w-8 h-8" />
+              <span className="text-sm">Search across all your entries and reflections</span>
+              <span className="text-[11px] font-mono text-white/15">
+                type:reminder · tag:work · importance&gt;=7 · after:2026-01-01 · starred · -archived · "exact phrase"
+              </span>
             </div>
           )}
         </div>
       </div>
 
-      {/* Results area */}
-      <div className="max-w-3xl mx-auto">
-        {isSearching ? (
-          <div className="flex items-center justify-center py-20">
-            <Loader2 className="w-5 h-5 text-white/30 animate-spin" />
-          </div>
-        ) : error ? (
-          <div className="flex flex-col items-center justify-center py-20 gap-2">
-            <span className="text-sm text-red-400">{error}</span>
-          </div>
-        ) : hasSearched && results.length === 0 ? (
-          <div className="flex flex-col items-center justify-center py-20 gap-2 text-white/30">
-            <FileText className="w-8 h-8" />
-            <span className="text-sm">No results found</span>
-          </div>
-        ) : hasSearched ? (
-          <>
-            {/* Results header */}
-            <div className="px-4 py-2 border-b border-white/5 flex items-center justify-between">
-              <span className="text-xs text-white/40">
-                {results.length} result{results.length !== 1 ? 's' : ''}
-              </span>
-              <span className="text-[10px] text-white/20">
-                {results.filter((r) => r.similarity != null).length} semantic matches
-              </span>
-            </div>
+      <SaveCollectionDialog
+        open={saveOpen}
+        onOpenChange={setSaveOpen}
+        query={collectionQuery}
+        onSave={handleSaveCollection}
+      />
 
-            {/* Results list */}
-            <div>
-              {results.map((result) => (
-                <ResultItem key={`${result.source}-${result.id}`} result={result} />
-              ))}
-            </div>
-          </>
-        ) : (
-          <div className="flex flex-col items-center justify-center py-20 gap-2 text-white/20">
-            <SearchIcon className="w-8 h-8" />
-            <span className="text-sm">Search across all your entries and reflections</span>
-          </div>
-        )}
-      </div>
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete collection?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" will be removed. Your entries are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
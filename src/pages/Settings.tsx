@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -6,7 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
-import { Brain, Download, Trash2, Database, User, Tag, AlertTriangle, Bot, Send } from "lucide-react";
+import { Brain, Download, Upload, Trash2, Database, User, Tag, AlertTriangle, Bot, Send, ArchiveRestore } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   AlertDialog,
@@ -19,9 +19,31 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
 import TagManager from "@/components/TagManager";
+import UsageLimits from "@/components/UsageLimits";
+import { useVaultImport } from "@/hooks/useVaultImport";
+import { useArchiveRestore } from "@/hooks/useArchiveRestore";
 import type { Entry } from "@/components/EntryCard";
 
+const ARCHIVE_SECTION_LABELS: Record<string, string> = {
+  calendarSubscriptions: "Calendar subscriptions",
+  entries: "Entries",
+  entryRevisions: "Entry history",
+  reminderDeliveries: "Reminder history",
+  watches: "Watches",
+  watchSnapshots: "Watch history",
+  reflections: "Reflections",
+  brainEntities: "Entities",
+  entityMentions: "Entity mentions",
+  entryRelationships: "Connections",
+  principles: "Principles",
+  insights: "Insights",
+  codeProjects: "Code projects",
+  brainReports: "Reports",
+  smartCollections: "Smart collections",
+};
+
 const Settings = () => {
   const navigate = useNavigate();
   const [userId, setUserId] = useState<string>("");
@@ -36,6 +58,14 @@ const Settings = () => {
   const [slackWebhookUrl, setSlackWebhookUrl] = useState("");
   const [slackSaving, setSlackSaving] = useState(false);
   const [slackTesting, setSlackTesting] = useState(false);
+  const [escalationMinutes, setEscalationMinutes] = useState("30");
+  const [escalationChannel, setEscalationChannel] = useState("");
+  const [escalationSaving, setEscalationSaving] = useState(false);
+  const { progress: importProgress, importZip, cancel: cancelImport } = useVaultImport();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importRunning = ["reading", "importing", "linking"].includes(importProgress.phase);
+  const { state: restoreState, selectFile: selectRestoreFile, confirm: confirmRestore, reset: resetRestore } = useArchiveRestore();
+  const restoreInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     checkAuth();
@@ -61,8 +91,15 @@ const Settings = () => {
       .select('settings')
       .eq('user_id', user.id)
       .single();
-    const url = (data?.settings as Record<string, unknown>)?.slack_webhook_url;
+    const settings = (data?.settings as Record<string, unknown>) || {};
+    const url = settings.slack_webhook_url;
     if (typeof url === 'string') setSlackWebhookUrl(url);
+    if (typeof settings.reminder_escalation_minutes === 'number') {
+      setEscalationMinutes(String(settings.reminder_escalation_minutes));
+    }
+    if (typeof settings.reminder_escalation_channel === 'string') {
+      setEscalationChannel(settings.reminder_escalation_channel);
+    }
   };
 
   const isValidSlackWebhook = (url: string): boolean => {
@@ -113,6 +150,49 @@ const Settings = () => {
     }
   };
 
+  const handleSaveReminderEscalation = async () => {
+    const channel = escalationChannel.trim();
+    if (channel && !/^[CGD][A-Z0-9]{6,}$/.test(channel)) {
+      toast.error("Invalid channel ID. Use the Slack channel ID, e.g. C0123456789.");
+      return;
+    }
+    setEscalationSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data: existing } = await supabase
+        .from('user_settings')
+        .select('settings')
+        .eq('user_id', user.id)
+        .single();
+
+      const currentSettings = (existing?.settings as Record<string, unknown>) || {};
+      const updatedSettings = {
+        ...currentSettings,
+        reminder_escalation_minutes: Number(escalationMinutes),
+        reminder_escalation_channel: channel || null,
+      };
+
+      if (existing) {
+        await supabase
+          .from('user_settings')
+          .update({ settings: updatedSettings })
+          .eq('user_id', user.id);
+      } else {
+        await supabase
+          .from('user_settings')
+          .insert({ user_id: user.id, settings: updatedSettings });
+      }
+
+      toast.success("Reminder escalation saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save escalation settings");
+    } finally {
+      setEscalationSaving(false);
+    }
+  };
+
   const handleTestSlackWebhook = async () => {
     if (!slackWebhookUrl) {
       toast.error("Enter a webhook URL first");
@@ -221,13 +301,15 @@ const Settings = () => {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `linkjac-export-${new Date().toISOString().split('T')[0]}.${exportFormat}`;
+      a.download = exportFormat === 'archive'
+        ? `linkjac-archive-${new Date().toISOString().split('T')[0]}.json`
+        : `linkjac-export-${new Date().toISOString().split('T')[0]}.${exportFormat}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
 
-      toast.success(`Data exported as ${exportFormat.toUpperCase()}`);
+      toast.success(exportFormat === 'archive' ? "Archive downloaded" : `Data exported as ${exportFormat.toUpperCase()}`);
     } catch (error: any) {
       console.error('Export error:', error);
       toast.error(error.message || "Failed to export data");
@@ -352,10 +434,57 @@ const Settings = () => {
                 </Button>
               </div>
             </Card>
+
+            <Card className="p-4 bg-muted/30 border-border space-y-3">
+              <div>
+                <Label className="text-sm">Reminder Escalation</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Ping again when a high-importance reminder goes unacknowledged.
+                </p>
+                <Select value={escalationMinutes} onValueChange={setEscalationMinutes}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Off</SelectItem>
+                    <SelectItem value="10">After 10 minutes</SelectItem>
+                    <SelectItem value="15">After 15 minutes</SelectItem>
+                    <SelectItem value="30">After 30 minutes</SelectItem>
+                    <SelectItem value="60">After 1 hour</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="escalation-channel" className="text-sm">Escalation Channel</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Slack channel ID for escalations. Leave empty to repeat in the reminder's channel.
+                </p>
+                <Input
+                  id="escalation-channel"
+                  value={escalationChannel}
+                  onChange={(e) => setEscalationChannel(e.target.value)}
+                  placeholder="C0123456789"
+                  disabled={escalationMinutes === "0"}
+                />
+              </div>
+              <Button
+                onClick={handleSaveReminderEscalation}
+                disabled={escalationSaving}
+                size="sm"
+                className="w-full"
+              >
+                {escalationSaving ? "Saving..." : "Save Escalation"}
+              </Button>
+            </Card>
           </div>
 
           <Separator className="my-6" />
 
+          {/* Usage & Limits */}
+          <UsageLimits />
+
+          <Separator className="my-6" />
+
           {/* Data Stats */}
           <div className="space-y-4 mb-6">
             <div className="flex items-center gap-3">
@@ -403,21 +532,85 @@ const Settings = () => {
             </Button>
           </div>
 
+          {/* Import Section */}
+          <div className="space-y-3 mb-6">
+            <Label>Import Notes</Label>
+            <p className="text-xs text-muted-foreground">
+              Bring in a zip of Markdown notes — an Obsidian or Logseq vault, or Apple Notes exported as Markdown.
+              Front matter, tags, dates and [[wikilinks]] are kept; notes already in your brain are skipped.
+            </p>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importZip(file).finally(() => fetchDataStats());
+                e.target.value = "";
+              }}
+            />
+            {importRunning ? (
+              <div className="space-y-2">
+                <Progress value={importProgress.total ? (importProgress.processed / importProgress.total) * 100 : 0} />
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {importProgress.phase === "reading"
+                      ? "Reading zip..."
+                      : importProgress.phase === "linking"
+                        ? "Linking notes..."
+                        : `Importing ${importProgress.processed}/${importProgress.total} notes`}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={cancelImport} disabled={importProgress.phase !== "importing"}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={() => importInputRef.current?.click()} className="w-full">
+                <Upload className="w-4 h-4 mr-2" />
+                Import Markdown Zip
+              </Button>
+            )}
+            {["done", "cancelled", "error"].includes(importProgress.phase) && (
+              <div className="text-xs text-muted-foreground space-y-1">
+                {importProgress.error ? (
+                  <p className="text-destructive">{importProgress.error}</p>
+                ) : (
+                  <p>
+                    {importProgress.phase === "cancelled" ? "Cancelled — " : ""}
+                    {importProgress.created} imported · {importProgress.duplicates} duplicates skipped
+                    {importProgress.failed > 0 && ` · ${importProgress.failed} failed`}
+                    {importProgress.linked > 0 && ` · ${importProgress.linked} links`}
+                    {importProgress.skipped.length > 0 && ` · ${importProgress.skipped.length} empty or too large`}
+                  </p>
+                )}
+                {importProgress.failures.slice(0, 5).map((f) => (
+                  <p key={f.path} className="truncate text-destructive/80">
+                    {f.path}: {f.error}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Export Section */}
           <div className="space-y-3 mb-6">
             <Label>Export All Data</Label>
             <p className="text-xs text-muted-foreground">
               Download all your data from LinkJac. Your data, your control.
+              Choose Archive for a full backup you can restore here or in another account.
             </p>
             <div className="flex gap-2">
               <Select value={exportFormat} onValueChange={setExportFormat}>
-                <SelectTrigger className="w-28">
+                <SelectTrigger className="w-32">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="json">JSON</SelectItem>
                   <SelectItem value="csv">CSV</SelectItem>
                   <SelectItem value="md">Markdown</SelectItem>
+                  <SelectItem value="archive">Archive</SelectItem>
                 </SelectContent>
               </Select>
               <Button
@@ -431,6 +624,81 @@ const Settings = () => {
             </div>
           </div>
 
+          {/* Restore Section */}
+          <div className="space-y-3 mb-6">
+            <Label>Restore from Archive</Label>
+            <p className="text-xs text-muted-foreground">
+              Load an archive exported above. Nothing is replaced — items already in your brain are skipped.
+            </p>
+            <input
+              ref={restoreInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) selectRestoreFile(file);
+                e.target.value = "";
+              }}
+            />
+            {restoreState.phase === "ready" || restoreState.phase === "restoring" || restoreState.phase === "done" ? (
+              <div className="space-y-2 rounded-md border p-3 text-xs">
+                <p className="text-muted-foreground truncate">
+                  {restoreState.fileName}
+                  {restoreState.summary?.exportedAt && ` · exported ${new Date(restoreState.summary.exportedAt).toLocaleDateString()}`}
+                </p>
+                {Object.entries(restoreState.summary?.sections ?? {})
+                  .filter(([, s]) => s.total > 0)
+                  .map(([key, s]) => (
+                    <div key={key} className="flex justify-between">
+                      <span>{ARCHIVE_SECTION_LABELS[key] ?? key}</span>
+                      <span className="text-muted-foreground">
+                        {s.inserted} {restoreState.phase === "done" ? "restored" : "new"} · {s.skipped} existing
+                        {s.failed > 0 && ` · ${s.failed} failed`}
+                      </span>
+                    </div>
+                  ))}
+                {restoreState.summary?.failures.slice(0, 5).map((f) => (
+                  <p key={f} className="truncate text-destructive/80">{f}</p>
+                ))}
+                <div className="flex gap-2 pt-1">
+                  {restoreState.phase === "done" ? (
+                    <Button variant="outline" size="sm" onClick={resetRestore} className="flex-1">
+                      Done
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={resetRestore} disabled={restoreState.phase === "restoring"}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => confirmRestore().finally(() => fetchDataStats())}
+                        disabled={restoreState.phase === "restoring"}
+                        className="flex-1"
+                      >
+                        {restoreState.phase === "restoring" ? "Restoring..." : "Restore"}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => restoreInputRef.current?.click()}
+                disabled={restoreState.phase === "checking"}
+                className="w-full"
+              >
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                {restoreState.phase === "checking" ? "Checking archive..." : "Choose Archive File"}
+              </Button>
+            )}
+            {restoreState.phase === "error" && restoreState.error && (
+              <p className="text-xs text-destructive">{restoreState.error}</p>
+            )}
+          </div>
+
           <Separator className="my-6" />
 
           {/* Danger Zone */}
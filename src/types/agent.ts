@@ -5,6 +5,8 @@ export interface AgentTask {
   id: string;
   user_id: string;
   parent_task_id: string | null;
+  /** Sibling tasks (same parent) that had to complete before this one started */
+  depends_on: string[];
   type: TaskType;
   status: TaskStatus;
   intent: string | null;
@@ -51,6 +53,10 @@ export interface ActivityLogEntry {
   created_at: string;
 }
 
+export type MergePolicy = 'auto' | 'require_approval' | 'require_approval_for_paths';
+
+export type GitProviderKind = 'github' | 'gitlab' | 'gitea';
+
 export interface CodeProject {
   id: string;
   user_id: string;
@@ -62,27 +68,60 @@ export interface CodeProject {
   last_synced_at: string | null;
   file_tree_cache: string[] | null;
   pages_url: string | null;
+  git_provider: GitProviderKind;
+  git_base_url: string | null;
+  git_token_secret: string | null;
+  merge_policy: MergePolicy;
+  approval_paths: string[];
+  symbols_indexed_at: string | null;
   active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type CodeSymbolKind = 'component' | 'hook' | 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+export interface CodeSymbol {
+  name: string;
+  kind: CodeSymbolKind;
+  line: number;
+  exported: boolean;
+  default?: boolean;
+}
+
+/** One code_symbols row: what a source file declares and imports */
+export interface CodeFileSymbols {
+  path: string;
+  symbols: CodeSymbol[];
+  exports: string[];
+  imports: Array<{ from: string; path: string | null; names: string[] }>;
+  imported_paths: string[];
+}
+
 export interface CodeSession {
   id: string;
   user_id: string;
   project_id: string;
   task_id: string | null;
   branch_name: string;
-  status: 'active' | 'completed' | 'failed' | 'awaiting_ci';
+  status: 'active' | 'completed' | 'failed' | 'awaiting_ci' | 'awaiting_approval' | 'changes_requested' | 'rejected';
   intent: string;
   files_read: string[] | null;
   files_written: string[] | null;
   commits: string[] | null;
   pr_number: number | null;
   pr_url: string | null;
+  merge_sha: string | null;
   ci_status: string | null;
+  approval_reason: string | null;
+  reviewed_at: string | null;
+  reviewed_via: string | null;
+  review_feedback: string | null;
   iteration_count: number;
   max_iterations: number;
+  /** Session whose CI-reverted change this one re-applies */
+  retry_of: string | null;
+  ci_retry_count: number;
   context: Record<string, unknown>;
   created_at: string;
   updated_at: string;
@@ -68,6 +68,10 @@ export interface Entry {
   event_time?: string | null;
   is_recurring?: boolean | null;
   recurrence_pattern?: string | null;
+  /** RFC 5545 RRULE value; see lib/rrule */
+  rrule?: string | null;
+  /** Skipped occurrence dates of a recurring entry */
+  exdates?: string[] | null;
   reminder_minutes?: number | null;
   created_at: string;
   updated_at: string;
@@ -105,6 +109,7 @@ export interface ClassificationResult {
   eventTime: string | null;
   isRecurring: boolean;
   recurrencePattern: RecurrencePattern | null;
+  rrule?: string | null;
   appendTo: string | null;
   imageDescription: string | null;
   documentText: string | null;
@@ -178,6 +178,15 @@ export function parseToolUse(response: ClaudeResponse): { name: string; input: R
   return { name: toolBlock.name, input: toolBlock.input as Record<string, unknown> };
 }
 
+/**
+ * Extract every tool_use block (with its id, for sending tool_result back)
+ */
+export function parseToolUses(response: ClaudeResponse): Array<{ id: string; name: string; input: Record<string, unknown> }> {
+  return response.content
+    .filter(c => c.type === 'tool_use' && c.id && c.name)
+    .map(c => ({ id: c.id!, name: c.name!, input: (c.input ?? {}) as Record<string, unknown> }));
+}
+
 /**
  * Extract text content from Claude response
  */
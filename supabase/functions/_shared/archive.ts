@@ -0,0 +1,334 @@
+/**
+ * Brain archive — versioned, restorable export of everything a user owns.
+ *
+ * Written by export-all-data (format: 'archive'), read by restore-archive.
+ * Rows keep their original ids so references (entry_relationships →
+ * entries, entity_mentions → brain_entities, ...) can be remapped on restore.
+ * user_id is never stored; restore always writes to the calling user.
+ *
+ * Bump ARCHIVE_SCHEMA_VERSION when a section or column changes meaning, and
+ * teach upgradeArchive() to bring older archives forward.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { getEmbeddingState } from './embeddings.ts';
+
+export const ARCHIVE_FORMAT = 'linkjac-archive';
+export const ARCHIVE_SCHEMA_VERSION = 1;
+
+export type ArchiveRow = Record<string, unknown> & { id: string };
+
+export type ArchiveSectionKey =
+  | 'calendarSubscriptions'
+  | 'entries'
+  | 'entryRevisions'
+  | 'reminderDeliveries'
+  | 'entryRelationships'
+  | 'brainEntities'
+  | 'entityMentions'
+  | 'reflections'
+  | 'principles'
+  | 'insights'
+  | 'watches'
+  | 'watchSnapshots'
+  | 'codeProjects'
+  | 'brainReports'
+  | 'smartCollections';
+
+interface ArchiveSectionDef {
+  table: string;
+  /** Columns exported and accepted on restore (user_id excluded) */
+  columns: string[];
+}
+
+/** Restore order matters: referenced sections come before the ones that point at them */
+export const ARCHIVE_SECTIONS: Record<ArchiveSectionKey, ArchiveSectionDef> = {
+  calendarSubscriptions: {
+    table: 'calendar_subscriptions',
+    // last_synced_at / last_error / event_count are sync state — the next sync rebuilds them
+    columns: ['id', 'url', 'name', 'created_at'],
+  },
+  entries: {
+    table: 'entries',
+    columns: [
+      'id', 'content', 'title', 'content_type', 'content_subtype', 'tags', 'extracted_data',
+      'importance_score', 'list_items', 'starred', 'archived', 'source', 'image_url',
+      'event_date', 'event_time', 'is_recurring', 'recurrence_pattern', 'rrule', 'exdates',
+      'reminder_minutes', 'reminder_sent', 'reminder_sent_for', 'ics_uid', 'calendar_subscription_id',
+      'embedding', 'embedding_model',
+      'access_count', 'last_accessed_at', 'created_at', 'updated_at',
+    ],
+  },
+  entryRevisions: {
+    table: 'entry_revisions',
+    columns: ['id', 'entry_id', 'title', 'content', 'tags', 'list_items', 'source', 'created_at'],
+  },
+  reminderDeliveries: {
+    table: 'reminder_deliveries',
+    // slack_channel/slack_ts point at messages in the old workspace thread — not carried over
+    columns: [
+      'id', 'entry_id', 'occurrence_date', 'event_at', 'importance', 'status', 'delivery_count',
+      'sent_at', 'snoozed_until', 'escalated_at', 'acknowledged_at', 'ack_via', 'created_at', 'updated_at',
+    ],
+  },
+  watches: {
+    table: 'agent_tasks',
+    columns: [
+      'id', 'type', 'status', 'intent', 'agent', 'input', 'cron_expression', 'cron_active',
+      'next_run_at', 'created_at',
+    ],
+  },
+  watchSnapshots: {
+    table: 'watch_snapshots',
+    columns: ['id', 'watch_id', 'task_id', 'run_number', 'findings', 'diff', 'summary', 'condition_met', 'created_at'],
+  },
+  reflections: {
+    table: 'jac_reflections',
+    columns: ['id', 'task_id', 'task_type', 'intent', 'summary', 'connections', 'embedding', 'created_at'],
+  },
+  brainEntities: {
+    table: 'brain_entities',
+    columns: [
+      'id', 'name', 'entity_type', 'metadata', 'mention_count', 'first_seen', 'last_seen',
+      'embedding', 'created_at',
+    ],
+  },
+  entityMentions: {
+    table: 'entity_mentions',
+    columns: ['id', 'entity_id', 'entry_id', 'reflection_id', 'context_snippet', 'created_at'],
+  },
+  entryRelationships: {
+    table: 'entry_relationships',
+    columns: ['id', 'entry_id', 'related_entry_id', 'similarity_score', 'relationship_type', 'created_at'],
+  },
+  principles: {
+    table: 'jac_principles',
+    columns: [
+      'id', 'principle', 'source_reflection_ids', 'confidence', 'times_applied', 'embedding',
+      'created_at', 'last_validated',
+    ],
+  },
+  insights: {
+    table: 'brain_insights',
+    columns: ['id', 'type', 'title', 'body', 'priority', 'entry_ids', 'dismissed', 'created_at', 'expires_at'],
+  },
+  codeProjects: {
+    table: 'code_projects',
+    // file_tree_cache / last_synced_at are caches — sync-codebase rebuilds them.
+    // git_token_secret is the secret's name, not the token.
+    columns: [
+      'id', 'name', 'repo_full_name', 'default_branch', 'description', 'tech_stack', 'active', 'pages_url',
+      'merge_policy', 'approval_paths', 'git_provider', 'git_base_url', 'git_token_secret', 'created_at',
+    ],
+  },
+  brainReports: {
+    table: 'brain_reports',
+    columns: [
+      'id', 'report_type', 'title', 'summary', 'body_markdown', 'key_themes', 'decisions', 'insights',
+      'conversation_stats', 'metadata', 'source', 'entry_id', 'task_id', 'start_date', 'end_date', 'created_at',
+    ],
+  },
+  smartCollections: {
+    table: 'smart_collections',
+    columns: ['id', 'name', 'query', 'notify_slack', 'created_at', 'updated_at'],
+  },
+};
+
+export const ARCHIVE_SECTION_ORDER = Object.keys(ARCHIVE_SECTIONS) as ArchiveSectionKey[];
+
+export const PROFILE_COLUMNS = ['username', 'onboarding_completed'];
+export const USER_SETTINGS_COLUMNS = ['preferred_model', 'daily_task_limit', 'max_concurrent_tasks', 'settings'];
+
+export interface BrainArchive {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  source: { userId: string; project: string | null };
+  counts: Record<ArchiveSectionKey, number>;
+  /** Model behind the exported vectors. Absent in archives from before embedding models were tracked. */
+  embeddingModel?: string;
+  profile: Record<string, unknown> | null;
+  userSettings: Record<string, unknown> | null;
+  sections: Record<ArchiveSectionKey, ArchiveRow[]>;
+}
+
+type SelectQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+const PAGE_SIZE = 1000;
+/** Ids per .in() filter — keeps the request URL well under limits */
+const IN_CHUNK_SIZE = 200;
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+/** Page through a user's rows — PostgREST caps a single select at 1000 */
+export async function fetchAllRows(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  filter: (q: SelectQuery) => SelectQuery
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await filter(supabase.from(table).select(columns))
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/** Build the full archive for a user (service role client) */
+export async function buildArchive(supabase: SupabaseClient, userId: string): Promise<BrainArchive> {
+  const sections = {} as Record<ArchiveSectionKey, ArchiveRow[]>;
+
+  for (const key of ARCHIVE_SECTION_ORDER) {
+    const def = ARCHIVE_SECTIONS[key];
+    const columns = def.columns.join(', ');
+
+    if (key === 'entityMentions') {
+      // No user_id column — scope through the user's entities
+      const entityIds = sections.brainEntities.map((e) => e.id);
+      const mentions: ArchiveRow[] = [];
+      for (const ids of chunk(entityIds, IN_CHUNK_SIZE)) {
+        const rows = await fetchAllRows(supabase, def.table, columns, (q) => q.in('entity_id', ids));
+        mentions.push(...(rows as ArchiveRow[]));
+      }
+      sections[key] = mentions;
+      continue;
+    }
+
+    sections[key] = (await fetchAllRows(supabase, def.table, columns, (q) => {
+      const scoped = q.eq('user_id', userId);
+      return key === 'watches' ? scoped.not('cron_expression', 'is', null) : scoped;
+    })) as ArchiveRow[];
+  }
+
+  const [{ data: profile }, { data: userSettings }] = await Promise.all([
+    supabase.from('profiles').select(PROFILE_COLUMNS.join(', ')).eq('id', userId).maybeSingle(),
+    supabase.from('user_settings').select(USER_SETTINGS_COLUMNS.join(', ')).eq('user_id', userId).maybeSingle(),
+  ]);
+
+  let project: string | null = null;
+  try {
+    project = new URL(Deno.env.get('SUPABASE_URL') ?? '').hostname.split('.')[0] || null;
+  } catch {
+    // leave null
+  }
+
+  const counts = Object.fromEntries(
+    ARCHIVE_SECTION_ORDER.map((key) => [key, sections[key].length])
+  ) as Record<ArchiveSectionKey, number>;
+
+  const { activeModel } = await getEmbeddingState(supabase);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: ARCHIVE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { userId, project },
+    counts,
+    embeddingModel: activeModel,
+    profile: (profile as Record<string, unknown> | null) ?? null,
+    userSettings: (userSettings as Record<string, unknown> | null) ?? null,
+    sections,
+  };
+}
+
+/** Bring an older archive up to the current schema. v1 is current. */
+function upgradeArchive(archive: BrainArchive): BrainArchive {
+  return archive;
+}
+
+/**
+ * Check an uploaded archive's envelope and row shapes. Sections missing from
+ * an archive are treated as empty; unknown sections are reported as warnings.
+ */
+export function validateArchive(input: unknown): {
+  archive: BrainArchive | null;
+  errors: string[];
+  warnings: string[];
+} {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { archive: null, errors: ['Archive must be a JSON object'], warnings };
+  }
+  const raw = input as Record<string, unknown>;
+
+  if (raw.format !== ARCHIVE_FORMAT) {
+    errors.push(`Not a ${ARCHIVE_FORMAT} file (format: ${JSON.stringify(raw.format ?? null)})`);
+  }
+  const version = raw.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push('Missing or invalid schemaVersion');
+  } else if (version > ARCHIVE_SCHEMA_VERSION) {
+    errors.push(`Archive schemaVersion ${version} is newer than this server supports (${ARCHIVE_SCHEMA_VERSION})`);
+  }
+
+  const rawSections = raw.sections;
+  if (!rawSections || typeof rawSections !== 'object' || Array.isArray(rawSections)) {
+    errors.push('Missing sections');
+  }
+  if (errors.length > 0) return { archive: null, errors, warnings };
+
+  const sections = {} as Record<ArchiveSectionKey, ArchiveRow[]>;
+  const sectionInput = rawSections as Record<string, unknown>;
+
+  for (const name of Object.keys(sectionInput)) {
+    if (!(name in ARCHIVE_SECTIONS)) warnings.push(`Unknown section "${name}" ignored`);
+  }
+
+  for (const key of ARCHIVE_SECTION_ORDER) {
+    const value = sectionInput[key];
+    if (value === undefined) {
+      sections[key] = [];
+      continue;
+    }
+    if (!Array.isArray(value)) {
+      errors.push(`Section "${key}" must be an array`);
+      continue;
+    }
+    const allowed = new Set(ARCHIVE_SECTIONS[key].columns);
+    const rows: ArchiveRow[] = [];
+    value.forEach((row, i) => {
+      if (!row || typeof row !== 'object' || typeof (row as Record<string, unknown>).id !== 'string') {
+        errors.push(`${key}[${i}]: row must be an object with a string id`);
+        return;
+      }
+      // Drop columns this schema version doesn't know (and user_id, always)
+      rows.push(Object.fromEntries(
+        Object.entries(row as Record<string, unknown>).filter(([col]) => allowed.has(col))
+      ) as ArchiveRow);
+    });
+    sections[key] = rows;
+    if (errors.length > 20) break;
+  }
+
+  if (errors.length > 0) return { archive: null, errors: errors.slice(0, 20), warnings };
+
+  const pick = (obj: unknown, columns: string[]) =>
+    obj && typeof obj === 'object'
+      ? Object.fromEntries(columns.filter((c) => c in (obj as object)).map((c) => [c, (obj as Record<string, unknown>)[c]]))
+      : null;
+
+  const archive: BrainArchive = {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: version as number,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    source: (raw.source as BrainArchive['source']) ?? { userId: '', project: null },
+    counts: Object.fromEntries(ARCHIVE_SECTION_ORDER.map((k) => [k, sections[k].length])) as Record<ArchiveSectionKey, number>,
+    embeddingModel: typeof raw.embeddingModel === 'string' ? raw.embeddingModel : undefined,
+    profile: pick(raw.profile, PROFILE_COLUMNS),
+    userSettings: pick(raw.userSettings, USER_SETTINGS_COLUMNS),
+    sections,
+  };
+
+  return { archive: upgradeArchive(archive), errors, warnings };
+}
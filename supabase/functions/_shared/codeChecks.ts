@@ -0,0 +1,384 @@
+/**
+ * Static checks for code-sandbox — syntax, TypeScript type-check, lint
+ *
+ * Everything runs in memory against a virtual copy of the repo: the
+ * changed files plus the repo files they import (fetched by code-sandbox).
+ * Nothing from the repo is executed and there is no node_modules, so:
+ * - package imports resolve to `any` ("Cannot find module" is ignored)
+ * - only diagnostics in the changed files are reported
+ * - lint is a built-in rule set modeled on eslint:recommended,
+ *   typescript-eslint/recommended and react-hooks — no ESLint install
+ */
+
+import ts from 'npm:typescript@5.4.5';
+import { isScriptFile, dirname, readTsconfigs, resolveImportSpecifier } from './sandboxConfig.ts';
+import type { PathAlias, SandboxFile } from './sandboxConfig.ts';
+
+export { isScriptFile, resolveImportSpecifier };
+export type { PathAlias, SandboxFile };
+
+export type SandboxCheckType = 'syntax' | 'typecheck' | 'lint';
+
+export interface SandboxDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface SandboxCheckResult {
+  type: SandboxCheckType;
+  passed: boolean;
+  /** Why the check didn't run */
+  skipped?: string;
+  durationMs: number;
+  diagnostics: SandboxDiagnostic[];
+}
+
+const ROOT = '/repo';
+const SHIMS_PATH = `${ROOT}/__sandbox_shims__.d.ts`;
+
+// Globals the runtime or bundler provides but the sandbox has no types for
+const SHIMS = `
+declare const Deno: any;
+declare const EdgeRuntime: any;
+interface ImportMeta { env: Record<string, any>; url: string; }
+declare namespace JSX {
+  interface Element {}
+  interface IntrinsicElements { [name: string]: any }
+}
+declare module '*.css';
+declare module '*.svg' { const src: string; export default src; }
+declare module '*.png' { const src: string; export default src; }
+`;
+
+/** Diagnostics caused by what the sandbox can't see, not by the code */
+const IGNORED_CODES = new Set([
+  2307, // Cannot find module
+  2792, // Cannot find module (moduleResolution hint)
+  7016, // Could not find a declaration file for module
+  2875, // JSX tag requires the module path 'react/jsx-runtime'
+  6053, // File not found (project references)
+]);
+
+export function isCheckableFile(path: string): boolean {
+  return isScriptFile(path) || path.endsWith('.json');
+}
+
+// --- tsconfig ---
+
+export interface SandboxConfig {
+  options: ts.CompilerOptions;
+  aliases: PathAlias[];
+}
+
+/**
+ * Compiler options from the repo's tsconfig files (later files win), with
+ * the overrides the in-memory program needs.
+ */
+export function buildSandboxConfig(tsconfigs: SandboxFile[]): SandboxConfig {
+  const { compilerOptions, baseUrl, aliases } = readTsconfigs(tsconfigs);
+  const { options } = ts.convertCompilerOptionsFromJson(compilerOptions, ROOT);
+
+  return {
+    aliases,
+    options: {
+      ...options,
+      noEmit: true,
+      allowJs: true,
+      checkJs: false,
+      skipLibCheck: true,
+      resolveJsonModule: true,
+      allowImportingTsExtensions: true,
+      isolatedModules: false,
+      composite: false,
+      incremental: false,
+      declaration: false,
+      types: [],
+      typeRoots: [],
+      target: options.target ?? ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      jsx: options.jsx ?? ts.JsxEmit.ReactJSX,
+      baseUrl: `${ROOT}/${baseUrl}`.replace(/\/$/, ''),
+      lib: undefined,
+      rootDir: undefined,
+      outDir: undefined,
+      tsBuildInfoFile: undefined,
+    },
+  };
+}
+
+// --- Import resolution ---
+
+/** Repo paths a file imports that exist in the tree (relative and alias imports) */
+export function resolveRepoImports(file: SandboxFile, tree: Set<string>, aliases: PathAlias[]): string[] {
+  if (!isScriptFile(file.path)) return [];
+  const { importedFiles } = ts.preProcessFile(file.content, true, true);
+  const resolved = new Set<string>();
+  for (const { fileName: spec } of importedFiles) {
+    const hit = resolveImportSpecifier(file.path, spec, tree, aliases);
+    if (hit) resolved.add(hit);
+  }
+  return [...resolved];
+}
+
+// --- Diagnostics ---
+
+function toDiagnostic(d: ts.Diagnostic, severity: 'error' | 'warning' = 'error'): SandboxDiagnostic {
+  const file = d.file ? d.file.fileName.slice(ROOT.length + 1) : '';
+  const pos = d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start) : { line: 0, character: 0 };
+  return {
+    file,
+    line: pos.line + 1,
+    column: pos.character + 1,
+    code: `TS${d.code}`,
+    message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+    severity,
+  };
+}
+
+function finish(type: SandboxCheckType, started: number, diagnostics: SandboxDiagnostic[]): SandboxCheckResult {
+  return {
+    type,
+    passed: !diagnostics.some(d => d.severity === 'error'),
+    durationMs: Date.now() - started,
+    diagnostics,
+  };
+}
+
+export function skippedCheck(type: SandboxCheckType, reason: string): SandboxCheckResult {
+  return { type, passed: true, skipped: reason, durationMs: 0, diagnostics: [] };
+}
+
+function scriptKind(path: string): ts.ScriptKind {
+  if (path.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (path.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.(js|mjs|cjs)$/.test(path)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function parse(file: SandboxFile): ts.SourceFile {
+  return ts.createSourceFile(`${ROOT}/${file.path}`, file.content, ts.ScriptTarget.Latest, true, scriptKind(file.path));
+}
+
+/** Parse errors in script files, JSON.parse errors in .json files */
+export function runSyntaxCheck(files: SandboxFile[]): SandboxCheckResult {
+  const started = Date.now();
+  const diagnostics: SandboxDiagnostic[] = [];
+
+  for (const file of files) {
+    if (file.path.endsWith('.json')) {
+      // tsconfig-style JSON allows comments and trailing commas
+      if (/(^|\/)(tsconfig[^/]*|jsconfig|deno)\.json$/.test(file.path)) {
+        const parsed = ts.parseConfigFileTextToJson(file.path, file.content);
+        if (parsed.error) diagnostics.push({ ...toDiagnostic(parsed.error), file: file.path });
+        continue;
+      }
+      try {
+        JSON.parse(file.content);
+      } catch (err) {
+        diagnostics.push({
+          file: file.path, line: 1, column: 1, code: 'JSON',
+          message: err instanceof Error ? err.message : 'Invalid JSON', severity: 'error',
+        });
+      }
+    } else if (isScriptFile(file.path)) {
+      const source = parse(file) as ts.SourceFile & { parseDiagnostics?: ts.Diagnostic[] };
+      for (const d of source.parseDiagnostics ?? []) diagnostics.push(toDiagnostic(d));
+    }
+  }
+  return finish('syntax', started, diagnostics);
+}
+
+// --- Type-check ---
+
+// Lib .d.ts files ship with the typescript package; parsed once per isolate
+const libCache = new Map<string, ts.SourceFile | undefined>();
+
+function libDirectory(): string | null {
+  try {
+    return ts.sys ? ts.getDirectoryPath(ts.sys.getExecutingFilePath()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Type-check the changed files in a program made of the changed files,
+ * their fetched context, and the shims. Only the changed files report.
+ */
+export function runTypeCheck(files: SandboxFile[], context: SandboxFile[], config: SandboxConfig): SandboxCheckResult {
+  const started = Date.now();
+  const libDir = libDirectory();
+  if (!libDir || !ts.sys.fileExists(`${libDir}/lib.es5.d.ts`)) {
+    return skippedCheck('typecheck', 'TypeScript lib files unavailable in this runtime');
+  }
+
+  const vfs = new Map<string, string>();
+  for (const f of context) vfs.set(`${ROOT}/${f.path}`, f.content);
+  for (const f of files) vfs.set(`${ROOT}/${f.path}`, f.content);
+  vfs.set(SHIMS_PATH, SHIMS);
+  const dirs = new Set<string>();
+  for (const path of vfs.keys()) {
+    for (let dir = dirname(path); dir.length >= ROOT.length; dir = dirname(dir)) dirs.add(dir);
+  }
+
+  const readFile = (fileName: string): string | undefined => {
+    if (vfs.has(fileName)) return vfs.get(fileName);
+    if (fileName.startsWith(`${libDir}/`)) return ts.sys.readFile(fileName);
+    return undefined;
+  };
+
+  const host: ts.CompilerHost = {
+    getSourceFile(fileName, languageVersion) {
+      if (fileName.startsWith(`${libDir}/`)) {
+        if (!libCache.has(fileName)) {
+          const text = ts.sys.readFile(fileName);
+          libCache.set(fileName, text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion));
+        }
+        return libCache.get(fileName);
+      }
+      const text = vfs.get(fileName);
+      return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion, true);
+    },
+    getDefaultLibFileName: (options) => `${libDir}/${ts.getDefaultLibFileName(options)}`,
+    getDefaultLibLocation: () => libDir,
+    writeFile: () => {},
+    getCurrentDirectory: () => ROOT,
+    getCanonicalFileName: (f) => f,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (f) => readFile(f) !== undefined,
+    readFile,
+    directoryExists: (d) => dirs.has(d.replace(/\/$/, '')) || d.startsWith(libDir),
+    getDirectories: () => [],
+  };
+
+  const checkedPaths = files.filter(f => isScriptFile(f.path)).map(f => `${ROOT}/${f.path}`);
+  const program = ts.createProgram({
+    rootNames: [...checkedPaths, SHIMS_PATH],
+    options: config.options,
+    host,
+  });
+
+  const diagnostics: SandboxDiagnostic[] = [];
+  for (const path of checkedPaths) {
+    const source = program.getSourceFile(path);
+    if (!source) continue;
+    const fileDiagnostics = [...program.getSyntacticDiagnostics(source), ...program.getSemanticDiagnostics(source)];
+    for (const d of fileDiagnostics) {
+      if (IGNORED_CODES.has(d.code)) continue;
+      diagnostics.push(toDiagnostic(d, d.category === ts.DiagnosticCategory.Error ? 'error' : 'warning'));
+    }
+  }
+  return finish('typecheck', started, diagnostics);
+}
+
+// --- Lint ---
+
+const HOOK_NAME_RE = /^use[A-Z0-9]/;
+const COMPONENT_NAME_RE = /^[A-Z]/;
+const HOC_NAMES = new Set(['forwardRef', 'memo']);
+
+function calleeName(expr: ts.Expression): string | null {
+  if (ts.isIdentifier(expr)) return expr.text;
+  if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+  return null;
+}
+
+/** Name a function is known by: declaration name, variable it's assigned to, or the variable a forwardRef/memo wraps it into */
+function functionName(fn: ts.SignatureDeclaration): string | null {
+  if ((ts.isFunctionDeclaration(fn) || ts.isFunctionExpression(fn) || ts.isMethodDeclaration(fn)) && fn.name && ts.isIdentifier(fn.name)) {
+    return fn.name.text;
+  }
+  let parent = fn.parent;
+  if (parent && ts.isCallExpression(parent) && HOC_NAMES.has(calleeName(parent.expression) ?? '')) {
+    parent = parent.parent;
+  }
+  if (parent && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) return parent.name.text;
+  if (parent && ts.isPropertyAssignment(parent) && ts.isIdentifier(parent.name)) return parent.name.text;
+  return null;
+}
+
+/** Whether the path from node up to fn passes through a branch or loop */
+function isConditional(node: ts.Node, fn: ts.Node): boolean {
+  let child = node;
+  for (let current = node.parent; current && current !== fn; child = current, current = current.parent) {
+    if (ts.isIfStatement(current) && child !== current.expression) return true;
+    if (ts.isConditionalExpression(current) && child !== current.condition) return true;
+    if (ts.isBinaryExpression(current) && child === current.right && [
+      ts.SyntaxKind.AmpersandAmpersandToken, ts.SyntaxKind.BarBarToken, ts.SyntaxKind.QuestionQuestionToken,
+    ].includes(current.operatorToken.kind)) return true;
+    if (ts.isIterationStatement(current, false) || ts.isCaseClause(current) || ts.isDefaultClause(current)) return true;
+  }
+  return false;
+}
+
+function lintFile(file: SandboxFile): SandboxDiagnostic[] {
+  const source = parse(file);
+  const out: SandboxDiagnostic[] = [];
+  const report = (node: ts.Node | number, code: string, message: string, severity: 'error' | 'warning') => {
+    const pos = typeof node === 'number' ? node : node.getStart(source);
+    const { line, character } = source.getLineAndCharacterOfPosition(pos);
+    out.push({ file: file.path, line: line + 1, column: character + 1, code, message, severity });
+  };
+
+  // @typescript-eslint/ban-ts-comment
+  const directiveRe = /\/\/\s*@ts-(ignore|nocheck)\b|\/\*\s*@ts-(ignore|nocheck)\b/g;
+  for (const match of file.content.matchAll(directiveRe)) {
+    report(match.index ?? 0, 'ban-ts-comment', `Do not use "@ts-${match[1] ?? match[2]}"`, 'error');
+  }
+
+  const visit = (node: ts.Node) => {
+    if (node.kind === ts.SyntaxKind.DebuggerStatement) {
+      report(node, 'no-debugger', 'Unexpected debugger statement', 'error');
+    }
+
+    if (ts.isVariableDeclarationList(node) && (node.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const | ts.NodeFlags.Using)) === 0) {
+      const ambient = node.parent && ts.isVariableStatement(node.parent) &&
+        node.parent.modifiers?.some(m => m.kind === ts.SyntaxKind.DeclareKeyword);
+      if (!ambient) report(node, 'no-var', 'Unexpected var, use let or const instead', 'error');
+    }
+
+    if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      report(node, 'no-explicit-any', 'Unexpected any. Specify a different type', 'warning');
+    }
+
+    if (ts.isBlock(node) && node.statements.length === 0 && !ts.isFunctionLike(node.parent)) {
+      const inner = file.content.slice(node.getStart(source) + 1, node.end - 1);
+      if (!/\/\/|\/\*/.test(inner)) report(node, 'no-empty', 'Empty block statement', 'warning');
+    }
+
+    // react-hooks/rules-of-hooks
+    if (ts.isCallExpression(node)) {
+      const name = calleeName(node.expression);
+      if (name && HOOK_NAME_RE.test(name)) {
+        let fn: ts.Node | undefined = node.parent;
+        while (fn && !ts.isFunctionLike(fn)) fn = fn.parent;
+        if (!fn) {
+          report(node, 'rules-of-hooks', `React Hook "${name}" cannot be called at the top level`, 'error');
+        } else {
+          const owner = functionName(fn as ts.SignatureDeclaration);
+          if (!owner || !(COMPONENT_NAME_RE.test(owner) || HOOK_NAME_RE.test(owner))) {
+            report(node, 'rules-of-hooks', `React Hook "${name}" is called in ${owner ? `function "${owner}"` : 'a callback'}, which is neither a component nor a custom hook`, 'error');
+          } else if (isConditional(node, fn)) {
+            report(node, 'rules-of-hooks', `React Hook "${name}" is called conditionally. Hooks must be called in the same order every render`, 'error');
+          }
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return out;
+}
+
+export function runLint(files: SandboxFile[]): SandboxCheckResult {
+  const started = Date.now();
+  const diagnostics = files.filter(f => isScriptFile(f.path)).flatMap(lintFile);
+  return finish('lint', started, diagnostics);
+}
@@ -0,0 +1,289 @@
+/**
+ * Embedding providers + model state
+ *
+ * A model is identified as "provider/model@dimensions", e.g.
+ * "voyage/voyage-3-lite@512". Every stored entry vector records the model id
+ * that produced it (entries.embedding_model) so vectors from different
+ * models are never compared.
+ *
+ * Providers:
+ * - voyage — Voyage AI (VOYAGE_API_KEY)
+ * - openai — OpenAI text-embedding-3-* (OPENAI_API_KEY)
+ * - local  — deterministic feature-hashing vectors, no network. A stand-in
+ *            for tests and local dev; similar text gives similar vectors.
+ *
+ * The active model lives in embedding_config. Switching models runs as an
+ * embedding migration (see backfill-embeddings): new vectors are written to
+ * entry_embeddings_next while search queries both sets side by side, then
+ * cutover_embedding_migration() swaps them in.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { localEmbedding } from './localEmbedding.ts';
+
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbeddingModel {
+  /** "provider/model@dimensions" */
+  id: string;
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'voyage/voyage-3-lite@512';
+
+/** Characters sent per text — stays within provider token limits */
+export const MAX_EMBEDDING_CHARS = 8000;
+
+/** pgvector HNSW indexes top out at 2000 dimensions */
+const MAX_DIMENSIONS = 2000;
+
+export class EmbeddingError extends Error {
+  status: number;
+  code?: string;
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'EmbeddingError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function parseEmbeddingModel(id: string): EmbeddingModel | null {
+  const match = /^([a-z]+)\/([A-Za-z0-9._:-]+)@(\d+)$/.exec(id?.trim() ?? '');
+  if (!match) return null;
+  const dimensions = parseInt(match[3], 10);
+  if (dimensions < 1 || dimensions > MAX_DIMENSIONS) return null;
+  return { id: `${match[1]}/${match[2]}@${dimensions}`, provider: match[1], model: match[2], dimensions };
+}
+
+interface EmbeddingProvider {
+  /** Env var holding the API key, if the provider needs one */
+  apiKeyEnv?: string;
+  embed(model: EmbeddingModel, texts: string[], inputType: EmbeddingInputType): Promise<{ vectors: number[][]; tokens: number }>;
+}
+
+// --- Voyage ---
+
+const VOYAGE_API_URL = 'https://api.voyageai.com/v1/embeddings';
+/** Native output sizes — other sizes are requested via output_dimension */
+const VOYAGE_NATIVE_DIMENSIONS: Record<string, number> = {
+  'voyage-3-lite': 512,
+  'voyage-3': 1024,
+  'voyage-3.5': 1024,
+  'voyage-3.5-lite': 1024,
+  'voyage-3-large': 1024,
+};
+
+const voyageProvider: EmbeddingProvider = {
+  apiKeyEnv: 'VOYAGE_API_KEY',
+  async embed(model, texts, inputType) {
+    const body: Record<string, unknown> = { model: model.model, input: texts, input_type: inputType };
+    if (VOYAGE_NATIVE_DIMENSIONS[model.model] !== model.dimensions) {
+      body.output_dimension = model.dimensions;
+    }
+    const res = await fetch(VOYAGE_API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get('VOYAGE_API_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const errText = await res.text();
+      console.error('Voyage API error:', res.status, errText);
+      throw new EmbeddingError(`Embedding API failed: ${res.status}`, 502);
+    }
+    const data = await res.json();
+    const vectors = ((data.data ?? []) as Array<{ index?: number; embedding: number[] }>)
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((d) => d.embedding);
+    return { vectors, tokens: data.usage?.total_tokens || 0 };
+  },
+};
+
+// --- OpenAI ---
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+const openaiProvider: EmbeddingProvider = {
+  apiKeyEnv: 'OPENAI_API_KEY',
+  async embed(model, texts) {
+    const res = await fetch(OPENAI_EMBEDDINGS_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: model.model, input: texts, dimensions: model.dimensions }),
+    });
+    if (!res.ok) {
+      const errText = await res.text();
+      console.error('OpenAI embeddings error:', res.status, errText);
+      throw new EmbeddingError(`Embedding API failed: ${res.status}`, 502);
+    }
+    const data = await res.json();
+    const vectors = ((data.data ?? []) as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding);
+    return { vectors, tokens: data.usage?.total_tokens || 0 };
+  },
+};
+
+// --- Local (deterministic) ---
+
+const localProvider: EmbeddingProvider = {
+  embed(model, texts) {
+    return Promise.resolve({
+      vectors: texts.map((t) => localEmbedding(t, model.dimensions)),
+      tokens: 0,
+    });
+  },
+};
+
+const PROVIDERS: Record<string, EmbeddingProvider> = {
+  voyage: voyageProvider,
+  openai: openaiProvider,
+  local: localProvider,
+};
+
+function resolveModel(id: string): { model: EmbeddingModel; provider: EmbeddingProvider } {
+  const model = parseEmbeddingModel(id);
+  if (!model) throw new EmbeddingError(`Invalid embedding model "${id}" (expected provider/model@dimensions)`, 400);
+  const provider = PROVIDERS[model.provider];
+  if (!provider) throw new EmbeddingError(`Unknown embedding provider "${model.provider}"`, 400);
+  if (provider.apiKeyEnv && !Deno.env.get(provider.apiKeyEnv)) {
+    throw new EmbeddingError(`${provider.apiKeyEnv} not configured`, 501, 'NOT_CONFIGURED');
+  }
+  return { model, provider };
+}
+
+/** Why a model can't be used here, or null if it can */
+export function checkEmbeddingModel(id: string): string | null {
+  try {
+    resolveModel(id);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/** Embed a batch of texts with one model. Every vector is checked against the model's dimensions. */
+export async function embedTexts(
+  modelId: string,
+  texts: string[],
+  inputType: EmbeddingInputType = 'document'
+): Promise<{ model: EmbeddingModel; vectors: number[][]; tokens: number }> {
+  const { model, provider } = resolveModel(modelId);
+  const { vectors, tokens } = await provider.embed(
+    model,
+    texts.map((t) => t.slice(0, MAX_EMBEDDING_CHARS)),
+    inputType
+  );
+
+  if (vectors.length !== texts.length || vectors.some((v) => !Array.isArray(v) || v.length !== model.dimensions)) {
+    console.error(`Embedding provider returned unexpected shape for ${model.id}`);
+    throw new EmbeddingError('Embedding API returned unexpected format', 502);
+  }
+  return { model, vectors, tokens };
+}
+
+// --- Model state ---
+
+export type EmbeddingMigrationStatus = 'running' | 'ready' | 'completed' | 'cancelled';
+
+export interface EmbeddingState {
+  activeModel: string;
+  /** Migration in progress — its vectors are searched alongside the active ones */
+  migration: { id: string; toModel: string; status: EmbeddingMigrationStatus } | null;
+}
+
+const STATE_TTL_MS = 60_000;
+let cachedState: { state: EmbeddingState; at: number } | null = null;
+
+/** Active model + in-flight migration. Cached briefly per isolate. */
+export async function getEmbeddingState(supabase: SupabaseClient, fresh = false): Promise<EmbeddingState> {
+  if (!fresh && cachedState && Date.now() - cachedState.at < STATE_TTL_MS) return cachedState.state;
+
+  const [{ data: config }, { data: migration }] = await Promise.all([
+    supabase.from('embedding_config').select('active_model').maybeSingle(),
+    supabase
+      .from('embedding_migrations')
+      .select('id, to_model, status')
+      .in('status', ['running', 'ready'])
+      .maybeSingle(),
+  ]);
+
+  const state: EmbeddingState = {
+    activeModel: (config?.active_model as string) || DEFAULT_EMBEDDING_MODEL,
+    migration: migration
+      ? { id: migration.id as string, toModel: migration.to_model as string, status: migration.status as EmbeddingMigrationStatus }
+      : null,
+  };
+  cachedState = { state, at: Date.now() };
+  return state;
+}
+
+// --- Search ---
+
+/** generate-embedding's response when called with include_next */
+export interface QueryEmbedding {
+  embedding: number[];
+  model: string;
+  next?: { embedding: number[]; model: string };
+}
+
+interface VectorSearchParams {
+  match_threshold: number;
+  match_count: number;
+  filter_user_id: string;
+  decay_weight?: boolean;
+}
+
+/**
+ * Vector search across the active vectors and, during a migration, the new
+ * model's vectors too. Rows found by both keep the higher similarity, so
+ * results stay complete while the new vectors are still filling in.
+ */
+export async function searchEntriesSideBySide<T extends { id: string; similarity: number }>(
+  supabase: SupabaseClient,
+  query: QueryEmbedding,
+  params: VectorSearchParams
+): Promise<T[]> {
+  const searches = [
+    supabase.rpc('search_entries_by_embedding', {
+      query_embedding: JSON.stringify(query.embedding),
+      // Only vectors from the query's model — the cached state can lag a cutover
+      filter_model: query.model,
+      ...params,
+    }),
+  ];
+  if (query.next) {
+    searches.push(
+      supabase.rpc('search_entries_by_next_embedding', {
+        query_embedding: JSON.stringify(query.next.embedding),
+        next_model: query.next.model,
+        ...params,
+      })
+    );
+  }
+
+  const results = await Promise.all(searches);
+  const merged = new Map<string, T>();
+  for (const { data, error } of results) {
+    if (error) {
+      console.warn('[embeddings] Vector search failed:', error.message);
+      continue;
+    }
+    for (const row of (data ?? []) as T[]) {
+      const existing = merged.get(row.id);
+      if (!existing || row.similarity > existing.similarity) merged.set(row.id, row);
+    }
+  }
+
+  return [...merged.values()]
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, params.match_count);
+}
@@ -0,0 +1,195 @@
+/**
+ * Shared entry pipeline stages: classify → embed → extract entities, then the
+ * smart-collection check once the embedding is in.
+ *
+ * smart-save runs these for a single dump; import-notes runs them for every
+ * note in a vault import. Each stage calls the same internal edge function
+ * (classify-content, calculate-importance, generate-embedding, extract-entities,
+ * smart-collections-check) with the service role key.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+
+export interface ClassificationResult {
+  type: string;
+  subtype?: string;
+  suggestedTitle: string;
+  tags: string[];
+  extractedData: Record<string, unknown>;
+  appendTo?: string;
+  listItems?: Array<{ text: string; checked: boolean }>;
+  imageDescription?: string;
+  documentText?: string;
+  eventDate?: string;
+  eventTime?: string;
+  isRecurring?: boolean;
+  recurrencePattern?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  /** RFC 5545 RRULE value, validated by classify-content */
+  rrule?: string;
+  reminderMinutes?: number;
+}
+
+export interface PipelineContext {
+  supabase: SupabaseClient;
+  supabaseUrl: string;
+  serviceKey: string;
+  userId: string;
+}
+
+/** Whitespace/case-insensitive content key — how imports and restores spot duplicates */
+export function normalizeContent(content: string): string {
+  return content.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function internalFetch(ctx: PipelineContext, fn: string, body: unknown): Promise<Response> {
+  return fetch(`${ctx.supabaseUrl}/functions/v1/${fn}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${ctx.serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * AI classification + importance score, in parallel. Falls back to a plain
+ * note (or image) when classify-content fails; importance is null on failure.
+ */
+export async function classifyAndScore(
+  ctx: PipelineContext,
+  content: string,
+  imageUrl?: string
+): Promise<{ classification: ClassificationResult; importanceScore: number | null }> {
+  const [classifyResponse, importanceResponse] = await Promise.all([
+    internalFetch(ctx, 'classify-content', { content, imageUrl, userId: ctx.userId }),
+    internalFetch(ctx, 'calculate-importance', { content, role: 'user' }),
+  ]);
+
+  let classification: ClassificationResult;
+  if (!classifyResponse.ok) {
+    const errorText = await classifyResponse.text();
+    console.error('Classification failed:', errorText);
+    classification = {
+      type: imageUrl ? 'image' : 'note',
+      subtype: imageUrl ? 'photo' : undefined,
+      suggestedTitle: content?.slice(0, 50) || (imageUrl ? 'Uploaded Image' : 'Untitled'),
+      tags: [],
+      extractedData: {},
+      listItems: [],
+    };
+  } else {
+    classification = await classifyResponse.json();
+    // Normalize tags — classify-content sometimes returns a comma-separated string
+    if (classification.tags && !Array.isArray(classification.tags)) {
+      classification.tags = typeof classification.tags === 'string'
+        ? (classification.tags as string).split(',').map((t: string) => t.trim()).filter(Boolean)
+        : [];
+    }
+  }
+
+  let importanceScore: number | null = null;
+  if (importanceResponse?.ok) {
+    const importanceData = await importanceResponse.json();
+    importanceScore = importanceData.importance_score;
+  }
+
+  return { classification, importanceScore };
+}
+
+/**
+ * Generate and store the entry's embedding, then link its nearest neighbours
+ * as semantic entry_relationships. Resolves false if no embedding was stored.
+ */
+export async function embedEntry(
+  ctx: PipelineContext,
+  entryId: string,
+  embeddingText: string
+): Promise<boolean> {
+  const embRes = await internalFetch(ctx, 'generate-embedding', { text: embeddingText });
+  if (!embRes.ok) {
+    const errBody = await embRes.text();
+    console.error(`[entry-pipeline] Embedding generation failed: ${embRes.status} — ${errBody}`);
+    return false;
+  }
+
+  const embData = await embRes.json();
+  if (!embData.embedding) return false;
+
+  const { error: embUpdateError } = await ctx.supabase
+    .from('entries')
+    .update({ embedding: JSON.stringify(embData.embedding), embedding_model: embData.model })
+    .eq('id', entryId);
+  if (embUpdateError) {
+    console.warn('Failed to store embedding:', embUpdateError);
+    return false;
+  }
+  console.log('Embedding stored for entry:', entryId);
+
+  // Find and store related entries
+  try {
+    const { data: related } = await ctx.supabase.rpc('search_entries_by_embedding', {
+      query_embedding: JSON.stringify(embData.embedding),
+      match_threshold: 0.65,
+      match_count: 6,
+      filter_user_id: ctx.userId,
+      filter_model: embData.model,
+    });
+    if (related && related.length > 0) {
+      const relationships = (related as Array<{ id: string; similarity: number }>)
+        .filter((r) => r.id !== entryId)
+        .slice(0, 5)
+        .map((r) => ({
+          entry_id: entryId,
+          related_entry_id: r.id,
+          user_id: ctx.userId,
+          similarity_score: r.similarity,
+          relationship_type: 'semantic',
+        }));
+      if (relationships.length > 0) {
+        const { error: relInsertErr } = await ctx.supabase.from('entry_relationships').insert(relationships);
+        if (relInsertErr) {
+          console.error('[entry-pipeline] Failed to insert relationships:', relInsertErr);
+        } else {
+          console.log(`Stored ${relationships.length} relationships for entry:`, entryId);
+        }
+      }
+    }
+  } catch (relErr) {
+    console.error('[entry-pipeline] Failed to compute relationships for entry', entryId, ':', relErr);
+  }
+
+  return true;
+}
+
+/** Entity extraction for a saved entry. Never throws. */
+export async function extractEntities(
+  ctx: PipelineContext,
+  entryId: string,
+  content: string
+): Promise<void> {
+  try {
+    await internalFetch(ctx, 'extract-entities', {
+      userId: ctx.userId,
+      content,
+      sourceEntryId: entryId,
+    });
+  } catch (err) {
+    console.warn('[entry-pipeline] Entity extraction failed (non-blocking):', err);
+  }
+}
+
+/**
+ * Slack pings for smart collections the entry now belongs to. Run after
+ * embedEntry settles so semantic matches count too. Never throws.
+ */
+export async function checkSmartCollections(
+  ctx: PipelineContext,
+  entryId: string
+): Promise<void> {
+  try {
+    await internalFetch(ctx, 'smart-collections-check', { userId: ctx.userId, entryId });
+  } catch (err) {
+    console.warn('[entry-pipeline] Smart collection check failed (non-blocking):', err);
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Git hosting providers for the code agent
+ *
+ * One interface over GitHub, GitLab and Gitea/Forgejo, chosen per
+ * code_projects row (git_provider, git_base_url, git_token_secret):
+ *
+ *   const git = getGitProvider(project);
+ *   const { owner, repo } = splitRepoFullName(project.repo_full_name);
+ *   await git.getRepoTree(owner, repo, 'main');
+ *
+ * "PR" means a merge request on GitLab. Safety rules shared by every
+ * provider live here: no commits to main/master, max 15 files per commit,
+ * secret files are never read or written.
+ */
+
+import { githubProvider } from './github.ts';
+import { createGitLabProvider } from './gitlab.ts';
+import { createGiteaProvider } from './gitea.ts';
+
+export type GitProviderKind = 'github' | 'gitlab' | 'gitea';
+
+export interface FileChange {
+  path: string;
+  content: string;
+}
+
+export interface CheckRun {
+  id: number;
+  name: string;
+  /** queued | in_progress | completed */
+  status: string;
+  /** success | failure | cancelled | skipped | neutral, once completed */
+  conclusion: string | null;
+  /** One-line result from the CI system (check output title, status description) */
+  summary?: string | null;
+  /** Where the run can be inspected */
+  detailsUrl?: string | null;
+}
+
+export interface CheckRuns {
+  total_count: number;
+  check_runs: CheckRun[];
+}
+
+export interface GitProvider {
+  kind: GitProviderKind;
+  getRepoTree(owner: string, repo: string, ref?: string): Promise<string[]>;
+  getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<{ path: string; content: string; sha: string }>;
+  /** Commit SHA the branch points at */
+  getBranchHead(owner: string, repo: string, branch: string): Promise<string>;
+  createBranch(owner: string, repo: string, baseBranch: string, newBranch: string): Promise<void>;
+  /** Atomic multi-file commit; returns the new commit SHA */
+  commitFiles(owner: string, repo: string, branch: string, files: FileChange[], message: string): Promise<string>;
+  createPR(owner: string, repo: string, head: string, base: string, title: string, body: string): Promise<{ number: number; url: string }>;
+  mergePR(owner: string, repo: string, prNumber: number, mergeMethod?: 'merge' | 'squash' | 'rebase'): Promise<{ sha: string; merged: boolean }>;
+  closePR(owner: string, repo: string, prNumber: number): Promise<void>;
+  commentOnPR(owner: string, repo: string, prNumber: number, body: string): Promise<void>;
+  /** Revert one commit on a branch; returns the revert commit SHA */
+  revertCommit(owner: string, repo: string, commitSha: string, branch: string, message: string): Promise<string>;
+  /** Unified diff of a PR, truncated to 30KB */
+  getPullRequestDiff(owner: string, repo: string, prNumber: number): Promise<string>;
+  /** CI results for a commit, in GitHub check-run shape */
+  getCheckRuns(owner: string, repo: string, ref: string): Promise<CheckRuns>;
+  /** Raw job log of one check run; null when the CI system keeps none for it */
+  getCheckRunLog(owner: string, repo: string, checkRunId: number): Promise<string | null>;
+  repoExists(owner: string, repo: string): Promise<boolean>;
+}
+
+/** code_projects columns that pick the provider */
+export interface GitProjectConfig {
+  git_provider?: string | null;
+  git_base_url?: string | null;
+  git_token_secret?: string | null;
+}
+
+export const GIT_PROVIDERS: GitProviderKind[] = ['github', 'gitlab', 'gitea'];
+
+const DEFAULT_TOKEN_SECRETS: Record<GitProviderKind, string> = {
+  github: 'GITHUB_PAT',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: 'GITEA_TOKEN',
+};
+
+// A project may only name a secret meant for its provider, so a row can
+// never send e.g. the service role key to an arbitrary host.
+const TOKEN_SECRET_RE: Record<GitProviderKind, RegExp> = {
+  github: /^GITHUB_[A-Z0-9_]+$/,
+  gitlab: /^GITLAB_[A-Z0-9_]+$/,
+  gitea: /^(GITEA|FORGEJO)_[A-Z0-9_]+$/,
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<GitProviderKind, string>> = {
+  gitlab: 'https://gitlab.com',
+};
+
+/**
+ * Provider for a code_projects row. Rows without git_provider are GitHub.
+ * GitHub always uses GITHUB_PAT against api.github.com.
+ */
+export function getGitProvider(project: GitProjectConfig | null | undefined): GitProvider {
+  const kind = (project?.git_provider || 'github') as GitProviderKind;
+  if (!GIT_PROVIDERS.includes(kind)) {
+    throw new Error(`Unknown git provider "${kind}". Must be one of: ${GIT_PROVIDERS.join(', ')}`);
+  }
+  if (kind === 'github') return githubProvider;
+
+  const secret = project?.git_token_secret || DEFAULT_TOKEN_SECRETS[kind];
+  if (!TOKEN_SECRET_RE[kind].test(secret)) {
+    throw new Error(`Invalid token secret "${secret}" for ${kind}`);
+  }
+  const token = Deno.env.get(secret);
+  if (!token) throw new Error(`${secret} not configured`);
+
+  const rawBaseUrl = project?.git_base_url || DEFAULT_BASE_URLS[kind];
+  if (!rawBaseUrl) throw new Error(`git_base_url is required for ${kind} projects`);
+  let baseUrl: string;
+  try {
+    const parsed = new URL(rawBaseUrl);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error('bad protocol');
+    baseUrl = `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    throw new Error(`Invalid git_base_url: ${rawBaseUrl}`);
+  }
+
+  return kind === 'gitlab'
+    ? createGitLabProvider({ baseUrl, token })
+    : createGiteaProvider({ baseUrl, token });
+}
+
+/**
+ * "owner/repo" → { owner, repo }. The owner keeps any inner slashes so
+ * GitLab subgroups ("group/sub/repo") work; GitHub and Gitea reject them.
+ */
+export function splitRepoFullName(repoFull: string): { owner: string; repo: string } {
+  const idx = (repoFull || '').lastIndexOf('/');
+  if (idx <= 0) return { owner: '', repo: '' };
+  return { owner: repoFull.slice(0, idx), repo: repoFull.slice(idx + 1) };
+}
+
+// --- Shared safety rules ---
+
+const REPO_NAME_RE = /^[a-zA-Z0-9._-]+$/;
+
+export function validateRepoComponent(value: string, label: string): void {
+  if (!value || !REPO_NAME_RE.test(value)) {
+    throw new Error(`Invalid ${label}: "${value}". Must match [a-zA-Z0-9._-]+`);
+  }
+}
+
+// Files that should never be read
+const SECRET_PATTERNS = [
+  /^\.env/,
+  /\.pem$/,
+  /\.key$/,
+  /credentials/i,
+  /secret/i,
+];
+
+export function isSecretFile(path: string): boolean {
+  const basename = path.split('/').pop() || '';
+  return SECRET_PATTERNS.some(p => p.test(basename));
+}
+
+/** Max files per agent commit */
+export const MAX_COMMIT_FILES = 15;
+
+/**
+ * Guards every provider applies before committing. Returns the files that
+ * may be written (secret files dropped).
+ */
+export function checkCommit(branch: string, files: FileChange[]): FileChange[] {
+  const lower = branch.toLowerCase();
+  if (lower === 'main' || lower === 'master') {
+    throw new Error(`SAFETY: Refused to commit directly to ${branch}. Use a feature branch.`);
+  }
+
+  if (files.length === 0) {
+    throw new Error('No files to commit');
+  }
+
+  if (files.length > MAX_COMMIT_FILES) {
+    throw new Error(`Too many files (${files.length}). Max ${MAX_COMMIT_FILES} per session.`);
+  }
+
+  const safeFiles = files.filter(file => {
+    if (isSecretFile(file.path)) {
+      console.warn(`[commitFiles] BLOCKED secret file from commit: ${file.path}`);
+      return false;
+    }
+    return true;
+  });
+
+  if (safeFiles.length === 0) {
+    throw new Error('All files were rejected by secret file filter');
+  }
+  return safeFiles;
+}
+
+/** Max file size the agent reads */
+export const MAX_FILE_BYTES = 100 * 1024;
+
+/** Truncate a diff to 30KB to protect the context window */
+export function truncateDiff(diff: string): string {
+  return diff.length > 30000 ? diff.slice(0, 30000) + '\n... [diff truncated at 30KB]' : diff;
+}
+
+const ANSI_COLOR_RE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+/** Last part of a CI log, without ANSI colour codes — failures are at the end */
+export function tailLog(log: string, maxChars = 6000): string {
+  const plain = log.replace(ANSI_COLOR_RE, '').trimEnd();
+  return plain.length > maxChars ? `... [log truncated]\n${plain.slice(-maxChars)}` : plain;
+}
+
+/** Base64 → UTF-8 text (atob alone mangles multi-byte characters) */
+export function decodeBase64Utf8(b64: string): string {
+  const binary = atob(b64.replace(/\n/g, ''));
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/** UTF-8 text → base64 */
+export function encodeBase64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,267 @@
+/**
+ * Gitea / Forgejo implementation of GitProvider (API v1)
+ *
+ * Needs Gitea 1.20+ or Forgejo 1.20+ for the multi-file contents API.
+ * Gitea has no revert endpoint: revertCommit restores the files the commit
+ * touched to their parent versions in one new commit. CI results come from
+ * commit statuses (Gitea Actions and external CI both report there).
+ */
+
+import {
+  validateRepoComponent, isSecretFile, checkCommit, truncateDiff, decodeBase64Utf8, encodeBase64Utf8, MAX_FILE_BYTES,
+} from './gitProvider.ts';
+import type { GitProvider, FileChange, CheckRun } from './gitProvider.ts';
+
+interface GiteaConfig {
+  /** Instance root, e.g. https://gitea.example.com */
+  baseUrl: string;
+  token: string;
+}
+
+/** Tree pages fetched at most */
+const MAX_TREE_PAGES = 50;
+
+// Commit status state → GitHub check-run status/conclusion
+const STATUS_STATES: Record<string, { status: string; conclusion: string | null }> = {
+  pending: { status: 'in_progress', conclusion: null },
+  success: { status: 'completed', conclusion: 'success' },
+  // Warnings don't fail CI
+  warning: { status: 'completed', conclusion: 'success' },
+  failure: { status: 'completed', conclusion: 'failure' },
+  error: { status: 'completed', conclusion: 'failure' },
+};
+
+interface ContentsFileOp {
+  operation: 'create' | 'update' | 'delete';
+  path: string;
+  /** base64 */
+  content?: string;
+  sha?: string;
+}
+
+export function createGiteaProvider(config: GiteaConfig): GitProvider {
+  const api = `${config.baseUrl}/api/v1`;
+
+  function headers(): Record<string, string> {
+    return {
+      'Authorization': `token ${config.token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  function repoUrl(owner: string, repo: string): string {
+    validateRepoComponent(owner, 'owner');
+    validateRepoComponent(repo, 'repo');
+    return `${api}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  function contentsUrl(base: string, path: string, ref: string): string {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    return `${base}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`;
+  }
+
+  async function request(url: string, init: RequestInit, label: string): Promise<Response> {
+    const res = await fetch(url, { ...init, headers: headers() });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Gitea ${label} failed (${res.status}): ${text.slice(0, 200)}`);
+    }
+    return res;
+  }
+
+  /** The file's blob (sha + base64 content) at a ref, or null if absent */
+  async function getBlob(base: string, path: string, ref: string): Promise<{ sha: string; content: string } | null> {
+    const res = await fetch(contentsUrl(base, path, ref), { headers: headers() });
+    if (res.status === 404) {
+      await res.body?.cancel();
+      return null;
+    }
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Gitea content API failed for ${path} (${res.status}): ${text.slice(0, 200)}`);
+    }
+    const data = await res.json();
+    return { sha: data.sha, content: data.content ?? '' };
+  }
+
+  async function changeFiles(base: string, branch: string, message: string, files: ContentsFileOp[]): Promise<string> {
+    const res = await request(
+      `${base}/contents`,
+      { method: 'POST', body: JSON.stringify({ branch, message, files }) },
+      'commit'
+    );
+    const data = await res.json();
+    return data.commit.sha;
+  }
+
+  async function getBranchHead(owner: string, repo: string, branch: string): Promise<string> {
+    const res = await request(`${repoUrl(owner, repo)}/branches/${encodeURIComponent(branch)}`, {}, `branch ${branch}`);
+    const data = await res.json();
+    return data.commit.id;
+  }
+
+  return {
+    kind: 'gitea',
+
+    async getRepoTree(owner, repo, ref = 'main') {
+      const base = repoUrl(owner, repo);
+      const sha = await getBranchHead(owner, repo, ref);
+      const paths: string[] = [];
+      for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+        const res = await request(
+          `${base}/git/trees/${encodeURIComponent(sha)}?recursive=true&per_page=1000&page=${page}`,
+          {},
+          'tree API'
+        );
+        const data = await res.json() as { tree?: Array<{ type: string; path: string }>; truncated?: boolean };
+        for (const item of data.tree ?? []) {
+          if (item.type === 'blob') paths.push(item.path);
+        }
+        if (!data.truncated || !data.tree?.length) break;
+      }
+      return paths;
+    },
+
+    async getFileContent(owner, repo, path, ref = 'main') {
+      if (isSecretFile(path)) {
+        throw new Error(`Refused to read secret file: ${path}`);
+      }
+      const res = await request(contentsUrl(repoUrl(owner, repo), path, ref), {}, `content API for ${path}`);
+      const data = await res.json();
+      if (data.size > MAX_FILE_BYTES) {
+        throw new Error(`File too large: ${path} (${data.size} bytes, max 100KB)`);
+      }
+      return { path, content: decodeBase64Utf8(data.content ?? ''), sha: data.sha };
+    },
+
+    getBranchHead,
+
+    async createBranch(owner, repo, baseBranch, newBranch) {
+      await request(
+        `${repoUrl(owner, repo)}/branches`,
+        { method: 'POST', body: JSON.stringify({ new_branch_name: newBranch, old_branch_name: baseBranch }) },
+        'create branch'
+      );
+    },
+
+    async commitFiles(owner, repo, branch, files: FileChange[], message) {
+      const safeFiles = checkCommit(branch, files);
+      const base = repoUrl(owner, repo);
+
+      // Updates must name the blob they replace
+      const ops: ContentsFileOp[] = [];
+      for (const file of safeFiles) {
+        const existing = await getBlob(base, file.path, branch);
+        ops.push({
+          operation: existing ? 'update' : 'create',
+          path: file.path,
+          content: encodeBase64Utf8(file.content),
+          ...(existing ? { sha: existing.sha } : {}),
+        });
+      }
+      return changeFiles(base, branch, message, ops);
+    },
+
+    async createPR(owner, repo, head, base, title, body) {
+      const res = await request(
+        `${repoUrl(owner, repo)}/pulls`,
+        { method: 'POST', body: JSON.stringify({ head, base, title, body }) },
+        'create PR'
+      );
+      const data = await res.json();
+      return { number: data.number, url: data.html_url };
+    },
+
+    async mergePR(owner, repo, prNumber, mergeMethod = 'squash') {
+      const base = repoUrl(owner, repo);
+      await request(
+        `${base}/pulls/${prNumber}/merge`,
+        { method: 'POST', body: JSON.stringify({ Do: mergeMethod, delete_branch_after_merge: true }) },
+        `merge PR #${prNumber}`
+      );
+      // The merge endpoint returns no body — read the result off the PR
+      const res = await request(`${base}/pulls/${prNumber}`, {}, `PR #${prNumber}`);
+      const data = await res.json();
+      return { sha: data.merge_commit_sha, merged: data.merged === true };
+    },
+
+    async closePR(owner, repo, prNumber) {
+      await request(
+        `${repoUrl(owner, repo)}/pulls/${prNumber}`,
+        { method: 'PATCH', body: JSON.stringify({ state: 'closed' }) },
+        `close PR #${prNumber}`
+      );
+    },
+
+    async commentOnPR(owner, repo, prNumber, body) {
+      await request(
+        `${repoUrl(owner, repo)}/issues/${prNumber}/comments`,
+        { method: 'POST', body: JSON.stringify({ body }) },
+        `comment on PR #${prNumber}`
+      );
+    },
+
+    async revertCommit(owner, repo, commitSha, branch, message) {
+      const base = repoUrl(owner, repo);
+      const res = await request(`${base}/git/commits/${encodeURIComponent(commitSha)}`, {}, `commit ${commitSha.slice(0, 8)}`);
+      const commit = await res.json() as {
+        parents?: Array<{ sha: string }>;
+        files?: Array<{ filename: string; status: string }>;
+      };
+      const parentSha = commit.parents?.[0]?.sha;
+      if (!parentSha) throw new Error(`Cannot revert initial commit ${commitSha}`);
+      if (!commit.files?.length) throw new Error(`Commit ${commitSha.slice(0, 8)} lists no changed files`);
+
+      // Put every touched file back the way the parent had it
+      const ops: ContentsFileOp[] = [];
+      for (const { filename } of commit.files) {
+        const [before, current] = await Promise.all([
+          getBlob(base, filename, parentSha),
+          getBlob(base, filename, branch),
+        ]);
+        if (before && current) {
+          ops.push({ operation: 'update', path: filename, content: before.content, sha: current.sha });
+        } else if (before) {
+          ops.push({ operation: 'create', path: filename, content: before.content });
+        } else if (current) {
+          ops.push({ operation: 'delete', path: filename, sha: current.sha });
+        }
+      }
+      return changeFiles(base, branch, message, ops);
+    },
+
+    async getPullRequestDiff(owner, repo, prNumber) {
+      const res = await request(`${repoUrl(owner, repo)}/pulls/${prNumber}.diff`, {}, `diff PR #${prNumber}`);
+      return truncateDiff(await res.text());
+    },
+
+    async getCheckRuns(owner, repo, ref) {
+      const res = await request(
+        `${repoUrl(owner, repo)}/commits/${encodeURIComponent(ref)}/status`,
+        {},
+        'commit status API'
+      );
+      const data = await res.json() as {
+        statuses?: Array<{ id: number; context: string; status: string; description?: string; target_url?: string }>;
+      };
+      const checkRuns: CheckRun[] = (data.statuses ?? []).map(s => ({
+        id: s.id,
+        name: s.context,
+        ...(STATUS_STATES[s.status] ?? { status: 'in_progress', conclusion: null }),
+        summary: s.description || null,
+        detailsUrl: s.target_url || null,
+      }));
+      return { total_count: checkRuns.length, check_runs: checkRuns };
+    },
+
+    // Commit statuses carry a description and link, not a log
+    async getCheckRunLog() {
+      return null;
+    },
+
+    async repoExists(owner, repo) {
+      const res = await fetch(repoUrl(owner, repo), { headers: headers() });
+      return res.ok;
+    },
+  };
+}
@@ -4,18 +4,18 @@
  * Pure fetch-based wrapper. No npm deps. Uses GITHUB_PAT from env.
  * Safety: commitFiles rejects if branch is main or master.
  * Security: all path/branch/ref params are URL-encoded.
+ *
+ * The GitHub implementation of GitProvider (see gitProvider.ts); callers
+ * go through getGitProvider(project) so GitLab/Gitea projects work too.
  */
 
-const GITHUB_API = 'https://api.github.com';
+import { validateRepoComponent, isSecretFile, checkCommit, truncateDiff, MAX_FILE_BYTES } from './gitProvider.ts';
+import type { GitProvider, FileChange, CheckRuns } from './gitProvider.ts';
 
-// Repo format validation
-const REPO_NAME_RE = /^[a-zA-Z0-9._-]+$/;
+export { isSecretFile };
+export type { FileChange };
 
-function validateRepoComponent(value: string, label: string): void {
-  if (!value || !REPO_NAME_RE.test(value)) {
-    throw new Error(`Invalid ${label}: "${value}". Must match [a-zA-Z0-9._-]+`);
-  }
-}
+const GITHUB_API = 'https://api.github.com';
 
 function getHeaders(): Record<string, string> {
   const token = Deno.env.get('GITHUB_PAT');
@@ -28,20 +28,6 @@ function getHeaders(): Record<string, string> {
   };
 }
 
-// Files that should never be read
-const SECRET_PATTERNS = [
-  /^\.env/,
-  /\.pem$/,
-  /\.key$/,
-  /credentials/i,
-  /secret/i,
-];
-
-export function isSecretFile(path: string): boolean {
-  const basename = path.split('/').pop() || '';
-  return SECRET_PATTERNS.some(p => p.test(basename));
-}
-
 /**
  * Get the full file tree of a repo (recursive)
  */
@@ -92,7 +78,7 @@ export async function getFileContent(
 
   const data = await res.json();
 
-  if (data.size > 100 * 1024) {
+  if (data.size > MAX_FILE_BYTES) {
     throw new Error(`File too large: ${path} (${data.size} bytes, max 100KB)`);
   }
 
@@ -100,6 +86,24 @@ export async function getFileContent(
   return { path, content, sha: data.sha };
 }
 
+/**
+ * Get the commit SHA a branch points at
+ */
+export async function getBranchHead(owner: string, repo: string, branch: string): Promise<string> {
+  validateRepoComponent(owner, 'owner');
+  validateRepoComponent(repo, 'repo');
+  const url = `${GITHUB_API}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/git/ref/heads/${encodeURIComponent(branch)}`;
+  const res = await fetch(url, { headers: getHeaders() });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Failed to get branch ref ${branch} (${res.status}): ${text.slice(0, 200)}`);
+  }
+
+  const data = await res.json();
+  return data.object.sha;
+}
+
 /**
  * Create a new branch from an existing one
  */
@@ -141,11 +145,6 @@ export async function createBranch(
   }
 }
 
-export interface FileChange {
-  path: string;
-  content: string;
-}
-
 /**
  * Atomic multi-file commit via Git Data API
  * Safety: rejects if branch is main or master
@@ -157,19 +156,7 @@ export async function commitFiles(
   files: FileChange[],
   message: string
 ): Promise<string> {
-  // Safety guard
-  const lower = branch.toLowerCase();
-  if (lower === 'main' || lower === 'master') {
-    throw new Error(`SAFETY: Refused to commit directly to ${branch}. Use a feature branch.`);
-  }
-
-  if (files.length === 0) {
-    throw new Error('No files to commit');
-  }
-
-  if (files.length > 15) {
-    throw new Error(`Too many files (${files.length}). Max 15 per session.`);
-  }
+  const safeFiles = checkCommit(branch, files);
 
   validateRepoComponent(owner, 'owner');
   validateRepoComponent(repo, 'repo');
@@ -192,19 +179,7 @@ export async function commitFiles(
   const commitData = await commitRes.json();
   const baseTreeSha = commitData.tree.sha;
 
-  // 3. Filter out secret files, then create blobs
-  const safeFiles = files.filter(file => {
-    if (isSecretFile(file.path)) {
-      console.warn(`[commitFiles] BLOCKED secret file from commit: ${file.path}`);
-      return false;
-    }
-    return true;
-  });
-
-  if (safeFiles.length === 0) {
-    throw new Error('All files were rejected by secret file filter');
-  }
-
+  // 3. Create blobs (secret files were already dropped)
   const treeItems: Array<{ path: string; mode: string; type: string; sha: string }> = [];
 
   for (const file of safeFiles) {
@@ -311,6 +286,44 @@ export async function mergePR(
   return { sha: data.sha, merged: data.merged };
 }
 
+/**
+ * Close a pull request without merging
+ */
+export async function closePR(owner: string, repo: string, prNumber: number): Promise<void> {
+  validateRepoComponent(owner, 'owner');
+  validateRepoComponent(repo, 'repo');
+  const url = `${GITHUB_API}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/${prNumber}`;
+  const res = await fetch(url, {
+    method: 'PATCH',
+    headers: getHeaders(),
+    body: JSON.stringify({ state: 'closed' }),
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Failed to close PR #${prNumber} (${res.status}): ${text.slice(0, 200)}`);
+  }
+}
+
+/**
+ * Post a comment on a pull request (PRs share the issues comment API)
+ */
+export async function commentOnPR(owner: string, repo: string, prNumber: number, body: string): Promise<void> {
+  validateRepoComponent(owner, 'owner');
+  validateRepoComponent(repo, 'repo');
+  const url = `${GITHUB_API}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${prNumber}/comments`;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ body }),
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Failed to comment on PR #${prNumber} (${res.status}): ${text.slice(0, 200)}`);
+  }
+}
+
 /**
  * Create a revert commit on a branch (reverts a specific commit)
  */
@@ -400,9 +413,7 @@ export async function getPullRequestDiff(
     throw new Error(`Failed to get PR diff #${prNumber} (${res.status}): ${text.slice(0, 200)}`);
   }
 
-  const diff = await res.text();
-  // Truncate to 30KB to protect context window
-  return diff.length > 30000 ? diff.slice(0, 30000) + '\n... [diff truncated at 30KB]' : diff;
+  return truncateDiff(await res.text());
 }
 
 /**
@@ -412,7 +423,7 @@ export async function getCheckRuns(
   owner: string,
   repo: string,
   ref: string
-): Promise<{ total_count: number; check_runs: Array<{ id: number; name: string; status: string; conclusion: string | null }> }> {
+): Promise<CheckRuns> {
   validateRepoComponent(owner, 'owner');
   validateRepoComponent(repo, 'repo');
   const url = `${GITHUB_API}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/commits/${encodeURIComponent(ref)}/check-runs`;
@@ -426,15 +437,50 @@ export async function getCheckRuns(
   const data = await res.json();
   return {
     total_count: data.total_count || 0,
-    check_runs: (data.check_runs || []).map((cr: { id: number; name: string; status: string; conclusion: string | null }) => ({
+    check_runs: (data.check_runs || []).map((cr: {
+      id: number;
+      name: string;
+      status: string;
+      conclusion: string | null;
+      details_url?: string | null;
+      output?: { title?: string | null; summary?: string | null };
+    }) => ({
       id: cr.id,
       name: cr.name,
       status: cr.status,
       conclusion: cr.conclusion,
+      summary: cr.output?.title || cr.output?.summary || null,
+      detailsUrl: cr.details_url ?? null,
     })),
   };
 }
 
+/**
+ * Job log for a check run. Actions check runs share their job's ID;
+ * checks from other apps have no log (404 → null).
+ */
+export async function getCheckRunLog(
+  owner: string,
+  repo: string,
+  checkRunId: number
+): Promise<string | null> {
+  validateRepoComponent(owner, 'owner');
+  validateRepoComponent(repo, 'repo');
+  const url = `${GITHUB_API}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/actions/jobs/${checkRunId}/logs`;
+  const res = await fetch(url, { headers: getHeaders() });
+
+  if (res.status === 404 || res.status === 410) {
+    await res.body?.cancel();
+    return null;
+  }
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Failed to get job log ${checkRunId} (${res.status}): ${text.slice(0, 200)}`);
+  }
+
+  return await res.text();
+}
+
 /**
  * Check if a repo exists and is accessible
  */
@@ -445,3 +491,21 @@ export async function repoExists(owner: string, repo: string): Promise<boolean>
   const res = await fetch(url, { headers: getHeaders() });
   return res.ok;
 }
+
+export const githubProvider: GitProvider = {
+  kind: 'github',
+  getRepoTree,
+  getFileContent,
+  getBranchHead,
+  createBranch,
+  commitFiles,
+  createPR,
+  mergePR,
+  closePR,
+  commentOnPR,
+  revertCommit,
+  getPullRequestDiff,
+  getCheckRuns,
+  getCheckRunLog,
+  repoExists,
+};
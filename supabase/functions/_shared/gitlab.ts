@@ -0,0 +1,285 @@
+/**
+ * GitLab implementation of GitProvider (gitlab.com or self-hosted, API v4)
+ *
+ * Projects are addressed by their URL-encoded path, so subgroups work:
+ * owner "group/sub", repo "app" → /projects/group%2Fsub%2Fapp.
+ * PR numbers are merge request iids. CI results come from the latest
+ * pipeline for the commit, one check run per job.
+ */
+
+import {
+  validateRepoComponent, isSecretFile, checkCommit, truncateDiff, decodeBase64Utf8, MAX_FILE_BYTES,
+} from './gitProvider.ts';
+import type { GitProvider, FileChange, CheckRun } from './gitProvider.ts';
+
+interface GitLabConfig {
+  /** Instance root, e.g. https://gitlab.com */
+  baseUrl: string;
+  token: string;
+}
+
+/** Tree pages fetched at most (100 entries each) */
+const MAX_TREE_PAGES = 100;
+
+const MERGE_RETRIES = 3;
+const MERGE_RETRY_MS = 2000;
+
+// GitLab job status → GitHub check-run status/conclusion
+const JOB_STATES: Record<string, { status: string; conclusion: string | null }> = {
+  success: { status: 'completed', conclusion: 'success' },
+  failed: { status: 'completed', conclusion: 'failure' },
+  canceled: { status: 'completed', conclusion: 'cancelled' },
+  skipped: { status: 'completed', conclusion: 'skipped' },
+  manual: { status: 'completed', conclusion: 'skipped' },
+  created: { status: 'queued', conclusion: null },
+  pending: { status: 'queued', conclusion: null },
+  waiting_for_resource: { status: 'queued', conclusion: null },
+  scheduled: { status: 'queued', conclusion: null },
+  preparing: { status: 'in_progress', conclusion: null },
+  running: { status: 'in_progress', conclusion: null },
+};
+
+function validateNamespace(owner: string): void {
+  for (const part of owner.split('/')) validateRepoComponent(part, 'owner');
+}
+
+export function createGitLabProvider(config: GitLabConfig): GitProvider {
+  const api = `${config.baseUrl}/api/v4`;
+
+  function headers(): Record<string, string> {
+    return {
+      'PRIVATE-TOKEN': config.token,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  function projectUrl(owner: string, repo: string): string {
+    validateNamespace(owner);
+    validateRepoComponent(repo, 'repo');
+    return `${api}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  async function request(url: string, init: RequestInit, label: string): Promise<Response> {
+    const res = await fetch(url, { ...init, headers: headers() });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`GitLab ${label} failed (${res.status}): ${text.slice(0, 200)}`);
+    }
+    return res;
+  }
+
+  async function fileExists(base: string, path: string, ref: string): Promise<boolean> {
+    const res = await fetch(
+      `${base}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`,
+      { method: 'HEAD', headers: headers() }
+    );
+    return res.ok;
+  }
+
+  return {
+    kind: 'gitlab',
+
+    async getRepoTree(owner, repo, ref = 'main') {
+      const base = projectUrl(owner, repo);
+      const paths: string[] = [];
+      let page = '1';
+      for (let i = 0; i < MAX_TREE_PAGES && page; i++) {
+        const res = await request(
+          `${base}/repository/tree?recursive=true&per_page=100&page=${page}&ref=${encodeURIComponent(ref)}`,
+          {},
+          'tree API'
+        );
+        const items = await res.json() as Array<{ type: string; path: string }>;
+        for (const item of items) {
+          if (item.type === 'blob') paths.push(item.path);
+        }
+        page = res.headers.get('x-next-page') || '';
+      }
+      return paths;
+    },
+
+    async getFileContent(owner, repo, path, ref = 'main') {
+      if (isSecretFile(path)) {
+        throw new Error(`Refused to read secret file: ${path}`);
+      }
+      const res = await request(
+        `${projectUrl(owner, repo)}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`,
+        {},
+        `content API for ${path}`
+      );
+      const data = await res.json();
+      if (data.size > MAX_FILE_BYTES) {
+        throw new Error(`File too large: ${path} (${data.size} bytes, max 100KB)`);
+      }
+      return { path, content: decodeBase64Utf8(data.content), sha: data.blob_id };
+    },
+
+    async getBranchHead(owner, repo, branch) {
+      const res = await request(
+        `${projectUrl(owner, repo)}/repository/branches/${encodeURIComponent(branch)}`,
+        {},
+        `branch ${branch}`
+      );
+      const data = await res.json();
+      return data.commit.id;
+    },
+
+    async createBranch(owner, repo, baseBranch, newBranch) {
+      await request(
+        `${projectUrl(owner, repo)}/repository/branches?branch=${encodeURIComponent(newBranch)}&ref=${encodeURIComponent(baseBranch)}`,
+        { method: 'POST' },
+        'create branch'
+      );
+    },
+
+    async commitFiles(owner, repo, branch, files: FileChange[], message) {
+      const safeFiles = checkCommit(branch, files);
+      const base = projectUrl(owner, repo);
+
+      // The commits API needs create vs update per file
+      const actions = [];
+      for (const file of safeFiles) {
+        actions.push({
+          action: await fileExists(base, file.path, branch) ? 'update' : 'create',
+          file_path: file.path,
+          content: file.content,
+        });
+      }
+
+      const res = await request(
+        `${base}/repository/commits`,
+        { method: 'POST', body: JSON.stringify({ branch, commit_message: message, actions }) },
+        'commit'
+      );
+      const data = await res.json();
+      return data.id;
+    },
+
+    async createPR(owner, repo, head, base, title, body) {
+      const res = await request(
+        `${projectUrl(owner, repo)}/merge_requests`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            source_branch: head,
+            target_branch: base,
+            title,
+            description: body,
+            remove_source_branch: true,
+          }),
+        },
+        'create merge request'
+      );
+      const data = await res.json();
+      return { number: data.iid, url: data.web_url };
+    },
+
+    async mergePR(owner, repo, prNumber, mergeMethod = 'squash') {
+      // GitLab's merge method is a project setting; only squash is per-request.
+      // A fresh MR answers 405/422 until its mergeability check finishes.
+      const url = `${projectUrl(owner, repo)}/merge_requests/${prNumber}/merge`;
+      const init = {
+        method: 'PUT',
+        body: JSON.stringify({ squash: mergeMethod === 'squash', should_remove_source_branch: true }),
+      };
+      let res = await fetch(url, { ...init, headers: headers() });
+      for (let attempt = 0; attempt < MERGE_RETRIES && (res.status === 405 || res.status === 422); attempt++) {
+        await res.body?.cancel();
+        await new Promise(resolve => setTimeout(resolve, MERGE_RETRY_MS));
+        res = await fetch(url, { ...init, headers: headers() });
+      }
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(`GitLab merge !${prNumber} failed (${res.status}): ${text.slice(0, 200)}`);
+      }
+      const data = await res.json();
+      return {
+        sha: data.merge_commit_sha || data.squash_commit_sha || data.sha,
+        merged: data.state === 'merged',
+      };
+    },
+
+    async closePR(owner, repo, prNumber) {
+      await request(
+        `${projectUrl(owner, repo)}/merge_requests/${prNumber}`,
+        { method: 'PUT', body: JSON.stringify({ state_event: 'close' }) },
+        `close !${prNumber}`
+      );
+    },
+
+    async commentOnPR(owner, repo, prNumber, body) {
+      await request(
+        `${projectUrl(owner, repo)}/merge_requests/${prNumber}/notes`,
+        { method: 'POST', body: JSON.stringify({ body }) },
+        `comment on !${prNumber}`
+      );
+    },
+
+    async revertCommit(owner, repo, commitSha, branch) {
+      // GitLab writes its own "Revert ..." message
+      const res = await request(
+        `${projectUrl(owner, repo)}/repository/commits/${encodeURIComponent(commitSha)}/revert`,
+        { method: 'POST', body: JSON.stringify({ branch }) },
+        `revert ${commitSha.slice(0, 8)}`
+      );
+      const data = await res.json();
+      return data.id;
+    },
+
+    async getPullRequestDiff(owner, repo, prNumber) {
+      const res = await request(
+        `${projectUrl(owner, repo)}/merge_requests/${prNumber}/diffs?per_page=100`,
+        {},
+        `diff !${prNumber}`
+      );
+      const changes = await res.json() as Array<{ old_path: string; new_path: string; diff: string; new_file: boolean; deleted_file: boolean }>;
+      const diff = changes.map(c => [
+        `diff --git a/${c.old_path} b/${c.new_path}`,
+        `--- ${c.new_file ? '/dev/null' : `a/${c.old_path}`}`,
+        `+++ ${c.deleted_file ? '/dev/null' : `b/${c.new_path}`}`,
+        c.diff.replace(/\n$/, ''),
+      ].join('\n')).join('\n');
+      return truncateDiff(diff);
+    },
+
+    async getCheckRuns(owner, repo, ref) {
+      const base = projectUrl(owner, repo);
+      const pipelinesRes = await request(
+        `${base}/pipelines?sha=${encodeURIComponent(ref)}&order_by=id&sort=desc&per_page=1`,
+        {},
+        'pipelines API'
+      );
+      const pipelines = await pipelinesRes.json() as Array<{ id: number }>;
+      if (pipelines.length === 0) return { total_count: 0, check_runs: [] };
+
+      const jobsRes = await request(`${base}/pipelines/${pipelines[0].id}/jobs?per_page=100`, {}, 'jobs API');
+      const jobs = await jobsRes.json() as Array<{ id: number; name: string; status: string; failure_reason?: string; web_url?: string }>;
+      const checkRuns: CheckRun[] = jobs.map(job => ({
+        id: job.id,
+        name: job.name,
+        ...(JOB_STATES[job.status] ?? { status: 'in_progress', conclusion: null }),
+        summary: job.failure_reason?.replace(/_/g, ' ') ?? null,
+        detailsUrl: job.web_url ?? null,
+      }));
+      return { total_count: checkRuns.length, check_runs: checkRuns };
+    },
+
+    async getCheckRunLog(owner, repo, checkRunId) {
+      const res = await fetch(`${projectUrl(owner, repo)}/jobs/${checkRunId}/trace`, { headers: headers() });
+      if (res.status === 404) {
+        await res.body?.cancel();
+        return null;
+      }
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(`GitLab job trace failed (${res.status}): ${text.slice(0, 200)}`);
+      }
+      return await res.text();
+    },
+
+    async repoExists(owner, repo) {
+      const res = await fetch(projectUrl(owner, repo), { headers: headers() });
+      return res.ok;
+    },
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Hybrid search ranking for search-memory
+ *
+ * Keyword, semantic (vector), tag and recency retrievals each produce their
+ * own ranked list. Reciprocal rank fusion (RRF) merges them into one list
+ * without having to calibrate raw scores against each other: an entry's
+ * fused score is the sum of weight / (k + rank) over every list it appears in.
+ *
+ * Every fused result carries the reasons it matched so the UI and Slack can
+ * explain the ranking ("keyword in title", "82% semantic", "tag: work").
+ */
+
+import { escapeForLike } from './validation.ts';
+
+/** Standard RRF damping constant — dampens the influence of top ranks */
+export const RRF_K = 60;
+
+/** Tag hits are a weaker signal than a keyword or semantic hit */
+export const TAG_LIST_WEIGHT = 0.8;
+
+/** Recency only reorders entries that already matched, so it counts half */
+export const RECENCY_LIST_WEIGHT = 0.5;
+
+export type MatchReasonKind = 'keyword' | 'semantic' | 'tag' | 'recency';
+
+export interface MatchReason {
+  kind: MatchReasonKind;
+  /** 1-based rank within that retrieval list */
+  rank: number;
+  /** Human-readable explanation, e.g. "title contains 'groceries'" */
+  detail: string;
+}
+
+export interface RankedList<T extends { id: string }> {
+  kind: MatchReasonKind;
+  /** Relative weight of this list in the fused score (default 1) */
+  weight?: number;
+  items: T[];
+  /** Builds the explanation for an item at this position */
+  explain: (item: T, rank: number) => string;
+}
+
+export type FusedResult<T> = T & {
+  /** Fused RRF score — higher is better. Not comparable across queries. */
+  score: number;
+  reasons: MatchReason[];
+};
+
+/**
+ * Fuse ranked lists with reciprocal rank fusion.
+ * The first list an item appears in provides its row data; later lists
+ * only contribute score and reasons (plus any fields the earlier row lacks).
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: RankedList<T>[],
+  k = RRF_K
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+    list.items.forEach((item, index) => {
+      const rank = index + 1;
+      const contribution = weight / (k + rank);
+      const reason: MatchReason = { kind: list.kind, rank, detail: list.explain(item, rank) };
+
+      const existing = fused.get(item.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.reasons.push(reason);
+        for (const [key, value] of Object.entries(item)) {
+          const record = existing as Record<string, unknown>;
+          if (record[key] === undefined) record[key] = value;
+        }
+      } else {
+        fused.set(item.id, { ...item, score: contribution, reasons: [reason] });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/** Words too common to be worth an ilike or a tag lookup */
+export const STOP_WORDS = new Set([
+  'the','and','or','is','it','to','a','an','in','on','at','for','of','my','me','do',
+  'what','how','when','where','why','can','you','please','could','would','should',
+  'this','that','with','from','have','has','just','about','been','want','need','like',
+  'find','get','show','tell','help','search','brain','memory','look','up','all','any',
+  'some','its','not','but','are','was','were','be','am','will','did','does','had',
+  'thing','stuff',
+]);
+
+/** Split a query into significant lowercase search words */
+export function extractSearchWords(query: string): string[] {
+  return [...new Set(
+    query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}_-]+/u)
+      .filter((w) => w.length >= 3 && !STOP_WORDS.has(w))
+  )];
+}
+
+/**
+ * A PostgREST filter value in double quotes, so commas, parentheses and
+ * dots in user text stay literal instead of breaking the filter syntax.
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** content or title contains the term */
+function ilikeConditions(term: string): string[] {
+  const pattern = quoteFilterValue(`%${escapeForLike(term)}%`);
+  return [`content.ilike.${pattern}`, `title.ilike.${pattern}`];
+}
+
+/**
+ * `.or()` filter for the keyword retrieval — the free text (plus, in smart
+ * mode, its significant words) and every quoted phrase, each matched as its
+ * own condition: `budget "q3 plan"` needs "budget" and "q3 plan", not
+ * "budget q3 plan". Null when there is nothing to match.
+ */
+export function keywordFilter(text: string, phrases: string[], words: string[]): string | null {
+  // Each group is an OR of conditions; every group must match
+  const groups: string[][] = [];
+  const textConditions = [text, ...words].filter(Boolean).flatMap(ilikeConditions);
+  if (textConditions.length > 0) groups.push([...new Set(textConditions)]);
+  for (const phrase of phrases) groups.push(ilikeConditions(phrase));
+
+  if (groups.length === 0) return null;
+  return groups.length === 1
+    ? groups[0].join(',')
+    : `and(${groups.map((g) => `or(${g.join(',')})`).join(',')})`;
+}
+
+export interface KeywordScore {
+  score: number;
+  detail: string;
+}
+
+/**
+ * Score a keyword hit locally so the keyword list is ranked by relevance
+ * rather than by whatever order Postgres returned the ilike matches in.
+ * Phrase hits outrank word hits; title hits outrank content hits.
+ */
+export function scoreKeywordMatch(
+  entry: { title: string | null; content: string },
+  query: string,
+  words: string[]
+): KeywordScore {
+  const title = (entry.title ?? '').toLowerCase();
+  const content = (entry.content ?? '').toLowerCase();
+  const phrase = query.toLowerCase().trim();
+
+  let score = 0;
+  const hits: string[] = [];
+
+  if (phrase && title.includes(phrase)) {
+    score += 6;
+    hits.push(`title contains "${phrase}"`);
+  } else if (phrase && content.includes(phrase)) {
+    score += 4;
+    hits.push(`exact phrase "${phrase}"`);
+  }
+
+  const matchedWords: string[] = [];
+  for (const word of words) {
+    if (title.includes(word)) {
+      score += 2;
+      matchedWords.push(word);
+    } else if (content.includes(word)) {
+      score += 1;
+      matchedWords.push(word);
+    }
+  }
+  // Reward covering more of the query
+  if (words.length > 0) score += matchedWords.length / words.length;
+
+  if (hits.length === 0 && matchedWords.length > 0) {
+    hits.push(`keyword${matchedWords.length > 1 ? 's' : ''}: ${matchedWords.slice(0, 4).join(', ')}`);
+  }
+
+  return { score, detail: hits[0] ?? 'keyword match' };
+}
+
+/** Enforce quoted phrases and -exclusions on title + content */
+export function matchesTextConstraints(
+  entry: { title: string | null; content: string },
+  phrases: string[],
+  excludeTerms: string[]
+): boolean {
+  const haystack = `${entry.title ?? ''}\n${entry.content ?? ''}`.toLowerCase();
+  if (!phrases.every((p) => haystack.includes(p.toLowerCase()))) return false;
+  if (excludeTerms.some((t) => haystack.includes(t.toLowerCase()))) return false;
+  return true;
+}
+
+/** Age in days of an entry, using last access when it is more recent */
+export function ageInDays(entry: { created_at: string; last_accessed_at?: string | null }, now = Date.now()): number {
+  const created = new Date(entry.created_at).getTime();
+  const accessed = entry.last_accessed_at ? new Date(entry.last_accessed_at).getTime() : 0;
+  return Math.max(0, (now - Math.max(created, accessed)) / 86_400_000);
+}
+
+/** Only entries touched within this many days get a recency boost */
+export const RECENCY_WINDOW_DAYS = 30;
+
+/** Compact one-line summary of reasons, e.g. "semantic 82% · keyword: tacos" */
+export function summarizeReasons(reasons: MatchReason[]): string {
+  return reasons.map((r) => r.detail).join(' · ');
+}
@@ -0,0 +1,390 @@
+/**
+ * iCalendar (RFC 5545) for calendar-feed and calendar-sync
+ *
+ * serializeCalendar turns event/reminder entries into a VCALENDAR; parseCalendar
+ * reads the VEVENTs of an imported file or subscribed feed. Covers what
+ * calendar apps actually exchange: all-day and timed starts (UTC, TZID or
+ * floating), RRULEs with EXDATEs, display alarms, line folding and text escaping.
+ *
+ * Entries store a wall-clock date/time in the user's timezone, so the feed
+ * uses floating times plus X-WR-TIMEZONE, and imported times are converted
+ * into the user's timezone.
+ */
+
+import { entryRRule, serializeRRule, type RecurrencePattern } from './rrule.ts';
+
+/** The entry columns the feed needs */
+export interface IcsEntry {
+  id: string;
+  title: string | null;
+  content: string;
+  content_type: string;
+  event_date: string;
+  event_time: string | null;
+  is_recurring: boolean | null;
+  recurrence_pattern: string | null;
+  rrule: string | null;
+  exdates: string[] | null;
+  reminder_minutes: number | null;
+  ics_uid: string | null;
+  updated_at: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  /** YYYY-MM-DD in the target timezone */
+  date: string;
+  /** HH:MM in the target timezone; null for all-day events */
+  time: string | null;
+  /** Raw RRULE value, e.g. "FREQ=WEEKLY;BYDAY=TU" */
+  rrule: string | null;
+  /** FREQ of the RRULE when it maps onto entries.recurrence_pattern */
+  recurrencePattern: RecurrencePattern | null;
+  /** EXDATE dates (YYYY-MM-DD, target timezone) */
+  exdates: string[];
+  /** Minutes before the start of the first display/audio alarm */
+  reminderMinutes: number | null;
+  cancelled: boolean;
+  /** Set on an edited instance of a recurring event (RECURRENCE-ID) */
+  isOverride: boolean;
+}
+
+const PRODID = '-//JAC Agent OS//Calendar Feed//EN';
+const UID_DOMAIN = 'jac-agent-os';
+/** Length of a timed event in the feed — entries have no end time */
+const DEFAULT_DURATION_MINUTES = 60;
+
+const FREQ_PATTERNS: Record<string, RecurrencePattern> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+// --- Text encoding ---
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/** Fold a content line at 75 octets without splitting a multi-byte character */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // Continuation lines start with a space, which counts toward their 75
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function unfold(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+// --- Dates ---
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/** Wall-clock parts of an instant in a timezone */
+function partsInTimezone(epochMs: number, tz: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  }).formatToParts(new Date(epochMs));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') % 24, minute: get('minute'), second: get('second') };
+}
+
+/** The instant a wall-clock time in `tz` refers to */
+function wallTimeToEpoch(year: number, month: number, day: number, hour: number, minute: number, second: number, tz: string): number {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  let epoch = asUtc;
+  // Two passes settle the offset on either side of a DST change
+  for (let i = 0; i < 2; i++) {
+    const p = partsInTimezone(epoch, tz);
+    const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - epoch;
+    epoch = asUtc - offset;
+  }
+  return epoch;
+}
+
+function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * DTSTART value → date/time in the user's timezone. All-day values stay as
+ * they are; UTC and TZID times are converted; floating times (and TZIDs
+ * Intl doesn't know, like Windows zone names) are taken as wall-clock time.
+ */
+export function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  userTz: string
+): { date: string; time: string | null } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const date = `${y}-${mo}-${d}`;
+  if (h === undefined || params.VALUE === 'DATE') return { date, time: null };
+
+  const sourceTz = utc ? 'UTC' : params.TZID;
+  if (!sourceTz || !isValidTimezone(sourceTz)) return { date, time: `${h}:${mi}` };
+
+  const epoch = wallTimeToEpoch(+y, +mo, +d, +h, +mi, +(s ?? 0), sourceTz);
+  const local = partsInTimezone(epoch, userTz);
+  return {
+    date: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+    time: `${pad(local.hour)}:${pad(local.minute)}`,
+  };
+}
+
+function utcStamp(iso: string): string {
+  const ms = Date.parse(iso);
+  const d = new Date(Number.isNaN(ms) ? Date.now() : ms);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+/** Floating start/end lines for an entry's date and optional time */
+function dateLines(date: string, time: string | null): string[] {
+  const [y, mo, d] = date.split('-').map(Number);
+  if (!time) {
+    const next = new Date(Date.UTC(y, mo - 1, d + 1));
+    const end = `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+    return [`DTSTART;VALUE=DATE:${compactDate(date)}`, `DTEND;VALUE=DATE:${end}`];
+  }
+  const [h, mi] = time.split(':').map(Number);
+  const end = new Date(Date.UTC(y, mo - 1, d, h, mi + DEFAULT_DURATION_MINUTES));
+  const fmt = (dt: Date) =>
+    `${dt.getUTCFullYear()}${pad(dt.getUTCMonth() + 1)}${pad(dt.getUTCDate())}T${pad(dt.getUTCHours())}${pad(dt.getUTCMinutes())}00`;
+  return [`DTSTART:${fmt(new Date(Date.UTC(y, mo - 1, d, h, mi)))}`, `DTEND:${fmt(end)}`];
+}
+
+/** "-PT15M", "-P1D", "-P1DT2H" → minutes before the start; null for anything else */
+export function parseTrigger(value: string, params: Record<string, string>): number | null {
+  if (params.RELATED === 'END' || params.VALUE === 'DATE-TIME') return null;
+  const match = value.match(/^(-)?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, negative, w, d, h, m] = match;
+  const minutes = (+(w ?? 0)) * 10080 + (+(d ?? 0)) * 1440 + (+(h ?? 0)) * 60 + (+(m ?? 0));
+  // A trigger after the start isn't a reminder
+  if (!negative && minutes > 0) return null;
+  return minutes;
+}
+
+// --- Serialize ---
+
+export function entryUid(entry: Pick<IcsEntry, 'id' | 'ics_uid'>): string {
+  return entry.ics_uid || `${entry.id}@${UID_DOMAIN}`;
+}
+
+function eventLines(entry: IcsEntry): string[] {
+  const title = entry.title || entry.content.slice(0, 80) || 'Untitled';
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${entryUid(entry)}`,
+    `DTSTAMP:${utcStamp(entry.updated_at)}`,
+    ...dateLines(entry.event_date, entry.event_time),
+    `SUMMARY:${escapeText(title)}`,
+  ];
+  if (entry.content && entry.content !== title) {
+    lines.push(`DESCRIPTION:${escapeText(entry.content)}`);
+  }
+  lines.push(`CATEGORIES:${entry.content_type.toUpperCase()}`);
+
+  const rule = entryRRule(entry);
+  if (rule) {
+    // UNTIL has to match DTSTART's type: a timed series ends at the end of its last day
+    const until = rule.until ? `;UNTIL=${compactDate(rule.until)}${entry.event_time ? 'T235959' : ''}` : '';
+    lines.push(`RRULE:${serializeRRule({ ...rule, until: undefined })}${until}`);
+    if (entry.exdates?.length) {
+      lines.push(entry.event_time
+        ? `EXDATE:${entry.exdates.map((d) => `${compactDate(d)}T${entry.event_time!.slice(0, 5).replace(':', '')}00`).join(',')}`
+        : `EXDATE;VALUE=DATE:${entry.exdates.map(compactDate).join(',')}`);
+    }
+  }
+
+  if (entry.reminder_minutes !== null && entry.reminder_minutes >= 0) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(title)}`,
+      `TRIGGER:-PT${entry.reminder_minutes}M`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function serializeCalendar(entries: IcsEntry[], options: { name: string; timezone: string }): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timezone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...entries.flatMap(eventLines),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- Parse ---
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf('=');
+    if (eq > 0) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** VEVENTs of an iCalendar document, with dates in `userTz`. Events without a UID or start are skipped. */
+export function parseCalendar(text: string, userTz: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0; // nesting inside the VEVENT (VALARM)
+  let alarmMinutes: number | null = null;
+  let inAlarm = false;
+
+  for (const raw of unfold(text)) {
+    const line = parseContentLine(raw.trim());
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT' && !current) {
+      current = [];
+      depth = 0;
+      alarmMinutes = null;
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.name === 'BEGIN') {
+      depth++;
+      inAlarm = line.value.toUpperCase() === 'VALARM';
+      continue;
+    }
+    if (line.name === 'END' && depth > 0) {
+      depth--;
+      inAlarm = false;
+      continue;
+    }
+    if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      const event = toEvent(current, alarmMinutes, userTz);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+
+    if (inAlarm) {
+      // First alarm wins — entries hold a single reminder
+      if (line.name === 'TRIGGER' && alarmMinutes === null) alarmMinutes = parseTrigger(line.value, line.params);
+      continue;
+    }
+    if (depth === 0) current.push(line);
+  }
+  return events;
+}
+
+function toEvent(lines: ContentLine[], reminderMinutes: number | null, userTz: string): IcsEvent | null {
+  const get = (name: string) => lines.find((l) => l.name === name);
+  const uid = get('UID')?.value.trim();
+  const start = get('DTSTART');
+  if (!uid || !start) return null;
+
+  const when = parseDateValue(start.value.trim(), start.params, userTz);
+  if (!when) return null;
+
+  const rrule = get('RRULE')?.value.trim() || null;
+  const freq = rrule?.match(/(?:^|;)FREQ=([A-Z]+)/i)?.[1].toUpperCase();
+  const text = (name: string) => {
+    const value = get(name)?.value;
+    return value ? unescapeText(value).trim() || null : null;
+  };
+
+  const exdates = lines
+    .filter((l) => l.name === 'EXDATE')
+    .flatMap((l) => l.value.split(',').map((v) => parseDateValue(v.trim(), l.params, userTz)?.date))
+    .filter((d): d is string => !!d);
+
+  return {
+    uid,
+    summary: text('SUMMARY') ?? 'Untitled event',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    url: get('URL')?.value.trim() || null,
+    date: when.date,
+    time: when.time,
+    rrule,
+    recurrencePattern: freq ? FREQ_PATTERNS[freq] ?? null : null,
+    exdates: [...new Set(exdates)].sort(),
+    reminderMinutes,
+    cancelled: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    isOverride: !!get('RECURRENCE-ID'),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Local embedding model
+ *
+ * Deterministic feature-hashing vectors behind the "local" provider in
+ * embeddings.ts. Kept free of imports so the app's tests can load it.
+ */
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature-hashed bag of words + bigrams, L2-normalised. Same text → same
+ * vector on every run; no API key, no network.
+ */
+export function localEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)];
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
@@ -0,0 +1,135 @@
+/**
+ * Merge policy for jac-code-agent PRs
+ *
+ * Each code_projects row picks how the agent's PRs land:
+ * - auto                        — squash-merge after self-review (the old behaviour)
+ * - require_approval            — every PR waits for a human
+ * - require_approval_for_paths  — wait only when a changed file matches
+ *                                 one of the project's approval_paths
+ *
+ * A PR that needs approval parks its code_sessions row in 'awaiting_approval'
+ * until code-approval is called from the Code Workspace or Slack.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { sendSlackMessage } from './slack.ts';
+
+export type MergePolicy = 'auto' | 'require_approval' | 'require_approval_for_paths';
+
+export const DEFAULT_APPROVAL_PATHS = ['supabase/migrations/**', '**/_shared/**'];
+
+/**
+ * Repos whose main branch CI deploys straight to production (the JAC repo itself)
+ */
+export function isSelfDeployingRepo(repoFull: string): boolean {
+  const name = (repoFull || '').toLowerCase();
+  return name.includes('remix-of-james-brain-memory') || name.includes('jac-agent-os');
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories, a trailing "**" anything
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Does a repo path match an approval pattern? Patterns are globs
+ * ("supabase/migrations/**", "**\/_shared/**", "*.sql"); a pattern without
+ * wildcards matches that file or everything under that directory.
+ */
+export function matchesApprovalPath(path: string, pattern: string): boolean {
+  const trimmed = pattern.trim().replace(/^\/+/, '');
+  if (!trimmed) return false;
+  if (!/[*?]/.test(trimmed)) {
+    const dir = trimmed.replace(/\/+$/, '');
+    return path === dir || path.startsWith(`${dir}/`);
+  }
+  return globToRegExp(trimmed).test(path);
+}
+
+/**
+ * Why this change needs a human before merging, or null to auto-merge.
+ */
+export function mergeApprovalReason(
+  project: { merge_policy?: string | null; approval_paths?: string[] | null },
+  changedPaths: string[]
+): string | null {
+  const policy = (project.merge_policy || 'auto') as MergePolicy;
+  if (policy === 'require_approval') return 'Project requires approval for every merge';
+  if (policy !== 'require_approval_for_paths') return null;
+
+  const patterns = project.approval_paths?.length ? project.approval_paths : DEFAULT_APPROVAL_PATHS;
+  const matched = changedPaths.filter((p) => patterns.some((pattern) => matchesApprovalPath(p, pattern)));
+  if (matched.length === 0) return null;
+  const shown = matched.slice(0, 3).join(', ');
+  return `Touches protected paths: ${shown}${matched.length > 3 ? ` (+${matched.length - 3} more)` : ''}`;
+}
+
+/**
+ * Ask for approval in Slack: Approve / Reject buttons (handled by
+ * slack-incoming), plus the text command for requesting changes.
+ */
+export async function requestMergeApproval(
+  supabase: SupabaseClient,
+  userId: string,
+  request: { sessionId: string; prNumber: number; prUrl: string; intent: string; reason: string; files: string[] }
+): Promise<boolean> {
+  const shortId = request.sessionId.slice(0, 8);
+  const text = `:double_vertical_bar: *Merge approval needed* — <${request.prUrl}|PR #${request.prNumber}>\n` +
+    `${request.intent.slice(0, 200)}\n_${request.reason}_\n` +
+    `Files: ${request.files.slice(0, 10).join(', ')}${request.files.length > 10 ? ` (+${request.files.length - 10} more)` : ''}`;
+
+  const blocks = [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      block_id: `code_approval_${request.sessionId}`,
+      elements: [
+        {
+          type: 'button',
+          action_id: 'code_approve',
+          text: { type: 'plain_text', text: 'Approve & merge' },
+          style: 'primary',
+          value: request.sessionId,
+        },
+        {
+          type: 'button',
+          action_id: 'code_reject',
+          text: { type: 'plain_text', text: 'Reject' },
+          style: 'danger',
+          value: request.sessionId,
+        },
+        {
+          type: 'button',
+          action_id: 'code_view_pr',
+          text: { type: 'plain_text', text: 'View diff' },
+          url: request.prUrl,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `To request changes, reply: \`changes ${shortId} <what to change>\`` }],
+    },
+  ];
+
+  return sendSlackMessage(supabase, userId, text, blocks);
+}
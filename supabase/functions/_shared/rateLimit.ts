@@ -1,26 +1,21 @@
 /**
- * Shared rate limiting utilities for Supabase Edge Functions
- * 
- * Implements in-memory rate limiting with automatic cleanup.
+ * Shared rate limiting and quota accounting for Supabase Edge Functions
+ *
+ * Request limits are sliding windows kept in Postgres (check_rate_limit over
+ * rate_limit_hits), so every isolate sees the same counts and a cold start
+ * doesn't reset them. Each function has its own window per user: the key is
+ * "<function>:<identifier>". If the database can't be reached the check
+ * falls back to a per-isolate in-memory window rather than failing requests.
+ *
+ * Daily quotas — tasks, tokens and cost — are summed from agent_tasks, where
+ * recordTokenUsage stores each task's usage (get_daily_usage).
+ *
+ * Every limit hit is answered with rateLimitResponse (response.ts), so the
+ * 429 payload is the same from every function.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-// In-memory rate limit storage
-const rateLimitMap = new Map<string, RateLimitEntry>();
-
-// Cleanup old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitMap.entries()) {
-    if (now > entry.resetTime) {
-      rateLimitMap.delete(key);
-    }
-  }
-}, 5 * 60 * 1000);
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import type { LimitExceeded } from './response.ts';
 
 export interface RateLimitConfig {
   /** Maximum number of requests allowed in the window */
@@ -29,14 +24,24 @@ export interface RateLimitConfig {
   windowMs: number;
 }
 
-export interface RateLimitResult {
-  /** Whether the request is allowed */
-  allowed: boolean;
-  /** Number of remaining requests in the window */
-  remaining: number;
-  /** Milliseconds until the rate limit resets */
-  resetIn: number;
-}
+export type RateLimitResult =
+  | {
+    /** Whether the request is allowed */
+    allowed: true;
+    /** Number of remaining requests in the window */
+    remaining: number;
+    /** Milliseconds until the oldest counted request leaves the window */
+    resetIn: number;
+    limit: number;
+  }
+  | {
+    allowed: false;
+    remaining: 0;
+    resetIn: number;
+    limit: number;
+    /** 429 details for rateLimitResponse */
+    exceeded: LimitExceeded;
+  };
 
 /**
  * Default rate limit configurations for different function types
@@ -54,51 +59,140 @@ export const RATE_LIMIT_CONFIGS = {
   restrictive: { maxRequests: 5, windowMs: 60 * 1000 },
 } as const;
 
+const HOUR_MS = 60 * 60 * 1000;
+
 /**
- * Check if a request is within rate limits
- * 
- * @param identifier - Unique identifier for rate limiting (usually user ID)
- * @param config - Rate limit configuration
- * @returns RateLimitResult indicating if request is allowed
+ * Request limit of each rate-limited function. usage-limits reports usage
+ * against these, so every limited function is listed here.
  */
-export function checkRateLimit(
-  identifier: string,
-  config: RateLimitConfig
-): RateLimitResult {
+export const FUNCTION_RATE_LIMITS = {
+  'calculate-importance': RATE_LIMIT_CONFIGS.ai,
+  'calendar-feed': { maxRequests: 60, windowMs: HOUR_MS },
+  'calendar-sync': RATE_LIMIT_CONFIGS.restrictive,
+  'classify-content': RATE_LIMIT_CONFIGS.ai,
+  'delete-all-user-data': { maxRequests: 2, windowMs: HOUR_MS },
+  'elevenlabs-stt': { maxRequests: 20, windowMs: 60 * 1000 },
+  'elevenlabs-tts': { maxRequests: 30, windowMs: 60 * 1000 },
+  'enrich-entry': RATE_LIMIT_CONFIGS.ai,
+  'export-all-data': { maxRequests: 5, windowMs: HOUR_MS },
+  'find-related-entries': RATE_LIMIT_CONFIGS.search,
+  'generate-brain-report': { maxRequests: 10, windowMs: HOUR_MS },
+  'import-notes': RATE_LIMIT_CONFIGS.ai,
+  'insert-sample-data': { maxRequests: 3, windowMs: HOUR_MS },
+  'jac-dashboard-query': RATE_LIMIT_CONFIGS.standard,
+  'jac-dispatcher': RATE_LIMIT_CONFIGS.ai,
+  'jac-web-search': RATE_LIMIT_CONFIGS.search,
+  'reminder-action': RATE_LIMIT_CONFIGS.standard,
+  'restore-archive': RATE_LIMIT_CONFIGS.restrictive,
+  'search-memory': RATE_LIMIT_CONFIGS.search,
+  'smart-save': RATE_LIMIT_CONFIGS.standard,
+  'sync-entries': RATE_LIMIT_CONFIGS.standard,
+} satisfies Record<string, RateLimitConfig>;
+
+export type RateLimitedFunction = keyof typeof FUNCTION_RATE_LIMITS;
+
+/**
+ * Per-user daily quotas, counted from 00:00 UTC
+ */
+export const DAILY_QUOTAS = {
+  /** Agent tasks created (parents and children) */
+  tasks: 200,
+  /** Claude input + output tokens recorded on agent tasks */
+  tokens: 2_000_000,
+  /** Claude spend recorded on agent tasks */
+  costUsd: 10,
+  /** Tasks queued or running at once (not a daily count) */
+  concurrentTasks: 18,
+};
+
+export type QuotaName = 'daily_tasks' | 'daily_tokens' | 'daily_cost_usd' | 'concurrent_tasks';
+
+export interface DailyUsage {
+  tasks: number;
+  tokens: number;
+  costUsd: number;
+  concurrentTasks: number;
+  /** Start of the current quota day (ISO) */
+  since: string;
+  /** When the daily counts reset (ISO) */
+  resetsAt: string;
+}
+
+let serviceClient: SupabaseClient | null = null;
+
+function getServiceClient(): SupabaseClient {
+  if (!serviceClient) {
+    serviceClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  }
+  return serviceClient;
+}
+
+// Fallback storage when the database check fails
+const memoryWindows = new Map<string, number[]>();
+
+function checkMemoryWindow(key: string, config: RateLimitConfig): { allowed: boolean; used: number; resetIn: number } {
   const now = Date.now();
-  const key = identifier;
-  const entry = rateLimitMap.get(key);
-
-  // No existing entry or expired - create new
-  if (!entry || now > entry.resetTime) {
-    rateLimitMap.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-    });
+  const hits = (memoryWindows.get(key) || []).filter(t => t > now - config.windowMs);
+  const resetIn = hits.length > 0 ? hits[0] + config.windowMs - now : config.windowMs;
+  if (hits.length >= config.maxRequests) {
+    memoryWindows.set(key, hits);
+    return { allowed: false, used: hits.length, resetIn };
+  }
+  hits.push(now);
+  memoryWindows.set(key, hits);
+  return { allowed: true, used: hits.length, resetIn };
+}
 
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetIn: config.windowMs,
-    };
+/**
+ * Check (and count) one request against a function's sliding window
+ *
+ * @param functionName - The calling function; picks its limit
+ * @param identifier - Who is limited (usually the user ID)
+ */
+export async function checkRateLimit(
+  functionName: RateLimitedFunction,
+  identifier: string,
+): Promise<RateLimitResult> {
+  const config = FUNCTION_RATE_LIMITS[functionName];
+  const key = `${functionName}:${identifier}`;
+
+  let outcome: { allowed: boolean; used: number; resetIn: number };
+  try {
+    const { data, error } = await getServiceClient().rpc('check_rate_limit', {
+      p_key: key,
+      p_max: config.maxRequests,
+      p_window_ms: config.windowMs,
+    });
+    if (error) throw error;
+    const row = (Array.isArray(data) ? data[0] : data) as { allowed: boolean; used: number; reset_in_ms: number };
+    outcome = { allowed: row.allowed, used: row.used, resetIn: row.reset_in_ms };
+  } catch (err) {
+    console.warn(`[rateLimit] Database check failed for ${functionName}, using in-memory window:`, err);
+    outcome = checkMemoryWindow(key, config);
   }
 
-  // Check if limit exceeded
-  if (entry.count >= config.maxRequests) {
+  if (!outcome.allowed) {
     return {
       allowed: false,
       remaining: 0,
-      resetIn: entry.resetTime - now,
+      resetIn: outcome.resetIn,
+      limit: config.maxRequests,
+      exceeded: {
+        code: 'rate_limited',
+        limit: functionName,
+        max: config.maxRequests,
+        used: outcome.used,
+        windowSeconds: Math.round(config.windowMs / 1000),
+        retryAfter: Math.max(1, Math.ceil(outcome.resetIn / 1000)),
+      },
     };
   }
 
-  // Increment counter
-  entry.count++;
-
   return {
     allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetIn: entry.resetTime - now,
+    remaining: Math.max(0, config.maxRequests - outcome.used),
+    resetIn: outcome.resetIn,
+    limit: config.maxRequests,
   };
 }
 
@@ -107,40 +201,100 @@ export function checkRateLimit(
  */
 export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
   return {
+    'X-RateLimit-Limit': result.limit.toString(),
     'X-RateLimit-Remaining': result.remaining.toString(),
     'X-RateLimit-Reset': Math.ceil(result.resetIn / 1000).toString(),
   };
 }
 
+export interface RateLimitUsage {
+  functionName: RateLimitedFunction;
+  max: number;
+  windowSeconds: number;
+  /** Requests counted in the current window */
+  used: number;
+  /** Seconds until the oldest counted request leaves the window */
+  resetIn: number;
+}
+
 /**
- * Combined check that returns early response if rate limited
+ * Current window usage of every rate-limited function for one identifier
  */
-export function enforceRateLimit(
-  identifier: string,
-  config: RateLimitConfig,
-  corsHeaders: Record<string, string>
-): { allowed: true; result: RateLimitResult } | { allowed: false; response: Response } {
-  const result = checkRateLimit(identifier, config);
+export async function getRateLimitUsage(supabase: SupabaseClient, identifier: string): Promise<RateLimitUsage[]> {
+  const now = Date.now();
+  const longestWindow = Math.max(...Object.values(FUNCTION_RATE_LIMITS).map(c => c.windowMs));
+  const { data, error } = await supabase
+    .from('rate_limit_hits')
+    .select('key, created_at')
+    .in('key', Object.keys(FUNCTION_RATE_LIMITS).map(f => `${f}:${identifier}`))
+    .gt('created_at', new Date(now - longestWindow).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(5000);
+  if (error) throw new Error(`rate_limit_hits lookup failed: ${error.message}`);
 
-  if (!result.allowed) {
+  const hitsByKey = new Map<string, number[]>();
+  for (const row of (data || []) as Array<{ key: string; created_at: string }>) {
+    const hits = hitsByKey.get(row.key) || [];
+    hits.push(new Date(row.created_at).getTime());
+    hitsByKey.set(row.key, hits);
+  }
+
+  return (Object.entries(FUNCTION_RATE_LIMITS) as Array<[RateLimitedFunction, RateLimitConfig]>).map(([functionName, config]) => {
+    const hits = (hitsByKey.get(`${functionName}:${identifier}`) || []).filter(t => t > now - config.windowMs);
     return {
-      allowed: false,
-      response: new Response(
-        JSON.stringify({
-          error: 'Rate limit exceeded',
-          retryAfter: Math.ceil(result.resetIn / 1000),
-        }),
-        {
-          status: 429,
-          headers: {
-            ...corsHeaders,
-            ...getRateLimitHeaders(result),
-            'Content-Type': 'application/json',
-          },
-        }
-      ),
+      functionName,
+      max: config.maxRequests,
+      windowSeconds: Math.round(config.windowMs / 1000),
+      used: hits.length,
+      resetIn: hits.length > 0 ? Math.ceil((hits[0] + config.windowMs - now) / 1000) : 0,
     };
-  }
+  });
+}
+
+/**
+ * Today's (UTC) task count, tokens and cost, plus tasks in flight
+ */
+export async function getDailyUsage(supabase: SupabaseClient, userId: string): Promise<DailyUsage> {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  const resetsAt = new Date(since.getTime() + 24 * HOUR_MS);
+
+  const { data, error } = await supabase.rpc('get_daily_usage', {
+    p_user_id: userId,
+    p_since: since.toISOString(),
+  });
+  if (error) throw new Error(`get_daily_usage failed: ${error.message}`);
+  const row = (Array.isArray(data) ? data[0] : data) as
+    { task_count: number; running_count: number; tokens: number; cost_usd: number } | null;
+
+  return {
+    tasks: Number(row?.task_count ?? 0),
+    tokens: Number(row?.tokens ?? 0),
+    costUsd: Number(row?.cost_usd ?? 0),
+    concurrentTasks: Number(row?.running_count ?? 0),
+    since: since.toISOString(),
+    resetsAt: resetsAt.toISOString(),
+  };
+}
 
-  return { allowed: true, result };
+/**
+ * First daily quota the usage is at or over, as 429 details
+ */
+export function findExceededQuota(usage: DailyUsage): LimitExceeded | null {
+  const untilReset = Math.max(1, Math.ceil((new Date(usage.resetsAt).getTime() - Date.now()) / 1000));
+  const checks: Array<{ name: QuotaName; used: number; max: number; retryAfter: number }> = [
+    { name: 'concurrent_tasks', used: usage.concurrentTasks, max: DAILY_QUOTAS.concurrentTasks, retryAfter: 30 },
+    { name: 'daily_tasks', used: usage.tasks, max: DAILY_QUOTAS.tasks, retryAfter: untilReset },
+    { name: 'daily_tokens', used: usage.tokens, max: DAILY_QUOTAS.tokens, retryAfter: untilReset },
+    { name: 'daily_cost_usd', used: usage.costUsd, max: DAILY_QUOTAS.costUsd, retryAfter: untilReset },
+  ];
+  const hit = checks.find(c => c.used >= c.max);
+  if (!hit) return null;
+  return {
+    code: 'quota_exceeded',
+    limit: hit.name,
+    max: hit.max,
+    used: hit.used,
+    retryAfter: hit.retryAfter,
+  };
 }
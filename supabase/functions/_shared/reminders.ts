@@ -0,0 +1,201 @@
+/**
+ * Interactive reminders — shared by calendar-reminder-check and reminder-action
+ *
+ * A delivered reminder (a reminder_deliveries row) carries Slack buttons for
+ * done / snooze 15m / 1h / tomorrow and a date picker to reschedule.
+ * slack-incoming forwards the clicks to reminder-action, which the web banner
+ * calls too. Unacknowledged high-importance reminders escalate after the
+ * user's delay (settings.reminder_escalation_minutes, 0 = off), to
+ * settings.reminder_escalation_channel or as a repeat ping in the same channel.
+ */
+
+export type ReminderAction = 'done' | 'snooze' | 'reschedule';
+export type SnoozeOption = '15m' | '1h' | 'tomorrow';
+export type DeliveryStatus = 'sent' | 'failed' | 'snoozed' | 'escalated' | 'acknowledged' | 'rescheduled' | 'missed';
+
+export const REMINDER_ACTIONS: ReminderAction[] = ['done', 'snooze', 'reschedule'];
+export const SNOOZE_OPTIONS: SnoozeOption[] = ['15m', '1h', 'tomorrow'];
+
+/** importance_score at which an unacknowledged reminder escalates */
+export const HIGH_IMPORTANCE = 7;
+export const DEFAULT_ESCALATION_MINUTES = 30;
+/** A reminder still unacknowledged this long after its event is missed */
+export const MISSED_AFTER_MS = 60 * 60 * 1000;
+/** "Tomorrow" snoozes until this time of day, same as date-only reminders */
+const MORNING_TIME = '09:00';
+
+const SNOOZE_MS: Record<Exclude<SnoozeOption, 'tomorrow'>, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+// --- Time ---
+
+/** YYYY-MM-DD of an instant in a timezone */
+export function dateInTimezone(epochMs: number, tz: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: tz,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(epochMs));
+}
+
+/**
+ * Epoch ms of an event_date + optional event_time in the user's timezone.
+ * Date-only events count as 9 AM.
+ */
+export function eventEpochMs(eventDate: string, eventTime: string | null, tz: string): number {
+  const [year, month, day] = eventDate.split('-').map(Number);
+  let hours = 9, minutes = 0; // Default: 9 AM for date-only events
+  if (eventTime) {
+    const parts = eventTime.split(':').map(Number);
+    hours = parts[0];
+    minutes = parts[1];
+  }
+  // Create a date string that we interpret in the user's timezone
+  // Use Intl to figure out the UTC offset for this specific date+time in the user's tz
+  const naive = new Date(year, month - 1, day, hours, minutes, 0, 0);
+  const utcStr = naive.toLocaleString('en-US', { timeZone: 'UTC' });
+  const tzStr = naive.toLocaleString('en-US', { timeZone: tz });
+  const utcDate = new Date(utcStr);
+  const tzDate = new Date(tzStr);
+  const offsetMs = utcDate.getTime() - tzDate.getTime();
+  return naive.getTime() + offsetMs;
+}
+
+/** When a snooze taken at `nowMs` ends */
+export function snoozeUntil(option: SnoozeOption, nowMs: number, tz: string): number {
+  if (option !== 'tomorrow') return nowMs + SNOOZE_MS[option];
+  const tomorrow = dateInTimezone(nowMs + 24 * 60 * 60 * 1000, tz);
+  return eventEpochMs(tomorrow, MORNING_TIME, tz);
+}
+
+/** "Thu 9:00 AM" in the user's timezone */
+export function formatReminderTime(epochMs: number, tz: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(epochMs));
+}
+
+// --- Settings ---
+
+export interface EscalationSettings {
+  /** Minutes without acknowledgement before escalating; 0 = never */
+  delayMinutes: number;
+  /** Slack channel for escalations; null = repeat in the reminder's channel */
+  channel: string | null;
+}
+
+export function escalationSettings(settings: Record<string, unknown> | null | undefined): EscalationSettings {
+  const minutes = settings?.reminder_escalation_minutes;
+  const channel = settings?.reminder_escalation_channel;
+  return {
+    delayMinutes: typeof minutes === 'number' && minutes >= 0 ? minutes : DEFAULT_ESCALATION_MINUTES,
+    channel: typeof channel === 'string' && channel.trim() ? channel.trim() : null,
+  };
+}
+
+// --- Slack ---
+
+/**
+ * Reminder text plus action buttons. Every element carries the delivery id
+ * (button value / block_id) so slack-incoming can route the click.
+ */
+export function reminderBlocks(
+  deliveryId: string,
+  text: string,
+  options: { canReschedule: boolean; date: string }
+): unknown[] {
+  const button = (actionId: string, label: string, style?: 'primary') => ({
+    type: 'button',
+    action_id: actionId,
+    text: { type: 'plain_text', text: label },
+    value: deliveryId,
+    ...(style ? { style } : {}),
+  });
+  const elements: unknown[] = [
+    button('reminder_done', 'Done', 'primary'),
+    button('reminder_snooze_15m', 'Snooze 15m'),
+    button('reminder_snooze_1h', 'Snooze 1h'),
+    button('reminder_snooze_tomorrow', 'Tomorrow'),
+  ];
+  if (options.canReschedule) {
+    elements.push({
+      type: 'datepicker',
+      action_id: 'reminder_reschedule',
+      initial_date: options.date,
+      placeholder: { type: 'plain_text', text: 'Reschedule' },
+    });
+  }
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    { type: 'actions', block_id: `reminder_${deliveryId}`, elements },
+  ];
+}
+
+/**
+ * A reminder button click from a block_actions payload, or null if the
+ * action isn't one of ours.
+ */
+export function parseReminderAction(
+  action: { action_id?: string; value?: string; selected_date?: string; block_id?: string } | undefined
+): { deliveryId: string; action: ReminderAction; snooze?: SnoozeOption; date?: string } | null {
+  if (!action?.action_id?.startsWith('reminder_')) return null;
+  const deliveryId = action.value || action.block_id?.replace(/^reminder_/, '');
+  if (!deliveryId) return null;
+  if (action.action_id === 'reminder_done') return { deliveryId, action: 'done' };
+  if (action.action_id === 'reminder_reschedule' && action.selected_date) {
+    return { deliveryId, action: 'reschedule', date: action.selected_date };
+  }
+  const snooze = action.action_id.replace(/^reminder_snooze_/, '') as SnoozeOption;
+  return SNOOZE_OPTIONS.includes(snooze) ? { deliveryId, action: 'snooze', snooze } : null;
+}
+
+/** Post a reminder with the bot token; the message ts, or null if it wasn't delivered. Never throws. */
+export async function postSlackReminder(
+  botToken: string,
+  channel: string,
+  text: string,
+  blocks: unknown[]
+): Promise<string | null> {
+  try {
+    const res = await fetch('https://slack.com/api/chat.postMessage', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${botToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ channel, text, blocks }),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    if (!data.ok) {
+      console.warn('[reminders] Slack API error:', data.error);
+      return null;
+    }
+    return (data.ts as string) ?? null;
+  } catch (err) {
+    console.warn('[reminders] Slack send failed:', err);
+    return null;
+  }
+}
+
+/** Replace a delivered reminder's text, dropping its buttons. Never throws. */
+export async function updateSlackReminder(botToken: string, channel: string, ts: string, text: string): Promise<void> {
+  try {
+    await fetch('https://slack.com/api/chat.update', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${botToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ channel, ts, text, blocks: [] }),
+    });
+  } catch (err) {
+    console.warn('[reminders] Slack update failed:', err);
+  }
+}
@@ -86,20 +86,47 @@ export function notFoundResponse(request: Request, message = 'Not found'): Respo
 }
 
 /**
- * Create a rate limit exceeded response
+ * A request or quota limit that was hit — the body of every 429
  */
-export function rateLimitResponse(request: Request, retryAfterSeconds: number): Response {
+export interface LimitExceeded {
+  code: 'rate_limited' | 'quota_exceeded';
+  /** Function name for request limits, quota name for quotas */
+  limit: string;
+  max: number;
+  used: number;
+  /** Request window length; absent for daily quotas */
+  windowSeconds?: number;
+  retryAfter: number;
+}
+
+const QUOTA_MESSAGES: Record<string, string> = {
+  concurrent_tasks: 'Too many tasks running. Please wait for some to complete.',
+  daily_tasks: 'Daily task limit reached. Try again tomorrow.',
+  daily_tokens: 'Daily token budget reached. Try again tomorrow.',
+  daily_cost_usd: 'Daily cost budget reached. Try again tomorrow.',
+};
+
+/**
+ * Create a rate limit or quota exceeded response
+ */
+export function rateLimitResponse(request: Request, exceeded: LimitExceeded): Response {
+  const window = exceeded.windowSeconds && exceeded.windowSeconds >= 3600
+    ? `${Math.round(exceeded.windowSeconds / 3600)}h`
+    : `${exceeded.windowSeconds ?? 60}s`;
+  const error = exceeded.code === 'quota_exceeded'
+    ? QUOTA_MESSAGES[exceeded.limit] ?? 'Quota exceeded'
+    : `Rate limit exceeded (${exceeded.max} requests per ${window}). Try again in ${exceeded.retryAfter}s.`;
   return new Response(
-    JSON.stringify({
-      error: 'Rate limit exceeded',
-      retryAfter: retryAfterSeconds,
-    }),
+    JSON.stringify({ error, ...exceeded }),
     {
       status: 429,
       headers: {
         ...getCorsHeaders(request),
         'Content-Type': 'application/json',
-        'Retry-After': retryAfterSeconds.toString(),
+        'Retry-After': exceeded.retryAfter.toString(),
+        'X-RateLimit-Limit': exceeded.max.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': exceeded.retryAfter.toString(),
       },
     }
   );
@@ -0,0 +1,133 @@
+/**
+ * Repo tsconfig + import resolution, without the TypeScript compiler
+ *
+ * Path aliases and repo-relative import resolution shared by code-sandbox
+ * (via codeChecks.ts) and sync-codebase's symbol index. Kept free of
+ * npm:typescript so callers that only need aliases don't load it.
+ */
+
+export interface SandboxFile {
+  path: string;
+  content: string;
+}
+
+export interface PathAlias {
+  /** e.g. "@/" for "@/*" */
+  prefix: string;
+  /** repo-relative, e.g. "src/" */
+  targets: string[];
+}
+
+export interface RepoTsconfig {
+  /** Merged compilerOptions as written (later files win) */
+  compilerOptions: Record<string, unknown>;
+  /** Repo-relative baseUrl, "" for the root */
+  baseUrl: string;
+  aliases: PathAlias[];
+}
+
+const SCRIPT_EXTENSIONS = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
+
+export function isScriptFile(path: string): boolean {
+  return SCRIPT_EXTENSIONS.test(path) && !path.endsWith('.d.ts');
+}
+
+export function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+export function dirname(path: string): string {
+  const idx = path.lastIndexOf('/');
+  return idx === -1 ? '' : path.slice(0, idx);
+}
+
+// --- tsconfig ---
+
+/** tsconfig files are JSONC: drop comments and trailing commas, keep strings intact */
+function parseJsonc(text: string): unknown {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') j += text[j] === '\\' ? 2 : 1;
+      out += text.slice(i, j + 1);
+      i = j;
+    } else if (ch === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (ch === ',') {
+      let j = i + 1;
+      while (j < text.length && /\s/.test(text[j])) j++;
+      if (text[j] !== '}' && text[j] !== ']') out += ch;
+    } else {
+      out += ch;
+    }
+  }
+  return JSON.parse(out);
+}
+
+/** compilerOptions and path aliases from the repo's tsconfig files (later files win) */
+export function readTsconfigs(tsconfigs: SandboxFile[]): RepoTsconfig {
+  let compilerOptions: Record<string, unknown> = {};
+  for (const file of tsconfigs) {
+    try {
+      const parsed = parseJsonc(file.content) as { compilerOptions?: Record<string, unknown> } | null;
+      if (parsed?.compilerOptions) compilerOptions = { ...compilerOptions, ...parsed.compilerOptions };
+    } catch {
+      // Malformed tsconfig — treat as empty, like the compiler does
+    }
+  }
+
+  const baseUrl = normalizePath(typeof compilerOptions.baseUrl === 'string' ? compilerOptions.baseUrl : '.');
+
+  const aliases: PathAlias[] = [];
+  const paths = (compilerOptions.paths ?? {}) as Record<string, string[]>;
+  for (const [pattern, targets] of Object.entries(paths)) {
+    if (!Array.isArray(targets)) continue;
+    aliases.push({
+      prefix: pattern.replace(/\*$/, ''),
+      targets: targets.map(t => {
+        const joined = normalizePath(`${baseUrl}/${t.replace(/\*$/, '')}`);
+        return t.endsWith('/*') || t.endsWith('*') ? (joined ? `${joined}/` : '') : joined;
+      }),
+    });
+  }
+
+  return { compilerOptions, baseUrl, aliases };
+}
+
+// --- Import resolution ---
+
+/** Repo file an import specifier points at; null for packages and files outside the tree */
+export function resolveImportSpecifier(fromPath: string, spec: string, tree: Set<string>, aliases: PathAlias[]): string | null {
+  const bases: string[] = [];
+  if (spec.startsWith('./') || spec.startsWith('../')) {
+    bases.push(normalizePath(`${dirname(fromPath)}/${spec}`));
+  } else {
+    for (const alias of aliases) {
+      if (alias.prefix && spec.startsWith(alias.prefix)) {
+        for (const target of alias.targets) bases.push(normalizePath(target + spec.slice(alias.prefix.length)));
+      } else if (!alias.prefix.endsWith('/') && spec === alias.prefix) {
+        for (const target of alias.targets) bases.push(normalizePath(target));
+      }
+    }
+  }
+
+  for (const base of bases) {
+    const candidates = [base, base.replace(/\.js$/, '.ts'), base.replace(/\.js$/, '.tsx'), ...RESOLVE_EXTENSIONS.map(ext => base + ext)];
+    const hit = candidates.find(c => tree.has(c));
+    if (hit) return hit;
+  }
+  return null;
+}
@@ -217,3 +217,84 @@ export async function notifySlack(
     console.warn('[slack] Notification failed:', err);
   }
 }
+
+/**
+ * Send a plain Slack message to the user — for notifications that aren't tied
+ * to an agent task (smart collection matches, etc.). Same delivery path as
+ * notifySlack: bot token + user's channel, else their webhook.
+ * Optional Block Kit `blocks` (e.g. buttons) go alongside the text, which
+ * stays as the notification fallback.
+ * Returns whether the message was delivered. Never throws.
+ */
+export async function sendSlackMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  text: string,
+  blocks?: unknown[]
+): Promise<boolean> {
+  try {
+    const messageText = truncateAtSentence(markdownToMrkdwn(text), 3900);
+
+    const { data: settingsData } = await supabase
+      .from('user_settings')
+      .select('settings')
+      .eq('user_id', userId)
+      .single();
+    const settings = (settingsData?.settings ?? {}) as Record<string, unknown>;
+
+    const botToken = Deno.env.get('SLACK_BOT_TOKEN');
+    const channel = settings.slack_channel_id as string | undefined;
+    if (botToken && channel) {
+      const res = await fetch('https://slack.com/api/chat.postMessage', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ channel, text: messageText, ...(blocks ? { blocks } : {}) }),
+      });
+      if (!res.ok) return false;
+      const resData = await res.json();
+      if (!resData.ok) console.warn('[slack] Slack API ok:false —', resData.error);
+      return !!resData.ok;
+    }
+
+    const webhookUrl = settings.slack_webhook_url as string | undefined;
+    if (!webhookUrl) return false;
+    const parsed = new URL(webhookUrl);
+    if (parsed.protocol !== 'https:' || parsed.hostname !== 'hooks.slack.com') {
+      console.warn('[slack] Invalid webhook URL — must be https://hooks.slack.com/...');
+      return false;
+    }
+    const res = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: messageText, ...(blocks ? { blocks } : {}) }),
+    });
+    return res.ok;
+  } catch (err) {
+    console.warn('[slack] Message failed:', err);
+    return false;
+  }
+}
+
+/**
+ * Replace an interactive message (the one whose button was clicked) via the
+ * response_url Slack sent with the action. Never throws.
+ */
+export async function respondToSlackAction(responseUrl: string, text: string): Promise<void> {
+  try {
+    const parsed = new URL(responseUrl);
+    if (parsed.protocol !== 'https:' || parsed.hostname !== 'hooks.slack.com') {
+      console.warn('[slack] Invalid response_url — must be https://hooks.slack.com/...');
+      return;
+    }
+    await fetch(responseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ replace_original: true, text: markdownToMrkdwn(text) }),
+    });
+  } catch (err) {
+    console.warn('[slack] Action response failed:', err);
+  }
+}
@@ -223,6 +223,76 @@ export async function getLogs(
   return data.result || data || [];
 }
 
+export interface FunctionLogQuery {
+  /** Edge function id (from listFunctions), not the slug */
+  functionId?: string;
+  /** Case-insensitive substring of the log message */
+  search?: string;
+  start: Date;
+  end: Date;
+  limit?: number;
+}
+
+export interface FunctionLogLine {
+  id: string;
+  /** Microseconds since the epoch */
+  timestamp: number;
+  event_message: string;
+  level: string | null;
+  function_id: string | null;
+  execution_id: string | null;
+}
+
+/** Quote a value as a Logs Explorer (BigQuery) string literal */
+function sqlString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Query edge function console output (the function_logs source), newest first.
+ * Unlike getLogs this filters server-side, so busy projects don't crowd out
+ * the lines being looked for.
+ */
+export async function queryFunctionLogs(ref: string, query: FunctionLogQuery): Promise<FunctionLogLine[]> {
+  const conditions: string[] = [];
+  if (query.functionId) conditions.push(`metadata.function_id = ${sqlString(query.functionId)}`);
+  if (query.search) conditions.push(`strpos(lower(event_message), ${sqlString(query.search.toLowerCase())}) > 0`);
+  // Interpolated into the SQL below — only ever a whole number in range
+  const rawLimit = query.limit ?? 200;
+  if (typeof rawLimit !== 'number' || !Number.isFinite(rawLimit)) {
+    throw new Error('Function log limit must be a finite number');
+  }
+  const limit = Math.min(Math.max(Math.trunc(rawLimit), 1), 1000);
+
+  const sql = [
+    'select id, function_logs.timestamp, event_message, metadata.level, metadata.function_id, metadata.execution_id',
+    'from function_logs',
+    'cross join unnest(metadata) as metadata',
+    conditions.length > 0 ? `where ${conditions.join(' and ')}` : '',
+    'order by function_logs.timestamp desc',
+    `limit ${limit}`,
+  ].filter(Boolean).join('\n');
+
+  const params = new URLSearchParams({
+    sql,
+    iso_timestamp_start: query.start.toISOString(),
+    iso_timestamp_end: query.end.toISOString(),
+  });
+  const url = `${SUPABASE_MGMT_API}/v1/projects/${ref}/analytics/endpoints/logs.all?${params}`;
+  const res = await fetch(url, { headers: getHeaders() });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Query function logs failed (${res.status}): ${text.slice(0, 300)}`);
+  }
+
+  const data = await res.json();
+  if (data.error) {
+    throw new Error(`Query function logs failed: ${JSON.stringify(data.error).slice(0, 300)}`);
+  }
+  return data.result || [];
+}
+
 // --- Write Operations (production-guarded) ---
 
 export interface DeployOptions {
@@ -232,13 +302,15 @@ export interface DeployOptions {
 }
 
 export interface DeployFunctionSource {
+  /** Path relative to supabase/functions, e.g. "my-fn/index.ts" or "_shared/cors.ts" */
   name: string;
   content: string;
 }
 
 /**
- * Deploy a single edge function.
- * Source files are bundled into a FormData-compatible payload.
+ * Deploy a single edge function (creates it if missing).
+ * Every source file is uploaded, so relative imports such as ../_shared/*
+ * resolve; the entrypoint is the function's index.ts.
  */
 export async function deployFunction(
   ref: string,
@@ -256,38 +328,31 @@ export async function deployFunction(
     throw new Error('No source files provided for deployment');
   }
 
-  // Build the source as a single file (index.ts) for the deploy endpoint
-  // The Management API v1 deploy expects the function body as multipart form
-  const mainSource = sourceFiles.find(f => f.name === 'index.ts') || sourceFiles[0];
+  const entrypoint = sourceFiles.find(f => f.name === `${slug}/index.ts`)
+    || sourceFiles.find(f => f.name === 'index.ts' || f.name.endsWith('/index.ts'))
+    || sourceFiles[0];
 
   const formData = new FormData();
-  const blob = new Blob([mainSource.content], { type: 'application/typescript' });
-  formData.append('slug', slug);
-  formData.append('name', slug);
-  formData.append('verify_jwt', String(opts.verifyJwt ?? false));
-  formData.append('body', blob, 'index.ts');
+  formData.append('metadata', JSON.stringify({
+    name: slug,
+    entrypoint_path: entrypoint.name,
+    verify_jwt: opts.verifyJwt ?? false,
+    ...(opts.importMapPath ? { import_map_path: opts.importMapPath } : {}),
+  }));
+  for (const file of sourceFiles) {
+    formData.append('file', new Blob([file.content], { type: 'application/typescript' }), file.name);
+  }
 
   const token = Deno.env.get('MGMT_API_TOKEN');
   if (!token) throw new Error('MGMT_API_TOKEN not configured');
 
-  const url = `${SUPABASE_MGMT_API}/v1/projects/${ref}/functions/${slug}`;
-
-  // Try update first (PUT), fall back to create (POST) if 404
-  let res = await fetch(url, {
-    method: 'PUT',
+  const url = `${SUPABASE_MGMT_API}/v1/projects/${ref}/functions/deploy?slug=${encodeURIComponent(slug)}`;
+  const res = await fetch(url, {
+    method: 'POST',
     headers: { 'Authorization': `Bearer ${token}` },
     body: formData,
   });
 
-  if (res.status === 404) {
-    const createUrl = `${SUPABASE_MGMT_API}/v1/projects/${ref}/functions`;
-    res = await fetch(createUrl, {
-      method: 'POST',
-      headers: { 'Authorization': `Bearer ${token}` },
-      body: formData,
-    });
-  }
-
   if (!res.ok) {
     const text = await res.text();
     throw new Error(`Deploy function "${slug}" failed (${res.status}): ${text.slice(0, 300)}`);
@@ -0,0 +1,150 @@
+/**
+ * Repository symbol index — what each source file declares, exports and imports
+ *
+ * sync-codebase writes one code_symbols row per file (extractFileSymbols);
+ * readers use _shared/symbolLookup.ts, which doesn't pull in the compiler.
+ *
+ * Only top-level declarations count. Imports are resolved to repo paths
+ * with the project's tsconfig aliases; package imports keep path null.
+ */
+
+import ts from 'npm:typescript@5.4.5';
+import { isScriptFile, resolveImportSpecifier } from './sandboxConfig.ts';
+import type { PathAlias, SandboxFile } from './sandboxConfig.ts';
+import type { FileSymbols, FileImport, FileSymbol, SymbolKind } from './symbolLookup.ts';
+
+export function isIndexableFile(path: string): boolean {
+  return isScriptFile(path);
+}
+
+const HOOK_NAME_RE = /^use[A-Z0-9]/;
+const PASCAL_CASE_RE = /^[A-Z][A-Za-z0-9]*$/;
+const COMPONENT_WRAPPERS = new Set(['forwardRef', 'memo', 'React.forwardRef', 'React.memo']);
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(m => m.kind === kind);
+}
+
+function functionKind(name: string, isJsxFile: boolean): SymbolKind {
+  if (HOOK_NAME_RE.test(name)) return 'hook';
+  if (isJsxFile && PASCAL_CASE_RE.test(name)) return 'component';
+  return 'function';
+}
+
+function variableKind(name: string, init: ts.Expression | undefined, isJsxFile: boolean): SymbolKind {
+  if (!init) return 'variable';
+  if (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) return functionKind(name, isJsxFile);
+  if (ts.isCallExpression(init) && COMPONENT_WRAPPERS.has(init.expression.getText())) return 'component';
+  return 'variable';
+}
+
+export function extractFileSymbols(file: SandboxFile, tree: Set<string>, aliases: PathAlias[]): FileSymbols {
+  const isJsxFile = /\.(tsx|jsx)$/.test(file.path);
+  const source = ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true,
+    isJsxFile ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+  const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+
+  const symbols: FileSymbol[] = [];
+  const exports = new Set<string>();
+  const imports = new Map<string, FileImport>();
+
+  const addImport = (spec: string, names: string[]) => {
+    const existing = imports.get(spec);
+    if (existing) {
+      for (const n of names) if (!existing.names.includes(n)) existing.names.push(n);
+      return;
+    }
+    imports.set(spec, { from: spec, path: resolveImportSpecifier(file.path, spec, tree, aliases), names: [...names] });
+  };
+
+  const addSymbol = (name: string, kind: SymbolKind, node: ts.Node, exported: boolean, isDefault = false) => {
+    symbols.push({ name, kind, line: lineOf(node), exported, ...(isDefault ? { default: true } : {}) });
+    if (exported) exports.add(isDefault ? 'default' : name);
+  };
+
+  for (const stmt of source.statements) {
+    const exported = hasModifier(stmt, ts.SyntaxKind.ExportKeyword);
+    const isDefault = exported && hasModifier(stmt, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isImportDeclaration(stmt) && ts.isStringLiteral(stmt.moduleSpecifier)) {
+      const clause = stmt.importClause;
+      const names: string[] = [];
+      if (clause?.name) names.push('default');
+      if (clause?.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) names.push('*');
+        else for (const el of clause.namedBindings.elements) names.push((el.propertyName ?? el.name).text);
+      }
+      addImport(stmt.moduleSpecifier.text, names);
+    } else if (ts.isExportDeclaration(stmt)) {
+      const names: string[] = [];
+      if (stmt.exportClause && ts.isNamedExports(stmt.exportClause)) {
+        for (const el of stmt.exportClause.elements) {
+          exports.add(el.name.text);
+          names.push((el.propertyName ?? el.name).text);
+        }
+      } else if (stmt.exportClause && ts.isNamespaceExport(stmt.exportClause)) {
+        exports.add(stmt.exportClause.name.text);
+        names.push('*');
+      } else {
+        names.push('*');
+      }
+      if (stmt.moduleSpecifier && ts.isStringLiteral(stmt.moduleSpecifier)) {
+        addImport(stmt.moduleSpecifier.text, names);
+      } else if (stmt.exportClause && ts.isNamedExports(stmt.exportClause)) {
+        // `export { a, b as default }` of local declarations
+        for (const el of stmt.exportClause.elements) {
+          const local = symbols.find(s => s.name === (el.propertyName ?? el.name).text);
+          if (!local) continue;
+          local.exported = true;
+          if (el.name.text === 'default') local.default = true;
+        }
+      }
+    } else if (ts.isExportAssignment(stmt)) {
+      exports.add('default');
+      if (ts.isIdentifier(stmt.expression)) {
+        const local = symbols.find(s => s.name === (stmt.expression as ts.Identifier).text);
+        if (local) {
+          local.exported = true;
+          local.default = true;
+        }
+      }
+    } else if (ts.isFunctionDeclaration(stmt)) {
+      const name = stmt.name?.text ?? 'default';
+      addSymbol(name, functionKind(name, isJsxFile), stmt, exported, isDefault);
+    } else if (ts.isClassDeclaration(stmt)) {
+      const name = stmt.name?.text ?? 'default';
+      addSymbol(name, isJsxFile && PASCAL_CASE_RE.test(name) ? 'component' : 'class', stmt, exported, isDefault);
+    } else if (ts.isInterfaceDeclaration(stmt)) {
+      addSymbol(stmt.name.text, 'interface', stmt, exported);
+    } else if (ts.isTypeAliasDeclaration(stmt)) {
+      addSymbol(stmt.name.text, 'type', stmt, exported);
+    } else if (ts.isEnumDeclaration(stmt)) {
+      addSymbol(stmt.name.text, 'enum', stmt, exported);
+    } else if (ts.isVariableStatement(stmt)) {
+      for (const decl of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name)) {
+          addSymbol(decl.name.text, variableKind(decl.name.text, decl.initializer, isJsxFile), decl, exported);
+        }
+      }
+    }
+  }
+
+  // Lazy routes and other dynamic imports
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      const [arg] = node.arguments;
+      if (arg && ts.isStringLiteralLike(arg)) addImport(arg.text, ['*']);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  const importList = [...imports.values()];
+  return {
+    path: file.path,
+    symbols,
+    exports: [...exports],
+    imports: importList,
+    imported_paths: [...new Set(importList.map(i => i.path).filter((p): p is string => p !== null))],
+  };
+}
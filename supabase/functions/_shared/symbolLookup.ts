@@ -0,0 +1,122 @@
+/**
+ * Symbol index lookups — code_symbols rows → "where is X, who imports it"
+ *
+ * Used by jac-code-agent's planner: "rename useWatches" finds the hook's
+ * file and every file importing it, so they're all read before planning
+ * the change. Row shape is built by _shared/symbolIndex.ts.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+
+export type SymbolKind = 'component' | 'hook' | 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+export interface FileSymbol {
+  name: string;
+  kind: SymbolKind;
+  line: number;
+  exported: boolean;
+  /** The file's default export */
+  default?: boolean;
+}
+
+export interface FileImport {
+  /** Specifier as written */
+  from: string;
+  /** Repo path it resolves to; null for packages */
+  path: string | null;
+  /** Imported names as the source file exports them ('default', '*' for namespaces and re-export-all) */
+  names: string[];
+}
+
+/** One code_symbols row (minus ids) */
+export interface FileSymbols {
+  path: string;
+  symbols: FileSymbol[];
+  exports: string[];
+  imports: FileImport[];
+  imported_paths: string[];
+}
+
+const HOOK_NAME_RE = /^use[A-Z0-9]/;
+
+const SYMBOL_COLUMNS = 'path, symbols, exports, imports, imported_paths';
+
+export interface SymbolReferences {
+  name: string;
+  kind: SymbolKind;
+  /** file:line of each declaration */
+  definedIn: Array<{ path: string; line: number }>;
+  /** Files that import it — by name, as a default import, or via `import *` */
+  importedBy: string[];
+}
+
+/** Where a symbol is declared (exported only) and every file importing it */
+export function findSymbolReferences(index: FileSymbols[], name: string): SymbolReferences | null {
+  const definitions = index.flatMap(file =>
+    file.symbols
+      .filter(s => s.name === name && s.exported)
+      .map(s => ({ path: file.path, symbol: s }))
+  );
+  if (definitions.length === 0) return null;
+
+  const importedBy = new Set<string>();
+  for (const file of index) {
+    for (const imp of file.imports) {
+      const def = definitions.find(d => d.path === imp.path);
+      if (!def) continue;
+      if (imp.names.includes(name) || imp.names.includes('*') || (def.symbol.default && imp.names.includes('default'))) {
+        importedBy.add(file.path);
+      }
+    }
+  }
+
+  return {
+    name,
+    kind: definitions[0].symbol.kind,
+    definedIn: definitions.map(d => ({ path: d.path, line: d.symbol.line })),
+    importedBy: [...importedBy].sort(),
+  };
+}
+
+/**
+ * findSymbolReferences against code_symbols without loading the whole
+ * index: the rows declaring the name, then the rows importing those files.
+ */
+export async function lookupSymbolReferences(
+  supabase: SupabaseClient,
+  projectId: string,
+  name: string
+): Promise<SymbolReferences | null> {
+  const { data: definers } = await supabase
+    .from('code_symbols')
+    .select(SYMBOL_COLUMNS)
+    .eq('project_id', projectId)
+    .contains('symbols', [{ name }]);
+  if (!definers || definers.length === 0) return null;
+
+  const { data: importers } = await supabase
+    .from('code_symbols')
+    .select(SYMBOL_COLUMNS)
+    .eq('project_id', projectId)
+    .overlaps('imported_paths', definers.map((d: FileSymbols) => d.path));
+
+  const rows = new Map<string, FileSymbols>();
+  for (const row of [...definers, ...(importers ?? [])] as FileSymbols[]) rows.set(row.path, row);
+  return findSymbolReferences([...rows.values()], name);
+}
+
+/**
+ * Identifiers in a request that look like code (useWatches, CodeWorkspace,
+ * `anything in backticks`, snake_case) — plain words are left out so
+ * "add a Button" doesn't drag in every importer of Button.
+ */
+export function codeIdentifiersInText(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(/`([A-Za-z_$][\w$]*)`/g)) found.add(match[1]);
+  for (const match of text.matchAll(/[A-Za-z_$][\w$]*/g)) {
+    const word = match[0];
+    if (word.length < 3) continue;
+    if (/[a-z][A-Z]/.test(word) || /[a-z0-9]_[a-z0-9]/i.test(word) || HOOK_NAME_RE.test(word)) found.add(word);
+  }
+  return [...found];
+}
@@ -0,0 +1,192 @@
+/**
+ * Task graph — dependency scheduling for a dispatcher task's children
+ *
+ * route_intent can say that one intent needs another's result ("research X,
+ * then save a summary of it"). The dispatcher creates such children as
+ * 'pending' with depends_on set to their upstream siblings and only
+ * dispatches the rest. Whenever a child finishes or fails, its worker calls
+ * advanceTaskGraph on the parent:
+ *
+ * - a pending child whose upstreams all completed is claimed (→ queued) and
+ *   dispatched with their outputs as upstreamContext
+ * - a pending child with a failed or cancelled upstream fails without
+ *   running, and so do its own dependents
+ * - once no child is pending, queued or running, the parent completes (a
+ *   failed child has already marked it failed)
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+
+interface GraphChild {
+  id: string;
+  user_id: string;
+  type: string;
+  status: string;
+  intent: string | null;
+  agent: string | null;
+  input: Record<string, unknown> | null;
+  output: Record<string, unknown> | null;
+  depends_on: string[] | null;
+}
+
+const ACTIVE_STATUSES = ['pending', 'queued', 'running'];
+const BLOCKING_STATUSES = ['failed', 'cancelled'];
+const MAX_UPSTREAM_CHARS = 4000;
+const MAX_CONTEXT_CHARS = 12000;
+
+/**
+ * Plain-text summary of a finished child's output, by worker output shape
+ */
+export function describeTaskOutput(task: Pick<GraphChild, 'type' | 'intent' | 'output'>): string {
+  const output = task.output || {};
+  let text: string;
+  if (typeof output.brief === 'string') {
+    text = output.brief;
+    const sources = output.sources as Array<{ title?: string; url?: string }> | undefined;
+    if (Array.isArray(sources) && sources.length > 0) {
+      text += `\n\nSources:\n${sources.slice(0, 5).map(s => `- ${s.title || s.url} ${s.url || ''}`.trim()).join('\n')}`;
+    }
+  } else if (Array.isArray(output.results)) {
+    const results = output.results as Array<{ title?: string; snippet?: string; content?: string }>;
+    text = results.length === 0
+      ? 'No matching entries.'
+      : results.slice(0, 10).map(r => `- ${r.title || 'Untitled'}: ${r.snippet || r.content || ''}`.trim()).join('\n');
+  } else if (output.entryId) {
+    text = `Saved to brain: "${output.entryTitle || 'Untitled'}" (${output.entryType || 'note'}, id ${output.entryId})`;
+  } else if (output.prUrl) {
+    text = `Opened PR #${output.prNumber ?? ''} ${output.prUrl}${output.branchName ? ` (branch ${output.branchName})` : ''}${output.merged ? ' — merged' : ''}`;
+  } else {
+    text = JSON.stringify(output);
+  }
+  return text.slice(0, MAX_UPSTREAM_CHARS);
+}
+
+/**
+ * Upstream outputs as one block for a downstream worker's prompt
+ */
+export function buildUpstreamContext(upstreams: Array<Pick<GraphChild, 'type' | 'intent' | 'output'>>): string {
+  return upstreams
+    .map(u => `[${u.type}] ${u.intent || ''}\n${describeTaskOutput(u)}`)
+    .join('\n\n')
+    .slice(0, MAX_CONTEXT_CHARS);
+}
+
+function dispatchChild(
+  supabase: SupabaseClient,
+  parentTaskId: string,
+  child: GraphChild,
+  upstreamContext: string
+): void {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  const fail = async (error: string) => {
+    await supabase.from('agent_tasks')
+      .update({ status: 'failed', error, completed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', child.id)
+      .in('status', ['queued']);
+    await advanceTaskGraph(supabase, parentTaskId);
+  };
+
+  fetch(`${supabaseUrl}/functions/v1/${child.agent}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...(child.input || {}),
+      taskId: child.id,
+      parentTaskId,
+      userId: child.user_id,
+      upstreamContext,
+    }),
+  }).then(async (res) => {
+    if (!res.ok) {
+      const errText = await res.text().catch(() => 'unknown');
+      console.error(`[task-graph] Worker ${child.agent} returned ${res.status}: ${errText}`);
+      await fail(`Dispatch failed: ${res.status}`);
+    }
+  }).catch(async (err) => {
+    console.error(`[task-graph] Worker dispatch failed for ${child.agent}:`, err);
+    await fail(`Dispatch error: ${err instanceof Error ? err.message : 'network error'}`);
+  });
+}
+
+/**
+ * Start ready children, fail blocked ones, and complete the parent when
+ * nothing is left to run. Safe to call from several workers at once: each
+ * transition only applies if the child is still 'pending'.
+ */
+export async function advanceTaskGraph(supabase: SupabaseClient, parentTaskId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('agent_tasks')
+    .select('id, user_id, type, status, intent, agent, input, output, depends_on')
+    .eq('parent_task_id', parentTaskId);
+  if (error) {
+    console.warn('[task-graph] Failed to load children:', error.message);
+    return;
+  }
+  const children = (data || []) as GraphChild[];
+  const byId = new Map(children.map(c => [c.id, c]));
+
+  // Failure runs downstream until nothing else is blocked
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const child of children) {
+      if (child.status !== 'pending') continue;
+      const blocker = (child.depends_on || [])
+        .map(id => byId.get(id))
+        .find(u => u && BLOCKING_STATUSES.includes(u.status));
+      if (!blocker) continue;
+
+      const { data: skipped } = await supabase.from('agent_tasks')
+        .update({
+          status: 'failed',
+          error: `Skipped — upstream task "${blocker.intent || blocker.type}" ${blocker.status}`,
+          completed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', child.id)
+        .eq('status', 'pending')
+        .select('id');
+      child.status = 'failed';
+      changed = true;
+      if (skipped && skipped.length > 0) {
+        console.log(`[task-graph] Skipped ${child.id}: upstream ${blocker.id} ${blocker.status}`);
+      }
+    }
+  }
+
+  for (const child of children) {
+    if (child.status !== 'pending' || !child.agent) continue;
+    const upstreams = (child.depends_on || []).map(id => byId.get(id));
+    if (!upstreams.every(u => u && u.status === 'completed')) continue;
+
+    // Claim before dispatching so concurrent callers start it only once
+    const { data: claimed } = await supabase.from('agent_tasks')
+      .update({ status: 'queued', updated_at: new Date().toISOString() })
+      .eq('id', child.id)
+      .eq('status', 'pending')
+      .select('id');
+    child.status = 'queued';
+    if (!claimed || claimed.length === 0) continue;
+
+    console.log(`[task-graph] Dispatching ${child.agent} for ${child.id} after ${upstreams.length} upstream task(s)`);
+    dispatchChild(supabase, parentTaskId, child, buildUpstreamContext(upstreams as GraphChild[]));
+  }
+
+  if (!children.some(c => ACTIVE_STATUSES.includes(c.status))) {
+    await supabase
+      .from('agent_tasks')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', parentTaskId)
+      .in('status', ['running'])
+      .is('cron_expression', null);
+  }
+}
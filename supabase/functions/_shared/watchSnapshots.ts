@@ -0,0 +1,310 @@
+/**
+ * Watch snapshots — change detection for recurring watches
+ *
+ * A watch run reports its findings as structured items (a stable key, a
+ * label, and a value and/or number: a listing and its price, a release and
+ * its version). recordWatchSnapshot diffs them against the watch's previous
+ * snapshot and checks the watch's alert condition (input.alertCondition):
+ *
+ * - any_change — something was added, removed or changed (the default)
+ * - new_item   — something appeared that wasn't there last run
+ * - below / above — a number crossed the threshold since last run,
+ *   optionally only for items whose label or key contains `match`
+ *
+ * Keys and values are compared normalized (case, whitespace, URL noise, and
+ * the reported number over its wording), so restating the same finding
+ * isn't a change.
+ * The worker only saves and notifies when the condition is met; every run
+ * still stores its snapshot, which is the watch's change history.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+
+export interface WatchFinding {
+  /** Stable identity across runs — URL, address, product name */
+  key: string;
+  label: string;
+  value?: string;
+  number?: number;
+}
+
+export type WatchAlertCondition =
+  | { type: 'any_change' }
+  | { type: 'new_item' }
+  | { type: 'below' | 'above'; value: number; match?: string };
+
+export interface WatchChange {
+  key: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface WatchDiff {
+  added: WatchFinding[];
+  removed: WatchFinding[];
+  changed: WatchChange[];
+}
+
+export interface WatchSnapshotResult {
+  /** null on a watch's first snapshot */
+  diff: WatchDiff | null;
+  conditionMet: boolean;
+  /** One line: "2 new, 1 changed" */
+  summary: string;
+  /** Line per difference (or why the condition was met), for Slack */
+  details: string;
+}
+
+const MAX_FINDINGS = 50;
+const MAX_DETAIL_LINES = 12;
+
+export const FINDINGS_TOOL_PROPERTY = {
+  type: 'array',
+  description: 'Recurring watch runs only: every item tracked this run, one per listing/product/event. Reuse the key from previous findings for the same item.',
+  items: {
+    type: 'object',
+    properties: {
+      key: { type: 'string', description: 'Stable identity: URL, address, or exact name' },
+      label: { type: 'string', description: 'Short human-readable name' },
+      value: { type: 'string', description: 'The tracked detail, e.g. "$389,000, 3bd/2ba" or "v2.4.1"' },
+      number: { type: 'number', description: 'The main numeric value (price, count, rating) if there is one' },
+    },
+    required: ['key', 'label'],
+  },
+};
+
+function normalizeKey(key: string): string {
+  return key
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\/(www\.)?/, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+    .replace(/\s+/g, ' ');
+}
+
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** First number in a value, for thresholds: "$399,000" → 399000, "1.2k" → 1200 */
+export function parseNumber(text: string): number | undefined {
+  const match = text.replace(/,/g, '').match(/-?\d+(?:\.\d+)?(?:\s*([km])\b)?/i);
+  if (!match) return undefined;
+  const base = parseFloat(match[0]);
+  const suffix = match[1]?.toLowerCase();
+  return suffix === 'k' ? base * 1_000 : suffix === 'm' ? base * 1_000_000 : base;
+}
+
+function findingNumber(finding: WatchFinding): number | undefined {
+  if (typeof finding.number === 'number' && Number.isFinite(finding.number)) return finding.number;
+  return finding.value ? parseNumber(finding.value) : undefined;
+}
+
+function formatFinding(finding: WatchFinding): string | null {
+  return finding.value ?? (finding.number !== undefined ? String(finding.number) : null);
+}
+
+/**
+ * Validate model- or worker-supplied findings: drop keyless items, trim
+ * fields, keep the first item per normalized key
+ */
+export function normalizeFindings(raw: unknown): WatchFinding[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const findings: WatchFinding[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const f = item as Record<string, unknown>;
+    const key = String(f.key ?? '').trim();
+    if (!key || seen.has(normalizeKey(key))) continue;
+    seen.add(normalizeKey(key));
+    findings.push({
+      key: key.slice(0, 300),
+      label: String(f.label ?? key).trim().slice(0, 200),
+      ...(typeof f.value === 'string' && f.value.trim() ? { value: f.value.trim().slice(0, 300) } : {}),
+      ...(typeof f.number === 'number' && Number.isFinite(f.number) ? { number: f.number } : {}),
+    });
+    if (findings.length >= MAX_FINDINGS) break;
+  }
+  return findings;
+}
+
+export function diffFindings(previous: WatchFinding[], current: WatchFinding[]): WatchDiff {
+  const before = new Map(previous.map(f => [normalizeKey(f.key), f]));
+  const after = new Map(current.map(f => [normalizeKey(f.key), f]));
+  const diff: WatchDiff = { added: [], removed: [], changed: [] };
+
+  for (const [key, next] of after) {
+    const prev = before.get(key);
+    if (!prev) {
+      diff.added.push(next);
+      continue;
+    }
+    // Numbers win when both runs reported one, so "$399,000" vs "399000 USD" isn't a change
+    const differs = prev.number !== undefined && next.number !== undefined
+      ? prev.number !== next.number
+      : normalizeText(prev.value ?? '') !== normalizeText(next.value ?? '');
+    if (differs) {
+      diff.changed.push({ key: next.key, label: next.label, before: formatFinding(prev), after: formatFinding(next) });
+    }
+  }
+  for (const [key, prev] of before) {
+    if (!after.has(key)) diff.removed.push(prev);
+  }
+  return diff;
+}
+
+export function summarizeDiff(diff: WatchDiff): string {
+  const parts = [
+    diff.added.length > 0 ? `${diff.added.length} new` : '',
+    diff.changed.length > 0 ? `${diff.changed.length} changed` : '',
+    diff.removed.length > 0 ? `${diff.removed.length} gone` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+function describeDiff(diff: WatchDiff): string {
+  const lines = [
+    ...diff.added.map(f => `+ ${f.label}${formatFinding(f) ? ` (${formatFinding(f)})` : ''}`),
+    ...diff.changed.map(c => `~ ${c.label}: ${c.before ?? '—'} → ${c.after ?? '—'}`),
+    ...diff.removed.map(f => `- ${f.label}`),
+  ];
+  const extra = lines.length - MAX_DETAIL_LINES;
+  return lines.slice(0, MAX_DETAIL_LINES).join('\n') + (extra > 0 ? `\n…and ${extra} more` : '');
+}
+
+function matchesFilter(finding: WatchFinding, match?: string): boolean {
+  if (!match?.trim()) return true;
+  const needle = normalizeText(match);
+  return normalizeText(finding.label).includes(needle) || normalizeText(finding.key).includes(needle);
+}
+
+/**
+ * Whether a run's diff meets the alert condition. Thresholds fire on the
+ * crossing — an item already below the threshold last run doesn't re-alert.
+ */
+export function evaluateCondition(
+  condition: WatchAlertCondition,
+  previous: WatchFinding[],
+  current: WatchFinding[],
+  diff: WatchDiff,
+): { met: boolean; reason: string } {
+  if (condition.type === 'new_item') {
+    return diff.added.length > 0
+      ? { met: true, reason: `${diff.added.length} new item(s)` }
+      : { met: false, reason: 'No new items' };
+  }
+
+  if (condition.type === 'below' || condition.type === 'above') {
+    const crosses = (n: number | undefined) =>
+      n !== undefined && (condition.type === 'below' ? n < condition.value : n > condition.value);
+    const previousByKey = new Map(previous.map(f => [normalizeKey(f.key), f]));
+    const crossed = current.filter(f => {
+      if (!matchesFilter(f, condition.match) || !crosses(findingNumber(f))) return false;
+      const prev = previousByKey.get(normalizeKey(f.key));
+      return !prev || !crosses(findingNumber(prev));
+    });
+    return crossed.length > 0
+      ? {
+        met: true,
+        reason: crossed.slice(0, MAX_DETAIL_LINES)
+          .map(f => `${f.label}: ${formatFinding(f)} (${condition.type} ${condition.value})`)
+          .join('\n'),
+      }
+      : { met: false, reason: `Nothing ${condition.type} ${condition.value}` };
+  }
+
+  const changed = diff.added.length + diff.removed.length + diff.changed.length > 0;
+  return { met: changed, reason: changed ? 'Findings changed' : 'No changes' };
+}
+
+export function parseAlertCondition(raw: unknown): WatchAlertCondition {
+  const c = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (c.type === 'new_item') return { type: 'new_item' };
+  if ((c.type === 'below' || c.type === 'above') && typeof c.value === 'number' && Number.isFinite(c.value)) {
+    return { type: c.type, value: c.value, ...(typeof c.match === 'string' && c.match.trim() ? { match: c.match.trim() } : {}) };
+  }
+  return { type: 'any_change' };
+}
+
+/**
+ * Findings of a watch's latest snapshot, or null before its first run
+ */
+export async function loadLatestFindings(supabase: SupabaseClient, watchId: string): Promise<WatchFinding[] | null> {
+  const { data } = await supabase
+    .from('watch_snapshots')
+    .select('findings')
+    .eq('watch_id', watchId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data ? normalizeFindings(data.findings) : null;
+}
+
+/**
+ * Previous findings as prompt context for the next run
+ */
+export function formatFindingsForPrompt(findings: WatchFinding[]): string {
+  return findings
+    .map(f => `- key: ${f.key} | ${f.label}${formatFinding(f) ? ` | ${formatFinding(f)}` : ''}`)
+    .join('\n')
+    .slice(0, 4000);
+}
+
+/**
+ * Store a run's findings, diff them against the previous snapshot and check
+ * the watch's alert condition. The first snapshot is a baseline and always
+ * notifies. Never throws — if the history can't be read the run notifies.
+ */
+export async function recordWatchSnapshot(
+  supabase: SupabaseClient,
+  params: { watchId: string; taskId: string; userId: string; runNumber: number; findings: WatchFinding[] },
+): Promise<WatchSnapshotResult> {
+  const { watchId, taskId, userId, runNumber, findings } = params;
+  let result: WatchSnapshotResult;
+
+  try {
+    const [{ data: watch }, previous] = await Promise.all([
+      supabase.from('agent_tasks').select('input').eq('id', watchId).maybeSingle(),
+      loadLatestFindings(supabase, watchId),
+    ]);
+    const condition = parseAlertCondition((watch?.input as Record<string, unknown> | null)?.alertCondition);
+
+    if (previous === null) {
+      result = {
+        diff: null,
+        conditionMet: true,
+        summary: `First run: ${findings.length} item(s) tracked`,
+        details: '',
+      };
+    } else {
+      const diff = diffFindings(previous, findings);
+      const { met, reason } = evaluateCondition(condition, previous, findings, diff);
+      result = {
+        diff,
+        conditionMet: met,
+        summary: summarizeDiff(diff),
+        details: condition.type === 'below' || condition.type === 'above' ? reason : describeDiff(diff),
+      };
+    }
+  } catch (err) {
+    console.warn('[watchSnapshots] Snapshot comparison failed, notifying:', err);
+    result = { diff: null, conditionMet: true, summary: `${findings.length} item(s) tracked`, details: '' };
+  }
+
+  const { error } = await supabase.from('watch_snapshots').insert({
+    watch_id: watchId,
+    task_id: taskId,
+    user_id: userId,
+    run_number: runNumber,
+    findings,
+    diff: result.diff,
+    summary: result.summary,
+    condition_met: result.conditionMet,
+  });
+  if (error) console.warn('[watchSnapshots] Snapshot insert failed:', error.message);
+
+  return result;
+}
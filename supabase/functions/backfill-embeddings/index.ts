@@ -1,22 +1,161 @@
 /**
  * backfill-embeddings — Batch embedding generation for entries missing vectors
  *
- * Queries entries WHERE embedding IS NULL, calls generate-embedding for each
- * using rich text (title | type | tags | content), updates the entry,
- * then creates entry_relationships via semantic similarity.
+ * Queries entries WHERE embedding IS NULL (or embedded with a model other than
+ * the active one), calls generate-embedding for each using rich text
+ * (title | type | tags | content), updates the entry, then creates
+ * entry_relationships via semantic similarity.
  *
  * Processes in batches of 20 (kept small to avoid edge function timeout).
  *
+ * Also drives embedding model migrations (see _shared/embeddings.ts):
+ * - { action: 'start', model, autoCutover? } — begin re-embedding every entry with `model`
+ * - { action: 'migrate' }  — embed the next batches (cron, every 5 min)
+ * - { action: 'status' }   — active model + migration progress
+ * - { action: 'cutover', force? } — finish remaining batches, then swap models
+ * - { action: 'cancel' }   — stop and drop the new vectors
+ * Search keeps using the old vectors (plus any new ones) until cutover.
+ *
  * No auth gate — this is an internal batch job that uses service role internally.
  * Deploy with --no-verify-jwt. Invoke manually or via cron.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
+import {
+  checkEmbeddingModel,
+  embedTexts,
+  getEmbeddingState,
+  parseEmbeddingModel,
+} from '../_shared/embeddings.ts';
 
 const BATCH_SIZE = 20;
+/** Entries per provider call while re-embedding */
+const MIGRATION_BATCH_SIZE = 64;
+/** Stop starting new migration batches after this long — stays inside the function time limit */
+const MIGRATION_TIME_BUDGET_MS = 25000;
+
+interface EmbeddableEntry {
+  id: string;
+  user_id: string;
+  title: string | null;
+  content_type: string | null;
+  tags: string[] | null;
+  content: string | null;
+}
+
+interface EmbeddingMigration {
+  id: string;
+  from_model: string;
+  to_model: string;
+  to_dim: number;
+  status: string;
+  auto_cutover: boolean;
+  total: number;
+  processed: number;
+  last_error: string | null;
+  started_at: string;
+  ready_at: string | null;
+  completed_at: string | null;
+}
+
+/** Rich embedding text (matches smart-save format) */
+function richEmbeddingText(entry: EmbeddableEntry): string {
+  const title = entry.title || '';
+  const contentType = entry.content_type || 'note';
+  const tags = entry.tags || [];
+  const content = entry.content || '';
+  return `${title} | ${contentType} | ${tags.join(', ')} | ${content}`.slice(0, 8000);
+}
+
+async function loadInFlightMigration(supabase: SupabaseClient): Promise<EmbeddingMigration | null> {
+  const { data } = await supabase
+    .from('embedding_migrations')
+    .select('*')
+    .in('status', ['running', 'ready'])
+    .maybeSingle();
+  return (data as EmbeddingMigration | null) ?? null;
+}
+
+/**
+ * Embed entries that don't have a vector for the migration's model yet,
+ * batch after batch until done or out of time. Marks the migration ready
+ * once every entry is covered, and cuts over if it was started with autoCutover.
+ */
+async function advanceMigration(supabase: SupabaseClient, migration: EmbeddingMigration) {
+  const started = Date.now();
+  let embedded = 0;
+  let lastError: string | null = null;
+
+  while (Date.now() - started < MIGRATION_TIME_BUDGET_MS) {
+    const { data: batch, error: batchError } = await supabase.rpc('entries_missing_next_embedding', {
+      p_model: migration.to_model,
+      p_limit: MIGRATION_BATCH_SIZE,
+    });
+    if (batchError) {
+      lastError = batchError.message;
+      break;
+    }
+    const entries = (batch ?? []) as EmbeddableEntry[];
+    if (entries.length === 0) break;
+
+    try {
+      const { vectors } = await embedTexts(migration.to_model, entries.map(richEmbeddingText), 'document');
+      const { error: upsertError } = await supabase.from('entry_embeddings_next').upsert(
+        entries.map((entry, i) => ({
+          entry_id: entry.id,
+          user_id: entry.user_id,
+          model: migration.to_model,
+          embedding: JSON.stringify(vectors[i]),
+        })),
+        { onConflict: 'entry_id' }
+      );
+      if (upsertError) {
+        lastError = upsertError.message;
+        break;
+      }
+      embedded += entries.length;
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+      break;
+    }
+  }
+
+  const [{ count: done }, { count: total }] = await Promise.all([
+    supabase.from('entry_embeddings_next').select('entry_id', { count: 'exact', head: true }).eq('model', migration.to_model),
+    supabase.from('entries').select('id', { count: 'exact', head: true }),
+  ]);
+  const remaining = Math.max(0, (total ?? 0) - (done ?? 0));
+  const status = remaining === 0 && !lastError ? 'ready' : 'running';
+
+  await supabase
+    .from('embedding_migrations')
+    .update({
+      status,
+      total: total ?? 0,
+      processed: done ?? 0,
+      last_error: lastError,
+      ready_at: status === 'ready' ? (migration.ready_at ?? new Date().toISOString()) : null,
+    })
+    .eq('id', migration.id);
+
+  console.log(`backfill-embeddings: migration ${migration.to_model} embedded=${embedded}, remaining=${remaining}${lastError ? `, error=${lastError}` : ''}`);
+
+  let cutover: unknown = null;
+  if (status === 'ready' && migration.auto_cutover) {
+    const { data, error } = await supabase.rpc('cutover_embedding_migration', { p_migration_id: migration.id });
+    if (error) {
+      console.error('backfill-embeddings: auto cutover failed:', error.message);
+    } else {
+      cutover = data;
+      console.log(`backfill-embeddings: cut over to ${migration.to_model}`, JSON.stringify(data));
+    }
+  }
+
+  return { migrationId: migration.id, model: migration.to_model, embedded, remaining, status: cutover ? 'completed' : status, lastError, cutover };
+}
 
 serve(async (req) => {
   const corsResponse = handleCors(req);
@@ -38,18 +177,99 @@ serve(async (req) => {
 
     // Optional: filter to a specific user if passed in body
     let filterUserId: string | null = null;
+    let body: Record<string, unknown> = {};
     try {
-      const body = await req.clone().json();
+      body = (await req.clone().json()) ?? {};
       if (body?.userId && typeof body.userId === 'string') {
         filterUserId = body.userId;
       }
     } catch {}
 
-    // Query entries missing embeddings — include metadata for rich text
+    const respond = (data: unknown, status = 200) => new Response(JSON.stringify(data), {
+      status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+    // --- Embedding model migrations ---
+    const action = typeof body.action === 'string' ? body.action : null;
+
+    if (action === 'start') {
+      const model = parseEmbeddingModel(String(body.model ?? ''));
+      const problem = checkEmbeddingModel(String(body.model ?? ''));
+      if (!model || problem) return respond({ error: problem ?? 'model is required' }, 400);
+
+      const state = await getEmbeddingState(supabase, true);
+      if (model.id === state.activeModel) return respond({ error: `${model.id} is already the active model` }, 400);
+      if (state.migration) return respond({ error: `A migration to ${state.migration.toModel} is already ${state.migration.status}` }, 409);
+
+      const { data: migration, error: insertError } = await supabase
+        .from('embedding_migrations')
+        .insert({
+          from_model: state.activeModel,
+          to_model: model.id,
+          to_dim: model.dimensions,
+          auto_cutover: body.autoCutover === true,
+        })
+        .select('*')
+        .single();
+      if (insertError || !migration) {
+        return respond({ error: insertError?.message ?? 'Failed to start migration' }, 409);
+      }
+      console.log(`backfill-embeddings: started migration ${state.activeModel} → ${model.id}`);
+      return respond({ started: true, ...(await advanceMigration(supabase, migration as EmbeddingMigration)) });
+    }
+
+    if (action === 'migrate' || action === 'cutover' || action === 'cancel') {
+      const migration = await loadInFlightMigration(supabase);
+      if (!migration) {
+        return action === 'migrate'
+          ? respond({ message: 'No embedding migration in progress' })
+          : respond({ error: 'No embedding migration in progress' }, 404);
+      }
+
+      if (action === 'migrate') return respond(await advanceMigration(supabase, migration));
+
+      if (action === 'cancel') {
+        await supabase
+          .from('embedding_migrations')
+          .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+          .eq('id', migration.id);
+        await supabase.from('entry_embeddings_next').delete().eq('model', migration.to_model);
+        console.log(`backfill-embeddings: cancelled migration to ${migration.to_model}`);
+        return respond({ cancelled: true, model: migration.to_model });
+      }
+
+      // Cutover: catch up on entries added since the last run first
+      const progress = await advanceMigration(supabase, migration);
+      if (progress.status === 'completed') return respond(progress);
+      const { data: result, error: cutoverError } = await supabase.rpc('cutover_embedding_migration', {
+        p_migration_id: migration.id,
+        p_force: body.force === true,
+      });
+      if (cutoverError) return respond({ error: cutoverError.message, ...progress }, 409);
+      console.log(`backfill-embeddings: cut over to ${migration.to_model}`, JSON.stringify(result));
+      return respond({ ...progress, status: 'completed', cutover: result });
+    }
+
+    if (action === 'status') {
+      const state = await getEmbeddingState(supabase, true);
+      const { data: latest } = await supabase
+        .from('embedding_migrations')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return respond({ activeModel: state.activeModel, migration: latest ?? null });
+    }
+
+    // --- Backfill ---
+    const { activeModel } = await getEmbeddingState(supabase);
+
+    // Entries missing embeddings, or holding a vector from another model — include metadata for rich text
+    const needsEmbedding = `embedding.is.null,embedding_model.neq."${activeModel}"`;
     let query = supabase
       .from('entries')
       .select('id, content, title, content_type, tags, user_id')
-      .is('embedding', null)
+      .or(needsEmbedding)
       .eq('archived', false)
       .order('created_at', { ascending: false })
       .limit(BATCH_SIZE);
@@ -83,12 +303,7 @@ serve(async (req) => {
     let relationshipsCreated = 0;
 
     for (const entry of entries) {
-      // Construct rich embedding text (matches smart-save format)
-      const title = (entry.title as string) || '';
-      const contentType = (entry.content_type as string) || 'note';
-      const tags = (entry.tags as string[]) || [];
-      const content = (entry.content as string) || '';
-      const richText = `${title} | ${contentType} | ${tags.join(', ')} | ${content}`.slice(0, 8000);
+      const richText = richEmbeddingText(entry as EmbeddableEntry);
 
       if (richText.length < 10) {
         failed++;
@@ -119,7 +334,7 @@ serve(async (req) => {
 
         const { error: updateError } = await supabase
           .from('entries')
-          .update({ embedding: JSON.stringify(embData.embedding) })
+          .update({ embedding: JSON.stringify(embData.embedding), embedding_model: embData.model })
           .eq('id', entry.id);
 
         if (updateError) {
@@ -138,6 +353,7 @@ serve(async (req) => {
             match_threshold: 0.65,
             match_count: 6,
             filter_user_id: userId,
+            filter_model: embData.model,
           });
 
           if (related && related.length > 0) {
@@ -176,7 +392,7 @@ serve(async (req) => {
     let remainingQuery = supabase
       .from('entries')
       .select('id', { count: 'exact', head: true })
-      .is('embedding', null)
+      .or(needsEmbedding)
       .eq('archived', false);
 
     if (filterUserId) {
@@ -5,10 +5,10 @@
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
-import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { handleCors } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
-import { checkRateLimit, getRateLimitHeaders, RATE_LIMIT_CONFIGS } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { sanitizeString, validateContentLength, parseJsonBody, isValidUUID } from '../_shared/validation.ts';
 import { callClaude, parseToolUse, CLAUDE_MODELS, ClaudeError } from '../_shared/anthropic.ts';
 
@@ -45,12 +45,9 @@ Deno.serve(async (req) => {
     }
 
     const identifier = isServiceRoleCall ? 'service_role_internal' : (userId || 'anonymous');
-    const rateLimitResult = checkRateLimit(`importance:${identifier}`, RATE_LIMIT_CONFIGS.ai);
+    const rateLimitResult = await checkRateLimit('calculate-importance', identifier);
     if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-        { status: 429, headers: { ...getCorsHeaders(req), ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } }
-      );
+      return rateLimitResponse(req, rateLimitResult.exceeded);
     }
 
     const { data: body, error: parseError } = await parseJsonBody<ImportanceRequest>(req);
@@ -0,0 +1,94 @@
+/**
+ * calendar-feed — Secret-token ICS feed of a user's events and reminders
+ *
+ * GET /calendar-feed?token=<calendar_feeds.token> returns every unarchived
+ * event/reminder entry as text/calendar, for Google/Apple Calendar to
+ * subscribe to. The token is the only credential — calendar apps can't send
+ * a JWT — so it's created and rotated through calendar-sync.
+ *
+ * Recurring entries carry an RRULE, reminder_minutes becomes a VALARM.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { errorResponse, notFoundResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
+import { serializeCalendar, type IcsEntry } from '../_shared/ics.ts';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+const MAX_FEED_ENTRIES = 2000;
+
+const FEED_COLUMNS =
+  'id, title, content, content_type, event_date, event_time, is_recurring, recurrence_pattern, rrule, exdates, reminder_minutes, ics_uid, updated_at';
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const token = new URL(req.url).searchParams.get('token')?.trim();
+    if (!token) {
+      return errorResponse(req, 'token is required', 400);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: feed } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+    // Same response for a rotated token as for one that never existed
+    if (!feed) {
+      return notFoundResponse(req, 'Feed not found');
+    }
+    const userId = feed.user_id as string;
+
+    const rateLimit = await checkRateLimit('calendar-feed', userId);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(req, rateLimit.exceeded);
+    }
+
+    const [{ data: entries, error }, { data: settings }] = await Promise.all([
+      supabase
+        .from('entries')
+        .select(FEED_COLUMNS)
+        .eq('user_id', userId)
+        .eq('archived', false)
+        .not('event_date', 'is', null)
+        .in('content_type', ['event', 'reminder'])
+        .order('event_date', { ascending: true })
+        .limit(MAX_FEED_ENTRIES),
+      supabase
+        .from('user_settings')
+        .select('settings')
+        .eq('user_id', userId)
+        .maybeSingle(),
+    ]);
+    if (error) throw error;
+
+    const timezone = ((settings?.settings as Record<string, unknown> | null)?.timezone as string | undefined) || DEFAULT_TIMEZONE;
+    const body = serializeCalendar((entries ?? []) as IcsEntry[], { name: 'JAC', timezone });
+
+    await supabase
+      .from('calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    console.log(`[calendar-feed] ${userId}: ${entries?.length ?? 0} entries`);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        ...getCorsHeaders(req),
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="jac.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[calendar-feed] Error:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
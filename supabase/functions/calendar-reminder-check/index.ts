@@ -3,6 +3,14 @@
  *
  * Called by pg_cron (2x/day + every 15min for timed events).
  * Finds entries with pending reminders that are now due and sends Slack notifications.
+ * Recurring entries (entries.rrule) remind once per occurrence: the next
+ * occurrence is expanded from the rule and recorded in reminder_sent_for.
+ *
+ * Each reminder is recorded in reminder_deliveries and carries Slack buttons
+ * (done / snooze / reschedule, handled by reminder-action). Every run also
+ * re-delivers snoozed reminders whose snooze ended, escalates unacknowledged
+ * high-importance reminders after the user's delay, and marks reminders
+ * missed once their event passed without any action.
  *
  * All date/time calculations use the user's timezone (from user_settings),
  * defaulting to America/New_York if not set.
@@ -11,51 +19,30 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
+import { describeRRule, entryOccurrences, parseRRule } from '../_shared/rrule.ts';
+import {
+  dateInTimezone,
+  escalationSettings,
+  eventEpochMs,
+  formatReminderTime,
+  HIGH_IMPORTANCE,
+  MISSED_AFTER_MS,
+  postSlackReminder,
+  reminderBlocks,
+} from '../_shared/reminders.ts';
 
-/** Get today's date string (YYYY-MM-DD) in a specific timezone */
-function getTodayInTimezone(tz: string): string {
-  return new Intl.DateTimeFormat('en-CA', {
-    timeZone: tz,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-  }).format(new Date());
-}
-
-/** Get current time-of-day in a timezone as total minutes since midnight */
-function getCurrentMinutesInTimezone(tz: string): number {
-  const parts = new Intl.DateTimeFormat('en-US', {
-    timeZone: tz,
-    hour: 'numeric',
-    minute: 'numeric',
-    hour12: false,
-  }).formatToParts(new Date());
-  const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
-  const minute = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
-  return hour * 60 + minute;
-}
-
-/**
- * Build a Date object for an event_date + optional event_time in the user's timezone.
- * Returns epoch ms so we can compare with "now" correctly.
- */
-function getEventEpochMs(eventDate: string, eventTime: string | null, tz: string): number {
-  const [year, month, day] = eventDate.split('-').map(Number);
-  let hours = 9, minutes = 0; // Default: 9 AM for date-only events
-  if (eventTime) {
-    const parts = eventTime.split(':').map(Number);
-    hours = parts[0];
-    minutes = parts[1];
-  }
-  // Create a date string that we interpret in the user's timezone
-  // Use Intl to figure out the UTC offset for this specific date+time in the user's tz
-  const naive = new Date(year, month - 1, day, hours, minutes, 0, 0);
-  const utcStr = naive.toLocaleString('en-US', { timeZone: 'UTC' });
-  const tzStr = naive.toLocaleString('en-US', { timeZone: tz });
-  const utcDate = new Date(utcStr);
-  const tzDate = new Date(tzStr);
-  const offsetMs = utcDate.getTime() - tzDate.getTime();
-  return naive.getTime() + offsetMs;
+interface ReminderEntry {
+  id: string;
+  user_id: string;
+  title: string | null;
+  content: string;
+  event_date: string;
+  event_time: string | null;
+  reminder_minutes: number;
+  importance_score: number | null;
+  rrule?: string | null;
+  exdates?: string[] | null;
+  reminder_sent_for?: string | null;
 }
 
 serve(async (req) => {
@@ -102,7 +89,7 @@ serve(async (req) => {
     }
 
     const now = Date.now();
-    const todayStr = getTodayInTimezone(userTz);
+    const todayStr = dateInTimezone(now, userTz);
 
     // Query entries with pending reminders
     // Use yesterday as floor to catch events that span the UTC boundary
@@ -114,145 +101,306 @@ serve(async (req) => {
       day: '2-digit',
     }).format(yesterdayDate);
 
+    // One-off entries: reminder_sent marks the single reminder as done
     let query = supabase
       .from('entries')
-      .select('id, user_id, title, content, event_date, event_time, reminder_minutes')
+      .select('id, user_id, title, content, event_date, event_time, reminder_minutes, importance_score')
       .eq('reminder_sent', false)
+      .is('rrule', null)
       .not('event_date', 'is', null)
       .not('reminder_minutes', 'is', null)
       .gte('event_date', yesterdayStr) // Include yesterday to handle timezone boundary
       .limit(50);
 
+    // Recurring entries: event_date is the series start, so every series with a
+    // reminder is checked for its next occurrence
+    let recurringQuery = supabase
+      .from('entries')
+      .select('id, user_id, title, content, event_date, event_time, reminder_minutes, importance_score, rrule, exdates, reminder_sent_for')
+      .not('rrule', 'is', null)
+      .not('event_date', 'is', null)
+      .not('reminder_minutes', 'is', null)
+      .eq('archived', false)
+      .limit(200);
+
     // For the frequent (15-min) check, only look at entries with event_time set
     if (timedOnly) {
       query = query.not('event_time', 'is', null);
+      recurringQuery = recurringQuery.not('event_time', 'is', null);
     }
 
-    const { data: entries, error } = await query;
+    const [{ data: entries, error }, { data: recurring, error: recurringError }] = await Promise.all([query, recurringQuery]);
 
-    if (error) {
-      console.error('[reminder-check] Query error:', error);
-      return new Response(JSON.stringify({ error: error.message }), {
+    if (error || recurringError) {
+      console.error('[reminder-check] Query error:', error ?? recurringError);
+      return new Response(JSON.stringify({ error: (error ?? recurringError)!.message }), {
         status: 500,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    if (!entries || entries.length === 0) {
-      return new Response(JSON.stringify({ sent: 0, message: 'No pending reminders', timezone: userTz }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    // Each due reminder: the entry plus the occurrence it's for
+    const due: Array<{ entry: ReminderEntry; eventDate: string; eventMs: number; recurring: boolean }> = [];
 
-    let sentCount = 0;
+    /** Whether a reminder for an event at eventMs should fire on this run */
+    const isDue = (eventMs: number, reminderMinutes: number): boolean => {
+      const reminderMs = eventMs - reminderMinutes * 60 * 1000;
+      // Skip events that have already passed; the reminder time must have arrived
+      if (now >= eventMs || now < reminderMs) return false;
+      // For timed-only checks, only fire if reminder became due within the last 15 min
+      return !timedOnly || reminderMs >= now - 15 * 60 * 1000;
+    };
 
-    for (const entry of entries) {
+    for (const entry of (entries ?? []) as ReminderEntry[]) {
       // Calculate event time in user's timezone
-      const eventMs = getEventEpochMs(entry.event_date, entry.event_time, userTz);
-      const reminderMs = eventMs - entry.reminder_minutes * 60 * 1000;
-
-      // Skip events that have already passed
-      if (now >= eventMs) continue;
-
-      // Is the reminder due? (reminder time is in the past, but event hasn't passed)
-      if (now >= reminderMs) {
-        // For timed-only checks, only fire if reminder became due within the last 15 min
-        if (timedOnly) {
-          const fifteenMinAgo = now - 15 * 60 * 1000;
-          if (reminderMs < fifteenMinAgo) continue;
-        }
+      const eventMs = eventEpochMs(entry.event_date, entry.event_time, userTz);
+      if (isDue(eventMs, entry.reminder_minutes)) {
+        due.push({ entry, eventDate: entry.event_date, eventMs, recurring: false });
+      }
+    }
 
-        // Find user's Slack channel
-        let slackChannel: string | undefined;
-        if (botToken) {
-          try {
-            const { data: settings } = await supabase
-              .from('user_settings')
-              .select('settings')
-              .eq('user_id', entry.user_id)
-              .single();
-            slackChannel = (settings?.settings as Record<string, unknown>)?.slack_channel_id as string | undefined;
-          } catch {}
-
-          if (!slackChannel) {
-            const { data: recentTask } = await supabase
-              .from('agent_tasks')
-              .select('input')
-              .eq('user_id', entry.user_id)
-              .not('input->slack_channel', 'is', null)
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .single();
-            slackChannel = (recentTask?.input as Record<string, unknown>)?.slack_channel as string | undefined;
-          }
-        }
+    for (const entry of (recurring ?? []) as ReminderEntry[]) {
+      // Look far enough ahead to reach an occurrence whose reminder is due now
+      const aheadDays = Math.ceil(entry.reminder_minutes / 1440) + 1;
+      const horizon = new Date(Date.parse(`${yesterdayStr}T00:00:00Z`) + (aheadDays + 1) * 86400000).toISOString().slice(0, 10);
+      const upcoming = entryOccurrences(entry, yesterdayStr, horizon)
+        .map((date) => ({ date, eventMs: eventEpochMs(date, entry.event_time, userTz) }))
+        .find((o) => o.eventMs > now);
+      if (!upcoming) continue;
+      // Already reminded about this occurrence
+      if (entry.reminder_sent_for && upcoming.date <= entry.reminder_sent_for) continue;
+      if (isDue(upcoming.eventMs, entry.reminder_minutes)) {
+        due.push({ entry, eventDate: upcoming.date, eventMs: upcoming.eventMs, recurring: true });
+      }
+    }
+
+    // Per-user Slack channel and settings, looked up once per run
+    const settingsCache = new Map<string, Record<string, unknown>>();
+    const channelCache = new Map<string, string | undefined>();
 
-        // Calculate time until event
-        const msUntil = eventMs - now;
-        const hoursUntil = Math.floor(msUntil / (1000 * 60 * 60));
-        const minsUntil = Math.floor((msUntil % (1000 * 60 * 60)) / (1000 * 60));
-        let timeUntil = '';
-        if (hoursUntil >= 24) {
-          const days = Math.floor(hoursUntil / 24);
-          timeUntil = `${days} day${days > 1 ? 's' : ''}`;
-        } else if (hoursUntil > 0) {
-          timeUntil = `${hoursUntil}h ${minsUntil}m`;
-        } else {
-          timeUntil = `${minsUntil} minute${minsUntil !== 1 ? 's' : ''}`;
+    const userSettings = async (userId: string): Promise<Record<string, unknown>> => {
+      if (!settingsCache.has(userId)) {
+        let settings: Record<string, unknown> = {};
+        try {
+          const { data } = await supabase
+            .from('user_settings')
+            .select('settings')
+            .eq('user_id', userId)
+            .single();
+          settings = (data?.settings as Record<string, unknown>) ?? {};
+        } catch {
+          // No settings row
         }
+        settingsCache.set(userId, settings);
+      }
+      return settingsCache.get(userId)!;
+    };
 
-        const title = entry.title || 'Untitled event';
-        const dateDisplay = entry.event_time
-          ? `${entry.event_date} at ${entry.event_time}`
-          : entry.event_date;
-        const message = `:bell: *Reminder:* ${title}\n:calendar: ${dateDisplay} (in ${timeUntil})`;
-
-        // Send Slack notification
-        let slackSuccess = false;
-        if (slackChannel && botToken) {
-          try {
-            const res = await fetch('https://slack.com/api/chat.postMessage', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${botToken}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                channel: slackChannel,
-                text: message,
-              }),
-            });
-
-            if (res.ok) {
-              const resData = await res.json();
-              if (resData.ok) {
-                slackSuccess = true;
-              } else {
-                console.warn(`[reminder-check] Slack API error for entry ${entry.id}:`, resData.error);
-              }
-            }
-          } catch (err) {
-            console.warn(`[reminder-check] Slack send failed for entry ${entry.id}:`, err);
-          }
-        } else {
-          console.warn(`[reminder-check] No Slack channel or bot token for entry ${entry.id}`);
+    const slackChannelFor = async (userId: string): Promise<string | undefined> => {
+      if (!botToken) return undefined;
+      if (!channelCache.has(userId)) {
+        let slackChannel = (await userSettings(userId)).slack_channel_id as string | undefined;
+        if (!slackChannel) {
+          const { data: recentTask } = await supabase
+            .from('agent_tasks')
+            .select('input')
+            .eq('user_id', userId)
+            .not('input->slack_channel', 'is', null)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .single();
+          slackChannel = (recentTask?.input as Record<string, unknown>)?.slack_channel as string | undefined;
         }
+        channelCache.set(userId, slackChannel);
+      }
+      return channelCache.get(userId);
+    };
+
+    /** Post a reminder with its buttons; where it went, or null if it wasn't delivered */
+    const deliver = async (
+      userId: string,
+      deliveryId: string,
+      message: string,
+      options: { canReschedule: boolean; date: string; channel?: string | null }
+    ): Promise<{ channel: string; ts: string } | null> => {
+      const channel = options.channel || await slackChannelFor(userId);
+      if (!channel || !botToken) {
+        console.warn(`[reminder-check] No Slack channel or bot token for delivery ${deliveryId}`);
+        return null;
+      }
+      const ts = await postSlackReminder(botToken, channel, message, reminderBlocks(deliveryId, message, options));
+      return ts ? { channel, ts } : null;
+    };
+
+    let sentCount = 0;
 
-        // Mark as sent regardless of Slack success (avoid re-sending on next cycle)
+    for (const { entry, eventDate, eventMs, recurring: isRecurring } of due) {
+      // Calculate time until event
+      const msUntil = eventMs - now;
+      const hoursUntil = Math.floor(msUntil / (1000 * 60 * 60));
+      const minsUntil = Math.floor((msUntil % (1000 * 60 * 60)) / (1000 * 60));
+      let timeUntil = '';
+      if (hoursUntil >= 24) {
+        const days = Math.floor(hoursUntil / 24);
+        timeUntil = `${days} day${days > 1 ? 's' : ''}`;
+      } else if (hoursUntil > 0) {
+        timeUntil = `${hoursUntil}h ${minsUntil}m`;
+      } else {
+        timeUntil = `${minsUntil} minute${minsUntil !== 1 ? 's' : ''}`;
+      }
+
+      const title = entry.title || 'Untitled event';
+      const dateDisplay = entry.event_time
+        ? `${eventDate} at ${entry.event_time}`
+        : eventDate;
+      let message = `:bell: *Reminder:* ${title}\n:calendar: ${dateDisplay} (in ${timeUntil})`;
+      const rule = isRecurring ? parseRRule(entry.rrule) : null;
+      if (rule) message += `\n:repeat: ${describeRRule(rule)}`;
+
+      // Record the delivery first — its id goes on the buttons
+      const { data: delivery, error: deliveryError } = await supabase
+        .from('reminder_deliveries')
+        .upsert({
+          user_id: entry.user_id,
+          entry_id: entry.id,
+          occurrence_date: eventDate,
+          event_at: new Date(eventMs).toISOString(),
+          importance: entry.importance_score,
+          status: 'sent',
+          delivery_count: 1,
+          sent_at: new Date(now).toISOString(),
+          snoozed_until: null,
+          escalated_at: null,
+          acknowledged_at: null,
+          ack_via: null,
+          updated_at: new Date(now).toISOString(),
+        }, { onConflict: 'entry_id,occurrence_date' })
+        .select('id')
+        .single();
+      if (deliveryError) console.warn(`[reminder-check] Delivery record failed for entry ${entry.id}:`, deliveryError.message);
+
+      // Send Slack notification (plain text if the delivery couldn't be recorded)
+      let sent: { channel: string; ts: string } | null = null;
+      if (delivery) {
+        sent = await deliver(entry.user_id, delivery.id as string, message, { canReschedule: !isRecurring, date: eventDate });
         await supabase
-          .from('entries')
-          .update({ reminder_sent: true })
-          .eq('id', entry.id);
+          .from('reminder_deliveries')
+          .update(sent ? { slack_channel: sent.channel, slack_ts: sent.ts } : { status: 'failed' })
+          .eq('id', delivery.id);
+      } else {
+        const channel = await slackChannelFor(entry.user_id);
+        if (channel && botToken) {
+          sent = await postSlackReminder(botToken, channel, message, [{ type: 'section', text: { type: 'mrkdwn', text: message } }])
+            .then((ts) => (ts ? { channel, ts } : null));
+        }
+      }
+
+      // Mark as sent regardless of Slack success (avoid re-sending on next cycle).
+      // A recurring entry only marks this occurrence — the next one reminds again.
+      await supabase
+        .from('entries')
+        .update(isRecurring ? { reminder_sent_for: eventDate } : { reminder_sent: true })
+        .eq('id', entry.id);
+
+      sentCount++;
+      console.log(`[reminder-check] ${sent ? 'Sent' : 'Marked (no Slack)'} reminder for "${title}" (entry ${entry.id}, ${eventDate}, tz: ${userTz})`);
+    }
+
+    // --- Follow-ups on earlier deliveries ---
+    const nowIso = new Date(now).toISOString();
+
+    // Snoozes that ended: deliver again
+    const { data: snoozed } = await supabase
+      .from('reminder_deliveries')
+      .select('id, user_id, occurrence_date, event_at, delivery_count, entries(title, event_time, rrule, archived)')
+      .eq('status', 'snoozed')
+      .lte('snoozed_until', nowIso)
+      .limit(50);
 
-        sentCount++;
-        console.log(`[reminder-check] ${slackSuccess ? 'Sent' : 'Marked (no Slack)'} reminder for "${title}" (entry ${entry.id}, tz: ${userTz})`);
+    let resentCount = 0;
+    for (const row of snoozed ?? []) {
+      const entry = row.entries as unknown as { title: string | null; event_time: string | null; rrule: string | null; archived: boolean } | null;
+      // Done some other way (archived in the app) while snoozed
+      if (!entry || entry.archived) {
+        await supabase
+          .from('reminder_deliveries')
+          .update({ status: 'acknowledged', acknowledged_at: nowIso, updated_at: nowIso })
+          .eq('id', row.id);
+        continue;
       }
+      const eventAt = Date.parse(row.event_at as string);
+      const when = eventAt > now ? `(${formatReminderTime(eventAt, userTz)})` : `(was ${formatReminderTime(eventAt, userTz)})`;
+      const message = `:alarm_clock: *Snoozed reminder:* ${entry.title || 'Untitled event'}\n:calendar: ${row.occurrence_date}${entry.event_time ? ` at ${entry.event_time}` : ''} ${when}`;
+      const sent = await deliver(row.user_id as string, row.id as string, message, {
+        canReschedule: !entry.rrule,
+        date: row.occurrence_date as string,
+      });
+      await supabase
+        .from('reminder_deliveries')
+        .update({
+          status: sent ? 'sent' : 'failed',
+          sent_at: nowIso,
+          snoozed_until: null,
+          escalated_at: null,
+          delivery_count: (row.delivery_count as number) + 1,
+          ...(sent ? { slack_channel: sent.channel, slack_ts: sent.ts } : {}),
+          updated_at: nowIso,
+        })
+        .eq('id', row.id);
+      resentCount++;
     }
 
+    // High-importance reminders nobody acted on: escalate once, after the user's delay
+    const { data: unacknowledged } = await supabase
+      .from('reminder_deliveries')
+      .select('id, user_id, occurrence_date, event_at, sent_at, slack_channel, delivery_count, entries(title, event_time, rrule)')
+      .eq('status', 'sent')
+      .gte('importance', HIGH_IMPORTANCE)
+      .limit(50);
+
+    let escalatedCount = 0;
+    for (const row of unacknowledged ?? []) {
+      const { delayMinutes, channel } = escalationSettings(await userSettings(row.user_id as string));
+      if (delayMinutes === 0 || Date.parse(row.sent_at as string) > now - delayMinutes * 60 * 1000) continue;
+      const entry = row.entries as unknown as { title: string | null; event_time: string | null; rrule: string | null } | null;
+      if (!entry) continue;
+
+      const eventAt = Date.parse(row.event_at as string);
+      const message = `:rotating_light: *Still waiting on:* ${entry.title || 'Untitled event'}\n`
+        + `:calendar: ${row.occurrence_date}${entry.event_time ? ` at ${entry.event_time}` : ''} `
+        + `(${eventAt > now ? '' : 'was '}${formatReminderTime(eventAt, userTz)}) — no response to the reminder ${delayMinutes} min ago`;
+      const sent = await deliver(row.user_id as string, row.id as string, message, {
+        canReschedule: !entry.rrule,
+        date: row.occurrence_date as string,
+        channel,
+      });
+      await supabase
+        .from('reminder_deliveries')
+        .update({
+          status: 'escalated',
+          escalated_at: nowIso,
+          delivery_count: (row.delivery_count as number) + 1,
+          ...(sent ? { slack_channel: sent.channel, slack_ts: sent.ts } : {}),
+          updated_at: nowIso,
+        })
+        .eq('id', row.id);
+      escalatedCount++;
+    }
+
+    // Events that passed with no response: missed (listed in the morning brief)
+    const { data: missed } = await supabase
+      .from('reminder_deliveries')
+      .update({ status: 'missed', updated_at: nowIso })
+      .in('status', ['sent', 'failed', 'escalated'])
+      .lt('event_at', new Date(now - MISSED_AFTER_MS).toISOString())
+      .select('id');
+
     return new Response(JSON.stringify({
       sent: sentCount,
-      checked: entries.length,
+      resent: resentCount,
+      escalated: escalatedCount,
+      missed: missed?.length ?? 0,
+      checked: (entries?.length ?? 0) + (recurring?.length ?? 0),
       timezone: userTz,
     }), {
       status: 200,
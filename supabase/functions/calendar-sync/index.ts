@@ -0,0 +1,541 @@
+/**
+ * calendar-sync — ICS feed token, file import and URL subscriptions
+ *
+ * Called by the Calendar page (user JWT):
+ *   { action: 'feed' }         → the user's feed token, created on first call
+ *   { action: 'rotate_feed' }  → a new token; the old feed URL stops working
+ *   { action: 'disable_feed' } → delete the token
+ *   { action: 'import', ics, name? } → VEVENTs of an .ics file become event entries
+ *   { action: 'subscribe', url, name? } → save an ICS URL (webcal:// ok) and sync it
+ *   { action: 'sync', subscriptionId? } → re-sync one subscription, or all of them
+ *   { action: 'unsubscribe', subscriptionId, keepEvents? }
+ *
+ * And by pg_cron hourly (service role): { action: 'sync_all' }.
+ *
+ * Events are matched to entries by UID (entries.ics_uid), so re-importing a
+ * file or re-syncing a feed updates events in place. A subscription owns the
+ * entries it created: events that disappear from its feed (or are cancelled)
+ * are deleted on the next sync. Past one-off events are skipped.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserId, isServiceRoleRequest } from '../_shared/auth.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
+import { isValidUUID, parseJsonBody, sanitizeString } from '../_shared/validation.ts';
+import { parseCalendar, type IcsEvent } from '../_shared/ics.ts';
+import { parseRRule, patternFromRRule, serializeRRule } from '../_shared/rrule.ts';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+const MAX_ICS_BYTES = 5 * 1024 * 1024;
+const MAX_EVENTS = 1000;
+const MAX_SUBSCRIPTIONS = 20;
+const FETCH_TIMEOUT_MS = 15000;
+/** Redirect hops followed when fetching a feed, each one re-checked */
+const MAX_REDIRECTS = 5;
+/** One-off events that ended more than this many days ago aren't imported */
+const PAST_EVENT_DAYS = 30;
+const UID_BATCH = 200;
+
+interface SyncRequest {
+  action?: 'feed' | 'rotate_feed' | 'disable_feed' | 'import' | 'subscribe' | 'sync' | 'unsubscribe' | 'sync_all';
+  ics?: string;
+  url?: string;
+  name?: string;
+  subscriptionId?: string;
+  keepEvents?: boolean;
+}
+
+interface SyncCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  skipped: number;
+}
+
+interface Subscription {
+  id: string;
+  user_id: string;
+  url: string;
+  name: string;
+}
+
+const EXISTING_COLUMNS =
+  'id, ics_uid, title, content, event_date, event_time, is_recurring, recurrence_pattern, rrule, exdates, reminder_minutes, calendar_subscription_id';
+
+// --- Feed token ---
+
+function newToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function getFeed(supabase: SupabaseClient, userId: string, rotate: boolean) {
+  if (!rotate) {
+    const { data: existing } = await supabase
+      .from('calendar_feeds')
+      .select('token, created_at, last_accessed_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (existing) return existing;
+  }
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .upsert({ user_id: userId, token: newToken(), created_at: new Date().toISOString(), last_accessed_at: null }, { onConflict: 'user_id' })
+    .select('token, created_at, last_accessed_at')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// --- Fetching ---
+
+const IPV4_RE = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+/** Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges */
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (IPV4_RE.test(ip)) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && (b === 168 || b === 0)) ||
+      (a === 198 && (b === 18 || b === 19));
+  }
+  if (!ip.includes(':')) return false;
+  // IPv4-mapped (::ffff:10.0.0.1) is judged by its IPv4 address
+  const mapped = ip.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return ip === '::' || ip === '::1' || ip.startsWith('::ffff:') ||
+    /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+/** https:// URL for a subscription, or an error for anything that isn't a public ICS address */
+function normalizeFeedUrl(raw: string): { url?: string; error?: string } {
+  let parsed: URL;
+  try {
+    parsed = new URL(raw.trim().replace(/^webcals?:\/\//i, 'https://'));
+  } catch {
+    return { error: 'Not a valid URL' };
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return { error: 'URL must be https:// or webcal://' };
+  }
+  const host = parsed.hostname.toLowerCase();
+  // Don't let a subscription reach into the function's own network
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    isPrivateAddress(host)
+  ) {
+    return { error: 'URL must be a public address' };
+  }
+  return { url: parsed.toString() };
+}
+
+/**
+ * Throw unless every address the URL's host resolves to is public — a
+ * public-looking name can still point at 169.254.169.254 or localhost.
+ */
+async function assertPublicHost(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (IPV4_RE.test(host) || host.includes(':')) {
+    if (isPrivateAddress(host)) throw new Error('URL must be a public address');
+    return;
+  }
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  const addresses = lookups.flatMap(l => (l.status === 'fulfilled' ? l.value : []));
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  if (addresses.some(isPrivateAddress)) throw new Error('URL must be a public address');
+}
+
+/** Fetch a feed, following redirects by hand so each hop gets the same checks as the first */
+async function fetchIcs(url: string): Promise<string> {
+  let current = url;
+  let res: Response | null = null;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicHost(current);
+    res = await fetch(current, {
+      headers: { Accept: 'text/calendar, */*;q=0.5' },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+    if (!location) break;
+    await res.body?.cancel();
+    const next = normalizeFeedUrl(new URL(location, current).toString());
+    if (!next.url) throw new Error(`Feed redirected to a disallowed address: ${next.error}`);
+    current = next.url;
+    res = null;
+  }
+  if (!res) throw new Error(`Feed redirected more than ${MAX_REDIRECTS} times`);
+  if (!res.ok) throw new Error(`Feed returned HTTP ${res.status}`);
+  const length = Number(res.headers.get('content-length') ?? 0);
+  if (length > MAX_ICS_BYTES) throw new Error('Feed is too large');
+  const text = await res.text();
+  if (text.length > MAX_ICS_BYTES) throw new Error('Feed is too large');
+  if (!/BEGIN:VCALENDAR/i.test(text)) throw new Error("URL didn't return an iCalendar feed");
+  return text;
+}
+
+// --- Applying events ---
+
+async function getTimezone(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('user_settings')
+    .select('settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return ((data?.settings as Record<string, unknown> | null)?.timezone as string | undefined) || DEFAULT_TIMEZONE;
+}
+
+function entryFields(event: IcsEvent) {
+  // Rules the expander can't follow (BYWEEKNO, HOURLY, ...) keep only their FREQ
+  const rule = parseRRule(event.rrule);
+  return {
+    title: event.summary.slice(0, 200),
+    content: event.description || event.summary,
+    event_date: event.date,
+    event_time: event.time,
+    is_recurring: !!event.rrule,
+    recurrence_pattern: rule ? patternFromRRule(rule) : event.recurrencePattern,
+    rrule: rule ? serializeRRule(rule) : null,
+    exdates: event.exdates,
+    reminder_minutes: event.reminderMinutes,
+  };
+}
+
+/** Create, update or (for a subscription) remove entries so they match `events` */
+async function applyEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  events: IcsEvent[],
+  source: { name: string; subscriptionId: string | null }
+): Promise<SyncCounts> {
+  const counts: SyncCounts = { created: 0, updated: 0, unchanged: 0, removed: 0, skipped: 0 };
+  const cutoff = new Date(Date.now() - PAST_EVENT_DAYS * 86400000).toISOString().slice(0, 10);
+
+  // Edited instances of a recurring event share its UID — the series entry stands for them
+  const byUid = new Map<string, IcsEvent>();
+  const cancelled = new Set<string>();
+  for (const event of events) {
+    if (event.isOverride) continue;
+    if (event.cancelled) {
+      cancelled.add(event.uid);
+    } else if (!event.rrule && event.date < cutoff) {
+      counts.skipped++;
+    } else if (byUid.size < MAX_EVENTS) {
+      byUid.set(event.uid, event);
+    } else {
+      counts.skipped++;
+    }
+  }
+
+  const uids = [...byUid.keys(), ...cancelled];
+  const existing = new Map<string, Record<string, unknown>>();
+  for (let i = 0; i < uids.length; i += UID_BATCH) {
+    const { data, error } = await supabase
+      .from('entries')
+      .select(EXISTING_COLUMNS)
+      .eq('user_id', userId)
+      .in('ics_uid', uids.slice(i, i + UID_BATCH));
+    if (error) throw error;
+    for (const row of data ?? []) existing.set(row.ics_uid as string, row);
+  }
+
+  const inserts: Record<string, unknown>[] = [];
+  for (const [uid, event] of byUid) {
+    const fields = entryFields(event);
+    const extracted = {
+      ics: { uid, rrule: event.rrule, location: event.location, url: event.url, calendar: source.name },
+    };
+    const row = existing.get(uid);
+
+    if (!row) {
+      inserts.push({
+        user_id: userId,
+        ...fields,
+        content_type: 'event',
+        ics_uid: uid,
+        calendar_subscription_id: source.subscriptionId,
+        extracted_data: extracted,
+        tags: ['calendar'],
+        source: 'ics',
+        embedding: null,
+      });
+      continue;
+    }
+
+    const changed = (Object.keys(fields) as Array<keyof typeof fields>).some((k) =>
+      k === 'exdates'
+        ? JSON.stringify(row.exdates ?? []) !== JSON.stringify(fields.exdates)
+        : (row[k] ?? null) !== (fields[k] ?? null)
+    );
+    if (!changed) {
+      counts.unchanged++;
+      continue;
+    }
+    const moved = row.event_date !== fields.event_date || (row.event_time ?? null) !== fields.event_time;
+    const update: Record<string, unknown> = { ...fields, extracted_data: extracted };
+    // A rescheduled event should remind again
+    if (moved) {
+      update.reminder_sent = false;
+      update.reminder_sent_for = null;
+    }
+    // A file import doesn't take an event away from the subscription that owns it
+    if (source.subscriptionId) update.calendar_subscription_id = source.subscriptionId;
+
+    const { error } = await supabase.from('entries').update(update).eq('id', row.id as string);
+    if (error) throw error;
+    counts.updated++;
+  }
+
+  for (let i = 0; i < inserts.length; i += UID_BATCH) {
+    const { error } = await supabase.from('entries').insert(inserts.slice(i, i + UID_BATCH));
+    if (error) throw error;
+  }
+  counts.created = inserts.length;
+
+  // Cancelled events go whichever way they were imported
+  const cancelledIds = [...cancelled].map((uid) => existing.get(uid)?.id as string | undefined).filter(Boolean) as string[];
+  if (cancelledIds.length > 0) {
+    const { error } = await supabase.from('entries').delete().in('id', cancelledIds);
+    if (error) throw error;
+    counts.removed += cancelledIds.length;
+  }
+
+  if (source.subscriptionId) {
+    const { data: owned, error } = await supabase
+      .from('entries')
+      .select('id, ics_uid')
+      .eq('calendar_subscription_id', source.subscriptionId);
+    if (error) throw error;
+    const gone = (owned ?? []).filter((r) => !byUid.has(r.ics_uid as string)).map((r) => r.id as string);
+    for (let i = 0; i < gone.length; i += UID_BATCH) {
+      const { error: deleteError } = await supabase.from('entries').delete().in('id', gone.slice(i, i + UID_BATCH));
+      if (deleteError) throw deleteError;
+    }
+    counts.removed += gone.length;
+  }
+
+  return counts;
+}
+
+async function syncSubscription(supabase: SupabaseClient, subscription: Subscription): Promise<SyncCounts> {
+  try {
+    const [text, timezone] = await Promise.all([
+      fetchIcs(subscription.url),
+      getTimezone(supabase, subscription.user_id),
+    ]);
+    const counts = await applyEvents(supabase, subscription.user_id, parseCalendar(text, timezone), {
+      name: subscription.name,
+      subscriptionId: subscription.id,
+    });
+    const { count } = await supabase
+      .from('entries')
+      .select('id', { count: 'exact', head: true })
+      .eq('calendar_subscription_id', subscription.id);
+    await supabase
+      .from('calendar_subscriptions')
+      .update({ last_synced_at: new Date().toISOString(), last_error: null, event_count: count ?? 0 })
+      .eq('id', subscription.id);
+    return counts;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Sync failed';
+    await supabase
+      .from('calendar_subscriptions')
+      .update({ last_synced_at: new Date().toISOString(), last_error: message.slice(0, 500) })
+      .eq('id', subscription.id);
+    throw err;
+  }
+}
+
+function sumCounts(all: SyncCounts[]): SyncCounts {
+  return all.reduce(
+    (acc, c) => ({
+      created: acc.created + c.created,
+      updated: acc.updated + c.updated,
+      unchanged: acc.unchanged + c.unchanged,
+      removed: acc.removed + c.removed,
+      skipped: acc.skipped + c.skipped,
+    }),
+    { created: 0, updated: 0, unchanged: 0, removed: 0, skipped: 0 }
+  );
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: body, error: parseError } = await parseJsonBody<SyncRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    // Hourly cron — every subscription, oldest sync first; one failure doesn't stop the rest
+    if (body.action === 'sync_all') {
+      if (!isServiceRoleRequest(req)) {
+        return errorResponse(req, 'Unauthorized', 401);
+      }
+      const { data: subscriptions } = await supabase
+        .from('calendar_subscriptions')
+        .select('id, user_id, url, name')
+        .order('last_synced_at', { ascending: true, nullsFirst: true })
+        .limit(200);
+      let synced = 0;
+      let failed = 0;
+      for (const subscription of (subscriptions ?? []) as Subscription[]) {
+        try {
+          await syncSubscription(supabase, subscription);
+          synced++;
+        } catch (err) {
+          failed++;
+          console.warn(`[calendar-sync] Subscription ${subscription.id} failed:`, err);
+        }
+      }
+      console.log(`[calendar-sync] sync_all: ${synced} synced, ${failed} failed`);
+      return successResponse(req, { synced, failed });
+    }
+
+    const { userId, error: authError } = await extractUserId(req);
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    const rateLimit = await checkRateLimit('calendar-sync', userId);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(req, rateLimit.exceeded);
+    }
+
+    switch (body.action) {
+      case 'feed':
+      case 'rotate_feed': {
+        const feed = await getFeed(supabase, userId, body.action === 'rotate_feed');
+        return successResponse(req, { feed }, 200, rateLimit);
+      }
+
+      case 'disable_feed': {
+        const { error } = await supabase.from('calendar_feeds').delete().eq('user_id', userId);
+        if (error) throw error;
+        return successResponse(req, { success: true }, 200, rateLimit);
+      }
+
+      case 'import': {
+        const ics = typeof body.ics === 'string' ? body.ics : '';
+        if (!/BEGIN:VCALENDAR/i.test(ics)) {
+          return errorResponse(req, 'ics must be an iCalendar file', 400);
+        }
+        if (ics.length > MAX_ICS_BYTES) {
+          return errorResponse(req, 'File is too large (max 5MB)', 400);
+        }
+        const events = parseCalendar(ics, await getTimezone(supabase, userId));
+        const name = sanitizeString(body.name).slice(0, 100) || 'Imported calendar';
+        const counts = await applyEvents(supabase, userId, events, { name, subscriptionId: null });
+        console.log(`[calendar-sync] ${userId}: imported ${events.length} events`, counts);
+        return successResponse(req, { success: true, events: events.length, ...counts }, 200, rateLimit);
+      }
+
+      case 'subscribe': {
+        const { url, error: urlError } = normalizeFeedUrl(typeof body.url === 'string' ? body.url : '');
+        if (!url) {
+          return errorResponse(req, urlError ?? 'url is required', 400);
+        }
+        const { count } = await supabase
+          .from('calendar_subscriptions')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId);
+        if ((count ?? 0) >= MAX_SUBSCRIPTIONS) {
+          return errorResponse(req, `Too many subscriptions (max ${MAX_SUBSCRIPTIONS})`, 400);
+        }
+
+        // Check the feed before saving anything
+        try {
+          await fetchIcs(url);
+        } catch (err) {
+          return errorResponse(req, err instanceof Error ? err.message : 'Could not fetch the feed', 400);
+        }
+
+        const name = sanitizeString(body.name).slice(0, 100) || new URL(url).hostname;
+        const { data: subscription, error } = await supabase
+          .from('calendar_subscriptions')
+          .upsert({ user_id: userId, url, name }, { onConflict: 'user_id,url' })
+          .select('id, user_id, url, name')
+          .single();
+        if (error || !subscription) throw error ?? new Error('Failed to save subscription');
+
+        const counts = await syncSubscription(supabase, subscription as Subscription);
+        return successResponse(req, { success: true, subscription, ...counts }, 200, rateLimit);
+      }
+
+      case 'sync': {
+        let query = supabase
+          .from('calendar_subscriptions')
+          .select('id, user_id, url, name')
+          .eq('user_id', userId);
+        if (body.subscriptionId) {
+          if (!isValidUUID(body.subscriptionId)) {
+            return errorResponse(req, 'Invalid subscriptionId', 400);
+          }
+          query = query.eq('id', body.subscriptionId);
+        }
+        const { data: subscriptions, error } = await query;
+        if (error) throw error;
+        if (body.subscriptionId && (subscriptions ?? []).length === 0) {
+          return errorResponse(req, 'Subscription not found', 404);
+        }
+
+        const results: SyncCounts[] = [];
+        const errors: Array<{ subscriptionId: string; error: string }> = [];
+        for (const subscription of (subscriptions ?? []) as Subscription[]) {
+          try {
+            results.push(await syncSubscription(supabase, subscription));
+          } catch (err) {
+            errors.push({ subscriptionId: subscription.id, error: err instanceof Error ? err.message : 'Sync failed' });
+          }
+        }
+        return successResponse(req, { success: errors.length === 0, ...sumCounts(results), errors }, 200, rateLimit);
+      }
+
+      case 'unsubscribe': {
+        if (!isValidUUID(body.subscriptionId)) {
+          return errorResponse(req, 'Invalid subscriptionId', 400);
+        }
+        let removed = 0;
+        if (!body.keepEvents) {
+          const { data: deleted, error } = await supabase
+            .from('entries')
+            .delete()
+            .eq('user_id', userId)
+            .eq('calendar_subscription_id', body.subscriptionId)
+            .select('id');
+          if (error) throw error;
+          removed = deleted?.length ?? 0;
+        }
+        // Kept events lose their owner (ON DELETE SET NULL) and stay as plain entries
+        const { error } = await supabase
+          .from('calendar_subscriptions')
+          .delete()
+          .eq('user_id', userId)
+          .eq('id', body.subscriptionId);
+        if (error) throw error;
+        return successResponse(req, { success: true, removed }, 200, rateLimit);
+      }
+
+      default:
+        return errorResponse(req, 'Unknown action', 400);
+    }
+  } catch (error) {
+    console.error('[calendar-sync] Error:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
@@ -6,12 +6,13 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
-import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { handleCors } from '../_shared/cors.ts';
 import { extractUserIdWithServiceRole } from '../_shared/auth.ts';
-import { checkRateLimit, getRateLimitHeaders, RATE_LIMIT_CONFIGS } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { sanitizeString, validateContentLength } from '../_shared/validation.ts';
 import { callClaude, parseToolUse, CLAUDE_MODELS, ClaudeError } from '../_shared/anthropic.ts';
+import { parseRRule, patternFromRRule, serializeRRule } from '../_shared/rrule.ts';
 
 interface ClassificationResult {
   type: 'code' | 'list' | 'idea' | 'link' | 'contact' | 'event' | 'reminder' | 'note' | 'image' | 'document';
@@ -27,6 +28,7 @@ interface ClassificationResult {
   eventTime?: string;
   isRecurring?: boolean;
   recurrencePattern?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  rrule?: string;
   reminderMinutes?: number;
 }
 
@@ -56,12 +58,9 @@ Deno.serve(async (req) => {
     const { userId, error: authError } = await extractUserIdWithServiceRole(req, parsedBody);
 
     if (userId) {
-      const rateLimitResult = checkRateLimit(`classify:${userId}`, RATE_LIMIT_CONFIGS.ai);
+      const rateLimitResult = await checkRateLimit('classify-content', userId);
       if (!rateLimitResult.allowed) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-          { status: 429, headers: { ...getCorsHeaders(req), ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } }
-        );
+        return rateLimitResponse(req, rateLimitResult.exceeded);
       }
     }
 
@@ -138,10 +137,22 @@ The user's current local date/time is approximately: ${new Intl.DateTimeFormat('
 ALWAYS set eventDate as YYYY-MM-DD and eventTime as HH:MM (24-hour format).
 
 === RECURRING PATTERNS ===
-- "every day", "daily" → isRecurring: true, recurrencePattern: "daily"
-- "every week", "weekly" → isRecurring: true, recurrencePattern: "weekly"
-- "every month", "monthly" → isRecurring: true, recurrencePattern: "monthly"
-- "every year", "yearly" → isRecurring: true, recurrencePattern: "yearly"
+For anything that repeats, set isRecurring: true and rrule to an RFC 5545 RRULE value (no "RRULE:" prefix),
+with eventDate set to the FIRST occurrence. Use FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL (YYYYMMDD) only.
+- "every day", "daily" → rrule: "FREQ=DAILY"
+- "every week", "weekly" → rrule: "FREQ=WEEKLY"
+- "every month", "monthly" → rrule: "FREQ=MONTHLY"
+- "every year", "yearly", "annually" → rrule: "FREQ=YEARLY"
+- "every other Tuesday", "every second Tuesday" → rrule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU"
+- "every second Thursday until June" → rrule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TH;UNTIL=<last day of the coming June, YYYYMMDD>"
+- "the second Thursday of every month" → rrule: "FREQ=MONTHLY;BYDAY=2TH"
+- "last Friday of the month" → rrule: "FREQ=MONTHLY;BYDAY=-1FR"
+- "weekdays", "every weekday" → rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
+- "every Monday and Wednesday" → rrule: "FREQ=WEEKLY;BYDAY=MO,WE"
+- "on the 15th of every month" → rrule: "FREQ=MONTHLY;BYMONTHDAY=15"
+- "last working day of the month" → rrule: "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+- "every 3 days" → rrule: "FREQ=DAILY;INTERVAL=3"
+- "for 10 weeks", "10 times" → add COUNT=10; "until <date>" → add UNTIL=<that date as YYYYMMDD>
 
 === REMINDER EXTRACTION (CRITICAL — always extract for "remind me") ===
 Any message containing "remind me" MUST be classified as type "reminder" with eventDate, eventTime, and reminderMinutes set.
@@ -232,6 +243,7 @@ ${recentListsContext}`;
           eventTime: { type: 'string', description: 'Time string (HH:MM)' },
           isRecurring: { type: 'boolean' },
           recurrencePattern: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'] },
+          rrule: { type: 'string', description: 'RFC 5545 RRULE value for recurring items, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TH;UNTIL=20260630"' },
           reminderMinutes: { type: 'number', description: 'Minutes before event to send reminder. 15, 30, 60, 1440 (1 day), 10080 (1 week). Extract from "remind me" phrases.' },
         },
         required: ['type', 'suggestedTitle', 'tags'],
@@ -275,6 +287,12 @@ ${recentListsContext}`;
       normalizedTags = (classification.tags as string).split(',').map(t => t.trim()).filter(Boolean);
     }
 
+    // Keep only rules the calendar can expand; the pattern always follows the rule's FREQ
+    const rule = classification.isRecurring !== false ? parseRRule(classification.rrule) : null;
+    if (classification.rrule && !rule) {
+      console.warn(`[classify-content] Dropping unsupported rrule: ${classification.rrule}`);
+    }
+
     const result: ClassificationResult = {
       type: classification.type || (isPdf ? 'document' : (imageUrl ? 'image' : 'note')),
       subtype: classification.subtype,
@@ -287,8 +305,9 @@ ${recentListsContext}`;
       documentText: classification.documentText,
       eventDate: classification.eventDate,
       eventTime: classification.eventTime,
-      isRecurring: classification.isRecurring,
-      recurrencePattern: classification.recurrencePattern,
+      isRecurring: rule ? true : classification.isRecurring,
+      recurrencePattern: rule ? patternFromRRule(rule) : classification.recurrencePattern,
+      rrule: rule ? serializeRRule(rule) : undefined,
       reminderMinutes: classification.reminderMinutes,
     };
 
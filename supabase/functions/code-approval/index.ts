@@ -0,0 +1,260 @@
+/**
+ * code-approval — Human approval gate for jac-code-agent merges
+ *
+ * When a project's merge policy holds a PR back (see _shared/mergePolicy.ts),
+ * the code session parks in 'awaiting_approval'. This function resolves it:
+ *
+ *   { sessionId, action: 'diff' | 'approve' | 'reject' | 'request_changes', feedback? }
+ *
+ * - diff            — the PR's current diff, for review in the Code Workspace
+ * - approve         — squash-merge the PR, then the usual post-merge steps
+ *                     (build validation record, poll-ci for self-deploying repos)
+ * - reject          — close the PR without merging
+ * - request_changes — comment the feedback on the PR and leave it open
+ *
+ * Each review claims the session (status still 'awaiting_approval') before it
+ * acts on the PR, so a second click or a racing Slack button gets a 409.
+ *
+ * Called by the frontend (user JWT) or by slack-incoming (service role +
+ * userId, via: 'slack', responseUrl to update the button message).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserIdWithServiceRole } from '../_shared/auth.ts';
+import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { parseJsonBody, isValidUUID } from '../_shared/validation.ts';
+import { createAgentLogger } from '../_shared/logger.ts';
+import { respondToSlackAction } from '../_shared/slack.ts';
+import { getGitProvider, splitRepoFullName } from '../_shared/gitProvider.ts';
+import { isSelfDeployingRepo } from '../_shared/mergePolicy.ts';
+
+type ApprovalAction = 'diff' | 'approve' | 'reject' | 'request_changes';
+
+interface ApprovalRequest {
+  sessionId: string;
+  action: ApprovalAction;
+  feedback?: string;
+  userId?: string;
+  via?: 'web' | 'slack';
+  responseUrl?: string;
+}
+
+const ACTIONS: ApprovalAction[] = ['diff', 'approve', 'reject', 'request_changes'];
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { data: body, error: parseError } = await parseJsonBody<ApprovalRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    const { userId, error: authError } = await extractUserIdWithServiceRole(
+      req,
+      body as unknown as Record<string, unknown>
+    );
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    if (!isValidUUID(body.sessionId)) {
+      return errorResponse(req, 'sessionId must be a UUID', 400);
+    }
+    if (!ACTIONS.includes(body.action)) {
+      return errorResponse(req, `action must be one of: ${ACTIONS.join(', ')}`, 400);
+    }
+    const feedback = typeof body.feedback === 'string' ? body.feedback.trim().slice(0, 4000) : '';
+    if (body.action === 'request_changes' && !feedback) {
+      return errorResponse(req, 'feedback is required to request changes', 400);
+    }
+    const via = body.via === 'slack' ? 'slack' : 'web';
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    const { data: session } = await supabase
+      .from('code_sessions')
+      .select('id, project_id, task_id, status, intent, branch_name, pr_number, pr_url, files_changed, approval_reason')
+      .eq('id', body.sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!session) {
+      return errorResponse(req, 'Session not found', 404);
+    }
+    if (!session.pr_number) {
+      return errorResponse(req, 'Session has no pull request', 409);
+    }
+
+    const { data: project } = await supabase
+      .from('code_projects')
+      .select('repo_full_name, default_branch, git_provider, git_base_url, git_token_secret')
+      .eq('id', session.project_id)
+      .maybeSingle();
+    const repoFull = (project?.repo_full_name as string) || '';
+    const { owner, repo } = splitRepoFullName(repoFull);
+    if (!owner || !repo) {
+      return errorResponse(req, 'Invalid repo configuration', 400);
+    }
+    const git = getGitProvider(project);
+
+    if (body.action === 'diff') {
+      const diff = await git.getPullRequestDiff(owner, repo, session.pr_number);
+      return successResponse(req, {
+        sessionId: session.id,
+        status: session.status,
+        prNumber: session.pr_number,
+        prUrl: session.pr_url,
+        approvalReason: session.approval_reason,
+        diff,
+      });
+    }
+
+    // Reply in the Slack thread the buttons came from, if any
+    const reply = async (text: string) => {
+      if (via === 'slack' && body.responseUrl) await respondToSlackAction(body.responseUrl, text);
+    };
+
+    if (session.status !== 'awaiting_approval') {
+      const message = `Session is ${session.status.replace(/_/g, ' ')} — nothing to ${body.action.replace(/_/g, ' ')}`;
+      await reply(message);
+      return errorResponse(req, message, 409);
+    }
+
+    const now = new Date().toISOString();
+    const prLabel = `PR #${session.pr_number}`;
+    const log = session.task_id ? createAgentLogger(supabase, session.task_id, userId, 'jac-code-agent') : null;
+
+    // Keep the task's output in step with the session
+    const updateTaskOutput = async (patch: Record<string, unknown>) => {
+      if (!session.task_id) return;
+      const { data: task } = await supabase
+        .from('agent_tasks')
+        .select('output')
+        .eq('id', session.task_id)
+        .maybeSingle();
+      await supabase
+        .from('agent_tasks')
+        .update({
+          output: { ...((task?.output as Record<string, unknown>) ?? {}), awaitingApproval: false, ...patch },
+          updated_at: now,
+        })
+        .eq('id', session.task_id);
+    };
+
+    // Move the session out of awaiting_approval before touching the PR. The
+    // status guard makes this the arbiter when two reviews race (a double
+    // click, or Slack and the app at once): only one of them gets the row.
+    const claim = async (patch: Record<string, unknown>) => {
+      const { data, error } = await supabase
+        .from('code_sessions')
+        .update({ ...patch, reviewed_at: now, reviewed_via: via, updated_at: now })
+        .eq('id', session.id)
+        .eq('status', 'awaiting_approval')
+        .select('id');
+      if (error) throw error;
+      return (data?.length ?? 0) > 0;
+    };
+
+    const alreadyReviewed = async () => {
+      const message = `Session was already reviewed — nothing to ${body.action.replace(/_/g, ' ')}`;
+      await reply(message);
+      return errorResponse(req, message, 409);
+    };
+
+    if (body.action === 'approve') {
+      if (!await claim({ status: 'completed', review_feedback: feedback || null })) return alreadyReviewed();
+
+      let mergeSha: string;
+      try {
+        const mergeResult = await git.mergePR(owner, repo, session.pr_number, 'squash');
+        mergeSha = mergeResult.sha;
+      } catch (mergeErr) {
+        // Hand the session back so it can be reviewed again
+        await supabase
+          .from('code_sessions')
+          .update({ status: 'awaiting_approval', reviewed_at: null, reviewed_via: null, review_feedback: null, updated_at: now })
+          .eq('id', session.id)
+          .eq('status', 'completed');
+        const message = mergeErr instanceof Error ? mergeErr.message : 'Merge failed';
+        await log?.info('merge_approved', { via, prNumber: session.pr_number, merged: false, error: message });
+        await reply(`:x: Approved, but ${prLabel} could not be merged: ${message}`);
+        return errorResponse(req, message, 409);
+      }
+
+      await supabase
+        .from('code_sessions')
+        .update({ merge_sha: mergeSha, validated: true })
+        .eq('id', session.id);
+
+      await supabase.from('code_validations').insert({
+        session_id: session.id,
+        validation_type: 'build',
+        passed: true,
+        output: `Merge approved via ${via} (${mergeSha.slice(0, 8)})`,
+      });
+
+      await updateTaskOutput({ merged: true, mergeSha });
+      await log?.info('merge_approved', { via, prNumber: session.pr_number, merged: true, mergeSha });
+
+      // Same CI watch jac-code-agent starts after an auto-merge
+      if (isSelfDeployingRepo(repoFull)) {
+        fetch(`${supabaseUrl}/functions/v1/poll-ci`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${serviceKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            userId,
+            taskId: session.task_id,
+            owner,
+            repo,
+            ref: mergeSha,
+            defaultBranch: (project?.default_branch as string) || 'main',
+            repoFull,
+            projectId: session.project_id,
+            sessionId: session.id,
+          }),
+        }).catch(err => console.warn('[code-approval] poll-ci fire-and-forget failed:', err));
+      }
+
+      await reply(`:white_check_mark: Approved and merged <${session.pr_url}|${prLabel}> (${mergeSha.slice(0, 8)})`);
+      return successResponse(req, { sessionId: session.id, status: 'completed', merged: true, mergeSha });
+    }
+
+    if (body.action === 'reject') {
+      if (!await claim({ status: 'rejected', review_feedback: feedback || null })) return alreadyReviewed();
+
+      await git.closePR(owner, repo, session.pr_number);
+      if (feedback) {
+        await git.commentOnPR(owner, repo, session.pr_number, `**Rejected** (via ${via}):\n\n${feedback}`)
+          .catch(err => console.warn('[code-approval] PR comment failed:', err));
+      }
+
+      await updateTaskOutput({ merged: false, rejected: true });
+      await log?.info('merge_rejected', { via, prNumber: session.pr_number });
+
+      await reply(`:no_entry_sign: Rejected <${session.pr_url}|${prLabel}> — PR closed`);
+      return successResponse(req, { sessionId: session.id, status: 'rejected', merged: false });
+    }
+
+    // request_changes — the PR stays open on its branch
+    if (!await claim({ status: 'changes_requested', review_feedback: feedback })) return alreadyReviewed();
+
+    await git.commentOnPR(owner, repo, session.pr_number, `**Changes requested** (via ${via}):\n\n${feedback}`);
+
+    await updateTaskOutput({ merged: false, changesRequested: feedback });
+    await log?.info('changes_requested', { via, prNumber: session.pr_number, feedback: feedback.slice(0, 500) });
+
+    await reply(`:pencil2: Changes requested on <${session.pr_url}|${prLabel}>:\n${feedback}`);
+    return successResponse(req, { sessionId: session.id, status: 'changes_requested', merged: false });
+  } catch (error) {
+    console.error('Error in code-approval function:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
@@ -0,0 +1,176 @@
+/**
+ * code-sandbox — Pre-PR validation worker for jac-code-agent
+ *
+ * Checks proposed file contents against the repo before anything is
+ * committed. Runs in its own isolate so a pathological file can't take
+ * the agent down with it, and never executes repo code:
+ *
+ *   { userId, projectId, ref, files: [{ path, content }], tree?, known? }
+ *   → { passed, results: [{ type, passed, skipped?, durationMs, diagnostics }], contextFiles, durationMs }
+ *
+ * 1. Resolve the project's git provider
+ * 2. Read tsconfig.json / tsconfig.app.json at ref for strictness and path aliases
+ * 3. Fetch the repo files the changed files import (2 levels, max 40) —
+ *    `known` (files the agent already read) skips the fetch
+ * 4. syntax → typecheck → lint (see _shared/codeChecks.ts)
+ *
+ * Service role only.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { isServiceRoleRequest } from '../_shared/auth.ts';
+import { isValidUUID } from '../_shared/validation.ts';
+import { getGitProvider, splitRepoFullName, isSecretFile, MAX_COMMIT_FILES } from '../_shared/gitProvider.ts';
+import {
+  buildSandboxConfig, resolveRepoImports, runSyntaxCheck, runTypeCheck, runLint, skippedCheck, isCheckableFile,
+} from '../_shared/codeChecks.ts';
+import type { SandboxFile, SandboxCheckResult } from '../_shared/codeChecks.ts';
+
+const TSCONFIG_FILES = ['tsconfig.json', 'tsconfig.app.json'];
+const MAX_CONTEXT_FILES = 40;
+const MAX_IMPORT_DEPTH = 2;
+const MAX_FILE_CHARS = 200_000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204 });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: 'Unauthorized — service role required' }, 401);
+  }
+
+  const started = Date.now();
+
+  try {
+    const body = await req.json();
+    const projectId = body.projectId as string;
+    const userId = body.userId as string;
+    const ref = typeof body.ref === 'string' && body.ref ? body.ref : 'main';
+
+    if (!isValidUUID(projectId) || !isValidUUID(userId)) {
+      return jsonResponse({ error: 'projectId and userId must be UUIDs' }, 400);
+    }
+
+    const rawFiles = Array.isArray(body.files) ? body.files : [];
+    const files: SandboxFile[] = rawFiles
+      .filter((f: unknown): f is SandboxFile =>
+        !!f && typeof (f as SandboxFile).path === 'string' && typeof (f as SandboxFile).content === 'string')
+      .map((f: SandboxFile) => ({ path: f.path.replace(/^\/+/, ''), content: f.content }));
+    if (files.length === 0 || files.length > MAX_COMMIT_FILES) {
+      return jsonResponse({ error: `files must contain 1–${MAX_COMMIT_FILES} { path, content } entries` }, 400);
+    }
+    if (files.some(f => f.content.length > MAX_FILE_CHARS)) {
+      return jsonResponse({ error: `Files over ${MAX_FILE_CHARS} characters can't be validated` }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { data: project } = await supabase
+      .from('code_projects')
+      .select('repo_full_name, file_tree_cache, git_provider, git_base_url, git_token_secret')
+      .eq('id', projectId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!project) {
+      return jsonResponse({ error: 'Project not found' }, 404);
+    }
+
+    const { owner, repo } = splitRepoFullName(project.repo_full_name as string);
+    if (!owner || !repo) {
+      return jsonResponse({ error: 'Invalid repo configuration' }, 400);
+    }
+    const git = getGitProvider(project);
+
+    const treeSource: string[] = Array.isArray(body.tree) ? body.tree
+      : Array.isArray(project.file_tree_cache) ? project.file_tree_cache as string[]
+      : await git.getRepoTree(owner, repo, ref);
+    const tree = new Set(treeSource.filter(p => typeof p === 'string'));
+
+    // Repo files the agent already has — no need to fetch them again
+    const known = new Map<string, string>();
+    for (const f of Array.isArray(body.known) ? body.known : []) {
+      if (f && typeof f.path === 'string' && typeof f.content === 'string') known.set(f.path, f.content);
+    }
+
+    const fetchFile = async (path: string): Promise<SandboxFile | null> => {
+      if (known.has(path)) return { path, content: known.get(path)! };
+      if (isSecretFile(path)) return null;
+      try {
+        const file = await git.getFileContent(owner, repo, path, ref);
+        return { path, content: file.content };
+      } catch (err) {
+        console.warn(`[code-sandbox] Could not read ${path}:`, err instanceof Error ? err.message : err);
+        return null;
+      }
+    };
+
+    const changedPaths = new Set(files.map(f => f.path));
+    const tsconfigs = (await Promise.all(
+      TSCONFIG_FILES.map(path => {
+        const changed = files.find(f => f.path === path);
+        if (changed) return changed;
+        return tree.has(path) ? fetchFile(path) : null;
+      })
+    )).filter((f): f is SandboxFile => f !== null);
+    const config = buildSandboxConfig(tsconfigs);
+
+    // Every path the sandbox can see: the tree plus new files
+    const visible = new Set([...tree, ...changedPaths]);
+
+    // Breadth-first over imports so the nearest dependencies win the budget
+    const context: SandboxFile[] = [];
+    const seen = new Set(changedPaths);
+    let frontier = files;
+    for (let depth = 0; depth < MAX_IMPORT_DEPTH && frontier.length > 0; depth++) {
+      const wanted: string[] = [];
+      for (const file of frontier) {
+        for (const path of resolveRepoImports(file, visible, config.aliases)) {
+          if (seen.has(path) || context.length + wanted.length >= MAX_CONTEXT_FILES) continue;
+          seen.add(path);
+          wanted.push(path);
+        }
+      }
+      const fetched = (await Promise.all(wanted.map(fetchFile))).filter((f): f is SandboxFile => f !== null);
+      context.push(...fetched);
+      frontier = fetched;
+    }
+
+    const checkable = files.filter(f => isCheckableFile(f.path));
+    const results: SandboxCheckResult[] = [];
+    const syntax = runSyntaxCheck(checkable);
+    results.push(syntax);
+
+    // Type errors on top of parse errors are noise
+    if (!syntax.passed) {
+      results.push(skippedCheck('typecheck', 'syntax errors'));
+    } else {
+      try {
+        results.push(runTypeCheck(checkable, context, config));
+      } catch (err) {
+        results.push(skippedCheck('typecheck', `checker crashed: ${err instanceof Error ? err.message : String(err)}`));
+      }
+    }
+    results.push(runLint(checkable));
+
+    const passed = results.every(r => r.passed);
+    console.log(`[code-sandbox] ${owner}/${repo}@${ref}: ${files.length} files, ${context.length} context, ${passed ? 'passed' : 'failed'} in ${Date.now() - started}ms`);
+
+    return jsonResponse({
+      passed,
+      results,
+      contextFiles: context.length,
+      durationMs: Date.now() - started,
+    });
+  } catch (error) {
+    console.error('[code-sandbox] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -8,8 +8,8 @@
 
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId, createServiceClient } from '../_shared/auth.ts';
-import { checkRateLimit, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/validation.ts';
 
 interface DeleteRequest {
@@ -32,15 +32,9 @@ Deno.serve(async (req) => {
     }
 
     // Strict rate limiting - only 2 attempts per hour
-    const rateLimitResult = checkRateLimit(`delete:${userId}`, { maxRequests: 2, windowMs: 3600000 });
+    const rateLimitResult = await checkRateLimit('delete-all-user-data', userId);
     if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Delete rate limit exceeded. Max 2 attempts per hour.', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-        { 
-          status: 429, 
-          headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } 
-        }
-      );
+      return rateLimitResponse(req, rateLimitResult.exceeded);
     }
 
     // Parse confirmation from request body
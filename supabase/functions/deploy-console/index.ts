@@ -0,0 +1,527 @@
+/**
+ * deploy-console — Staging → production promotion for the Deploy page
+ *
+ * Wraps _shared/supabase-management.ts for the frontend (user JWT only):
+ *
+ *   { action: 'status' }
+ *   { action: 'promote', slugs?, migrations?, confirm }
+ *   { action: 'rollback', operationId, confirm }
+ *
+ * - status   — both environments' edge functions (drift is computed by the
+ *              page), staging migrations missing from production with their
+ *              validateMigrationSQL findings, and recent deploy_operations
+ * - promote  — applies the selected staging migrations to production, then
+ *              deploys each selected function from the exact commit CI last
+ *              deployed it to staging from (recorded in deploy_operations by
+ *              .github/workflows/deploy-functions.yml). Refused for functions
+ *              with no recorded staging deploy, or redeployed since
+ * - rollback — redeploys the functions of a completed production deploy from
+ *              the commit each one was on before it
+ *
+ * Writes to production need `confirm` to equal the production project ref.
+ * Every write is recorded in deploy_operations; function deploys keep each
+ * slug's previous commit in output.functions[].previous for rollback.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserId } from '../_shared/auth.ts';
+import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { parseJsonBody, isValidUUID } from '../_shared/validation.ts';
+import { getGitProvider, splitRepoFullName, type GitProvider } from '../_shared/gitProvider.ts';
+import { isSelfDeployingRepo } from '../_shared/mergePolicy.ts';
+import {
+  registerProductionRef,
+  listFunctions,
+  listMigrations,
+  validateMigrationSQL,
+  deployFunction,
+  applyMigration,
+  type SupabaseFunction,
+  type Migration,
+  type DeployFunctionSource,
+} from '../_shared/supabase-management.ts';
+
+type ConsoleAction = 'status' | 'promote' | 'rollback';
+
+interface ConsoleRequest {
+  action: ConsoleAction;
+  slugs?: string[];
+  migrations?: string[];
+  operationId?: string;
+  confirm?: string;
+}
+
+interface DeployEnvironment {
+  id: string;
+  name: 'staging' | 'production';
+  project_ref: string;
+  is_production: boolean;
+}
+
+interface FunctionDeployResult {
+  slug: string;
+  gitSha: string;
+  version?: number;
+  error?: string;
+  previous: { version: number | null; updatedAt: string | null; gitSha: string | null };
+}
+
+interface RecordedDeploy {
+  gitSha: string;
+  deployedAt: string;
+}
+
+interface SourceRepo {
+  git: GitProvider;
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
+const ACTIONS: ConsoleAction[] = ['status', 'promote', 'rollback'];
+const SLUG_RE = /^[a-z][a-z0-9-]*$/;
+const MAX_PROMOTE_FUNCTIONS = 20;
+const MAX_SOURCE_FILES = 40;
+const RECENT_OPERATIONS = 30;
+/** A staging function updated this long after its recorded deploy was redeployed from elsewhere */
+const STAGING_RECORD_SLACK_MS = 60_000;
+
+const IMPORT_RE = /(?:import|export)\s+(?:[^'"]*?\s+from\s+)?['"](\.{1,2}\/[^'"]+)['"]/g;
+
+/** Resolve a relative import against the importing file's path */
+function resolvePath(from: string, spec: string): string {
+  const parts = from.split('/').slice(0, -1);
+  for (const segment of spec.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/**
+ * A function's index.ts plus every local module it imports, read at one
+ * commit. Names are relative to supabase/functions.
+ */
+async function collectFunctionSource(source: SourceRepo, slug: string, ref: string): Promise<DeployFunctionSource[]> {
+  const files: DeployFunctionSource[] = [];
+  const seen = new Set<string>();
+  const queue = [`${slug}/index.ts`];
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    if (seen.has(name)) continue;
+    seen.add(name);
+    if (files.length >= MAX_SOURCE_FILES) {
+      throw new Error(`${slug} imports more than ${MAX_SOURCE_FILES} local files`);
+    }
+
+    const file = await source.git.getFileContent(source.owner, source.repo, `supabase/functions/${name}`, ref);
+    files.push({ name, content: file.content });
+
+    for (const match of file.content.matchAll(IMPORT_RE)) {
+      const resolved = resolvePath(name, match[1]);
+      if (!resolved.startsWith('..')) queue.push(resolved);
+    }
+  }
+
+  return files;
+}
+
+/** Code project the functions are deployed from — the self-deploying repo */
+async function loadSourceRepo(supabase: SupabaseClient, userId: string): Promise<SourceRepo | null> {
+  const { data: projects } = await supabase
+    .from('code_projects')
+    .select('repo_full_name, default_branch, git_provider, git_base_url, git_token_secret')
+    .eq('user_id', userId)
+    .eq('active', true);
+  const project = (projects || []).find(p => isSelfDeployingRepo(p.repo_full_name as string));
+  if (!project) return null;
+
+  const { owner, repo } = splitRepoFullName(project.repo_full_name as string);
+  if (!owner || !repo) return null;
+  return { git: getGitProvider(project), owner, repo, branch: (project.default_branch as string) || 'main' };
+}
+
+/**
+ * Names and versions of a project's applied migrations. Applying a migration
+ * through the Management API gives it a new version, so promoted migrations
+ * are matched by name.
+ */
+function appliedMigrationKeys(migrations: Migration[]): Set<string> {
+  return new Set(migrations.flatMap(m => [m.name, m.version]));
+}
+
+/**
+ * Commit each slug was last deployed from in one environment, from completed
+ * deploy_operations rows: this console's production deploys, and the staging
+ * deploys CI records.
+ */
+async function recordedDeploys(
+  supabase: SupabaseClient,
+  userId: string,
+  environment: 'staging' | 'production',
+  projectRef: string
+): Promise<Map<string, RecordedDeploy>> {
+  const { data } = await supabase
+    .from('deploy_operations')
+    .select('output, created_at')
+    .eq('user_id', userId)
+    .eq('environment', environment)
+    .eq('project_ref', projectRef)
+    .eq('status', 'completed')
+    .in('operation_type', ['deploy_function', 'bulk_deploy'])
+    .order('created_at', { ascending: false })
+    .limit(100);
+  const deploys = new Map<string, RecordedDeploy>();
+  for (const op of data || []) {
+    const results = ((op.output as Record<string, unknown>)?.functions ?? []) as FunctionDeployResult[];
+    for (const result of results) {
+      if (!result.error && result.gitSha && !deploys.has(result.slug)) {
+        deploys.set(result.slug, { gitSha: result.gitSha, deployedAt: op.created_at as string });
+      }
+    }
+  }
+  return deploys;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { data: body, error: parseError } = await parseJsonBody<ConsoleRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    const { userId, error: authError } = await extractUserId(req);
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    if (!ACTIONS.includes(body.action)) {
+      return errorResponse(req, `action must be one of: ${ACTIONS.join(', ')}`, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    const { data: envRows } = await supabase
+      .from('deploy_environments')
+      .select('id, name, project_ref, is_production')
+      .eq('user_id', userId)
+      .eq('active', true);
+    const environments = (envRows || []) as DeployEnvironment[];
+    const staging = environments.find(e => e.name === 'staging');
+    const production = environments.find(e => e.name === 'production');
+    for (const env of environments) {
+      if (env.is_production || env.name === 'production') registerProductionRef(env.project_ref);
+    }
+
+    const loadOperations = async () => {
+      const { data } = await supabase
+        .from('deploy_operations')
+        .select('id, project_ref, environment, operation_type, target_slug, status, input, output, error, duration_ms, git_sha, git_branch, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_OPERATIONS);
+      return data || [];
+    };
+
+    // ─── status ───
+    if (body.action === 'status') {
+      const operations = await loadOperations();
+      if (!staging || !production) {
+        return successResponse(req, { configured: false, environments, operations });
+      }
+
+      const loadEnv = async (ref: string) => {
+        const [functions, migrations] = await Promise.allSettled([listFunctions(ref), listMigrations(ref)]);
+        return {
+          functions: functions.status === 'fulfilled' ? functions.value : [],
+          migrations: migrations.status === 'fulfilled' ? migrations.value : [],
+          error: functions.status === 'rejected'
+            ? errorMessage(functions.reason)
+            : migrations.status === 'rejected' ? errorMessage(migrations.reason) : null,
+        };
+      };
+      const [stagingState, productionState, stagingDeploys] = await Promise.all([
+        loadEnv(staging.project_ref),
+        loadEnv(production.project_ref),
+        recordedDeploys(supabase, userId, 'staging', staging.project_ref),
+      ]);
+
+      // Nothing is pending while production's history can't be read
+      const applied = appliedMigrationKeys(productionState.migrations);
+      const pendingMigrations = productionState.error ? [] : stagingState.migrations
+        .filter(m => !applied.has(m.name) && !applied.has(m.version))
+        .map(m => {
+          const sql = (m.statements || []).join(';\n');
+          return { version: m.version, name: m.name, sql, validation: validateMigrationSQL(sql) };
+        });
+
+      return successResponse(req, {
+        configured: true,
+        environments,
+        staging: { projectRef: staging.project_ref, functions: stagingState.functions, error: stagingState.error },
+        production: { projectRef: production.project_ref, functions: productionState.functions, error: productionState.error },
+        stagingCommits: Object.fromEntries([...stagingDeploys].map(([slug, d]) => [slug, d.gitSha])),
+        pendingMigrations,
+        operations,
+      });
+    }
+
+    // ─── promote / rollback: production writes ───
+    if (!staging || !production) {
+      return errorResponse(req, 'Configure staging and production environments first', 409);
+    }
+    if (body.confirm !== production.project_ref) {
+      return errorResponse(req, `Type the production project ref (${production.project_ref}) to confirm`, 400);
+    }
+
+    const recordOperation = async (row: Record<string, unknown>): Promise<string> => {
+      const { data, error } = await supabase
+        .from('deploy_operations')
+        .insert({
+          user_id: userId,
+          project_ref: production.project_ref,
+          environment: 'production',
+          status: 'running',
+          ...row,
+        })
+        .select('id')
+        .single();
+      if (error || !data) throw new Error(`Failed to record operation: ${error?.message ?? 'unknown error'}`);
+      return data.id as string;
+    };
+
+    const finishOperation = async (id: string, startedAt: number, patch: Record<string, unknown>) => {
+      await supabase
+        .from('deploy_operations')
+        .update({ duration_ms: Date.now() - startedAt, ...patch })
+        .eq('id', id);
+    };
+
+    // Commit each slug was last deployed to production from, via this console
+    const previousShas = async (slugs: string[]): Promise<Map<string, string>> => {
+      const deploys = await recordedDeploys(supabase, userId, 'production', production.project_ref);
+      return new Map(slugs.filter(s => deploys.has(s)).map(s => [s, deploys.get(s)!.gitSha]));
+    };
+
+    // Deploy each slug from its commit; one deploy_operations row for the batch
+    const deployToProduction = async (
+      targets: Array<{ slug: string; gitSha: string }>,
+      source: SourceRepo,
+      input: Record<string, unknown>
+    ) => {
+      const slugs = targets.map(t => t.slug);
+      const [productionFunctions, stagingFunctions, shas] = await Promise.all([
+        listFunctions(production.project_ref),
+        listFunctions(staging.project_ref).catch(() => [] as SupabaseFunction[]),
+        previousShas(slugs),
+      ]);
+      const startedAt = Date.now();
+      const operationId = await recordOperation({
+        operation_type: targets.length === 1 ? 'deploy_function' : 'bulk_deploy',
+        target_slug: targets.length === 1 ? targets[0].slug : null,
+        input: { ...input, slugs },
+        git_sha: targets[0].gitSha,
+        git_branch: source.branch,
+      });
+
+      const results: FunctionDeployResult[] = [];
+      for (const target of targets) {
+        const current = productionFunctions.find(f => f.slug === target.slug);
+        const result: FunctionDeployResult = {
+          slug: target.slug,
+          gitSha: target.gitSha,
+          previous: {
+            version: current?.version ?? null,
+            updatedAt: current?.updated_at ? String(current.updated_at) : null,
+            gitSha: shas.get(target.slug) ?? null,
+          },
+        };
+        try {
+          const files = await collectFunctionSource(source, target.slug, target.gitSha);
+          const verifyJwt = (stagingFunctions.find(f => f.slug === target.slug) ?? current)?.verify_jwt ?? false;
+          const deployed = await deployFunction(production.project_ref, target.slug, files, {
+            allowProduction: true,
+            verifyJwt,
+          });
+          result.version = deployed.version;
+        } catch (err) {
+          result.error = errorMessage(err);
+        }
+        results.push(result);
+      }
+
+      const failed = results.filter(r => r.error);
+      await finishOperation(operationId, startedAt, {
+        status: failed.length > 0 ? 'failed' : 'completed',
+        output: { functions: results },
+        error: failed.length > 0 ? failed.map(r => `${r.slug}: ${r.error}`).join('\n').slice(0, 2000) : null,
+      });
+      return { operationId, functions: results };
+    };
+
+    // ─── promote ───
+    if (body.action === 'promote') {
+      const slugs = [...new Set(Array.isArray(body.slugs) ? body.slugs : [])];
+      const versions = [...new Set(Array.isArray(body.migrations) ? body.migrations : [])];
+      if (slugs.length === 0 && versions.length === 0) {
+        return errorResponse(req, 'Select at least one function or migration to promote', 400);
+      }
+      if (slugs.length > MAX_PROMOTE_FUNCTIONS) {
+        return errorResponse(req, `Promote at most ${MAX_PROMOTE_FUNCTIONS} functions at a time`, 400);
+      }
+      const badSlug = slugs.find(s => typeof s !== 'string' || !SLUG_RE.test(s));
+      if (badSlug !== undefined) {
+        return errorResponse(req, `Invalid function slug: ${String(badSlug)}`, 400);
+      }
+
+      const source = slugs.length > 0 ? await loadSourceRepo(supabase, userId) : null;
+      if (slugs.length > 0 && !source) {
+        return errorResponse(req, 'No active code project for this repo — add it in the Code Workspace to promote functions', 409);
+      }
+
+      // Promote the commit staging actually runs, never whatever the branch is at now
+      const targets: Array<{ slug: string; gitSha: string }> = [];
+      if (slugs.length > 0) {
+        const [stagingDeploys, stagingFunctions] = await Promise.all([
+          recordedDeploys(supabase, userId, 'staging', staging.project_ref),
+          listFunctions(staging.project_ref),
+        ]);
+        const unrecorded = slugs.filter(slug => !stagingDeploys.has(slug));
+        if (unrecorded.length > 0) {
+          return errorResponse(req, `No recorded staging deploy for: ${unrecorded.join(', ')} — deploy through CI first`, 409);
+        }
+        const drifted = slugs.filter(slug => {
+          const fn = stagingFunctions.find(f => f.slug === slug);
+          const recordedAt = new Date(stagingDeploys.get(slug)!.deployedAt).getTime();
+          return !fn || new Date(fn.updated_at).getTime() > recordedAt + STAGING_RECORD_SLACK_MS;
+        });
+        if (drifted.length > 0) {
+          return errorResponse(req, `Staging no longer runs the recorded commit for: ${drifted.join(', ')} — redeploy through CI first`, 409);
+        }
+        for (const slug of slugs) targets.push({ slug, gitSha: stagingDeploys.get(slug)!.gitSha });
+      }
+
+      // Migrations first, in staging order, so new code never runs on an old schema
+      const migrationResults: Array<{ version: string; name: string; operationId: string; error?: string }> = [];
+      if (versions.length > 0) {
+        const [stagingMigrations, productionMigrations] = await Promise.all([
+          listMigrations(staging.project_ref),
+          listMigrations(production.project_ref),
+        ]);
+        const selected = stagingMigrations.filter(m => versions.includes(m.version));
+        const missing = versions.filter(v => !selected.some(m => m.version === v));
+        if (missing.length > 0) {
+          return errorResponse(req, `Migrations not found on staging: ${missing.join(', ')}`, 404);
+        }
+        const applied = appliedMigrationKeys(productionMigrations);
+        const already = selected.filter(m => applied.has(m.name) || applied.has(m.version));
+        if (already.length > 0) {
+          return errorResponse(req, `Already applied to production: ${already.map(m => m.name).join(', ')}`, 409);
+        }
+
+        for (const migration of selected) {
+          const sql = (migration.statements || []).join(';\n');
+          const startedAt = Date.now();
+          const operationId = await recordOperation({
+            operation_type: 'migration',
+            target_slug: migration.name,
+            input: { version: migration.version, name: migration.name, sql: sql.slice(0, 20000) },
+          });
+          try {
+            const applied = await applyMigration(production.project_ref, migration.name, sql, { allowProduction: true });
+            await finishOperation(operationId, startedAt, { status: 'completed', output: applied });
+            migrationResults.push({ version: migration.version, name: migration.name, operationId });
+          } catch (err) {
+            await finishOperation(operationId, startedAt, { status: 'failed', error: errorMessage(err) });
+            migrationResults.push({ version: migration.version, name: migration.name, operationId, error: errorMessage(err) });
+            return successResponse(req, {
+              promoted: false,
+              migrations: migrationResults,
+              functions: [],
+              error: `Migration ${migration.name} failed — functions were not deployed`,
+            });
+          }
+        }
+      }
+
+      let functionResult: Awaited<ReturnType<typeof deployToProduction>> | null = null;
+      if (source) {
+        functionResult = await deployToProduction(targets, source, { promotedFrom: staging.project_ref });
+      }
+
+      const functionsFailed = functionResult?.functions.some(f => f.error) ?? false;
+      return successResponse(req, {
+        promoted: !functionsFailed,
+        migrations: migrationResults,
+        functions: functionResult?.functions ?? [],
+        operationId: functionResult?.operationId ?? null,
+      });
+    }
+
+    // ─── rollback ───
+    if (!isValidUUID(body.operationId)) {
+      return errorResponse(req, 'operationId must be a UUID', 400);
+    }
+    const { data: operation } = await supabase
+      .from('deploy_operations')
+      .select('id, environment, operation_type, status, output')
+      .eq('id', body.operationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!operation) {
+      return errorResponse(req, 'Operation not found', 404);
+    }
+    if (operation.operation_type === 'migration') {
+      return errorResponse(req, 'Migrations cannot be rolled back automatically — promote a reverse migration instead', 409);
+    }
+    if (operation.environment !== 'production' || !['deploy_function', 'bulk_deploy'].includes(operation.operation_type)) {
+      return errorResponse(req, 'Only production function deploys can be rolled back', 409);
+    }
+    const output = (operation.output as Record<string, unknown>) ?? {};
+    if (output.rolledBackBy) {
+      return errorResponse(req, 'Operation was already rolled back', 409);
+    }
+
+    const deployedResults = ((output.functions ?? []) as FunctionDeployResult[]).filter(f => !f.error);
+    const targets = deployedResults
+      .filter(f => f.previous?.gitSha)
+      .map(f => ({ slug: f.slug, gitSha: f.previous.gitSha! }));
+    const skipped = deployedResults.filter(f => !f.previous?.gitSha).map(f => f.slug);
+    if (targets.length === 0) {
+      return errorResponse(req, 'No earlier console deploy of these functions to roll back to', 409);
+    }
+
+    const source = await loadSourceRepo(supabase, userId);
+    if (!source) {
+      return errorResponse(req, 'No active code project for this repo', 409);
+    }
+
+    const rollback = await deployToProduction(targets, source, { rollbackOf: operation.id, skipped });
+    await supabase
+      .from('deploy_operations')
+      .update({ output: { ...output, rolledBackBy: rollback.operationId } })
+      .eq('id', operation.id);
+
+    return successResponse(req, {
+      rolledBack: !rollback.functions.some(f => f.error),
+      operationId: rollback.operationId,
+      functions: rollback.functions,
+      skipped,
+    });
+  } catch (error) {
+    console.error('[deploy-console] Error:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
@@ -8,8 +8,8 @@
 
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
-import { checkRateLimit, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 
 Deno.serve(async (req) => {
   // Handle CORS preflight
@@ -26,15 +26,9 @@ Deno.serve(async (req) => {
     }
 
     // Rate limiting - 20 requests per minute
-    const rateLimitResult = checkRateLimit(`stt:${userId}`, { maxRequests: 20, windowMs: 60000 });
+    const rateLimitResult = await checkRateLimit('elevenlabs-stt', userId);
     if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-        { 
-          status: 429, 
-          headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } 
-        }
-      );
+      return rateLimitResponse(req, rateLimitResult.exceeded);
     }
 
     // Check for API key
@@ -10,7 +10,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { sanitizeString, validateContentLength, parseJsonBody } from '../_shared/validation.ts';
 
 interface TTSRequest {
@@ -33,15 +33,9 @@ Deno.serve(async (req) => {
     }
 
     // Rate limiting - 30 requests per minute
-    const rateLimitResult = checkRateLimit(`tts:${userId}`, { maxRequests: 30, windowMs: 60000 });
+    const rateLimitResult = await checkRateLimit('elevenlabs-tts', userId);
     if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-        { 
-          status: 429, 
-          headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } 
-        }
-      );
+      return rateLimitResponse(req, rateLimitResult.exceeded);
     }
 
     // Check for API key
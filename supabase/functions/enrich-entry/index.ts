@@ -7,10 +7,10 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
-import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { handleCors } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
-import { checkRateLimit, RATE_LIMIT_CONFIGS, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/validation.ts';
 import { callClaude, parseTextContent, CLAUDE_MODELS, ClaudeError } from '../_shared/anthropic.ts';
 
@@ -43,12 +43,9 @@ serve(async (req) => {
       return errorResponse(req, authError ?? 'Unauthorized', 401);
     }
 
-    const rateLimit = checkRateLimit(`enrich:${userId}`, RATE_LIMIT_CONFIGS.ai);
+    const rateLimit = await checkRateLimit('enrich-entry', userId);
     if (!rateLimit.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded', retryAfter: Math.ceil(rateLimit.resetIn / 1000) }),
-        { status: 429, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json', ...getRateLimitHeaders(rateLimit) } }
-      );
+      return rateLimitResponse(req, rateLimit.exceeded);
     }
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -153,6 +150,7 @@ Respond as JSON with this structure:
           ...currentExtractedData,
           enrichment: { ...enrichment, generatedAt: new Date().toISOString() },
         },
+        revision_source: 'enrichment',
       })
       .eq('id', entryId)
       .eq('user_id', userId);
@@ -3,16 +3,20 @@
  * 
  * Exports all user data in various formats (JSON, CSV, Markdown, TXT).
  * Includes entries, reports, and profile data.
+ *
+ * format 'archive' produces a versioned, restorable brain archive instead
+ * (see _shared/archive.ts) — the input restore-archive expects.
  */
 
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId, createServiceClient } from '../_shared/auth.ts';
 import { checkRateLimit, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/validation.ts';
+import { buildArchive } from '../_shared/archive.ts';
 
 interface ExportRequest {
-  format?: 'json' | 'csv' | 'markdown' | 'md' | 'txt';
+  format?: 'json' | 'csv' | 'markdown' | 'md' | 'txt' | 'archive';
 }
 
 Deno.serve(async (req) => {
@@ -30,15 +34,9 @@ Deno.serve(async (req) => {
     }
 
     // Rate limiting - limit exports (5 per hour)
-    const rateLimitResult = checkRateLimit(`export:${userId}`, { maxRequests: 5, windowMs: 3600000 });
+    const rateLimitResult = await checkRateLimit('export-all-data', userId);
     if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Export rate limit exceeded. Max 5 exports per hour.', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-        { 
-          status: 429, 
-          headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } 
-        }
-      );
+      return rateLimitResponse(req, rateLimitResult.exceeded);
     }
 
     // Parse format from request body
@@ -53,6 +51,21 @@ Deno.serve(async (req) => {
       return serverErrorResponse(req, 'Service configuration error');
     }
 
+    const timestamp = new Date().toISOString().split('T')[0];
+
+    if (format.toLowerCase() === 'archive') {
+      const archive = await buildArchive(serviceClient, userId);
+      console.log(`Archive export complete: ${JSON.stringify(archive.counts)}`);
+      return new Response(JSON.stringify(archive), {
+        headers: {
+          ...corsHeaders,
+          ...getRateLimitHeaders(rateLimitResult),
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="linkjac-archive-${timestamp}.json"`,
+        },
+      });
+    }
+
     // Fetch all entries
     const { data: entries, error: entriesError } = await serviceClient
       .from('entries')
@@ -105,7 +118,6 @@ Deno.serve(async (req) => {
     let responseContent: string;
     let contentType: string;
     let filename: string;
-    const timestamp = new Date().toISOString().split('T')[0];
 
     switch (format.toLowerCase()) {
       case 'csv':
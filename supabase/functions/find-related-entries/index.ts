@@ -10,10 +10,10 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
-import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { handleCors } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
-import { checkRateLimit, RATE_LIMIT_CONFIGS, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/validation.ts';
 
 interface FindRelatedRequest {
@@ -31,12 +31,9 @@ serve(async (req) => {
       return errorResponse(req, authError ?? 'Unauthorized', 401);
     }
 
-    const rateLimit = checkRateLimit(userId, RATE_LIMIT_CONFIGS.search);
+    const rateLimit = await checkRateLimit('find-related-entries', userId);
     if (!rateLimit.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded', retryAfter: Math.ceil(rateLimit.resetIn / 1000) }),
-        { status: 429, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json', ...getRateLimitHeaders(rateLimit) } }
-      );
+      return rateLimitResponse(req, rateLimit.exceeded);
     }
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -57,7 +54,7 @@ serve(async (req) => {
     // Fetch the source entry
     const { data: sourceEntry, error: fetchError } = await supabase
       .from('entries')
-      .select('id, content, title, content_type, tags, embedding, user_id')
+      .select('id, content, title, content_type, tags, embedding, embedding_model, user_id')
       .eq('id', entryId)
       .eq('user_id', userId)
       .single();
@@ -138,6 +135,7 @@ serve(async (req) => {
           match_threshold: 0.55,
           match_count: limit + 1,
           filter_user_id: userId,
+          filter_model: sourceEntry.embedding_model,
         });
 
         if (vectorResults) {
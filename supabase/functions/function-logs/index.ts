@@ -0,0 +1,165 @@
+/**
+ * function-logs — Edge function log explorer for BrainInspector
+ *
+ *   { environment?, slug?, taskId?, since?, until?, search?, limit? }
+ *
+ * Reads console output of one of the user's deploy environments (set on the
+ * Deploy page; production by default) through the Management API:
+ *
+ * - slug           — only that function's lines
+ * - since / until  — ISO time range (default: the last hour, at most 24h)
+ * - search         — case-insensitive substring
+ * - taskId         — the task's agent becomes the slug, its run time (padded)
+ *                    the range, and its agent_activity_log steps are returned
+ *                    for the page to interleave with the lines
+ *
+ * Called by the frontend (user JWT).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserId } from '../_shared/auth.ts';
+import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { parseJsonBody, isValidUUID } from '../_shared/validation.ts';
+import { listFunctions, queryFunctionLogs } from '../_shared/supabase-management.ts';
+
+interface LogsRequest {
+  environment?: 'staging' | 'production';
+  slug?: string;
+  taskId?: string;
+  since?: string;
+  until?: string;
+  search?: string;
+  limit?: number;
+}
+
+const SLUG_RE = /^[a-z][a-z0-9-]*$/;
+const DEFAULT_RANGE_MS = 60 * 60 * 1000;
+const MAX_RANGE_MS = 24 * 60 * 60 * 1000;
+// Lines just before a task row is created (the dispatch) and after it
+// finishes (the final writes) still belong to the run
+const TASK_LEAD_MS = 60 * 1000;
+const TASK_TRAIL_MS = 2 * 60 * 1000;
+
+function parseTime(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { data: body, error: parseError } = await parseJsonBody<LogsRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    const { userId, error: authError } = await extractUserId(req);
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    const environment = body.environment === 'staging' ? 'staging' : 'production';
+    if (body.slug !== undefined && body.slug !== '' && !SLUG_RE.test(String(body.slug))) {
+      return errorResponse(req, 'Invalid function slug', 400);
+    }
+    if (body.taskId !== undefined && !isValidUUID(body.taskId)) {
+      return errorResponse(req, 'taskId must be a UUID', 400);
+    }
+    if (body.limit !== undefined && (typeof body.limit !== 'number' || !Number.isFinite(body.limit))) {
+      return errorResponse(req, 'limit must be a number', 400);
+    }
+    const search = typeof body.search === 'string' ? body.search.trim().slice(0, 200) : '';
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    const { data: env } = await supabase
+      .from('deploy_environments')
+      .select('project_ref')
+      .eq('user_id', userId)
+      .eq('name', environment)
+      .eq('active', true)
+      .maybeSingle();
+    if (!env) {
+      return errorResponse(req, `No ${environment} environment — set it on the Deploy page to read function logs`, 409);
+    }
+    const projectRef = env.project_ref as string;
+
+    let slug = body.slug || null;
+    let start = parseTime(body.since);
+    let end = parseTime(body.until);
+    let task: Record<string, unknown> | null = null;
+    let steps: unknown[] = [];
+
+    if (body.taskId) {
+      const { data: taskRow } = await supabase
+        .from('agent_tasks')
+        .select('id, type, status, intent, agent, error, created_at, updated_at, completed_at')
+        .eq('id', body.taskId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (!taskRow) {
+        return errorResponse(req, 'Task not found', 404);
+      }
+      task = taskRow;
+
+      const { data: logRows } = await supabase
+        .from('agent_activity_log')
+        .select('id, task_id, user_id, agent, step, status, detail, duration_ms, created_at')
+        .eq('task_id', taskRow.id)
+        .order('created_at', { ascending: true });
+      steps = logRows || [];
+
+      slug = slug || (taskRow.agent as string | null);
+      const finishedAt = taskRow.completed_at || taskRow.updated_at;
+      start = start ?? new Date(new Date(taskRow.created_at).getTime() - TASK_LEAD_MS);
+      end = end ?? new Date(finishedAt ? new Date(finishedAt).getTime() + TASK_TRAIL_MS : Date.now());
+    }
+
+    end = end ?? new Date();
+    start = start ?? new Date(end.getTime() - DEFAULT_RANGE_MS);
+    if (start.getTime() >= end.getTime()) {
+      return errorResponse(req, 'since must be before until', 400);
+    }
+    if (end.getTime() - start.getTime() > MAX_RANGE_MS) {
+      start = new Date(end.getTime() - MAX_RANGE_MS);
+    }
+
+    let functionId: string | undefined;
+    if (slug) {
+      const functions = await listFunctions(projectRef);
+      const fn = functions.find(f => f.slug === slug);
+      if (!fn) {
+        return errorResponse(req, `Function "${slug}" is not deployed to ${environment}`, 404);
+      }
+      functionId = fn.id;
+    }
+
+    const lines = await queryFunctionLogs(projectRef, {
+      functionId,
+      search: search || undefined,
+      start,
+      end,
+      limit: body.limit,
+    });
+
+    return successResponse(req, {
+      environment,
+      projectRef,
+      slug,
+      range: { since: start.toISOString(), until: end.toISOString() },
+      lines,
+      task,
+      steps,
+    });
+  } catch (error) {
+    console.error('[function-logs] Error:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
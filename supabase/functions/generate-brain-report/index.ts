@@ -4,10 +4,10 @@
  * Uses Anthropic Claude to generate periodic summaries and insights.
  */
 
-import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { handleCors } from '../_shared/cors.ts';
 import { extractUserId, createServiceClient } from '../_shared/auth.ts';
-import { checkRateLimit, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/validation.ts';
 import { callClaude, parseToolUse, CLAUDE_MODELS, ClaudeError } from '../_shared/anthropic.ts';
 
@@ -27,12 +27,9 @@ Deno.serve(async (req) => {
       return errorResponse(req, authError || 'Authorization required', 401);
     }
 
-    const rateLimitResult = checkRateLimit(`report:${userId}`, { maxRequests: 10, windowMs: 3600000 });
+    const rateLimitResult = await checkRateLimit('generate-brain-report', userId);
     if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded. Reports are limited to 10 per hour.', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-        { status: 429, headers: { ...getCorsHeaders(req), ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } }
-      );
+      return rateLimitResponse(req, rateLimitResult.exceeded);
     }
 
     const { data: body } = await parseJsonBody<ReportRequest>(req);
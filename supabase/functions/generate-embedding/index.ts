@@ -1,17 +1,21 @@
 /**
- * generate-embedding — Vector Embeddings via Voyage AI
+ * generate-embedding — Vector embeddings via the configured provider
  *
- * Uses voyage-3-lite (512 dimensions, $0.02/M tokens).
- * Requires VOYAGE_API_KEY in Supabase secrets.
- * Falls back gracefully if key not configured.
+ * Embeds with the active model from embedding_config (voyage-3-lite, 512
+ * dimensions, unless switched). Providers live in _shared/embeddings.ts.
+ *
+ * Body: { text, input_type?: 'document' | 'query', model?, include_next? }
+ * - model: embed with a specific model id instead of the active one
+ * - include_next: while an embedding migration runs, also return the query
+ *   embedded with the new model (`next`) so callers can search both
+ * Falls back gracefully (501 NOT_CONFIGURED) if the provider has no key.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
-
-const VOYAGE_API_URL = 'https://api.voyageai.com/v1/embeddings';
-const VOYAGE_MODEL = 'voyage-3-lite';
+import { embedTexts, getEmbeddingState, EmbeddingError } from '../_shared/embeddings.ts';
 
 serve(async (req) => {
   const corsResponse = handleCors(req);
@@ -29,15 +33,6 @@ serve(async (req) => {
   }
 
   try {
-    const apiKey = Deno.env.get('VOYAGE_API_KEY');
-    if (!apiKey) {
-      console.error('generate-embedding: VOYAGE_API_KEY not configured');
-      return new Response(
-        JSON.stringify({ error: 'Embedding service not configured', code: 'NOT_CONFIGURED' }),
-        { status: 501, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const body = await req.json();
     const text = body.text as string;
     const inputType = (body.input_type === 'query') ? 'query' : 'document';
@@ -49,55 +44,50 @@ serve(async (req) => {
       );
     }
 
-    // Truncate to ~8000 chars to stay within token limits
-    const truncated = text.slice(0, 8000);
-
-    const voyageRes = await fetch(VOYAGE_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: VOYAGE_MODEL,
-        input: [truncated],
-        input_type: inputType,
-      }),
-    });
-
-    if (!voyageRes.ok) {
-      const errText = await voyageRes.text();
-      console.error('Voyage API error:', voyageRes.status, errText);
-      return new Response(
-        JSON.stringify({ error: `Embedding API failed: ${voyageRes.status}`, detail: errText.slice(0, 200) }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const voyageData = await voyageRes.json();
-    const embedding = voyageData.data?.[0]?.embedding;
-
-    if (!embedding || !Array.isArray(embedding)) {
-      console.error('Voyage returned unexpected format:', JSON.stringify(voyageData).slice(0, 200));
-      return new Response(
-        JSON.stringify({ error: 'Embedding API returned unexpected format' }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+    const state = await getEmbeddingState(supabase);
+    const modelId = typeof body.model === 'string' && body.model ? body.model : state.activeModel;
+
+    const { model, vectors, tokens } = await embedTexts(modelId, [text], inputType);
+    const embedding = vectors[0];
+
+    let next: { embedding: number[]; dimensions: number; model: string } | undefined;
+    if (body.include_next === true && state.migration && state.migration.toModel !== model.id) {
+      try {
+        const nextResult = await embedTexts(state.migration.toModel, [text], inputType);
+        next = { embedding: nextResult.vectors[0], dimensions: nextResult.model.dimensions, model: nextResult.model.id };
+      } catch (err) {
+        // The active vector alone still answers the search
+        console.warn('generate-embedding: next-model embedding failed:', err instanceof Error ? err.message : err);
+      }
     }
 
-    console.log(`generate-embedding: ${embedding.length}-dim vector for ${truncated.length} chars (tokens: ${voyageData.usage?.total_tokens || '?'})`);
+    console.log(`generate-embedding: ${embedding.length}-dim ${model.id} vector for ${Math.min(text.length, 8000)} chars (tokens: ${tokens || '?'})${next ? ` + ${next.model}` : ''}`);
 
     return new Response(
       JSON.stringify({
         embedding,
         dimensions: embedding.length,
-        model: VOYAGE_MODEL,
-        tokens: voyageData.usage?.total_tokens || 0,
+        model: model.id,
+        tokens,
+        ...(next ? { next } : {}),
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof EmbeddingError) {
+      if (error.code === 'NOT_CONFIGURED') {
+        console.error(`generate-embedding: ${error.message}`);
+      }
+      return new Response(
+        JSON.stringify({ error: error.message, ...(error.code ? { code: error.code } : {}) }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     console.error('generate-embedding error:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
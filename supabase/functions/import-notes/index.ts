@@ -0,0 +1,284 @@
+/**
+ * import-notes — Markdown vault import
+ *
+ * The browser unzips the vault and parses each note (src/lib/vaultImport.ts),
+ * then calls this function in small batches so it can show progress:
+ *
+ *   { action: 'import', notes: ImportNote[] }  → run each note through the
+ *       smart-save pipeline (classify → embed → extract-entities), keeping
+ *       the note's title, tags and dates. Notes whose content already exists
+ *       come back as 'duplicate' with the existing entry id.
+ *   { action: 'link', links: [{ entryId, relatedEntryId }] } → store resolved
+ *       [[wikilinks]] as entry_relationships (type 'wikilink').
+ *
+ * Imported notes never get event/reminder fields — an old journal entry
+ * mentioning a date shouldn't turn into a due reminder.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserId } from '../_shared/auth.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
+import {
+  sanitizeString,
+  validateContentLength,
+  validateStringArray,
+  escapeForLike,
+  isValidUUID,
+  parseJsonBody,
+} from '../_shared/validation.ts';
+import {
+  checkSmartCollections,
+  classifyAndScore,
+  embedEntry,
+  extractEntities,
+  normalizeContent,
+  type PipelineContext,
+} from '../_shared/entryPipeline.ts';
+
+const MAX_NOTES_PER_BATCH = 10;
+const MAX_LINKS_PER_BATCH = 500;
+const MAX_CONTENT_LENGTH = 100000;
+/** Leading characters used to find dedupe candidates before comparing in full */
+const DEDUPE_PREFIX_LENGTH = 120;
+
+interface ImportNote {
+  path: string;
+  title?: string;
+  content: string;
+  tags?: string[];
+  createdAt?: string;
+  updatedAt?: string;
+  frontMatter?: Record<string, unknown>;
+}
+
+interface ImportRequest {
+  action?: 'import' | 'link';
+  notes?: ImportNote[];
+  links?: Array<{ entryId: string; relatedEntryId: string }>;
+}
+
+type NoteStatus = 'created' | 'duplicate' | 'failed';
+
+interface NoteResult {
+  path: string;
+  status: NoteStatus;
+  entryId?: string;
+  error?: string;
+}
+
+function validIso(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+/** Existing entry with the same content (whitespace/case-insensitive), if any */
+async function findDuplicate(
+  supabase: SupabaseClient,
+  userId: string,
+  title: string,
+  content: string
+): Promise<string | null> {
+  const prefix = escapeForLike(content.slice(0, DEDUPE_PREFIX_LENGTH));
+  const [byPrefix, byTitle] = await Promise.all([
+    supabase
+      .from('entries')
+      .select('id, content')
+      .eq('user_id', userId)
+      .ilike('content', `${prefix}%`)
+      .limit(20),
+    supabase
+      .from('entries')
+      .select('id, content')
+      .eq('user_id', userId)
+      .eq('title', title)
+      .limit(20),
+  ]);
+
+  const target = normalizeContent(content);
+  for (const row of [...(byPrefix.data ?? []), ...(byTitle.data ?? [])]) {
+    if (normalizeContent(row.content as string) === target) return row.id as string;
+  }
+  return null;
+}
+
+async function importNote(pipeline: PipelineContext, note: ImportNote): Promise<NoteResult> {
+  const path = sanitizeString(note.path).slice(0, 500) || 'untitled.md';
+  const content = sanitizeString(note.content);
+  const contentCheck = validateContentLength(content, MAX_CONTENT_LENGTH);
+  if (!content || !contentCheck.valid) {
+    return { path, status: 'failed', error: contentCheck.error ?? 'Empty note' };
+  }
+
+  const title = sanitizeString(note.title).slice(0, 200) || path.split('/').pop()!.replace(/\.(md|markdown)$/i, '');
+  const tagCheck = validateStringArray(note.tags ?? [], { maxItems: 50, maxLength: 100 });
+  const noteTags = tagCheck.valid ? tagCheck.sanitized! : [];
+
+  const existingId = await findDuplicate(pipeline.supabase, pipeline.userId, title, content);
+  if (existingId) {
+    return { path, status: 'duplicate', entryId: existingId };
+  }
+
+  const { classification, importanceScore } = await classifyAndScore(pipeline, content);
+
+  // Note tags first — they're the user's own; classifier tags fill in after
+  const seen = new Set<string>();
+  const tags = [...noteTags, ...(classification.tags ?? [])].filter((tag) => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const createdAt = validIso(note.createdAt);
+  const updatedAt = validIso(note.updatedAt) ?? createdAt;
+
+  const entryData: Record<string, unknown> = {
+    user_id: pipeline.userId,
+    content,
+    title,
+    content_type: classification.type,
+    content_subtype: classification.subtype || null,
+    tags,
+    extracted_data: {
+      ...classification.extractedData,
+      import: {
+        path,
+        frontMatter: note.frontMatter ?? {},
+        importedAt: new Date().toISOString(),
+      },
+    },
+    embedding: null,
+    importance_score: importanceScore,
+    list_items: classification.listItems || [],
+    source: 'import',
+  };
+  if (createdAt) entryData.created_at = createdAt;
+  if (updatedAt) entryData.updated_at = updatedAt;
+
+  const { data: entry, error: insertError } = await pipeline.supabase
+    .from('entries')
+    .insert(entryData)
+    .select('id')
+    .single();
+
+  if (insertError || !entry) {
+    console.error(`[import-notes] Insert failed for ${path}:`, insertError);
+    return { path, status: 'failed', error: 'Failed to save entry' };
+  }
+
+  // Awaited (unlike smart-save) — the client is waiting on the batch anyway,
+  // and semantic relationships should exist before wikilinks are added
+  const embeddingText = `${title} | ${classification.type} | ${tags.join(', ')} | ${content}`.slice(0, 8000);
+  await Promise.all([
+    embedEntry(pipeline, entry.id, embeddingText)
+      .catch((err) => console.warn(`[import-notes] Embedding failed for ${path} (non-blocking):`, err))
+      .then(() => checkSmartCollections(pipeline, entry.id)),
+    extractEntities(pipeline, entry.id, content),
+  ]);
+
+  return { path, status: 'created', entryId: entry.id };
+}
+
+async function storeWikilinks(
+  supabase: SupabaseClient,
+  userId: string,
+  links: Array<{ entryId: string; relatedEntryId: string }>
+): Promise<number> {
+  const valid = links.filter((l) => isValidUUID(l.entryId) && isValidUUID(l.relatedEntryId) && l.entryId !== l.relatedEntryId);
+  if (valid.length === 0) return 0;
+
+  // Both ends must belong to the caller
+  const ids = [...new Set(valid.flatMap((l) => [l.entryId, l.relatedEntryId]))];
+  const { data: owned } = await supabase
+    .from('entries')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', ids);
+  const ownedIds = new Set((owned ?? []).map((r) => r.id as string));
+
+  const rows = valid
+    .filter((l) => ownedIds.has(l.entryId) && ownedIds.has(l.relatedEntryId))
+    .map((l) => ({
+      entry_id: l.entryId,
+      related_entry_id: l.relatedEntryId,
+      user_id: userId,
+      similarity_score: 1,
+      relationship_type: 'wikilink',
+    }));
+  if (rows.length === 0) return 0;
+
+  // An explicit link outranks a semantic guess for the same pair
+  const { error } = await supabase
+    .from('entry_relationships')
+    .upsert(rows, { onConflict: 'entry_id,related_entry_id' });
+  if (error) throw error;
+  return rows.length;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { userId, error: authError } = await extractUserId(req);
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    const rateLimit = await checkRateLimit('import-notes', userId);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(req, rateLimit.exceeded);
+    }
+
+    const { data: body, error: parseError } = await parseJsonBody<ImportRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    if (body.action === 'link') {
+      const links = Array.isArray(body.links) ? body.links : [];
+      if (links.length > MAX_LINKS_PER_BATCH) {
+        return errorResponse(req, `Too many links (max ${MAX_LINKS_PER_BATCH} per request)`, 400);
+      }
+      const linked = await storeWikilinks(supabase, userId, links);
+      return successResponse(req, { success: true, linked }, 200, rateLimit);
+    }
+
+    const notes = Array.isArray(body.notes) ? body.notes : [];
+    if (notes.length === 0) {
+      return errorResponse(req, 'notes is required', 400);
+    }
+    if (notes.length > MAX_NOTES_PER_BATCH) {
+      return errorResponse(req, `Too many notes (max ${MAX_NOTES_PER_BATCH} per request)`, 400);
+    }
+
+    const pipeline: PipelineContext = { supabase, supabaseUrl, serviceKey, userId };
+
+    // Sequential so a duplicate later in the same batch sees the earlier insert
+    const results: NoteResult[] = [];
+    for (const note of notes) {
+      try {
+        results.push(await importNote(pipeline, note));
+      } catch (err) {
+        console.error('[import-notes] Note failed:', note?.path, err);
+        results.push({ path: String(note?.path ?? ''), status: 'failed', error: err instanceof Error ? err.message : 'Import failed' });
+      }
+    }
+
+    const created = results.filter((r) => r.status === 'created').length;
+    console.log(`[import-notes] ${userId}: ${created}/${results.length} created`);
+
+    return successResponse(req, { success: true, results }, 200, rateLimit);
+  } catch (error) {
+    console.error('Error in import-notes function:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
@@ -7,8 +7,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
-import { checkRateLimit, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 
 Deno.serve(async (req) => {
   // Handle CORS preflight
@@ -25,15 +25,9 @@ Deno.serve(async (req) => {
     }
 
     // Rate limiting - limit to prevent abuse
-    const rateLimitResult = checkRateLimit(`sample:${userId}`, { maxRequests: 3, windowMs: 3600000 });
+    const rateLimitResult = await checkRateLimit('insert-sample-data', userId);
     if (!rateLimitResult.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Sample data can only be inserted 3 times per hour.', retryAfter: Math.ceil(rateLimitResult.resetIn / 1000) }),
-        { 
-          status: 429, 
-          headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' } 
-        }
-      );
+      return rateLimitResponse(req, rateLimitResult.exceeded);
     }
 
     console.log(`Inserting sample entries for user: ${userId}`);
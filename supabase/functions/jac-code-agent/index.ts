@@ -3,15 +3,26 @@
  *
  * Called by jac-dispatcher via service role fetch. Does real work:
  * 1. Load project from code_projects
- * 2. Fetch repo file tree via GitHub API
+ * 2. Fetch repo file tree via the project's git provider (GitHub, GitLab, Gitea)
  * 3. Claude Sonnet plans changes (which files to read, what to change)
  * 4. Read relevant files from repo
  * 5. Claude Sonnet writes code
+ * 5b. Validate the proposed files in code-sandbox (syntax, type-check,
+ *     lint) and correct them until they pass — before anything is pushed
  * 6. Create branch, commit files, open PR
+ * 6b. Self-review, then merge — or park for human approval when the
+ *     project's merge policy says so (see _shared/mergePolicy.ts) or the
+ *     files still fail sandbox validation
  * 7. Save summary to brain via smart-save
  * 8. Slack notification
  * 9. Update task status
  *
+ * Follow-ups (sessionId) continue a session whose PR is still open: files
+ * are read from its branch, the new commit goes on top, self-review runs
+ * again and the same code_sessions row is updated — no new branch or PR.
+ * CI retries (ciRetry, from poll-ci) re-apply a change that was reverted for
+ * breaking CI, with the failure output and the reverted diff as context.
+ *
  * Every step is logged to agent_activity_log for full observability.
  */
 
@@ -22,8 +33,98 @@ import { callClaude, CLAUDE_MODELS, parseTextContent, parseToolUse, calculateCos
 import type { ModelTier } from '../_shared/anthropic.ts';
 import { notifySlack } from '../_shared/slack.ts';
 import { createAgentLogger } from '../_shared/logger.ts';
-import { getRepoTree, getFileContent, createBranch, commitFiles, createPR, mergePR, getPullRequestDiff, getCheckRuns, revertCommit, isSecretFile } from '../_shared/github.ts';
-import type { FileChange } from '../_shared/github.ts';
+import { getGitProvider, splitRepoFullName, isSecretFile } from '../_shared/gitProvider.ts';
+import type { FileChange, GitProvider } from '../_shared/gitProvider.ts';
+import { isSelfDeployingRepo, mergeApprovalReason, requestMergeApproval } from '../_shared/mergePolicy.ts';
+import { codeIdentifiersInText, lookupSymbolReferences } from '../_shared/symbolLookup.ts';
+import { advanceTaskGraph } from '../_shared/taskGraph.ts';
+
+// code-sandbox response (see _shared/codeChecks.ts — not imported, it pulls in the TypeScript compiler)
+interface SandboxDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+interface SandboxOutcome {
+  passed: boolean;
+  durationMs: number;
+  results: Array<{
+    type: 'syntax' | 'typecheck' | 'lint';
+    passed: boolean;
+    skipped?: string;
+    durationMs: number;
+    diagnostics: SandboxDiagnostic[];
+  }>;
+}
+
+function formatSandboxDiagnostic(d: SandboxDiagnostic): string {
+  return `${d.file}:${d.line}:${d.column} ${d.code}: ${d.message}`;
+}
+
+function summarizeSandboxCheck(result: SandboxOutcome['results'][number]): string {
+  if (result.skipped) return `Skipped — ${result.skipped}`;
+  const errors = result.diagnostics.filter(d => d.severity === 'error');
+  const warnings = result.diagnostics.length - errors.length;
+  const header = `${errors.length} error(s), ${warnings} warning(s)`;
+  return [header, ...result.diagnostics.slice(0, 30).map(d => `${d.severity}: ${formatSandboxDiagnostic(d)}`)].join('\n');
+}
+
+/** Errors (not warnings) for a correction prompt */
+function sandboxErrorList(outcome: SandboxOutcome, max = 40): string {
+  const errors = outcome.results.flatMap(r =>
+    r.diagnostics.filter(d => d.severity === 'error').map(d => `[${r.type}] ${formatSandboxDiagnostic(d)}`)
+  );
+  const shown = errors.slice(0, max);
+  if (errors.length > max) shown.push(`... ${errors.length - max} more`);
+  return shown.join('\n');
+}
+
+// Follow-ups need the session's PR still open: never merged, closed or failed
+const CONTINUABLE_STATUSES = ['completed', 'awaiting_approval', 'changes_requested'];
+
+interface FollowUpSession {
+  id: string;
+  user_id: string;
+  project_id: string;
+  task_id: string | null;
+  status: string;
+  intent: string;
+  plan: string | null;
+  branch_name: string;
+  commit_sha: string | null;
+  commits: string[] | null;
+  pr_number: number | null;
+  pr_url: string | null;
+  merge_sha: string | null;
+  files_read: string[] | null;
+  files_changed: string[] | null;
+  iteration_count: number | null;
+  total_cost_usd: number | null;
+  review_feedback: string | null;
+  context: Record<string, unknown> | null;
+}
+
+// Sent by poll-ci after it reverted a merge that broke CI
+interface CiRetryContext {
+  /** First session of the retry chain */
+  sessionId: string;
+  attempt: number;
+  maxAttempts: number;
+  revertedSha: string;
+  revertSha: string;
+  failedChecks: string;
+  failureOutput: string;
+  originalDiff: string;
+}
+
+/** Files a unified diff touches (new paths) */
+function diffFilePaths(diff: string): string[] {
+  return [...diff.matchAll(/^diff --git a\/\S+ b\/(\S+)$/gm)].map(m => m[1]);
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -46,8 +147,19 @@ serve(async (req) => {
   let userId: string | undefined;
   let slackChannel: string | undefined;
   let slackThinkingTs: string | undefined;
+  let followUp: FollowUpSession | null = null;
   const startTime = Date.now();
 
+  // A cancelled or failed follow-up hands the session back unchanged
+  async function releaseFollowUp() {
+    if (!followUp) return;
+    await supabase
+      .from('code_sessions')
+      .update({ status: followUp.status, task_id: followUp.task_id })
+      .eq('id', followUp.id)
+      .eq('status', 'active');
+  }
+
   try {
     const body = await req.json();
     taskId = body.taskId;
@@ -57,10 +169,13 @@ serve(async (req) => {
     const projectId = body.projectId as string;
     const projectName = (body.projectName as string) || '';
     const repoFullName = (body.repoFullName as string) || '';
+    const sessionId = body.sessionId as string | undefined;
+    const ciRetry = (body.ciRetry as CiRetryContext | undefined) ?? null;
     slackChannel = body.slack_channel as string | undefined;
     slackThinkingTs = body.slack_thinking_ts as string | undefined;
     const brainContext = (body.brainContext as string) || '';
     const conversationContext = (body.conversation_context as string) || '';
+    const upstreamContext = (body.upstreamContext as string) || '';
     const modelTier = (body.modelTier as ModelTier) || 'sonnet';
     const codeModel = resolveModel(modelTier);
 
@@ -86,7 +201,14 @@ serve(async (req) => {
       .update({ status: 'running', updated_at: new Date().toISOString() })
       .eq('id', taskId);
 
-    await log.info('task_started', { query, projectId, projectName, modelTier });
+    await log.info('task_started', {
+      query,
+      projectId,
+      projectName,
+      modelTier,
+      ...(sessionId ? { sessionId } : {}),
+      ...(ciRetry ? { ciRetryOf: ciRetry.sessionId, attempt: ciRetry.attempt } : {}),
+    });
 
     // ─── Step 1: resolve_project ───
     const projectStep = await log.step('resolve_project', { projectId });
@@ -103,36 +225,85 @@ serve(async (req) => {
 
     const repoFull = (project.repo_full_name as string) || repoFullName;
     const defaultBranch = (project.default_branch as string) || 'main';
-    const [owner, repo] = repoFull.split('/');
+    const { owner, repo } = splitRepoFullName(repoFull);
 
     if (!owner || !repo) {
       await projectStep.fail(`Invalid repo_full_name: ${repoFull}`);
       throw new Error(`Invalid repo_full_name: ${repoFull}`);
     }
 
-    await projectStep({ repoFull, defaultBranch });
+    let git: GitProvider;
+    try {
+      git = getGitProvider(project);
+    } catch (providerErr) {
+      const message = providerErr instanceof Error ? providerErr.message : String(providerErr);
+      await projectStep.fail(message);
+      throw providerErr;
+    }
+
+    await projectStep({ repoFull, defaultBranch, provider: git.kind });
+
+    // ─── Step 1a: resume_session — follow-ups work on the session's open PR ───
+    if (sessionId) {
+      const resumeStep = await log.step('resume_session', { sessionId });
+      const { data: existing, error: sessionError } = await supabase
+        .from('code_sessions')
+        .select('id, user_id, project_id, task_id, status, intent, plan, branch_name, commit_sha, commits, pr_number, pr_url, merge_sha, files_read, files_changed, iteration_count, total_cost_usd, review_feedback, context')
+        .eq('id', sessionId)
+        .single();
+
+      const candidate = existing as FollowUpSession | null;
+      const problem = sessionError || !candidate ? (sessionError?.message || 'Session not found')
+        : candidate.user_id !== userId || candidate.project_id !== projectId ? 'Session belongs to another project'
+        : !candidate.pr_number || candidate.merge_sha ? 'Session has no open PR'
+        : !CONTINUABLE_STATUSES.includes(candidate.status) ? `Session is ${candidate.status.replace(/_/g, ' ')}`
+        : null;
+      if (problem || !candidate) {
+        await resumeStep.fail(problem || 'Session not found');
+        throw new Error(`Cannot continue session ${sessionId}: ${problem}`);
+      }
+
+      // Claim it so a second follow-up can't race this one onto the branch
+      const { data: claimed } = await supabase
+        .from('code_sessions')
+        .update({ status: 'active', task_id: taskId })
+        .eq('id', candidate.id)
+        .eq('status', candidate.status)
+        .select('id');
+      if (!claimed || claimed.length === 0) {
+        await resumeStep.fail('Session is busy with another follow-up');
+        throw new Error(`Session ${sessionId} is busy with another follow-up`);
+      }
+      followUp = candidate;
+      await resumeStep({ branchName: followUp.branch_name, prNumber: followUp.pr_number, iteration: (followUp.iteration_count ?? 0) + 1 });
+    }
+
+    // Follow-ups read and validate against the PR branch
+    const workRef = followUp?.branch_name ?? defaultBranch;
 
     // ─── Step 2: fetch_tree ───
-    const treeStep = await log.step('fetch_tree', { repoFull, defaultBranch });
-    const rawTree = await getRepoTree(owner, repo, defaultBranch);
+    const treeStep = await log.step('fetch_tree', { repoFull, defaultBranch, ref: workRef });
+    const rawTree = await git.getRepoTree(owner, repo, workRef);
     const fileTree = rawTree.filter(f => !isSecretFile(f));
     await treeStep({ totalFiles: rawTree.length, filteredFiles: fileTree.length });
 
     // ─── Step 2a: fetch CLAUDE.md for project conventions ───
     let claudeMd = '';
     try {
-      const claudeMdFile = await getFileContent(owner, repo, 'CLAUDE.md', defaultBranch);
+      const claudeMdFile = await git.getFileContent(owner, repo, 'CLAUDE.md', workRef);
       claudeMd = claudeMdFile.content.slice(0, 8000);
       console.log(`[code-agent] Found CLAUDE.md (${claudeMd.length} chars)`);
     } catch {
       // No CLAUDE.md in this repo — skip
     }
 
-    // Cache tree on project
-    await supabase
-      .from('code_projects')
-      .update({ file_tree_cache: fileTree, updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    // Cache tree on project (the default branch's — a PR branch may never merge)
+    if (!followUp) {
+      await supabase
+        .from('code_projects')
+        .update({ file_tree_cache: fileTree, updated_at: new Date().toISOString() })
+        .eq('id', projectId);
+    }
 
     // ─── Kill switch check ───
     async function checkCancelled(): Promise<boolean> {
@@ -144,14 +315,19 @@ serve(async (req) => {
       return data?.status === 'cancelled';
     }
 
-    if (await checkCancelled()) {
-      await log.info('task_cancelled', { step: 'before_plan' });
+    async function cancelledResponse(step: string): Promise<Response> {
+      await releaseFollowUp();
+      await log.info('task_cancelled', { step });
       return new Response(JSON.stringify({ cancelled: true }), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
+    if (await checkCancelled()) {
+      return cancelledResponse('before_plan');
+    }
+
     // ─── Step 2b: load past sessions for this project ───
     let pastSessionsBlock = '';
     try {
@@ -173,9 +349,69 @@ serve(async (req) => {
       console.warn('[code-agent] Past sessions lookup failed (non-blocking):', err);
     }
 
+    // ─── Step 2c: symbol index — where symbols named in the request live and who imports them ───
+    let symbolBlock = '';
+    const symbolRelatedFiles = new Set<string>();
+    try {
+      const identifiers = codeIdentifiersInText(query).slice(0, 8);
+      const refs = (await Promise.all(
+        identifiers.map(name => lookupSymbolReferences(supabase, projectId, name))
+      )).filter(r => r !== null);
+
+      if (refs.length > 0) {
+        for (const ref of refs) {
+          for (const def of ref.definedIn) symbolRelatedFiles.add(def.path);
+          for (const path of ref.importedBy) symbolRelatedFiles.add(path);
+        }
+        symbolBlock = '\n=== SYMBOL INDEX ===\nSymbols named in the request. Renaming, moving or changing the signature of one means updating every file that imports it:\n' +
+          refs.map(ref => {
+            const defined = ref.definedIn.map(d => `${d.path}:${d.line}`).join(', ');
+            const importers = ref.importedBy.length > 0
+              ? `imported by ${ref.importedBy.length} file(s): ${ref.importedBy.slice(0, 30).join(', ')}${ref.importedBy.length > 30 ? ', ...' : ''}`
+              : 'not imported anywhere';
+            return `- ${ref.name} (${ref.kind}) — defined in ${defined}; ${importers}`;
+          }).join('\n') + '\n';
+        await log.info('symbol_lookup', {
+          symbols: refs.map(r => r.name),
+          relatedFiles: symbolRelatedFiles.size,
+          message: refs.map(r => `${r.name}: ${r.importedBy.length} importer(s)`).join(', '),
+        });
+      }
+    } catch (err) {
+      console.warn('[code-agent] Symbol index lookup failed (non-blocking):', err);
+    }
+
+    // ─── Step 2d: follow-up context — what the open PR already changes ───
+    let followUpBlock = '';
+    if (followUp) {
+      let prDiff = '';
+      try {
+        prDiff = await git.getPullRequestDiff(owner, repo, followUp.pr_number!);
+      } catch (err) {
+        console.warn('[code-agent] PR diff fetch failed (non-blocking):', err);
+      }
+      followUpBlock = `\n=== CONTINUING PR #${followUp.pr_number} (branch ${followUp.branch_name}) ===
+The request is a follow-up on this open PR. Files are as they are on the PR branch; change only what the request asks for.
+To revert part of the PR, restore the base version shown by the "-" lines of the diff.
+ORIGINAL REQUEST: ${followUp.intent}
+${followUp.plan ? `ORIGINAL PLAN:\n${followUp.plan.slice(0, 3000)}\n` : ''}${followUp.review_feedback ? `REVIEWER FEEDBACK:\n${followUp.review_feedback}\n` : ''}FILES CHANGED SO FAR: ${(followUp.files_changed || []).join(', ')}
+${prDiff ? `\nCURRENT PR DIFF:\n${prDiff.slice(0, 20000)}\n` : ''}`;
+    }
+
+    // ─── Step 2e: CI retry context — the reverted change and why CI failed ───
+    const ciRetryBlock = ciRetry ? `\n=== CI RETRY (attempt ${ciRetry.attempt} of ${ciRetry.maxAttempts}) ===
+This change was merged, broke CI on ${defaultBranch} and was reverted${ciRetry.revertSha ? ` (${ciRetry.revertSha.slice(0, 8)})` : ''}, so ${defaultBranch} no longer has it.
+Re-apply it with the CI failure fixed.
+FAILED CHECKS:
+${ciRetry.failedChecks || '(unknown)'}
+${ciRetry.failureOutput ? `\nFAILURE OUTPUT:\n${ciRetry.failureOutput}\n` : ''}${ciRetry.originalDiff ? `\nREVERTED DIFF:\n${ciRetry.originalDiff.slice(0, 20000)}\n` : ''}` : '';
+
     // ─── Step 3: plan ───
     const planStep = await log.step('plan', { query, fileCount: fileTree.length });
 
+    // Follow-ups and CI retries build on an earlier PR's files
+    const priorFiles = followUp?.files_changed ?? (ciRetry ? diffFilePaths(ciRetry.originalDiff) : []);
+
     const planTools = [
       {
         name: 'submit_plan',
@@ -213,12 +449,12 @@ ${techStack.length > 0 ? `TECH STACK: ${techStack.join(', ')}` : ''}
 ${projectDescription ? `DESCRIPTION: ${projectDescription}` : ''}
 ${claudeMd ? `\n=== PROJECT CONVENTIONS (CLAUDE.md) ===\nFollow these project-specific rules and patterns:\n${claudeMd}\n` : ''}
 USER REQUEST: ${query}
-${brainContext ? `\n=== USER'S BRAIN CONTEXT ===\nThese are related notes, decisions, and past work from the user's brain:\n${brainContext}\n` : ''}${conversationContext ? `\n=== RECENT CONVERSATION ===\nRecent messages for context on what the user has been discussing:\n${conversationContext.slice(0, 4000)}\n` : ''}${pastSessionsBlock}
+${upstreamContext ? `\n=== RESULTS FROM EARLIER STEPS ===\nThis request builds on these tasks from the same message:\n${upstreamContext}\n` : ''}${brainContext ? `\n=== USER'S BRAIN CONTEXT ===\nThese are related notes, decisions, and past work from the user's brain:\n${brainContext}\n` : ''}${conversationContext ? `\n=== RECENT CONVERSATION ===\nRecent messages for context on what the user has been discussing:\n${conversationContext.slice(0, 4000)}\n` : ''}${pastSessionsBlock}${symbolBlock}${followUpBlock}${ciRetryBlock}
 FILE TREE (${fileTree.length} files):
 ${fileTree.join('\n')}
 
 Instructions:
-- Select up to 15 files you need to read for context
+- Select up to 15 files you need to read for context${symbolBlock ? ' (files in the SYMBOL INDEX section are read for you)' : ''}${priorFiles.length > 0 ? ' (files changed by the PR are read for you)' : ''}
 - Write a clear step-by-step plan of what to change
 - Generate a short branch slug (lowercase, hyphens, no spaces) like "fix-auth-bug" or "add-dark-mode"
 - Be specific about which files to create/modify and what changes to make
@@ -241,12 +477,17 @@ Instructions:
     }
 
     const rawFilesToRead = planResult.input.filesToRead;
-    const filesToRead = (Array.isArray(rawFilesToRead) ? rawFilesToRead : rawFilesToRead ? [rawFilesToRead] : []).slice(0, 15) as string[];
+    const plannedFiles = (Array.isArray(rawFilesToRead) ? rawFilesToRead : rawFilesToRead ? [rawFilesToRead] : []).slice(0, 15) as string[];
+    // Files the PR already changes, then definitions and importers from the symbol index, up to 25 reads total
+    const sessionFiles = priorFiles.filter(p => !plannedFiles.includes(p) && fileTree.includes(p));
+    const indexedFiles = [...symbolRelatedFiles].filter(p => !plannedFiles.includes(p) && !sessionFiles.includes(p) && fileTree.includes(p));
+    const filesToRead = [...plannedFiles, ...sessionFiles, ...indexedFiles].slice(0, 25);
     const plan = (planResult.input.plan as string) || '';
     const branchSlug = (planResult.input.branchSlug as string) || 'code-change';
 
     await planStep({
       filesToRead: filesToRead.length,
+      fromSymbolIndex: filesToRead.length - plannedFiles.length,
       planLength: plan.length,
       branchSlug,
       inputTokens: planResponse.usage?.input_tokens,
@@ -261,7 +502,7 @@ Instructions:
     const readResults = await Promise.all(
       filesToRead.map(async (filePath) => {
         try {
-          const file = await getFileContent(owner, repo, filePath, defaultBranch);
+          const file = await git.getFileContent(owner, repo, filePath, workRef);
           return { ok: true as const, path: file.path, content: file.content };
         } catch (err) {
           const msg = err instanceof Error ? err.message : 'Unknown error';
@@ -278,11 +519,7 @@ Instructions:
 
     // ─── Kill switch check ───
     if (await checkCancelled()) {
-      await log.info('task_cancelled', { step: 'before_write_code' });
-      return new Response(JSON.stringify({ cancelled: true }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return cancelledResponse('before_write_code');
     }
 
     // ─── Step 5: write_code ───
@@ -335,7 +572,7 @@ PROJECT: ${projectName || repoFull}
 REPO: ${repoFull}
 ${claudeMd ? `\n=== PROJECT CONVENTIONS (CLAUDE.md) ===\nFollow these project-specific rules and patterns:\n${claudeMd}\n` : ''}${conversationContext ? `\n=== RECENT CONVERSATION ===\n${conversationContext.slice(0, 4000)}\n` : ''}
 USER REQUEST: ${query}
-
+${followUpBlock}${ciRetryBlock}
 PLAN:
 ${plan}
 
@@ -398,32 +635,179 @@ Instructions:
       totalCostUsd: totalCost,
     });
 
+    // ─── Step 5b: sandbox_validate — check the files before anything is pushed ───
+    // Results are buffered and written to code_validations once the session exists.
+    const SANDBOX_TIMEOUT_MS = 30_000;
+    const MAX_SANDBOX_FIXES = 2;
+    const SANDBOX_FIX_DEADLINE_MS = 75_000; // no pre-PR fixes this far into the run
+    const sandboxValidations: Array<Record<string, unknown>> = [];
+    let sandboxRound = 0;
+
+    // Fold corrected files into the change set
+    function applyCorrection(files: Array<{ path: string; content: string }>) {
+      for (const cf of files) {
+        const existing = codeFiles.findIndex(f => f.path === cf.path);
+        if (existing >= 0) codeFiles[existing] = cf;
+        else codeFiles.push(cf);
+      }
+    }
+
+    /** Validate the current change set; null when the sandbox couldn't run */
+    async function validateInSandbox(): Promise<SandboxOutcome | null> {
+      const iteration = sandboxRound++;
+      const sandboxStep = await log.step('sandbox_validate', { iteration, fileCount: codeFiles.length });
+      try {
+        const res = await fetch(`${supabaseUrl}/functions/v1/code-sandbox`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${serviceKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            userId,
+            projectId,
+            ref: workRef,
+            files: codeFiles,
+            tree: fileTree,
+            known: fileContents,
+          }),
+          signal: AbortSignal.timeout(SANDBOX_TIMEOUT_MS),
+        });
+        if (!res.ok) {
+          const text = await res.text();
+          throw new Error(`code-sandbox ${res.status}: ${text.slice(0, 200)}`);
+        }
+        const outcome = await res.json() as SandboxOutcome;
+
+        for (const result of outcome.results) {
+          sandboxValidations.push({
+            validation_type: result.type,
+            stage: 'sandbox',
+            iteration,
+            passed: result.passed,
+            output: summarizeSandboxCheck(result),
+            diagnostics: result.diagnostics.slice(0, 100),
+            duration_ms: result.durationMs,
+          });
+        }
+
+        const errors = outcome.results.flatMap(r => r.diagnostics.filter(d => d.severity === 'error'));
+        await sandboxStep({
+          passed: outcome.passed,
+          iteration,
+          errors: errors.length,
+          warnings: outcome.results.reduce((n, r) => n + r.diagnostics.length, 0) - errors.length,
+          checks: outcome.results.map(r => ({ type: r.type, passed: r.passed, skipped: r.skipped })),
+          message: outcome.results.map(r => r.skipped ? `${r.type} skipped` : `${r.type} ${r.passed ? '✓' : '✗'}`).join(' · '),
+          firstErrors: errors.slice(0, 5).map(formatSandboxDiagnostic),
+          durationMs: outcome.durationMs,
+        });
+        return outcome;
+      } catch (sandboxErr) {
+        // Validation is best-effort — an unreachable sandbox never blocks the PR
+        const message = sandboxErr instanceof Error ? sandboxErr.message : String(sandboxErr);
+        console.warn('[code-agent] Sandbox validation unavailable (continuing):', message);
+        await sandboxStep({ skipped: true, message: `Sandbox unavailable: ${message}` });
+        return null;
+      }
+    }
+
+    let sandbox = await validateInSandbox();
+    for (let fix = 1; sandbox && !sandbox.passed && fix <= MAX_SANDBOX_FIXES; fix++) {
+      if (Date.now() - startTime > SANDBOX_FIX_DEADLINE_MS) {
+        await log.info('sandbox_budget_exceeded', { elapsedMs: Date.now() - startTime, fix });
+        break;
+      }
+
+      const correctionStep = await log.step('write_correction', { iteration: fix, source: 'sandbox' });
+      try {
+        const correctionPrompt = `You are an autonomous coding agent. Your proposed changes failed validation (syntax, type-check or lint) before being committed. Fix them.
+
+ORIGINAL PLAN:
+${plan}
+
+USER REQUEST: ${query}
+
+VALIDATION ERRORS:
+${sandboxErrorList(sandbox)}
+
+YOUR PROPOSED FILES:
+${codeFiles.map(f => `--- ${f.path} ---\n${f.content}`).join('\n\n')}
+
+REPO FILES FOR REFERENCE:
+${fileContextBlock}
+
+Instructions:
+- Fix ONLY the errors listed above — do not refactor unrelated code
+- Errors can come from how your code uses other files' APIs; fix your code, not theirs
+- Write complete file contents for each file you need to fix
+- Use the submit_code tool`;
+
+        const correctionResponse = await callClaude({
+          model: codeModel,
+          system: 'You are a precise coding agent. Fix the validation errors. Use the submit_code tool.',
+          messages: [{ role: 'user', content: correctionPrompt }],
+          tools: codeTools,
+          tool_choice: { type: 'tool', name: 'submit_code' },
+          max_tokens: 16384,
+          temperature: 0.2,
+        });
+        totalCost += calculateCost(codeModel, correctionResponse.usage);
+
+        const correctionResult = parseToolUse(correctionResponse);
+        const rawCorrFiles = correctionResult?.input?.files;
+        if (!rawCorrFiles) {
+          await correctionStep.fail('No correction files returned');
+          break;
+        }
+        const correctionFiles = (Array.isArray(rawCorrFiles) ? rawCorrFiles : [rawCorrFiles]) as Array<{ path: string; content: string }>;
+        applyCorrection(correctionFiles);
+        await correctionStep({ filesFixed: correctionFiles.length, source: 'sandbox' });
+      } catch (corrErr) {
+        await correctionStep.fail(corrErr instanceof Error ? corrErr.message : 'Correction failed');
+        break;
+      }
+
+      sandbox = await validateInSandbox();
+    }
+
     // ─── Kill switch check ───
     if (await checkCancelled()) {
-      await log.info('task_cancelled', { step: 'before_create_branch' });
-      return new Response(JSON.stringify({ cancelled: true }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return cancelledResponse('before_create_branch');
     }
 
-    // ─── Step 6: create_branch ───
+    // ─── Step 6: create_branch (follow-ups reuse the session's) ───
     const randomHex = Math.random().toString(16).slice(2, 6);
-    const branchName = `jac/${branchSlug}-${randomHex}`;
-    const branchStep = await log.step('create_branch', { branchName, baseBranch: defaultBranch });
-    await createBranch(owner, repo, defaultBranch, branchName);
-    await branchStep();
+    const branchName = followUp?.branch_name ?? `jac/${branchSlug}-${randomHex}`;
+    if (!followUp) {
+      const branchStep = await log.step('create_branch', { branchName, baseBranch: defaultBranch });
+      await git.createBranch(owner, repo, defaultBranch, branchName);
+      await branchStep();
+    }
 
     // ─── Step 7: commit ───
-    const commitStep = await log.step('commit', { branchName, fileCount: codeFiles.length });
+    const commitStep = await log.step('commit', { branchName, fileCount: codeFiles.length, followUp: !!followUp });
     const fileChanges: FileChange[] = codeFiles.map(f => ({ path: f.path, content: f.content }));
-    const commitSha = await commitFiles(owner, repo, branchName, fileChanges, commitMessage);
+    const commitSha = await git.commitFiles(owner, repo, branchName, fileChanges, commitMessage);
+    const runCommits = [commitSha];
     await commitStep({ commitSha });
 
-    // ─── Step 8: open_pr ───
-    const prStep = await log.step('open_pr', { head: branchName, base: defaultBranch });
-    const pr = await createPR(owner, repo, branchName, defaultBranch, prTitle, prBody);
-    await prStep({ prNumber: pr.number, prUrl: pr.url });
+    // ─── Step 8: open_pr (follow-ups comment on the existing one) ───
+    let pr: { number: number; url: string };
+    if (followUp) {
+      pr = { number: followUp.pr_number!, url: followUp.pr_url || '' };
+      const commentStep = await log.step('comment_pr', { prNumber: pr.number });
+      try {
+        await git.commentOnPR(owner, repo, pr.number, `**Follow-up** (${commitSha.slice(0, 8)}): ${query}\n\n${prBody}`);
+        await commentStep();
+      } catch (commentErr) {
+        await commentStep.fail(commentErr instanceof Error ? commentErr.message : 'Comment failed');
+      }
+    } else {
+      const prStep = await log.step('open_pr', { head: branchName, base: defaultBranch });
+      pr = await git.createPR(owner, repo, branchName, defaultBranch, prTitle, prBody);
+      await prStep({ prNumber: pr.number, prUrl: pr.url });
+    }
 
     // ─── Step 8a: self-review loop ───
     // Time budget: Deno edge functions timeout at ~150s. Reserve 30s for merge + save + notify.
@@ -466,7 +850,7 @@ Instructions:
 
       try {
         // Get the PR diff
-        const diff = await getPullRequestDiff(owner, repo, pr.number);
+        const diff = await git.getPullRequestDiff(owner, repo, pr.number);
 
         const reviewPrompt = `You are a senior code reviewer. Review this PR diff against the original plan.
 
@@ -474,7 +858,7 @@ PLAN:
 ${plan}
 
 USER REQUEST: ${query}
-
+${followUp ? `\nThis is a follow-up commit on a PR opened for: ${followUp.intent}\n` : ''}
 PR DIFF:
 ${diff}
 
@@ -499,18 +883,22 @@ Instructions:
         const reviewResult = parseToolUse(reviewResponse);
         const approved = reviewResult?.input?.approved ?? true;
         const rawIssues = reviewResult?.input?.issues;
-        const issues = Array.isArray(rawIssues) ? rawIssues : rawIssues ? [rawIssues] : [];
+        const reviewIssues = Array.isArray(rawIssues) ? rawIssues : rawIssues ? [rawIssues] : [];
         const suggestion = (reviewResult?.input?.suggestion as string) || '';
 
         // Track cost
         totalCost += calculateCost(codeModel, reviewResponse.usage);
 
-        if (approved || issues.length === 0) {
+        // Sandbox failures on the current files can't be approved away
+        const sandboxIssues = sandbox && !sandbox.passed ? sandboxErrorList(sandbox).split('\n') : [];
+        const issues = approved ? sandboxIssues : [...sandboxIssues, ...reviewIssues];
+
+        if (issues.length === 0) {
           await reviewStep({ approved: true, iteration: i + 1 });
           break;
         }
 
-        await reviewStep({ approved: false, issues: issues.length, iteration: i + 1 });
+        await reviewStep({ approved: false, issues: issues.length, sandboxErrors: sandboxIssues.length, iteration: i + 1 });
 
         // ─── Write correction ───
         if (i < MAX_REVIEW_ITERATIONS - 1) {
@@ -560,7 +948,8 @@ Instructions:
 
             // Commit correction to same branch
             const corrMessage = (correctionResult.input.commitMessage as string) || `Fix review issues (iteration ${i + 2})`;
-            latestCommitSha = await commitFiles(owner, repo, branchName, corrChanges, corrMessage);
+            latestCommitSha = await git.commitFiles(owner, repo, branchName, corrChanges, corrMessage);
+            runCommits.push(latestCommitSha);
             iterationCount = i + 1;
 
             // Update fileContents for next review iteration
@@ -570,7 +959,11 @@ Instructions:
               else fileContents.push(cf);
             }
 
+            applyCorrection(correctionFiles);
+
             await correctionStep({ filesFixed: correctionFiles.length, commitSha: latestCommitSha });
+
+            if (sandbox) sandbox = await validateInSandbox();
           } else {
             await correctionStep.fail('No correction files returned');
             break;
@@ -583,28 +976,35 @@ Instructions:
       }
     }
 
-    // ─── Step 8b: auto-merge PR ───
+    // ─── Step 8b: merge gate — auto-merge, or park for human approval ───
+    // The policy applies to everything the PR changes, not just this run's files
+    const prFiles = [...new Set([...(followUp?.files_changed ?? []), ...codeFiles.map(f => f.path)])];
     let mergeSha: string | undefined;
-    const mergeStep = await log.step('auto_merge', { prNumber: pr.number, iterations: iterationCount });
-    try {
-      const mergeResult = await mergePR(owner, repo, pr.number, 'squash');
-      mergeSha = mergeResult.sha;
-      await mergeStep({ merged: mergeResult.merged, mergeSha });
-    } catch (mergeErr) {
-      await mergeStep.fail(mergeErr instanceof Error ? mergeErr.message : 'Merge failed');
-      console.warn('[code-agent] Auto-merge failed (PR stays open):', mergeErr);
+    const approvalReason = mergeApprovalReason(project, prFiles) ??
+      (sandbox && !sandbox.passed ? `Sandbox validation failed: ${sandbox.results.filter(r => !r.passed).map(r => r.type).join(', ')}` : null);
+    if (approvalReason) {
+      await log.info('awaiting_approval', { prNumber: pr.number, prUrl: pr.url, reason: approvalReason });
+    } else {
+      const mergeStep = await log.step('auto_merge', { prNumber: pr.number, iterations: iterationCount });
+      try {
+        const mergeResult = await git.mergePR(owner, repo, pr.number, 'squash');
+        mergeSha = mergeResult.sha;
+        await mergeStep({ merged: mergeResult.merged, mergeSha });
+      } catch (mergeErr) {
+        await mergeStep.fail(mergeErr instanceof Error ? mergeErr.message : 'Merge failed');
+        console.warn('[code-agent] Auto-merge failed (PR stays open):', mergeErr);
+      }
     }
 
     // ─── Step 8c: detect deploy targets (CI handles actual deployment) ───
     let deployResult: { ciTriggered: boolean; functionsToDeploy: string[]; sharedChanged: boolean } | undefined;
-    const isJacRepo = repoFull.toLowerCase().includes('remix-of-james-brain-memory') || repoFull.toLowerCase().includes('jac-agent-os');
+    const isJacRepo = isSelfDeployingRepo(repoFull);
 
     if (mergeSha && isJacRepo) {
       const deployStep = await log.step('auto_deploy');
       try {
         // Detect which edge functions were changed
-        const edgeFunctionPaths = codeFiles
-          .map(f => f.path)
+        const edgeFunctionPaths = prFiles
           .filter(p => p.startsWith('supabase/functions/') && !p.startsWith('supabase/functions/_shared/'));
 
         const functionSlugs = [...new Set(
@@ -614,7 +1014,7 @@ Instructions:
           }).filter(Boolean)
         )] as string[];
 
-        const sharedChanged = codeFiles.some(f => f.path.startsWith('supabase/functions/_shared/'));
+        const sharedChanged = prFiles.some(p => p.startsWith('supabase/functions/_shared/'));
 
         // GitHub Actions workflow triggers on push to main with supabase/functions/** changes
         // The merge already pushed to main, so CI is already running
@@ -641,32 +1041,71 @@ Instructions:
       }),
     }).catch(err => console.warn('[code-agent] sync-codebase fire-and-forget failed:', err));
 
-    // ─── Step 9: save_session ───
-    const sessionStep = await log.step('save_session');
-    const { data: session } = await supabase
-      .from('code_sessions')
-      .insert({
-        user_id: userId,
-        project_id: projectId,
-        task_id: taskId,
-        query,
-        plan,
-        intent: query.slice(0, 200),
-        branch_name: branchName,
-        commit_sha: commitSha,
-        pr_number: pr.number,
-        pr_url: pr.url,
-        files_read: filesToRead,
-        files_written: codeFiles.map(f => f.path),
-        files_changed: codeFiles.map(f => f.path),
-        file_count: codeFiles.length,
-        merge_sha: mergeSha || null,
-        iteration_count: iterationCount,
-        total_cost_usd: totalCost,
-        status: 'completed',
-      })
-      .select('id')
-      .single();
+    // ─── Step 9: save_session (follow-ups update the session they continued) ───
+    const sessionStep = await log.step('save_session', { followUp: !!followUp });
+    let session: { id: string } | null = null;
+    if (followUp) {
+      const pastFollowUps = Array.isArray(followUp.context?.followUps) ? followUp.context.followUps as unknown[] : [];
+      const { error: updateError } = await supabase
+        .from('code_sessions')
+        .update({
+          task_id: taskId,
+          commit_sha: latestCommitSha,
+          commits: [...(followUp.commits ?? (followUp.commit_sha ? [followUp.commit_sha] : [])), ...runCommits],
+          files_read: [...new Set([...(followUp.files_read ?? []), ...filesToRead])],
+          files_written: prFiles,
+          files_changed: prFiles,
+          file_count: prFiles.length,
+          merge_sha: mergeSha || null,
+          // The follow-up itself is one iteration, plus its review corrections
+          iteration_count: (followUp.iteration_count ?? 0) + 1 + iterationCount,
+          total_cost_usd: (Number(followUp.total_cost_usd) || 0) + totalCost,
+          status: approvalReason ? 'awaiting_approval' : 'completed',
+          approval_reason: approvalReason,
+          context: {
+            ...(followUp.context ?? {}),
+            followUps: [...pastFollowUps, {
+              taskId,
+              query,
+              commits: runCommits,
+              files: codeFiles.map(f => f.path),
+              at: new Date().toISOString(),
+            }],
+          },
+        })
+        .eq('id', followUp.id);
+      if (updateError) console.warn('[code-agent] Follow-up session update failed:', updateError.message);
+      session = { id: followUp.id };
+    } else {
+      const { data: inserted } = await supabase
+        .from('code_sessions')
+        .insert({
+          user_id: userId,
+          project_id: projectId,
+          task_id: taskId,
+          query,
+          plan,
+          intent: query.slice(0, 200),
+          branch_name: branchName,
+          commit_sha: commitSha,
+          commits: runCommits,
+          pr_number: pr.number,
+          pr_url: pr.url,
+          files_read: filesToRead,
+          files_written: codeFiles.map(f => f.path),
+          files_changed: codeFiles.map(f => f.path),
+          file_count: codeFiles.length,
+          merge_sha: mergeSha || null,
+          iteration_count: iterationCount,
+          total_cost_usd: totalCost,
+          status: approvalReason ? 'awaiting_approval' : 'completed',
+          approval_reason: approvalReason,
+          retry_of: ciRetry?.sessionId ?? null,
+        })
+        .select('id')
+        .single();
+      session = inserted;
+    }
     await sessionStep({ sessionId: session?.id });
 
     // Re-fire poll-ci with session ID now that we have it
@@ -685,13 +1124,24 @@ Instructions:
           ref: mergeSha,
           defaultBranch,
           repoFull,
+          projectId,
           sessionId: session.id,
         }),
       }).catch(err => console.warn('[code-agent] poll-ci (with sessionId) fire-and-forget failed:', err));
     }
 
-    // ─── Step 9b: record validation ───
-    if (session?.id) {
+    // ─── Step 9a: record pre-PR sandbox results ───
+    if (session?.id && sandboxValidations.length > 0) {
+      const { error: sandboxInsertError } = await supabase
+        .from('code_validations')
+        .insert(sandboxValidations.map(v => ({ ...v, session_id: session.id })));
+      if (sandboxInsertError) {
+        console.warn('[code-agent] Sandbox validation recording failed (non-blocking):', sandboxInsertError.message);
+      }
+    }
+
+    // ─── Step 9b: record validation (parked sessions record theirs on approval) ───
+    if (session?.id && !approvalReason) {
       try {
         const workflowFiles = fileTree.filter(f => f.startsWith('.github/workflows/'));
         const hasCI = workflowFiles.length > 0;
@@ -729,7 +1179,7 @@ Instructions:
         },
         body: JSON.stringify({
           userId,
-          content: `Code: ${query}\n\nRepo: ${repoFull}\nBranch: ${branchName}\nPR: ${pr.url}\n\nPlan:\n${plan}\n\nFiles changed: ${codeFiles.map(f => f.path).join(', ')}\nCommit: ${commitSha.slice(0, 8)}`,
+          content: `${followUp ? `Code follow-up (PR #${pr.number}): ` : 'Code: '}${query}\n\nRepo: ${repoFull}\nBranch: ${branchName}\nPR: ${pr.url}\n\nPlan:\n${plan}\n\nFiles changed: ${codeFiles.map(f => f.path).join(', ')}\nCommit: ${commitSha.slice(0, 8)}`,
           source: 'jac-agent',
         }),
       });
@@ -759,9 +1209,13 @@ Instructions:
           prUrl: pr.url,
           prNumber: pr.number,
           branchName,
+          sessionId: session?.id,
+          followUp: !!followUp,
           commitSha,
           mergeSha,
           merged: !!mergeSha,
+          awaitingApproval: !!approvalReason,
+          approvalReason,
           deploy: deployResult,
           iterationCount,
           filesChanged: codeFiles.map(f => f.path),
@@ -775,26 +1229,10 @@ Instructions:
       .eq('id', taskId)
       .in('status', ['running']);
 
-    // Check if parent task should be completed (skip watch templates — they stay running forever)
+    // Start siblings waiting on this task; the parent completes once all children are done
+    // (skips watch templates — they stay running forever)
     if (parentTaskId) {
-      const { count: pendingChildren } = await supabase
-        .from('agent_tasks')
-        .select('id', { count: 'exact', head: true })
-        .eq('parent_task_id', parentTaskId)
-        .in('status', ['queued', 'running']);
-
-      if ((pendingChildren ?? 0) === 0) {
-        await supabase
-          .from('agent_tasks')
-          .update({
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', parentTaskId)
-          .in('status', ['running'])
-          .is('cron_expression', null);
-      }
+      await advanceTaskGraph(supabase, parentTaskId);
     }
 
     // ─── Step 11: slack_notify ───
@@ -802,7 +1240,7 @@ Instructions:
     await notifySlack(supabase, userId, {
       taskId,
       taskType: 'code',
-      summary: `Coded: "${query.slice(0, 60)}"\n<${pr.url}|PR #${pr.number}>${mergeSha ? ' ✅ merged' : ''}${deployResult?.ciTriggered ? ` → CI deploying: ${deployResult.functionsToDeploy.join(', ') || '(shared deps)'}` : ''}\nFiles: ${codeFiles.map(f => f.path).join(', ')}`,
+      summary: `${followUp ? 'Follow-up' : 'Coded'}: "${query.slice(0, 60)}"\n<${pr.url}|PR #${pr.number}>${mergeSha ? ' ✅ merged' : ''}${approvalReason ? ' ⏸ awaiting your approval' : ''}${deployResult?.ciTriggered ? ` → CI deploying: ${deployResult.functionsToDeploy.join(', ') || '(shared deps)'}` : ''}\nFiles: ${codeFiles.map(f => f.path).join(', ')}`,
       brainEntryId,
       duration,
       slackChannel,
@@ -810,6 +1248,17 @@ Instructions:
     });
     await slackStep();
 
+    if (approvalReason && session?.id) {
+      await requestMergeApproval(supabase, userId!, {
+        sessionId: session.id,
+        prNumber: pr.number,
+        prUrl: pr.url,
+        intent: query,
+        reason: approvalReason,
+        files: codeFiles.map(f => f.path),
+      });
+    }
+
     // Fire-and-forget reflection
     fetch(`${supabaseUrl}/functions/v1/jac-reflect`, {
       method: 'POST',
@@ -824,7 +1273,7 @@ Instructions:
     const { error: convoError } = await supabase.from('agent_conversations').insert({
       user_id: userId,
       role: 'assistant',
-      content: `Code complete: ${query}\n\nPR: ${pr.url}${mergeSha ? ' (merged)' : ''}\nBranch: ${branchName}\nFiles changed: ${codeFiles.map(f => f.path).join(', ')}${deployResult?.ciTriggered ? `\nCI deploying: ${deployResult.functionsToDeploy.join(', ') || 'shared deps changed'}` : ''}${brainEntryId ? `\n\nSaved to brain.` : ''}`,
+      content: `${followUp ? 'Follow-up pushed' : 'Code complete'}: ${query}\n\nPR: ${pr.url}${mergeSha ? ' (merged)' : ''}${approvalReason ? ` (awaiting approval — ${approvalReason})` : ''}\nBranch: ${branchName}\nFiles changed: ${codeFiles.map(f => f.path).join(', ')}${deployResult?.ciTriggered ? `\nCI deploying: ${deployResult.functionsToDeploy.join(', ') || 'shared deps changed'}` : ''}${brainEntryId ? `\n\nSaved to brain.` : ''}`,
       task_ids: [taskId],
     });
     if (convoError) {
@@ -837,6 +1286,7 @@ Instructions:
       prUrl: pr.url,
       fileCount: codeFiles.length,
       totalCostUsd: totalCost,
+      ...(followUp ? { sessionId: followUp.id, followUp: true } : {}),
     });
 
     return new Response(JSON.stringify({
@@ -844,6 +1294,7 @@ Instructions:
       prUrl: pr.url,
       prNumber: pr.number,
       branchName,
+      sessionId: session?.id,
       commitSha,
       fileCount: codeFiles.length,
       brainEntryId,
@@ -855,6 +1306,7 @@ Instructions:
 
   } catch (error) {
     console.error('[code-agent] Error:', error);
+    await releaseFollowUp();
 
     if (taskId) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -881,6 +1333,9 @@ Instructions:
           .eq('id', parentTaskId)
           .in('status', ['running', 'queued'])
           .is('cron_expression', null);
+
+        // Dependents of this task can't run now
+        await advanceTaskGraph(supabase, parentTaskId);
       }
 
       if (userId) {
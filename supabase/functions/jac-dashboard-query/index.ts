@@ -16,10 +16,10 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
-import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { handleCors } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
-import { checkRateLimit, RATE_LIMIT_CONFIGS, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/validation.ts';
 import { callClaude, parseTextContent, CLAUDE_MODELS, recordTokenUsage } from '../_shared/anthropic.ts';
 
@@ -59,12 +59,9 @@ serve(async (req) => {
       return errorResponse(req, authError ?? 'Unauthorized', 401);
     }
 
-    const rateLimit = checkRateLimit(userId, RATE_LIMIT_CONFIGS.standard);
+    const rateLimit = await checkRateLimit('jac-dashboard-query', userId);
     if (!rateLimit.allowed) {
-      return new Response(
-        JSON.stringify({ error: 'Rate limit exceeded' }),
-        { status: 429, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json', ...getRateLimitHeaders(rateLimit) } }
-      );
+      return rateLimitResponse(req, rateLimit.exceeded);
     }
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -5,12 +5,13 @@
  * parses intent via Claude, creates tasks, dispatches workers, returns immediately.
  *
  * Flow:
- * 1. Auth + rate limit + concurrent guard
+ * 1. Auth + rate limit + quotas (concurrent tasks, daily tasks/tokens/cost)
  * 2. Brain context search (embedding → semantic match)
  * 3. Claude Sonnet intent parse with tool_choice
- * 4. Create parent + child tasks in agent_tasks
+ * 4. Create parent + child tasks in agent_tasks (dependent children wait as 'pending')
  * 5. Store conversation in agent_conversations
- * 6. Fire-and-forget worker edge function
+ * 6. Fire-and-forget worker edge function for each child without upstreams;
+ *    the rest are started by advanceTaskGraph (_shared/taskGraph.ts)
  * 7. Return { response, taskId, status: 'dispatched' }
  */
 
@@ -23,26 +24,12 @@ import type { ModelTier } from '../_shared/anthropic.ts';
 import { createAgentLogger } from '../_shared/logger.ts';
 import { markdownToMrkdwn } from '../_shared/slack.ts';
 import { getUserContext } from '../_shared/context.ts';
-import { escapeForLike } from '../_shared/validation.ts';
-
-// Rate limiting
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT = 50;
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const MAX_CONCURRENT_TASKS = 18;
-const DAILY_TASK_LIMIT = 200;
-
-function checkRateLimit(userId: string): boolean {
-  const now = Date.now();
-  const entry = rateLimitMap.get(userId);
-  if (!entry || now > entry.resetTime) {
-    rateLimitMap.set(userId, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
-    return true;
-  }
-  if (entry.count >= RATE_LIMIT) return false;
-  entry.count++;
-  return true;
-}
+import { escapeForLike, isValidUUID } from '../_shared/validation.ts';
+import { searchEntriesSideBySide, type QueryEmbedding } from '../_shared/embeddings.ts';
+import { advanceTaskGraph } from '../_shared/taskGraph.ts';
+import { checkRateLimit, getDailyUsage, findExceededQuota } from '../_shared/rateLimit.ts';
+import { rateLimitResponse } from '../_shared/response.ts';
+import { parseAlertCondition, type WatchAlertCondition } from '../_shared/watchSnapshots.ts';
 
 // Intent types the dispatcher can route
 type IntentType = 'research' | 'save' | 'search' | 'report' | 'general' | 'code' | 'schedule';
@@ -74,7 +61,7 @@ const INTENT_TOOL = {
             },
             extractedQuery: {
               type: 'string',
-              description: 'Core query/content for this request. For search: just search terms. For save: PRESERVE FULL MESSAGE including "remind me", times, dates. For research: the topic. For code: the coding request.',
+              description: 'Core query/content for this request. For search: just search terms, keeping any search operators verbatim (type:, tag:, importance>=N, before:/after:YYYY-MM-DD, starred, -archived, "quoted phrases"). For save: PRESERVE FULL MESSAGE including "remind me", times, dates. For research: the topic. For code: the coding request.',
             },
             frequency: {
               type: 'string',
@@ -89,6 +76,21 @@ const INTENT_TOOL = {
               enum: ['haiku', 'sonnet', 'opus'],
               description: 'AI model quality for the watch. Default haiku (cheapest). Only for schedule intent.',
             },
+            alertCondition: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['any_change', 'new_item', 'below', 'above'] },
+                value: { type: 'number', description: 'Threshold for below/above' },
+                match: { type: 'string', description: 'Optional: only items whose name contains this' },
+              },
+              required: ['type'],
+              description: 'When the watch should notify. "price drops below 400k" → {type:"below", value:400000}; "new listings" → {type:"new_item"}. Default any_change. Only for schedule intent.',
+            },
+            dependsOn: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: '0-based indexes of EARLIER intents in this list whose results this one needs (e.g. "research X, then save a summary of it" → the save depends on [0]). Omit for independent requests.',
+            },
           },
           required: ['intent', 'summary', 'agentType', 'extractedQuery'],
         },
@@ -126,7 +128,7 @@ serve(async (req) => {
 
   try {
     // Parse body first (needed for service-role auth which reads userId from body)
-    let body: { message?: string; userId?: string; slack_channel?: string; slack_thinking_ts?: string; source?: string; context?: { projectId?: string; repoFullName?: string; branch?: string; techStack?: string[] }; type?: string };
+    let body: { message?: string; userId?: string; slack_channel?: string; slack_thinking_ts?: string; source?: string; context?: { projectId?: string; repoFullName?: string; branch?: string; techStack?: string[]; sessionId?: string }; type?: string };
     try {
       body = await req.json();
     } catch {
@@ -145,10 +147,9 @@ serve(async (req) => {
     }
 
     // Rate limit
-    if (!checkRateLimit(userId)) {
-      return new Response(JSON.stringify({ error: 'Rate limit exceeded' }), {
-        status: 429, headers: jsonHeaders,
-      });
+    const rateLimit = await checkRateLimit('jac-dispatcher', userId);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(req, rateLimit.exceeded);
     }
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -224,13 +225,14 @@ serve(async (req) => {
 
     // 2a. Clean stale tasks (stuck in running/queued > 10 min) before counting
     // Don't overwrite cancelled tasks. Also update any Slack "Thinking..." messages.
+    // Measured from updated_at: a dependent child is queued long after it was created.
     const staleThreshold = new Date(Date.now() - 10 * 60 * 1000).toISOString();
     const { data: staleTasks } = await supabase
       .from('agent_tasks')
-      .select('id, input')
+      .select('id, input, parent_task_id')
       .eq('user_id', userId)
       .in('status', ['running', 'queued'])
-      .lt('created_at', staleThreshold)
+      .lt('updated_at', staleThreshold)
       .is('cron_expression', null);
 
     if (staleTasks && staleTasks.length > 0) {
@@ -240,9 +242,18 @@ serve(async (req) => {
         .update({ status: 'failed', error: 'Timed out (stale >10min)', completed_at: new Date().toISOString() })
         .eq('user_id', userId)
         .in('status', ['running', 'queued'])
-        .lt('created_at', staleThreshold)
+        .lt('updated_at', staleThreshold)
         .is('cron_expression', null);
 
+      // Skip anything waiting on a timed-out task
+      const staleParents = new Set<string>();
+      for (const task of staleTasks) {
+        if (task.parent_task_id) staleParents.add(task.parent_task_id as string);
+      }
+      for (const parentId of staleParents) {
+        await advanceTaskGraph(supabase, parentId);
+      }
+
       // Update any stuck Slack "Thinking..." messages
       const botToken = Deno.env.get('SLACK_BOT_TOKEN');
       if (botToken) {
@@ -261,34 +272,14 @@ serve(async (req) => {
       }
     }
 
-    // 2b. Concurrent task guard
-    const { count: runningCount } = await supabase
-      .from('agent_tasks')
-      .select('id', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .in('status', ['running', 'queued']);
-
-    if ((runningCount ?? 0) >= MAX_CONCURRENT_TASKS) {
-      return new Response(JSON.stringify({
-        error: 'Too many tasks running. Please wait for some to complete.',
-        running: runningCount,
-      }), { status: 429, headers: jsonHeaders });
-    }
-
-    // Daily limit guard
-    const todayStart = new Date();
-    todayStart.setUTCHours(0, 0, 0, 0);
-    const { count: dailyCount } = await supabase
-      .from('agent_tasks')
-      .select('id', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .gte('created_at', todayStart.toISOString());
-
-    if ((dailyCount ?? 0) >= DAILY_TASK_LIMIT) {
-      return new Response(JSON.stringify({
-        error: 'Daily task limit reached. Try again tomorrow.',
-        dailyCount,
-      }), { status: 429, headers: jsonHeaders });
+    // 2b. Quotas — concurrent tasks, and today's tasks, tokens and cost
+    const usage = await getDailyUsage(supabase, userId).catch((err) => {
+      console.warn('[jac-dispatcher] Quota usage lookup failed (non-blocking):', err);
+      return null;
+    });
+    const exceededQuota = usage ? findExceededQuota(usage) : null;
+    if (exceededQuota) {
+      return rateLimitResponse(req, exceededQuota);
     }
 
     // 3. Context lookups — brain search, reflections, principles, conversation history (all parallel)
@@ -313,19 +304,18 @@ serve(async (req) => {
                 'Authorization': `Bearer ${serviceKey}`,
                 'Content-Type': 'application/json',
               },
-              body: JSON.stringify({ text: message, input_type: 'query' }),
+              body: JSON.stringify({ text: message, input_type: 'query', include_next: true }),
             });
             if (!embRes.ok) return [];
-            const embData = await embRes.json();
+            const embData = await embRes.json() as QueryEmbedding;
             if (!embData.embedding) return [];
 
-            const { data: vectorResults } = await supabase.rpc('search_entries_by_embedding', {
-              query_embedding: JSON.stringify(embData.embedding),
+            const vectorResults = await searchEntriesSideBySide<BrainResult & { similarity: number }>(supabase, embData, {
               match_threshold: 0.3,
               match_count: 8,
               filter_user_id: userId,
             });
-            return (vectorResults || []).map((r: any) => ({
+            return vectorResults.map((r) => ({
               id: r.id, content: r.content, title: r.title, tags: r.tags, similarity: r.similarity,
             }));
           } catch (err) {
@@ -480,10 +470,13 @@ Intent routing rules (follow these STRICTLY):
 7. "schedule" → jac-watch-scheduler: User wants to set up a RECURRING automated task.
    TRIGGERS: "watch", "monitor", "check every", "daily search", "recurring", "every morning", "schedule a search", "keep an eye on".
    Extract the frequency (how often), what to do each time, and a short watch name.
+   Watches only notify when their results change. If the user says when to be alerted ("let me know if the price drops below $400k", "only new listings"), set alertCondition.
    Default to haiku model unless user says "detailed", "thorough", "use sonnet/opus", etc.
 
 MULTI-INTENT: If the user's message contains multiple DISTINCT requests (e.g. "research X, also save Y, and build Z"), return each as a separate entry in the intents array. Each gets its own intent, summary, agentType, and extractedQuery. Most messages have just 1 intent — only split when there are genuinely separate requests.
 
+DEPENDENCIES: When one request needs another's result ("research X, THEN save a summary", "find my notes on Y and build Z from them"), set dependsOn to the indexes of the earlier intents it needs. It waits for them and gets their output as context; if one fails, it is skipped. Independent requests run in parallel — leave dependsOn empty.
+
 IMPORTANT: Brain context below is for YOUR reference only — do NOT route to search just because matching entries exist.
 ${brainContext ? `\nUser's brain context (for reference only):\n${brainContext}` : ''}${conversationContext}${reflectionsContext}${principlesContext}
 
@@ -510,6 +503,9 @@ Be concise. Be confident. Don't ask questions — just act.`;
       frequency?: string;
       watchName?: string;
       modelTier?: string;
+      alertCondition?: WatchAlertCondition;
+      /** Indexes into parsedIntents (always earlier entries) */
+      dependsOn: number[];
     }
 
     const rawIntents = toolResult?.input?.intents;
@@ -525,7 +521,15 @@ Be concise. Be confident. Don't ask questions — just act.`;
         frequency: i.frequency as string | undefined,
         watchName: i.watchName as string | undefined,
         modelTier: i.modelTier as string | undefined,
+        alertCondition: i.alertCondition ? parseAlertCondition(i.alertCondition) : undefined,
+        dependsOn: [],
       }));
+      // Keep only edges to earlier intents so the graph can't have cycles
+      rawIntents.forEach((i: Record<string, unknown>, index: number) => {
+        if (!Array.isArray(i.dependsOn)) return;
+        parsedIntents[index].dependsOn = [...new Set(i.dependsOn as unknown[])]
+          .filter((d): d is number => Number.isInteger(d) && (d as number) >= 0 && (d as number) < index);
+      });
     } else {
       // Fallback: single intent from old schema or malformed output
       parsedIntents = [{
@@ -533,6 +537,7 @@ Be concise. Be confident. Don't ask questions — just act.`;
         summary: (toolResult?.input?.summary as string) || message.slice(0, 100),
         agentType: (toolResult?.input?.agentType as string) || 'jac-dispatcher',
         extractedQuery: (toolResult?.input?.extractedQuery as string) || message,
+        dependsOn: [],
       }];
     }
 
@@ -549,6 +554,7 @@ Be concise. Be confident. Don't ask questions — just act.`;
         summary: message.slice(0, 100),
         agentType: 'jac-code-agent',
         extractedQuery: message,
+        dependsOn: [],
       };
       if (generalIdx >= 0) {
         parsedIntents[generalIdx] = codeIntent;
@@ -561,6 +567,21 @@ Be concise. Be confident. Don't ask questions — just act.`;
       }
     }
 
+    // Follow-up on an open code session (Code Workspace "continue"): the whole message is one change to that PR
+    const followUpSessionId = body.context?.sessionId && isValidUUID(body.context.sessionId) ? body.context.sessionId : null;
+    if (followUpSessionId) {
+      parsedIntents = [{
+        intent: 'code',
+        summary: message.slice(0, 100),
+        agentType: 'jac-code-agent',
+        extractedQuery: message,
+        dependsOn: [],
+      }];
+      if (response === "I'm on it." || !response) {
+        response = "I'll push that to the open PR.";
+      }
+    }
+
     // Separate dispatchable intents from general
     let dispatchIntents = parsedIntents.filter(i => i.intent !== 'general');
 
@@ -784,6 +805,7 @@ Be concise. Be confident. Don't ask questions — just act.`;
               modelTier: watchModelTier,
               timezone: 'America/New_York',
               slack_channel: userSlackChannel,
+              alertCondition: si.alertCondition ?? { type: 'any_change' },
               createdAt: new Date().toISOString(),
             },
           });
@@ -798,19 +820,29 @@ Be concise. Be confident. Don't ask questions — just act.`;
       }
     }
 
-    // 6. Create child tasks (one per dispatch intent)
+    // 6. Create child tasks (one per dispatch intent). Upstreams come earlier in the
+    // list, so their ids exist by the time a dependent is inserted. Children that
+    // wait on others start 'pending'; edges to intents that weren't dispatched
+    // (general, schedule, skipped code) are dropped.
     const childTaskIds: string[] = [];
+    const childIdByIntent = new Map<ParsedIntent, string>();
+    const upstreamIdsByIntent = new Map<ParsedIntent, string[]>();
     if (!isGeneralOnly) {
       for (const di of dispatchIntents) {
+        const upstreamIds = di.dependsOn
+          .map(d => childIdByIntent.get(parsedIntents[d]))
+          .filter((id): id is string => !!id);
+        upstreamIdsByIntent.set(di, upstreamIds);
         const { data: childTask } = await supabase
           .from('agent_tasks')
           .insert({
             user_id: userId,
             type: di.intent,
-            status: 'queued',
+            status: upstreamIds.length > 0 ? 'pending' : 'queued',
             intent: di.summary,
             agent: di.agentType,
             parent_task_id: parentTask.id,
+            depends_on: upstreamIds,
             input: {
               query: di.extractedQuery,
               originalMessage: message,
@@ -823,12 +855,25 @@ Be concise. Be confident. Don't ask questions — just act.`;
                 projectId: codeProject.id,
                 projectName: codeProject.name,
                 repoFullName: codeProject.repo_full_name,
+                ...(followUpSessionId ? { sessionId: followUpSessionId } : {}),
               } : {}),
             },
           })
           .select('id')
           .single();
-        if (childTask) childTaskIds.push(childTask.id);
+        if (childTask) {
+          childTaskIds.push(childTask.id);
+          childIdByIntent.set(di, childTask.id);
+        }
+      }
+      if ([...upstreamIdsByIntent.values()].some(ids => ids.length > 0)) {
+        await log.info('task_graph', {
+          edges: dispatchIntents.map(di => ({
+            childTaskId: childIdByIntent.get(di),
+            intent: di.intent,
+            dependsOn: upstreamIdsByIntent.get(di),
+          })),
+        });
       }
     }
 
@@ -871,10 +916,11 @@ Be concise. Be confident. Don't ask questions — just act.`;
         { user_id: userId, role: 'assistant', content: response, task_ids: [parentTask.id] },
       ]);
 
+      // Children with upstreams are started by advanceTaskGraph as those complete
       for (let i = 0; i < dispatchIntents.length; i++) {
         const di = dispatchIntents[i];
-        const childId = childTaskIds[i];
-        if (!childId) continue;
+        const childId = childIdByIntent.get(di);
+        if (!childId || (upstreamIdsByIntent.get(di)?.length ?? 0) > 0) continue;
 
         await log.info('worker_dispatched', { agentType: di.agentType, childTaskId: childId, modelTier, intent: di.intent });
         const workerUrl = `${supabaseUrl}/functions/v1/${di.agentType}`;
@@ -899,6 +945,7 @@ Be concise. Be confident. Don't ask questions — just act.`;
               projectId: codeProject.id,
               projectName: codeProject.name,
               repoFullName: codeProject.repo_full_name,
+              ...(followUpSessionId ? { sessionId: followUpSessionId } : {}),
             } : {}),
           }),
         }).then(async (res) => {
@@ -908,19 +955,8 @@ Be concise. Be confident. Don't ask questions — just act.`;
             await supabase.from('agent_tasks')
               .update({ status: 'failed', error: `Dispatch failed: ${res.status}`, completed_at: new Date().toISOString() })
               .eq('id', childId);
-            // Check if parent should complete (all children done)
-            const { count: pending } = await supabase
-              .from('agent_tasks')
-              .select('id', { count: 'exact', head: true })
-              .eq('parent_task_id', parentTask.id)
-              .in('status', ['queued', 'running']);
-            if ((pending ?? 0) === 0) {
-              await supabase.from('agent_tasks')
-                .update({ status: 'completed', completed_at: new Date().toISOString() })
-                .eq('id', parentTask.id)
-                .in('status', ['running'])
-                .is('cron_expression', null);
-            }
+            // Skip its dependents; completes the parent if all children are done
+            await advanceTaskGraph(supabase, parentTask.id);
           } else if (di.intent === 'research' || di.intent === 'code') {
             // Auto-save thread as brain entry
             try {
@@ -951,18 +987,7 @@ Be concise. Be confident. Don't ask questions — just act.`;
           await supabase.from('agent_tasks')
             .update({ status: 'failed', error: `Dispatch error: ${err.message || 'network error'}`, completed_at: new Date().toISOString() })
             .eq('id', childId);
-          const { count: pending } = await supabase
-            .from('agent_tasks')
-            .select('id', { count: 'exact', head: true })
-            .eq('parent_task_id', parentTask.id)
-            .in('status', ['queued', 'running']);
-          if ((pending ?? 0) === 0) {
-            await supabase.from('agent_tasks')
-              .update({ status: 'completed', completed_at: new Date().toISOString() })
-              .eq('id', parentTask.id)
-              .in('status', ['running'])
-              .is('cron_expression', null);
-          }
+          await advanceTaskGraph(supabase, parentTask.id);
         });
       }
     } else {
@@ -2,7 +2,7 @@
  * jac-morning-brief — Daily Morning Brief for JAC Agent OS
  *
  * Cron: 8 AM Eastern (12:00 UTC). Compiles overnight activity, schedule,
- * reflections, and insights into a structured brief. Stores as brain_insight
+ * missed reminders, reflections, and insights into a structured brief. Stores as brain_insight
  * and sends to Slack.
  *
  * Auth: Service role only (cron call).
@@ -91,6 +91,7 @@ serve(async (req) => {
         reflectionsRes,
         entriesRes,
         insightsRes,
+        missedRes,
         marketData,
       ] = await Promise.all([
         // Schedule context (today + overdue + upcoming week)
@@ -130,6 +131,15 @@ serve(async (req) => {
           .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
           .order('priority', { ascending: true })
           .limit(5),
+        // Reminders that went unanswered until their event passed (last 24h)
+        supabase
+          .from('reminder_deliveries')
+          .select('occurrence_date, escalated_at, entries(title, content, event_time)')
+          .eq('user_id', userId)
+          .eq('status', 'missed')
+          .gte('event_at', oneDayAgo)
+          .order('event_at', { ascending: true })
+          .limit(10),
         // Market quotes (best-effort — pass userId for auth)
         fetch(`${supabaseUrl}/functions/v1/market-quotes`, {
           method: 'POST',
@@ -145,6 +155,7 @@ serve(async (req) => {
       const reflections = reflectionsRes.data || [];
       const entries = entriesRes.data || [];
       const insights = insightsRes.data || [];
+      const missedReminders = missedRes.data || [];
 
       const marketContext = marketData?.quotes
         ? marketData.quotes.map((q: any) => `${q.name}: $${q.price} (${q.change >= 0 ? '+' : ''}${q.change} / ${q.changePercent >= 0 ? '+' : ''}${q.changePercent}%)`).join('\n')
@@ -156,6 +167,17 @@ serve(async (req) => {
       // Schedule
       contextParts.push(scheduleCtx.contextText);
 
+      // Missed reminders
+      if (missedReminders.length > 0) {
+        contextParts.push('\nMISSED REMINDERS (no response before the event, last 24h):');
+        for (const m of missedReminders) {
+          const entry = m.entries as unknown as { title: string | null; content: string; event_time: string | null } | null;
+          const label = entry?.title || entry?.content?.slice(0, 60) || 'Untitled';
+          const when = `${m.occurrence_date}${entry?.event_time ? ` ${entry.event_time.slice(0, 5)}` : ''}`;
+          contextParts.push(`  - "${label}" (${when})${m.escalated_at ? ' — escalated' : ''}`);
+        }
+      }
+
       // Task summary by type
       if (tasks.length > 0) {
         const typeCounts: Record<string, number> = {};
@@ -226,7 +248,7 @@ Rules:
 - Schedule: summarize what's on today and upcoming. Mention overdue items if any.
 - Activity: summarize what you (JAC) did overnight — tasks completed, research done, saves made.
 - Brain: new entries saved, reflections generated, any patterns noticed.
-- Heads Up: anything that needs attention — overdue items, stale tasks, important upcoming deadlines.
+- Heads Up: anything that needs attention — missed reminders (list each by name), overdue items, stale tasks, important upcoming deadlines.
 - If a section has nothing, say "Nothing to report" — keep it brief.
 - If market data is available, summarize key moves and direction.
 - Write in second person ("You have 3 events today...").`,
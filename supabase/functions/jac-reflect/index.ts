@@ -99,6 +99,7 @@ Generate a 1-2 sentence reflection.`,
 
     // 4. Generate embedding
     let embedding: number[] | null = null;
+    let embeddingModel: string | null = null;
     try {
       const embRes = await fetch(`${supabaseUrl}/functions/v1/generate-embedding`, {
         method: 'POST',
@@ -112,6 +113,7 @@ Generate a 1-2 sentence reflection.`,
       if (embRes.ok) {
         const embData = await embRes.json();
         embedding = embData.embedding || null;
+        embeddingModel = embData.model || null;
       } else {
         console.warn('[jac-reflect] Embedding generation failed:', embRes.status);
       }
@@ -128,6 +130,7 @@ Generate a 1-2 sentence reflection.`,
           match_threshold: 0.5,
           match_count: 5,
           filter_user_id: userId,
+          filter_model: embeddingModel,
         });
 
         if (related && related.length > 0) {
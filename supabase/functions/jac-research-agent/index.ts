@@ -2,23 +2,160 @@
  * jac-research-agent — Research Worker for JAC Agent OS
  *
  * Called by jac-dispatcher via service role fetch. Does real work:
- * 1. Web search via jac-web-search (Tavily)
- * 2. Brain cross-reference via search-memory
- * 3. Claude Sonnet synthesis into a research brief
+ * 1. Agentic research loop — Claude picks its own next step:
+ *    - web_search   — follow-up searches via jac-web-search (Tavily)
+ *    - search_brain — cross-reference via search-memory
+ *    - open_entry   — read one brain entry in full
+ *    - finish_research — stop once the evidence is enough, return the brief
+ *    Capped at MAX_STEPS iterations, MAX_LOOP_TOKENS and MAX_WALL_MS; at a
+ *    cap the model is made to finish with what it has.
+ * 2. Numbered citations — every source the tools return gets a number; the
+ *    brief cites [n] and ends with a Sources list (web URL or entry ID)
+ * 3. Watch runs: record the run's findings as a snapshot and diff them
+ *    against the last one (_shared/watchSnapshots.ts). Unless the watch's
+ *    alert condition is met, the run completes quietly — no save, no Slack.
  * 4. Save brief to brain via smart-save
- * 5. Slack notification
- * 6. Update task status
+ * 5. Update task status
+ * 6. Slack notification
  *
- * Every step is logged to agent_activity_log for full observability.
+ * Every step (and every loop iteration) is logged to agent_activity_log for
+ * full observability.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
-import { callClaude, CLAUDE_MODELS, parseTextContent, recordTokenUsage, resolveModel } from '../_shared/anthropic.ts';
-import type { ModelTier } from '../_shared/anthropic.ts';
+import { callClaude, parseTextContent, parseToolUses, recordTokenUsage, resolveModel } from '../_shared/anthropic.ts';
+import type { ClaudeOptions, ClaudeResponse, ClaudeUsage, ModelTier } from '../_shared/anthropic.ts';
 import { notifySlack } from '../_shared/slack.ts';
 import { createAgentLogger } from '../_shared/logger.ts';
+import { advanceTaskGraph } from '../_shared/taskGraph.ts';
+import {
+  FINDINGS_TOOL_PROPERTY,
+  formatFindingsForPrompt,
+  normalizeFindings,
+  recordWatchSnapshot,
+} from '../_shared/watchSnapshots.ts';
+import type { WatchFinding, WatchSnapshotResult } from '../_shared/watchSnapshots.ts';
+
+// Research loop caps
+const MAX_STEPS = 8;
+const MAX_LOOP_TOKENS = 80_000;
+/** Edge functions are killed at 150s — leave room for save + notify */
+const MAX_WALL_MS = 100_000;
+/** Per tool call, fed back to the model */
+const MAX_TOOL_RESULT_CHARS = 6000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const RESEARCH_SYSTEM_PROMPT = `You are a thorough research assistant with tools. Gather evidence step by step, then write a clear, well-structured brief.
+
+How to work:
+- Start broad, then run follow-up web searches for specifics, recent changes, or conflicting claims.
+- Check the user's brain (search_brain) for what they already know; open_entry when a match looks relevant and you need its full text.
+- Stop as soon as the evidence is enough — call finish_research. Don't repeat searches that already answered the question.
+
+The brief (300-600 words, markdown headers and bullet points):
+- Lead with key findings and insights
+- Note connections to the user's existing brain entries if relevant
+- Be specific with facts, numbers, and actionable recommendations
+- Every factual claim ends with citation markers like [2] or [1][4], using the numbers shown in tool results. Cite only sources you were shown. Don't write a sources list — it is added for you.`;
+
+const RESEARCH_TOOLS = [
+  {
+    name: 'web_search',
+    description: 'Search the web. Results are numbered for citation.',
+    input_schema: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Search query' } },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'search_brain',
+    description: "Search the user's saved brain entries (notes, links, past research). Results are numbered for citation and include entry IDs.",
+    input_schema: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'What to look for' } },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'open_entry',
+    description: 'Read the full text of one brain entry by ID (from search_brain results).',
+    input_schema: {
+      type: 'object',
+      properties: { entry_id: { type: 'string', description: 'Entry UUID' } },
+      required: ['entry_id'],
+    },
+  },
+  {
+    name: 'finish_research',
+    description: 'Finish with the research brief once the evidence is enough.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        brief: { type: 'string', description: 'Markdown brief with [n] citations' },
+        findings: FINDINGS_TOOL_PROPERTY,
+      },
+      required: ['brief'],
+    },
+  },
+];
+
+interface Citation {
+  n: number;
+  kind: 'web' | 'entry';
+  title: string;
+  url?: string;
+  entryId?: string;
+}
+
+/** Number a source the first time a tool returns it */
+function citeSource(citations: Citation[], source: Omit<Citation, 'n'>): number {
+  const existing = citations.find((c) =>
+    source.kind === 'web' ? c.url === source.url : c.entryId === source.entryId
+  );
+  if (existing) return existing.n;
+  const n = citations.length + 1;
+  citations.push({ n, ...source });
+  return n;
+}
+
+/**
+ * Renumber the brief's [n] markers in order of first use, drop markers that
+ * point at nothing, and append the Sources list for the ones cited.
+ */
+function applyCitations(rawBrief: string, citations: Citation[]): { brief: string; cited: Citation[] } {
+  const byNumber = new Map(citations.map((c) => [c.n, c]));
+  const renumbered = new Map<number, number>();
+  const cited: Citation[] = [];
+
+  // [3] or [1, 4] — but not markdown links like [text](url)
+  const body = rawBrief
+    .replace(/\n*#+\s*Sources\s*\n[\s\S]*$/i, '')
+    .replace(/\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g, (_match, group: string) => {
+      const markers = group.split(',').map((n) => parseInt(n.trim(), 10)).flatMap((n) => {
+        const source = byNumber.get(n);
+        if (!source) return [];
+        if (!renumbered.has(n)) {
+          renumbered.set(n, cited.length + 1);
+          cited.push({ ...source, n: cited.length + 1 });
+        }
+        return [`[${renumbered.get(n)}]`];
+      });
+      return markers.join('');
+    });
+
+  if (cited.length === 0) return { brief: body.trim(), cited };
+
+  const sources = cited.map((c) =>
+    c.kind === 'web'
+      ? `${c.n}. [${c.title}](${c.url})`
+      : `${c.n}. Brain entry: ${c.title} (entry:${c.entryId})`
+  );
+  return { brief: `${body.trim()}\n\n## Sources\n${sources.join('\n')}`, cited };
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -50,9 +187,10 @@ serve(async (req) => {
     userId = body.userId;
     const query = body.query as string;
     const brainContext = (body.brainContext as string) || '';
+    const upstreamContext = (body.upstreamContext as string) || '';
     slackChannel = body.slack_channel as string | undefined;
     slackThinkingTs = body.slack_thinking_ts as string | undefined;
-    const previousRunContext = (body.previousRunContext as string) || '';
+    const previousFindings = normalizeFindings(body.previousFindings);
     const runNumber = (body.runNumber as number) || 1;
     const watchId = (body.watchId as string) || '';
     const modelTier = (body.modelTier as ModelTier) || 'sonnet';
@@ -86,144 +224,222 @@ serve(async (req) => {
       return data?.status === 'cancelled';
     }
 
-    // 2. Web search via jac-web-search (pass userId for service role auth)
-    let webResults = '';
-    let webSources: Array<{ title: string; url: string }> = [];
-    const webStep = await log.step('web_search', { query });
-    try {
-      const webRes = await fetch(`${supabaseUrl}/functions/v1/jac-web-search`, {
+    // 2. Research loop — the model picks tools until it calls finish_research
+    const citations: Citation[] = [];
+    const usage: ClaudeUsage = { input_tokens: 0, output_tokens: 0 };
+    let iteration = 0;
+    let stopReason: 'finished' | 'max_steps' | 'max_tokens' | 'time_limit' = 'finished';
+    let rawBrief = '';
+    /** Structured findings from finish_research; undefined if the model didn't report any */
+    let findings: WatchFinding[] | undefined;
+
+    const callFunction = (name: string, payload: Record<string, unknown>) =>
+      fetch(`${supabaseUrl}/functions/v1/${name}`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${serviceKey}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          userId,
-          query,
-          brainContext: brainContext.slice(0, 500),
-          searchDepth: 'advanced',
-          maxResults: 8,
-          includeAnswer: true,
-        }),
+        body: JSON.stringify(payload),
       });
 
-      if (webRes.ok) {
-        const webData = await webRes.json();
-        webResults = webData.contextForLLM || '';
-        webSources = (webData.results || []).map((r: { title: string; url: string }) => ({
-          title: r.title,
-          url: r.url,
-        }));
-        await webStep({ resultCount: webSources.length });
-      } else {
-        const errText = await webRes.text();
-        await webStep.fail(`HTTP ${webRes.status}: ${errText.slice(0, 200)}`);
+    async function runTool(name: string, input: Record<string, unknown>): Promise<string> {
+      if (name === 'web_search') {
+        const searchQuery = String(input.query || '').trim();
+        if (!searchQuery) return 'Error: query is required.';
+        const webStep = await log.step('web_search', { iteration, query: searchQuery });
+        try {
+          // pass userId for service role auth
+          const webRes = await callFunction('jac-web-search', {
+            userId,
+            query: searchQuery,
+            brainContext: brainContext.slice(0, 500),
+            searchDepth: 'advanced',
+            maxResults: 6,
+            includeAnswer: false,
+          });
+          if (!webRes.ok) {
+            const errText = await webRes.text();
+            await webStep.fail(`HTTP ${webRes.status}: ${errText.slice(0, 200)}`);
+            return `Web search failed (HTTP ${webRes.status}).`;
+          }
+          const webData = await webRes.json();
+          const results = (webData.results || []) as Array<{ title: string; url: string; snippet?: string; publishedDate?: string }>;
+          await webStep({ resultCount: results.length });
+          if (results.length === 0) return 'No web results.';
+          return results.map((r) => {
+            const n = citeSource(citations, { kind: 'web', title: r.title, url: r.url });
+            return `[${n}] ${r.title}\n${r.url}${r.publishedDate ? ` (${r.publishedDate})` : ''}\n${(r.snippet || '').slice(0, 700)}`;
+          }).join('\n\n');
+        } catch (err) {
+          await webStep.fail(err instanceof Error ? err.message : 'Unknown error');
+          return 'Web search failed.';
+        }
       }
-    } catch (err) {
-      await webStep.fail(err instanceof Error ? err.message : 'Unknown error');
-    }
 
-    // 3. Brain cross-reference via search-memory (pass userId for service role auth)
-    let brainResults = '';
-    let brainMatchCount = 0;
-    const brainStep = await log.step('brain_search', { query });
-    try {
-      const memRes = await fetch(`${supabaseUrl}/functions/v1/search-memory`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${serviceKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ userId, query, limit: 5 }),
-      });
+      if (name === 'search_brain') {
+        const searchQuery = String(input.query || '').trim();
+        if (!searchQuery) return 'Error: query is required.';
+        const brainStep = await log.step('brain_search', { iteration, query: searchQuery });
+        try {
+          // pass userId for service role auth
+          const memRes = await callFunction('search-memory', { userId, query: searchQuery, limit: 6 });
+          if (!memRes.ok) {
+            const errText = await memRes.text();
+            await brainStep.fail(`HTTP ${memRes.status}: ${errText.slice(0, 200)}`);
+            return `Brain search failed (HTTP ${memRes.status}).`;
+          }
+          const memData = await memRes.json();
+          const results = (memData.results || []) as Array<{ id: string; title?: string | null; content: string; created_at?: string }>;
+          await brainStep({ matchCount: results.length });
+          if (results.length === 0) return 'No matching brain entries.';
+          return results.map((r) => {
+            const n = citeSource(citations, { kind: 'entry', title: r.title || 'Untitled', entryId: r.id });
+            return `[${n}] ${r.title || 'Untitled'} (entry ${r.id}${r.created_at ? `, saved ${r.created_at.slice(0, 10)}` : ''})\n${(r.content || '').slice(0, 400)}`;
+          }).join('\n\n');
+        } catch (err) {
+          await brainStep.fail(err instanceof Error ? err.message : 'Unknown error');
+          return 'Brain search failed.';
+        }
+      }
 
-      if (memRes.ok) {
-        const memData = await memRes.json();
-        if (memData.results && memData.results.length > 0) {
-          brainResults = memData.results
-            .map((r: { title?: string; content: string }) =>
-              `[${r.title || 'Untitled'}]: ${r.content.slice(0, 300)}`
-            )
-            .join('\n');
-          brainMatchCount = memData.results.length;
-          await brainStep({ matchCount: brainMatchCount });
-        } else {
-          await brainStep({ matchCount: 0 });
+      if (name === 'open_entry') {
+        const entryId = String(input.entry_id || '').trim();
+        if (!UUID_PATTERN.test(entryId)) return 'Error: entry_id must be an entry UUID from search_brain results.';
+        const openStep = await log.step('open_entry', { iteration, entryId });
+        const { data: entry, error: entryError } = await supabase
+          .from('entries')
+          .select('id, title, content, content_type, tags, event_date, created_at')
+          .eq('id', entryId)
+          .eq('user_id', userId!)
+          .maybeSingle();
+        if (entryError || !entry) {
+          await openStep.fail(entryError?.message || 'Entry not found');
+          return `Entry ${entryId} not found.`;
         }
-      } else {
-        const errText = await memRes.text();
-        await brainStep.fail(`HTTP ${memRes.status}: ${errText.slice(0, 200)}`);
+        const n = citeSource(citations, { kind: 'entry', title: entry.title || 'Untitled', entryId: entry.id });
+        await openStep({ contentLength: (entry.content || '').length });
+        return [
+          `[${n}] ${entry.title || 'Untitled'} (entry ${entry.id})`,
+          `Type: ${entry.content_type || 'note'} | Saved: ${String(entry.created_at).slice(0, 10)}${entry.event_date ? ` | Date: ${entry.event_date}` : ''}${entry.tags?.length ? ` | Tags: ${entry.tags.join(', ')}` : ''}`,
+          '',
+          (entry.content || '').slice(0, 4000),
+        ].join('\n');
       }
-    } catch (err) {
-      await brainStep.fail(err instanceof Error ? err.message : 'Unknown error');
-    }
 
-    // Kill switch check before synthesis
-    if (await checkCancelled()) {
-      await log.info('task_cancelled', { step: 'before_synthesis' });
-      return new Response(JSON.stringify({ cancelled: true }), {
-        status: 200, headers: { 'Content-Type': 'application/json' },
-      });
+      return `Unknown tool "${name}".`;
     }
 
-    // 4. Synthesize with Claude Sonnet
-    const synthesisStep = await log.step('ai_synthesis', {
-      webSourceCount: webSources.length,
-      brainMatchCount,
-    });
+    const deltaPrompt = !watchId ? ''
+      : previousFindings.length > 0
+        ? `\n\nThis is run #${runNumber} of a recurring watch. Items tracked last run:\n${formatFindingsForPrompt(previousFindings)}\n
+Report every item you find this run in finish_research's findings — reuse the key above for the same item, and give the current value/number. Open the brief with what is new, changed or gone since last run.`
+        : `\n\nThis is run #${runNumber} of a recurring watch. Report every item you track (listings, prices, releases...) in finish_research's findings with a stable key, so the next run can tell what changed.`;
 
-    const synthesisPrompt = `You are a research assistant. Synthesize a clear, actionable research brief based on the query and sources below.
+    const messages: ClaudeOptions['messages'] = [{
+      role: 'user',
+      content: `Research this and write a brief.
 
 QUERY: ${query}
+${upstreamContext ? `\nRESULTS FROM EARLIER STEPS (this research builds on them):\n${upstreamContext}\n` : ''}${brainContext ? `\nADDITIONAL CONTEXT:\n${brainContext}\n` : ''}${deltaPrompt}`,
+    }];
+
+    while (!rawBrief) {
+      iteration++;
+      const limit = iteration > MAX_STEPS ? 'max_steps'
+        : usage.input_tokens + usage.output_tokens >= MAX_LOOP_TOKENS ? 'max_tokens'
+        : Date.now() - startTime >= MAX_WALL_MS ? 'time_limit'
+        : null;
+      if (limit) {
+        stopReason = limit;
+        // Last turn: no more lookups, write up what has been found
+        const last = messages[messages.length - 1];
+        if (Array.isArray(last.content)) {
+          last.content = [...last.content, { type: 'text', text: `Research limit reached (${limit}). Call finish_research now with the best brief the evidence supports.` }];
+        }
+      }
 
-${webResults ? `WEB RESULTS:\n${webResults}\n` : 'No web results available.\n'}
-${brainResults ? `USER'S BRAIN (existing knowledge):\n${brainResults}\n` : ''}
-${brainContext ? `ADDITIONAL CONTEXT:\n${brainContext}\n` : ''}
-
-Instructions:
-- Write a structured research brief (300-600 words)
-- Lead with key findings and insights
-- Note connections to the user's existing brain entries if relevant
-- Include source URLs as references
-- Be specific with facts, numbers, and actionable recommendations
-- Format with markdown headers and bullet points`;
-
-    const deltaPrompt = previousRunContext
-      ? `\n\nIMPORTANT — DELTA ANALYSIS: This is run #${runNumber} of a recurring watch.
-Here are results from previous runs:\n${previousRunContext}\n
-Compare current results against previous runs. Clearly highlight:
-- NEW: items appearing for the first time
-- CHANGED: items with different details (price changes, status updates)
-- PERSISTENT: items that keep appearing (reliable/important)
-- GONE: items from previous runs that no longer appear
-Start your brief with a delta summary before the full results.`
-      : '';
-
-    const fullSynthesisPrompt = synthesisPrompt + deltaPrompt;
-
-    const claudeResponse = await callClaude({
-      model: researchModel,
-      system: 'You are a thorough research assistant that produces clear, well-structured briefs.',
-      messages: [{ role: 'user', content: fullSynthesisPrompt }],
-      max_tokens: 2048,
-      temperature: 0.4,
-    });
+      // Kill switch check before every model call
+      if (await checkCancelled()) {
+        await log.info('task_cancelled', { step: 'research_loop', iteration });
+        return new Response(JSON.stringify({ cancelled: true }), {
+          status: 200, headers: { 'Content-Type': 'application/json' },
+        });
+      }
 
-    const brief = parseTextContent(claudeResponse);
+      const iterationStep = await log.step('research_iteration', { iteration, ...(limit ? { limit } : {}) });
+      let response: ClaudeResponse;
+      try {
+        response = await callClaude({
+          model: researchModel,
+          system: RESEARCH_SYSTEM_PROMPT,
+          messages,
+          tools: RESEARCH_TOOLS,
+          tool_choice: limit ? { type: 'tool', name: 'finish_research' } : { type: 'any' },
+          max_tokens: 4096,
+          temperature: 0.4,
+        });
+      } catch (err) {
+        await iterationStep.fail(err instanceof Error ? err.message : 'Unknown error');
+        throw err;
+      }
+      usage.input_tokens += response.usage?.input_tokens || 0;
+      usage.output_tokens += response.usage?.output_tokens || 0;
+
+      const calls = parseToolUses(response);
+      const finish = calls.find((c) => c.name === 'finish_research');
+      const iterationDetail = {
+        actions: calls.map((c) => ({ tool: c.name, input: c.name === 'finish_research' ? undefined : c.input })),
+        inputTokens: response.usage?.input_tokens,
+        outputTokens: response.usage?.output_tokens,
+      };
+
+      if (finish && String(finish.input.brief || '').trim()) {
+        rawBrief = String(finish.input.brief).trim();
+        if (Array.isArray(finish.input.findings)) findings = normalizeFindings(finish.input.findings);
+        await iterationStep(iterationDetail);
+        break;
+      }
+      if (calls.length === 0) {
+        // Answered in prose instead of calling finish_research
+        rawBrief = parseTextContent(response).trim();
+        await iterationStep(iterationDetail);
+        if (!rawBrief) throw new Error('Claude returned empty response');
+        break;
+      }
+      if (limit) {
+        await iterationStep.fail('No brief after research limit', iterationDetail);
+        throw new Error(`Research stopped (${limit}) without a brief`);
+      }
 
-    if (!brief) {
-      await synthesisStep.fail('Claude returned empty response');
-      throw new Error('Claude returned empty response');
+      messages.push({ role: 'assistant', content: response.content });
+      const toolResults: Array<Record<string, unknown>> = [];
+      for (const call of calls) {
+        const content = call.name === 'finish_research'
+          ? 'Error: brief is empty.'
+          : await runTool(call.name, call.input);
+        toolResults.push({ type: 'tool_result', tool_use_id: call.id, content: content.slice(0, MAX_TOOL_RESULT_CHARS) });
+      }
+      messages.push({ role: 'user', content: toolResults });
+      await iterationStep({ ...iterationDetail, citationCount: citations.length });
     }
 
-    await synthesisStep({
-      briefLength: brief.length,
-      inputTokens: claudeResponse.usage?.input_tokens,
-      outputTokens: claudeResponse.usage?.output_tokens,
+    const { brief, cited } = applyCitations(rawBrief, citations);
+    const webSources = cited
+      .filter((c) => c.kind === 'web')
+      .map((c) => ({ title: c.title, url: c.url! }));
+    const brainMatchCount = citations.filter((c) => c.kind === 'entry').length;
+
+    await log.info('research_finished', {
+      iterations: iteration,
+      stopReason,
+      citationCount: cited.length,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
     });
 
     // Record token usage
-    await recordTokenUsage(supabase, taskId, researchModel, claudeResponse.usage);
+    await recordTokenUsage(supabase, taskId, researchModel, usage);
 
     // Kill switch check before save
     if (await checkCancelled()) {
@@ -233,62 +449,74 @@ Start your brief with a delta summary before the full results.`
       });
     }
 
-    // 5. Save brief to brain via smart-save (pass userId for service role auth)
+    // 3. Watch runs: diff against the last snapshot; quiet unless the alert condition is met
+    let watchResult: WatchSnapshotResult | undefined;
+    if (watchId && findings) {
+      const snapshotStep = await log.step('watch_snapshot', { findingCount: findings.length });
+      watchResult = await recordWatchSnapshot(supabase, { watchId, taskId, userId, runNumber, findings });
+      await snapshotStep({ summary: watchResult.summary, conditionMet: watchResult.conditionMet });
+    }
+    const notify = !watchResult || watchResult.conditionMet;
+
+    // 4. Save brief to brain via smart-save (pass userId for service role auth)
     let brainEntryId: string | undefined;
-    const saveStep = await log.step('save_to_brain');
-    const watchPrefix = watchId ? `[Watch Run #${runNumber}] ` : '';
-    try {
-      const saveRes = await fetch(`${supabaseUrl}/functions/v1/smart-save`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${serviceKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId,
-          content: `${watchPrefix}# Research: ${query}\n\n${brief}\n\n---\nSources: ${webSources.map(s => `[${s.title}](${s.url})`).join(', ')}`,
-          source: 'jac-agent',
-        }),
-      });
+    if (notify) {
+      const watchPrefix = watchId ? `[Watch Run #${runNumber}] ` : '';
+      const saveStep = await log.step('save_to_brain');
+      try {
+        const saveRes = await fetch(`${supabaseUrl}/functions/v1/smart-save`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${serviceKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            userId,
+            content: `${watchPrefix}# Research: ${query}\n\n${brief}`,
+            source: 'jac-agent',
+          }),
+        });
 
-      if (saveRes.ok) {
-        const saveData = await saveRes.json();
-        brainEntryId = saveData.entry?.id;
-        await saveStep({ brainEntryId });
-      } else {
-        const errText = await saveRes.text();
-        await saveStep.fail(`HTTP ${saveRes.status}: ${errText.slice(0, 200)}`);
+        if (saveRes.ok) {
+          const saveData = await saveRes.json();
+          brainEntryId = saveData.entry?.id;
+          await saveStep({ brainEntryId });
+        } else {
+          const errText = await saveRes.text();
+          await saveStep.fail(`HTTP ${saveRes.status}: ${errText.slice(0, 200)}`);
+        }
+      } catch (err) {
+        await saveStep.fail(err instanceof Error ? err.message : 'Unknown error');
       }
-    } catch (err) {
-      await saveStep.fail(err instanceof Error ? err.message : 'Unknown error');
-    }
 
-    // Archive to brain_reports
-    try {
-      await supabase.from('brain_reports').insert({
-        user_id: userId,
-        report_type: 'research',
-        source: 'jac-research-agent',
-        title: `Research: ${query.slice(0, 100)}`,
-        summary: brief.slice(0, 500),
-        body_markdown: brief,
-        metadata: {
-          sources: webSources,
-          watchId: watchId || null,
-          watchName: watchId ? `Watch Run #${runNumber}` : null,
-          query,
-          modelTier,
-        },
-        entry_id: brainEntryId || null,
-        task_id: taskId,
-      });
-    } catch (reportErr) {
-      console.warn('[research-agent] brain_reports insert failed:', reportErr);
+      // Archive to brain_reports
+      try {
+        await supabase.from('brain_reports').insert({
+          user_id: userId,
+          report_type: 'research',
+          source: 'jac-research-agent',
+          title: `Research: ${query.slice(0, 100)}`,
+          summary: brief.slice(0, 500),
+          body_markdown: brief,
+          metadata: {
+            sources: webSources,
+            citations: cited,
+            watchId: watchId || null,
+            watchName: watchId ? `Watch Run #${runNumber}` : null,
+            query,
+            modelTier,
+          },
+          entry_id: brainEntryId || null,
+          task_id: taskId,
+        });
+      } catch (reportErr) {
+        console.warn('[research-agent] brain_reports insert failed:', reportErr);
+      }
     }
 
     const duration = Date.now() - startTime;
 
-    // 6. Update task → completed (guard: only if still running — cancelled tasks stay cancelled)
+    // 5. Update task → completed (guard: only if still running — cancelled tasks stay cancelled)
     await supabase
       .from('agent_tasks')
       .update({
@@ -298,49 +526,44 @@ Start your brief with a delta summary before the full results.`
         output: {
           brief: brief.slice(0, 5000),
           sources: webSources,
+          citations: cited,
           brainEntryId,
           brainMatchCount,
+          iterations: iteration,
+          stopReason,
           durationMs: duration,
+          ...(watchResult ? {
+            watch: { summary: watchResult.summary, conditionMet: watchResult.conditionMet, findingCount: findings?.length ?? 0 },
+          } : {}),
         },
       })
       .eq('id', taskId)
       .in('status', ['running']);
 
-    // Check if parent task should be completed (skip watch templates — they stay running forever)
+    // Start siblings waiting on this task; the parent completes once all children are done
+    // (skips watch templates — they stay running forever)
     if (parentTaskId) {
-      const { count: pendingChildren } = await supabase
-        .from('agent_tasks')
-        .select('id', { count: 'exact', head: true })
-        .eq('parent_task_id', parentTaskId)
-        .in('status', ['queued', 'running']);
-
-      if ((pendingChildren ?? 0) === 0) {
-        await supabase
-          .from('agent_tasks')
-          .update({
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', parentTaskId)
-          .in('status', ['running'])
-          .is('cron_expression', null);
-      }
+      await advanceTaskGraph(supabase, parentTaskId);
     }
 
-    // 7. Slack notification
-    const slackStep = await log.step('slack_notify');
-    await notifySlack(supabase, userId, {
-      taskId,
-      taskType: 'research',
-      summary: `Researched: "${query.slice(0, 60)}"\n${brief.slice(0, 2500)}`,
-      brainEntryId,
-      duration,
-      slackChannel,
-      slackThinkingTs,
-      sources: webSources.slice(0, 5),
-    });
-    await slackStep();
+    // 6. Slack notification (watch runs only when the alert condition is met)
+    if (notify) {
+      const changes = watchResult?.details ? `\n*${watchResult.summary}*\n${watchResult.details}\n` : '';
+      const slackStep = await log.step('slack_notify');
+      await notifySlack(supabase, userId, {
+        taskId,
+        taskType: 'research',
+        summary: `Researched: "${query.slice(0, 60)}"\n${changes}${brief.slice(0, 2500)}`,
+        brainEntryId,
+        duration,
+        slackChannel,
+        slackThinkingTs,
+        sources: webSources.slice(0, 5),
+      });
+      await slackStep();
+    } else {
+      await log.info('watch_quiet', { summary: watchResult?.summary, runNumber });
+    }
 
     // Fire-and-forget reflection
     fetch(`${supabaseUrl}/functions/v1/jac-reflect`, {
@@ -353,12 +576,14 @@ Start your brief with a delta summary before the full results.`
     }).catch(() => {});
 
     // Store result as assistant message in conversation
-    await supabase.from('agent_conversations').insert({
-      user_id: userId,
-      role: 'assistant',
-      content: `Research complete: ${query}\n\n${brief}${brainEntryId ? `\n\nSaved to brain.` : ''}`,
-      task_ids: [taskId],
-    });
+    if (notify) {
+      await supabase.from('agent_conversations').insert({
+        user_id: userId,
+        role: 'assistant',
+        content: `Research complete: ${query}\n\n${brief}${brainEntryId ? `\n\nSaved to brain.` : ''}`,
+        task_ids: [taskId],
+      });
+    }
 
     await log.info('task_completed', { durationMs: duration, brainEntryId, sourceCount: webSources.length });
 
@@ -400,6 +625,9 @@ Start your brief with a delta summary before the full results.`
           .eq('id', parentTaskId)
           .in('status', ['running', 'queued'])
           .is('cron_expression', null);
+
+        // Dependents of this task can't run now
+        await advanceTaskGraph(supabase, parentTaskId);
       }
 
       if (userId) {
@@ -11,6 +11,7 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
 import { notifySlack } from '../_shared/slack.ts';
 import { createAgentLogger } from '../_shared/logger.ts';
+import { advanceTaskGraph } from '../_shared/taskGraph.ts';
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -41,6 +42,8 @@ serve(async (req) => {
     parentTaskId = body.parentTaskId;
     userId = body.userId;
     const query = body.query as string;
+    // Outputs of upstream tasks this save depends on (task graph)
+    const upstreamContext = (body.upstreamContext as string) || '';
     slackChannel = body.slack_channel as string | undefined;
     slackThinkingTs = body.slack_thinking_ts as string | undefined;
 
@@ -77,14 +80,18 @@ serve(async (req) => {
     }
 
     // 2. Call smart-save internally
-    const saveStep = await log.step('smart_save', { query });
+    const saveStep = await log.step('smart_save', { query, hasUpstream: !!upstreamContext });
     const saveRes = await fetch(`${supabaseUrl}/functions/v1/smart-save`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${serviceKey}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ userId, content: query, source: 'jac-agent' }),
+      body: JSON.stringify({
+        userId,
+        content: upstreamContext ? `${query}\n\n---\n${upstreamContext}` : query,
+        source: 'jac-agent',
+      }),
     });
 
     if (!saveRes.ok) {
@@ -115,26 +122,10 @@ serve(async (req) => {
       .eq('id', taskId)
       .in('status', ['running']);
 
-    // 4. Check if parent task should be completed (skip watch templates — they stay running forever)
+    // 4. Start siblings waiting on this task; the parent completes once all children are done
+    // (skips watch templates — they stay running forever)
     if (parentTaskId) {
-      const { count: pendingChildren } = await supabase
-        .from('agent_tasks')
-        .select('id', { count: 'exact', head: true })
-        .eq('parent_task_id', parentTaskId)
-        .in('status', ['queued', 'running']);
-
-      if ((pendingChildren ?? 0) === 0) {
-        await supabase
-          .from('agent_tasks')
-          .update({
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', parentTaskId)
-          .in('status', ['running'])
-          .is('cron_expression', null);
-      }
+      await advanceTaskGraph(supabase, parentTaskId);
     }
 
     // 5. Slack notification
@@ -208,6 +199,9 @@ serve(async (req) => {
           .eq('id', parentTaskId)
           .in('status', ['running', 'queued'])
           .is('cron_expression', null);
+
+        // Dependents of this task can't run now
+        await advanceTaskGraph(supabase, parentTaskId);
       }
 
       if (userId) {
@@ -3,6 +3,10 @@
  *
  * Thin wrapper around search-memory that adds JAC observability:
  * task status transitions, step logging, Slack notifications.
+ * Results arrive already fused (keyword + semantic + tag + recency) and
+ * carry match reasons, which are passed through to the task output.
+ * On watch runs the matched entries are the snapshot's findings, so the watch
+ * only notifies when its alert condition is met (e.g. a new entry matches).
  * Called by jac-dispatcher via service role fetch.
  */
 
@@ -11,6 +15,24 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
 import { notifySlack } from '../_shared/slack.ts';
 import { createAgentLogger } from '../_shared/logger.ts';
+import { summarizeReasons, type MatchReason } from '../_shared/hybridSearch.ts';
+import { advanceTaskGraph } from '../_shared/taskGraph.ts';
+import { recordWatchSnapshot, type WatchSnapshotResult } from '../_shared/watchSnapshots.ts';
+
+interface FusedSearchResult {
+  id: string;
+  title?: string;
+  content: string;
+  similarity?: number;
+  score?: number;
+  reasons?: MatchReason[];
+}
+
+/** "why it matched" for Slack — falls back to similarity for older responses */
+function describeMatch(r: FusedSearchResult): string {
+  if (r.reasons && r.reasons.length > 0) return summarizeReasons(r.reasons);
+  return r.similarity ? `${(r.similarity * 100).toFixed(0)}% match` : 'match';
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -43,6 +65,8 @@ serve(async (req) => {
     const query = body.query as string;
     slackChannel = body.slack_channel as string | undefined;
     slackThinkingTs = body.slack_thinking_ts as string | undefined;
+    const watchId = (body.watchId as string) || '';
+    const runNumber = (body.runNumber as number) || 1;
 
     if (!taskId || !userId || !query) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), {
@@ -90,22 +114,45 @@ serve(async (req) => {
     if (!searchRes.ok) {
       const errText = await searchRes.text();
       await searchStep.fail(`HTTP ${searchRes.status}: ${errText.slice(0, 200)}`);
-      throw new Error(`search-memory failed: ${searchRes.status}`);
+      // 400s carry a readable reason (e.g. "Invalid search syntax: ...") — pass it on to Slack
+      let message = `search-memory failed: ${searchRes.status}`;
+      if (searchRes.status === 400) {
+        try {
+          message = JSON.parse(errText).error ?? message;
+        } catch {
+          // Keep the generic message
+        }
+      }
+      throw new Error(message);
     }
 
     const searchData = await searchRes.json();
-    const results = searchData.results || [];
+    const results: FusedSearchResult[] = searchData.results || [];
     const resultCount = results.length;
 
     await searchStep({ resultCount });
 
+    // Watch runs: the matched entries are this run's findings
+    let watchResult: WatchSnapshotResult | undefined;
+    if (watchId) {
+      watchResult = await recordWatchSnapshot(supabase, {
+        watchId,
+        taskId,
+        userId,
+        runNumber,
+        findings: results.slice(0, 10).map((r) => ({ key: r.id, label: r.title || 'Untitled' })),
+      });
+      await log.info('watch_snapshot', { summary: watchResult.summary, conditionMet: watchResult.conditionMet });
+    }
+    const notify = !watchResult || watchResult.conditionMet;
+
     const duration = Date.now() - startTime;
 
     // 3. Build summary for output
     const resultSummary = results
       .slice(0, 3)
-      .map((r: { title?: string; content: string; similarity?: number }) =>
-        `*${r.title || 'Untitled'}* (${r.similarity ? `${(r.similarity * 100).toFixed(0)}% match` : 'match'})\n${r.content.slice(0, 300).trim()}${r.content.length > 300 ? '...' : ''}`
+      .map((r) =>
+        `*${r.title || 'Untitled'}* (${describeMatch(r)})\n${r.content.slice(0, 300).trim()}${r.content.length > 300 ? '...' : ''}`
       )
       .join('\n\n');
 
@@ -117,52 +164,43 @@ serve(async (req) => {
         completed_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         output: {
-          results: results.slice(0, 10).map((r: { id: string; title?: string; content: string; similarity?: number }) => ({
+          results: results.slice(0, 10).map((r) => ({
             id: r.id,
             title: r.title || 'Untitled',
             snippet: r.content.slice(0, 200),
             similarity: r.similarity,
+            score: r.score,
+            reasons: r.reasons,
           })),
           resultCount,
           durationMs: duration,
+          ...(watchResult ? { watch: { summary: watchResult.summary, conditionMet: watchResult.conditionMet, findingCount: Math.min(resultCount, 10) } } : {}),
         },
       })
       .eq('id', taskId)
       .in('status', ['running']);
 
-    // 5. Check if parent task should be completed (skip watch templates — they stay running forever)
+    // 5. Start siblings waiting on this task; the parent completes once all children are done
+    // (skips watch templates — they stay running forever)
     if (parentTaskId) {
-      const { count: pendingChildren } = await supabase
-        .from('agent_tasks')
-        .select('id', { count: 'exact', head: true })
-        .eq('parent_task_id', parentTaskId)
-        .in('status', ['queued', 'running']);
-
-      if ((pendingChildren ?? 0) === 0) {
-        await supabase
-          .from('agent_tasks')
-          .update({
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', parentTaskId)
-          .in('status', ['running'])
-          .is('cron_expression', null);
-      }
+      await advanceTaskGraph(supabase, parentTaskId);
     }
 
-    // 6. Slack notification
-    const slackStep = await log.step('slack_notify');
-    await notifySlack(supabase, userId, {
-      taskId,
-      taskType: 'search',
-      summary: `Found ${resultCount} results for: "${query.slice(0, 60)}"\n\n${resultSummary || 'No matching entries.'}`,
-      duration,
-      slackChannel,
-      slackThinkingTs,
-    });
-    await slackStep();
+    // 6. Slack notification (watch runs only when the alert condition is met)
+    if (notify) {
+      const slackStep = await log.step('slack_notify');
+      await notifySlack(supabase, userId, {
+        taskId,
+        taskType: 'search',
+        summary: `Found ${resultCount} results for: "${query.slice(0, 60)}"\n\n${watchResult?.details ? `*${watchResult.summary}*\n${watchResult.details}\n\n` : ''}${resultSummary || 'No matching entries.'}`,
+        duration,
+        slackChannel,
+        slackThinkingTs,
+      });
+      await slackStep();
+    } else {
+      await log.info('watch_quiet', { summary: watchResult?.summary, runNumber });
+    }
 
     // Fire-and-forget reflection
     fetch(`${supabaseUrl}/functions/v1/jac-reflect`, {
@@ -179,12 +217,14 @@ serve(async (req) => {
       ? `Found ${resultCount} brain entries matching "${query}":\n\n${resultSummary}`
       : `No brain entries found matching "${query}".`;
 
-    await supabase.from('agent_conversations').insert({
-      user_id: userId,
-      role: 'assistant',
-      content: responseContent,
-      task_ids: [taskId],
-    });
+    if (notify) {
+      await supabase.from('agent_conversations').insert({
+        user_id: userId,
+        role: 'assistant',
+        content: responseContent,
+        task_ids: [taskId],
+      });
+    }
 
     await log.info('task_completed', { durationMs: duration, resultCount });
 
@@ -225,6 +265,9 @@ serve(async (req) => {
           .eq('id', parentTaskId)
           .in('status', ['running', 'queued'])
           .is('cron_expression', null);
+
+        // Dependents of this task can't run now
+        await advanceTaskGraph(supabase, parentTaskId);
       }
 
       if (userId) {
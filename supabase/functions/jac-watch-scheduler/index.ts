@@ -5,8 +5,9 @@
  * that are due and fires them:
  * 1. Query due watches (cron_active, next_run_at <= now)
  * 2. Check failure circuit breaker (3 consecutive failures = auto-disable)
- * 3. Build previousRunContext from last completed children
- * 4. Create child task + fire worker
+ * 3. Load the findings of the watch's latest snapshot (watch_snapshots)
+ * 4. Create child task + fire worker — the worker diffs its findings against
+ *    them and only notifies when the watch's alert condition is met
  * 5. Advance next_run_at via cron-parser
  */
 
@@ -15,6 +16,7 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
 import { createAgentLogger } from '../_shared/logger.ts';
 import { notifySlack } from '../_shared/slack.ts';
+import { loadLatestFindings } from '../_shared/watchSnapshots.ts';
 import CronParser from 'npm:cron-parser@4.9.0';
 
 serve(async (req) => {
@@ -68,16 +70,7 @@ serve(async (req) => {
         const watchName = (watchInput.query as string) || (watchInput.watchName as string) || 'Unnamed watch';
         const agentType = (watchInput.agentType as string) || watch.agent || 'jac-research-agent';
 
-        // 2. Fetch last 3 completed children
-        const { data: recentChildren } = await supabase
-          .from('agent_tasks')
-          .select('id, status, output, completed_at, error')
-          .eq('parent_task_id', watch.id)
-          .eq('status', 'completed')
-          .order('completed_at', { ascending: false })
-          .limit(3);
-
-        // 3. Check failure circuit breaker — last 3 children (any status)
+        // 2. Check failure circuit breaker — last 3 children (any status)
         const { data: lastThree } = await supabase
           .from('agent_tasks')
           .select('status')
@@ -117,18 +110,8 @@ serve(async (req) => {
           continue;
         }
 
-        // 4. Build previousRunContext from completed children
-        let previousRunContext = '';
-        if (recentChildren && recentChildren.length > 0) {
-          previousRunContext = recentChildren
-            .map((child, i) => {
-              const output = child.output as Record<string, unknown> | null;
-              const brief = (output?.brief as string) || 'No output';
-              return `--- Run ${recentChildren.length - i} (${child.completed_at}) ---\n${brief.slice(0, 500)}`;
-            })
-            .reverse()
-            .join('\n\n');
-        }
+        // 3. Findings of the last run, for the worker to compare against
+        const previousFindings = await loadLatestFindings(supabase, watch.id);
 
         // Count total completed children for run number
         const { count: totalRuns } = await supabase
@@ -139,7 +122,7 @@ serve(async (req) => {
 
         const runNumber = (totalRuns ?? 0) + 1;
 
-        // 5. Create child task
+        // 4. Create child task
         const { data: childTask, error: insertError } = await supabase
           .from('agent_tasks')
           .insert({
@@ -152,7 +135,7 @@ serve(async (req) => {
               ...watchInput,
               watchId: watch.id,
               runNumber,
-              previousRunContext: previousRunContext.slice(0, 3000),
+              previousFindings,
             },
             parent_task_id: watch.id,
           })
@@ -172,7 +155,7 @@ serve(async (req) => {
           agentType,
         });
 
-        // 6. Fire worker (fire-and-forget)
+        // 5. Fire worker (fire-and-forget)
         fetch(`${supabaseUrl}/functions/v1/${agentType}`, {
           method: 'POST',
           headers: {
@@ -184,7 +167,7 @@ serve(async (req) => {
             parentTaskId: watch.id,
             userId: watch.user_id,
             query: watchInput.query,
-            previousRunContext: previousRunContext.slice(0, 3000),
+            previousFindings,
             runNumber,
             watchId: watch.id,
             modelTier: watchInput.modelTier || 'haiku',
@@ -192,7 +175,7 @@ serve(async (req) => {
           }),
         }).catch(err => console.error('[watch-scheduler] Worker dispatch failed:', err));
 
-        // 7. Advance next_run_at
+        // 6. Advance next_run_at
         try {
           const interval = CronParser.parseExpression(watch.cron_expression, {
             tz: watchInput.timezone as string || 'America/New_York',
@@ -13,10 +13,10 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
+import { handleCors } from '../_shared/cors.ts';
 import { extractUserId, extractUserIdWithServiceRole, isServiceRoleRequest } from '../_shared/auth.ts';
-import { checkRateLimit, RATE_LIMIT_CONFIGS, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit, type RateLimitResult } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/validation.ts';
 
 interface WebSearchRequest {
@@ -88,21 +88,11 @@ serve(async (req) => {
 
     // Skip rate limit for internal agent calls
     const isInternal = isServiceRoleRequest(req);
-    let rateLimit: ReturnType<typeof checkRateLimit> | undefined;
+    let rateLimit: RateLimitResult | undefined;
     if (!isInternal) {
-      rateLimit = checkRateLimit(userId, RATE_LIMIT_CONFIGS.search);
+      rateLimit = await checkRateLimit('jac-web-search', userId);
       if (!rateLimit.allowed) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded' }),
-          {
-            status: 429,
-            headers: {
-              ...getCorsHeaders(req),
-              'Content-Type': 'application/json',
-              ...getRateLimitHeaders(rateLimit)
-            }
-          }
-        );
+        return rateLimitResponse(req, rateLimit.exceeded);
       }
     }
 
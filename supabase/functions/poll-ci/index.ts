@@ -7,25 +7,196 @@
  * Flow:
  * 1. Polls getCheckRuns every 10s, max 30 polls (5 min)
  * 2. If 0 check runs → no CI configured, skip gracefully
- * 3. Records results in code_validations
- * 4. Updates code_sessions.ci_status
- * 5. If CI fails on JAC repo → calls revertCommit
- * 6. Slack notification with CI result
+ * 3. On failure, captures the failing checks' summaries and log tails
+ * 4. If CI fails on JAC repo → calls revertCommit
+ * 5. Records results (with the failure output) in code_validations
+ * 6. Updates code_sessions.ci_status
+ * 7. After a revert, starts a retry code task with the failure output and
+ *    the reverted diff — at most MAX_CI_RETRIES per session
+ * 8. Slack notification: what broke, what was reverted, retry status —
+ *    and, for a retry's own CI run, whether it went green
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
-import { getCheckRuns, revertCommit } from '../_shared/github.ts';
+import { getGitProvider, tailLog } from '../_shared/gitProvider.ts';
+import type { CheckRun, GitProvider } from '../_shared/gitProvider.ts';
+import { isSelfDeployingRepo } from '../_shared/mergePolicy.ts';
 import { notifySlack } from '../_shared/slack.ts';
 
 const MAX_POLLS = 30;
 const POLL_INTERVAL_MS = 10_000;
+const MAX_CI_RETRIES = 2;
+const MAX_FAILED_CHECK_LOGS = 3;
+
+interface CiSession {
+  id: string;
+  user_id: string;
+  project_id: string;
+  intent: string;
+  pr_number: number | null;
+  pr_url: string | null;
+  retry_of: string | null;
+  ci_retry_count: number | null;
+}
+
+interface RetryOutcome {
+  attempt: number;
+  started: boolean;
+  taskId?: string;
+}
 
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/** Failing checks' summaries and log tails, for code_validations and the retry prompt */
+async function collectFailureOutput(git: GitProvider, owner: string, repo: string, failed: CheckRun[]): Promise<string> {
+  const sections: string[] = [];
+  for (const [i, run] of failed.entries()) {
+    const header = `### ${run.name} (${run.conclusion})${run.summary ? ` — ${run.summary}` : ''}${run.detailsUrl ? `\n${run.detailsUrl}` : ''}`;
+    let log: string | null = null;
+    if (i < MAX_FAILED_CHECK_LOGS) {
+      try {
+        log = await git.getCheckRunLog(owner, repo, run.id);
+      } catch (logErr) {
+        console.warn(`[poll-ci] Log fetch failed for ${run.name}:`, logErr);
+      }
+    }
+    sections.push(log ? `${header}\n${tailLog(log)}` : header);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Re-apply a reverted change: a new jac-code-agent task gets the failure
+ * output and the original diff. Retries count on the first session of the
+ * chain, so a retry that breaks CI again uses up the same budget.
+ */
+async function startCiRetry(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceKey: string,
+  git: GitProvider,
+  params: { session: CiSession; owner: string; repo: string; revertedSha: string; revertSha: string; failedChecks: string; failureOutput: string }
+): Promise<RetryOutcome> {
+  const { session, owner, repo } = params;
+  const rootId = session.retry_of ?? session.id;
+  const { data: root } = await supabase
+    .from('code_sessions')
+    .select('id, intent, ci_retry_count')
+    .eq('id', rootId)
+    .maybeSingle();
+  const used = (root?.ci_retry_count as number | null) ?? 0;
+  if (!root || used >= MAX_CI_RETRIES) return { attempt: used, started: false };
+
+  // Claim the attempt — a concurrent poll for the same chain loses the race
+  const attempt = used + 1;
+  const { data: claimed } = await supabase
+    .from('code_sessions')
+    .update({ ci_retry_count: attempt })
+    .eq('id', rootId)
+    .eq('ci_retry_count', used)
+    .select('id');
+  if (!claimed || claimed.length === 0) return { attempt: used, started: false };
+
+  let originalDiff = '';
+  if (session.pr_number) {
+    try {
+      originalDiff = await git.getPullRequestDiff(owner, repo, session.pr_number);
+    } catch (diffErr) {
+      console.warn('[poll-ci] Original diff fetch failed:', diffErr);
+    }
+  }
+
+  const { data: project } = await supabase
+    .from('code_projects')
+    .select('name, repo_full_name')
+    .eq('id', session.project_id)
+    .maybeSingle();
+
+  const intent = root.intent as string;
+  const query = `Re-apply the reverted change "${intent}" and fix the CI failure that caused the revert.`;
+  const ciRetry = {
+    sessionId: rootId,
+    attempt,
+    maxAttempts: MAX_CI_RETRIES,
+    revertedSha: params.revertedSha,
+    revertSha: params.revertSha,
+    failedChecks: params.failedChecks,
+    failureOutput: params.failureOutput.slice(0, 12000),
+    originalDiff,
+  };
+
+  const { data: task, error: taskError } = await supabase
+    .from('agent_tasks')
+    .insert({
+      user_id: session.user_id,
+      type: 'code',
+      intent: `CI retry ${attempt}/${MAX_CI_RETRIES}: ${intent}`.slice(0, 200),
+      agent: 'jac-code-agent',
+      status: 'queued',
+      input: {
+        query,
+        projectId: session.project_id,
+        ciRetry: { sessionId: rootId, attempt, revertedSha: params.revertedSha },
+      },
+    })
+    .select('id')
+    .single();
+  if (taskError || !task) {
+    console.error('[poll-ci] Retry task creation failed:', taskError);
+    await supabase.from('code_sessions').update({ ci_retry_count: used }).eq('id', rootId);
+    return { attempt: used, started: false };
+  }
+
+  fetch(`${supabaseUrl}/functions/v1/jac-code-agent`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      taskId: task.id,
+      userId: session.user_id,
+      query,
+      projectId: session.project_id,
+      projectName: project?.name,
+      repoFullName: project?.repo_full_name,
+      modelTier: 'sonnet',
+      ciRetry,
+    }),
+  }).catch(err => console.error('[poll-ci] Retry dispatch failed:', err));
+
+  return { attempt, started: true, taskId: task.id };
+}
+
+/** Provider for the project behind this poll — GitHub when it can't be found */
+async function resolveGitProvider(
+  supabase: SupabaseClient,
+  projectId?: string,
+  sessionId?: string
+): Promise<GitProvider> {
+  let id = projectId;
+  if (!id && sessionId) {
+    const { data: session } = await supabase
+      .from('code_sessions')
+      .select('project_id')
+      .eq('id', sessionId)
+      .maybeSingle();
+    id = session?.project_id as string | undefined;
+  }
+  if (!id) return getGitProvider(null);
+
+  const { data: project } = await supabase
+    .from('code_projects')
+    .select('git_provider, git_base_url, git_token_secret')
+    .eq('id', id)
+    .maybeSingle();
+  return getGitProvider(project);
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { status: 204 });
@@ -44,7 +215,7 @@ serve(async (req) => {
 
   try {
     const body = await req.json();
-    const { userId, taskId, owner, repo, ref, defaultBranch, repoFull, sessionId } = body;
+    const { userId, taskId, owner, repo, ref, defaultBranch, repoFull, sessionId, projectId } = body;
 
     if (!owner || !repo || !ref) {
       return new Response(JSON.stringify({ error: 'Missing owner, repo, or ref' }), {
@@ -53,20 +224,38 @@ serve(async (req) => {
       });
     }
 
-    const isJacRepo = (repoFull || '').toLowerCase().includes('remix-of-james-brain-memory') ||
-                      (repoFull || '').toLowerCase().includes('jac-agent-os');
+    const isJacRepo = isSelfDeployingRepo(repoFull);
+    const git = await resolveGitProvider(supabase, projectId, sessionId);
+    const branch = defaultBranch || 'main';
+
+    let session: CiSession | null = null;
+    if (sessionId) {
+      const { data } = await supabase
+        .from('code_sessions')
+        .select('id, user_id, project_id, intent, pr_number, pr_url, retry_of, ci_retry_count')
+        .eq('id', sessionId)
+        .maybeSingle();
+      session = data as CiSession | null;
+    }
 
     console.log(`[poll-ci] Starting CI poll for ${owner}/${repo}@${ref.slice(0, 8)}`);
 
-    let ciResult: { passed: boolean; details: string; reverted: boolean } | null = null;
+    let ciResult: {
+      passed: boolean;
+      details: string;
+      reverted: boolean;
+      revertSha?: string;
+      failed: CheckRun[];
+      failureOutput: string;
+    } | null = null;
 
     for (let i = 0; i < MAX_POLLS; i++) {
-      const checks = await getCheckRuns(owner, repo, ref);
+      const checks = await git.getCheckRuns(owner, repo, ref);
 
       // No CI configured — skip gracefully
       if (checks.total_count === 0) {
         console.log('[poll-ci] No check runs found — no CI configured, skipping');
-        ciResult = { passed: true, details: 'No CI configured', reverted: false };
+        ciResult = { passed: true, details: 'No CI configured', reverted: false, failed: [], failureOutput: '' };
         break;
       }
 
@@ -81,37 +270,26 @@ serve(async (req) => {
           .join(', ');
 
         let reverted = false;
+        let revertSha: string | undefined;
+        const failureOutput = passed ? '' : await collectFailureOutput(git, owner, repo, failed);
 
         if (!passed && isJacRepo) {
           // Verify merge commit is still HEAD before reverting
           try {
-            const headRes = await fetch(
-              `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/git/ref/heads/${encodeURIComponent(defaultBranch || 'main')}`,
-              {
-                headers: {
-                  'Authorization': `Bearer ${Deno.env.get('GITHUB_PAT')}`,
-                  'Accept': 'application/vnd.github+json',
-                  'X-GitHub-Api-Version': '2022-11-28',
-                },
-              }
-            );
-
-            if (headRes.ok) {
-              const headData = await headRes.json();
-              if (headData.object.sha === ref) {
-                console.log(`[poll-ci] CI failed and merge commit is HEAD — reverting ${ref.slice(0, 8)}`);
-                await revertCommit(owner, repo, ref, defaultBranch || 'main', `Revert: CI failed for ${ref.slice(0, 8)}`);
-                reverted = true;
-              } else {
-                console.log(`[poll-ci] CI failed but merge commit is NOT HEAD — skipping revert (other commits landed)`);
-              }
+            const headSha = await git.getBranchHead(owner, repo, branch);
+            if (headSha === ref) {
+              console.log(`[poll-ci] CI failed and merge commit is HEAD — reverting ${ref.slice(0, 8)}`);
+              revertSha = await git.revertCommit(owner, repo, ref, branch, `Revert: CI failed for ${ref.slice(0, 8)}`);
+              reverted = true;
+            } else {
+              console.log(`[poll-ci] CI failed but merge commit is NOT HEAD — skipping revert (other commits landed)`);
             }
           } catch (revertErr) {
             console.error('[poll-ci] Revert failed:', revertErr);
           }
         }
 
-        ciResult = { passed, details, reverted };
+        ciResult = { passed, details, reverted, revertSha, failed, failureOutput };
         break;
       }
 
@@ -123,42 +301,90 @@ serve(async (req) => {
 
     // Timeout — treat as unknown
     if (!ciResult) {
-      ciResult = { passed: false, details: 'CI polling timed out after 5 minutes', reverted: false };
+      ciResult = { passed: false, details: 'CI polling timed out after 5 minutes', reverted: false, failed: [], failureOutput: '' };
     }
 
     // Record in code_validations
+    let recordError: string | undefined;
     if (sessionId) {
       try {
-        await supabase
+        const { error: validationError } = await supabase
           .from('code_validations')
           .insert({
             session_id: sessionId,
             validation_type: 'ci',
+            stage: 'ci',
             passed: ciResult.passed,
-            output: `${ciResult.details}${ciResult.reverted ? ' — REVERTED' : ''}`,
+            output: `${ciResult.details}${ciResult.reverted ? ' — REVERTED' : ''}${ciResult.failureOutput ? `\n\n${ciResult.failureOutput}` : ''}`.slice(0, 20000),
             duration_ms: 0,
           });
+        if (validationError) {
+          recordError = validationError.message;
+          console.error('[poll-ci] Failed to record CI validation:', validationError.message);
+        }
 
         // Update code_sessions.ci_status
-        await supabase
+        const { error: sessionError } = await supabase
           .from('code_sessions')
           .update({
             ci_status: ciResult.passed ? 'passed' : ciResult.reverted ? 'reverted' : 'failed',
             validated: ciResult.passed,
           })
           .eq('id', sessionId);
+        if (sessionError) {
+          console.error('[poll-ci] Failed to update session CI status:', sessionError.message);
+        }
       } catch (dbErr) {
         console.error('[poll-ci] DB update failed:', dbErr);
       }
     }
 
+    // Recovery: re-apply the reverted change with the failure as context
+    const failedChecks = ciResult.failed
+      .map(cr => `${cr.name} (${cr.conclusion})${cr.summary ? ` — ${cr.summary}` : ''}`)
+      .join('\n');
+    let retry: RetryOutcome | null = null;
+    if (ciResult.reverted && session) {
+      try {
+        retry = await startCiRetry(supabase, supabaseUrl, serviceKey, git, {
+          session,
+          owner,
+          repo,
+          revertedSha: ref,
+          revertSha: ciResult.revertSha ?? '',
+          failedChecks,
+          failureOutput: ciResult.failureOutput,
+        });
+      } catch (retryErr) {
+        console.error('[poll-ci] Retry failed to start:', retryErr);
+      }
+    }
+
     // Slack notification
     if (userId) {
       try {
         const emoji = ciResult.passed ? '✅' : ciResult.reverted ? '🔄' : '❌';
-        const summary = ciResult.reverted
-          ? `${emoji} CI FAILED — auto-reverted commit ${ref.slice(0, 8)}\n${ciResult.details}`
-          : `${emoji} CI ${ciResult.passed ? 'passed' : 'failed'}: ${ciResult.details}`;
+        const change = session ? ` (PR #${session.pr_number}: "${session.intent.slice(0, 60)}")` : '';
+        const isRetry = !!session?.retry_of;
+        let summary: string;
+        if (ciResult.reverted) {
+          const retryLine = retry?.started
+            ? `→ Retry ${retry.attempt}/${MAX_CI_RETRIES} started with the failure logs`
+            : session
+              ? `→ No retry — ${retry && retry.attempt >= MAX_CI_RETRIES ? `all ${MAX_CI_RETRIES} retries used` : 'retry could not start'}, needs a look`
+              : '';
+          summary = [
+            `${emoji} CI broke ${branch}${change} — reverted ${ref.slice(0, 8)}${ciResult.revertSha ? ` (revert ${ciResult.revertSha.slice(0, 8)})` : ''}`,
+            `Failed: ${failedChecks || ciResult.details}`,
+            retryLine,
+          ].filter(Boolean).join('\n');
+        } else if (isRetry) {
+          summary = ciResult.passed
+            ? `${emoji} Retry${change} went green: ${ciResult.details}`
+            : `${emoji} Retry${change} CI ${ciResult.details.includes('timed out') ? 'timed out' : 'failed'}: ${failedChecks || ciResult.details}`;
+        } else {
+          summary = `${emoji} CI ${ciResult.passed ? 'passed' : 'failed'}: ${ciResult.details}`;
+        }
 
         await notifySlack(supabase, userId, {
           taskId: taskId || 'poll-ci',
@@ -177,6 +403,8 @@ serve(async (req) => {
       ciPassed: ciResult.passed,
       ciDetails: ciResult.details,
       reverted: ciResult.reverted,
+      retryTaskId: retry?.taskId,
+      ...(recordError ? { recordError } : {}),
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -1,5 +1,5 @@
 /**
- * read-file — Read a single file from a registered GitHub project
+ * read-file — Read a single file from a registered code project (GitHub, GitLab or Gitea)
  *
  * Used by the Code Workspace frontend to display file contents.
  * Requires user JWT auth — validates the user owns the project.
@@ -9,7 +9,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
-import { getFileContent, isSecretFile } from '../_shared/github.ts';
+import { getGitProvider, splitRepoFullName, isSecretFile } from '../_shared/gitProvider.ts';
 
 serve(async (req) => {
   const corsResponse = handleCors(req);
@@ -49,7 +49,7 @@ serve(async (req) => {
     // Verify user owns this project
     const { data: project, error: projError } = await supabase
       .from('code_projects')
-      .select('repo_full_name, default_branch')
+      .select('repo_full_name, default_branch, git_provider, git_base_url, git_token_secret')
       .eq('id', projectId)
       .eq('user_id', userId)
       .single();
@@ -62,7 +62,7 @@ serve(async (req) => {
 
     const repoFull = project.repo_full_name as string;
     const defaultBranch = (project.default_branch as string) || 'main';
-    const [owner, repo] = repoFull.split('/');
+    const { owner, repo } = splitRepoFullName(repoFull);
 
     if (!owner || !repo) {
       return new Response(JSON.stringify({ error: 'Invalid repo configuration' }), {
@@ -70,7 +70,7 @@ serve(async (req) => {
       });
     }
 
-    const file = await getFileContent(owner, repo, filePath, defaultBranch);
+    const file = await getGitProvider(project).getFileContent(owner, repo, filePath, defaultBranch);
 
     return new Response(JSON.stringify({
       path: file.path,
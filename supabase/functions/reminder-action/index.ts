@@ -0,0 +1,242 @@
+/**
+ * reminder-action — Done / snooze / reschedule on a reminder
+ *
+ *   { deliveryId, action: 'done' | 'snooze' | 'reschedule', snooze?, date?, time? }
+ *   { entryId, occurrenceDate?, action, ... }   — from the web banner, which
+ *     may act on a reminder before calendar-reminder-check delivered it
+ *
+ * - done       — acknowledge; a one-off reminder entry is archived too
+ * - snooze     — '15m' | '1h' | 'tomorrow' (9 AM); calendar-reminder-check
+ *                delivers it again when the snooze ends
+ * - reschedule — move a one-off entry to `date` (and `time`, else its own);
+ *                the new date reminds again. Recurring entries skip a date
+ *                in the calendar instead.
+ *
+ * The outcome is tracked on the reminder_deliveries row. Called by the
+ * frontend (user JWT) or by slack-incoming (service role + userId,
+ * via: 'slack', responseUrl to replace the button message). Acting on the
+ * web clears the buttons of the Slack message it was delivered as.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserIdWithServiceRole } from '../_shared/auth.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, notFoundResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
+import { isValidUUID, parseJsonBody } from '../_shared/validation.ts';
+import { respondToSlackAction } from '../_shared/slack.ts';
+import {
+  eventEpochMs,
+  formatReminderTime,
+  REMINDER_ACTIONS,
+  SNOOZE_OPTIONS,
+  snoozeUntil,
+  updateSlackReminder,
+  type ReminderAction,
+  type SnoozeOption,
+} from '../_shared/reminders.ts';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+/** Statuses a reminder can't be acted on from */
+const RESOLVED = ['acknowledged', 'rescheduled'];
+
+interface ReminderActionRequest {
+  deliveryId?: string;
+  entryId?: string;
+  occurrenceDate?: string;
+  action: ReminderAction;
+  snooze?: SnoozeOption;
+  date?: string;
+  time?: string | null;
+  userId?: string;
+  via?: 'web' | 'slack';
+  responseUrl?: string;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { data: body, error: parseError } = await parseJsonBody<ReminderActionRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    const { userId, error: authError } = await extractUserIdWithServiceRole(
+      req,
+      body as unknown as Record<string, unknown>
+    );
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    const rateLimit = await checkRateLimit('reminder-action', userId);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(req, rateLimit.exceeded);
+    }
+
+    if (!REMINDER_ACTIONS.includes(body.action)) {
+      return errorResponse(req, `action must be one of: ${REMINDER_ACTIONS.join(', ')}`, 400);
+    }
+    if (body.action === 'snooze' && !SNOOZE_OPTIONS.includes(body.snooze as SnoozeOption)) {
+      return errorResponse(req, `snooze must be one of: ${SNOOZE_OPTIONS.join(', ')}`, 400);
+    }
+    if (body.action === 'reschedule') {
+      if (!body.date || !DATE_RE.test(body.date)) return errorResponse(req, 'date must be YYYY-MM-DD', 400);
+      if (body.time && !TIME_RE.test(body.time)) return errorResponse(req, 'time must be HH:MM', 400);
+    }
+    if (!isValidUUID(body.deliveryId) && !isValidUUID(body.entryId)) {
+      return errorResponse(req, 'deliveryId or entryId must be a UUID', 400);
+    }
+    if (body.occurrenceDate && !DATE_RE.test(body.occurrenceDate)) {
+      return errorResponse(req, 'occurrenceDate must be YYYY-MM-DD', 400);
+    }
+    const via = body.via === 'slack' ? 'slack' : 'web';
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const botToken = Deno.env.get('SLACK_BOT_TOKEN');
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    // Reply in Slack where the buttons were, if that's where this came from
+    const reply = async (text: string) => {
+      if (via === 'slack' && body.responseUrl) await respondToSlackAction(body.responseUrl, text);
+    };
+
+    // Resolve the delivery (if the reminder went out) and its entry
+    let delivery: Record<string, unknown> | null = null;
+    let entryId = body.entryId;
+    if (isValidUUID(body.deliveryId)) {
+      const { data } = await supabase
+        .from('reminder_deliveries')
+        .select('id, entry_id, occurrence_date, status, slack_channel, slack_ts')
+        .eq('id', body.deliveryId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (!data) {
+        await reply('That reminder no longer exists.');
+        return notFoundResponse(req, 'Reminder not found');
+      }
+      delivery = data;
+      entryId = data.entry_id as string;
+    }
+
+    const { data: entry } = await supabase
+      .from('entries')
+      .select('id, title, content, content_type, event_date, event_time, rrule, importance_score')
+      .eq('id', entryId!)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!entry) {
+      await reply('That reminder no longer exists.');
+      return notFoundResponse(req, 'Entry not found');
+    }
+
+    const occurrenceDate = (delivery?.occurrence_date as string | undefined) ?? body.occurrenceDate ?? (entry.event_date as string);
+    if (!delivery) {
+      const { data } = await supabase
+        .from('reminder_deliveries')
+        .select('id, entry_id, occurrence_date, status, slack_channel, slack_ts')
+        .eq('entry_id', entry.id)
+        .eq('occurrence_date', occurrenceDate)
+        .maybeSingle();
+      delivery = data;
+    }
+
+    const title = (entry.title as string | null) || (entry.content as string).slice(0, 60) || 'Untitled';
+    if (delivery && RESOLVED.includes(delivery.status as string)) {
+      const message = `Already ${delivery.status} — *${title}*`;
+      await reply(message);
+      return errorResponse(req, message.replace(/\*/g, ''), 409);
+    }
+    const isRecurring = !!entry.rrule;
+    if (body.action === 'reschedule' && isRecurring) {
+      const message = `*${title}* repeats — skip this date in the calendar instead of rescheduling`;
+      await reply(message);
+      return errorResponse(req, message.replace(/\*/g, ''), 409);
+    }
+
+    const { data: settingsRow } = await supabase
+      .from('user_settings')
+      .select('settings')
+      .eq('user_id', userId)
+      .maybeSingle();
+    const tz = ((settingsRow?.settings as Record<string, unknown> | null)?.timezone as string | undefined) || DEFAULT_TIMEZONE;
+
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+    const patch: Record<string, unknown> = { updated_at: nowIso };
+    let outcome: string;
+
+    if (body.action === 'done') {
+      Object.assign(patch, { status: 'acknowledged', acknowledged_at: nowIso, ack_via: via, snoozed_until: null });
+      // Same as "Mark Done" in the calendar for a one-off reminder
+      if (!isRecurring && entry.content_type === 'reminder') {
+        await supabase.from('entries').update({ archived: true }).eq('id', entry.id);
+      }
+      outcome = `:white_check_mark: Done — *${title}*`;
+    } else if (body.action === 'snooze') {
+      const until = snoozeUntil(body.snooze!, now, tz);
+      Object.assign(patch, { status: 'snoozed', snoozed_until: new Date(until).toISOString() });
+      outcome = `:zzz: Snoozed *${title}* until ${formatReminderTime(until, tz)}`;
+    } else {
+      const time = body.time ?? (entry.event_time as string | null);
+      const { error: moveError } = await supabase
+        .from('entries')
+        .update({ event_date: body.date, event_time: time, reminder_sent: false, updated_at: nowIso })
+        .eq('id', entry.id);
+      if (moveError) throw moveError;
+      Object.assign(patch, { status: 'rescheduled', acknowledged_at: nowIso, ack_via: via, snoozed_until: null });
+      outcome = `:calendar: Moved *${title}* to ${body.date}${time ? ` at ${time.slice(0, 5)}` : ''}`;
+    }
+
+    let record: Record<string, unknown>;
+    if (delivery) {
+      const { error } = await supabase.from('reminder_deliveries').update(patch).eq('id', delivery.id as string);
+      if (error) throw error;
+      record = delivery;
+    } else {
+      // Acted on before the reminder went out — track it, and don't let it go out as well
+      const { data: created, error } = await supabase
+        .from('reminder_deliveries')
+        .insert({
+          user_id: userId,
+          entry_id: entry.id,
+          occurrence_date: occurrenceDate,
+          event_at: new Date(eventEpochMs(occurrenceDate, entry.event_time as string | null, tz)).toISOString(),
+          importance: entry.importance_score,
+          ...patch,
+        })
+        .select('id, slack_channel, slack_ts')
+        .single();
+      if (error) throw error;
+      record = created;
+      if (body.action !== 'reschedule') {
+        await supabase
+          .from('entries')
+          .update(isRecurring ? { reminder_sent_for: occurrenceDate } : { reminder_sent: true })
+          .eq('id', entry.id);
+      }
+    }
+
+    if (via === 'slack') {
+      await reply(outcome);
+    } else if (botToken && record.slack_channel && record.slack_ts) {
+      await updateSlackReminder(botToken, record.slack_channel as string, record.slack_ts as string, `${outcome} (in the app)`);
+    }
+
+    console.log(`[reminder-action] ${body.action} on "${title}" (entry ${entry.id}, ${occurrenceDate}) via ${via}`);
+    return successResponse(req, {
+      deliveryId: record.id,
+      status: patch.status,
+      snoozedUntil: patch.snoozed_until ?? null,
+    }, 200, rateLimit);
+  } catch (error) {
+    console.error('Error in reminder-action function:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
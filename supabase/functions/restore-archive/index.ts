@@ -0,0 +1,470 @@
+/**
+ * restore-archive — Restore a brain archive into the calling user's account
+ *
+ * Input is the file export-all-data writes with format 'archive'
+ * (see _shared/archive.ts). Works across Supabase projects and after
+ * delete-all-user-data:
+ *
+ *   { archive, dryRun? }
+ *
+ * - Validates the format and schemaVersion before touching anything.
+ * - Every restored row gets a fresh id; references between sections
+ *   (relationships, revisions, reminder deliveries, watch snapshots, mentions,
+ *   principle sources, insight entries, report links, calendar subscriptions)
+ *   are remapped to the new ids, or to the existing row when the archive row
+ *   is a duplicate.
+ * - Duplicates are matched on natural keys (entry content or ICS UID, entity
+ *   name + type, repo name, ...), so restoring the same archive twice inserts
+ *   nothing.
+ * - user_settings are merged — settings already on this account win.
+ *
+ * dryRun runs the same matching and returns the counts without writing.
+ * Vectors are kept only when the archive was embedded with this project's
+ * active model; otherwise they're dropped and the restored entries are
+ * queued for backfill-embeddings, like entries that arrive without one.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserId } from '../_shared/auth.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
+import { parseJsonBody } from '../_shared/validation.ts';
+import { normalizeContent } from '../_shared/entryPipeline.ts';
+import { DEFAULT_EMBEDDING_MODEL, getEmbeddingState } from '../_shared/embeddings.ts';
+import {
+  ARCHIVE_SECTIONS,
+  ARCHIVE_SECTION_ORDER,
+  chunk,
+  fetchAllRows,
+  validateArchive,
+  type ArchiveRow,
+  type ArchiveSectionKey,
+  type BrainArchive,
+} from '../_shared/archive.ts';
+
+const INSERT_BATCH_SIZE = 200;
+const MAX_REPORTED_FAILURES = 20;
+
+interface RestoreRequest {
+  archive?: unknown;
+  dryRun?: boolean;
+}
+
+interface SectionResult {
+  total: number;
+  inserted: number;
+  skipped: number;
+  failed: number;
+}
+
+type Row = Record<string, unknown>;
+
+interface RestoreContext {
+  supabase: SupabaseClient;
+  userId: string;
+  archive: BrainArchive;
+  dryRun: boolean;
+  /** archive id → id in this project, per section */
+  ids: Record<ArchiveSectionKey, Map<string, string>>;
+  failures: string[];
+}
+
+interface SectionPlan {
+  /** Natural key used to spot rows that already exist; null = never a duplicate */
+  dedupeKey: (row: Row) => string | null;
+  /** Columns needed to compute dedupeKey on existing rows (id is added) */
+  keyColumns: string[];
+  /** Remap references; null drops the row (its references didn't survive) */
+  prepare?: (row: Row, ctx: RestoreContext) => Row | null;
+  /** Existing rows to dedupe against — defaults to the user's rows */
+  loadExisting?: (ctx: RestoreContext) => Promise<Row[]>;
+  /** Table has no user_id column */
+  unscoped?: boolean;
+}
+
+function norm(value: unknown): string {
+  return typeof value === 'string' ? normalizeContent(value) : '';
+}
+
+function timestampKey(value: unknown): string {
+  const ms = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(ms) ? '' : String(ms);
+}
+
+function mapId(map: Map<string, string>, id: unknown): string | null {
+  return typeof id === 'string' ? map.get(id) ?? null : null;
+}
+
+function mapIds(map: Map<string, string>, ids: unknown): string[] {
+  if (!Array.isArray(ids)) return [];
+  return ids.map((id) => mapId(map, id)).filter((id): id is string => !!id);
+}
+
+const SECTION_PLANS: Record<ArchiveSectionKey, SectionPlan> = {
+  calendarSubscriptions: {
+    keyColumns: ['url'],
+    dedupeKey: (r) => (typeof r.url === 'string' && r.url ? r.url : null),
+  },
+  entries: {
+    keyColumns: ['content', 'image_url', 'ics_uid'],
+    // Imported events keep their UID so the next subscription sync updates them in place
+    dedupeKey: (r) =>
+      (typeof r.ics_uid === 'string' && r.ics_uid ? `uid:${r.ics_uid}` : null) ||
+      norm(r.content) ||
+      (typeof r.image_url === 'string' ? `image:${r.image_url}` : null),
+    prepare: (r, ctx) => ({
+      ...r,
+      calendar_subscription_id: mapId(ctx.ids.calendarSubscriptions, r.calendar_subscription_id),
+    }),
+  },
+  entryRevisions: {
+    keyColumns: ['entry_id', 'created_at'],
+    dedupeKey: (r) => `${r.entry_id}|${timestampKey(r.created_at)}`,
+    prepare: (r, ctx) => {
+      const entryId = mapId(ctx.ids.entries, r.entry_id);
+      return entryId ? { ...r, entry_id: entryId } : null;
+    },
+  },
+  reminderDeliveries: {
+    keyColumns: ['entry_id', 'occurrence_date'],
+    dedupeKey: (r) => `${r.entry_id}|${r.occurrence_date}`,
+    prepare: (r, ctx) => {
+      const entryId = mapId(ctx.ids.entries, r.entry_id);
+      return entryId ? { ...r, entry_id: entryId } : null;
+    },
+  },
+  watches: {
+    keyColumns: ['intent', 'cron_expression', 'input'],
+    dedupeKey: (r) => `${norm(r.intent)}|${r.cron_expression ?? ''}|${norm((r.input as Row | null)?.query)}`,
+    loadExisting: (ctx) => fetchAllRows(ctx.supabase, 'agent_tasks', 'id, intent, cron_expression, input', (q) =>
+      q.eq('user_id', ctx.userId).not('cron_expression', 'is', null)
+    ),
+  },
+  watchSnapshots: {
+    keyColumns: ['watch_id', 'created_at'],
+    dedupeKey: (r) => `${r.watch_id}|${timestampKey(r.created_at)}`,
+    prepare: (r, ctx) => {
+      const watchId = mapId(ctx.ids.watches, r.watch_id);
+      // Run tasks aren't archived; task_id survives only when it is the watch itself
+      return watchId ? { ...r, watch_id: watchId, task_id: mapId(ctx.ids.watches, r.task_id) } : null;
+    },
+  },
+  reflections: {
+    keyColumns: ['task_type', 'summary'],
+    dedupeKey: (r) => `${r.task_type ?? ''}|${norm(r.summary)}`,
+    // Only watch tasks travel with the archive; one-off task links are dropped
+    prepare: (r, ctx) => ({ ...r, task_id: mapId(ctx.ids.watches, r.task_id) }),
+  },
+  brainEntities: {
+    keyColumns: ['name', 'entity_type'],
+    dedupeKey: (r) => `${r.entity_type ?? ''}|${norm(r.name)}`,
+  },
+  entityMentions: {
+    unscoped: true,
+    keyColumns: ['entity_id', 'entry_id', 'reflection_id'],
+    dedupeKey: (r) => `${r.entity_id}|${r.entry_id ?? ''}|${r.reflection_id ?? ''}`,
+    prepare: (r, ctx) => {
+      const entityId = mapId(ctx.ids.brainEntities, r.entity_id);
+      const entryId = mapId(ctx.ids.entries, r.entry_id);
+      const reflectionId = mapId(ctx.ids.reflections, r.reflection_id);
+      if (!entityId || (!entryId && !reflectionId)) return null;
+      return { ...r, entity_id: entityId, entry_id: entryId, reflection_id: reflectionId };
+    },
+    loadExisting: async (ctx) => {
+      const rows: Row[] = [];
+      for (const ids of chunk([...new Set(ctx.ids.brainEntities.values())], 200)) {
+        rows.push(...await fetchAllRows(ctx.supabase, 'entity_mentions', 'id, entity_id, entry_id, reflection_id', (q) =>
+          q.in('entity_id', ids)
+        ));
+      }
+      return rows;
+    },
+  },
+  entryRelationships: {
+    keyColumns: ['entry_id', 'related_entry_id'],
+    dedupeKey: (r) => `${r.entry_id}|${r.related_entry_id}`,
+    prepare: (r, ctx) => {
+      const entryId = mapId(ctx.ids.entries, r.entry_id);
+      const relatedId = mapId(ctx.ids.entries, r.related_entry_id);
+      if (!entryId || !relatedId || entryId === relatedId) return null;
+      return { ...r, entry_id: entryId, related_entry_id: relatedId };
+    },
+  },
+  principles: {
+    keyColumns: ['principle'],
+    dedupeKey: (r) => norm(r.principle) || null,
+    prepare: (r, ctx) => ({ ...r, source_reflection_ids: mapIds(ctx.ids.reflections, r.source_reflection_ids) }),
+  },
+  insights: {
+    keyColumns: ['type', 'title', 'body'],
+    dedupeKey: (r) => `${r.type ?? ''}|${norm(r.title)}|${norm(r.body)}`,
+    prepare: (r, ctx) => ({ ...r, entry_ids: mapIds(ctx.ids.entries, r.entry_ids) }),
+  },
+  codeProjects: {
+    keyColumns: ['repo_full_name'],
+    dedupeKey: (r) => norm(r.repo_full_name) || null,
+  },
+  brainReports: {
+    keyColumns: ['report_type', 'created_at'],
+    dedupeKey: (r) => `${r.report_type ?? ''}|${timestampKey(r.created_at)}`,
+    prepare: (r, ctx) => ({
+      ...r,
+      entry_id: mapId(ctx.ids.entries, r.entry_id),
+      task_id: mapId(ctx.ids.watches, r.task_id),
+    }),
+  },
+  smartCollections: {
+    keyColumns: ['name'],
+    dedupeKey: (r) => norm(r.name) || null,
+  },
+};
+
+async function insertRows(
+  ctx: RestoreContext,
+  key: ArchiveSectionKey,
+  pending: Array<{ archiveId: string; row: Row }>,
+  result: SectionResult
+): Promise<void> {
+  const table = ARCHIVE_SECTIONS[key].table;
+
+  for (const batch of chunk(pending, INSERT_BATCH_SIZE)) {
+    const { error } = await ctx.supabase.from(table).insert(batch.map((p) => p.row));
+    if (!error) {
+      result.inserted += batch.length;
+      continue;
+    }
+
+    // One bad row fails the whole batch — retry row by row to isolate it
+    console.warn(`[restore-archive] ${table} batch failed, retrying rows:`, error.message);
+    for (const { archiveId, row } of batch) {
+      const { error: rowError } = await ctx.supabase.from(table).insert(row);
+      if (!rowError) {
+        result.inserted++;
+        continue;
+      }
+      result.failed++;
+      // Rows that point at this one get dropped rather than failing too
+      ctx.ids[key].delete(archiveId);
+      if (ctx.failures.length < MAX_REPORTED_FAILURES) {
+        ctx.failures.push(`${key} ${archiveId}: ${rowError.message}`);
+      }
+    }
+  }
+}
+
+async function restoreSection(ctx: RestoreContext, key: ArchiveSectionKey): Promise<SectionResult> {
+  const rows = ctx.archive.sections[key];
+  const plan = SECTION_PLANS[key];
+  const idMap = ctx.ids[key];
+  const result: SectionResult = { total: rows.length, inserted: 0, skipped: 0, failed: 0 };
+  if (rows.length === 0) return result;
+
+  const existingRows = plan.loadExisting
+    ? await plan.loadExisting(ctx)
+    : await fetchAllRows(ctx.supabase, ARCHIVE_SECTIONS[key].table, ['id', ...plan.keyColumns].join(', '), (q) =>
+        q.eq('user_id', ctx.userId)
+      );
+
+  const existing = new Map<string, string>();
+  for (const row of existingRows) {
+    const k = plan.dedupeKey(row);
+    if (k && !existing.has(k)) existing.set(k, row.id as string);
+  }
+
+  const pending: Array<{ archiveId: string; row: Row }> = [];
+  for (const archiveRow of rows) {
+    const { id: archiveId, ...fields } = archiveRow as ArchiveRow;
+    const prepared = plan.prepare ? plan.prepare(fields, ctx) : fields;
+    if (!prepared) {
+      result.skipped++;
+      continue;
+    }
+
+    const k = plan.dedupeKey(prepared);
+    const match = k ? existing.get(k) : undefined;
+    if (match) {
+      idMap.set(archiveId, match);
+      result.skipped++;
+      continue;
+    }
+
+    const id = crypto.randomUUID();
+    idMap.set(archiveId, id);
+    // Later duplicates inside the same archive resolve to this row
+    if (k) existing.set(k, id);
+    pending.push({
+      archiveId,
+      row: plan.unscoped ? { ...prepared, id } : { ...prepared, id, user_id: ctx.userId },
+    });
+  }
+
+  if (ctx.dryRun) {
+    result.inserted = pending.length;
+    return result;
+  }
+
+  await insertRows(ctx, key, pending, result);
+  return result;
+}
+
+/** Fill in profile fields the account doesn't have yet */
+async function restoreProfile(ctx: RestoreContext): Promise<'updated' | 'unchanged'> {
+  const archived = ctx.archive.profile;
+  if (!archived) return 'unchanged';
+
+  const { data: current } = await ctx.supabase
+    .from('profiles')
+    .select('username, onboarding_completed')
+    .eq('id', ctx.userId)
+    .maybeSingle();
+
+  const updates: Row = {};
+  if (!current?.username && typeof archived.username === 'string' && archived.username) {
+    updates.username = archived.username;
+  }
+  if (!current?.onboarding_completed && archived.onboarding_completed === true) {
+    updates.onboarding_completed = true;
+  }
+  if (Object.keys(updates).length === 0) return 'unchanged';
+  if (ctx.dryRun) return 'updated';
+
+  const { error } = await ctx.supabase.from('profiles').update(updates).eq('id', ctx.userId);
+  if (error) {
+    // Most likely the username is taken in this project
+    console.warn('[restore-archive] Profile update failed:', error.message);
+    ctx.failures.push(`profile: ${error.message}`);
+    return 'unchanged';
+  }
+  return 'updated';
+}
+
+/** Merge user_settings — keys already set on this account win */
+async function restoreUserSettings(ctx: RestoreContext): Promise<'created' | 'merged' | 'unchanged'> {
+  const archived = ctx.archive.userSettings;
+  if (!archived) return 'unchanged';
+
+  const { data: current } = await ctx.supabase
+    .from('user_settings')
+    .select('settings')
+    .eq('user_id', ctx.userId)
+    .maybeSingle();
+
+  const archivedSettings = (archived.settings as Row | null) ?? {};
+
+  if (!current) {
+    if (ctx.dryRun) return 'created';
+    const { error } = await ctx.supabase.from('user_settings').insert({ ...archived, user_id: ctx.userId });
+    if (error) {
+      ctx.failures.push(`user_settings: ${error.message}`);
+      return 'unchanged';
+    }
+    return 'created';
+  }
+
+  const currentSettings = (current.settings as Row | null) ?? {};
+  const missing = Object.keys(archivedSettings).filter((k) => !(k in currentSettings));
+  if (missing.length === 0) return 'unchanged';
+  if (ctx.dryRun) return 'merged';
+
+  const { error } = await ctx.supabase
+    .from('user_settings')
+    .update({ settings: { ...archivedSettings, ...currentSettings } })
+    .eq('user_id', ctx.userId);
+  if (error) {
+    ctx.failures.push(`user_settings: ${error.message}`);
+    return 'unchanged';
+  }
+  return 'merged';
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { userId, error: authError } = await extractUserId(req);
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    const rateLimit = await checkRateLimit('restore-archive', userId);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(req, rateLimit.exceeded);
+    }
+
+    const { data: body, error: parseError } = await parseJsonBody<RestoreRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    const { archive, errors, warnings } = validateArchive(body.archive);
+    if (!archive) {
+      return errorResponse(req, 'Invalid archive', 400, { errors });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    // Vectors from another model can't be compared with this project's — drop them
+    const { activeModel } = await getEmbeddingState(supabase);
+    const archiveModel = archive.embeddingModel ?? DEFAULT_EMBEDDING_MODEL;
+    const keepEmbeddings = archiveModel === activeModel;
+    for (const key of ARCHIVE_SECTION_ORDER) {
+      if (!ARCHIVE_SECTIONS[key].columns.includes('embedding')) continue;
+      archive.sections[key] = archive.sections[key].map((row) => {
+        const { embedding, embedding_model: _model, ...rest } = row;
+        if (!keepEmbeddings || !embedding) return rest as ArchiveRow;
+        return (key === 'entries' ? { ...rest, embedding, embedding_model: activeModel } : { ...rest, embedding }) as ArchiveRow;
+      });
+    }
+    if (!keepEmbeddings) {
+      warnings.push(`Archive vectors were made with ${archiveModel}; entries will be re-embedded with ${activeModel}`);
+    }
+
+    const ctx: RestoreContext = {
+      supabase,
+      userId,
+      archive,
+      dryRun: body.dryRun === true,
+      ids: Object.fromEntries(ARCHIVE_SECTION_ORDER.map((k) => [k, new Map<string, string>()])) as RestoreContext['ids'],
+      failures: [],
+    };
+
+    const sections = {} as Record<ArchiveSectionKey, SectionResult>;
+    for (const key of ARCHIVE_SECTION_ORDER) {
+      sections[key] = await restoreSection(ctx, key);
+    }
+    const profile = await restoreProfile(ctx);
+    const userSettings = await restoreUserSettings(ctx);
+
+    // Archives from another project may carry no vectors (or the export was trimmed, or used another model)
+    const missingEmbeddings = archive.sections.entries.filter((e) => !e.embedding).length;
+    if (!ctx.dryRun && sections.entries.inserted > 0 && missingEmbeddings > 0) {
+      fetch(`${supabaseUrl}/functions/v1/backfill-embeddings`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${serviceKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId }),
+      }).catch((err) => console.warn('[restore-archive] backfill-embeddings fire-and-forget failed:', err));
+    }
+
+    console.log(`[restore-archive] ${userId}${ctx.dryRun ? ' (dry run)' : ''}: ${JSON.stringify(sections)}`);
+
+    return successResponse(req, {
+      success: true,
+      dryRun: ctx.dryRun,
+      schemaVersion: archive.schemaVersion,
+      exportedAt: archive.exportedAt,
+      sections,
+      profile,
+      userSettings,
+      warnings,
+      failures: ctx.failures,
+    }, 200, rateLimit);
+  } catch (error) {
+    console.error('Error in restore-archive function:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
@@ -1,19 +1,40 @@
 /**
- * search-memory — Keyword + Tag Search
+ * search-memory — Hybrid Keyword + Vector Search
  * 
  * GOAL: Find anything in the user's brain.
  * 
- * Uses PostgreSQL keyword matching and tag filtering.
- * No external API keys required.
+ * Smart mode runs keyword (ilike), semantic (search_entries_by_embedding with
+ * decay weighting) and tag retrievals in parallel, then fuses them with
+ * reciprocal rank fusion. Each result explains why it matched.
+ * Exact mode is phrase matching only. If embeddings are unavailable the
+ * semantic list is simply empty and keyword/tag ranking still works.
+ *
+ * Queries may use the structured syntax from _shared/searchQuery.ts
+ * (type:, tag:, importance>=7, before:/after:, starred, "phrase", -word).
+ * Syntax errors return 400 with per-token positions in details.errors.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId, extractUserIdWithServiceRole, isServiceRoleRequest } from '../_shared/auth.ts';
-import { checkRateLimit, RATE_LIMIT_CONFIGS, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
-import { validateSearchQuery, escapeForLike, parseNumber, parseJsonBody } from '../_shared/validation.ts';
+import { checkRateLimit, type RateLimitResult } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
+import { validateSearchQuery, parseNumber, parseJsonBody } from '../_shared/validation.ts';
+import {
+  reciprocalRankFusion,
+  extractSearchWords,
+  scoreKeywordMatch,
+  keywordFilter,
+  matchesTextConstraints,
+  ageInDays,
+  RECENCY_WINDOW_DAYS,
+  TAG_LIST_WEIGHT,
+  RECENCY_LIST_WEIGHT,
+  type RankedList,
+} from '../_shared/hybridSearch.ts';
+import { parseSearchQuery, retrievalText } from '../_shared/searchQuery.ts';
+import { searchEntriesSideBySide, type QueryEmbedding } from '../_shared/embeddings.ts';
 
 interface SearchRequest {
   query: string;
@@ -36,9 +57,204 @@ interface SearchResult {
   tags: string[];
   importance_score: number | null;
   created_at: string;
+  last_accessed_at?: string | null;
   similarity?: number;
 }
 
+type SearchFilters = Pick<
+  SearchRequest,
+  'startDate' | 'endDate' | 'contentType' | 'minImportance' | 'maxImportance' | 'tags'
+> & {
+  /** Every tag must be present (tag: operators) — `tags` is any-of */
+  allTags?: string[];
+  excludeTags?: string[];
+  starred?: boolean;
+  /** Defaults to false: archived entries are hidden unless asked for */
+  archived?: boolean;
+};
+
+/** Postgres array literal for PostgREST filters, quoting each element */
+function toPgArray(values: string[]): string {
+  return `{${values.map((v) => `"${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')}}`;
+}
+
+const ENTRY_FIELDS =
+  'id, content, title, content_type, content_subtype, tags, importance_score, created_at, last_accessed_at';
+
+/** The subset of the PostgREST filter builder that applyFilters needs */
+interface FilterableQuery<Q> {
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  eq(column: string, value: unknown): Q;
+  overlaps(column: string, value: string[]): Q;
+  contains(column: string, value: string[]): Q;
+  not(column: string, operator: string, value: unknown): Q;
+}
+
+function applyFilters<Q extends FilterableQuery<Q>>(query: Q, filters: SearchFilters): Q {
+  const { startDate, endDate, contentType, minImportance, maxImportance, tags, allTags, excludeTags, starred } = filters;
+  query = query.eq('archived', filters.archived ?? false);
+  if (startDate) query = query.gte('created_at', startDate);
+  if (endDate) query = query.lte('created_at', endDate);
+  if (contentType) query = query.eq('content_type', contentType);
+  if (minImportance !== undefined) query = query.gte('importance_score', minImportance);
+  if (maxImportance !== undefined) query = query.lte('importance_score', maxImportance);
+  if (tags && Array.isArray(tags) && tags.length > 0) query = query.overlaps('tags', tags);
+  if (allTags && allTags.length > 0) query = query.contains('tags', allTags);
+  if (excludeTags && excludeTags.length > 0) query = query.not('tags', 'ov', toPgArray(excludeTags));
+  if (starred !== undefined) query = query.eq('starred', starred);
+  return query;
+}
+
+/**
+ * Same filters as applyFilters, for rows that come back from an RPC.
+ * `starred` isn't in the RPC row, so semanticSearch checks it separately.
+ */
+function matchesFilters(r: SearchResult, filters: SearchFilters): boolean {
+  const { startDate, endDate, contentType, minImportance, maxImportance, tags, allTags, excludeTags } = filters;
+  if (startDate && r.created_at < startDate) return false;
+  if (endDate && r.created_at > endDate) return false;
+  if (contentType && r.content_type !== contentType) return false;
+  if (minImportance !== undefined && (r.importance_score ?? -1) < minImportance) return false;
+  if (maxImportance !== undefined && (r.importance_score ?? Infinity) > maxImportance) return false;
+  if (tags && tags.length > 0 && !tags.some((t) => r.tags?.includes(t))) return false;
+  if (allTags && !allTags.every((t) => r.tags?.includes(t))) return false;
+  if (excludeTags && excludeTags.some((t) => r.tags?.includes(t))) return false;
+  return true;
+}
+
+/** Vector retrieval — ranked by decay-weighted cosine similarity. Never throws. */
+async function semanticSearch(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  query: string,
+  limit: number,
+  filters: SearchFilters
+): Promise<SearchResult[]> {
+  // The vector RPC only ever returns unarchived entries
+  if (filters.archived) return [];
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  try {
+    const embResponse = await fetch(`${supabaseUrl}/functions/v1/generate-embedding`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ text: query, input_type: 'query', include_next: true }),
+    });
+    if (!embResponse.ok) return [];
+
+    const embData = await embResponse.json() as QueryEmbedding;
+    if (!embData.embedding) return [];
+
+    // Over-fetch so post-filtering still leaves enough candidates
+    const vectorResults = await searchEntriesSideBySide<SearchResult & { similarity: number }>(supabaseClient, embData, {
+      match_threshold: 0.3,
+      match_count: limit * 2,
+      filter_user_id: userId,
+      decay_weight: true,
+    });
+
+    let rows: SearchResult[] = vectorResults.filter((r) => matchesFilters(r, filters));
+    if (filters.starred !== undefined && rows.length > 0) {
+      const { data: flagged } = await supabaseClient
+        .from('entries')
+        .select('id')
+        .in('id', rows.map((r) => r.id))
+        .eq('starred', filters.starred);
+      const keep = new Set((flagged ?? []).map((f: { id: string }) => f.id));
+      rows = rows.filter((r) => keep.has(r.id));
+    }
+
+    return rows
+      .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
+      .slice(0, limit);
+  } catch (embErr) {
+    console.warn('Semantic search failed, continuing with keyword only:', embErr);
+    return [];
+  }
+}
+
+/** ilike retrieval — see keywordFilter for how text and phrases combine */
+async function keywordSearch(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  text: string,
+  phrases: string[],
+  words: string[],
+  limit: number,
+  filters: SearchFilters
+): Promise<SearchResult[]> {
+  const filter = keywordFilter(text, phrases, words);
+  if (!filter) return [];
+
+  const keywordQuery = applyFilters(
+    supabaseClient
+      .from('entries')
+      .select(ENTRY_FIELDS)
+      .eq('user_id', userId)
+      .or(filter),
+    filters
+  );
+  const { data, error } = await keywordQuery
+    .order('importance_score', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []) as SearchResult[];
+}
+
+/** Tag retrieval — entries tagged with any of the query words */
+async function tagSearch(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  words: string[],
+  limit: number,
+  filters: SearchFilters
+): Promise<SearchResult[]> {
+  const tagQuery = applyFilters(
+    supabaseClient
+      .from('entries')
+      .select(ENTRY_FIELDS)
+      .eq('user_id', userId)
+      .overlaps('tags', words),
+    filters
+  );
+  const { data, error } = await tagQuery
+    .order('importance_score', { ascending: false, nullsFirst: false })
+    .limit(limit);
+
+  if (error) {
+    console.warn('Tag search failed (non-blocking):', error);
+    return [];
+  }
+  return (data ?? []) as SearchResult[];
+}
+
+/** Filter-only listing for queries that are nothing but operators */
+async function browseEntries(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  limit: number,
+  filters: SearchFilters
+): Promise<SearchResult[]> {
+  const { data, error } = await applyFilters(
+    supabaseClient.from('entries').select(ENTRY_FIELDS).eq('user_id', userId),
+    filters
+  )
+    .order('importance_score', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []) as SearchResult[];
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   const corsResponse = handleCors(req);
@@ -61,24 +277,11 @@ serve(async (req) => {
 
     // Skip rate limit for internal agent calls
     const isInternal = isServiceRoleRequest(req);
-    let rateLimit: ReturnType<typeof checkRateLimit> | undefined;
+    let rateLimit: RateLimitResult | undefined;
     if (!isInternal) {
-      rateLimit = checkRateLimit(userId, RATE_LIMIT_CONFIGS.search);
+      rateLimit = await checkRateLimit('search-memory', userId);
       if (!rateLimit.allowed) {
-        return new Response(
-          JSON.stringify({
-            error: 'Rate limit exceeded. Please try again later.',
-            retryAfter: Math.ceil(rateLimit.resetIn / 1000),
-          }),
-          {
-            status: 429,
-            headers: {
-              ...corsHeaders,
-              ...getRateLimitHeaders(rateLimit),
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        return rateLimitResponse(req, rateLimit.exceeded);
       }
     }
     if (parseError || !body) {
@@ -91,190 +294,129 @@ serve(async (req) => {
       return errorResponse(req, queryValidation.error ?? 'Invalid query', 400);
     }
 
-    const query = queryValidation.sanitized;
-    const {
-      useSemanticSearch = true, // "Smart search" mode
-      startDate,
-      endDate,
-      contentType,
-      minImportance,
-      maxImportance,
-      tags,
-    } = body;
+    // Structured syntax: type:, tag:, importance>=, before:/after:, starred, "phrases", -exclusions
+    const parsed = parseSearchQuery(queryValidation.sanitized);
+    if (parsed.errors.length > 0) {
+      return errorResponse(req, `Invalid search syntax: ${parsed.errors[0].message}`, 400, {
+        errors: parsed.errors,
+      });
+    }
+
+    const query = retrievalText(parsed);
+    const { useSemanticSearch = true } = body; // "Smart search" mode
     const limit = parseNumber(body.limit, { min: 1, max: 100, default: 50 }) ?? 50;
 
-    console.log('Search request:', { query: query.substring(0, 50), userId, smartSearch: useSemanticSearch, contentType, tags });
+    // Operators in the query win over the equivalent form fields
+    const filters: SearchFilters = {
+      startDate: parsed.filters.startDate ?? body.startDate,
+      endDate: parsed.filters.endDate ?? body.endDate,
+      contentType: parsed.filters.contentType ?? body.contentType,
+      minImportance: parsed.filters.minImportance ?? body.minImportance,
+      maxImportance: parsed.filters.maxImportance ?? body.maxImportance,
+      tags: body.tags,
+      allTags: parsed.filters.tags,
+      excludeTags: parsed.filters.excludeTags,
+      starred: parsed.filters.starred,
+      archived: parsed.filters.archived,
+    };
+
+    console.log('Search request:', { query: query.substring(0, 50), userId, smartSearch: useSemanticSearch, filters });
 
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
     const supabaseClient = createClient(supabaseUrl, supabaseKey);
 
-    let entries: SearchResult[] = [];
-    const escapedQuery = escapeForLike(query);
-
-    if (useSemanticSearch) {
-      // Smart search: try semantic (vector) search first, then fall back to keyword
-      console.log('Using smart search (semantic + keyword)...');
-
-      const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
-      const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
-
-      // Try vector-based semantic search first
-      let semanticResults: SearchResult[] = [];
-      if (query.length >= 3) {
-        try {
-          const embResponse = await fetch(`${supabaseUrl}/functions/v1/generate-embedding`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${supabaseServiceKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ text: query, input_type: 'query' }),
-          });
-
-          if (embResponse.ok) {
-            const embData = await embResponse.json();
-            if (embData.embedding) {
-              const { data: vectorResults, error: vectorError } = await supabaseClient.rpc(
-                'search_entries_by_embedding',
-                {
-                  query_embedding: JSON.stringify(embData.embedding),
-                  match_threshold: 0.3,
-                  match_count: limit,
-                  filter_user_id: userId,
-                }
-              );
-
-              if (!vectorError && vectorResults && vectorResults.length > 0) {
-                semanticResults = vectorResults.map((r: any) => ({
-                  ...r,
-                  similarity: r.similarity,
-                }));
-                console.log(`Semantic search found ${semanticResults.length} results`);
-              }
-            }
-          }
-        } catch (embErr) {
-          console.warn('Semantic search failed, falling back to keyword:', embErr);
-        }
-      }
-
-      // Always also do keyword search to catch exact matches semantic might miss
-      const STOP_WORDS = new Set([
-        'the','and','or','is','it','to','a','an','in','on','at','for','of','my','me','do',
-        'what','how','when','where','why','can','you','please','could','would','should',
-        'this','that','with','from','have','has','just','about','been','want','need','like',
-        'find','get','show','tell','help','search','brain','memory','look','up','all','any',
-        'some','its','not','but','are','was','were','be','am','will','did','does','had',
-      ]);
-      const searchWords = query.toLowerCase().split(/\s+/).filter((w: string) => w.length >= 3 && !STOP_WORDS.has(w));
-
-      // Build OR conditions: exact phrase match + individual word matches
-      const orConditions: string[] = [
-        `content.ilike.%${escapedQuery}%`,
-        `title.ilike.%${escapedQuery}%`,
-      ];
-      // Add individual word ilike matches for better recall
-      for (const word of searchWords) {
-        const escapedWord = escapeForLike(word);
-        orConditions.push(`content.ilike.%${escapedWord}%`);
-        orConditions.push(`title.ilike.%${escapedWord}%`);
-      }
-      // Deduplicate conditions
-      const uniqueConditions = [...new Set(orConditions)];
+    // Operators only ("type:reminder starred") — browse by filters, no ranking to fuse
+    if (!query) {
+      const browsed = (await browseEntries(supabaseClient, userId, limit, filters))
+        .filter((r) => matchesTextConstraints(r, parsed.phrases, parsed.excludeTerms))
+        .map((r) => ({ ...r, reasons: [] }));
+
+      return successResponse(
+        req,
+        { results: browsed, total: browsed.length, query: '', semantic: false, parsed },
+        200,
+        rateLimit
+      );
+    }
 
-      let keywordQuery = supabaseClient
-        .from('entries')
-        .select('id, content, title, content_type, content_subtype, tags, importance_score, created_at')
-        .eq('user_id', userId)
-        .eq('archived', false)
-        .or(uniqueConditions.join(','));
-      if (startDate) keywordQuery = keywordQuery.gte('created_at', startDate);
-      if (endDate) keywordQuery = keywordQuery.lte('created_at', endDate);
-      if (contentType) keywordQuery = keywordQuery.eq('content_type', contentType);
-      if (minImportance !== undefined) keywordQuery = keywordQuery.gte('importance_score', minImportance);
-      if (maxImportance !== undefined) keywordQuery = keywordQuery.lte('importance_score', maxImportance);
-      if (tags && Array.isArray(tags) && tags.length > 0) keywordQuery = keywordQuery.overlaps('tags', tags);
-      const { data: keywordResults, error: keywordError } = await keywordQuery
-        .order('importance_score', { ascending: false, nullsFirst: false })
-        .order('created_at', { ascending: false })
-        .limit(limit);
-
-      if (keywordError) throw keywordError;
-
-      // Merge: semantic results first (they have similarity scores), then keyword-only results
-      const seenIds = new Set<string>();
-
-      // Add semantic results first (already ranked by similarity)
-      for (const result of semanticResults) {
-        if (!seenIds.has(result.id)) {
-          seenIds.add(result.id);
-          entries.push(result);
-        }
-      }
+    const words = useSemanticSearch ? extractSearchWords(query) : [];
+
+    // Run every retrieval in parallel — each returns its own ranked list.
+    // A failed retrieval drops out of the fusion instead of failing the search.
+    const settled = await Promise.allSettled([
+      useSemanticSearch && query.length >= 3
+        ? semanticSearch(supabaseClient, userId, query, limit, filters)
+        : Promise.resolve([] as SearchResult[]),
+      keywordSearch(supabaseClient, userId, parsed.text, parsed.phrases, words, limit, filters),
+      words.length > 0
+        ? tagSearch(supabaseClient, userId, words, limit, filters)
+        : Promise.resolve([] as SearchResult[]),
+    ]);
+    const [semanticResults, keywordResults, tagResults] = settled.map((outcome, i) => {
+      if (outcome.status === 'fulfilled') return outcome.value;
+      console.warn(`[search-memory] ${['semantic', 'keyword', 'tag'][i]} retrieval failed:`, outcome.reason);
+      return [] as SearchResult[];
+    });
+
+    // Rank keyword hits by local relevance instead of DB order
+    const keywordRanked = keywordResults
+      .map((entry) => ({ entry, match: scoreKeywordMatch(entry, query, words) }))
+      .sort((a, b) => b.match.score - a.match.score);
+    const keywordDetail = new Map(keywordRanked.map(({ entry, match }) => [entry.id, match.detail]));
+
+    const lists: RankedList<SearchResult>[] = [
+      {
+        kind: 'semantic',
+        items: semanticResults,
+        explain: (r) => `semantic ${Math.round((r.similarity ?? 0) * 100)}%`,
+      },
+      {
+        kind: 'keyword',
+        items: keywordRanked.map(({ entry }) => entry),
+        explain: (r) => keywordDetail.get(r.id) ?? 'keyword match',
+      },
+      {
+        kind: 'tag',
+        weight: TAG_LIST_WEIGHT,
+        items: tagResults,
+        explain: (r) => {
+          const hit = r.tags?.filter((t) => words.includes(t.toLowerCase())) ?? [];
+          return `tag: ${hit.slice(0, 3).join(', ') || 'match'}`;
+        },
+      },
+    ];
 
-      // Add keyword results that weren't in semantic results
-      for (const result of (keywordResults || [])) {
-        if (!seenIds.has(result.id)) {
-          seenIds.add(result.id);
-          entries.push(result);
-        }
-      }
+    // Recency/decay boost: among entries that already matched, favour recently
+    // created or accessed ones. Never adds new candidates on its own.
+    if (useSemanticSearch) {
+      const now = Date.now();
+      const candidates = new Map<string, SearchResult>();
+      for (const list of lists) for (const r of list.items) if (!candidates.has(r.id)) candidates.set(r.id, r);
+      const recent = [...candidates.values()]
+        .map((r) => ({ r, age: ageInDays(r, now) }))
+        .filter(({ age }) => age <= RECENCY_WINDOW_DAYS)
+        .sort((a, b) => a.age - b.age);
+      lists.push({
+        kind: 'recency',
+        weight: RECENCY_LIST_WEIGHT,
+        items: recent.map(({ r }) => r),
+        explain: (r) => {
+          const days = Math.floor(ageInDays(r, now));
+          return days === 0 ? 'recent: today' : `recent: ${days}d ago`;
+        },
+      });
+    }
 
-      // Also check tag matches
-      if (searchWords.length > 0) {
-        let tagQuery = supabaseClient
-          .from('entries')
-          .select('id, content, title, content_type, content_subtype, tags, importance_score, created_at')
-          .eq('user_id', userId)
-          .eq('archived', false)
-          .overlaps('tags', searchWords);
-        if (startDate) tagQuery = tagQuery.gte('created_at', startDate);
-        if (endDate) tagQuery = tagQuery.lte('created_at', endDate);
-        if (contentType) tagQuery = tagQuery.eq('content_type', contentType);
-        if (minImportance !== undefined) tagQuery = tagQuery.gte('importance_score', minImportance);
-        if (maxImportance !== undefined) tagQuery = tagQuery.lte('importance_score', maxImportance);
-        if (tags && Array.isArray(tags) && tags.length > 0) tagQuery = tagQuery.overlaps('tags', tags);
-        const { data: tagResults, error: tagError } = await tagQuery
-          .order('importance_score', { ascending: false, nullsFirst: false })
-          .limit(limit);
-
-        if (!tagError && tagResults) {
-          for (const result of tagResults) {
-            if (!seenIds.has(result.id)) {
-              seenIds.add(result.id);
-              entries.push(result);
-            }
-          }
-        }
-      }
+    const entries = reciprocalRankFusion(lists)
+      .filter((r) => matchesTextConstraints(r, parsed.phrases, parsed.excludeTerms));
 
-      console.log(`Smart search returned ${entries.length} results (${semanticResults.length} semantic, rest keyword)`);
-    } else {
-      // Standard keyword search - exact phrase matching only
-      console.log('Using keyword search...');
-      let stdQuery = supabaseClient
-        .from('entries')
-        .select('id, content, title, content_type, content_subtype, tags, importance_score, created_at')
-        .eq('user_id', userId)
-        .eq('archived', false)
-        .or(`content.ilike.%${escapedQuery}%,title.ilike.%${escapedQuery}%`);
-      if (startDate) stdQuery = stdQuery.gte('created_at', startDate);
-      if (endDate) stdQuery = stdQuery.lte('created_at', endDate);
-      if (contentType) stdQuery = stdQuery.eq('content_type', contentType);
-      if (minImportance !== undefined) stdQuery = stdQuery.gte('importance_score', minImportance);
-      if (maxImportance !== undefined) stdQuery = stdQuery.lte('importance_score', maxImportance);
-      if (tags && Array.isArray(tags) && tags.length > 0) stdQuery = stdQuery.overlaps('tags', tags);
-      const { data: keywordResults, error: keywordError } = await stdQuery
-        .order('created_at', { ascending: false })
-        .limit(limit);
-
-      if (keywordError) throw keywordError;
-      entries = keywordResults ?? [];
-    }
+    console.log(
+      `Hybrid search fused ${entries.length} results (${semanticResults.length} semantic, ${keywordResults.length} keyword, ${tagResults.length} tag)`
+    );
 
-    // Filters already applied in SQL — just enforce limit
+    // Filters already applied per retrieval — just enforce limit
     const results = entries.slice(0, limit);
 
     // Fire-and-forget: bump access counts for returned entries
@@ -294,6 +436,7 @@ serve(async (req) => {
         total: results.length,
         query,
         semantic: useSemanticSearch,
+        parsed,
       },
       200,
       rateLimit
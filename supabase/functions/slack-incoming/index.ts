@@ -4,13 +4,19 @@
  * Handles:
  * - Slack URL verification challenge
  * - Event callbacks (message.im, app_mention)
+ * - Interactivity (block_actions) — Approve / Reject buttons on code merge
+ *   approval requests, forwarded to code-approval; done / snooze / reschedule
+ *   on reminders, forwarded to reminder-action
+ * - Text commands "approve|reject [id]" and "changes <id> <feedback>" for
+ *   sessions awaiting approval
  * - Signature verification via SLACK_SIGNING_SECRET
  * - Fire-and-forget dispatch to jac-dispatcher
  * - Returns 200 within 3 seconds (Slack requirement)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { parseReminderAction } from '../_shared/reminders.ts';
 
 async function verifySlackSignature(
   body: string,
@@ -51,6 +57,66 @@ async function verifySlackSignature(
   return mac.every((byte, i) => byte === macCheck[i]);
 }
 
+/**
+ * "approve", "reject 1a2b3c4d", "changes 1a2b3c4d use a CTE instead".
+ * Strict on purpose — anything else goes to the dispatcher as a normal message.
+ */
+const APPROVAL_COMMAND_RE = /^(?:(approve|reject)(?:\s+([0-9a-f]{8,36}))?|(changes)\s+([0-9a-f]{8,36})\s+([\s\S]+))$/i;
+
+/**
+ * Find the awaiting-approval session a Slack command refers to: by id prefix,
+ * or the only one pending when no id is given.
+ */
+async function resolvePendingSession(
+  supabase: SupabaseClient,
+  userId: string,
+  idPrefix: string | undefined
+): Promise<{ id: string } | { error: string }> {
+  const { data: pending } = await supabase
+    .from('code_sessions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('status', 'awaiting_approval')
+    .order('created_at', { ascending: false });
+  const sessions = (pending ?? []) as Array<{ id: string }>;
+  const matches = idPrefix ? sessions.filter(s => s.id.startsWith(idPrefix.toLowerCase())) : sessions;
+  if (matches.length === 1) return { id: matches[0].id };
+  if (matches.length === 0) {
+    return { error: idPrefix ? `No session awaiting approval matches \`${idPrefix}\`.` : 'No sessions are awaiting approval.' };
+  }
+  return { error: `${matches.length} sessions are awaiting approval — include the id: ${matches.map(s => `\`${s.id.slice(0, 8)}\``).join(', ')}` };
+}
+
+function forwardToReminderAction(
+  supabaseUrl: string,
+  serviceKey: string,
+  payload: Record<string, unknown>
+): Promise<Response> {
+  return fetch(`${supabaseUrl}/functions/v1/reminder-action`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...payload, via: 'slack' }),
+  });
+}
+
+function forwardToCodeApproval(
+  supabaseUrl: string,
+  serviceKey: string,
+  payload: Record<string, unknown>
+): Promise<Response> {
+  return fetch(`${supabaseUrl}/functions/v1/code-approval`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...payload, via: 'slack' }),
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { status: 204 });
@@ -64,7 +130,6 @@ serve(async (req) => {
     }
 
     const rawBody = await req.text();
-    const payload = JSON.parse(rawBody);
 
     const timestamp = req.headers.get('x-slack-request-timestamp') || '';
     const slackSignature = req.headers.get('x-slack-signature') || '';
@@ -76,6 +141,54 @@ serve(async (req) => {
       return new Response('Invalid signature', { status: 401 });
     }
 
+    // Interactivity arrives form-encoded: payload=<json>
+    const isInteraction = (req.headers.get('content-type') || '').includes('application/x-www-form-urlencoded');
+    const payload = isInteraction
+      ? JSON.parse(new URLSearchParams(rawBody).get('payload') || '{}')
+      : JSON.parse(rawBody);
+
+    // Handle button clicks on merge approval requests and reminders
+    if (payload.type === 'block_actions') {
+      const action = (payload.actions || [])[0] as
+        | { action_id?: string; value?: string; selected_date?: string; block_id?: string }
+        | undefined;
+      const reminderAction = parseReminderAction(action);
+      if (reminderAction) {
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+        const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+        const supabase = createClient(supabaseUrl, serviceKey);
+        const { data: profile } = await supabase.from('profiles').select('id').limit(1).single();
+        if (profile) {
+          // reminder-action replaces the reminder message via response_url
+          forwardToReminderAction(supabaseUrl, serviceKey, {
+            userId: profile.id,
+            ...reminderAction,
+            responseUrl: payload.response_url,
+          }).catch(err => console.error('[slack-incoming] reminder-action forward failed:', err));
+        }
+        return new Response('', { status: 200 });
+      }
+      const approvalAction = action?.action_id === 'code_approve' ? 'approve'
+        : action?.action_id === 'code_reject' ? 'reject'
+        : null;
+      if (approvalAction && action?.value) {
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+        const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+        const supabase = createClient(supabaseUrl, serviceKey);
+        const { data: profile } = await supabase.from('profiles').select('id').limit(1).single();
+        if (profile) {
+          // code-approval updates the button message via response_url when done
+          forwardToCodeApproval(supabaseUrl, serviceKey, {
+            userId: profile.id,
+            sessionId: action.value,
+            action: approvalAction,
+            responseUrl: payload.response_url,
+          }).catch(err => console.error('[slack-incoming] code-approval forward failed:', err));
+        }
+      }
+      return new Response('', { status: 200 });
+    }
+
     // Handle URL verification challenge (after signature check)
     if (payload.type === 'url_verification') {
       return new Response(JSON.stringify({ challenge: payload.challenge }), {
@@ -191,6 +304,41 @@ serve(async (req) => {
         return new Response('ok', { status: 200 });
       }
 
+      // Merge approval commands: answer directly instead of dispatching
+      const approvalMatch = cleanMessage.match(APPROVAL_COMMAND_RE);
+      if (approvalMatch) {
+        const verb = (approvalMatch[1] || approvalMatch[3]).toLowerCase();
+        const feedback = (approvalMatch[5] || '').trim();
+        const resolved = await resolvePendingSession(supabase, userId, approvalMatch[2] || approvalMatch[4]);
+        let replyText: string;
+        if ('error' in resolved) {
+          replyText = resolved.error;
+        } else {
+          const res = await forwardToCodeApproval(supabaseUrl, serviceKey, {
+            userId,
+            sessionId: resolved.id,
+            action: verb === 'changes' ? 'request_changes' : verb,
+            feedback,
+          }).catch(() => null);
+          const result = res ? await res.json().catch(() => ({})) : {};
+          replyText = res?.ok
+            ? verb === 'approve' ? `Approved and merged (${String(result.mergeSha || '').slice(0, 8)}).`
+              : verb === 'reject' ? 'Rejected — PR closed.'
+              : 'Changes requested — feedback posted on the PR.'
+            : `Couldn't ${verb === 'changes' ? 'request changes' : verb}: ${result.error || 'code-approval failed'}`;
+        }
+
+        if (botToken) {
+          fetch('https://slack.com/api/chat.postMessage', {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${botToken}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ channel: event.channel, text: replyText }),
+          }).catch(() => {});
+        }
+
+        return new Response('ok', { status: 200 });
+      }
+
       // Post "thinking" placeholder, then pass its ts to dispatcher so agents
       // can UPDATE this message with the real response (like Claude/ChatGPT do)
       let thinkingTs: string | undefined;
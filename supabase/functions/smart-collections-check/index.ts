@@ -0,0 +1,254 @@
+/**
+ * smart-collections-check — Slack pings for smart collections
+ *
+ * Re-runs each of the user's notify-enabled collection queries through
+ * search-memory and compares the results with smart_collection_matches. An
+ * entry that is in the results but not yet a recorded member just started
+ * matching: it is recorded and the user gets a Slack message. An entry that
+ * dropped out of the results loses its membership, so matching again later
+ * pings again.
+ *
+ * Two ways in:
+ * - { userId, entryId } — smart-save and import-notes (checkSmartCollections
+ *   in _shared/entryPipeline.ts), right after a new entry is stored and its
+ *   embedding attempted
+ * - { action: 'drain' } — pg_cron every minute. Checks entries the
+ *   queue_smart_collection_check trigger queued: edits, enrichment, appends,
+ *   sync-entries, calendar imports, new embeddings
+ *
+ * Auth: Service role only (internal call).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { isServiceRoleRequest } from '../_shared/auth.ts';
+import { sendSlackMessage } from '../_shared/slack.ts';
+
+/** Same window the collection view shows — an entry outside it isn't "in" the collection */
+const MATCH_LIMIT = 100;
+/** Entries checked per drain run — each one costs a search per collection */
+const DRAIN_BATCH = 20;
+/** Leave freshly queued entries alone briefly so an in-flight embedding can land */
+const DRAIN_SETTLE_MS = 30_000;
+
+interface Collection {
+  id: string;
+  name: string;
+  query: string;
+}
+
+interface CheckContext {
+  supabase: SupabaseClient;
+  supabaseUrl: string;
+  serviceKey: string;
+  userId: string;
+  collections: Collection[];
+  /** Entries still waiting in the queue — never seeded as existing members */
+  pending: Set<string>;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function notifyCollections(supabase: SupabaseClient, userId: string): Promise<Collection[]> {
+  const { data, error } = await supabase
+    .from('smart_collections')
+    .select('id, name, query')
+    .eq('user_id', userId)
+    .eq('notify_slack', true);
+  if (error) throw error;
+  return (data ?? []) as Collection[];
+}
+
+async function searchCollection(ctx: CheckContext, collection: Collection): Promise<Set<string> | null> {
+  const res = await fetch(`${ctx.supabaseUrl}/functions/v1/search-memory`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${ctx.serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      userId: ctx.userId,
+      query: collection.query,
+      useSemanticSearch: true,
+      limit: MATCH_LIMIT,
+    }),
+  });
+  if (!res.ok) {
+    console.warn(`[smart-collections-check] search failed for "${collection.name}": ${res.status}`);
+    return null;
+  }
+  const data = await res.json();
+  return new Set(((data.results ?? []) as Array<{ id: string }>).map((r) => r.id));
+}
+
+/**
+ * A collection with no recorded members yet (new, or its query or notify
+ * setting just changed) starts from its current results, so existing
+ * members don't all ping on their next edit.
+ */
+async function seedMembers(ctx: CheckContext, collection: Collection, results: Set<string>, entryId: string) {
+  const { count } = await ctx.supabase
+    .from('smart_collection_matches')
+    .select('entry_id', { count: 'exact', head: true })
+    .eq('collection_id', collection.id);
+  if ((count ?? 0) > 0) return;
+
+  const rows = [...results]
+    .filter((id) => id !== entryId && !ctx.pending.has(id))
+    .map((id) => ({ collection_id: collection.id, entry_id: id, user_id: ctx.userId }));
+  if (rows.length === 0) return;
+  const { error } = await ctx.supabase
+    .from('smart_collection_matches')
+    .upsert(rows, { onConflict: 'collection_id,entry_id', ignoreDuplicates: true });
+  if (error) console.warn(`[smart-collections-check] seeding "${collection.name}" failed:`, error);
+}
+
+/** Check one entry against every collection; returns the collections it newly joined */
+async function checkEntry(ctx: CheckContext, entryId: string): Promise<string[]> {
+  const { data: entry } = await ctx.supabase
+    .from('entries')
+    .select('id, title, content')
+    .eq('id', entryId)
+    .eq('user_id', ctx.userId)
+    .maybeSingle();
+  if (!entry) return [];
+
+  const matched: string[] = [];
+
+  for (const collection of ctx.collections) {
+    try {
+      const results = await searchCollection(ctx, collection);
+      if (!results) continue;
+      await seedMembers(ctx, collection, results, entryId);
+
+      if (!results.has(entryId)) {
+        await ctx.supabase
+          .from('smart_collection_matches')
+          .delete()
+          .eq('collection_id', collection.id)
+          .eq('entry_id', entryId);
+        continue;
+      }
+
+      // Only the insert that creates the membership row notifies
+      const { data: inserted, error: insertError } = await ctx.supabase
+        .from('smart_collection_matches')
+        .upsert(
+          { collection_id: collection.id, entry_id: entryId, user_id: ctx.userId },
+          { onConflict: 'collection_id,entry_id', ignoreDuplicates: true }
+        )
+        .select('entry_id');
+      if (insertError) throw insertError;
+      if (!inserted || inserted.length === 0) continue;
+
+      matched.push(collection.id);
+      await ctx.supabase
+        .from('smart_collections')
+        .update({ last_matched_at: new Date().toISOString() })
+        .eq('id', collection.id);
+
+      const label = entry.title || (entry.content as string).slice(0, 80);
+      await sendSlackMessage(ctx.supabase, ctx.userId, `*New in "${collection.name}":* ${label}`);
+    } catch (err) {
+      console.warn(`[smart-collections-check] "${collection.name}" check failed:`, err);
+    }
+  }
+
+  console.log(`[smart-collections-check] ${entryId}: ${matched.length}/${ctx.collections.length} collections newly matched`);
+  return matched;
+}
+
+/** Drop an entry's queue row unless it was re-queued while we were checking */
+async function dequeue(supabase: SupabaseClient, entryId: string, checkedFrom: string) {
+  await supabase
+    .from('smart_collection_checks')
+    .delete()
+    .eq('entry_id', entryId)
+    .lte('queued_at', checkedFrom);
+}
+
+async function pendingEntries(supabase: SupabaseClient, userId: string): Promise<Set<string>> {
+  const { data } = await supabase
+    .from('smart_collection_checks')
+    .select('entry_id')
+    .eq('user_id', userId);
+  return new Set((data ?? []).map((r: { entry_id: string }) => r.entry_id));
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204 });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return json({ error: 'Unauthorized — service role required' }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, serviceKey);
+
+  try {
+    const body = await req.json();
+    const startedAt = new Date().toISOString();
+
+    if (body.action === 'drain') {
+      const { data: queued, error: queueError } = await supabase
+        .from('smart_collection_checks')
+        .select('entry_id, user_id, queued_at')
+        .lte('queued_at', new Date(Date.now() - DRAIN_SETTLE_MS).toISOString())
+        .order('queued_at', { ascending: true })
+        .limit(DRAIN_BATCH);
+      if (queueError) throw queueError;
+
+      const byUser = new Map<string, string[]>();
+      for (const row of queued ?? []) {
+        byUser.set(row.user_id, [...(byUser.get(row.user_id) ?? []), row.entry_id]);
+      }
+
+      let matched = 0;
+      for (const [userId, entryIds] of byUser) {
+        try {
+          const collections = await notifyCollections(supabase, userId);
+          const pending = await pendingEntries(supabase, userId);
+          for (const entryId of entryIds) {
+            if (collections.length > 0) {
+              matched += (await checkEntry({ supabase, supabaseUrl, serviceKey, userId, collections, pending }, entryId)).length;
+            }
+            pending.delete(entryId);
+            await dequeue(supabase, entryId, startedAt);
+          }
+        } catch (err) {
+          console.warn(`[smart-collections-check] drain failed for user ${userId}:`, err);
+        }
+      }
+
+      return json({ checked: queued?.length ?? 0, matched });
+    }
+
+    const { userId, entryId } = body;
+    if (!userId || !entryId) {
+      return json({ error: 'userId and entryId are required' }, 400);
+    }
+
+    const collections = await notifyCollections(supabase, userId);
+    if (collections.length === 0) {
+      return json({ checked: 0, matched: [] });
+    }
+
+    const pending = await pendingEntries(supabase, userId);
+    const matched = await checkEntry({ supabase, supabaseUrl, serviceKey, userId, collections, pending }, entryId);
+    // The insert trigger queued it too — this check covers that
+    await dequeue(supabase, entryId, startedAt);
+
+    return json({ checked: collections.length, matched });
+  } catch (error) {
+    console.error('[smart-collections-check] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
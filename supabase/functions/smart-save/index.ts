@@ -20,26 +20,18 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId, extractUserIdWithServiceRole, isServiceRoleRequest } from '../_shared/auth.ts';
-import { checkRateLimit, RATE_LIMIT_CONFIGS, getRateLimitHeaders } from '../_shared/rateLimit.ts';
-import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { checkRateLimit, type RateLimitResult } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
 import { sanitizeString, validateContentLength, parseJsonBody } from '../_shared/validation.ts';
-
-interface ClassificationResult {
-  type: string;
-  subtype?: string;
-  suggestedTitle: string;
-  tags: string[];
-  extractedData: Record<string, unknown>;
-  appendTo?: string;
-  listItems?: Array<{ text: string; checked: boolean }>;
-  imageDescription?: string;
-  documentText?: string;
-  eventDate?: string;
-  eventTime?: string;
-  isRecurring?: boolean;
-  recurrencePattern?: 'daily' | 'weekly' | 'monthly' | 'yearly';
-  reminderMinutes?: number;
-}
+import { parseRRule, patternFromRRule, serializeRRule } from '../_shared/rrule.ts';
+import {
+  checkSmartCollections,
+  classifyAndScore,
+  embedEntry,
+  extractEntities,
+  type ClassificationResult,
+  type PipelineContext,
+} from '../_shared/entryPipeline.ts';
 
 interface Entry {
   id: string;
@@ -141,30 +133,18 @@ serve(async (req) => {
 
     // Skip rate limit for internal agent calls
     const isInternal = isServiceRoleRequest(req);
-    let rateLimit: ReturnType<typeof checkRateLimit> | undefined;
+    let rateLimit: RateLimitResult | undefined;
     if (!isInternal) {
-      rateLimit = checkRateLimit(userId, RATE_LIMIT_CONFIGS.standard);
+      rateLimit = await checkRateLimit('smart-save', userId);
       if (!rateLimit.allowed) {
-        return new Response(
-          JSON.stringify({
-            error: 'Rate limit exceeded. Please try again later.',
-            retryAfter: Math.ceil(rateLimit.resetIn / 1000),
-          }),
-          {
-            status: 429,
-            headers: {
-              ...corsHeaders,
-              ...getRateLimitHeaders(rateLimit),
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        return rateLimitResponse(req, rateLimit.exceeded);
       }
     }
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const pipeline: PipelineContext = { supabase, supabaseUrl, serviceKey: supabaseKey, userId };
 
     // Body already parsed above for auth — reuse it
     const body = parsedBody as SmartSaveRequest;
@@ -206,57 +186,12 @@ serve(async (req) => {
       // AI path: call classify-content and calculate-importance in parallel
       console.log('[smart-save] AI classification path...');
 
-      const fetchPromises: Promise<Response>[] = [
-        fetch(`${supabaseUrl}/functions/v1/classify-content`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ content, imageUrl, userId }),
-        }),
-        fetch(`${supabaseUrl}/functions/v1/calculate-importance`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ content, role: 'user' }),
-        }),
-      ];
-
-      const responses = await Promise.all(fetchPromises);
-      const classifyResponse = responses[0];
-      const importanceResponse = responses[1];
-
-      if (!classifyResponse.ok) {
-        const errorText = await classifyResponse.text();
-        console.error('Classification failed:', errorText);
-        classification = {
-          type: imageUrl ? 'image' : 'note',
-          subtype: imageUrl ? 'photo' : undefined,
-          suggestedTitle: content?.slice(0, 50) || (imageUrl ? 'Uploaded Image' : 'Untitled'),
-          tags: [],
-          extractedData: {},
-          listItems: [],
-        };
-      } else {
-        classification = await classifyResponse.json();
-        // Normalize tags — classify-content sometimes returns a comma-separated string
-        if (classification.tags && !Array.isArray(classification.tags)) {
-          classification.tags = typeof classification.tags === 'string'
-            ? (classification.tags as string).split(',').map((t: string) => t.trim()).filter(Boolean)
-            : [];
-        }
-      }
+      const classified = await classifyAndScore(pipeline, content, imageUrl);
+      classification = classified.classification;
+      importanceScore = classified.importanceScore;
 
       console.log('Classification result:', classification);
-
-      if (importanceResponse?.ok) {
-        const importanceData = await importanceResponse.json();
-        importanceScore = importanceData.importance_score;
-        console.log('Importance calculated:', importanceScore);
-      }
+      if (importanceScore != null) console.log('Importance calculated:', importanceScore);
     }
 
     // Safety net: override to 'event' if content has calendar keywords + a date
@@ -313,6 +248,8 @@ serve(async (req) => {
             tags: updatedTags,
             embedding: null,
             updated_at: new Date().toISOString(),
+            // Appends rewrite the entry in place — the revision keeps the previous text
+            revision_source: 'append',
           })
           .eq('id', classification.appendTo)
           .select()
@@ -371,6 +308,14 @@ serve(async (req) => {
       if (classification.recurrencePattern) {
         entryData.recurrence_pattern = classification.recurrencePattern;
       }
+      // The rule wins over the simple pattern; a pattern alone becomes its FREQ rule
+      const rule = parseRRule(classification.rrule)
+        ?? (classification.isRecurring ? parseRRule(classification.recurrencePattern && `FREQ=${classification.recurrencePattern}`) : null);
+      if (rule) {
+        entryData.is_recurring = true;
+        entryData.rrule = serializeRRule(rule);
+        entryData.recurrence_pattern = patternFromRRule(rule);
+      }
       if (classification.reminderMinutes !== undefined && classification.reminderMinutes !== null) {
         const mins = Number(classification.reminderMinutes);
         if (!isNaN(mins) && mins >= 0 && mins <= 20160) {
@@ -392,85 +337,19 @@ serve(async (req) => {
       entry = newEntry;
       console.log('New entry created:', entry.id);
 
-      // Generate embedding asynchronously (fire-and-forget for speed)
-      // Rich text: include metadata for better semantic matching
+      // Generate embedding asynchronously (fire-and-forget for speed), then
+      // check smart collections. Rich text: include metadata for better semantic matching
       const richEmbeddingText = `${classification.suggestedTitle} | ${classification.type} | ${classification.tags.join(', ')} | ${entryContent}`.slice(0, 8000);
       if (richEmbeddingText.length > 10) {
-        fetch(`${supabaseUrl}/functions/v1/generate-embedding`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ text: richEmbeddingText }),
-        })
-          .then(async (embRes) => {
-            if (!embRes.ok) {
-              const errBody = await embRes.text();
-              console.error(`[smart-save] Embedding generation failed: ${embRes.status} — ${errBody}`);
-              return;
-            }
-            const embData = await embRes.json();
-            if (embData.embedding) {
-              // Store embedding on the entry
-              const { error: embUpdateError } = await supabase
-                .from('entries')
-                .update({ embedding: JSON.stringify(embData.embedding) })
-                .eq('id', entry!.id);
-              if (embUpdateError) {
-                console.warn('Failed to store embedding:', embUpdateError);
-              } else {
-                console.log('Embedding stored for entry:', entry!.id);
-                // Find and store related entries
-                try {
-                  const { data: related } = await supabase.rpc('search_entries_by_embedding', {
-                    query_embedding: JSON.stringify(embData.embedding),
-                    match_threshold: 0.65,
-                    match_count: 6,
-                    filter_user_id: userId,
-                  });
-                  if (related && related.length > 0) {
-                    const relationships = related
-                      .filter((r: any) => r.id !== entry!.id)
-                      .slice(0, 5)
-                      .map((r: any) => ({
-                        entry_id: entry!.id,
-                        related_entry_id: r.id,
-                        user_id: userId,
-                        similarity_score: r.similarity,
-                        relationship_type: 'semantic',
-                      }));
-                    if (relationships.length > 0) {
-                      const { error: relInsertErr } = await supabase.from('entry_relationships').insert(relationships);
-                      if (relInsertErr) {
-                        console.error('[smart-save] Failed to insert relationships:', relInsertErr);
-                      } else {
-                        console.log(`Stored ${relationships.length} relationships for entry:`, entry!.id);
-                      }
-                    }
-                  }
-                } catch (relErr) {
-                  console.error('[smart-save] Failed to compute relationships for entry', entry!.id, ':', relErr);
-                }
-              }
-            }
-          })
-          .catch((err) => console.warn('Embedding generation failed (non-blocking):', err));
+        embedEntry(pipeline, entry!.id, richEmbeddingText)
+          .catch((err) => console.warn('Embedding generation failed (non-blocking):', err))
+          .finally(() => checkSmartCollections(pipeline, entry!.id));
+      } else {
+        checkSmartCollections(pipeline, entry!.id);
       }
 
       // Fire-and-forget entity extraction
-      fetch(`${supabaseUrl}/functions/v1/extract-entities`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${supabaseKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId,
-          content: entryContent,
-          sourceEntryId: entry!.id,
-        }),
-      }).catch((err) => console.warn('[smart-save] Entity extraction failed (non-blocking):', err));
+      extractEntities(pipeline, entry!.id, entryContent);
 
       // Deferred importance scoring for fast-path entries (fire-and-forget DB update)
       if (deferImportanceScoring) {
@@ -1,8 +1,9 @@
 /**
- * sync-codebase — Reads key files from a GitHub repo and saves them as brain entries
+ * sync-codebase — Reads key files from a project repo (GitHub, GitLab or Gitea) and saves them as brain entries
  *
  * Creates searchable code entries (content_type: 'code', source: 'code-sync')
- * so the brain can answer questions about the codebase.
+ * so the brain can answer questions about the codebase, and refreshes the
+ * project's symbol index (code_symbols — see _shared/symbolIndex.ts).
  *
  * Called:
  * - By jac-code-agent after a PR (fire-and-forget, specific paths)
@@ -12,8 +13,12 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { isServiceRoleRequest } from '../_shared/auth.ts';
-import { getRepoTree, getFileContent, isSecretFile } from '../_shared/github.ts';
+import { getGitProvider, splitRepoFullName, isSecretFile } from '../_shared/gitProvider.ts';
+import type { GitProvider } from '../_shared/gitProvider.ts';
+import { readTsconfigs } from '../_shared/sandboxConfig.ts';
+import { extractFileSymbols, isIndexableFile } from '../_shared/symbolIndex.ts';
 
 // File extensions worth embedding
 const INCLUDE_EXTENSIONS = new Set([
@@ -45,6 +50,10 @@ const EXCLUDE_PATTERNS = [
   /\.(png|jpg|jpeg|gif|svg|ico|woff|woff2|ttf|eot|mp3|mp4)$/i,
 ];
 
+// Source files indexed per run (the index covers more than the 100 embedded files)
+const MAX_INDEX_FILES = 600;
+const TSCONFIG_FILES = ['tsconfig.json', 'tsconfig.app.json'];
+
 function shouldIncludeFile(path: string): boolean {
   // Always exclude secret files
   if (isSecretFile(path)) return false;
@@ -61,6 +70,93 @@ function shouldIncludeFile(path: string): boolean {
   return INCLUDE_EXTENSIONS.has(ext);
 }
 
+interface IndexTarget {
+  git: GitProvider;
+  owner: string;
+  repo: string;
+  ref: string;
+  projectId: string;
+  userId: string;
+  tree: string[];
+  /** Only re-index these paths; null for the whole tree */
+  paths: string[] | null;
+  /** Contents already fetched for brain entries */
+  fetched: Map<string, { content: string; sha: string }>;
+}
+
+/**
+ * Rebuild code_symbols rows for the project (or just the given paths).
+ * Rows for files that left the tree are removed.
+ */
+async function indexSymbols(supabase: SupabaseClient, target: IndexTarget): Promise<{ indexed: number; removed: number }> {
+  const { git, owner, repo, ref, projectId, userId, fetched } = target;
+  const treeSet = new Set(target.tree);
+
+  const readFile = async (path: string) => {
+    const cached = fetched.get(path);
+    if (cached) return cached;
+    const file = await git.getFileContent(owner, repo, path, ref);
+    return { content: file.content, sha: file.sha };
+  };
+
+  // Path aliases (e.g. @/ → src/) so alias imports resolve
+  const tsconfigs = [];
+  for (const path of TSCONFIG_FILES) {
+    if (!treeSet.has(path)) continue;
+    try {
+      tsconfigs.push({ path, ...(await readFile(path)) });
+    } catch {
+      // Unreadable tsconfig — relative imports still resolve
+    }
+  }
+  const { aliases } = readTsconfigs(tsconfigs);
+
+  const candidates = target.paths ?? target.tree;
+  const toIndex = candidates.filter(p => treeSet.has(p) && isIndexableFile(p) && !isSecretFile(p)).slice(0, MAX_INDEX_FILES);
+
+  let indexed = 0;
+  for (let i = 0; i < toIndex.length; i += 10) {
+    const batch = toIndex.slice(i, i + 10);
+    const rows = (await Promise.all(batch.map(async (path) => {
+      try {
+        const file = await readFile(path);
+        return {
+          user_id: userId,
+          project_id: projectId,
+          sha: file.sha,
+          ...extractFileSymbols({ path, content: file.content }, treeSet, aliases),
+          indexed_at: new Date().toISOString(),
+        };
+      } catch (err) {
+        console.warn(`[sync-codebase] Failed to index ${path}:`, err);
+        return null;
+      }
+    }))).filter(r => r !== null);
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('code_symbols').upsert(rows, { onConflict: 'project_id,path' });
+      if (error) console.warn('[sync-codebase] Symbol upsert failed:', error.message);
+      else indexed += rows.length;
+    }
+  }
+
+  // Drop rows for deleted files (and, on a full run, files past the cap)
+  const keep = new Set(target.paths ? target.tree : toIndex);
+  const { data: existing } = await supabase
+    .from('code_symbols')
+    .select('id, path')
+    .eq('project_id', projectId);
+  const staleIds = (existing ?? [])
+    .filter((row: { id: string; path: string }) =>
+      (!target.paths || target.paths.includes(row.path)) && !keep.has(row.path))
+    .map((row: { id: string }) => row.id);
+  if (staleIds.length > 0) {
+    await supabase.from('code_symbols').delete().in('id', staleIds);
+  }
+
+  return { indexed, removed: staleIds.length };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { status: 204 });
@@ -106,7 +202,7 @@ serve(async (req) => {
 
     const repoFull = project.repo_full_name as string;
     const defaultBranch = (project.default_branch as string) || 'main';
-    const [owner, repo] = repoFull.split('/');
+    const { owner, repo } = splitRepoFullName(repoFull);
     const ownerId = userId || (project.user_id as string);
 
     if (!owner || !repo) {
@@ -117,7 +213,8 @@ serve(async (req) => {
     }
 
     // Get file tree
-    const fullTree = await getRepoTree(owner, repo, defaultBranch);
+    const git = getGitProvider(project);
+    const fullTree = await git.getRepoTree(owner, repo, defaultBranch);
 
     // Filter to syncable files
     let filesToSync: string[];
@@ -134,6 +231,7 @@ serve(async (req) => {
 
     let synced = 0;
     let errors = 0;
+    const fetched = new Map<string, { content: string; sha: string }>();
 
     // Process files in batches of 5
     for (let i = 0; i < filesToSync.length; i += 5) {
@@ -141,7 +239,8 @@ serve(async (req) => {
       const results = await Promise.all(
         batch.map(async (filePath) => {
           try {
-            const file = await getFileContent(owner, repo, filePath, defaultBranch);
+            const file = await git.getFileContent(owner, repo, filePath, defaultBranch);
+            fetched.set(filePath, { content: file.content, sha: file.sha });
             const ext = filePath.split('.').pop()?.toLowerCase() || '';
             const dirName = filePath.includes('/') ? filePath.split('/').slice(-2, -1)[0] : '';
             const tags = [repo, ext, dirName].filter(Boolean);
@@ -219,10 +318,33 @@ serve(async (req) => {
       }
     }
 
+    // Refresh the symbol index — a failure here doesn't fail the sync
+    let symbolStats = { indexed: 0, removed: 0 };
+    try {
+      symbolStats = await indexSymbols(supabase, {
+        git,
+        owner,
+        repo,
+        ref: defaultBranch,
+        projectId,
+        userId: project.user_id as string,
+        tree: fullTree,
+        paths: pathsFilter,
+        fetched,
+      });
+    } catch (indexErr) {
+      console.warn('[sync-codebase] Symbol indexing failed:', indexErr);
+    }
+
     // Update last_synced_at on project
+    const syncedAt = new Date().toISOString();
     await supabase
       .from('code_projects')
-      .update({ last_synced_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .update({
+        last_synced_at: syncedAt,
+        ...(symbolStats.indexed > 0 ? { symbols_indexed_at: syncedAt } : {}),
+        updated_at: syncedAt,
+      })
       .eq('id', projectId);
 
     return new Response(JSON.stringify({
@@ -230,6 +352,8 @@ serve(async (req) => {
       synced,
       errors,
       totalFiles: filesToSync.length,
+      symbolsIndexed: symbolStats.indexed,
+      symbolsRemoved: symbolStats.removed,
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
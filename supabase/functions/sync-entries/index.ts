@@ -0,0 +1,504 @@
+/**
+ * sync-entries — Incremental sync API for external clients (CLI, browser
+ * extension, mobile shortcuts)
+ *
+ * One stable contract instead of the raw entries schema:
+ *
+ *   { action: 'pull', cursor?, limit? } → entries (with list items and tags)
+ *       changed since the cursor, plus delete tombstones. No cursor = full
+ *       sync. Keep calling with the returned cursor while hasMore.
+ *   { action: 'push', changes: ClientChange[] } → batched client writes.
+ *       Updates and deletes carry the updatedAt the client last saw; if the
+ *       entry changed since, the write is refused and the server copy returned.
+ *
+ * Cursors are opaque, HMAC-signed and bound to the user — a client can't
+ * forge one or reuse another user's. Change tracking uses
+ * entries.sync_updated_at and entry_tombstones (20260307000001_entry_sync.sql).
+ * Tombstones are kept 90 days; an older cursor gets 410 + resync: true.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserId } from '../_shared/auth.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { successResponse, errorResponse, rateLimitResponse, serverErrorResponse } from '../_shared/response.ts';
+import {
+  sanitizeString,
+  validateContentLength,
+  validateStringArray,
+  isValidUUID,
+  parseNumber,
+  parseJsonBody,
+} from '../_shared/validation.ts';
+
+/** Bump on breaking changes to SyncEntry / SyncChange / ClientChange */
+const CONTRACT_VERSION = 1;
+const CURSOR_VERSION = 1;
+const DEFAULT_PULL_LIMIT = 200;
+const MAX_PULL_LIMIT = 500;
+const MAX_PUSH_CHANGES = 100;
+const MAX_CONTENT_LENGTH = 100000;
+const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+/**
+ * Only hand out changes at least this old. sync_updated_at is stamped when the
+ * row is written, not when its transaction commits — a short settle window
+ * keeps a slow commit from landing behind a cursor that already moved past it.
+ */
+const SETTLE_MS = 2000;
+const ZERO_UUID = '00000000-0000-0000-0000-000000000000';
+
+const ENTRY_COLUMNS =
+  'id, title, content, content_type, content_subtype, tags, list_items, starred, archived, importance_score, ' +
+  'image_url, event_date, event_time, is_recurring, recurrence_pattern, rrule, exdates, reminder_minutes, source, created_at, sync_updated_at';
+
+const CONTENT_TYPES = ['code', 'list', 'idea', 'link', 'contact', 'event', 'reminder', 'note', 'image', 'document'];
+
+// --- Contract ---
+
+interface SyncListItem {
+  text: string;
+  checked: boolean;
+}
+
+interface SyncEntry {
+  id: string;
+  title: string | null;
+  content: string;
+  contentType: string;
+  contentSubtype: string | null;
+  tags: string[];
+  listItems: SyncListItem[];
+  starred: boolean;
+  archived: boolean;
+  importanceScore: number | null;
+  imageUrl: string | null;
+  eventDate: string | null;
+  eventTime: string | null;
+  isRecurring: boolean;
+  recurrencePattern: string | null;
+  /** RFC 5545 RRULE value; read-only over sync */
+  rrule: string | null;
+  exdates: string[];
+  reminderMinutes: number | null;
+  source: string | null;
+  createdAt: string;
+  /** Version token — send back as baseUpdatedAt when writing */
+  updatedAt: string;
+}
+
+type SyncChange =
+  | { op: 'upsert'; entry: SyncEntry }
+  | { op: 'delete'; id: string; reason: 'deleted' | 'archived'; at: string };
+
+/** Fields a client may write */
+interface SyncEntryInput {
+  title?: string | null;
+  content?: string;
+  contentType?: string;
+  tags?: string[];
+  listItems?: SyncListItem[];
+  starred?: boolean;
+  archived?: boolean;
+  eventDate?: string | null;
+  eventTime?: string | null;
+  reminderMinutes?: number | null;
+}
+
+type ClientChange =
+  | { op: 'create'; id: string; entry: SyncEntryInput }
+  | { op: 'update'; id: string; baseUpdatedAt: string; patch: SyncEntryInput }
+  | { op: 'delete'; id: string; baseUpdatedAt: string };
+
+type PushStatus = 'applied' | 'conflict' | 'not_found' | 'rejected';
+
+interface PushResult {
+  id: string;
+  op: string;
+  status: PushStatus;
+  /** Server copy after the write, or the newer copy that caused a conflict */
+  entry?: SyncEntry;
+  error?: string;
+}
+
+interface SyncRequest {
+  action?: 'pull' | 'push';
+  cursor?: string;
+  limit?: number;
+  changes?: ClientChange[];
+}
+
+type Row = Record<string, unknown>;
+
+function toSyncEntry(row: Row): SyncEntry {
+  const listItems = Array.isArray(row.list_items) ? row.list_items as Row[] : [];
+  return {
+    id: row.id as string,
+    title: (row.title as string | null) ?? null,
+    content: (row.content as string) ?? '',
+    contentType: row.content_type as string,
+    contentSubtype: (row.content_subtype as string | null) ?? null,
+    tags: (row.tags as string[] | null) ?? [],
+    listItems: listItems.map((item) => ({ text: String(item.text ?? ''), checked: item.checked === true })),
+    starred: row.starred === true,
+    archived: row.archived === true,
+    importanceScore: (row.importance_score as number | null) ?? null,
+    imageUrl: (row.image_url as string | null) ?? null,
+    eventDate: (row.event_date as string | null) ?? null,
+    eventTime: (row.event_time as string | null) ?? null,
+    isRecurring: row.is_recurring === true,
+    recurrencePattern: (row.recurrence_pattern as string | null) ?? null,
+    rrule: (row.rrule as string | null) ?? null,
+    exdates: (row.exdates as string[] | null) ?? [],
+    reminderMinutes: (row.reminder_minutes as number | null) ?? null,
+    source: (row.source as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.sync_updated_at as string,
+  };
+}
+
+// --- Signed cursors ---
+
+/** [timestamp, id] — keyset position in one change stream */
+type StreamPosition = [string, string];
+
+interface CursorState {
+  v: number;
+  /** Entries stream position; null = from the beginning */
+  e: StreamPosition | null;
+  /** Tombstone stream position */
+  t: StreamPosition;
+  /** Still in the initial full sync — archived entries are left out */
+  full: boolean;
+}
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64url(text: string): Uint8Array {
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+async function cursorKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get('SYNC_CURSOR_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+async function encodeCursor(userId: string, state: CursorState): Promise<string> {
+  const payload = base64url(new TextEncoder().encode(JSON.stringify(state)));
+  const sig = await crypto.subtle.sign('HMAC', await cursorKey(), new TextEncoder().encode(`${userId}.${payload}`));
+  return `${payload}.${base64url(new Uint8Array(sig))}`;
+}
+
+async function decodeCursor(userId: string, cursor: string): Promise<CursorState | null> {
+  const [payload, sig] = cursor.split('.');
+  if (!payload || !sig) return null;
+  try {
+    // verify() compares in constant time
+    const valid = await crypto.subtle.verify(
+      'HMAC', await cursorKey(), fromBase64url(sig), new TextEncoder().encode(`${userId}.${payload}`)
+    );
+    if (!valid) return null;
+    const state = JSON.parse(new TextDecoder().decode(fromBase64url(payload))) as CursorState;
+    return state.v === CURSOR_VERSION ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Pull ---
+
+/** PostgREST keyset filter: (ts, id) > position */
+function afterPosition(tsColumn: string, idColumn: string, [ts, id]: StreamPosition): string {
+  return `${tsColumn}.gt."${ts}",and(${tsColumn}.eq."${ts}",${idColumn}.gt.${id})`;
+}
+
+async function pull(
+  supabase: SupabaseClient,
+  userId: string,
+  cursor: CursorState | null,
+  limit: number
+): Promise<{ changes: SyncChange[]; state: CursorState; hasMore: boolean }> {
+  const horizon = new Date(Date.now() - SETTLE_MS).toISOString();
+  // A full sync starts the tombstone stream now — nothing earlier concerns this client
+  const state: CursorState = cursor ?? { v: CURSOR_VERSION, e: null, t: [horizon, ZERO_UUID], full: true };
+
+  let entriesQuery = supabase
+    .from('entries')
+    .select(ENTRY_COLUMNS)
+    .eq('user_id', userId)
+    .lte('sync_updated_at', horizon)
+    .order('sync_updated_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit);
+  if (state.e) entriesQuery = entriesQuery.or(afterPosition('sync_updated_at', 'id', state.e));
+  if (state.full) entriesQuery = entriesQuery.eq('archived', false);
+
+  const [{ data: entryRows, error: entriesError }, { data: tombstoneRows, error: tombstonesError }] = await Promise.all([
+    entriesQuery,
+    supabase
+      .from('entry_tombstones')
+      .select('entry_id, deleted_at')
+      .eq('user_id', userId)
+      .lte('deleted_at', horizon)
+      .or(afterPosition('deleted_at', 'entry_id', state.t))
+      .order('deleted_at', { ascending: true })
+      .order('entry_id', { ascending: true })
+      .limit(limit),
+  ]);
+  if (entriesError) throw entriesError;
+  if (tombstonesError) throw tombstonesError;
+
+  const entries = (entryRows ?? []) as Row[];
+  const tombstones = (tombstoneRows ?? []) as Row[];
+
+  const changes: SyncChange[] = entries.map((row) =>
+    row.archived === true
+      ? { op: 'delete', id: row.id as string, reason: 'archived', at: row.sync_updated_at as string }
+      : { op: 'upsert', entry: toSyncEntry(row) }
+  );
+  for (const t of tombstones) {
+    changes.push({ op: 'delete', id: t.entry_id as string, reason: 'deleted', at: t.deleted_at as string });
+  }
+
+  const lastEntry = entries[entries.length - 1];
+  const lastTombstone = tombstones[tombstones.length - 1];
+  const entriesDone = entries.length < limit;
+  const tombstonesDone = tombstones.length < limit;
+
+  return {
+    changes,
+    state: {
+      v: CURSOR_VERSION,
+      e: lastEntry ? [lastEntry.sync_updated_at as string, lastEntry.id as string] : state.e,
+      // Caught up → move to the horizon, so a client that syncs often never
+      // holds a cursor older than tombstone retention just because nothing was deleted
+      t: tombstonesDone
+        ? [horizon, ZERO_UUID]
+        : [lastTombstone.deleted_at as string, lastTombstone.entry_id as string],
+      full: state.full && !entriesDone,
+    },
+    hasMore: !entriesDone || !tombstonesDone,
+  };
+}
+
+// --- Push ---
+
+/** Validate client fields and map them to entry columns */
+function toEntryColumns(input: SyncEntryInput, requireContent: boolean): { columns?: Row; error?: string } {
+  const columns: Row = {};
+
+  if (input.content !== undefined || requireContent) {
+    const content = sanitizeString(input.content);
+    const check = validateContentLength(content, MAX_CONTENT_LENGTH);
+    if (!check.valid) return { error: check.error };
+    columns.content = content;
+  }
+  if (input.title !== undefined) {
+    columns.title = input.title === null ? null : sanitizeString(input.title).slice(0, 200) || null;
+  }
+  if (input.contentType !== undefined) {
+    if (!CONTENT_TYPES.includes(input.contentType)) return { error: `Unknown contentType "${input.contentType}"` };
+    columns.content_type = input.contentType;
+  }
+  if (input.tags !== undefined) {
+    const check = validateStringArray(input.tags, { maxItems: 50, maxLength: 100 });
+    if (!check.valid) return { error: `tags: ${check.error}` };
+    columns.tags = check.sanitized;
+  }
+  if (input.listItems !== undefined) {
+    if (!Array.isArray(input.listItems) || input.listItems.length > 500) return { error: 'listItems must be an array (max 500)' };
+    columns.list_items = input.listItems.map((item) => ({
+      text: sanitizeString(item?.text).slice(0, 1000),
+      checked: item?.checked === true,
+    }));
+  }
+  if (input.starred !== undefined) columns.starred = input.starred === true;
+  if (input.archived !== undefined) columns.archived = input.archived === true;
+  if (input.eventDate !== undefined) {
+    if (input.eventDate !== null && !/^\d{4}-\d{2}-\d{2}$/.test(input.eventDate)) return { error: 'eventDate must be YYYY-MM-DD' };
+    columns.event_date = input.eventDate;
+  }
+  if (input.eventTime !== undefined) {
+    if (input.eventTime !== null && !/^\d{2}:\d{2}(:\d{2})?$/.test(input.eventTime)) return { error: 'eventTime must be HH:MM' };
+    columns.event_time = input.eventTime;
+  }
+  if (input.reminderMinutes !== undefined) {
+    columns.reminder_minutes = input.reminderMinutes === null ? null : parseNumber(input.reminderMinutes, { min: 0, max: 40320 });
+  }
+
+  return { columns };
+}
+
+async function fetchEntry(supabase: SupabaseClient, id: string): Promise<Row | null> {
+  const { data } = await supabase.from('entries').select(`${ENTRY_COLUMNS}, user_id`).eq('id', id).maybeSingle();
+  return (data as Row | null) ?? null;
+}
+
+/** Why a conditional write matched nothing: gone, someone else's, or newer */
+async function explainMiss(supabase: SupabaseClient, userId: string, change: ClientChange): Promise<PushResult> {
+  const current = await fetchEntry(supabase, change.id);
+  if (!current || current.user_id !== userId) {
+    return { id: change.id, op: change.op, status: 'not_found' };
+  }
+  return { id: change.id, op: change.op, status: 'conflict', entry: toSyncEntry(current) };
+}
+
+async function applyChange(supabase: SupabaseClient, userId: string, change: ClientChange): Promise<PushResult> {
+  const op = change?.op;
+  const id = change?.id;
+  if (!isValidUUID(id)) {
+    return { id: String(id ?? ''), op: String(op ?? ''), status: 'rejected', error: 'id must be a UUID' };
+  }
+
+  if (op === 'create') {
+    // Client-chosen ids make retries idempotent
+    const existing = await fetchEntry(supabase, id);
+    if (existing) {
+      return existing.user_id === userId
+        ? { id, op, status: 'applied', entry: toSyncEntry(existing) }
+        : { id, op, status: 'rejected', error: 'id already in use' };
+    }
+
+    const { columns, error } = toEntryColumns(change.entry ?? {}, true);
+    if (!columns) return { id, op, status: 'rejected', error };
+
+    const { data, error: insertError } = await supabase
+      .from('entries')
+      .insert({ content_type: 'note', ...columns, id, user_id: userId, source: 'api', embedding: null })
+      .select(ENTRY_COLUMNS)
+      .single();
+    if (insertError || !data) {
+      console.error('[sync-entries] Create failed:', insertError);
+      return { id, op, status: 'rejected', error: 'Failed to create entry' };
+    }
+    return { id, op, status: 'applied', entry: toSyncEntry(data as Row) };
+  }
+
+  if (op !== 'update' && op !== 'delete') {
+    return { id, op: String(op ?? ''), status: 'rejected', error: 'op must be create, update or delete' };
+  }
+  if (typeof change.baseUpdatedAt !== 'string' || Number.isNaN(Date.parse(change.baseUpdatedAt))) {
+    return { id, op, status: 'rejected', error: 'baseUpdatedAt is required' };
+  }
+
+  if (op === 'delete') {
+    // Compare-and-delete: only if nothing changed since the client's copy
+    const { data, error } = await supabase
+      .from('entries')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('sync_updated_at', change.baseUpdatedAt)
+      .select('id');
+    if (error) return { id, op, status: 'rejected', error: 'Failed to delete entry' };
+    return data && data.length > 0 ? { id, op, status: 'applied' } : explainMiss(supabase, userId, change);
+  }
+
+  const { columns, error } = toEntryColumns(change.patch ?? {}, false);
+  if (!columns) return { id, op, status: 'rejected', error };
+  if (Object.keys(columns).length === 0) return { id, op, status: 'rejected', error: 'patch is empty' };
+  // Text changed — the stored vector is stale; backfill-embeddings picks it up
+  if (columns.content !== undefined || columns.title !== undefined) columns.embedding = null;
+  // Attributes the entry revision this write may create
+  columns.revision_source = 'api';
+
+  // Compare-and-set on the version the client last saw
+  const { data, error: updateError } = await supabase
+    .from('entries')
+    .update(columns)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .eq('sync_updated_at', change.baseUpdatedAt)
+    .select(ENTRY_COLUMNS);
+  if (updateError) {
+    console.error('[sync-entries] Update failed:', updateError);
+    return { id, op, status: 'rejected', error: 'Failed to update entry' };
+  }
+  return data && data.length > 0
+    ? { id, op, status: 'applied', entry: toSyncEntry(data[0] as Row) }
+    : explainMiss(supabase, userId, change);
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { userId, error: authError } = await extractUserId(req);
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    const rateLimit = await checkRateLimit('sync-entries', userId);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(req, rateLimit.exceeded);
+    }
+
+    const { data: body, error: parseError } = await parseJsonBody<SyncRequest>(req);
+    if (parseError || !body) {
+      return errorResponse(req, parseError ?? 'Invalid request', 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    if (body.action === 'push') {
+      const changes = Array.isArray(body.changes) ? body.changes : [];
+      if (changes.length === 0) {
+        return errorResponse(req, 'changes is required', 400);
+      }
+      if (changes.length > MAX_PUSH_CHANGES) {
+        return errorResponse(req, `Too many changes (max ${MAX_PUSH_CHANGES} per request)`, 400);
+      }
+
+      // In order — a create followed by an update of the same entry must see the create
+      const results: PushResult[] = [];
+      for (const change of changes) {
+        results.push(await applyChange(supabase, userId, change));
+      }
+
+      const needsEmbedding = results.some((r) => r.status === 'applied' && r.op !== 'delete');
+      if (needsEmbedding) {
+        fetch(`${supabaseUrl}/functions/v1/backfill-embeddings`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${serviceKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ userId }),
+        }).catch((err) => console.warn('[sync-entries] backfill-embeddings fire-and-forget failed:', err));
+      }
+
+      return successResponse(req, { contract: CONTRACT_VERSION, results }, 200, rateLimit);
+    }
+
+    if (body.action !== undefined && body.action !== 'pull') {
+      return errorResponse(req, 'action must be pull or push', 400);
+    }
+
+    let cursor: CursorState | null = null;
+    if (body.cursor) {
+      cursor = await decodeCursor(userId, String(body.cursor));
+      if (!cursor) {
+        return errorResponse(req, 'Invalid cursor', 400, { resync: true });
+      }
+      if (Date.now() - Date.parse(cursor.t[0]) > TOMBSTONE_RETENTION_MS) {
+        return errorResponse(req, 'Cursor expired — run a full sync', 410, { resync: true });
+      }
+    }
+
+    const limit = parseNumber(body.limit, { min: 1, max: MAX_PULL_LIMIT, default: DEFAULT_PULL_LIMIT })!;
+    const { changes, state, hasMore } = await pull(supabase, userId, cursor, limit);
+
+    return successResponse(req, {
+      contract: CONTRACT_VERSION,
+      changes,
+      cursor: await encodeCursor(userId, state),
+      hasMore,
+    }, 200, rateLimit);
+  } catch (error) {
+    console.error('Error in sync-entries function:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
@@ -12,6 +12,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
 import { handleCors, getCorsHeaders } from '../_shared/cors.ts';
 import { extractUserId } from '../_shared/auth.ts';
+import { loadLatestFindings } from '../_shared/watchSnapshots.ts';
 
 serve(async (req) => {
   const corsResponse = handleCors(req);
@@ -59,26 +60,8 @@ serve(async (req) => {
     const watchInput = (watch.input as Record<string, unknown>) || {};
 
     if (action === 'run_now') {
-      // Fetch last 3 completed children for previousRunContext
-      const { data: recentChildren } = await supabase
-        .from('agent_tasks')
-        .select('id, status, output, completed_at')
-        .eq('parent_task_id', watchId)
-        .eq('status', 'completed')
-        .order('completed_at', { ascending: false })
-        .limit(3);
-
-      let previousRunContext = '';
-      if (recentChildren && recentChildren.length > 0) {
-        previousRunContext = recentChildren
-          .map((child, i) => {
-            const output = child.output as Record<string, unknown> | null;
-            const brief = (output?.brief as string) || 'No output';
-            return `--- Run ${recentChildren.length - i} (${child.completed_at}) ---\n${brief.slice(0, 500)}`;
-          })
-          .reverse()
-          .join('\n\n');
-      }
+      // Findings of the last run, for the worker to compare against
+      const previousFindings = await loadLatestFindings(supabase, watchId);
 
       // Count total runs for runNumber
       const { count: totalRuns } = await supabase
@@ -102,7 +85,7 @@ serve(async (req) => {
             ...watchInput,
             watchId,
             runNumber,
-            previousRunContext: previousRunContext.slice(0, 3000),
+            previousFindings,
           },
           parent_task_id: watchId,
         })
@@ -127,7 +110,7 @@ serve(async (req) => {
           parentTaskId: watchId,
           userId,
           query: watchInput.query,
-          previousRunContext: previousRunContext.slice(0, 3000),
+          previousFindings,
           runNumber,
           watchId,
           modelTier: watchInput.modelTier || 'haiku',
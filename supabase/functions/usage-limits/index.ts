@@ -0,0 +1,48 @@
+/**
+ * usage-limits — Current usage against every limit, for the Settings page
+ *
+ * Returns the user's daily quotas (tasks, tokens, cost, concurrent tasks)
+ * and the request window of each rate-limited function. Read-only: calling
+ * it doesn't count against any limit.
+ *
+ * Called by the frontend (user JWT).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.84.0';
+import { handleCors } from '../_shared/cors.ts';
+import { extractUserId } from '../_shared/auth.ts';
+import { successResponse, errorResponse, serverErrorResponse } from '../_shared/response.ts';
+import { DAILY_QUOTAS, getDailyUsage, getRateLimitUsage } from '../_shared/rateLimit.ts';
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const { userId, error: authError } = await extractUserId(req);
+    if (authError || !userId) {
+      return errorResponse(req, authError ?? 'Unauthorized', 401);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const [usage, rateLimits] = await Promise.all([
+      getDailyUsage(supabase, userId),
+      getRateLimitUsage(supabase, userId),
+    ]);
+
+    return successResponse(req, {
+      quotas: [
+        { name: 'concurrent_tasks', used: usage.concurrentTasks, max: DAILY_QUOTAS.concurrentTasks, resetsAt: null },
+        { name: 'daily_tasks', used: usage.tasks, max: DAILY_QUOTAS.tasks, resetsAt: usage.resetsAt },
+        { name: 'daily_tokens', used: usage.tokens, max: DAILY_QUOTAS.tokens, resetsAt: usage.resetsAt },
+        { name: 'daily_cost_usd', used: usage.costUsd, max: DAILY_QUOTAS.costUsd, resetsAt: usage.resetsAt },
+      ],
+      rateLimits,
+    });
+  } catch (error) {
+    console.error('[usage-limits] Error:', error);
+    return serverErrorResponse(req, error instanceof Error ? error : new Error('Unknown error'));
+  }
+});
@@ -0,0 +1,41 @@
+-- Smart Collections: saved searches that stay live
+-- A collection is a named search-memory query; its contents are whatever the
+-- query matches right now. Optional Slack ping when a new entry starts matching.
+
+CREATE TABLE smart_collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  query TEXT NOT NULL CHECK (char_length(query) BETWEEN 1 AND 500),
+  notify_slack BOOLEAN NOT NULL DEFAULT false,
+  last_matched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- RLS
+ALTER TABLE smart_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own smart collections"
+  ON smart_collections FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users insert own smart collections"
+  ON smart_collections FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users update own smart collections"
+  ON smart_collections FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users delete own smart collections"
+  ON smart_collections FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to smart_collections"
+  ON smart_collections FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Indices
+CREATE INDEX idx_smart_collections_user_id ON smart_collections(user_id, created_at);
+CREATE INDEX idx_smart_collections_notify ON smart_collections(user_id) WHERE notify_slack;
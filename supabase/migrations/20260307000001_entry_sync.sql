@@ -0,0 +1,87 @@
+-- Entry sync: change tracking for the sync-entries API
+-- sync_updated_at moves only when a field sync clients see changes — not on
+-- access bumps, embedding backfills or other bookkeeping — so it works as both
+-- the incremental cursor and the conflict check for client writes.
+-- Deleted entries leave a tombstone so clients can drop them.
+
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS sync_updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.touch_entry_sync_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- clock_timestamp, not now(): rows in one transaction still get distinct cursors
+  IF TG_OP = 'INSERT' THEN
+    NEW.sync_updated_at = clock_timestamp();
+  ELSIF (NEW.title, NEW.content, NEW.content_type, NEW.content_subtype, NEW.tags, NEW.list_items,
+         NEW.starred, NEW.archived, NEW.importance_score, NEW.image_url, NEW.event_date, NEW.event_time,
+         NEW.is_recurring, NEW.recurrence_pattern, NEW.reminder_minutes)
+        IS DISTINCT FROM
+        (OLD.title, OLD.content, OLD.content_type, OLD.content_subtype, OLD.tags, OLD.list_items,
+         OLD.starred, OLD.archived, OLD.importance_score, OLD.image_url, OLD.event_date, OLD.event_time,
+         OLD.is_recurring, OLD.recurrence_pattern, OLD.reminder_minutes) THEN
+    NEW.sync_updated_at = clock_timestamp();
+  ELSE
+    NEW.sync_updated_at = OLD.sync_updated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_entries_sync_updated_at ON public.entries;
+CREATE TRIGGER touch_entries_sync_updated_at
+  BEFORE INSERT OR UPDATE ON public.entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_entry_sync_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_entries_user_sync ON public.entries(user_id, sync_updated_at, id);
+
+-- Tombstones. No FK to auth.users: deleting a user cascades to entries,
+-- and the tombstone trigger fires mid-cascade. The purge job clears them.
+CREATE TABLE entry_tombstones (
+  entry_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+ALTER TABLE entry_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own entry tombstones"
+  ON entry_tombstones FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to entry_tombstones"
+  ON entry_tombstones FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE INDEX idx_entry_tombstones_user_sync ON entry_tombstones(user_id, deleted_at, entry_id);
+
+CREATE OR REPLACE FUNCTION public.record_entry_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO entry_tombstones (entry_id, user_id)
+  VALUES (OLD.id, OLD.user_id)
+  ON CONFLICT (entry_id) DO UPDATE SET deleted_at = clock_timestamp();
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_entries_tombstone ON public.entries;
+CREATE TRIGGER record_entries_tombstone
+  AFTER DELETE ON public.entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_entry_tombstone();
+
+-- Cron job: drop tombstones after 90 days — older cursors get a full resync
+SELECT cron.schedule(
+  'entry-tombstone-purge',
+  '30 4 * * *',
+  $$
+  DELETE FROM entry_tombstones WHERE deleted_at < now() - interval '90 days';
+  $$
+);
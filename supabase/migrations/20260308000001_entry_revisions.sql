@@ -0,0 +1,88 @@
+-- Entry revisions: keep the previous text whenever an entry is rewritten
+-- Every change to title/content/tags/list item text stores the entry as it was
+-- before the change, plus who made it. Writers label themselves by setting
+-- entries.revision_source on the UPDATE (smart-save appends, sync API, restores);
+-- unlabelled writes count as 'user' from an authenticated session, else 'system'.
+-- Checking/unchecking list items alone is not a revision.
+
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS revision_source TEXT;
+
+CREATE TABLE entry_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  tags TEXT[],
+  list_items JSONB,
+  -- Who made the change that replaced this snapshot
+  source TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+ALTER TABLE entry_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own entry revisions"
+  ON entry_revisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to entry_revisions"
+  ON entry_revisions FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE INDEX idx_entry_revisions_entry ON entry_revisions(entry_id, created_at DESC);
+
+-- Item texts of a list_items array, ignoring checked state
+CREATE OR REPLACE FUNCTION public.list_item_texts(items JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN jsonb_typeof(items) = 'array'
+    THEN ARRAY(SELECT item->>'text' FROM jsonb_array_elements(items) AS item)
+    ELSE '{}'::TEXT[]
+  END;
+$$;
+
+-- Snapshots the old row on a tracked change; keeps the latest 50 per entry
+CREATE OR REPLACE FUNCTION public.record_entry_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  change_source TEXT;
+BEGIN
+  change_source := COALESCE(
+    NEW.revision_source,
+    CASE WHEN auth.role() = 'authenticated' THEN 'user' ELSE 'system' END
+  );
+  -- The label applies to this write only
+  NEW.revision_source := NULL;
+
+  IF (OLD.title, OLD.content, OLD.tags, list_item_texts(OLD.list_items))
+     IS DISTINCT FROM
+     (NEW.title, NEW.content, NEW.tags, list_item_texts(NEW.list_items)) THEN
+    INSERT INTO entry_revisions (entry_id, user_id, title, content, tags, list_items, source)
+    VALUES (OLD.id, OLD.user_id, OLD.title, OLD.content, OLD.tags, OLD.list_items, change_source);
+
+    DELETE FROM entry_revisions
+    WHERE entry_id = OLD.id
+      AND id NOT IN (
+        SELECT id FROM entry_revisions
+        WHERE entry_id = OLD.id
+        ORDER BY created_at DESC
+        LIMIT 50
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_entries_revision ON public.entries;
+CREATE TRIGGER record_entries_revision
+  BEFORE UPDATE ON public.entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_entry_revision();
@@ -0,0 +1,295 @@
+-- Embedding models: record which model produced each vector, and switch
+-- models without downtime.
+--
+-- Model ids look like "voyage/voyage-3-lite@512" (provider/model@dimensions).
+-- A switch runs as an embedding migration driven by backfill-embeddings:
+--   running   → new-model vectors fill entry_embeddings_next while search
+--               queries old and new vectors side by side
+--   ready     → every entry has a new vector; waiting for cutover
+--   completed → cutover_embedding_migration() moved the new vectors into
+--               entries.embedding and made the new model active
+-- jac_reflections / brain_entities / jac_principles vectors are not searched;
+-- cutover clears them (retyping the column if the size changed) so vectors
+-- from two models never sit in one column. Their writers refill them.
+
+SET search_path = public, extensions;
+
+-- Model behind each stored vector — existing vectors all came from voyage-3-lite
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+UPDATE entries SET embedding_model = 'voyage/voyage-3-lite@512'
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- Active model (single row)
+CREATE TABLE embedding_config (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  active_model TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO embedding_config (active_model) VALUES ('voyage/voyage-3-lite@512');
+
+ALTER TABLE embedding_config ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to embedding_config"
+  ON embedding_config FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TABLE embedding_migrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_model TEXT NOT NULL,
+  to_model TEXT NOT NULL,
+  to_dim INT NOT NULL CHECK (to_dim BETWEEN 1 AND 2000),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'ready', 'completed', 'cancelled')),
+  auto_cutover BOOLEAN NOT NULL DEFAULT false,
+  total INT NOT NULL DEFAULT 0,
+  processed INT NOT NULL DEFAULT 0,
+  last_error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ready_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+-- One migration in flight at a time
+CREATE UNIQUE INDEX idx_embedding_migrations_in_flight
+  ON embedding_migrations ((true)) WHERE status IN ('running', 'ready');
+
+ALTER TABLE embedding_migrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to embedding_migrations"
+  ON embedding_migrations FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- New-model vectors while a migration runs. Untyped vector: the target size
+-- isn't known until the migration starts. Searched per user, so no ANN index.
+CREATE TABLE entry_embeddings_next (
+  entry_id UUID PRIMARY KEY REFERENCES entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  model TEXT NOT NULL,
+  embedding extensions.vector NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_entry_embeddings_next_user ON entry_embeddings_next(user_id, model);
+
+ALTER TABLE entry_embeddings_next ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to entry_embeddings_next"
+  ON entry_embeddings_next FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Content changes also invalidate a pending new-model vector
+CREATE OR REPLACE FUNCTION nullify_embedding_on_content_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.content IS DISTINCT FROM NEW.content
+     OR OLD.title IS DISTINCT FROM NEW.title
+     OR OLD.tags IS DISTINCT FROM NEW.tags THEN
+    NEW.embedding := NULL;
+    DELETE FROM entry_relationships WHERE entry_id = OLD.id;
+    DELETE FROM entry_embeddings_next WHERE entry_id = OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Entries the migration still has to embed
+CREATE OR REPLACE FUNCTION public.entries_missing_next_embedding(p_model TEXT, p_limit INT DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  title text,
+  content_type text,
+  tags text[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.user_id, e.content, e.title, e.content_type, e.tags
+  FROM entries e
+  WHERE NOT EXISTS (
+    SELECT 1 FROM entry_embeddings_next n WHERE n.entry_id = e.id AND n.model = p_model
+  )
+  ORDER BY e.created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Same shape as search_entries_by_embedding, over the new-model vectors
+CREATE OR REPLACE FUNCTION public.search_entries_by_next_embedding(
+  query_embedding extensions.vector,
+  next_model text,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 10,
+  filter_user_id uuid DEFAULT NULL,
+  decay_weight boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  title text,
+  content_type text,
+  content_subtype text,
+  tags text[],
+  importance_score integer,
+  created_at timestamptz,
+  event_date date,
+  event_time time,
+  image_url text,
+  similarity float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.content,
+    e.title,
+    e.content_type,
+    e.content_subtype,
+    e.tags,
+    e.importance_score,
+    e.created_at,
+    e.event_date,
+    e.event_time,
+    e.image_url,
+    CASE
+      WHEN decay_weight THEN
+        (1 - (n.embedding <=> query_embedding)) *
+        (0.5 + 0.5 / (1.0 + EXTRACT(EPOCH FROM (now() - COALESCE(e.last_accessed_at, e.created_at))) / (30.0 * 86400.0)))
+      ELSE
+        1 - (n.embedding <=> query_embedding)
+    END AS similarity
+  FROM public.entry_embeddings_next n
+  JOIN public.entries e ON e.id = n.entry_id
+  WHERE n.user_id = filter_user_id
+    AND n.model = next_model
+    AND e.archived = false
+    AND 1 - (n.embedding <=> query_embedding) > match_threshold
+  ORDER BY n.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Swap the new vectors in and make the new model active. One transaction:
+-- searches see either the old model or the new one, never a mix.
+-- With p_force, entries still missing a new vector are cleared for backfill.
+-- search_entries_by_embedding needs no change on a resize: Postgres ignores
+-- the declared size of a function argument.
+CREATE OR REPLACE FUNCTION public.cutover_embedding_migration(p_migration_id UUID, p_force BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  mig embedding_migrations%ROWTYPE;
+  current_dim INT;
+  missing INT;
+  copied INT;
+  cleared INT;
+  resized BOOLEAN;
+  aux RECORD;
+BEGIN
+  SELECT * INTO mig FROM embedding_migrations WHERE id = p_migration_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Embedding migration % not found', p_migration_id;
+  END IF;
+  IF mig.status NOT IN ('running', 'ready') THEN
+    RAISE EXCEPTION 'Embedding migration is already %', mig.status;
+  END IF;
+
+  SELECT count(*) INTO missing
+  FROM entries e
+  WHERE NOT EXISTS (
+    SELECT 1 FROM entry_embeddings_next n WHERE n.entry_id = e.id AND n.model = mig.to_model
+  );
+  IF missing > 0 AND NOT p_force THEN
+    RAISE EXCEPTION '% entries still need a % vector', missing, mig.to_model;
+  END IF;
+
+  SELECT atttypmod INTO current_dim
+  FROM pg_attribute
+  WHERE attrelid = 'public.entries'::regclass AND attname = 'embedding';
+  resized := current_dim IS DISTINCT FROM mig.to_dim;
+
+  IF resized THEN
+    DROP INDEX IF EXISTS entries_embedding_idx;
+    EXECUTE format('ALTER TABLE public.entries ALTER COLUMN embedding TYPE extensions.vector(%s) USING NULL', mig.to_dim);
+  END IF;
+
+  UPDATE entries e
+  SET embedding = n.embedding, embedding_model = n.model
+  FROM entry_embeddings_next n
+  WHERE n.entry_id = e.id AND n.model = mig.to_model;
+  GET DIAGNOSTICS copied = ROW_COUNT;
+
+  UPDATE entries
+  SET embedding = NULL, embedding_model = NULL
+  WHERE embedding IS NOT NULL AND embedding_model IS DISTINCT FROM mig.to_model;
+  GET DIAGNOSTICS cleared = ROW_COUNT;
+
+  IF resized THEN
+    CREATE INDEX entries_embedding_idx ON public.entries
+      USING hnsw (embedding extensions.vector_cosine_ops)
+      WITH (m = 16, ef_construction = 64);
+  END IF;
+
+  FOR aux IN
+    SELECT * FROM (VALUES
+      ('jac_reflections', 'idx_jac_reflections_embedding'),
+      ('brain_entities', 'idx_brain_entities_embedding'),
+      ('jac_principles', 'idx_jac_principles_embedding')
+    ) AS t(tbl, idx)
+  LOOP
+    IF resized THEN
+      EXECUTE format('DROP INDEX IF EXISTS %I', aux.idx);
+      EXECUTE format('ALTER TABLE public.%I ALTER COLUMN embedding TYPE extensions.vector(%s) USING NULL', aux.tbl, mig.to_dim);
+      EXECUTE format('CREATE INDEX %I ON public.%I USING hnsw (embedding extensions.vector_cosine_ops) WITH (m = 16, ef_construction = 64)', aux.idx, aux.tbl);
+    ELSE
+      EXECUTE format('UPDATE public.%I SET embedding = NULL WHERE embedding IS NOT NULL', aux.tbl);
+    END IF;
+  END LOOP;
+
+  UPDATE embedding_config SET active_model = mig.to_model, updated_at = now();
+  DELETE FROM entry_embeddings_next WHERE model = mig.to_model;
+  UPDATE embedding_migrations
+  SET status = 'completed', completed_at = now(), processed = copied
+  WHERE id = mig.id;
+
+  RETURN jsonb_build_object(
+    'model', mig.to_model,
+    'copied', copied,
+    'cleared', cleared,
+    'missing', missing,
+    'resized', resized
+  );
+END;
+$$;
+
+-- Internal only — called from backfill-embeddings with the service role
+REVOKE EXECUTE ON FUNCTION public.cutover_embedding_migration(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.entries_missing_next_embedding(TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_entries_by_next_embedding(extensions.vector, text, float, int, uuid, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Cron job: advance a running migration every 5 minutes (no-op otherwise)
+SELECT cron.schedule(
+  'embedding-migration-every-5min',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'supabase_url' LIMIT 1) || '/functions/v1/backfill-embeddings',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1)
+    ),
+    body := '{"action": "migrate"}'::jsonb
+  );
+  $$
+);
+
+RESET search_path;
@@ -0,0 +1,33 @@
+-- Merge approval: per-project merge policy for jac-code-agent PRs.
+--
+--   auto                        → merge as soon as the PR is open (previous behaviour)
+--   require_approval            → every PR waits for a human
+--   require_approval_for_paths  → only PRs touching approval_paths (globs) wait
+--
+-- A held PR parks its session in 'awaiting_approval' until code-approval
+-- resolves it: approve (merge), reject (close) or request changes (comment,
+-- PR stays open).
+
+ALTER TABLE public.code_projects ADD COLUMN IF NOT EXISTS merge_policy TEXT NOT NULL DEFAULT 'auto'
+  CHECK (merge_policy IN ('auto', 'require_approval', 'require_approval_for_paths'));
+ALTER TABLE public.code_projects ADD COLUMN IF NOT EXISTS approval_paths TEXT[] NOT NULL
+  DEFAULT ARRAY['supabase/migrations/**', '**/_shared/**'];
+
+-- JAC's own repos deploy themselves on merge — hold schema and shared-code changes
+UPDATE public.code_projects
+SET merge_policy = 'require_approval_for_paths'
+WHERE repo_full_name ILIKE '%remix-of-james-brain-memory%'
+   OR repo_full_name ILIKE '%jac-agent-os%';
+
+ALTER TABLE public.code_sessions DROP CONSTRAINT IF EXISTS code_sessions_status_check;
+ALTER TABLE public.code_sessions ADD CONSTRAINT code_sessions_status_check
+  CHECK (status IN ('active', 'completed', 'failed', 'awaiting_ci', 'awaiting_approval', 'changes_requested', 'rejected'));
+
+ALTER TABLE public.code_sessions ADD COLUMN IF NOT EXISTS approval_reason TEXT;
+ALTER TABLE public.code_sessions ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+ALTER TABLE public.code_sessions ADD COLUMN IF NOT EXISTS reviewed_via TEXT;
+ALTER TABLE public.code_sessions ADD COLUMN IF NOT EXISTS review_feedback TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_code_sessions_awaiting_approval
+  ON public.code_sessions(user_id, created_at DESC)
+  WHERE status = 'awaiting_approval';
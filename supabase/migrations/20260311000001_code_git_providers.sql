@@ -0,0 +1,16 @@
+-- Git hosting providers: a code project can live on GitHub, GitLab or
+-- Gitea/Forgejo (see _shared/gitProvider.ts).
+--
+--   git_provider      github | gitlab | gitea
+--   git_base_url      instance root for self-hosted GitLab/Gitea
+--                     (GitLab defaults to https://gitlab.com; GitHub ignores it)
+--   git_token_secret  edge function secret holding the API token; must carry
+--                     the provider's prefix (GITHUB_*, GITLAB_*, GITEA_*/FORGEJO_*).
+--                     Defaults: GITHUB_PAT, GITLAB_TOKEN, GITEA_TOKEN
+
+ALTER TABLE public.code_projects ADD COLUMN IF NOT EXISTS git_provider TEXT NOT NULL DEFAULT 'github'
+  CHECK (git_provider IN ('github', 'gitlab', 'gitea'));
+ALTER TABLE public.code_projects ADD COLUMN IF NOT EXISTS git_base_url TEXT
+  CHECK (git_base_url IS NULL OR git_base_url ~ '^https?://');
+ALTER TABLE public.code_projects ADD COLUMN IF NOT EXISTS git_token_secret TEXT
+  CHECK (git_token_secret IS NULL OR git_token_secret ~ '^(GITHUB|GITLAB|GITEA|FORGEJO)_[A-Z0-9_]+$');
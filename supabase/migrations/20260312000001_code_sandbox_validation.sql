@@ -0,0 +1,15 @@
+-- Sandbox validation: jac-code-agent checks its proposed files before
+-- opening a PR (code-sandbox: syntax, TypeScript type-check, lint).
+--
+-- Pre-PR results land in code_validations next to poll-ci's post-merge
+-- CI results. stage tells them apart; iteration is the write/correction
+-- round that produced the files (0 = first draft).
+
+ALTER TABLE public.code_validations DROP CONSTRAINT IF EXISTS code_validations_validation_type_check;
+ALTER TABLE public.code_validations ADD CONSTRAINT code_validations_validation_type_check
+  CHECK (validation_type IN ('build', 'test', 'lint', 'syntax', 'typecheck'));
+
+ALTER TABLE public.code_validations ADD COLUMN IF NOT EXISTS stage TEXT NOT NULL DEFAULT 'ci'
+  CHECK (stage IN ('sandbox', 'ci'));
+ALTER TABLE public.code_validations ADD COLUMN IF NOT EXISTS iteration INT;
+ALTER TABLE public.code_validations ADD COLUMN IF NOT EXISTS diagnostics JSONB;
@@ -0,0 +1,39 @@
+-- Code symbol index: what each source file in a code project declares,
+-- exports and imports. Built by sync-codebase (_shared/symbolIndex.ts),
+-- read by jac-code-agent's planner and the Code Workspace FileBrowser so a
+-- change to a symbol pulls in the files that import it.
+--
+--   symbols         [{ name, kind, line, exported, default? }]
+--   exports         exported names ('default' for a default export)
+--   imports         [{ from, path, names }] — path is the repo file, null for packages
+--   imported_paths  repo files this file imports (GIN: "who imports X?")
+
+CREATE TABLE IF NOT EXISTS public.code_symbols (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  project_id UUID NOT NULL REFERENCES public.code_projects(id) ON DELETE CASCADE,
+  path TEXT NOT NULL,
+  sha TEXT,
+  symbols JSONB NOT NULL DEFAULT '[]'::jsonb,
+  exports TEXT[] NOT NULL DEFAULT '{}',
+  imports JSONB NOT NULL DEFAULT '[]'::jsonb,
+  imported_paths TEXT[] NOT NULL DEFAULT '{}',
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (project_id, path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_code_symbols_project ON public.code_symbols(project_id);
+CREATE INDEX IF NOT EXISTS idx_code_symbols_exports ON public.code_symbols USING GIN (exports);
+CREATE INDEX IF NOT EXISTS idx_code_symbols_imported_paths ON public.code_symbols USING GIN (imported_paths);
+
+ALTER TABLE public.code_symbols ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own code symbols" ON public.code_symbols FOR SELECT USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Service role full access to code_symbols" ON public.code_symbols FOR ALL USING (auth.role() = 'service_role');
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+ALTER TABLE public.code_projects ADD COLUMN IF NOT EXISTS symbols_indexed_at TIMESTAMPTZ;
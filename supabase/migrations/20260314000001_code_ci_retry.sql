@@ -0,0 +1,13 @@
+-- CI revert-and-retry: when poll-ci reverts a merge that broke the default
+-- branch, it records the failing checks' output and starts a retry code task
+-- with that output and the reverted diff, up to a per-session limit.
+--
+--   retry_of        the session whose reverted change this one retries
+--                   (always the first session of the chain)
+--   ci_retry_count  retries started for a session (kept on the first one)
+
+ALTER TABLE public.code_sessions ADD COLUMN IF NOT EXISTS retry_of UUID
+  REFERENCES public.code_sessions(id) ON DELETE SET NULL;
+ALTER TABLE public.code_sessions ADD COLUMN IF NOT EXISTS ci_retry_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_code_sessions_retry_of ON public.code_sessions(retry_of);
@@ -0,0 +1,44 @@
+-- Task dependencies: a dispatcher child can wait on its siblings.
+--
+--   depends_on  ids of sibling tasks (same parent_task_id) that must complete
+--               before this one starts; such children are created 'pending'
+--               and started by the worker that finishes their last upstream
+--               (_shared/taskGraph.ts), with the upstream outputs as context
+
+ALTER TABLE public.agent_tasks ADD COLUMN IF NOT EXISTS depends_on UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_agent_tasks_parent ON public.agent_tasks(parent_task_id)
+  WHERE parent_task_id IS NOT NULL;
+
+-- stale-task-cleanup also skips pending children whose upstream failed or
+-- was cancelled (one level per run; workers normally cascade it themselves)
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'stale-task-cleanup';
+
+SELECT cron.schedule(
+  'stale-task-cleanup',
+  '*/30 * * * *',
+  $$
+  UPDATE public.agent_tasks
+  SET status = 'failed',
+      error = 'Task timed out (stale)',
+      updated_at = now()
+  WHERE status IN ('queued', 'running')
+    AND updated_at < now() - interval '10 minutes'
+    AND cron_expression IS NULL;
+
+  UPDATE public.agent_tasks t
+  SET status = 'failed',
+      error = 'Skipped — an upstream task failed',
+      completed_at = now(),
+      updated_at = now()
+  WHERE t.status = 'pending'
+    AND cardinality(t.depends_on) > 0
+    AND EXISTS (
+      SELECT 1 FROM public.agent_tasks u
+      WHERE u.id = ANY(t.depends_on)
+        AND u.status IN ('failed', 'cancelled')
+    );
+  $$
+);
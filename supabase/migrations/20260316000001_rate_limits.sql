@@ -0,0 +1,87 @@
+-- Persistent rate limiting and quota accounting.
+--
+-- Edge functions used to count requests in per-isolate Maps that reset on
+-- every cold start. Request limits are now sliding windows kept here, shared
+-- by every isolate:
+--
+--   rate_limit_hits     one row per allowed request; key is
+--                       "<function>:<user id or other identifier>"
+--   check_rate_limit()  atomically drops hits older than the window, counts
+--                       the rest and records this request if under the limit
+--
+-- Daily quotas (tasks, tokens, cost) are summed from agent_tasks, where
+-- recordTokenUsage stores each task's tokens and cost (get_daily_usage).
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_time ON public.rate_limit_hits(key, created_at);
+
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to rate_limit_hits"
+  ON public.rate_limit_hits FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE OR REPLACE FUNCTION public.check_rate_limit(p_key TEXT, p_max INT, p_window_ms INT)
+RETURNS TABLE (allowed BOOLEAN, used INT, reset_in_ms INT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window INTERVAL := make_interval(secs => p_window_ms / 1000.0);
+  v_used INT;
+  v_oldest TIMESTAMPTZ;
+BEGIN
+  -- One check per key at a time, so two isolates can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  DELETE FROM rate_limit_hits WHERE key = p_key AND created_at <= now() - v_window;
+  SELECT count(*), min(created_at) INTO v_used, v_oldest FROM rate_limit_hits WHERE key = p_key;
+
+  IF v_used >= p_max THEN
+    -- The window frees a slot when its oldest hit ages out
+    RETURN QUERY SELECT false, v_used,
+      GREATEST(0, ceil(extract(epoch FROM v_oldest + v_window - now()) * 1000))::INT;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_hits (key) VALUES (p_key);
+  RETURN QUERY SELECT true, v_used + 1,
+    ceil(extract(epoch FROM COALESCE(v_oldest, now()) + v_window - now()) * 1000)::INT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_daily_usage(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (task_count BIGINT, running_count BIGINT, tokens BIGINT, cost_usd NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (WHERE created_at >= p_since),
+    count(*) FILTER (WHERE status IN ('running', 'queued') AND cron_expression IS NULL),
+    COALESCE(sum(COALESCE(tokens_in, 0) + COALESCE(tokens_out, 0)) FILTER (WHERE created_at >= p_since), 0),
+    COALESCE(sum(COALESCE(agent_tasks.cost_usd, 0)) FILTER (WHERE created_at >= p_since), 0)
+  FROM agent_tasks
+  WHERE user_id = p_user_id
+    AND (created_at >= p_since OR status IN ('running', 'queued'));
+$$;
+
+-- Internal only — called from edge functions with the service role
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(TEXT, INT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_daily_usage(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Cron job: drop hits older than the longest window (1 hour), hourly
+SELECT cron.schedule(
+  'rate-limit-hits-cleanup',
+  '17 * * * *',
+  $$
+  DELETE FROM public.rate_limit_hits WHERE created_at < now() - interval '2 hours';
+  $$
+);
@@ -0,0 +1,34 @@
+-- Watch snapshots: the structured findings of every watch run
+-- Each run of a watch stores the items it found (a stable key, a label, and a
+-- value or number). The worker diffs the new findings against the previous
+-- snapshot and only notifies when the diff meets the watch's alert condition
+-- (agent_tasks.input.alertCondition). The rows double as the watch's change
+-- history in the UI.
+
+CREATE TABLE IF NOT EXISTS watch_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  watch_id UUID NOT NULL REFERENCES agent_tasks(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES agent_tasks(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL,
+  run_number INTEGER,
+  -- [{ key, label, value?, number? }]
+  findings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- { added, removed, changed } against the previous snapshot; null on the first run
+  diff JSONB,
+  summary TEXT,
+  -- Whether the diff met the alert condition (and the run notified)
+  condition_met BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE watch_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own watch snapshots"
+  ON watch_snapshots FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to watch_snapshots"
+  ON watch_snapshots FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_watch_snapshots_watch ON watch_snapshots(watch_id, created_at DESC);
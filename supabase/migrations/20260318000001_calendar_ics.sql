@@ -0,0 +1,73 @@
+-- Calendar ICS feed and subscriptions
+-- calendar_feeds: one secret token per user. calendar-feed serves the user's
+-- event and reminder entries as text/calendar at ?token=..., so Google or
+-- Apple Calendar can subscribe. Rotating the token kills the old URL.
+-- calendar_subscriptions: external ICS URLs that calendar-sync re-fetches
+-- hourly. Imported VEVENTs become entries with ics_uid set; (user_id, ics_uid)
+-- is unique, so a re-sync or re-import updates an event instead of duplicating it.
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_accessed_at TIMESTAMPTZ
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own calendar feed"
+  ON calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to calendar_feeds"
+  ON calendar_feeds FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TABLE IF NOT EXISTS calendar_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  url TEXT NOT NULL,
+  name TEXT NOT NULL,
+  last_synced_at TIMESTAMPTZ,
+  -- Error of the latest sync; null once a sync succeeds
+  last_error TEXT,
+  event_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, url)
+);
+
+ALTER TABLE calendar_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own calendar subscriptions"
+  ON calendar_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to calendar_subscriptions"
+  ON calendar_subscriptions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- UID of the VEVENT an entry was imported from; null for entries made in the app
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS ics_uid TEXT;
+-- Subscription that owns the entry — events dropped from the feed are removed on sync
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS calendar_subscription_id UUID
+  REFERENCES calendar_subscriptions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_ics_uid ON entries(user_id, ics_uid);
+CREATE INDEX IF NOT EXISTS idx_entries_calendar_subscription
+  ON entries(calendar_subscription_id) WHERE calendar_subscription_id IS NOT NULL;
+
+-- Cron job: re-sync every subscription hourly
+SELECT cron.schedule(
+  'calendar-subscriptions-hourly',
+  '17 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'supabase_url' LIMIT 1) || '/functions/v1/calendar-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1)
+    ),
+    body := '{"action": "sync_all"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,22 @@
+-- Full recurrence rules for events and reminders
+-- entries.rrule holds an RFC 5545 RRULE value ("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU")
+-- anchored at event_date; exdates are occurrence dates that were skipped.
+-- recurrence_pattern stays in step with the rule's FREQ for older clients.
+-- reminder_sent only applies to one-off entries: a recurring entry records the
+-- occurrence it last reminded about in reminder_sent_for, so every occurrence
+-- reminds once.
+
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS rrule TEXT;
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS exdates DATE[] NOT NULL DEFAULT '{}';
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS reminder_sent_for DATE;
+
+-- Existing recurring entries get the rule their pattern meant
+UPDATE entries
+SET rrule = 'FREQ=' || upper(recurrence_pattern)
+WHERE is_recurring = true
+  AND rrule IS NULL
+  AND recurrence_pattern IN ('daily', 'weekly', 'monthly', 'yearly');
+
+-- calendar-reminder-check scans recurring entries with a reminder on every run
+CREATE INDEX IF NOT EXISTS idx_entries_recurring_reminders
+  ON entries(user_id) WHERE rrule IS NOT NULL AND reminder_minutes IS NOT NULL AND archived = false;
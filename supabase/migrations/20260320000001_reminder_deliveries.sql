@@ -0,0 +1,55 @@
+-- Reminder delivery and acknowledgement
+-- One row per reminded occurrence (entry + occurrence date). calendar-reminder-check
+-- records each Slack delivery here; reminder-action records what the user did
+-- about it (Slack buttons or the web banner):
+--   sent         → delivered, waiting for the user
+--   failed       → no Slack channel / delivery error
+--   snoozed      → re-delivered once snoozed_until passes
+--   escalated    → high-importance and unacknowledged after the user's delay;
+--                  pinged again (same channel or the escalation channel)
+--   acknowledged → done
+--   rescheduled  → the entry moved; its new date reminds again
+--   missed       → the event passed an hour ago with no action
+-- The morning brief lists missed reminders.
+
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  entry_id UUID NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  event_at TIMESTAMPTZ NOT NULL,
+  importance INTEGER,
+  status TEXT NOT NULL DEFAULT 'sent'
+    CHECK (status IN ('sent', 'failed', 'snoozed', 'escalated', 'acknowledged', 'rescheduled', 'missed')),
+  delivery_count INTEGER NOT NULL DEFAULT 0,
+  sent_at TIMESTAMPTZ,
+  -- Where the latest message went, so acknowledging on the web can clear its buttons
+  slack_channel TEXT,
+  slack_ts TEXT,
+  snoozed_until TIMESTAMPTZ,
+  escalated_at TIMESTAMPTZ,
+  acknowledged_at TIMESTAMPTZ,
+  ack_via TEXT CHECK (ack_via IN ('slack', 'web')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (entry_id, occurrence_date)
+);
+
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own reminder deliveries"
+  ON reminder_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to reminder_deliveries"
+  ON reminder_deliveries FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- calendar-reminder-check: snoozes to re-deliver, reminders to escalate or mark missed
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_open
+  ON reminder_deliveries(status, sent_at)
+  WHERE status IN ('sent', 'failed', 'snoozed', 'escalated');
+
+-- Morning brief and web banner: a user's recent deliveries
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_user
+  ON reminder_deliveries(user_id, event_at DESC);
@@ -0,0 +1,6 @@
+-- poll-ci records post-merge CI results as validation_type 'ci' (stage 'ci').
+-- 20260312000001 rebuilt the CHECK without it, so those rows were rejected.
+
+ALTER TABLE public.code_validations DROP CONSTRAINT IF EXISTS code_validations_validation_type_check;
+ALTER TABLE public.code_validations ADD CONSTRAINT code_validations_validation_type_check
+  CHECK (validation_type IN ('build', 'test', 'lint', 'syntax', 'typecheck', 'ci'));
@@ -0,0 +1,26 @@
+-- sync-entries exposes rrule and exdates (20260319000001), so a change to
+-- either must move sync_updated_at like any other synced field. Skipping a
+-- single occurrence only touches exdates.
+
+CREATE OR REPLACE FUNCTION public.touch_entry_sync_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- clock_timestamp, not now(): rows in one transaction still get distinct cursors
+  IF TG_OP = 'INSERT' THEN
+    NEW.sync_updated_at = clock_timestamp();
+  ELSIF (NEW.title, NEW.content, NEW.content_type, NEW.content_subtype, NEW.tags, NEW.list_items,
+         NEW.starred, NEW.archived, NEW.importance_score, NEW.image_url, NEW.event_date, NEW.event_time,
+         NEW.is_recurring, NEW.recurrence_pattern, NEW.rrule, NEW.exdates, NEW.reminder_minutes)
+        IS DISTINCT FROM
+        (OLD.title, OLD.content, OLD.content_type, OLD.content_subtype, OLD.tags, OLD.list_items,
+         OLD.starred, OLD.archived, OLD.importance_score, OLD.image_url, OLD.event_date, OLD.event_time,
+         OLD.is_recurring, OLD.recurrence_pattern, OLD.rrule, OLD.exdates, OLD.reminder_minutes) THEN
+    NEW.sync_updated_at = clock_timestamp();
+  ELSE
+    NEW.sync_updated_at = OLD.sync_updated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
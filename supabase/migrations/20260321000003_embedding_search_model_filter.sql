@@ -0,0 +1,73 @@
+-- search_entries_by_embedding compares only vectors from the caller's model.
+-- Isolates cache the active model for up to a minute, so right after a
+-- cutover a query can still be embedded with the old model; filter_model
+-- keeps it from being scored against the new model's vectors.
+-- Same signature plus filter_model; NULL keeps the old unfiltered behaviour.
+
+SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS public.search_entries_by_embedding(extensions.vector, double precision, integer, uuid, boolean);
+
+CREATE FUNCTION public.search_entries_by_embedding(
+  query_embedding extensions.vector,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 10,
+  filter_user_id uuid DEFAULT NULL,
+  decay_weight boolean DEFAULT false,
+  filter_model text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  title text,
+  content_type text,
+  content_subtype text,
+  tags text[],
+  importance_score integer,
+  created_at timestamptz,
+  event_date date,
+  event_time time,
+  image_url text,
+  similarity float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.content,
+    e.title,
+    e.content_type,
+    e.content_subtype,
+    e.tags,
+    e.importance_score,
+    e.created_at,
+    e.event_date,
+    e.event_time,
+    e.image_url,
+    CASE
+      WHEN decay_weight THEN
+        (1 - (e.embedding <=> query_embedding)) *
+        (0.5 + 0.5 / (1.0 + EXTRACT(EPOCH FROM (now() - COALESCE(e.last_accessed_at, e.created_at))) / (30.0 * 86400.0)))
+      ELSE
+        1 - (e.embedding <=> query_embedding)
+    END AS similarity
+  FROM public.entries e
+  WHERE e.user_id = filter_user_id
+    AND e.archived = false
+    AND e.embedding IS NOT NULL
+    AND (filter_model IS NULL OR e.embedding_model = filter_model)
+    AND 1 - (e.embedding <=> query_embedding) > match_threshold
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Internal only — takes filter_user_id from its caller, so only edge functions
+-- with the service role may call it
+REVOKE EXECUTE ON FUNCTION public.search_entries_by_embedding(extensions.vector, double precision, integer, uuid, boolean, text) FROM PUBLIC, anon, authenticated;
+
+RESET search_path;
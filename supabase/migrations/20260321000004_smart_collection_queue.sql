@@ -0,0 +1,112 @@
+-- Smart collection notifications from every write path
+-- smart-save and import-notes ask smart-collections-check about a new entry
+-- right away. Everything else that can make an entry start matching — edits,
+-- enrichment, append, sync-entries, calendar imports, a fresh embedding —
+-- goes through this queue instead: a trigger records the entry, and a cron
+-- job drains the queue through smart-collections-check every minute.
+
+-- Entries waiting for a check (one row per entry, re-queued on every change)
+CREATE TABLE IF NOT EXISTS smart_collection_checks (
+  entry_id UUID PRIMARY KEY REFERENCES entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Current members of each notify-enabled collection, so only an entry that
+-- newly starts matching pings Slack (not every edit of an existing member)
+CREATE TABLE IF NOT EXISTS smart_collection_matches (
+  collection_id UUID NOT NULL REFERENCES smart_collections(id) ON DELETE CASCADE,
+  entry_id UUID NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (collection_id, entry_id)
+);
+
+ALTER TABLE smart_collection_checks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_collection_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to smart_collection_checks"
+  ON smart_collection_checks FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access to smart_collection_matches"
+  ON smart_collection_matches FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_smart_collection_checks_queued ON smart_collection_checks(queued_at);
+CREATE INDEX IF NOT EXISTS idx_smart_collection_matches_entry ON smart_collection_matches(entry_id);
+
+-- Queue an entry when it is created or a field a collection query can match
+-- on changes. Skipped for users with no notify-enabled collection.
+CREATE OR REPLACE FUNCTION public.queue_smart_collection_check()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND (OLD.title, OLD.content, OLD.tags, OLD.content_type, OLD.importance_score,
+          OLD.starred, OLD.archived, OLD.embedding)
+     IS NOT DISTINCT FROM
+         (NEW.title, NEW.content, NEW.tags, NEW.content_type, NEW.importance_score,
+          NEW.starred, NEW.archived, NEW.embedding) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM smart_collections
+    WHERE user_id = NEW.user_id AND notify_slack
+  ) THEN
+    INSERT INTO smart_collection_checks (entry_id, user_id)
+    VALUES (NEW.id, NEW.user_id)
+    ON CONFLICT (entry_id) DO UPDATE SET queued_at = now();
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_entries_smart_collection_check ON public.entries;
+CREATE TRIGGER queue_entries_smart_collection_check
+  AFTER INSERT OR UPDATE ON public.entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_smart_collection_check();
+
+-- A changed query (or notify switched back on) means a different membership:
+-- forget the old one and let smart-collections-check seed it afresh
+CREATE OR REPLACE FUNCTION public.reset_smart_collection_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (OLD.query, OLD.notify_slack) IS DISTINCT FROM (NEW.query, NEW.notify_slack) THEN
+    DELETE FROM smart_collection_matches WHERE collection_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_smart_collections_matches ON public.smart_collections;
+CREATE TRIGGER reset_smart_collections_matches
+  AFTER UPDATE ON public.smart_collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_smart_collection_matches();
+
+-- Cron job: drain the queue every minute
+SELECT cron.schedule(
+  'smart-collections-check-minutely',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'supabase_url' LIMIT 1) || '/functions/v1/smart-collections-check',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1)
+    ),
+    body := '{"action": "drain"}'::jsonb
+  );
+  $$
+);